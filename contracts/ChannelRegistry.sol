@@ -0,0 +1,392 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {IMessagingKeys} from "./GroupRegistry.sol";
+
+/// @title ChannelRegistry - Encrypted broadcast channels of WhisperVault users
+/// @author WhisperLink Team
+/// @notice Channels with one publisher who posts and subscribers who only read. Accounts ask to
+///         subscribe and the publisher approves them; the channel key is wrapped separately to the
+///         WhisperVault messaging key of the publisher and of each subscriber, and replaced by a new
+///         one (a new epoch) whenever a subscriber is approved or goes
+/// @dev Keys are generated, wrapped and used client-side, the contract only stores ciphertexts.
+///      Subscriber lists keep their order: approved subscribers are appended, removed ones taken
+///      out in place, so a client knows the order to wrap a new key in
+contract ChannelRegistry {
+    uint256 public constant MAX_SUBSCRIBERS = 64;
+    uint256 public constant MAX_REQUESTS = 64;
+    uint256 public constant MAX_NAME_SIZE = 1024;
+    uint256 public constant MAX_WRAPPED_KEY_SIZE = 256;
+    uint256 public constant MAX_POST_SIZE = 16384;
+
+    enum Status {
+        None,
+        Pending,
+        Subscriber,
+        Publisher
+    }
+
+    /// @notice A channel; channel ids start at 1, channel `id` is stored at `id - 1`
+    struct Channel {
+        address publisher;
+        bytes name; // Encrypted with the channel key of the current epoch
+        uint256 epoch; // Incremented on every new channel key
+        bool rekeyNeeded; // A subscriber left with the current key; the publisher replaces it before posting
+        uint256 createdAt;
+    }
+
+    /// @notice A post to a channel, readable by whoever held the channel key of its epoch
+    struct Post {
+        uint256 epoch; // Epoch of the channel key the post is encrypted with
+        bytes encryptedContent;
+        uint256 timestamp;
+    }
+
+    /// @notice WhisperVault, whose messaging keys channel keys are wrapped to
+    IMessagingKeys public immutable vault;
+
+    Channel[] private _channels;
+
+    /// @notice Mapping from channel id to its subscribers, in the order of the wrapped keys after the publisher's
+    mapping(uint256 => address[]) private _subscribers;
+
+    /// @notice Mapping from channel id to the accounts waiting for approval, in no particular order
+    mapping(uint256 => address[]) private _requests;
+
+    /// @notice Mapping from channel id and account to the account's status in the channel
+    mapping(uint256 => mapping(address => Status)) private _statuses;
+
+    /// @notice Mapping from channel id, epoch and account to the channel key wrapped to that account
+    mapping(uint256 => mapping(uint256 => mapping(address => bytes))) private _wrappedKeys;
+
+    /// @notice Mapping from channel id to its posts
+    mapping(uint256 => Post[]) private _posts;
+
+    /// @notice Mapping from account to every channel it ever published, asked for or read (see getChannelsOf)
+    mapping(address => uint256[]) private _accountChannels;
+    mapping(address => mapping(uint256 => bool)) private _isListed;
+
+    /// @notice Event emitted when a channel is created
+    event ChannelCreated(uint256 indexed channelId, address indexed publisher);
+
+    /// @notice Event emitted when a channel's encrypted name is replaced
+    event ChannelRenamed(uint256 indexed channelId, uint256 size);
+
+    /// @notice Event emitted when an account asks to subscribe to a channel
+    event SubscriptionRequested(uint256 indexed channelId, address indexed account);
+
+    /// @notice Event emitted when a request is withdrawn by its account or rejected by the publisher
+    event SubscriptionRequestClosed(uint256 indexed channelId, address indexed account, bool rejected);
+
+    /// @notice Event emitted when the publisher approves a subscriber
+    event SubscriberAdded(uint256 indexed channelId, address indexed subscriber);
+
+    /// @notice Event emitted when a subscriber is removed by the publisher or unsubscribes
+    event SubscriberRemoved(uint256 indexed channelId, address indexed subscriber);
+
+    /// @notice Event emitted when a channel gets a new channel key
+    event ChannelKeyRotated(uint256 indexed channelId, uint256 indexed epoch, uint256 subscriberCount);
+
+    /// @notice Event emitted when the publisher posts to a channel
+    event PostPublished(uint256 indexed channelId, uint256 indexed postIndex, uint256 epoch, uint256 size);
+
+    /// @param vaultAddress The WhisperVault whose messaging keys channel keys are wrapped to
+    constructor(address vaultAddress) {
+        require(vaultAddress != address(0), "Channels: Invalid vault");
+        vault = IMessagingKeys(vaultAddress);
+    }
+
+    /// @notice Create a channel with the caller as its publisher and no subscribers yet
+    /// @param encryptedName The name, encrypted with the channel key
+    /// @param wrappedKey The channel key wrapped to the caller
+    /// @return channelId The id of the new channel
+    function createChannel(
+        bytes calldata encryptedName,
+        bytes calldata wrappedKey
+    ) external returns (uint256 channelId) {
+        require(vault.getMessagingKey(msg.sender) != bytes32(0), "Channels: Publisher has no key");
+        _channels.push(Channel(msg.sender, "", 0, false, block.timestamp));
+        channelId = _channels.length;
+        _statuses[channelId][msg.sender] = Status.Publisher;
+        _list(channelId, msg.sender);
+        emit ChannelCreated(channelId, msg.sender);
+
+        bytes[] memory wrappedKeys = new bytes[](1);
+        wrappedKeys[0] = wrappedKey;
+        _rotate(channelId, encryptedName, wrappedKeys);
+    }
+
+    /// @notice Ask the publisher of a channel to approve the caller as a subscriber
+    /// @param channelId The channel id
+    function requestSubscription(uint256 channelId) external {
+        _channel(channelId);
+        require(_statuses[channelId][msg.sender] == Status.None, "Channels: Already subscribed or pending");
+        require(vault.getMessagingKey(msg.sender) != bytes32(0), "Channels: Subscriber has no key");
+        require(_requests[channelId].length < MAX_REQUESTS, "Channels: Too many requests");
+
+        _requests[channelId].push(msg.sender);
+        _statuses[channelId][msg.sender] = Status.Pending;
+        _list(channelId, msg.sender);
+        emit SubscriptionRequested(channelId, msg.sender);
+    }
+
+    /// @notice Withdraw the caller's request to subscribe to a channel
+    /// @param channelId The channel id
+    function cancelRequest(uint256 channelId) external {
+        _closeRequest(channelId, msg.sender);
+        emit SubscriptionRequestClosed(channelId, msg.sender, false);
+    }
+
+    /// @notice Reject requests to subscribe to a channel
+    /// @param channelId The channel id
+    /// @param accounts The accounts whose requests are rejected
+    function rejectRequests(uint256 channelId, address[] calldata accounts) external {
+        _requirePublisher(channelId);
+        for (uint256 i = 0; i < accounts.length; i++) {
+            _closeRequest(channelId, accounts[i]);
+            emit SubscriptionRequestClosed(channelId, accounts[i], true);
+        }
+    }
+
+    /// @notice Approve requests and remove subscribers, replacing the channel key
+    /// @dev With no one approved or removed, only replaces the key, e.g. after a subscriber left
+    /// @param channelId The channel id
+    /// @param approved Accounts with a pending request to approve
+    /// @param removed Subscribers to remove
+    /// @param encryptedName The name, encrypted with the new channel key
+    /// @param wrappedKeys The new channel key wrapped to the publisher, then to each subscriber of the
+    ///        resulting list, in order
+    function updateSubscribers(
+        uint256 channelId,
+        address[] calldata approved,
+        address[] calldata removed,
+        bytes calldata encryptedName,
+        bytes[] calldata wrappedKeys
+    ) external {
+        _requirePublisher(channelId);
+        for (uint256 i = 0; i < removed.length; i++) {
+            _removeSubscriber(channelId, removed[i]);
+        }
+        for (uint256 i = 0; i < approved.length; i++) {
+            address account = approved[i];
+            _closeRequest(channelId, account);
+            require(_subscribers[channelId].length < MAX_SUBSCRIBERS, "Channels: Too many subscribers");
+            _subscribers[channelId].push(account);
+            _statuses[channelId][account] = Status.Subscriber;
+            emit SubscriberAdded(channelId, account);
+        }
+        _rotate(channelId, encryptedName, wrappedKeys);
+    }
+
+    /// @notice Stop reading a channel; its publisher then has to replace the channel key before posting again
+    /// @param channelId The channel id
+    function unsubscribe(uint256 channelId) external {
+        Channel storage channel = _channel(channelId);
+        _removeSubscriber(channelId, msg.sender);
+        channel.rekeyNeeded = true;
+    }
+
+    /// @notice Replace the encrypted name of a channel
+    /// @param channelId The channel id
+    /// @param encryptedName The name, encrypted with the current channel key
+    function renameChannel(uint256 channelId, bytes calldata encryptedName) external {
+        _requirePublisher(channelId);
+        _setName(channelId, encryptedName);
+    }
+
+    /// @notice Post to a channel
+    /// @param channelId The channel id
+    /// @param encryptedContent The post, encrypted with the current channel key
+    function publish(uint256 channelId, bytes calldata encryptedContent) external {
+        Channel storage channel = _requirePublisher(channelId);
+        require(!channel.rekeyNeeded, "Channels: Key rotation pending");
+        require(encryptedContent.length > 0, "Empty message");
+        require(encryptedContent.length <= MAX_POST_SIZE, "Message too large");
+
+        Post[] storage posts = _posts[channelId];
+        posts.push(Post(channel.epoch, encryptedContent, block.timestamp));
+        emit PostPublished(channelId, posts.length - 1, channel.epoch, encryptedContent.length);
+    }
+
+    /// @notice Returns the number of channels ever created; the latest one has this id
+    function getChannelCount() external view returns (uint256) {
+        return _channels.length;
+    }
+
+    /// @notice Returns a channel
+    /// @param channelId The channel id
+    /// @return channel The channel
+    /// @return postCount The number of posts published to it
+    function getChannel(uint256 channelId) external view returns (Channel memory channel, uint256 postCount) {
+        return (_channel(channelId), _posts[channelId].length);
+    }
+
+    /// @notice Returns the subscribers of a channel
+    /// @param channelId The channel id
+    /// @return The subscribers, in the order new channel keys are wrapped in after the publisher
+    function getSubscribers(uint256 channelId) external view returns (address[] memory) {
+        return _subscribers[channelId];
+    }
+
+    /// @notice Returns the accounts waiting for the publisher to approve them
+    /// @param channelId The channel id
+    /// @return The accounts with a pending request
+    function getRequests(uint256 channelId) external view returns (address[] memory) {
+        return _requests[channelId];
+    }
+
+    /// @notice Returns the status of an account in a channel
+    /// @param channelId The channel id
+    /// @param account The account address
+    /// @return The status, None if the account neither publishes, reads nor asked to
+    function getStatus(uint256 channelId, address account) external view returns (Status) {
+        return _statuses[channelId][account];
+    }
+
+    /// @notice Returns the channel key of an epoch wrapped to an account
+    /// @dev Subscribers keep the keys of the epochs they read in, to read the posts of those epochs
+    /// @param channelId The channel id
+    /// @param epoch The epoch
+    /// @param account The account address
+    /// @return The wrapped key, empty if the account held no key in that epoch
+    function getWrappedKey(uint256 channelId, uint256 epoch, address account) external view returns (bytes memory) {
+        return _wrappedKeys[channelId][epoch][account];
+    }
+
+    /// @notice Returns the channels an account currently publishes, reads or asked to read
+    /// @param account The account address
+    /// @return channelIds The channel ids, in the order the account first appeared in them
+    /// @return statuses The account's status in each channel
+    function getChannelsOf(
+        address account
+    ) external view returns (uint256[] memory channelIds, Status[] memory statuses) {
+        uint256[] storage listed = _accountChannels[account];
+        uint256 count = 0;
+        for (uint256 i = 0; i < listed.length; i++) {
+            if (_statuses[listed[i]][account] != Status.None) count++;
+        }
+
+        channelIds = new uint256[](count);
+        statuses = new Status[](count);
+        count = 0;
+        for (uint256 i = 0; i < listed.length; i++) {
+            Status status = _statuses[listed[i]][account];
+            if (status == Status.None) continue;
+            channelIds[count] = listed[i];
+            statuses[count++] = status;
+        }
+    }
+
+    /// @notice Get a page of the posts of a channel, oldest first
+    /// @param channelId The channel id
+    /// @param offset Position of the first post
+    /// @param limit Maximum number of posts to return
+    /// @return page The posts from `offset`, empty if `offset` is past the end
+    function getPostsRange(
+        uint256 channelId,
+        uint256 offset,
+        uint256 limit
+    ) external view returns (Post[] memory page) {
+        Post[] storage posts = _posts[channelId];
+        if (offset >= posts.length) return page;
+
+        uint256 count = posts.length - offset;
+        if (count > limit) count = limit;
+        page = new Post[](count);
+        for (uint256 i = 0; i < count; i++) {
+            page[i] = posts[offset + i];
+        }
+    }
+
+    /// @notice Get a page of the posts of a channel, newest first
+    /// @param channelId The channel id
+    /// @param offset Number of newest posts to skip
+    /// @param limit Maximum number of posts to return
+    /// @return page The posts, newest first; post `i` is at position `total - 1 - offset - i`
+    /// @return total The number of posts of the channel
+    function getLatestPosts(
+        uint256 channelId,
+        uint256 offset,
+        uint256 limit
+    ) external view returns (Post[] memory page, uint256 total) {
+        Post[] storage posts = _posts[channelId];
+        total = posts.length;
+        if (offset >= total) return (page, total);
+
+        uint256 count = total - offset;
+        if (count > limit) count = limit;
+        page = new Post[](count);
+        for (uint256 i = 0; i < count; i++) {
+            page[i] = posts[total - 1 - offset - i];
+        }
+    }
+
+    function _channel(uint256 channelId) private view returns (Channel storage) {
+        require(channelId > 0 && channelId <= _channels.length, "Channels: Unknown channel");
+        return _channels[channelId - 1];
+    }
+
+    function _requirePublisher(uint256 channelId) private view returns (Channel storage channel) {
+        channel = _channel(channelId);
+        require(channel.publisher == msg.sender, "Channels: Not the publisher");
+    }
+
+    function _list(uint256 channelId, address account) private {
+        if (_isListed[account][channelId]) return;
+        _isListed[account][channelId] = true;
+        _accountChannels[account].push(channelId);
+    }
+
+    /// @dev Request order doesn't matter, so the last one takes the place of the closed one
+    function _closeRequest(uint256 channelId, address account) private {
+        require(_statuses[channelId][account] == Status.Pending, "Channels: No pending request");
+        address[] storage requests = _requests[channelId];
+        uint256 i = 0;
+        while (requests[i] != account) i++;
+        requests[i] = requests[requests.length - 1];
+        requests.pop();
+        delete _statuses[channelId][account];
+    }
+
+    /// @dev Keeps the order of the remaining subscribers
+    function _removeSubscriber(uint256 channelId, address account) private {
+        require(_statuses[channelId][account] == Status.Subscriber, "Channels: Not a subscriber");
+        address[] storage subscribers = _subscribers[channelId];
+        uint256 i = 0;
+        while (subscribers[i] != account) i++;
+        for (; i + 1 < subscribers.length; i++) {
+            subscribers[i] = subscribers[i + 1];
+        }
+        subscribers.pop();
+
+        delete _statuses[channelId][account];
+        emit SubscriberRemoved(channelId, account);
+    }
+
+    /// @dev Starts a new epoch with a channel key wrapped to the publisher and every current subscriber
+    function _rotate(uint256 channelId, bytes calldata encryptedName, bytes[] memory wrappedKeys) private {
+        Channel storage channel = _channels[channelId - 1];
+        address[] storage subscribers = _subscribers[channelId];
+        require(wrappedKeys.length == subscribers.length + 1, "Channels: Length mismatch");
+
+        uint256 epoch = ++channel.epoch;
+        for (uint256 i = 0; i < wrappedKeys.length; i++) {
+            require(
+                wrappedKeys[i].length > 0 && wrappedKeys[i].length <= MAX_WRAPPED_KEY_SIZE,
+                "Channels: Invalid wrapped key"
+            );
+            address account = i == 0 ? channel.publisher : subscribers[i - 1];
+            _wrappedKeys[channelId][epoch][account] = wrappedKeys[i];
+        }
+        channel.rekeyNeeded = false;
+        _setName(channelId, encryptedName);
+        emit ChannelKeyRotated(channelId, epoch, subscribers.length);
+    }
+
+    function _setName(uint256 channelId, bytes calldata encryptedName) private {
+        require(encryptedName.length > 0, "Channels: Empty name");
+        require(encryptedName.length <= MAX_NAME_SIZE, "Channels: Name too large");
+        _channels[channelId - 1].name = encryptedName;
+        emit ChannelRenamed(channelId, encryptedName.length);
+    }
+}
@@ -0,0 +1,376 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+/// @notice The part of WhisperVault the registry reads: the messaging keys accounts published
+interface IMessagingKeys {
+    function getMessagingKey(address account) external view returns (bytes32);
+}
+
+/// @title GroupRegistry - Private group conversations of WhisperVault users
+/// @author WhisperLink Team
+/// @notice Groups with a creator, admins and members sharing a symmetric group key. The key is
+///         wrapped separately to each member's WhisperVault messaging key, and replaced by a new
+///         one (a new epoch) whenever a member joins or goes
+/// @dev Keys are generated, wrapped and used client-side, the contract only stores ciphertexts.
+///      Member lists keep their order: new members are appended, removed ones taken out in place,
+///      so a client knows the order to wrap a new key in
+contract GroupRegistry {
+    uint256 public constant MAX_MEMBERS = 32;
+    uint256 public constant MAX_NAME_SIZE = 1024;
+    uint256 public constant MAX_WRAPPED_KEY_SIZE = 256;
+    uint256 public constant MAX_MESSAGE_SIZE = 16384;
+
+    enum Role {
+        None,
+        Member,
+        Admin
+    }
+
+    /// @notice A group; group ids start at 1, group `id` is stored at `id - 1`
+    struct Group {
+        address creator;
+        bytes name; // Encrypted with the group key of the current epoch
+        uint256 epoch; // Incremented on every new group key
+        bool rekeyNeeded; // A member left with the current key; an admin has to replace it before anyone writes
+        uint256 createdAt;
+    }
+
+    /// @notice A message to a group, readable by whoever held the group key of its epoch
+    struct GroupMessage {
+        address sender;
+        uint256 epoch; // Epoch of the group key the message is encrypted with
+        bytes encryptedContent;
+        uint256 timestamp;
+    }
+
+    /// @notice WhisperVault, whose messaging keys group keys are wrapped to
+    IMessagingKeys public immutable vault;
+
+    Group[] private _groups;
+
+    /// @notice Mapping from group id to its members, in the order of the wrapped keys
+    mapping(uint256 => address[]) private _members;
+
+    /// @notice Mapping from group id and account to the account's role in the group
+    mapping(uint256 => mapping(address => Role)) private _roles;
+
+    /// @notice Mapping from group id, epoch and member to the group key wrapped to that member
+    mapping(uint256 => mapping(uint256 => mapping(address => bytes))) private _wrappedKeys;
+
+    /// @notice Mapping from group id to its messages
+    mapping(uint256 => GroupMessage[]) private _messages;
+
+    /// @notice Mapping from account to every group it was ever a member of (see getGroupsOf)
+    mapping(address => uint256[]) private _memberGroups;
+    mapping(address => mapping(uint256 => bool)) private _isListed;
+
+    /// @notice Event emitted when a group is created
+    event GroupCreated(uint256 indexed groupId, address indexed creator);
+
+    /// @notice Event emitted when a group's encrypted name is replaced
+    event GroupRenamed(uint256 indexed groupId, uint256 size);
+
+    /// @notice Event emitted when an account joins a group
+    event MemberAdded(uint256 indexed groupId, address indexed member);
+
+    /// @notice Event emitted when an account is removed from a group or leaves it
+    event MemberRemoved(uint256 indexed groupId, address indexed member);
+
+    /// @notice Event emitted when an account becomes an admin of a group or stops being one
+    event AdminSet(uint256 indexed groupId, address indexed account, bool admin);
+
+    /// @notice Event emitted when a group gets a new group key
+    event GroupKeyRotated(uint256 indexed groupId, uint256 indexed epoch, uint256 memberCount);
+
+    /// @notice Event emitted when a message is sent to a group
+    event GroupMessageSent(
+        uint256 indexed groupId,
+        address indexed sender,
+        uint256 indexed messageIndex,
+        uint256 epoch,
+        uint256 size
+    );
+
+    /// @param vaultAddress The WhisperVault whose messaging keys group keys are wrapped to
+    constructor(address vaultAddress) {
+        require(vaultAddress != address(0), "Groups: Invalid vault");
+        vault = IMessagingKeys(vaultAddress);
+    }
+
+    /// @notice Create a group with the caller as its creator and first admin
+    /// @param encryptedName The name, encrypted with the group key
+    /// @param members The other members, each with a published messaging key
+    /// @param wrappedKeys The group key wrapped to the caller, then to each of `members`
+    /// @return groupId The id of the new group
+    function createGroup(
+        bytes calldata encryptedName,
+        address[] calldata members,
+        bytes[] calldata wrappedKeys
+    ) external returns (uint256 groupId) {
+        _groups.push(Group(msg.sender, "", 0, false, block.timestamp));
+        groupId = _groups.length;
+        emit GroupCreated(groupId, msg.sender);
+
+        _addMember(groupId, msg.sender);
+        _roles[groupId][msg.sender] = Role.Admin;
+        emit AdminSet(groupId, msg.sender, true);
+        for (uint256 i = 0; i < members.length; i++) {
+            _addMember(groupId, members[i]);
+        }
+        _rotate(groupId, encryptedName, wrappedKeys);
+    }
+
+    /// @notice Add and remove members, replacing the group key
+    /// @dev With no members added or removed, only replaces the key, e.g. after a member left
+    /// @param groupId The group id
+    /// @param added Accounts to add, each with a published messaging key
+    /// @param removed Members to remove, other than the caller (see leaveGroup)
+    /// @param encryptedName The name, encrypted with the new group key
+    /// @param wrappedKeys The new group key wrapped to each member of the resulting list, in order
+    function updateMembers(
+        uint256 groupId,
+        address[] calldata added,
+        address[] calldata removed,
+        bytes calldata encryptedName,
+        bytes[] calldata wrappedKeys
+    ) external {
+        _requireAdmin(groupId);
+        for (uint256 i = 0; i < removed.length; i++) {
+            require(removed[i] != msg.sender, "Groups: Use leaveGroup");
+            _removeMember(groupId, removed[i]);
+        }
+        for (uint256 i = 0; i < added.length; i++) {
+            _addMember(groupId, added[i]);
+        }
+        _rotate(groupId, encryptedName, wrappedKeys);
+    }
+
+    /// @notice Leave a group; its admins then have to replace the group key before anyone writes again
+    /// @param groupId The group id
+    function leaveGroup(uint256 groupId) external {
+        require(_roles[groupId][msg.sender] != Role.None, "Groups: Not a member");
+        address[] storage members = _members[groupId];
+        if (_roles[groupId][msg.sender] == Role.Admin && members.length > 1) {
+            require(_adminCount(groupId) > 1, "Groups: Last admin");
+        }
+
+        _removeMember(groupId, msg.sender);
+        if (members.length > 0) _group(groupId).rekeyNeeded = true;
+    }
+
+    /// @notice Make a member an admin of a group, or make an admin a plain member again
+    /// @param groupId The group id
+    /// @param account The member
+    /// @param admin Whether the member is an admin
+    function setAdmin(uint256 groupId, address account, bool admin) external {
+        _requireAdmin(groupId);
+        Role role = _roles[groupId][account];
+        require(role != Role.None, "Groups: Not a member");
+        if (!admin && role == Role.Admin) {
+            require(_adminCount(groupId) > 1, "Groups: Last admin");
+        }
+
+        _roles[groupId][account] = admin ? Role.Admin : Role.Member;
+        emit AdminSet(groupId, account, admin);
+    }
+
+    /// @notice Replace the encrypted name of a group
+    /// @param groupId The group id
+    /// @param encryptedName The name, encrypted with the current group key
+    function renameGroup(uint256 groupId, bytes calldata encryptedName) external {
+        _requireAdmin(groupId);
+        _setName(groupId, encryptedName);
+    }
+
+    /// @notice Send a message to a group
+    /// @param groupId The group id
+    /// @param encryptedContent The message, encrypted with the current group key
+    function sendMessage(uint256 groupId, bytes calldata encryptedContent) external {
+        Group storage group = _group(groupId);
+        require(_roles[groupId][msg.sender] != Role.None, "Groups: Not a member");
+        require(!group.rekeyNeeded, "Groups: Key rotation pending");
+        require(encryptedContent.length > 0, "Empty message");
+        require(encryptedContent.length <= MAX_MESSAGE_SIZE, "Message too large");
+
+        GroupMessage[] storage messages = _messages[groupId];
+        messages.push(GroupMessage(msg.sender, group.epoch, encryptedContent, block.timestamp));
+        emit GroupMessageSent(groupId, msg.sender, messages.length - 1, group.epoch, encryptedContent.length);
+    }
+
+    /// @notice Returns the number of groups ever created; the latest one has this id
+    function getGroupCount() external view returns (uint256) {
+        return _groups.length;
+    }
+
+    /// @notice Returns a group
+    /// @param groupId The group id
+    /// @return group The group
+    /// @return messageCount The number of messages sent to it
+    function getGroup(uint256 groupId) external view returns (Group memory group, uint256 messageCount) {
+        return (_group(groupId), _messages[groupId].length);
+    }
+
+    /// @notice Returns the members of a group
+    /// @param groupId The group id
+    /// @return members The members, in the order new group keys are wrapped in
+    /// @return admins Whether each member is an admin
+    function getMembers(uint256 groupId) external view returns (address[] memory members, bool[] memory admins) {
+        members = _members[groupId];
+        admins = new bool[](members.length);
+        for (uint256 i = 0; i < members.length; i++) {
+            admins[i] = _roles[groupId][members[i]] == Role.Admin;
+        }
+    }
+
+    /// @notice Returns the role of an account in a group
+    /// @param groupId The group id
+    /// @param account The account address
+    /// @return The role, None if the account is not a member
+    function getRole(uint256 groupId, address account) external view returns (Role) {
+        return _roles[groupId][account];
+    }
+
+    /// @notice Returns the group key of an epoch wrapped to an account
+    /// @dev Members keep the keys of the epochs they belonged to, to read the messages of those epochs
+    /// @param groupId The group id
+    /// @param epoch The epoch
+    /// @param account The account address
+    /// @return The wrapped key, empty if the account was not a member in that epoch
+    function getWrappedKey(uint256 groupId, uint256 epoch, address account) external view returns (bytes memory) {
+        return _wrappedKeys[groupId][epoch][account];
+    }
+
+    /// @notice Returns the groups an account is currently a member of
+    /// @param account The account address
+    /// @return groupIds The group ids, in the order the account joined them
+    function getGroupsOf(address account) external view returns (uint256[] memory groupIds) {
+        uint256[] storage listed = _memberGroups[account];
+        uint256 count = 0;
+        for (uint256 i = 0; i < listed.length; i++) {
+            if (_roles[listed[i]][account] != Role.None) count++;
+        }
+
+        groupIds = new uint256[](count);
+        count = 0;
+        for (uint256 i = 0; i < listed.length; i++) {
+            if (_roles[listed[i]][account] != Role.None) groupIds[count++] = listed[i];
+        }
+    }
+
+    /// @notice Get a page of the messages of a group, oldest first
+    /// @param groupId The group id
+    /// @param offset Position of the first message
+    /// @param limit Maximum number of messages to return
+    /// @return page The messages from `offset`, empty if `offset` is past the end
+    function getMessagesRange(
+        uint256 groupId,
+        uint256 offset,
+        uint256 limit
+    ) external view returns (GroupMessage[] memory page) {
+        GroupMessage[] storage messages = _messages[groupId];
+        if (offset >= messages.length) return page;
+
+        uint256 count = messages.length - offset;
+        if (count > limit) count = limit;
+        page = new GroupMessage[](count);
+        for (uint256 i = 0; i < count; i++) {
+            page[i] = messages[offset + i];
+        }
+    }
+
+    /// @notice Get a page of the messages of a group, newest first
+    /// @param groupId The group id
+    /// @param offset Number of newest messages to skip
+    /// @param limit Maximum number of messages to return
+    /// @return page The messages, newest first; message `i` is at position `total - 1 - offset - i`
+    /// @return total The number of messages of the group
+    function getLatestMessages(
+        uint256 groupId,
+        uint256 offset,
+        uint256 limit
+    ) external view returns (GroupMessage[] memory page, uint256 total) {
+        GroupMessage[] storage messages = _messages[groupId];
+        total = messages.length;
+        if (offset >= total) return (page, total);
+
+        uint256 count = total - offset;
+        if (count > limit) count = limit;
+        page = new GroupMessage[](count);
+        for (uint256 i = 0; i < count; i++) {
+            page[i] = messages[total - 1 - offset - i];
+        }
+    }
+
+    function _group(uint256 groupId) private view returns (Group storage) {
+        require(groupId > 0 && groupId <= _groups.length, "Groups: Unknown group");
+        return _groups[groupId - 1];
+    }
+
+    function _requireAdmin(uint256 groupId) private view {
+        _group(groupId);
+        require(_roles[groupId][msg.sender] == Role.Admin, "Groups: Not an admin");
+    }
+
+    function _adminCount(uint256 groupId) private view returns (uint256 count) {
+        address[] storage members = _members[groupId];
+        for (uint256 i = 0; i < members.length; i++) {
+            if (_roles[groupId][members[i]] == Role.Admin) count++;
+        }
+    }
+
+    function _addMember(uint256 groupId, address account) private {
+        require(account != address(0), "Groups: Invalid member");
+        require(_roles[groupId][account] == Role.None, "Groups: Already a member");
+        require(vault.getMessagingKey(account) != bytes32(0), "Groups: Member has no key");
+        require(_members[groupId].length < MAX_MEMBERS, "Groups: Too many members");
+
+        _members[groupId].push(account);
+        _roles[groupId][account] = Role.Member;
+        if (!_isListed[account][groupId]) {
+            _isListed[account][groupId] = true;
+            _memberGroups[account].push(groupId);
+        }
+        emit MemberAdded(groupId, account);
+    }
+
+    /// @dev Keeps the order of the remaining members
+    function _removeMember(uint256 groupId, address account) private {
+        require(_roles[groupId][account] != Role.None, "Groups: Not a member");
+        address[] storage members = _members[groupId];
+        uint256 i = 0;
+        while (members[i] != account) i++;
+        for (; i + 1 < members.length; i++) {
+            members[i] = members[i + 1];
+        }
+        members.pop();
+
+        delete _roles[groupId][account];
+        emit MemberRemoved(groupId, account);
+    }
+
+    /// @dev Starts a new epoch with a group key wrapped to every current member
+    function _rotate(uint256 groupId, bytes calldata encryptedName, bytes[] calldata wrappedKeys) private {
+        Group storage group = _groups[groupId - 1];
+        address[] storage members = _members[groupId];
+        require(wrappedKeys.length == members.length, "Groups: Length mismatch");
+
+        uint256 epoch = ++group.epoch;
+        for (uint256 i = 0; i < members.length; i++) {
+            require(
+                wrappedKeys[i].length > 0 && wrappedKeys[i].length <= MAX_WRAPPED_KEY_SIZE,
+                "Groups: Invalid wrapped key"
+            );
+            _wrappedKeys[groupId][epoch][members[i]] = wrappedKeys[i];
+        }
+        group.rekeyNeeded = false;
+        _setName(groupId, encryptedName);
+        emit GroupKeyRotated(groupId, epoch, members.length);
+    }
+
+    function _setName(uint256 groupId, bytes calldata encryptedName) private {
+        require(encryptedName.length > 0, "Groups: Empty name");
+        require(encryptedName.length <= MAX_NAME_SIZE, "Groups: Name too large");
+        _groups[groupId - 1].name = encryptedName;
+        emit GroupRenamed(groupId, encryptedName.length);
+    }
+}
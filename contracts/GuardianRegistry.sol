@@ -0,0 +1,282 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+/// @title GuardianRegistry - Social recovery of WhisperVault keys
+/// @author WhisperLink Team
+/// @notice Publishes the Shamir shares of a vault's data key, each encrypted to one guardian,
+///         and carries the shares guardians hand back to the owner during a recovery
+/// @dev Shares are split and encrypted client-side, the contract only stores ciphertexts
+contract GuardianRegistry {
+    uint256 public constant MIN_GUARDIANS = 3;
+    uint256 public constant MAX_GUARDIANS = 5;
+    uint256 public constant MAX_SHARE_SIZE = 256;
+
+    /// @notice Guardians of a vault and how many of them are needed to recover it
+    struct GuardianSet {
+        address[] guardians;
+        uint8 threshold;
+        bytes32 keyCommitment; // Hash of the shared data key, to check a recovered key
+        uint256 epoch; // Incremented on every new guardian set
+    }
+
+    /// @notice An open recovery: guardians encrypt their shares to recoveryKey
+    struct RecoveryRequest {
+        uint256 id;
+        bytes32 recoveryKey;
+        uint256 timestamp;
+    }
+
+    /// @notice A share handed back by a guardian for a recovery request
+    struct Submission {
+        uint256 requestId;
+        bytes share;
+    }
+
+    /// @notice Mapping from account to its X25519 public key, used to encrypt shares to guardians
+    mapping(address => bytes32) private _encryptionKeys;
+
+    /// @notice Mapping from owner to their guardian set
+    mapping(address => GuardianSet) private _guardianSets;
+
+    /// @notice Mapping from owner and guardian to the share encrypted to that guardian
+    mapping(address => mapping(address => bytes)) private _shares;
+
+    /// @notice Mapping from owner to the epoch of their latest guardian set
+    mapping(address => uint256) private _epochs;
+
+    /// @notice Mapping from guardian to every owner that ever named them (see getGuardedOwners)
+    mapping(address => address[]) private _guardedOwners;
+    mapping(address => mapping(address => bool)) private _isListed;
+
+    /// @notice Mapping from owner to their open recovery request
+    mapping(address => RecoveryRequest) private _requests;
+
+    /// @notice Mapping from owner to the number of recovery requests they opened
+    mapping(address => uint256) private _requestCounts;
+
+    /// @notice Mapping from owner and guardian to the share the guardian handed back
+    mapping(address => mapping(address => Submission)) private _submissions;
+
+    /// @notice Event emitted when an account publishes its encryption key
+    event EncryptionKeySet(address indexed account, bytes32 key);
+
+    /// @notice Event emitted when an owner names new guardians
+    event GuardiansUpdated(address indexed owner, uint256 indexed epoch, uint8 threshold, uint256 guardianCount);
+
+    /// @notice Event emitted when an owner removes their guardians
+    event GuardiansCleared(address indexed owner);
+
+    /// @notice Event emitted when an owner asks their guardians for help
+    event RecoveryStarted(address indexed owner, uint256 indexed requestId, bytes32 recoveryKey);
+
+    /// @notice Event emitted when a guardian hands back their share
+    event ShareSubmitted(address indexed owner, uint256 indexed requestId, address indexed guardian);
+
+    /// @notice Event emitted when a recovery is finished or cancelled
+    event RecoveryClosed(address indexed owner, uint256 indexed requestId);
+
+    /// @notice Publishes the caller's X25519 public key
+    /// @param key The public key
+    function setEncryptionKey(bytes32 key) external {
+        require(key != bytes32(0), "Registry: Empty key");
+        _encryptionKeys[msg.sender] = key;
+        emit EncryptionKeySet(msg.sender, key);
+    }
+
+    /// @notice Returns the X25519 public key of an account
+    /// @param account The account address
+    /// @return The public key, zero if the account has none
+    function getEncryptionKey(address account) external view returns (bytes32) {
+        return _encryptionKeys[account];
+    }
+
+    /// @notice Names the caller's guardians, replacing any previous set and closing an open recovery
+    /// @param guardians Guardian addresses, each with a published encryption key
+    /// @param threshold Number of guardians needed to recover the key
+    /// @param shares Share of each guardian, encrypted to their key
+    /// @param keyCommitment Hash of the shared data key
+    function setGuardians(
+        address[] calldata guardians,
+        uint8 threshold,
+        bytes[] calldata shares,
+        bytes32 keyCommitment
+    ) external {
+        require(guardians.length >= MIN_GUARDIANS && guardians.length <= MAX_GUARDIANS, "Registry: 3 to 5 guardians");
+        require(threshold >= 2 && threshold <= guardians.length, "Registry: Invalid threshold");
+        require(shares.length == guardians.length, "Registry: Length mismatch");
+        require(keyCommitment != bytes32(0), "Registry: Empty commitment");
+
+        _clearGuardians(msg.sender);
+
+        for (uint256 i = 0; i < guardians.length; i++) {
+            address guardian = guardians[i];
+            require(guardian != address(0) && guardian != msg.sender, "Registry: Invalid guardian");
+            require(_encryptionKeys[guardian] != bytes32(0), "Registry: Guardian has no key");
+            for (uint256 j = 0; j < i; j++) {
+                require(guardians[j] != guardian, "Registry: Duplicate guardian");
+            }
+            require(shares[i].length > 0 && shares[i].length <= MAX_SHARE_SIZE, "Registry: Invalid share");
+
+            _shares[msg.sender][guardian] = shares[i];
+            if (!_isListed[guardian][msg.sender]) {
+                _isListed[guardian][msg.sender] = true;
+                _guardedOwners[guardian].push(msg.sender);
+            }
+        }
+
+        uint256 epoch = ++_epochs[msg.sender];
+        _guardianSets[msg.sender] = GuardianSet(guardians, threshold, keyCommitment, epoch);
+        emit GuardiansUpdated(msg.sender, epoch, threshold, guardians.length);
+    }
+
+    /// @notice Removes the caller's guardians and their shares
+    function clearGuardians() external {
+        require(_guardianSets[msg.sender].guardians.length > 0, "Registry: No guardians");
+        _clearGuardians(msg.sender);
+        emit GuardiansCleared(msg.sender);
+    }
+
+    /// @notice Returns an owner's guardian set
+    /// @param owner The owner address
+    /// @return guardians The guardian addresses, empty if the owner has none
+    /// @return threshold Number of guardians needed to recover the key
+    /// @return keyCommitment Hash of the shared data key
+    /// @return epoch Number of the guardian set, zero if the owner has none
+    function getGuardians(
+        address owner
+    ) external view returns (address[] memory guardians, uint8 threshold, bytes32 keyCommitment, uint256 epoch) {
+        GuardianSet storage set = _guardianSets[owner];
+        return (set.guardians, set.threshold, set.keyCommitment, set.epoch);
+    }
+
+    /// @notice Returns the share an owner encrypted to one of their guardians
+    /// @param owner The owner address
+    /// @param guardian The guardian address
+    /// @return The encrypted share, empty if the account is not a guardian of the owner
+    function getShare(address owner, address guardian) external view returns (bytes memory) {
+        return _shares[owner][guardian];
+    }
+
+    /// @notice Returns the owners an account is currently a guardian of
+    /// @param guardian The guardian address
+    /// @return owners The owner addresses
+    function getGuardedOwners(address guardian) external view returns (address[] memory owners) {
+        address[] storage listed = _guardedOwners[guardian];
+        uint256 count = 0;
+        for (uint256 i = 0; i < listed.length; i++) {
+            if (_isGuardian(listed[i], guardian)) count++;
+        }
+
+        owners = new address[](count);
+        count = 0;
+        for (uint256 i = 0; i < listed.length; i++) {
+            if (_isGuardian(listed[i], guardian)) owners[count++] = listed[i];
+        }
+    }
+
+    /// @notice Opens a recovery, replacing any open one; guardians encrypt their shares to recoveryKey
+    /// @param recoveryKey X25519 public key the owner will decrypt the shares with
+    function startRecovery(bytes32 recoveryKey) external {
+        require(_guardianSets[msg.sender].guardians.length > 0, "Registry: No guardians");
+        require(recoveryKey != bytes32(0), "Registry: Empty key");
+
+        uint256 requestId = ++_requestCounts[msg.sender];
+        _requests[msg.sender] = RecoveryRequest(requestId, recoveryKey, block.timestamp);
+        emit RecoveryStarted(msg.sender, requestId, recoveryKey);
+    }
+
+    /// @notice Returns an owner's open recovery
+    /// @param owner The owner address
+    /// @return requestId The request id, zero if no recovery is open
+    /// @return recoveryKey X25519 public key the shares are encrypted to
+    /// @return timestamp When the recovery was opened
+    /// @return submitted Number of shares handed back so far
+    function getRecoveryRequest(
+        address owner
+    ) external view returns (uint256 requestId, bytes32 recoveryKey, uint256 timestamp, uint256 submitted) {
+        RecoveryRequest storage request = _requests[owner];
+        address[] storage guardians = _guardianSets[owner].guardians;
+        for (uint256 i = 0; i < guardians.length; i++) {
+            if (request.id != 0 && _submissions[owner][guardians[i]].requestId == request.id) submitted++;
+        }
+        return (request.id, request.recoveryKey, request.timestamp, submitted);
+    }
+
+    /// @notice Returns how many recoveries an owner opened; the next request gets this count plus one
+    /// @param owner The owner address
+    /// @return The number of recovery requests
+    function getRecoveryCount(address owner) external view returns (uint256) {
+        return _requestCounts[owner];
+    }
+
+    /// @notice Hands a share back to an owner for their open recovery
+    /// @param owner The owner address
+    /// @param share The guardian's share, encrypted to the request's recovery key
+    function submitShare(address owner, bytes calldata share) external {
+        uint256 requestId = _requests[owner].id;
+        require(requestId != 0, "Registry: No recovery");
+        require(_isGuardian(owner, msg.sender), "Registry: Not a guardian");
+        require(_submissions[owner][msg.sender].requestId != requestId, "Registry: Already submitted");
+        require(share.length > 0 && share.length <= MAX_SHARE_SIZE, "Registry: Invalid share");
+
+        _submissions[owner][msg.sender] = Submission(requestId, share);
+        emit ShareSubmitted(owner, requestId, msg.sender);
+    }
+
+    /// @notice Returns the shares handed back for an owner's open recovery
+    /// @param owner The owner address
+    /// @return guardians The guardians that handed back a share
+    /// @return shares Their shares, encrypted to the recovery key
+    function getSubmittedShares(
+        address owner
+    ) external view returns (address[] memory guardians, bytes[] memory shares) {
+        uint256 requestId = _requests[owner].id;
+        address[] storage all = _guardianSets[owner].guardians;
+        uint256 count = 0;
+        for (uint256 i = 0; i < all.length; i++) {
+            if (requestId != 0 && _submissions[owner][all[i]].requestId == requestId) count++;
+        }
+
+        guardians = new address[](count);
+        shares = new bytes[](count);
+        count = 0;
+        for (uint256 i = 0; i < all.length; i++) {
+            Submission storage submission = _submissions[owner][all[i]];
+            if (requestId != 0 && submission.requestId == requestId) {
+                guardians[count] = all[i];
+                shares[count++] = submission.share;
+            }
+        }
+    }
+
+    /// @notice Closes the caller's open recovery, once finished or to cancel it
+    function closeRecovery() external {
+        uint256 requestId = _requests[msg.sender].id;
+        require(requestId != 0, "Registry: No recovery");
+        delete _requests[msg.sender];
+        emit RecoveryClosed(msg.sender, requestId);
+    }
+
+    function _isGuardian(address owner, address account) private view returns (bool) {
+        address[] storage guardians = _guardianSets[owner].guardians;
+        for (uint256 i = 0; i < guardians.length; i++) {
+            if (guardians[i] == account) return true;
+        }
+        return false;
+    }
+
+    function _clearGuardians(address owner) private {
+        address[] storage guardians = _guardianSets[owner].guardians;
+        for (uint256 i = 0; i < guardians.length; i++) {
+            delete _shares[owner][guardians[i]];
+            delete _submissions[owner][guardians[i]];
+        }
+        delete _guardianSets[owner];
+
+        uint256 requestId = _requests[owner].id;
+        if (requestId != 0) {
+            delete _requests[owner];
+            emit RecoveryClosed(owner, requestId);
+        }
+    }
+}
@@ -0,0 +1,131 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {FHE, ebool, euint8, externalEbool, externalEuint8} from "@fhevm/solidity/lib/FHE.sol";
+import {LocalConfig} from "./LocalConfig.sol";
+
+/// @notice The part of WhisperVault the flags read: which messages a user has, and since which clear
+interface IMessageVault {
+    function getMessageCount(address user) external view returns (uint256);
+
+    function getGeneration(address user) external view returns (uint256);
+}
+
+/// @title MessageFlags - FHE-encrypted flags of WhisperVault messages
+/// @author WhisperLink Team
+/// @notice Read, starred and priority flags of a user's vault messages, stored as FHE handles so
+///         their values stay hidden on chain. Only the message owner can set them, from encrypted
+///         inputs, and only the owner (and this contract) may decrypt them
+/// @dev Which message a transaction touches is public, what it sets is not. Flags are kept per
+///      clear generation of the vault, so they don't carry over to new messages after a clear
+contract MessageFlags is LocalConfig {
+    /// @notice Highest priority; larger encrypted inputs are capped to it
+    uint8 public constant MAX_PRIORITY = 3;
+
+    /// @notice Maximum number of messages marked by one setRead call
+    uint256 public constant MAX_BATCH_SIZE = 64;
+
+    /// @notice The encrypted flags of a message; uninitialized handles (bytes32(0)) read as false or 0
+    struct Flags {
+        ebool read;
+        ebool starred;
+        euint8 priority;
+    }
+
+    /// @notice WhisperVault, whose messages are flagged
+    IMessageVault public immutable vault;
+
+    /// @notice Mapping from user address, vault generation and message index to the message's flags
+    mapping(address => mapping(uint256 => mapping(uint256 => Flags))) private _flags;
+
+    /// @notice Event emitted when a flag of a message changes; the new value stays encrypted
+    event FlagsUpdated(address indexed user, uint256 indexed messageIndex);
+
+    /// @param vaultAddress The WhisperVault whose messages are flagged
+    constructor(address vaultAddress) {
+        require(vaultAddress != address(0), "Flags: Invalid vault");
+        vault = IMessageVault(vaultAddress);
+    }
+
+    /// @notice Mark messages of the caller as read or unread
+    /// @param indexes The message indexes
+    /// @param encryptedRead Whether they are read, encrypted for this contract and the caller
+    /// @param inputProof The input proof
+    function setRead(uint256[] calldata indexes, externalEbool encryptedRead, bytes calldata inputProof) external {
+        require(indexes.length > 0 && indexes.length <= MAX_BATCH_SIZE, "Flags: Invalid batch size");
+        ebool read = _allow(FHE.fromExternal(encryptedRead, inputProof));
+
+        mapping(uint256 => Flags) storage flags = _userFlags();
+        uint256 count = vault.getMessageCount(msg.sender);
+        for (uint256 i = 0; i < indexes.length; i++) {
+            require(indexes[i] < count, "Flags: Invalid message index");
+            flags[indexes[i]].read = read;
+            emit FlagsUpdated(msg.sender, indexes[i]);
+        }
+    }
+
+    /// @notice Star or unstar a message of the caller
+    /// @param index The message index
+    /// @param encryptedStarred Whether it is starred, encrypted for this contract and the caller
+    /// @param inputProof The input proof
+    function setStarred(uint256 index, externalEbool encryptedStarred, bytes calldata inputProof) external {
+        _requireMessage(index);
+        _userFlags()[index].starred = _allow(FHE.fromExternal(encryptedStarred, inputProof));
+        emit FlagsUpdated(msg.sender, index);
+    }
+
+    /// @notice Set the priority of a message of the caller
+    /// @dev The value is capped to MAX_PRIORITY under encryption, without revealing whether it was
+    /// @param index The message index
+    /// @param encryptedPriority The priority, encrypted for this contract and the caller
+    /// @param inputProof The input proof
+    function setPriority(uint256 index, externalEuint8 encryptedPriority, bytes calldata inputProof) external {
+        _requireMessage(index);
+        euint8 priority = FHE.min(FHE.fromExternal(encryptedPriority, inputProof), MAX_PRIORITY);
+        FHE.allowThis(priority);
+        FHE.allow(priority, msg.sender);
+        _userFlags()[index].priority = priority;
+        emit FlagsUpdated(msg.sender, index);
+    }
+
+    /// @notice Returns the encrypted flags of a message
+    /// @param user The user address
+    /// @param index The message index
+    /// @return The flag handles, decryptable by the user
+    function getFlags(address user, uint256 index) external view returns (Flags memory) {
+        return _flags[user][vault.getGeneration(user)][index];
+    }
+
+    /// @notice Returns the encrypted flags of a range of messages, oldest first
+    /// @param user The user address
+    /// @param offset Index of the first message
+    /// @param limit Maximum number of messages
+    /// @return page The flags from `offset`, empty if `offset` is past the last message
+    function getFlagsRange(address user, uint256 offset, uint256 limit) external view returns (Flags[] memory page) {
+        uint256 total = vault.getMessageCount(user);
+        if (offset >= total) return page;
+
+        uint256 count = total - offset;
+        if (count > limit) count = limit;
+        mapping(uint256 => Flags) storage flags = _flags[user][vault.getGeneration(user)];
+        page = new Flags[](count);
+        for (uint256 i = 0; i < count; i++) {
+            page[i] = flags[offset + i];
+        }
+    }
+
+    function _userFlags() private view returns (mapping(uint256 => Flags) storage) {
+        return _flags[msg.sender][vault.getGeneration(msg.sender)];
+    }
+
+    function _requireMessage(uint256 index) private view {
+        require(index < vault.getMessageCount(msg.sender), "Flags: Invalid message index");
+    }
+
+    /// @dev This contract keeps using the handle, the caller decrypts it
+    function _allow(ebool value) private returns (ebool) {
+        FHE.allowThis(value);
+        FHE.allow(value, msg.sender);
+        return value;
+    }
+}
@@ -0,0 +1,180 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+/// @notice The part of WhisperVault grants read: which messages an owner has, and messaging keys
+interface IGrantVault {
+    function getMessageCount(address user) external view returns (uint256);
+
+    function getMessagingKey(address account) external view returns (bytes32);
+}
+
+/// @title MessageGrants - Time-limited read access to selected WhisperVault messages
+/// @author WhisperLink Team
+/// @notice An owner shows chosen messages of their vault to another account, such as an auditor,
+///         without sharing the vault password: the messages are sealed again to the grantee's
+///         WhisperVault messaging key and stored with the grant, which ends at its expiry or when
+///         the owner revokes it
+/// @dev Messages are decrypted and sealed client-side, the contract only stores ciphertexts.
+///      Revoking deletes them from storage and both revoked and expired grants stop serving them,
+///      but a grantee keeps whatever it already read, and the sealed contents stay in the calldata
+///      of the transaction that created the grant
+contract MessageGrants {
+    uint256 public constant MAX_GRANT_MESSAGES = 32;
+    uint256 public constant MAX_CONTENT_SIZE = 16640;
+    uint256 public constant MAX_DURATION = 365 days;
+
+    /// @notice A grant; grant ids start at 1, grant `id` is stored at `id - 1`
+    struct Grant {
+        address owner;
+        address grantee;
+        uint256 createdAt;
+        uint256 expiresAt;
+        bool revoked;
+    }
+
+    /// @notice WhisperVault, whose messages are granted and whose messaging keys they are sealed to
+    IGrantVault public immutable vault;
+
+    Grant[] private _grants;
+
+    /// @notice Mapping from grant id to the vault indexes of its messages
+    mapping(uint256 => uint256[]) private _indexes;
+
+    /// @notice Mapping from grant id to its messages sealed to the grantee, in the order of the indexes
+    mapping(uint256 => bytes[]) private _contents;
+
+    /// @notice Mapping from owner address to the grants it created
+    mapping(address => uint256[]) private _grantsBy;
+
+    /// @notice Mapping from grantee address to the grants it received
+    mapping(address => uint256[]) private _grantsFor;
+
+    /// @notice Event emitted when an owner grants an account read access to messages
+    event GrantCreated(
+        uint256 indexed grantId,
+        address indexed owner,
+        address indexed grantee,
+        uint256 expiresAt,
+        uint256 messageCount
+    );
+
+    /// @notice Event emitted when an owner revokes a grant before its expiry
+    event GrantRevoked(uint256 indexed grantId, address indexed owner, address indexed grantee);
+
+    /// @param vaultAddress The WhisperVault whose messages are granted
+    constructor(address vaultAddress) {
+        require(vaultAddress != address(0), "Grants: Invalid vault");
+        vault = IGrantVault(vaultAddress);
+    }
+
+    /// @notice Let an account read messages of the caller's vault until a given time
+    /// @param grantee The account, which must have published a messaging key
+    /// @param indexes The vault indexes of the messages
+    /// @param contents The messages, sealed to the grantee's messaging key, in the order of `indexes`
+    /// @param expiresAt When the grant ends (unix seconds), at most MAX_DURATION from now
+    /// @return grantId The id of the new grant
+    function createGrant(
+        address grantee,
+        uint256[] calldata indexes,
+        bytes[] calldata contents,
+        uint256 expiresAt
+    ) external returns (uint256 grantId) {
+        require(grantee != address(0) && grantee != msg.sender, "Grants: Invalid grantee");
+        require(vault.getMessagingKey(grantee) != bytes32(0), "Grants: Grantee has no key");
+        require(indexes.length > 0 && indexes.length <= MAX_GRANT_MESSAGES, "Grants: Invalid message count");
+        require(contents.length == indexes.length, "Grants: Length mismatch");
+        require(expiresAt > block.timestamp && expiresAt <= block.timestamp + MAX_DURATION, "Grants: Invalid expiry");
+
+        uint256 count = vault.getMessageCount(msg.sender);
+        for (uint256 i = 0; i < indexes.length; i++) {
+            require(indexes[i] < count, "Grants: Invalid message index");
+            require(contents[i].length > 0 && contents[i].length <= MAX_CONTENT_SIZE, "Grants: Invalid content");
+        }
+
+        _grants.push(Grant(msg.sender, grantee, block.timestamp, expiresAt, false));
+        grantId = _grants.length;
+        _indexes[grantId] = indexes;
+        bytes[] storage stored = _contents[grantId];
+        for (uint256 i = 0; i < contents.length; i++) {
+            stored.push(contents[i]);
+        }
+        _grantsBy[msg.sender].push(grantId);
+        _grantsFor[grantee].push(grantId);
+
+        emit GrantCreated(grantId, msg.sender, grantee, expiresAt, indexes.length);
+    }
+
+    /// @notice End a grant of the caller now and delete its sealed messages
+    /// @param grantId The grant id
+    function revokeGrant(uint256 grantId) external {
+        Grant storage grant = _grant(grantId);
+        require(grant.owner == msg.sender, "Grants: Not the owner");
+        require(!grant.revoked, "Grants: Already revoked");
+
+        grant.revoked = true;
+        delete _contents[grantId];
+
+        emit GrantRevoked(grantId, msg.sender, grant.grantee);
+    }
+
+    /// @notice Returns a grant
+    /// @param grantId The grant id
+    /// @return owner The vault owner
+    /// @return grantee The account allowed to read
+    /// @return createdAt When the grant was created
+    /// @return expiresAt When the grant ends
+    /// @return revoked Whether the owner revoked it
+    /// @return indexes The vault indexes of its messages
+    function getGrant(
+        uint256 grantId
+    )
+        external
+        view
+        returns (
+            address owner,
+            address grantee,
+            uint256 createdAt,
+            uint256 expiresAt,
+            bool revoked,
+            uint256[] memory indexes
+        )
+    {
+        Grant storage grant = _grant(grantId);
+        return (grant.owner, grant.grantee, grant.createdAt, grant.expiresAt, grant.revoked, _indexes[grantId]);
+    }
+
+    /// @notice Returns the sealed messages of a grant that is still active
+    /// @param grantId The grant id
+    /// @return Array of messages sealed to the grantee, in the order of the grant's indexes
+    function getGrantContents(uint256 grantId) external view returns (bytes[] memory) {
+        require(isActive(grantId), "Grants: Grant not active");
+        return _contents[grantId];
+    }
+
+    /// @notice Returns the grants an owner created, oldest first
+    /// @param owner The owner address
+    /// @return Array of grant ids
+    function getGrantsBy(address owner) external view returns (uint256[] memory) {
+        return _grantsBy[owner];
+    }
+
+    /// @notice Returns the grants an account received, oldest first
+    /// @param grantee The grantee address
+    /// @return Array of grant ids
+    function getGrantsFor(address grantee) external view returns (uint256[] memory) {
+        return _grantsFor[grantee];
+    }
+
+    /// @notice Whether a grant can still be read: neither revoked nor expired
+    /// @param grantId The grant id
+    /// @return True until the grant is revoked or its expiry passes
+    function isActive(uint256 grantId) public view returns (bool) {
+        Grant storage grant = _grant(grantId);
+        return !grant.revoked && block.timestamp < grant.expiresAt;
+    }
+
+    function _grant(uint256 grantId) private view returns (Grant storage) {
+        require(grantId > 0 && grantId <= _grants.length, "Grants: Unknown grant");
+        return _grants[grantId - 1];
+    }
+}
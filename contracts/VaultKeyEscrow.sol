@@ -0,0 +1,196 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {FHE, euint256, externalEuint256} from "@fhevm/solidity/lib/FHE.sol";
+import {LocalConfig} from "./LocalConfig.sol";
+
+/// @title VaultKeyEscrow - FHE-encrypted WhisperVault data keys shared through the FHEVM ACL
+/// @author WhisperLink Team
+/// @notice Keeps each owner's vault data key as FHE handles. The owner can decrypt them to recover
+///         the key without a password, and grants other accounts read access with an ACL entry
+///         instead of handing out a password
+/// @dev The data key (16 byte id and 32 byte key) is split into KEY_CHUNKS euint256 values by the
+///      app. ACL entries can't be taken back, so revoking replaces the handles with fresh ones
+///      holding the same key and allows only the remaining grantees on them
+contract VaultKeyEscrow is LocalConfig {
+    /// @notice Number of euint256 chunks a data key is stored in
+    uint256 public constant KEY_CHUNKS = 2;
+
+    /// @notice Maximum number of accounts an owner can share the key with
+    uint256 public constant MAX_GRANTEES = 16;
+
+    /// @notice The encrypted data key of an owner
+    struct EscrowedKey {
+        euint256[] chunks;
+        bytes32 keyCommitment; // Hash of the data key, to check a decrypted key
+        uint256 epoch; // Incremented each time the handles are replaced
+    }
+
+    /// @notice Mapping from owner address to their encrypted data key
+    mapping(address => EscrowedKey) private _keys;
+
+    /// @notice Mapping from owner address to the accounts allowed to decrypt their key
+    mapping(address => address[]) private _grantees;
+
+    /// @notice Mapping from account to the owners whose key it may decrypt
+    mapping(address => address[]) private _sharedWith;
+
+    /// @notice Event emitted when an owner stores or replaces their key
+    event KeyStored(address indexed owner, uint256 indexed epoch, bytes32 keyCommitment);
+
+    /// @notice Event emitted when an owner removes their key and all grants
+    event KeyCleared(address indexed owner);
+
+    /// @notice Event emitted when an owner lets an account decrypt their key
+    event AccessGranted(address indexed owner, address indexed grantee);
+
+    /// @notice Event emitted when an owner revokes an account's access; the key moves to new handles
+    event AccessRevoked(address indexed owner, address indexed grantee, uint256 indexed epoch);
+
+    /// @notice Store the caller's data key, or replace it; current grantees keep their access
+    /// @param encryptedChunks The key chunks, encrypted for this contract and the caller
+    /// @param inputProof The input proof
+    /// @param keyCommitment Hash of the data key
+    function storeKey(
+        externalEuint256[] calldata encryptedChunks,
+        bytes calldata inputProof,
+        bytes32 keyCommitment
+    ) external {
+        require(encryptedChunks.length == KEY_CHUNKS, "Escrow: Invalid key");
+        require(keyCommitment != bytes32(0), "Escrow: Empty commitment");
+
+        EscrowedKey storage key = _keys[msg.sender];
+        delete key.chunks;
+        for (uint256 i = 0; i < KEY_CHUNKS; i++) {
+            key.chunks.push(FHE.fromExternal(encryptedChunks[i], inputProof));
+        }
+        key.keyCommitment = keyCommitment;
+        key.epoch++;
+        _allowChunks(msg.sender);
+
+        emit KeyStored(msg.sender, key.epoch, keyCommitment);
+    }
+
+    /// @notice Let an account decrypt the caller's data key
+    /// @param grantee The account
+    function grantAccess(address grantee) external {
+        _requireKey(msg.sender);
+        require(grantee != address(0) && grantee != msg.sender, "Escrow: Invalid grantee");
+        require(!_isGrantee(msg.sender, grantee), "Escrow: Already granted");
+        require(_grantees[msg.sender].length < MAX_GRANTEES, "Escrow: Too many grantees");
+
+        _grantees[msg.sender].push(grantee);
+        _sharedWith[grantee].push(msg.sender);
+        euint256[] storage chunks = _keys[msg.sender].chunks;
+        for (uint256 i = 0; i < chunks.length; i++) {
+            FHE.allow(chunks[i], grantee);
+        }
+
+        emit AccessGranted(msg.sender, grantee);
+    }
+
+    /// @notice Revoke an account's access to the caller's data key
+    /// @dev The account can't decrypt the new handles, but keeps whatever it already decrypted:
+    ///      the owner rotates the data key to keep it out of new messages
+    /// @param grantee The account
+    function revokeAccess(address grantee) external {
+        require(_isGrantee(msg.sender, grantee), "Escrow: Not a grantee");
+        _remove(_grantees[msg.sender], grantee);
+        _remove(_sharedWith[grantee], msg.sender);
+
+        EscrowedKey storage key = _keys[msg.sender];
+        for (uint256 i = 0; i < key.chunks.length; i++) {
+            // XOR with 0 gives a new handle holding the same value, with an empty ACL
+            key.chunks[i] = FHE.xor(key.chunks[i], uint256(0));
+        }
+        key.epoch++;
+        _allowChunks(msg.sender);
+
+        emit AccessRevoked(msg.sender, grantee, key.epoch);
+    }
+
+    /// @notice Remove the caller's data key and all grants
+    function clearKey() external {
+        _requireKey(msg.sender);
+        address[] storage grantees = _grantees[msg.sender];
+        for (uint256 i = 0; i < grantees.length; i++) {
+            _remove(_sharedWith[grantees[i]], msg.sender);
+        }
+        delete _grantees[msg.sender];
+        delete _keys[msg.sender].chunks;
+        delete _keys[msg.sender].keyCommitment;
+
+        emit KeyCleared(msg.sender);
+    }
+
+    /// @notice Returns an owner's encrypted data key
+    /// @param owner The owner address
+    /// @return chunks The key chunk handles, empty if no key is stored
+    /// @return keyCommitment Hash of the data key
+    /// @return epoch Incremented each time the handles are replaced
+    function getKey(
+        address owner
+    ) external view returns (euint256[] memory chunks, bytes32 keyCommitment, uint256 epoch) {
+        EscrowedKey storage key = _keys[owner];
+        return (key.chunks, key.keyCommitment, key.epoch);
+    }
+
+    /// @notice Returns the accounts allowed to decrypt an owner's key
+    /// @param owner The owner address
+    /// @return Array of grantee addresses
+    function getGrantees(address owner) external view returns (address[] memory) {
+        return _grantees[owner];
+    }
+
+    /// @notice Returns the owners whose key an account may decrypt
+    /// @param grantee The account
+    /// @return Array of owner addresses
+    function getSharedWith(address grantee) external view returns (address[] memory) {
+        return _sharedWith[grantee];
+    }
+
+    /// @notice Whether an account may decrypt an owner's current key
+    /// @param owner The owner address
+    /// @param account The account
+    /// @return True for the owner and its grantees once a key is stored
+    function hasAccess(address owner, address account) external view returns (bool) {
+        euint256[] storage chunks = _keys[owner].chunks;
+        return chunks.length > 0 && FHE.isAllowed(chunks[0], account);
+    }
+
+    /// @dev Allow the current chunks for this contract, the owner and every grantee
+    function _allowChunks(address owner) private {
+        euint256[] storage chunks = _keys[owner].chunks;
+        address[] storage grantees = _grantees[owner];
+        for (uint256 i = 0; i < chunks.length; i++) {
+            FHE.allowThis(chunks[i]);
+            FHE.allow(chunks[i], owner);
+            for (uint256 j = 0; j < grantees.length; j++) {
+                FHE.allow(chunks[i], grantees[j]);
+            }
+        }
+    }
+
+    function _requireKey(address owner) private view {
+        require(_keys[owner].chunks.length > 0, "Escrow: No key stored");
+    }
+
+    function _isGrantee(address owner, address account) private view returns (bool) {
+        address[] storage grantees = _grantees[owner];
+        for (uint256 i = 0; i < grantees.length; i++) {
+            if (grantees[i] == account) return true;
+        }
+        return false;
+    }
+
+    /// @dev Swap-and-pop an address out of a list; order isn't kept
+    function _remove(address[] storage list, address account) private {
+        for (uint256 i = 0; i < list.length; i++) {
+            if (list[i] == account) {
+                list[i] = list[list.length - 1];
+                list.pop();
+                return;
+            }
+        }
+    }
+}
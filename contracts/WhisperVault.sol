@@ -10,21 +10,134 @@ import {LocalConfig} from "./LocalConfig.sol";
 contract WhisperVault is LocalConfig {
     /// @notice Message structure
     struct Message {
-        string label; 
+        bytes label; // AES-encrypted labels, empty if the message has none
         address sender;
         bytes encryptedContent;  // AES-encrypted message content
         uint256 timestamp;
         bool isResponse;
     }
 
+    /// @notice Earlier content of an edited message
+    struct Revision {
+        bytes encryptedContent; // AES-encrypted content before the edit
+        uint256 replacedAt; // When the edit replaced it
+    }
+
+    /// @notice A named conversation; thread ids start at 1, thread 0 is the default conversation
+    struct Thread {
+        bytes title; // AES-encrypted title
+        uint256 createdAt;
+        bool archived;
+    }
+
+    /// @notice A message from one address to another, readable by both
+    struct DirectMessage {
+        address sender;
+        bytes encryptedContent; // AES-encrypted content, its key sealed to both parties' messaging keys
+        uint256 timestamp;
+    }
+
+    /// @notice Maximum number of messages appended by one storeMessages call
+    uint256 public constant MAX_BATCH_SIZE = 16;
+
+    /// @notice Maximum size of the encrypted labels of one message
+    uint256 public constant MAX_LABEL_SIZE = 1024;
+
+    /// @notice Maximum number of threads per user, besides the default conversation
+    uint256 public constant MAX_THREADS = 256;
+
+    /// @notice Maximum size of an encrypted thread title
+    uint256 public constant MAX_TITLE_SIZE = 1024;
+
+    /// @notice EIP-712 type of the domain of signed store requests
+    bytes32 public constant DOMAIN_TYPEHASH =
+        keccak256("EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)");
+
+    /// @notice EIP-712 type of a signed store request, see storeMessagesWithSignature
+    bytes32 public constant STORE_REQUEST_TYPEHASH =
+        keccak256(
+            "StoreRequest(address user,uint256 threadId,bytes[] encryptedContents,bool[] isResponses,"
+            "uint256 nonce,uint256 deadline)"
+        );
+
     /// @notice Mapping from user address to their messages
     mapping(address => Message[]) private _userMessages;
 
+    /// @notice Mapping from user address to how often their messages were cleared
+    /// @dev Revisions are kept per clear generation, so clearing leaves no history behind for new messages
+    mapping(address => uint256) private _generations;
+
+    /// @notice Mapping from user address, generation and message index to the message's earlier revisions
+    mapping(address => mapping(uint256 => mapping(uint256 => Revision[]))) private _revisions;
+
+    /// @notice Mapping from user address to their threads; thread `id` is stored at `id - 1`
+    mapping(address => Thread[]) private _threads;
+
+    /// @notice Mapping from user address, generation and thread id to the indexes of the thread's messages
+    mapping(address => mapping(uint256 => mapping(uint256 => uint256[]))) private _threadMessages;
+
+    /// @notice Mapping from user address to their encrypted key-check value
+    mapping(address => bytes) private _keyChecks;
+
+    /// @notice Mapping from account to its X25519 messaging key, used to encrypt direct messages to it
+    mapping(address => bytes32) private _messagingKeys;
+
+    /// @notice Mapping from conversation id (see _conversationId) to its direct messages
+    mapping(bytes32 => DirectMessage[]) private _conversations;
+
+    /// @notice Mapping from account to the addresses it has a conversation with, in order of the first message
+    mapping(address => address[]) private _inboxes;
+    mapping(address => mapping(address => bool)) private _inInbox;
+
+    /// @notice Mapping from user address to the nonce of their next signed store request
+    mapping(address => uint256) private _nonces;
+
     /// @notice Event emitted when a new message is stored
     event MessageStored(address indexed user, uint256 indexed messageIndex, uint256 timestamp, bool isResponse, uint256 size);
     
+    /// @notice Event emitted when the content of a stored message is replaced (e.g. on key rotation)
+    event MessageReplaced(address indexed user, uint256 indexed messageIndex, uint256 size);
+
+    /// @notice Event emitted when a message is deleted, leaving a tombstone at its index
+    event MessageDeleted(address indexed user, uint256 indexed messageIndex);
+
+    /// @notice Event emitted when a message is edited; `revision` is its number of earlier revisions
+    event MessageEdited(address indexed user, uint256 indexed messageIndex, uint256 revision, uint256 size);
+
+    /// @notice Event emitted when the earlier revisions of a message are re-encrypted (e.g. on key rotation)
+    event RevisionsReplaced(address indexed user, uint256 indexed messageIndex, uint256 count);
+
+    /// @notice Event emitted when the encrypted labels of a message are set or cleared
+    event LabelsUpdated(address indexed user, uint256 indexed messageIndex, uint256 size);
+
+    /// @notice Event emitted when a thread is created
+    event ThreadCreated(address indexed user, uint256 indexed threadId, uint256 size);
+
+    /// @notice Event emitted when the encrypted title of a thread is replaced
+    event ThreadRenamed(address indexed user, uint256 indexed threadId, uint256 size);
+
+    /// @notice Event emitted when a thread is archived or restored
+    event ThreadArchived(address indexed user, uint256 indexed threadId, bool archived);
+
+    /// @notice Event emitted when an account publishes its messaging key
+    event MessagingKeySet(address indexed account, bytes32 key);
+
+    /// @notice Event emitted when a direct message is sent; `messageIndex` is its position in the conversation
+    event DirectMessageSent(
+        address indexed sender,
+        address indexed recipient,
+        uint256 indexed messageIndex,
+        uint256 size
+    );
+
+    /// @notice Event emitted when a user sets up or changes their vault key
+    event KeyCheckUpdated(address indexed user, uint256 size);
+
     /// @notice Event emitted when messages are cleared
     event MessagesCleared(address indexed user);
+
+    /// @notice Event emitted when a relayer submits a signed store request of a user
+    event StoreRequestRelayed(address indexed user, address indexed relayer, uint256 nonce);
     
     /// @notice Event emitted when decryption is requested
     event DecryptionRequested(address indexed user, uint256 timestamp);
@@ -54,7 +167,7 @@ contract WhisperVault is LocalConfig {
     /// @notice Returns the encrypted content of a message
     /// @param user The user address
     /// @param index The message index
-    /// @return The encrypted message bytes
+    /// @return The encrypted message bytes, empty if the message was deleted
     function getEncryptedContent(address user, uint256 index) external view returns (bytes memory) {
         require(index < _userMessages[user].length, "Vault: Index error");
         return _userMessages[user][index].encryptedContent;
@@ -84,44 +197,564 @@ contract WhisperVault is LocalConfig {
     /// @notice Store a new encrypted message
     /// @param encryptedContent The AES-encrypted message content
     function storeMessage(bytes calldata encryptedContent) external {
+        _store(msg.sender, encryptedContent, false, 0);
+    }
+
+    /// @notice Store an auto-response (system reply)
+    /// @param encryptedContent The AES-encrypted response content
+    function storeResponse(bytes calldata encryptedContent) external {
+        _store(msg.sender, encryptedContent, true, 0);
+    }
+
+    /// @notice Append several messages in one transaction, e.g. a message and its auto-response
+    /// @dev All or nothing: one invalid entry reverts the whole batch
+    /// @param encryptedContents The AES-encrypted contents, in the order they are appended
+    /// @param isResponses Whether each entry is an auto-response (stored like storeResponse does)
+    function storeMessages(bytes[] calldata encryptedContents, bool[] calldata isResponses) external {
+        _storeBatch(msg.sender, 0, encryptedContents, isResponses);
+    }
+
+    /// @notice Append several messages to a thread in one transaction, like storeMessages
+    /// @dev Messages keep their vault-wide index; the thread records which indexes belong to it
+    /// @param threadId The thread, 0 for the default conversation
+    /// @param encryptedContents The AES-encrypted contents, in the order they are appended
+    /// @param isResponses Whether each entry is an auto-response
+    function storeThreadMessages(
+        uint256 threadId,
+        bytes[] calldata encryptedContents,
+        bool[] calldata isResponses
+    ) external {
+        _storeBatch(msg.sender, threadId, encryptedContents, isResponses);
+    }
+
+    /// @notice Append messages to a thread on behalf of a user, like storeThreadMessages, from a
+    ///         signed EIP-712 StoreRequest
+    /// @dev Lets a relayer pay the gas. Each nonce is used once and in order, so a request can't be
+    ///      replayed, and a request can't be submitted after its deadline
+    /// @param user The vault owner who signed the request
+    /// @param threadId The thread, 0 for the default conversation
+    /// @param encryptedContents The AES-encrypted contents, in the order they are appended
+    /// @param isResponses Whether each entry is an auto-response
+    /// @param deadline Last timestamp the request can be submitted at
+    /// @param signature The user's 65-byte signature of the request with their current nonce
+    function storeMessagesWithSignature(
+        address user,
+        uint256 threadId,
+        bytes[] calldata encryptedContents,
+        bool[] calldata isResponses,
+        uint256 deadline,
+        bytes calldata signature
+    ) external {
+        require(block.timestamp <= deadline, "Vault: Request expired");
+        uint256 nonce = _nonces[user]++;
+        bytes32 structHash = _hashStoreRequest(user, threadId, encryptedContents, isResponses, nonce, deadline);
+        bytes32 digest = keccak256(abi.encodePacked("\x19\x01", domainSeparator(), structHash));
+        require(user != address(0) && _recover(digest, signature) == user, "Vault: Invalid signature");
+
+        _storeBatch(user, threadId, encryptedContents, isResponses);
+        emit StoreRequestRelayed(user, msg.sender, nonce);
+    }
+
+    /// @notice Returns the nonce a user's next signed store request must carry
+    /// @param user The user address
+    /// @return The number of signed store requests of the user submitted so far
+    function nonces(address user) external view returns (uint256) {
+        return _nonces[user];
+    }
+
+    /// @notice Returns the EIP-712 domain separator of signed store requests
+    /// @dev Domain: name "WhisperVault", version "1", the current chain id and this contract
+    function domainSeparator() public view returns (bytes32) {
+        return
+            keccak256(
+                abi.encode(DOMAIN_TYPEHASH, keccak256("WhisperVault"), keccak256("1"), block.chainid, address(this))
+            );
+    }
+
+    /// @dev EIP-712 struct hash of a StoreRequest; arrays hash the concatenation of their encoded entries
+    function _hashStoreRequest(
+        address user,
+        uint256 threadId,
+        bytes[] calldata encryptedContents,
+        bool[] calldata isResponses,
+        uint256 nonce,
+        uint256 deadline
+    ) private pure returns (bytes32) {
+        bytes32[] memory contentHashes = new bytes32[](encryptedContents.length);
+        for (uint256 i = 0; i < encryptedContents.length; ++i) {
+            contentHashes[i] = keccak256(encryptedContents[i]);
+        }
+        return
+            keccak256(
+                abi.encode(
+                    STORE_REQUEST_TYPEHASH,
+                    user,
+                    threadId,
+                    keccak256(abi.encodePacked(contentHashes)),
+                    keccak256(abi.encodePacked(isResponses)),
+                    nonce,
+                    deadline
+                )
+            );
+    }
+
+    /// @dev Signer of a digest, or the zero address if the signature is invalid
+    function _recover(bytes32 digest, bytes calldata signature) private pure returns (address) {
+        if (signature.length != 65) return address(0);
+        bytes32 r = bytes32(signature[0:32]);
+        bytes32 s = bytes32(signature[32:64]);
+        uint8 v = uint8(signature[64]);
+        // Only accept the lower s of the two equivalent signatures (EIP-2)
+        if (uint256(s) > 0x7FFFFFFFFFFFFFFFFFFFFFFFFFFFFFFF5D576E7357A4501DDFE92F46681B20A0) return address(0);
+        return ecrecover(digest, v, r, s);
+    }
+
+    /// @dev Validate a batch and append it to a thread of a user's vault
+    function _storeBatch(
+        address user,
+        uint256 threadId,
+        bytes[] calldata encryptedContents,
+        bool[] calldata isResponses
+    ) private {
+        require(encryptedContents.length == isResponses.length, "Vault: Length mismatch");
+        require(encryptedContents.length > 0, "Vault: Empty batch");
+        require(encryptedContents.length <= MAX_BATCH_SIZE, "Vault: Batch too large");
+        if (threadId > 0) {
+            require(threadId <= _threads[user].length, "Vault: Unknown thread");
+            require(!_threads[user][threadId - 1].archived, "Vault: Thread archived");
+        }
+
+        for (uint256 i = 0; i < encryptedContents.length; ++i) {
+            _store(user, encryptedContents[i], isResponses[i], threadId);
+        }
+    }
+
+    /// @dev Append a message to a thread of a user's vault; responses are sent by the contract itself
+    function _store(address user, bytes calldata encryptedContent, bool isResponse, uint256 threadId) private {
         require(encryptedContent.length > 0, "Empty message");
         require(encryptedContent.length <= 16384, "Message too large");
 
-        _userMessages[msg.sender].push(
+        _userMessages[user].push(
             Message({
                 label: "",
-                sender: msg.sender,
+                sender: isResponse ? address(this) : user,
                 encryptedContent: encryptedContent,
                 timestamp: block.timestamp,
-                isResponse: false
+                isResponse: isResponse
             })
         );
 
-        emit MessageStored(msg.sender, _userMessages[msg.sender].length - 1, block.timestamp, false, encryptedContent.length);
+        uint256 index = _userMessages[user].length - 1;
+        _threadMessages[user][_generations[user]][threadId].push(index);
+
+        emit MessageStored(
+            user,
+            index,
+            block.timestamp,
+            isResponse,
+            encryptedContent.length
+        );
+    }
+
+    /// @notice Replace the encrypted content of several messages in one transaction
+    /// @dev Used to re-encrypt a vault under a new key; sender, timestamp and isResponse are kept
+    /// @param indexes The message indexes to rewrite
+    /// @param encryptedContents The new encrypted content for each index
+    function replaceMessages(uint256[] calldata indexes, bytes[] calldata encryptedContents) external {
+        require(indexes.length == encryptedContents.length, "Vault: Length mismatch");
+        Message[] storage messages = _userMessages[msg.sender];
+
+        for (uint256 i = 0; i < indexes.length; ++i) {
+            require(indexes[i] < messages.length, "Vault: Index error");
+            require(messages[indexes[i]].encryptedContent.length > 0, "Vault: Message deleted");
+            require(encryptedContents[i].length > 0, "Empty message");
+            require(encryptedContents[i].length <= 16384, "Message too large");
+
+            messages[indexes[i]].encryptedContent = encryptedContents[i];
+            emit MessageReplaced(msg.sender, indexes[i], encryptedContents[i].length);
+        }
     }
 
-    /// @notice Store an auto-response (system reply)
-    /// @param encryptedContent The AES-encrypted response content
-    function storeResponse(bytes calldata encryptedContent) external {
+    /// @notice Delete one message, leaving a tombstone so later indexes don't move
+    /// @dev The tombstone keeps sender, timestamp and isResponse but has empty content; revisions are dropped
+    /// @param index The message index
+    function deleteMessage(uint256 index) external {
+        Message[] storage messages = _userMessages[msg.sender];
+        require(index < messages.length, "Vault: Index error");
+        require(messages[index].encryptedContent.length > 0, "Vault: Message deleted");
+
+        delete messages[index].encryptedContent;
+        delete messages[index].label;
+        delete _revisions[msg.sender][_generations[msg.sender]][index];
+        emit MessageDeleted(msg.sender, index);
+    }
+
+    /// @notice Edit one message: the new ciphertext replaces it and the old one is kept as a revision
+    /// @param index The message index
+    /// @param encryptedContent The AES-encrypted new content
+    function editMessage(uint256 index, bytes calldata encryptedContent) external {
+        Message[] storage messages = _userMessages[msg.sender];
+        require(index < messages.length, "Vault: Index error");
+        require(messages[index].encryptedContent.length > 0, "Vault: Message deleted");
         require(encryptedContent.length > 0, "Empty message");
         require(encryptedContent.length <= 16384, "Message too large");
 
-        _userMessages[msg.sender].push(
-            Message({
-                label: "",
-                sender: address(this),
-                encryptedContent: encryptedContent,
-                timestamp: block.timestamp,
-                isResponse: true
-            })
+        Revision[] storage revisions = _revisions[msg.sender][_generations[msg.sender]][index];
+        revisions.push(Revision({encryptedContent: messages[index].encryptedContent, replacedAt: block.timestamp}));
+        messages[index].encryptedContent = encryptedContent;
+
+        emit MessageEdited(msg.sender, index, revisions.length, encryptedContent.length);
+    }
+
+    /// @notice Replace the encrypted content of every earlier revision of a message
+    /// @dev Used to re-encrypt a vault under a new key, like replaceMessages; replacedAt is kept
+    /// @param index The message index
+    /// @param encryptedContents The new encrypted content of each revision, oldest first
+    function replaceRevisions(uint256 index, bytes[] calldata encryptedContents) external {
+        require(index < _userMessages[msg.sender].length, "Vault: Index error");
+        Revision[] storage revisions = _revisions[msg.sender][_generations[msg.sender]][index];
+        require(encryptedContents.length == revisions.length, "Vault: Length mismatch");
+
+        for (uint256 i = 0; i < encryptedContents.length; ++i) {
+            require(encryptedContents[i].length > 0, "Empty message");
+            require(encryptedContents[i].length <= 16384, "Message too large");
+            revisions[i].encryptedContent = encryptedContents[i];
+        }
+        emit RevisionsReplaced(msg.sender, index, encryptedContents.length);
+    }
+
+    /// @notice Set the encrypted labels of several messages in one transaction
+    /// @dev Labels are encrypted client-side like message content; empty labels remove them
+    /// @param indexes The message indexes to label
+    /// @param encryptedLabels The new encrypted labels for each index
+    function setLabels(uint256[] calldata indexes, bytes[] calldata encryptedLabels) external {
+        require(indexes.length == encryptedLabels.length, "Vault: Length mismatch");
+        Message[] storage messages = _userMessages[msg.sender];
+
+        for (uint256 i = 0; i < indexes.length; ++i) {
+            require(indexes[i] < messages.length, "Vault: Index error");
+            require(messages[indexes[i]].encryptedContent.length > 0, "Vault: Message deleted");
+            require(encryptedLabels[i].length <= MAX_LABEL_SIZE, "Labels too large");
+
+            messages[indexes[i]].label = encryptedLabels[i];
+            emit LabelsUpdated(msg.sender, indexes[i], encryptedLabels[i].length);
+        }
+    }
+
+    /// @notice Returns the encrypted labels of a message
+    /// @param user The user address
+    /// @param index The message index
+    /// @return The encrypted labels, empty if the message has none
+    function getLabels(address user, uint256 index) external view returns (bytes memory) {
+        require(index < _userMessages[user].length, "Vault: Index error");
+        return _userMessages[user][index].label;
+    }
+
+    /// @notice Returns the earlier revisions of a message, oldest first
+    /// @dev Revision `i` was written at the message timestamp for `i == 0`, else at `replacedAt` of revision `i - 1`
+    /// @param user The user address
+    /// @param index The message index
+    /// @return The revisions, empty if the message was never edited
+    function getRevisions(address user, uint256 index) external view returns (Revision[] memory) {
+        require(index < _userMessages[user].length, "Vault: Index error");
+        return _revisions[user][_generations[user]][index];
+    }
+
+    /// @notice Returns the number of earlier revisions of a page of messages, oldest first
+    /// @param user The user address
+    /// @param offset Index of the first message
+    /// @param limit Maximum number of messages
+    /// @return counts The revision count of each message from `offset`, like getMessagesRange pages them
+    function getRevisionCounts(
+        address user,
+        uint256 offset,
+        uint256 limit
+    ) external view returns (uint256[] memory counts) {
+        uint256 length = _userMessages[user].length;
+        if (offset >= length) return counts;
+
+        uint256 count = length - offset;
+        if (count > limit) count = limit;
+        counts = new uint256[](count);
+        mapping(uint256 => Revision[]) storage revisions = _revisions[user][_generations[user]];
+        for (uint256 i = 0; i < count; ++i) {
+            counts[i] = revisions[offset + i].length;
+        }
+    }
+
+    /// @notice Returns the number of earlier revisions of the given messages
+    /// @param user The user address
+    /// @param indexes The message indexes, e.g. the indexes of a thread page
+    /// @return counts The revision count of each message
+    function getRevisionCountsAt(
+        address user,
+        uint256[] calldata indexes
+    ) external view returns (uint256[] memory counts) {
+        uint256 length = _userMessages[user].length;
+        counts = new uint256[](indexes.length);
+        mapping(uint256 => Revision[]) storage revisions = _revisions[user][_generations[user]];
+        for (uint256 i = 0; i < indexes.length; ++i) {
+            require(indexes[i] < length, "Vault: Index error");
+            counts[i] = revisions[indexes[i]].length;
+        }
+    }
+
+    /// @notice Create a thread
+    /// @param encryptedTitle The AES-encrypted title
+    /// @return threadId The id of the new thread
+    function createThread(bytes calldata encryptedTitle) external returns (uint256 threadId) {
+        require(encryptedTitle.length > 0, "Vault: Empty title");
+        require(encryptedTitle.length <= MAX_TITLE_SIZE, "Vault: Title too large");
+        require(_threads[msg.sender].length < MAX_THREADS, "Vault: Too many threads");
+
+        _threads[msg.sender].push(Thread({title: encryptedTitle, createdAt: block.timestamp, archived: false}));
+        threadId = _threads[msg.sender].length;
+        emit ThreadCreated(msg.sender, threadId, encryptedTitle.length);
+    }
+
+    /// @notice Replace the encrypted title of a thread
+    /// @param threadId The thread id
+    /// @param encryptedTitle The AES-encrypted new title
+    function renameThread(uint256 threadId, bytes calldata encryptedTitle) external {
+        Thread storage thread = _thread(threadId);
+        require(encryptedTitle.length > 0, "Vault: Empty title");
+        require(encryptedTitle.length <= MAX_TITLE_SIZE, "Vault: Title too large");
+
+        thread.title = encryptedTitle;
+        emit ThreadRenamed(msg.sender, threadId, encryptedTitle.length);
+    }
+
+    /// @notice Archive a thread, or restore an archived one
+    /// @dev Archived threads keep their messages but take no new ones
+    /// @param threadId The thread id
+    /// @param archived Whether the thread is archived
+    function setThreadArchived(uint256 threadId, bool archived) external {
+        _thread(threadId).archived = archived;
+        emit ThreadArchived(msg.sender, threadId, archived);
+    }
+
+    /// @dev A thread of the caller; the default conversation can't be renamed or archived
+    function _thread(uint256 threadId) private view returns (Thread storage) {
+        require(threadId > 0 && threadId <= _threads[msg.sender].length, "Vault: Unknown thread");
+        return _threads[msg.sender][threadId - 1];
+    }
+
+    /// @notice Returns the threads of a user and their message counts
+    /// @param user The user address
+    /// @return threads The threads; thread `id` is at `id - 1`
+    /// @return messageCounts The number of messages of each thread, from the default conversation (0) on
+    function getThreads(
+        address user
+    ) external view returns (Thread[] memory threads, uint256[] memory messageCounts) {
+        threads = _threads[user];
+        messageCounts = new uint256[](threads.length + 1);
+        mapping(uint256 => uint256[]) storage threadMessages = _threadMessages[user][_generations[user]];
+        for (uint256 i = 0; i < messageCounts.length; ++i) {
+            messageCounts[i] = threadMessages[i].length;
+        }
+    }
+
+    /// @notice Get a page of the messages of a thread, oldest first
+    /// @param user The user address
+    /// @param threadId The thread, 0 for the default conversation
+    /// @param offset Position in the thread of the first message
+    /// @param limit Maximum number of messages to return
+    /// @return page The messages from `offset`, empty if `offset` is past the end
+    /// @return indexes The vault-wide index of each message
+    function getThreadMessagesRange(
+        address user,
+        uint256 threadId,
+        uint256 offset,
+        uint256 limit
+    ) external view returns (Message[] memory page, uint256[] memory indexes) {
+        uint256[] storage threadMessages = _threadMessages[user][_generations[user]][threadId];
+        if (offset >= threadMessages.length) return (page, indexes);
+
+        uint256 count = threadMessages.length - offset;
+        if (count > limit) count = limit;
+        page = new Message[](count);
+        indexes = new uint256[](count);
+        for (uint256 i = 0; i < count; ++i) {
+            indexes[i] = threadMessages[offset + i];
+            page[i] = _userMessages[user][indexes[i]];
+        }
+    }
+
+    /// @notice Get a page of the messages of a thread, newest first
+    /// @param user The user address
+    /// @param threadId The thread, 0 for the default conversation
+    /// @param offset Number of newest messages of the thread to skip
+    /// @param limit Maximum number of messages to return
+    /// @return page The messages, newest first
+    /// @return indexes The vault-wide index of each message
+    /// @return total The number of messages in the thread
+    function getLatestThreadMessages(
+        address user,
+        uint256 threadId,
+        uint256 offset,
+        uint256 limit
+    ) external view returns (Message[] memory page, uint256[] memory indexes, uint256 total) {
+        uint256[] storage threadMessages = _threadMessages[user][_generations[user]][threadId];
+        total = threadMessages.length;
+        if (offset >= total) return (page, indexes, total);
+
+        uint256 count = total - offset;
+        if (count > limit) count = limit;
+        page = new Message[](count);
+        indexes = new uint256[](count);
+        for (uint256 i = 0; i < count; ++i) {
+            indexes[i] = threadMessages[total - 1 - offset - i];
+            page[i] = _userMessages[user][indexes[i]];
+        }
+    }
+
+    /// @notice Publishes the caller's X25519 messaging key
+    /// @dev Direct messages sealed to an earlier key can't be read with a new one
+    /// @param key The public key
+    function setMessagingKey(bytes32 key) external {
+        require(key != bytes32(0), "Vault: Empty key");
+        _messagingKeys[msg.sender] = key;
+        emit MessagingKeySet(msg.sender, key);
+    }
+
+    /// @notice Returns the X25519 messaging key of an account
+    /// @param account The account address
+    /// @return The public key, zero if the account has none
+    function getMessagingKey(address account) external view returns (bytes32) {
+        return _messagingKeys[account];
+    }
+
+    /// @notice Send a direct message to another address
+    /// @dev Both parties need a messaging key; the message is added to the conversation of the pair
+    /// @param recipient The recipient address
+    /// @param encryptedContent The encrypted message, readable by the caller and the recipient
+    function sendDirectMessage(address recipient, bytes calldata encryptedContent) external {
+        require(recipient != address(0) && recipient != msg.sender, "Vault: Invalid recipient");
+        require(_messagingKeys[msg.sender] != bytes32(0), "Vault: No messaging key");
+        require(_messagingKeys[recipient] != bytes32(0), "Vault: Recipient has no key");
+        require(encryptedContent.length > 0, "Empty message");
+        require(encryptedContent.length <= 16384, "Message too large");
+
+        DirectMessage[] storage conversation = _conversations[_conversationId(msg.sender, recipient)];
+        conversation.push(
+            DirectMessage({sender: msg.sender, encryptedContent: encryptedContent, timestamp: block.timestamp})
         );
+        _addToInbox(msg.sender, recipient);
+        _addToInbox(recipient, msg.sender);
+
+        emit DirectMessageSent(msg.sender, recipient, conversation.length - 1, encryptedContent.length);
+    }
 
-        emit MessageStored(msg.sender, _userMessages[msg.sender].length - 1, block.timestamp, true, encryptedContent.length);
+    /// @dev The same id for both orders of a pair
+    function _conversationId(address a, address b) private pure returns (bytes32) {
+        return a < b ? keccak256(abi.encode(a, b)) : keccak256(abi.encode(b, a));
+    }
+
+    function _addToInbox(address account, address peer) private {
+        if (!_inInbox[account][peer]) {
+            _inInbox[account][peer] = true;
+            _inboxes[account].push(peer);
+        }
+    }
+
+    /// @notice Returns the conversations of an account: everyone it sent a direct message to or got one from
+    /// @param account The account address
+    /// @return peers The other party of each conversation, in order of the first message
+    /// @return messageCounts The number of messages of each conversation
+    /// @return lastTimestamps When the latest message of each conversation was sent
+    function getInbox(
+        address account
+    ) external view returns (address[] memory peers, uint256[] memory messageCounts, uint256[] memory lastTimestamps) {
+        peers = _inboxes[account];
+        messageCounts = new uint256[](peers.length);
+        lastTimestamps = new uint256[](peers.length);
+        for (uint256 i = 0; i < peers.length; ++i) {
+            DirectMessage[] storage conversation = _conversations[_conversationId(account, peers[i])];
+            messageCounts[i] = conversation.length;
+            lastTimestamps[i] = conversation[conversation.length - 1].timestamp;
+        }
+    }
+
+    /// @notice Get a page of the direct messages between two addresses, oldest first
+    /// @param a One party, in either order
+    /// @param b The other party
+    /// @param offset Position in the conversation of the first message
+    /// @param limit Maximum number of messages to return
+    /// @return page The messages from `offset`, empty if `offset` is past the end
+    function getDirectMessagesRange(
+        address a,
+        address b,
+        uint256 offset,
+        uint256 limit
+    ) external view returns (DirectMessage[] memory page) {
+        DirectMessage[] storage conversation = _conversations[_conversationId(a, b)];
+        if (offset >= conversation.length) return page;
+
+        uint256 count = conversation.length - offset;
+        if (count > limit) count = limit;
+        page = new DirectMessage[](count);
+        for (uint256 i = 0; i < count; ++i) {
+            page[i] = conversation[offset + i];
+        }
+    }
+
+    /// @notice Get a page of the direct messages between two addresses, newest first
+    /// @param a One party, in either order
+    /// @param b The other party
+    /// @param offset Number of newest messages to skip
+    /// @param limit Maximum number of messages to return
+    /// @return page The messages, newest first; message `i` is at position `total - 1 - offset - i`
+    /// @return total The number of messages in the conversation
+    function getLatestDirectMessages(
+        address a,
+        address b,
+        uint256 offset,
+        uint256 limit
+    ) external view returns (DirectMessage[] memory page, uint256 total) {
+        DirectMessage[] storage conversation = _conversations[_conversationId(a, b)];
+        total = conversation.length;
+        if (offset >= total) return (page, total);
+
+        uint256 count = total - offset;
+        if (count > limit) count = limit;
+        page = new DirectMessage[](count);
+        for (uint256 i = 0; i < count; ++i) {
+            page[i] = conversation[total - 1 - offset - i];
+        }
+    }
+
+    /// @notice Returns the key-check value of a user's vault
+    /// @param user The user address
+    /// @return The encrypted key-check value, empty if the vault was never set up
+    function getKeyCheck(address user) external view returns (bytes memory) {
+        return _keyChecks[user];
+    }
+
+    /// @notice Store the key-check value used to verify the vault password before unlocking
+    /// @dev A known constant encrypted client-side with the vault key; replaced on password change
+    /// @param keyCheck The encrypted key-check value
+    function setKeyCheck(bytes calldata keyCheck) external {
+        require(keyCheck.length > 0, "Empty key check");
+        require(keyCheck.length <= 1024, "Key check too large");
+
+        _keyChecks[msg.sender] = keyCheck;
+        emit KeyCheckUpdated(msg.sender, keyCheck.length);
+    }
+
+    /// @notice Returns how often a user's messages were cleared
+    /// @dev Lets companion contracts key per-message state by generation, like revisions, so it
+    ///      doesn't carry over to the new messages at the same indexes
+    /// @param user The user address
+    /// @return The number of clearMessages calls of the user
+    function getGeneration(address user) external view returns (uint256) {
+        return _generations[user];
     }
 
     /// @notice Clear all messages for the caller
+    /// @dev Threads are kept, emptied; direct messages are shared with their recipient and stay
     function clearMessages() external {
         delete _userMessages[msg.sender];
+        ++_generations[msg.sender];
         emit MessagesCleared(msg.sender);
     }
     
@@ -138,4 +771,49 @@ contract WhisperVault is LocalConfig {
     function getAllMessages(address user) external view returns (Message[] memory) {
         return _userMessages[user];
     }
+
+    /// @notice Get a page of messages for a user, oldest first
+    /// @dev Indexes are stable while messages are only appended, so clients page by index
+    /// @param user The user address
+    /// @param offset Index of the first message
+    /// @param limit Maximum number of messages to return
+    /// @return page The messages from `offset`, empty if `offset` is past the end
+    function getMessagesRange(
+        address user,
+        uint256 offset,
+        uint256 limit
+    ) external view returns (Message[] memory page) {
+        Message[] storage messages = _userMessages[user];
+        if (offset >= messages.length) return page;
+
+        uint256 count = messages.length - offset;
+        if (count > limit) count = limit;
+        page = new Message[](count);
+        for (uint256 i = 0; i < count; ++i) {
+            page[i] = messages[offset + i];
+        }
+    }
+
+    /// @notice Get a page of messages for a user, newest first
+    /// @param user The user address
+    /// @param offset Number of newest messages to skip
+    /// @param limit Maximum number of messages to return
+    /// @return page The messages, newest first; message `i` has index `total - 1 - offset - i`
+    /// @return total The number of messages stored for the user
+    function getLatestMessages(
+        address user,
+        uint256 offset,
+        uint256 limit
+    ) external view returns (Message[] memory page, uint256 total) {
+        Message[] storage messages = _userMessages[user];
+        total = messages.length;
+        if (offset >= total) return (page, total);
+
+        uint256 count = total - offset;
+        if (count > limit) count = limit;
+        page = new Message[](count);
+        for (uint256 i = 0; i < count; ++i) {
+            page[i] = messages[total - 1 - offset - i];
+        }
+    }
 }
@@ -12,7 +12,67 @@ const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
   });
 
   console.log(`WhisperVault contract: `, deployedWhisperVault.address);
+
+  // Deploy GuardianRegistry - social recovery of vault keys
+  const deployedGuardianRegistry = await deploy("GuardianRegistry", {
+    from: deployer,
+    log: true,
+  });
+
+  console.log(`GuardianRegistry contract: `, deployedGuardianRegistry.address);
+
+  // Deploy GroupRegistry - group conversations, keyed to WhisperVault messaging keys
+  const deployedGroupRegistry = await deploy("GroupRegistry", {
+    from: deployer,
+    args: [deployedWhisperVault.address],
+    log: true,
+  });
+
+  console.log(`GroupRegistry contract: `, deployedGroupRegistry.address);
+
+  // Deploy ChannelRegistry - broadcast channels, keyed to WhisperVault messaging keys
+  const deployedChannelRegistry = await deploy("ChannelRegistry", {
+    from: deployer,
+    args: [deployedWhisperVault.address],
+    log: true,
+  });
+
+  console.log(`ChannelRegistry contract: `, deployedChannelRegistry.address);
+
+  // Deploy MessageFlags - FHE-encrypted read, starred and priority flags of WhisperVault messages
+  const deployedMessageFlags = await deploy("MessageFlags", {
+    from: deployer,
+    args: [deployedWhisperVault.address],
+    log: true,
+  });
+
+  console.log(`MessageFlags contract: `, deployedMessageFlags.address);
+
+  // Deploy VaultKeyEscrow - FHE-encrypted vault data keys, shared through the FHEVM ACL
+  const deployedVaultKeyEscrow = await deploy("VaultKeyEscrow", {
+    from: deployer,
+    log: true,
+  });
+
+  console.log(`VaultKeyEscrow contract: `, deployedVaultKeyEscrow.address);
+
+  // Deploy MessageGrants - time-limited read access to chosen WhisperVault messages
+  const deployedMessageGrants = await deploy("MessageGrants", {
+    from: deployer,
+    args: [deployedWhisperVault.address],
+    log: true,
+  });
+
+  console.log(`MessageGrants contract: `, deployedMessageGrants.address);
 };
 export default func;
 func.id = "deploy_whisperVault"; // id required to prevent reexecution
-func.tags = ["WhisperVault"];
+func.tags = [
+  "WhisperVault",
+  "GuardianRegistry",
+  "GroupRegistry",
+  "ChannelRegistry",
+  "MessageFlags",
+  "VaultKeyEscrow",
+  "MessageGrants",
+];
@@ -0,0 +1,367 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import {
+  ArrowLeft,
+  Check,
+  ChevronUp,
+  Eye,
+  KeyRound,
+  Lock,
+  LogOut,
+  Megaphone,
+  Pencil,
+  RefreshCw,
+  Send,
+  ShieldAlert,
+  Unlock,
+  UserCheck,
+  UserMinus,
+  Users,
+  X,
+} from "lucide-react";
+import { Channel, ChannelPost } from "@/hooks/useChannels";
+import { MAX_CHANNEL_NAME_LENGTH } from "@/hooks/useCrypto";
+
+interface ChannelFeedProps {
+  channel: Channel;
+  // Subscribers and pending requests, only loaded for the publisher
+  subscribers: string[];
+  requests: string[];
+  posts: ChannelPost[];
+  hasOlderPosts: boolean;
+  loadingOlder: boolean;
+  loading: boolean;
+  onLoadOlder: () => Promise<void>;
+  onDecrypt: () => Promise<void>;
+  onPublish: (text: string) => Promise<void>;
+  onApprove: (accounts: string[]) => Promise<void>;
+  onReject: (accounts: string[]) => Promise<void>;
+  onRemove: (subscriber: string) => Promise<void>;
+  onRotateKey: () => Promise<void>;
+  onRename: (name: string) => Promise<void>;
+  onUnsubscribe: () => Promise<void>;
+  onClose: () => void;
+}
+
+const truncateHex = (hex: string) => (hex.length <= 24 ? hex : hex.slice(0, 12) + "..." + hex.slice(-10));
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+/**
+ * A channel's posts as a feed. Subscribers only read; the publisher also posts, approves or
+ * rejects requests and removes subscribers
+ */
+export const ChannelFeed = ({
+  channel,
+  subscribers,
+  requests,
+  posts,
+  hasOlderPosts,
+  loadingOlder,
+  loading,
+  onLoadOlder,
+  onDecrypt,
+  onPublish,
+  onApprove,
+  onReject,
+  onRemove,
+  onRotateKey,
+  onRename,
+  onUnsubscribe,
+  onClose,
+}: ChannelFeedProps) => {
+  const [input, setInput] = useState("");
+  const [showAudience, setShowAudience] = useState(false);
+  const [renaming, setRenaming] = useState(false);
+  const [nameInput, setNameInput] = useState("");
+  const [channelError, setChannelError] = useState<string | null>(null);
+  const endRef = useRef<HTMLDivElement>(null);
+
+  const newestId = posts[posts.length - 1]?.id;
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ behavior: "smooth" });
+  }, [newestId]);
+
+  const run = async (action: () => Promise<void>) => {
+    try {
+      setChannelError(null);
+      await action();
+    } catch (err) {
+      setChannelError(err instanceof Error ? err.message : "Something went wrong");
+    }
+  };
+
+  const handlePublish = () =>
+    run(async () => {
+      await onPublish(input);
+      setInput("");
+    });
+
+  const handleRename = () =>
+    run(async () => {
+      await onRename(nameInput);
+      setRenaming(false);
+    });
+
+  const publishing = channel.status === "publisher";
+  const locked =
+    channel.name === undefined ||
+    posts.some((post) => post.decryptedText === undefined && !post.unreadable && !post.beforeSubscribing);
+
+  return (
+    <div className="flex-1 min-h-0 flex flex-col">
+      <div className="px-4 py-3 border-b border-slate-300/50 flex items-center gap-3">
+        <button onClick={onClose} className="p-1.5 text-slate-500 hover:text-slate-700" title="Back to threads">
+          <ArrowLeft className="w-4 h-4" />
+        </button>
+        <Megaphone className="w-4 h-4 text-sky-500" />
+        {renaming ? (
+          <>
+            <input
+              type="text"
+              value={nameInput}
+              onChange={(e) => setNameInput(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter" && nameInput.trim()) handleRename();
+                if (e.key === "Escape") setRenaming(false);
+              }}
+              maxLength={MAX_CHANNEL_NAME_LENGTH}
+              className="flex-1 px-3 py-1.5 bg-white/80 border border-slate-300 rounded-lg text-sm text-slate-700 focus:outline-none focus:border-sky-400"
+              autoFocus
+            />
+            <button onClick={() => setRenaming(false)} className="p-1.5 text-slate-400 hover:text-slate-600" title="Cancel">
+              <X className="w-4 h-4" />
+            </button>
+            <button
+              onClick={handleRename}
+              disabled={loading || !nameInput.trim()}
+              className="p-1.5 text-sky-500 hover:text-sky-600 disabled:opacity-50"
+              title="Save name"
+            >
+              <Check className="w-4 h-4" />
+            </button>
+          </>
+        ) : (
+          <>
+            <span className="flex-1 truncate text-sm font-medium text-slate-700">
+              {channel.name ?? `Encrypted channel #${channel.id}`}
+              <span className="ml-2 text-xs font-normal text-slate-400">#{channel.id}</span>
+            </span>
+            {publishing && channel.name !== undefined && (
+              <button
+                onClick={() => {
+                  setNameInput(channel.name ?? "");
+                  setRenaming(true);
+                }}
+                className="p-1.5 text-slate-500 hover:text-slate-700"
+                title="Rename channel"
+              >
+                <Pencil className="w-4 h-4" />
+              </button>
+            )}
+          </>
+        )}
+        {locked && (
+          <button
+            onClick={() => run(onDecrypt)}
+            disabled={loading}
+            className="px-3 py-1.5 glass-card hover:bg-blue-50/80 disabled:opacity-50 rounded-xl text-slate-700 text-xs font-medium flex items-center gap-1.5"
+            title="Sign with your wallet to open your messaging key"
+          >
+            <Unlock className="w-3.5 h-3.5 text-sky-500" />
+            Decrypt
+          </button>
+        )}
+        {publishing ? (
+          <button
+            onClick={() => setShowAudience(!showAudience)}
+            className={`px-3 py-1.5 rounded-xl text-xs font-medium flex items-center gap-1.5 ${
+              showAudience ? "bg-sky-100/80 text-sky-700" : "glass-card text-slate-700 hover:bg-blue-50/80"
+            }`}
+            title="Subscribers and requests"
+          >
+            <Users className="w-3.5 h-3.5" />
+            {subscribers.length}
+            {requests.length > 0 && (
+              <span className="px-1.5 rounded-full bg-amber-400 text-white">{requests.length}</span>
+            )}
+          </button>
+        ) : (
+          <>
+            <span className="px-2 py-1 rounded-lg bg-slate-100/80 text-slate-500 text-xs flex items-center gap-1">
+              <Eye className="w-3 h-3" />
+              Read-only
+            </span>
+            <button
+              onClick={() => run(onUnsubscribe)}
+              disabled={loading}
+              className="p-1.5 text-slate-500 hover:text-red-600 disabled:opacity-50"
+              title="Unsubscribe"
+            >
+              <LogOut className="w-4 h-4" />
+            </button>
+          </>
+        )}
+      </div>
+
+      {publishing && showAudience && (
+        <div className="px-4 py-3 border-b border-slate-300/50 glass space-y-3 max-h-64 overflow-y-auto">
+          {requests.length > 0 && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <h4 className="text-xs font-semibold text-slate-700">Requests</h4>
+                {requests.length > 1 && (
+                  <button
+                    onClick={() => run(() => onApprove(requests))}
+                    disabled={loading}
+                    className="text-xs text-sky-600 hover:text-sky-700 disabled:opacity-50"
+                  >
+                    Approve all
+                  </button>
+                )}
+              </div>
+              {requests.map((account) => (
+                <div key={account} className="flex items-center gap-2 text-sm">
+                  <span className="flex-1 truncate font-mono text-slate-700" title={account}>
+                    {shortAddress(account)}
+                  </span>
+                  <button
+                    onClick={() => run(() => onApprove([account]))}
+                    disabled={loading}
+                    className="p-1 text-slate-500 hover:text-sky-600 disabled:opacity-50"
+                    title="Approve (replaces the channel key)"
+                  >
+                    <UserCheck className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => run(() => onReject([account]))}
+                    disabled={loading}
+                    className="p-1 text-slate-500 hover:text-red-600 disabled:opacity-50"
+                    title="Reject"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+          <div className="space-y-2">
+            <h4 className="text-xs font-semibold text-slate-700">Subscribers</h4>
+            {subscribers.length === 0 && (
+              <p className="text-xs text-slate-500">
+                No subscribers yet. Share channel #{channel.id} so people can ask to follow it.
+              </p>
+            )}
+            {subscribers.map((subscriber) => (
+              <div key={subscriber} className="flex items-center gap-2 text-sm">
+                <span className="flex-1 truncate font-mono text-slate-700" title={subscriber}>
+                  {shortAddress(subscriber)}
+                </span>
+                <button
+                  onClick={() => run(() => onRemove(subscriber))}
+                  disabled={loading}
+                  className="p-1 text-slate-500 hover:text-red-600 disabled:opacity-50"
+                  title="Remove subscriber (replaces the channel key)"
+                >
+                  <UserMinus className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {publishing && channel.rekeyNeeded && (
+        <div className="mx-4 mt-3 p-3 rounded-xl bg-amber-50/80 border border-amber-300/50 flex items-center gap-3">
+          <KeyRound className="w-4 h-4 text-amber-600 flex-shrink-0" />
+          <p className="flex-1 text-xs text-amber-700">
+            A subscriber left while holding the channel key. Replace it before posting again.
+          </p>
+          <button
+            onClick={() => run(onRotateKey)}
+            disabled={loading}
+            className="px-3 py-1.5 bg-amber-500 hover:bg-amber-400 disabled:opacity-50 rounded-lg text-white text-xs font-medium"
+          >
+            Replace key
+          </button>
+        </div>
+      )}
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-4">
+        {hasOlderPosts && (
+          <div className="flex justify-center">
+            <button
+              onClick={() => run(onLoadOlder)}
+              disabled={loadingOlder}
+              className="px-4 py-2 text-sm text-slate-500 hover:text-slate-700 transition-colors flex items-center gap-2 glass-card rounded-full"
+            >
+              {loadingOlder ? <RefreshCw className="w-4 h-4 animate-spin" /> : <ChevronUp className="w-4 h-4" />}
+              {loadingOlder ? "Loading older posts..." : "Older posts"}
+            </button>
+          </div>
+        )}
+        {posts.length === 0 && !loading && (
+          <p className="text-center text-sm text-slate-500">
+            No posts yet. Only the publisher and approved subscribers can read this channel.
+          </p>
+        )}
+        {posts.map((post) => (
+          <div key={post.id} className="message-system px-5 py-3 space-y-2">
+            {post.decryptedText !== undefined ? (
+              <p className="text-sm text-slate-700 whitespace-pre-wrap break-words">{post.decryptedText}</p>
+            ) : post.beforeSubscribing ? (
+              <p className="text-xs italic text-slate-500">
+                Posted under a channel key you never held, before you were approved.
+              </p>
+            ) : post.unreadable ? (
+              <div className="flex items-start gap-2 p-2 rounded-lg bg-red-100/80 border border-red-300/50">
+                <ShieldAlert className="w-3.5 h-3.5 text-red-600 flex-shrink-0 mt-0.5" />
+                <p className="text-xs text-red-600">The channel key doesn&apos;t open this post.</p>
+              </div>
+            ) : (
+              <div className="flex items-center gap-2 encrypted-content p-2 rounded-lg">
+                <Lock className="w-3.5 h-3.5 text-sky-500 flex-shrink-0" />
+                <p className="font-mono text-xs text-sky-600/80 break-all">{truncateHex(post.encryptedContent)}</p>
+              </div>
+            )}
+            <p className="text-xs text-slate-500">{new Date(post.timestamp * 1000).toLocaleString()}</p>
+          </div>
+        ))}
+        <div ref={endRef} />
+      </div>
+
+      {publishing && (
+        <div className="p-4 border-t border-slate-300/50 glass space-y-2">
+          {channelError && <p className="text-xs text-red-600">{channelError}</p>}
+          <div className="flex items-center gap-3">
+            <input
+              type="text"
+              placeholder={channel.rekeyNeeded ? "Waiting for a new channel key..." : "Post to your subscribers..."}
+              className="flex-1 px-5 py-4 bg-white/80 border border-slate-300 rounded-2xl text-slate-700 placeholder:text-slate-400 focus:outline-none focus:border-sky-400 input-cyber transition-all"
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && !e.shiftKey && input.trim() && handlePublish()}
+              disabled={loading || channel.rekeyNeeded}
+            />
+            <button
+              onClick={handlePublish}
+              disabled={loading || channel.rekeyNeeded || !input.trim()}
+              className="p-4 bg-gradient-to-r from-sky-400 to-blue-500 hover:from-sky-300 hover:to-blue-400 disabled:opacity-50 disabled:cursor-not-allowed rounded-2xl text-white transition-all glow-cyan btn-cyber shadow-md"
+              title="Publish to channel"
+            >
+              {loading ? (
+                <div className="w-6 h-6 border-2 border-white/30 border-t-white rounded-full animate-spin" />
+              ) : (
+                <Send className="w-6 h-6" />
+              )}
+            </button>
+          </div>
+        </div>
+      )}
+      {!publishing && channelError && (
+        <p className="px-4 py-2 border-t border-slate-300/50 text-xs text-red-600">{channelError}</p>
+      )}
+    </div>
+  );
+};
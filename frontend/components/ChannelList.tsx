@@ -0,0 +1,204 @@
+"use client";
+
+import { useState } from "react";
+import { Check, Clock, Lock, Megaphone, Plus, Radio, Unlock, X } from "lucide-react";
+import { Channel } from "@/hooks/useChannels";
+import { MAX_CHANNEL_NAME_LENGTH } from "@/hooks/useCrypto";
+
+interface ChannelListProps {
+  channels: Channel[];
+  activeChannel: number | null;
+  // Whether a ChannelRegistry is deployed on this chain, null until checked
+  available: boolean | null;
+  // Messaging key the account published, null if none
+  messagingKey: string | null;
+  loading: boolean;
+  onOpen: (id: number) => Promise<void>;
+  onCreate: (name: string) => Promise<number>;
+  onRequest: (channelId: string) => Promise<void>;
+  onCancelRequest: (id: number) => Promise<void>;
+  onDecrypt: () => Promise<void>;
+}
+
+/**
+ * Channels the connected account publishes, reads or asked to read: open one, create one, or ask
+ * a publisher for access by channel number
+ */
+export const ChannelList = ({
+  channels,
+  activeChannel,
+  available,
+  messagingKey,
+  loading,
+  onOpen,
+  onCreate,
+  onRequest,
+  onCancelRequest,
+  onDecrypt,
+}: ChannelListProps) => {
+  const [creating, setCreating] = useState(false);
+  const [name, setName] = useState("");
+  const [requestInput, setRequestInput] = useState("");
+  const [listError, setListError] = useState<string | null>(null);
+
+  const run = async (action: () => Promise<void>) => {
+    try {
+      setListError(null);
+      await action();
+    } catch (err) {
+      console.error("Channel action failed:", err);
+      setListError(err instanceof Error ? err.message : "Channel action failed");
+    }
+  };
+
+  const handleCreate = () =>
+    run(async () => {
+      const id = await onCreate(name);
+      setCreating(false);
+      setName("");
+      await onOpen(id);
+    });
+
+  const handleRequest = () =>
+    run(async () => {
+      await onRequest(requestInput);
+      setRequestInput("");
+    });
+
+  if (available === false) {
+    return (
+      <div className="space-y-2">
+        <h3 className="px-1 text-sm font-semibold text-slate-700">Channels</h3>
+        <p className="px-1 text-xs text-slate-500">Channels need a ChannelRegistry deployment on this network.</p>
+      </div>
+    );
+  }
+
+  const locked = channels.some((channel) => channel.status !== "pending" && channel.name === undefined);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between px-1">
+        <h3 className="text-sm font-semibold text-slate-700">Channels</h3>
+        <div className="flex items-center gap-1">
+          {locked && (
+            <button
+              onClick={() => run(onDecrypt)}
+              disabled={loading}
+              className="p-1.5 text-slate-500 hover:text-sky-600 disabled:opacity-50"
+              title="Decrypt channel names"
+            >
+              <Unlock className="w-4 h-4" />
+            </button>
+          )}
+          {messagingKey && (
+            <button
+              onClick={() => setCreating(true)}
+              disabled={loading || creating}
+              className="p-1.5 text-slate-500 hover:text-sky-600 disabled:opacity-50"
+              title="New channel"
+            >
+              <Plus className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+      </div>
+
+      {!messagingKey && (
+        <p className="px-1 text-xs text-slate-500">Publish a messaging key to create or follow channels.</p>
+      )}
+
+      {creating && (
+        <div className="flex items-center gap-1 p-2 glass rounded-xl">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" && name.trim()) handleCreate();
+              if (e.key === "Escape") setCreating(false);
+            }}
+            maxLength={MAX_CHANNEL_NAME_LENGTH}
+            placeholder="Channel name"
+            className="flex-1 min-w-0 px-3 py-2 bg-white/80 border border-slate-300 rounded-lg text-sm text-slate-700 placeholder:text-slate-400 focus:outline-none focus:border-sky-400"
+            autoFocus
+          />
+          <button onClick={() => setCreating(false)} className="p-1.5 text-slate-400 hover:text-slate-600" title="Cancel">
+            <X className="w-4 h-4" />
+          </button>
+          <button
+            onClick={handleCreate}
+            disabled={loading || !name.trim()}
+            className="p-1.5 text-sky-500 hover:text-sky-600 disabled:opacity-50"
+            title="Create channel"
+          >
+            <Check className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+      {listError && <p className="px-1 text-xs text-red-600">{listError}</p>}
+
+      <div className="space-y-1">
+        {channels.map((channel) =>
+          channel.status === "pending" ? (
+            <div key={channel.id} className="flex items-center gap-2 px-3 py-2 rounded-xl text-slate-500">
+              <Clock className="w-4 h-4 flex-shrink-0" />
+              <span className="flex-1 truncate text-sm">Channel #{channel.id}</span>
+              <span className="text-xs">Awaiting approval</span>
+              <button
+                onClick={() => run(() => onCancelRequest(channel.id))}
+                disabled={loading}
+                className="p-1 text-slate-400 hover:text-red-600 disabled:opacity-50"
+                title="Withdraw request"
+              >
+                <X className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          ) : (
+            <div
+              key={channel.id}
+              className={`flex items-center gap-2 px-3 py-2 rounded-xl cursor-pointer transition-colors ${
+                channel.id === activeChannel ? "bg-sky-100/80 text-sky-700" : "text-slate-600 hover:bg-white/60"
+              }`}
+              onClick={() => channel.id !== activeChannel && run(() => onOpen(channel.id))}
+            >
+              {channel.name === undefined ? (
+                <Lock className="w-4 h-4 flex-shrink-0 text-slate-400" />
+              ) : channel.status === "publisher" ? (
+                <Megaphone className="w-4 h-4 flex-shrink-0" />
+              ) : (
+                <Radio className="w-4 h-4 flex-shrink-0" />
+              )}
+              <span className="flex-1 truncate text-sm">{channel.name ?? `Encrypted channel #${channel.id}`}</span>
+              <span className="text-xs text-slate-400">{channel.postCount}</span>
+            </div>
+          )
+        )}
+        {messagingKey && channels.length === 0 && !creating && (
+          <p className="px-1 text-xs text-slate-500">No channels yet.</p>
+        )}
+      </div>
+
+      {messagingKey && (
+        <div className="flex items-center gap-1 px-1">
+          <input
+            type="text"
+            value={requestInput}
+            onChange={(e) => setRequestInput(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && requestInput.trim() && handleRequest()}
+            placeholder="Follow channel #"
+            className="flex-1 min-w-0 px-3 py-1.5 bg-white/80 border border-slate-300 rounded-lg text-xs text-slate-700 placeholder:text-slate-400 focus:outline-none focus:border-sky-400"
+          />
+          <button
+            onClick={handleRequest}
+            disabled={loading || !requestInput.trim()}
+            className="p-1.5 text-sky-500 hover:text-sky-600 disabled:opacity-50"
+            title="Ask the publisher for access"
+          >
+            <Plus className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,147 @@
+"use client";
+
+import { useState } from "react";
+import { Check, KeyRound, Plus, UserRound, X } from "lucide-react";
+import { Conversation } from "@/hooks/useDirectMessages";
+
+interface ConversationListProps {
+  conversations: Conversation[];
+  activeConversation: string | null;
+  // Whether the deployment has direct messages
+  supported: boolean;
+  // Messaging key the account published, null if none
+  messagingKey: string | null;
+  loading: boolean;
+  onOpen: (peer: string) => Promise<void>;
+  onRegisterKey: () => Promise<void>;
+}
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+/**
+ * Inbox of two-party conversations: open one, or start one with any address that published a messaging key
+ */
+export const ConversationList = ({
+  conversations,
+  activeConversation,
+  supported,
+  messagingKey,
+  loading,
+  onOpen,
+  onRegisterKey,
+}: ConversationListProps) => {
+  const [starting, setStarting] = useState(false);
+  const [peerInput, setPeerInput] = useState("");
+  const [listError, setListError] = useState<string | null>(null);
+
+  const run = async (action: () => Promise<void>) => {
+    try {
+      setListError(null);
+      await action();
+    } catch (err) {
+      console.error("Conversation action failed:", err);
+      setListError(err instanceof Error ? err.message : "Conversation action failed");
+    }
+  };
+
+  const handleStart = () =>
+    run(async () => {
+      await onOpen(peerInput);
+      setStarting(false);
+      setPeerInput("");
+    });
+
+  if (!supported) {
+    return (
+      <div className="space-y-2">
+        <h3 className="px-1 text-sm font-semibold text-slate-700">Direct messages</h3>
+        <p className="px-1 text-xs text-slate-500">Direct messages need a WhisperVault deployment that has them.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between px-1">
+        <h3 className="text-sm font-semibold text-slate-700">Direct messages</h3>
+        {messagingKey && (
+          <button
+            onClick={() => setStarting(true)}
+            disabled={loading || starting}
+            className="p-1.5 text-slate-500 hover:text-sky-600 disabled:opacity-50"
+            title="New conversation"
+          >
+            <Plus className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+
+      {!messagingKey && (
+        <div className="p-2 glass rounded-xl space-y-2">
+          <p className="text-xs text-slate-600">
+            Publish a messaging key to send and receive direct messages. It is derived from a wallet signature.
+          </p>
+          <button
+            onClick={() => run(onRegisterKey)}
+            disabled={loading}
+            className="w-full px-3 py-1.5 bg-gradient-to-r from-sky-400 to-blue-500 hover:from-sky-300 hover:to-blue-400 disabled:opacity-50 rounded-lg text-white text-xs font-medium flex items-center justify-center gap-1.5"
+          >
+            <KeyRound className="w-3.5 h-3.5" />
+            Publish messaging key
+          </button>
+        </div>
+      )}
+
+      {starting && (
+        <div className="space-y-2 p-2 glass rounded-xl">
+          <input
+            type="text"
+            value={peerInput}
+            onChange={(e) => setPeerInput(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") handleStart();
+              if (e.key === "Escape") setStarting(false);
+            }}
+            placeholder="0x..."
+            className="w-full px-3 py-2 bg-white/80 border border-slate-300 rounded-lg text-sm font-mono text-slate-700 placeholder:text-slate-400 focus:outline-none focus:border-sky-400"
+            autoFocus
+          />
+          <div className="flex justify-end gap-1">
+            <button onClick={() => setStarting(false)} className="p-1.5 text-slate-400 hover:text-slate-600" title="Cancel">
+              <X className="w-4 h-4" />
+            </button>
+            <button
+              onClick={handleStart}
+              disabled={loading || !peerInput.trim()}
+              className="p-1.5 text-sky-500 hover:text-sky-600 disabled:opacity-50"
+              title="Start conversation"
+            >
+              <Check className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+      )}
+      {listError && <p className="px-1 text-xs text-red-600">{listError}</p>}
+
+      <div className="space-y-1">
+        {conversations.map((conversation) => (
+          <div
+            key={conversation.peer}
+            className={`flex items-center gap-2 px-3 py-2 rounded-xl cursor-pointer transition-colors ${
+              conversation.peer === activeConversation ? "bg-sky-100/80 text-sky-700" : "text-slate-600 hover:bg-white/60"
+            }`}
+            onClick={() => conversation.peer !== activeConversation && run(() => onOpen(conversation.peer))}
+            title={conversation.peer}
+          >
+            <UserRound className="w-4 h-4 flex-shrink-0" />
+            <span className="flex-1 truncate text-sm font-mono">{shortAddress(conversation.peer)}</span>
+            <span className="text-xs text-slate-400">{conversation.messageCount}</span>
+          </div>
+        ))}
+        {messagingKey && conversations.length === 0 && !starting && (
+          <p className="px-1 text-xs text-slate-500">No conversations yet.</p>
+        )}
+      </div>
+    </div>
+  );
+};
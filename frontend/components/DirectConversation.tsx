@@ -0,0 +1,163 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { ArrowLeft, ChevronUp, Lock, RefreshCw, Send, ShieldAlert, Unlock, UserRound } from "lucide-react";
+import { DirectMessage } from "@/hooks/useDirectMessages";
+
+interface DirectConversationProps {
+  peer: string;
+  // The connected account
+  address: string;
+  messages: DirectMessage[];
+  hasOlderMessages: boolean;
+  loadingOlder: boolean;
+  loading: boolean;
+  onLoadOlder: () => Promise<void>;
+  onDecrypt: () => Promise<void>;
+  onSend: (text: string) => Promise<void>;
+  onClose: () => void;
+}
+
+const truncateHex = (hex: string) => (hex.length <= 24 ? hex : hex.slice(0, 12) + "..." + hex.slice(-10));
+
+/**
+ * Two-party conversation view: our messages on the right, the other party's on the left
+ */
+export const DirectConversation = ({
+  peer,
+  address,
+  messages,
+  hasOlderMessages,
+  loadingOlder,
+  loading,
+  onLoadOlder,
+  onDecrypt,
+  onSend,
+  onClose,
+}: DirectConversationProps) => {
+  const [input, setInput] = useState("");
+  const [conversationError, setConversationError] = useState<string | null>(null);
+  const endRef = useRef<HTMLDivElement>(null);
+
+  const newestId = messages[messages.length - 1]?.id;
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ behavior: "smooth" });
+  }, [newestId]);
+
+  const run = async (action: () => Promise<void>) => {
+    try {
+      setConversationError(null);
+      await action();
+    } catch (err) {
+      setConversationError(err instanceof Error ? err.message : "Something went wrong");
+    }
+  };
+
+  const handleSend = () =>
+    run(async () => {
+      await onSend(input);
+      setInput("");
+    });
+
+  const locked = messages.some((msg) => msg.decryptedText === undefined && !msg.unreadable);
+
+  return (
+    <div className="flex-1 min-h-0 flex flex-col">
+      <div className="px-4 py-3 border-b border-slate-300/50 flex items-center gap-3">
+        <button onClick={onClose} className="p-1.5 text-slate-500 hover:text-slate-700" title="Back to threads">
+          <ArrowLeft className="w-4 h-4" />
+        </button>
+        <UserRound className="w-4 h-4 text-sky-500" />
+        <span className="flex-1 truncate font-mono text-sm text-slate-700" title={peer}>
+          {peer}
+        </span>
+        {locked && (
+          <button
+            onClick={() => run(onDecrypt)}
+            disabled={loading}
+            className="px-3 py-1.5 glass-card hover:bg-blue-50/80 disabled:opacity-50 rounded-xl text-slate-700 text-xs font-medium flex items-center gap-1.5"
+            title="Sign with your wallet to open your messaging key"
+          >
+            <Unlock className="w-3.5 h-3.5 text-sky-500" />
+            Decrypt
+          </button>
+        )}
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-4">
+        {hasOlderMessages && (
+          <div className="flex justify-center">
+            <button
+              onClick={() => run(onLoadOlder)}
+              disabled={loadingOlder}
+              className="px-4 py-2 text-sm text-slate-500 hover:text-slate-700 transition-colors flex items-center gap-2 glass-card rounded-full"
+            >
+              {loadingOlder ? <RefreshCw className="w-4 h-4 animate-spin" /> : <ChevronUp className="w-4 h-4" />}
+              {loadingOlder ? "Loading older messages..." : "Older messages"}
+            </button>
+          </div>
+        )}
+        {messages.length === 0 && !loading && (
+          <p className="text-center text-sm text-slate-500">
+            No messages yet. Only you and this address can read what you send here.
+          </p>
+        )}
+        {messages.map((msg) => {
+          const mine = msg.sender.toLowerCase() === address.toLowerCase();
+          return (
+            <div key={msg.id} className={`flex ${mine ? "justify-end" : "justify-start"}`}>
+              <div className={`max-w-[80%] ${mine ? "message-user" : "message-system"} px-5 py-3 space-y-2`}>
+                {msg.decryptedText !== undefined ? (
+                  <p className={`text-sm break-words ${mine ? "text-white" : "text-slate-700"}`}>{msg.decryptedText}</p>
+                ) : msg.unreadable ? (
+                  <div className="flex items-start gap-2 p-2 rounded-lg bg-red-100/80 border border-red-300/50">
+                    <ShieldAlert className="w-3.5 h-3.5 text-red-600 flex-shrink-0 mt-0.5" />
+                    <p className="text-xs text-red-600">Your messaging key doesn&apos;t open this message.</p>
+                  </div>
+                ) : (
+                  <div className="flex items-center gap-2 encrypted-content p-2 rounded-lg">
+                    <Lock className="w-3.5 h-3.5 text-sky-500 flex-shrink-0" />
+                    <p className="font-mono text-xs text-sky-600/80 break-all">{truncateHex(msg.encryptedContent)}</p>
+                  </div>
+                )}
+                <div className={`flex items-center gap-2 text-xs ${mine ? "text-white/80" : "text-slate-500"}`}>
+                  <span className="font-medium">{mine ? "You" : `${peer.slice(0, 6)}...${peer.slice(-4)}`}</span>
+                  <span>·</span>
+                  <span>{new Date(msg.timestamp * 1000).toLocaleString()}</span>
+                </div>
+              </div>
+            </div>
+          );
+        })}
+        <div ref={endRef} />
+      </div>
+
+      <div className="p-4 border-t border-slate-300/50 glass space-y-2">
+        {conversationError && <p className="text-xs text-red-600">{conversationError}</p>}
+        <div className="flex items-center gap-3">
+          <input
+            type="text"
+            placeholder="Message this address..."
+            className="flex-1 px-5 py-4 bg-white/80 border border-slate-300 rounded-2xl text-slate-700 placeholder:text-slate-400 focus:outline-none focus:border-sky-400 input-cyber transition-all"
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && !e.shiftKey && input.trim() && handleSend()}
+            disabled={loading}
+          />
+          <button
+            onClick={handleSend}
+            disabled={loading || !input.trim()}
+            className="p-4 bg-gradient-to-r from-sky-400 to-blue-500 hover:from-sky-300 hover:to-blue-400 disabled:opacity-50 disabled:cursor-not-allowed rounded-2xl text-white transition-all glow-cyan btn-cyber shadow-md"
+            title="Send direct message"
+          >
+            {loading ? (
+              <div className="w-6 h-6 border-2 border-white/30 border-t-white rounded-full animate-spin" />
+            ) : (
+              <Send className="w-6 h-6" />
+            )}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,60 @@
+"use client";
+
+import { ArrowLeft, Clock, FileKey, ShieldAlert } from "lucide-react";
+import { OpenGrant } from "@/hooks/useMessageGrants";
+
+interface GrantViewProps {
+  openGrant: OpenGrant;
+  onClose: () => void;
+}
+
+/**
+ * Read-only view of the messages an owner granted the connected account
+ */
+export const GrantView = ({ openGrant, onClose }: GrantViewProps) => {
+  const { grant, messages } = openGrant;
+
+  return (
+    <div className="flex-1 min-h-0 flex flex-col">
+      <div className="px-4 py-3 border-b border-slate-300/50 flex items-center gap-3">
+        <button onClick={onClose} className="p-1.5 text-slate-500 hover:text-slate-700" title="Back to your vault">
+          <ArrowLeft className="w-4 h-4" />
+        </button>
+        <FileKey className="w-4 h-4 text-sky-500" />
+        <span className="flex-1 truncate font-mono text-sm text-slate-700" title={grant.owner}>
+          {grant.owner}
+        </span>
+        <span className="px-2 py-0.5 rounded-full bg-slate-100 text-slate-500 text-xs flex items-center gap-1">
+          <Clock className="w-3 h-3" />
+          Read-only until {new Date(grant.expiresAt * 1000).toLocaleString()}
+        </span>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-4">
+        {messages.map((msg) => (
+          <div key={msg.index} className={`flex ${msg.isResponse ? "justify-start" : "justify-end"}`}>
+            <div className={`max-w-[80%] ${msg.isResponse ? "message-system" : "message-user"} px-5 py-3 space-y-2`}>
+              {msg.text !== null ? (
+                <p className={`text-sm break-words ${msg.isResponse ? "text-slate-700" : "text-white"}`}>{msg.text}</p>
+              ) : (
+                <div className="flex items-start gap-2 p-2 rounded-lg bg-red-100/80 border border-red-300/50">
+                  <ShieldAlert className="w-3.5 h-3.5 text-red-600 flex-shrink-0 mt-0.5" />
+                  <p className="text-xs text-red-600">Your messaging key doesn&apos;t open this message.</p>
+                </div>
+              )}
+              <div className={`flex items-center gap-2 text-xs ${msg.isResponse ? "text-slate-500" : "text-white/80"}`}>
+                <span className="font-mono">#{msg.index}</span>
+                {msg.timestamp !== null && (
+                  <>
+                    <span>·</span>
+                    <span>{new Date(msg.timestamp * 1000).toLocaleString()}</span>
+                  </>
+                )}
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,222 @@
+"use client";
+
+import { useState } from "react";
+import { isAddress } from "ethers";
+import { Clock, Eye, FileKey, X } from "lucide-react";
+import { Message } from "@/hooks/useWhisperVault";
+import { isGrantActive, MAX_GRANT_DAYS, MAX_GRANT_MESSAGES, MessageGrant, useMessageGrants } from "@/hooks/useMessageGrants";
+
+interface GrantsPanelProps {
+  grants: ReturnType<typeof useMessageGrants>;
+  // Loaded messages of the vault's main thread, null when another thread is open
+  messages: Message[] | null;
+}
+
+const DAY = 24 * 60 * 60;
+
+const shortAddress = (value: string) => `${value.slice(0, 6)}...${value.slice(-4)}`;
+
+// Value of a datetime-local input for a unix time, in local time
+const toLocalInput = (time: number) => {
+  const date = new Date(time * 1000);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+function describeGrant(grant: MessageGrant, now: number): string {
+  if (grant.revoked) return "Revoked";
+  if (!isGrantActive(grant, now)) return "Expired";
+  return `Until ${new Date(grant.expiresAt * 1000).toLocaleString()}`;
+}
+
+/**
+ * Time-limited read grants: pick loaded messages to show another account, the grants given, and
+ * the grants received
+ */
+export const GrantsPanel = ({ grants, messages }: GrantsPanelProps) => {
+  const { available, given, received, loading, now, createGrant, revokeGrant, openReceivedGrant } = grants;
+
+  const [selected, setSelected] = useState<number[]>([]);
+  const [grantee, setGrantee] = useState("");
+  const [expiry, setExpiry] = useState(() => toLocalInput(Math.floor(Date.now() / 1000) + 7 * DAY));
+  const [panelError, setPanelError] = useState<string | null>(null);
+
+  const run = async (action: () => Promise<void>) => {
+    try {
+      setPanelError(null);
+      await action();
+    } catch (err) {
+      console.error("Grant action failed:", err);
+      setPanelError(err instanceof Error ? err.message : "Grant action failed");
+    }
+  };
+
+  // Only messages shown in clear can be sealed to someone else
+  const grantable = (messages ?? []).filter((msg) => !msg.deleted && !msg.tampered && msg.decryptedText !== undefined);
+
+  const toggle = (id: number) =>
+    setSelected((prev) => (prev.includes(id) ? prev.filter((entry) => entry !== id) : [...prev, id]));
+
+  const handleGrant = () =>
+    run(async () => {
+      const account = grantee.trim();
+      if (!isAddress(account)) throw new Error("Enter a valid grantee address");
+      const expiresAt = Math.floor(new Date(expiry).getTime() / 1000);
+      if (!Number.isFinite(expiresAt) || expiresAt <= Date.now() / 1000) throw new Error("Choose an expiry in the future");
+      if (expiresAt > Date.now() / 1000 + MAX_GRANT_DAYS * DAY) {
+        throw new Error(`Grants last at most ${MAX_GRANT_DAYS} days`);
+      }
+      const chosen = grantable
+        .filter((msg) => selected.includes(msg.id))
+        .sort((a, b) => a.id - b.id)
+        .map((msg) => ({ id: msg.id, text: msg.decryptedText ?? "" }));
+      await createGrant(account, chosen, expiresAt);
+      setSelected([]);
+      setGrantee("");
+    });
+
+  if (available === false) {
+    return (
+      <p className="text-sm text-slate-600">
+        Read grants need the MessageGrants contract, which isn&apos;t deployed on this network.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* New grant */}
+      <div className="space-y-2">
+        <h3 className="text-sm font-semibold text-slate-700 flex items-center gap-2">
+          <FileKey className="w-4 h-4 text-sky-500" />
+          Show messages to someone
+        </h3>
+        {messages === null ? (
+          <p className="text-sm text-slate-600">Open your main thread to pick messages to share.</p>
+        ) : grantable.length === 0 ? (
+          <p className="text-sm text-slate-600">Decrypt your messages first to pick the ones to share.</p>
+        ) : (
+          <>
+            <p className="text-sm text-slate-600">
+              The chosen messages are sealed to the grantee&apos;s messaging key. They can read them until the expiry
+              or until you revoke the grant, but can&apos;t see anything else in your vault.
+            </p>
+            <ul className="max-h-48 overflow-y-auto space-y-1 p-2 glass rounded-xl">
+              {grantable.map((msg) => (
+                <li key={msg.id}>
+                  <label className="flex items-center gap-2 text-sm text-slate-700 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={selected.includes(msg.id)}
+                      onChange={() => toggle(msg.id)}
+                      disabled={loading || (!selected.includes(msg.id) && selected.length >= MAX_GRANT_MESSAGES)}
+                    />
+                    <span className="text-xs text-slate-400 font-mono">#{msg.id}</span>
+                    <span className="truncate">{msg.decryptedText}</span>
+                  </label>
+                </li>
+              ))}
+            </ul>
+            <div className="flex flex-wrap gap-2">
+              <input
+                type="text"
+                placeholder="Grantee address (0x...)"
+                className="flex-1 min-w-[16rem] px-4 py-2.5 bg-white/80 border border-slate-300 rounded-xl text-sm text-slate-700 font-mono placeholder:text-slate-400 focus:outline-none focus:border-sky-400"
+                value={grantee}
+                onChange={(e) => setGrantee(e.target.value)}
+                disabled={loading}
+              />
+              <input
+                type="datetime-local"
+                className="px-3 py-2.5 bg-white/80 border border-slate-300 rounded-xl text-sm text-slate-700 focus:outline-none focus:border-sky-400"
+                value={expiry}
+                onChange={(e) => setExpiry(e.target.value)}
+                disabled={loading}
+                title="Expiry"
+              />
+              <button
+                onClick={handleGrant}
+                disabled={loading || selected.length === 0 || !grantee.trim()}
+                className="px-4 py-2 bg-gradient-to-r from-sky-400 to-blue-500 hover:from-sky-300 hover:to-blue-400 disabled:opacity-50 disabled:cursor-not-allowed rounded-xl text-white text-sm font-medium transition-all flex items-center gap-2"
+              >
+                {loading && <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin" />}
+                <span>Grant {selected.length > 0 ? selected.length : ""}</span>
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+
+      {/* Grants given */}
+      {given.length > 0 && (
+        <div className="space-y-2">
+          <h3 className="text-sm font-semibold text-slate-700 flex items-center gap-2">
+            <Clock className="w-4 h-4 text-sky-500" />
+            Your grants
+          </h3>
+          <ul className="space-y-2">
+            {given.map((grant) => (
+              <li key={grant.id} className="flex items-center justify-between gap-3 p-3 glass rounded-xl text-sm">
+                <span className="text-slate-600">
+                  <span className="font-mono" title={grant.grantee}>
+                    {shortAddress(grant.grantee)}
+                  </span>{" "}
+                  · {grant.indexes.length} messages
+                </span>
+                <span className="flex items-center gap-2">
+                  <span className={isGrantActive(grant, now) ? "text-slate-500" : "text-slate-400"}>
+                    {describeGrant(grant, now)}
+                  </span>
+                  {isGrantActive(grant, now) && (
+                    <button
+                      onClick={() => run(() => revokeGrant(grant.id))}
+                      disabled={loading}
+                      className="p-1 text-slate-400 hover:text-red-500 disabled:opacity-50"
+                      title="Revoke"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  )}
+                </span>
+              </li>
+            ))}
+          </ul>
+          <p className="text-xs text-amber-600">
+            Revoking or expiring a grant hides the messages from now on, but a grantee may have kept what they already
+            read.
+          </p>
+        </div>
+      )}
+
+      {/* Grants received */}
+      {received.length > 0 && (
+        <div className="space-y-2">
+          <h3 className="text-sm font-semibold text-slate-700 flex items-center gap-2">
+            <Eye className="w-4 h-4 text-sky-500" />
+            Shared with you
+          </h3>
+          <ul className="space-y-2">
+            {received.map((grant) => (
+              <li key={grant.id} className="flex items-center justify-between gap-3 p-3 glass rounded-xl text-sm">
+                <span className="text-slate-600">
+                  <span className="font-mono" title={grant.owner}>
+                    {shortAddress(grant.owner)}
+                  </span>{" "}
+                  · {grant.indexes.length} messages · {describeGrant(grant, now)}
+                </span>
+                <button
+                  onClick={() => run(() => openReceivedGrant(grant.id))}
+                  disabled={loading}
+                  className="px-3 py-1.5 bg-gradient-to-r from-sky-400 to-blue-500 hover:from-sky-300 hover:to-blue-400 disabled:opacity-50 rounded-lg text-white text-xs font-medium"
+                >
+                  Open
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {panelError && <p className="text-sm text-red-600">{panelError}</p>}
+    </div>
+  );
+};
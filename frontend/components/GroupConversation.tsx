@@ -0,0 +1,355 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import {
+  ArrowLeft,
+  Check,
+  ChevronUp,
+  KeyRound,
+  Lock,
+  LogOut,
+  Pencil,
+  RefreshCw,
+  Send,
+  Shield,
+  ShieldAlert,
+  ShieldOff,
+  Unlock,
+  UserMinus,
+  UserPlus,
+  Users,
+  X,
+} from "lucide-react";
+import { Group, GroupMember, GroupMessage } from "@/hooks/useGroups";
+import { MAX_GROUP_NAME_LENGTH } from "@/hooks/useCrypto";
+
+interface GroupConversationProps {
+  group: Group;
+  members: GroupMember[];
+  // The connected account
+  address: string;
+  messages: GroupMessage[];
+  hasOlderMessages: boolean;
+  loadingOlder: boolean;
+  loading: boolean;
+  onLoadOlder: () => Promise<void>;
+  onDecrypt: () => Promise<void>;
+  onSend: (text: string) => Promise<void>;
+  onInvite: (addresses: string[]) => Promise<void>;
+  onRemove: (member: string) => Promise<void>;
+  onSetAdmin: (member: string, admin: boolean) => Promise<void>;
+  onRotateKey: () => Promise<void>;
+  onRename: (name: string) => Promise<void>;
+  onLeave: () => Promise<void>;
+  onClose: () => void;
+}
+
+const truncateHex = (hex: string) => (hex.length <= 24 ? hex : hex.slice(0, 12) + "..." + hex.slice(-10));
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+/**
+ * A group's history with the member who wrote each message, and its member list: admins invite,
+ * remove and promote members, everyone can leave
+ */
+export const GroupConversation = ({
+  group,
+  members,
+  address,
+  messages,
+  hasOlderMessages,
+  loadingOlder,
+  loading,
+  onLoadOlder,
+  onDecrypt,
+  onSend,
+  onInvite,
+  onRemove,
+  onSetAdmin,
+  onRotateKey,
+  onRename,
+  onLeave,
+  onClose,
+}: GroupConversationProps) => {
+  const [input, setInput] = useState("");
+  const [showMembers, setShowMembers] = useState(false);
+  const [inviteInput, setInviteInput] = useState("");
+  const [renaming, setRenaming] = useState(false);
+  const [nameInput, setNameInput] = useState("");
+  const [groupError, setGroupError] = useState<string | null>(null);
+  const endRef = useRef<HTMLDivElement>(null);
+
+  const newestId = messages[messages.length - 1]?.id;
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ behavior: "smooth" });
+  }, [newestId]);
+
+  const run = async (action: () => Promise<void>) => {
+    try {
+      setGroupError(null);
+      await action();
+    } catch (err) {
+      setGroupError(err instanceof Error ? err.message : "Something went wrong");
+    }
+  };
+
+  const handleSend = () =>
+    run(async () => {
+      await onSend(input);
+      setInput("");
+    });
+
+  const handleInvite = () =>
+    run(async () => {
+      await onInvite(inviteInput.split(/[\s,]+/));
+      setInviteInput("");
+    });
+
+  const handleRename = () =>
+    run(async () => {
+      await onRename(nameInput);
+      setRenaming(false);
+    });
+
+  const isMe = (account: string) => account.toLowerCase() === address.toLowerCase();
+  const isAdmin = members.some((member) => member.admin && isMe(member.address));
+  const locked =
+    group.name === undefined ||
+    messages.some((msg) => msg.decryptedText === undefined && !msg.unreadable && !msg.beforeJoining);
+
+  return (
+    <div className="flex-1 min-h-0 flex flex-col">
+      <div className="px-4 py-3 border-b border-slate-300/50 flex items-center gap-3">
+        <button onClick={onClose} className="p-1.5 text-slate-500 hover:text-slate-700" title="Back to threads">
+          <ArrowLeft className="w-4 h-4" />
+        </button>
+        <Users className="w-4 h-4 text-sky-500" />
+        {renaming ? (
+          <>
+            <input
+              type="text"
+              value={nameInput}
+              onChange={(e) => setNameInput(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter" && nameInput.trim()) handleRename();
+                if (e.key === "Escape") setRenaming(false);
+              }}
+              maxLength={MAX_GROUP_NAME_LENGTH}
+              className="flex-1 px-3 py-1.5 bg-white/80 border border-slate-300 rounded-lg text-sm text-slate-700 focus:outline-none focus:border-sky-400"
+              autoFocus
+            />
+            <button onClick={() => setRenaming(false)} className="p-1.5 text-slate-400 hover:text-slate-600" title="Cancel">
+              <X className="w-4 h-4" />
+            </button>
+            <button
+              onClick={handleRename}
+              disabled={loading || !nameInput.trim()}
+              className="p-1.5 text-sky-500 hover:text-sky-600 disabled:opacity-50"
+              title="Save name"
+            >
+              <Check className="w-4 h-4" />
+            </button>
+          </>
+        ) : (
+          <>
+            <span className="flex-1 truncate text-sm font-medium text-slate-700">
+              {group.name ?? `Encrypted group #${group.id}`}
+            </span>
+            {isAdmin && group.name !== undefined && (
+              <button
+                onClick={() => {
+                  setNameInput(group.name ?? "");
+                  setRenaming(true);
+                }}
+                className="p-1.5 text-slate-500 hover:text-slate-700"
+                title="Rename group"
+              >
+                <Pencil className="w-4 h-4" />
+              </button>
+            )}
+          </>
+        )}
+        {locked && (
+          <button
+            onClick={() => run(onDecrypt)}
+            disabled={loading}
+            className="px-3 py-1.5 glass-card hover:bg-blue-50/80 disabled:opacity-50 rounded-xl text-slate-700 text-xs font-medium flex items-center gap-1.5"
+            title="Sign with your wallet to open your messaging key"
+          >
+            <Unlock className="w-3.5 h-3.5 text-sky-500" />
+            Decrypt
+          </button>
+        )}
+        <button
+          onClick={() => setShowMembers(!showMembers)}
+          className={`px-3 py-1.5 rounded-xl text-xs font-medium flex items-center gap-1.5 ${
+            showMembers ? "bg-sky-100/80 text-sky-700" : "glass-card text-slate-700 hover:bg-blue-50/80"
+          }`}
+          title="Members"
+        >
+          <Users className="w-3.5 h-3.5" />
+          {members.length}
+        </button>
+      </div>
+
+      {showMembers && (
+        <div className="px-4 py-3 border-b border-slate-300/50 glass space-y-2 max-h-64 overflow-y-auto">
+          {members.map((member) => (
+            <div key={member.address} className="flex items-center gap-2 text-sm">
+              <span className="flex-1 truncate font-mono text-slate-700" title={member.address}>
+                {isMe(member.address) ? "You" : shortAddress(member.address)}
+              </span>
+              {member.admin && <span className="text-xs text-sky-600 font-medium">Admin</span>}
+              {isAdmin && !isMe(member.address) && (
+                <>
+                  <button
+                    onClick={() => run(() => onSetAdmin(member.address, !member.admin))}
+                    disabled={loading}
+                    className="p-1 text-slate-500 hover:text-sky-600 disabled:opacity-50"
+                    title={member.admin ? "Remove admin role" : "Make admin"}
+                  >
+                    {member.admin ? <ShieldOff className="w-4 h-4" /> : <Shield className="w-4 h-4" />}
+                  </button>
+                  <button
+                    onClick={() => run(() => onRemove(member.address))}
+                    disabled={loading}
+                    className="p-1 text-slate-500 hover:text-red-600 disabled:opacity-50"
+                    title="Remove from group (replaces the group key)"
+                  >
+                    <UserMinus className="w-4 h-4" />
+                  </button>
+                </>
+              )}
+            </div>
+          ))}
+          {isAdmin && (
+            <div className="flex items-center gap-2 pt-1">
+              <input
+                type="text"
+                value={inviteInput}
+                onChange={(e) => setInviteInput(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && inviteInput.trim() && handleInvite()}
+                placeholder="Invite 0x..."
+                className="flex-1 px-3 py-1.5 bg-white/80 border border-slate-300 rounded-lg text-xs font-mono text-slate-700 placeholder:text-slate-400 focus:outline-none focus:border-sky-400"
+              />
+              <button
+                onClick={handleInvite}
+                disabled={loading || !inviteInput.trim()}
+                className="p-1.5 text-sky-500 hover:text-sky-600 disabled:opacity-50"
+                title="Invite (replaces the group key)"
+              >
+                <UserPlus className="w-4 h-4" />
+              </button>
+            </div>
+          )}
+          <button
+            onClick={() => run(onLeave)}
+            disabled={loading}
+            className="text-xs text-red-600 hover:text-red-700 disabled:opacity-50 flex items-center gap-1.5"
+          >
+            <LogOut className="w-3.5 h-3.5" />
+            Leave group
+          </button>
+        </div>
+      )}
+
+      {group.rekeyNeeded && (
+        <div className="mx-4 mt-3 p-3 rounded-xl bg-amber-50/80 border border-amber-300/50 flex items-center gap-3">
+          <KeyRound className="w-4 h-4 text-amber-600 flex-shrink-0" />
+          <p className="flex-1 text-xs text-amber-700">
+            A member left while holding the group key.{" "}
+            {isAdmin ? "Replace it before anyone writes again." : "An admin has to replace it before anyone writes again."}
+          </p>
+          {isAdmin && (
+            <button
+              onClick={() => run(onRotateKey)}
+              disabled={loading}
+              className="px-3 py-1.5 bg-amber-500 hover:bg-amber-400 disabled:opacity-50 rounded-lg text-white text-xs font-medium"
+            >
+              Replace key
+            </button>
+          )}
+        </div>
+      )}
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-4">
+        {hasOlderMessages && (
+          <div className="flex justify-center">
+            <button
+              onClick={() => run(onLoadOlder)}
+              disabled={loadingOlder}
+              className="px-4 py-2 text-sm text-slate-500 hover:text-slate-700 transition-colors flex items-center gap-2 glass-card rounded-full"
+            >
+              {loadingOlder ? <RefreshCw className="w-4 h-4 animate-spin" /> : <ChevronUp className="w-4 h-4" />}
+              {loadingOlder ? "Loading older messages..." : "Older messages"}
+            </button>
+          </div>
+        )}
+        {messages.length === 0 && !loading && (
+          <p className="text-center text-sm text-slate-500">No messages yet. Only the members can read this group.</p>
+        )}
+        {messages.map((msg) => {
+          const mine = isMe(msg.sender);
+          return (
+            <div key={msg.id} className={`flex ${mine ? "justify-end" : "justify-start"}`}>
+              <div className={`max-w-[80%] ${mine ? "message-user" : "message-system"} px-5 py-3 space-y-2`}>
+                {msg.decryptedText !== undefined ? (
+                  <p className={`text-sm break-words ${mine ? "text-white" : "text-slate-700"}`}>{msg.decryptedText}</p>
+                ) : msg.beforeJoining ? (
+                  <p className={`text-xs italic ${mine ? "text-white/80" : "text-slate-500"}`}>
+                    Sent under a group key you never held, before you joined.
+                  </p>
+                ) : msg.unreadable ? (
+                  <div className="flex items-start gap-2 p-2 rounded-lg bg-red-100/80 border border-red-300/50">
+                    <ShieldAlert className="w-3.5 h-3.5 text-red-600 flex-shrink-0 mt-0.5" />
+                    <p className="text-xs text-red-600">The group key doesn&apos;t open this message.</p>
+                  </div>
+                ) : (
+                  <div className="flex items-center gap-2 encrypted-content p-2 rounded-lg">
+                    <Lock className="w-3.5 h-3.5 text-sky-500 flex-shrink-0" />
+                    <p className="font-mono text-xs text-sky-600/80 break-all">{truncateHex(msg.encryptedContent)}</p>
+                  </div>
+                )}
+                <div className={`flex items-center gap-2 text-xs ${mine ? "text-white/80" : "text-slate-500"}`}>
+                  <span className="font-medium font-mono" title={msg.sender}>
+                    {mine ? "You" : shortAddress(msg.sender)}
+                  </span>
+                  <span>·</span>
+                  <span>{new Date(msg.timestamp * 1000).toLocaleString()}</span>
+                </div>
+              </div>
+            </div>
+          );
+        })}
+        <div ref={endRef} />
+      </div>
+
+      <div className="p-4 border-t border-slate-300/50 glass space-y-2">
+        {groupError && <p className="text-xs text-red-600">{groupError}</p>}
+        <div className="flex items-center gap-3">
+          <input
+            type="text"
+            placeholder={group.rekeyNeeded ? "Waiting for a new group key..." : "Message the group..."}
+            className="flex-1 px-5 py-4 bg-white/80 border border-slate-300 rounded-2xl text-slate-700 placeholder:text-slate-400 focus:outline-none focus:border-sky-400 input-cyber transition-all"
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && !e.shiftKey && input.trim() && handleSend()}
+            disabled={loading || group.rekeyNeeded}
+          />
+          <button
+            onClick={handleSend}
+            disabled={loading || group.rekeyNeeded || !input.trim()}
+            className="p-4 bg-gradient-to-r from-sky-400 to-blue-500 hover:from-sky-300 hover:to-blue-400 disabled:opacity-50 disabled:cursor-not-allowed rounded-2xl text-white transition-all glow-cyan btn-cyber shadow-md"
+            title="Send to group"
+          >
+            {loading ? (
+              <div className="w-6 h-6 border-2 border-white/30 border-t-white rounded-full animate-spin" />
+            ) : (
+              <Send className="w-6 h-6" />
+            )}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,162 @@
+"use client";
+
+import { useState } from "react";
+import { Check, Lock, Plus, Unlock, Users, X } from "lucide-react";
+import { Group } from "@/hooks/useGroups";
+import { MAX_GROUP_NAME_LENGTH } from "@/hooks/useCrypto";
+
+interface GroupListProps {
+  groups: Group[];
+  activeGroup: number | null;
+  // Whether a GroupRegistry is deployed on this chain, null until checked
+  available: boolean | null;
+  // Messaging key the account published, null if none
+  messagingKey: string | null;
+  loading: boolean;
+  onOpen: (id: number) => Promise<void>;
+  onCreate: (name: string, members: string[]) => Promise<number>;
+  onDecrypt: () => Promise<void>;
+}
+
+/**
+ * Groups of the connected account: open one, decrypt their names, or create one
+ */
+export const GroupList = ({
+  groups,
+  activeGroup,
+  available,
+  messagingKey,
+  loading,
+  onOpen,
+  onCreate,
+  onDecrypt,
+}: GroupListProps) => {
+  const [creating, setCreating] = useState(false);
+  const [name, setName] = useState("");
+  const [memberInput, setMemberInput] = useState("");
+  const [listError, setListError] = useState<string | null>(null);
+
+  const run = async (action: () => Promise<void>) => {
+    try {
+      setListError(null);
+      await action();
+    } catch (err) {
+      console.error("Group action failed:", err);
+      setListError(err instanceof Error ? err.message : "Group action failed");
+    }
+  };
+
+  const handleCreate = () =>
+    run(async () => {
+      const id = await onCreate(name, memberInput.split(/[\s,]+/));
+      setCreating(false);
+      setName("");
+      setMemberInput("");
+      await onOpen(id);
+    });
+
+  if (available === false) {
+    return (
+      <div className="space-y-2">
+        <h3 className="px-1 text-sm font-semibold text-slate-700">Groups</h3>
+        <p className="px-1 text-xs text-slate-500">Groups need a GroupRegistry deployment on this network.</p>
+      </div>
+    );
+  }
+
+  const locked = groups.some((group) => group.name === undefined);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between px-1">
+        <h3 className="text-sm font-semibold text-slate-700">Groups</h3>
+        <div className="flex items-center gap-1">
+          {locked && (
+            <button
+              onClick={() => run(onDecrypt)}
+              disabled={loading}
+              className="p-1.5 text-slate-500 hover:text-sky-600 disabled:opacity-50"
+              title="Decrypt group names"
+            >
+              <Unlock className="w-4 h-4" />
+            </button>
+          )}
+          {messagingKey && (
+            <button
+              onClick={() => setCreating(true)}
+              disabled={loading || creating}
+              className="p-1.5 text-slate-500 hover:text-sky-600 disabled:opacity-50"
+              title="New group"
+            >
+              <Plus className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+      </div>
+
+      {!messagingKey && (
+        <p className="px-1 text-xs text-slate-500">Publish a messaging key to create or join groups.</p>
+      )}
+
+      {creating && (
+        <div className="space-y-2 p-2 glass rounded-xl">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => e.key === "Escape" && setCreating(false)}
+            maxLength={MAX_GROUP_NAME_LENGTH}
+            placeholder="Group name"
+            className="w-full px-3 py-2 bg-white/80 border border-slate-300 rounded-lg text-sm text-slate-700 placeholder:text-slate-400 focus:outline-none focus:border-sky-400"
+            autoFocus
+          />
+          <textarea
+            value={memberInput}
+            onChange={(e) => setMemberInput(e.target.value)}
+            rows={3}
+            placeholder="Member addresses, one per line"
+            className="w-full px-3 py-2 bg-white/80 border border-slate-300 rounded-lg text-xs font-mono text-slate-700 placeholder:text-slate-400 focus:outline-none focus:border-sky-400 resize-none"
+          />
+          <p className="text-xs text-slate-500">Members need a published messaging key.</p>
+          <div className="flex justify-end gap-1">
+            <button onClick={() => setCreating(false)} className="p-1.5 text-slate-400 hover:text-slate-600" title="Cancel">
+              <X className="w-4 h-4" />
+            </button>
+            <button
+              onClick={handleCreate}
+              disabled={loading || !name.trim()}
+              className="p-1.5 text-sky-500 hover:text-sky-600 disabled:opacity-50"
+              title="Create group"
+            >
+              <Check className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+      )}
+      {listError && <p className="px-1 text-xs text-red-600">{listError}</p>}
+
+      <div className="space-y-1">
+        {groups.map((group) => (
+          <div
+            key={group.id}
+            className={`flex items-center gap-2 px-3 py-2 rounded-xl cursor-pointer transition-colors ${
+              group.id === activeGroup ? "bg-sky-100/80 text-sky-700" : "text-slate-600 hover:bg-white/60"
+            }`}
+            onClick={() => group.id !== activeGroup && run(() => onOpen(group.id))}
+          >
+            {group.name !== undefined ? (
+              <Users className="w-4 h-4 flex-shrink-0" />
+            ) : (
+              <Lock className="w-4 h-4 flex-shrink-0 text-slate-400" />
+            )}
+            <span className="flex-1 truncate text-sm">{group.name ?? `Encrypted group #${group.id}`}</span>
+            <span className="text-xs text-slate-400">{group.messageCount}</span>
+          </div>
+        ))}
+        {messagingKey && groups.length === 0 && !creating && (
+          <p className="px-1 text-xs text-slate-500">No groups yet.</p>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,288 @@
+"use client";
+
+import { useState } from "react";
+import { isAddress } from "ethers";
+import { Plus, ShieldCheck, Users, X } from "lucide-react";
+import { useGuardians } from "@/hooks/useGuardians";
+import { DataKey, MAX_GUARDIANS, MIN_GUARDIANS } from "@/hooks/useCrypto";
+
+interface GuardianPanelProps {
+  guardians: ReturnType<typeof useGuardians>;
+  getDataKey: () => DataKey | null;
+}
+
+const shortAddress = (value: string) => `${value.slice(0, 6)}...${value.slice(-4)}`;
+
+/**
+ * Guardian recovery settings of the unlocked vault: the owner's guardians, the account's own
+ * guardian key, and recoveries of the vaults it guards
+ */
+export const GuardianPanel = ({ guardians, getDataKey }: GuardianPanelProps) => {
+  const {
+    available,
+    guardianKey,
+    guardianSet,
+    recoveryRequest,
+    guardedVaults,
+    loading,
+    registerGuardianKey,
+    saveGuardians,
+    removeGuardians,
+    returnShare,
+    closeRecovery,
+  } = guardians;
+
+  const [editing, setEditing] = useState(false);
+  const [addresses, setAddresses] = useState<string[]>(Array(MIN_GUARDIANS).fill(""));
+  const [threshold, setThreshold] = useState(2);
+  const [panelError, setPanelError] = useState<string | null>(null);
+
+  const run = async (action: () => Promise<void>) => {
+    try {
+      setPanelError(null);
+      await action();
+    } catch (err) {
+      console.error("Guardian action failed:", err);
+      setPanelError(err instanceof Error ? err.message : "Guardian action failed");
+    }
+  };
+
+  const startEditing = () => {
+    setAddresses(guardianSet ? [...guardianSet.guardians] : Array(MIN_GUARDIANS).fill(""));
+    setThreshold(guardianSet?.threshold ?? 2);
+    setPanelError(null);
+    setEditing(true);
+  };
+
+  const handleSave = () =>
+    run(async () => {
+      const trimmed = addresses.map((value) => value.trim());
+      if (trimmed.some((value) => !isAddress(value))) throw new Error("Enter a valid address for every guardian");
+      if (new Set(trimmed.map((value) => value.toLowerCase())).size !== trimmed.length) {
+        throw new Error("Each guardian can only be named once");
+      }
+      const dataKey = getDataKey();
+      if (!dataKey) {
+        throw new Error("Create a recovery kit first: guardians share the vault's data key, which this vault doesn't have yet");
+      }
+      await saveGuardians(trimmed, threshold, dataKey);
+      setEditing(false);
+    });
+
+  if (available === false) {
+    return (
+      <p className="text-sm text-slate-600">
+        Guardian recovery needs the GuardianRegistry contract, which isn&apos;t deployed on this network.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {recoveryRequest && (
+        <div className="p-3 bg-amber-100/80 border border-amber-300/50 rounded-xl text-amber-700 text-sm flex items-center justify-between gap-3">
+          <span>
+            A guardian recovery of your vault is open ({recoveryRequest.submitted} shares returned). If you didn&apos;t
+            start it, cancel it.
+          </span>
+          <button
+            onClick={() => run(closeRecovery)}
+            disabled={loading}
+            className="px-3 py-1.5 bg-white/80 hover:bg-white rounded-lg text-amber-700 text-xs font-medium disabled:opacity-50"
+          >
+            Cancel Recovery
+          </button>
+        </div>
+      )}
+
+      {/* Owner's guardians */}
+      <div className="space-y-2">
+        <h3 className="text-sm font-semibold text-slate-700 flex items-center gap-2">
+          <Users className="w-4 h-4 text-sky-500" />
+          Your guardians
+        </h3>
+        {editing ? (
+          <div className="space-y-2">
+            <p className="text-sm text-slate-600">
+              Each guardian gets a piece of your vault key, encrypted to them. Any {threshold} of them together can
+              restore your vault; fewer learn nothing. Guardians must publish their guardian key first.
+            </p>
+            {addresses.map((value, i) => (
+              <div key={i} className="flex gap-2">
+                <input
+                  type="text"
+                  placeholder={`Guardian ${i + 1} address (0x...)`}
+                  className="flex-1 px-4 py-2.5 bg-white/80 border border-slate-300 rounded-xl text-sm text-slate-700 font-mono placeholder:text-slate-400 focus:outline-none focus:border-sky-400"
+                  value={value}
+                  onChange={(e) => setAddresses(addresses.map((old, j) => (j === i ? e.target.value : old)))}
+                  disabled={loading}
+                />
+                {addresses.length > MIN_GUARDIANS && (
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setAddresses(addresses.filter((_, j) => j !== i));
+                      setThreshold(Math.min(threshold, addresses.length - 1));
+                    }}
+                    disabled={loading}
+                    className="px-2 text-slate-400 hover:text-slate-600"
+                    title="Remove guardian"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+            ))}
+            <div className="flex items-center justify-between gap-2">
+              {addresses.length < MAX_GUARDIANS ? (
+                <button
+                  type="button"
+                  onClick={() => setAddresses([...addresses, ""])}
+                  disabled={loading}
+                  className="text-sm text-sky-600 hover:text-sky-700 font-medium flex items-center gap-1"
+                >
+                  <Plus className="w-4 h-4" />
+                  Add guardian
+                </button>
+              ) : (
+                <span />
+              )}
+              <label className="text-sm text-slate-600 flex items-center gap-2">
+                Needed to recover
+                <select
+                  className="px-2 py-1 bg-white/80 border border-slate-300 rounded-lg text-sm"
+                  value={threshold}
+                  onChange={(e) => setThreshold(Number(e.target.value))}
+                  disabled={loading}
+                >
+                  {Array.from({ length: addresses.length - 1 }, (_, i) => i + 2).map((count) => (
+                    <option key={count} value={count}>
+                      {count} of {addresses.length}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+            <div className="flex justify-end gap-2">
+              <button
+                onClick={() => setEditing(false)}
+                disabled={loading}
+                className="px-4 py-2 text-sm text-slate-500 hover:text-slate-700 disabled:opacity-50 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={loading}
+                className="px-4 py-2 bg-gradient-to-r from-sky-400 to-blue-500 hover:from-sky-300 hover:to-blue-400 disabled:opacity-50 disabled:cursor-not-allowed rounded-xl text-white text-sm font-medium transition-all flex items-center gap-2"
+              >
+                {loading && <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin" />}
+                <span>Save Guardians</span>
+              </button>
+            </div>
+          </div>
+        ) : guardianSet ? (
+          <div className="space-y-2">
+            <p className="text-sm text-slate-600">
+              Any {guardianSet.threshold} of these {guardianSet.guardians.length} guardians can restore your vault:
+            </p>
+            <ul className="flex flex-wrap gap-2">
+              {guardianSet.guardians.map((guardian) => (
+                <li key={guardian} className="px-3 py-1 glass rounded-full text-xs text-slate-600 font-mono" title={guardian}>
+                  {shortAddress(guardian)}
+                </li>
+              ))}
+            </ul>
+            <div className="flex justify-end gap-2">
+              <button
+                onClick={() => run(removeGuardians)}
+                disabled={loading}
+                className="px-4 py-2 text-sm text-red-500 hover:text-red-600 disabled:opacity-50 transition-colors"
+              >
+                Remove
+              </button>
+              <button
+                onClick={startEditing}
+                disabled={loading}
+                className="px-4 py-2 glass-card hover:bg-blue-50/80 disabled:opacity-50 rounded-xl text-slate-700 text-sm font-medium transition-all"
+              >
+                Change Guardians
+              </button>
+            </div>
+          </div>
+        ) : (
+          <div className="flex items-center justify-between gap-3">
+            <p className="text-sm text-slate-600">
+              Name {MIN_GUARDIANS} to {MAX_GUARDIANS} people you trust, so they can help you back in if you lose your
+              password and recovery kit.
+            </p>
+            <button
+              onClick={startEditing}
+              disabled={loading}
+              className="px-4 py-2 glass-card hover:bg-blue-50/80 disabled:opacity-50 rounded-xl text-slate-700 text-sm font-medium transition-all whitespace-nowrap"
+            >
+              Name Guardians
+            </button>
+          </div>
+        )}
+      </div>
+
+      {/* Guardian duties */}
+      <div className="space-y-2">
+        <h3 className="text-sm font-semibold text-slate-700 flex items-center gap-2">
+          <ShieldCheck className="w-4 h-4 text-sky-500" />
+          Guarding others
+        </h3>
+        {guardianKey ? (
+          <p className="text-sm text-slate-600">Your guardian key is published, so others can name you as a guardian.</p>
+        ) : (
+          <div className="flex items-center justify-between gap-3">
+            <p className="text-sm text-slate-600">
+              Publish your guardian key so others can name you. It is derived from a wallet signature, so your wallet
+              must sign the same way every time.
+            </p>
+            <button
+              onClick={() => run(registerGuardianKey)}
+              disabled={loading}
+              className="px-4 py-2 glass-card hover:bg-blue-50/80 disabled:opacity-50 rounded-xl text-slate-700 text-sm font-medium transition-all whitespace-nowrap"
+            >
+              Publish Guardian Key
+            </button>
+          </div>
+        )}
+        {guardedVaults.length > 0 && (
+          <ul className="space-y-2">
+            {guardedVaults.map(({ owner, request, returned }) => (
+              <li key={owner} className="flex items-center justify-between gap-3 p-3 glass rounded-xl text-sm">
+                <span className="font-mono text-slate-600" title={owner}>
+                  {shortAddress(owner)}
+                </span>
+                {!request ? (
+                  <span className="text-slate-400">No recovery requested</span>
+                ) : returned ? (
+                  <span className="text-green-600">Share returned</span>
+                ) : (
+                  <button
+                    onClick={() => run(() => returnShare(owner))}
+                    disabled={loading}
+                    className="px-3 py-1.5 bg-gradient-to-r from-sky-400 to-blue-500 hover:from-sky-300 hover:to-blue-400 disabled:opacity-50 rounded-lg text-white text-xs font-medium"
+                    title={`Recovery requested ${new Date(request.timestamp * 1000).toLocaleString()}`}
+                  >
+                    Return Share
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+        {guardedVaults.some(({ request, returned }) => request && !returned) && (
+          <p className="text-xs text-amber-600">
+            Only return a share after confirming with the owner, outside this app, that they asked for it.
+          </p>
+        )}
+      </div>
+
+      {panelError && <p className="text-sm text-red-600">{panelError}</p>}
+    </div>
+  );
+};
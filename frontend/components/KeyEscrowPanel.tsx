@@ -0,0 +1,202 @@
+"use client";
+
+import { useState } from "react";
+import { isAddress } from "ethers";
+import { Eye, KeyRound, UserPlus, X } from "lucide-react";
+import { useKeyEscrow } from "@/hooks/useKeyEscrow";
+import { DataKey, getEscrowCommitment } from "@/hooks/useCrypto";
+
+interface KeyEscrowPanelProps {
+  escrow: ReturnType<typeof useKeyEscrow>;
+  getDataKey: () => DataKey | null;
+}
+
+const shortAddress = (value: string) => `${value.slice(0, 6)}...${value.slice(-4)}`;
+
+/**
+ * FHE key escrow settings of the unlocked vault: the owner's escrowed key and who may decrypt it,
+ * and the vaults shared with the account
+ */
+export const KeyEscrowPanel = ({ escrow, getDataKey }: KeyEscrowPanelProps) => {
+  const {
+    available,
+    fhevmStatus,
+    escrow: escrowedKey,
+    sharedWith,
+    loading,
+    storeKey,
+    grantAccess,
+    revokeAccess,
+    clearKey,
+    openSharedVault,
+  } = escrow;
+
+  const [grantee, setGrantee] = useState("");
+  const [panelError, setPanelError] = useState<string | null>(null);
+
+  const run = async (action: () => Promise<void>) => {
+    try {
+      setPanelError(null);
+      await action();
+    } catch (err) {
+      console.error("Key escrow action failed:", err);
+      setPanelError(err instanceof Error ? err.message : "Key escrow action failed");
+    }
+  };
+
+  const dataKey = getDataKey();
+  // The escrowed key is stale once the vault's data key was rotated
+  const upToDate = !!escrowedKey && !!dataKey && getEscrowCommitment(dataKey) === escrowedKey.keyCommitment.toLowerCase();
+
+  const handleStore = () =>
+    run(async () => {
+      const key = getDataKey();
+      if (!key) {
+        throw new Error("Create a recovery kit first: the escrow holds the vault's data key, which this vault doesn't have yet");
+      }
+      await storeKey(key);
+    });
+
+  const handleGrant = () =>
+    run(async () => {
+      const value = grantee.trim();
+      if (!isAddress(value)) throw new Error("Enter a valid address");
+      await grantAccess(value);
+      setGrantee("");
+    });
+
+  if (available === false) {
+    return (
+      <p className="text-sm text-slate-600">
+        Key escrow needs the VaultKeyEscrow contract, which isn&apos;t deployed on this network.
+      </p>
+    );
+  }
+
+  const ready = fhevmStatus === "ready";
+
+  return (
+    <div className="space-y-4">
+      {/* Owner's escrowed key */}
+      <div className="space-y-2">
+        <h3 className="text-sm font-semibold text-slate-700 flex items-center gap-2">
+          <KeyRound className="w-4 h-4 text-sky-500" />
+          Your escrowed key
+        </h3>
+        <p className="text-sm text-slate-600">
+          Your vault key is stored encrypted on-chain with FHE. Your wallet can decrypt it to restore the vault without
+          your password, and so can any account you grant access.
+        </p>
+        {escrowedKey && !upToDate && (
+          <p className="text-xs text-amber-600">
+            The escrowed key is out of date: your vault key was rotated since. Update it so grantees can read new messages.
+          </p>
+        )}
+        <div className="flex justify-end gap-2">
+          {escrowedKey && (
+            <button
+              onClick={() => run(clearKey)}
+              disabled={loading}
+              className="px-4 py-2 text-sm text-red-500 hover:text-red-600 disabled:opacity-50 transition-colors"
+            >
+              Remove
+            </button>
+          )}
+          {(!escrowedKey || !upToDate) && (
+            <button
+              onClick={handleStore}
+              disabled={loading || !ready}
+              className="px-4 py-2 glass-card hover:bg-blue-50/80 disabled:opacity-50 rounded-xl text-slate-700 text-sm font-medium transition-all flex items-center gap-2"
+              title={ready ? undefined : "Loading the FHEVM instance..."}
+            >
+              {loading && <div className="w-4 h-4 border-2 border-slate-300 border-t-slate-600 rounded-full animate-spin" />}
+              <span>{escrowedKey ? "Update Escrowed Key" : "Escrow Vault Key"}</span>
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* Grantees */}
+      {escrowedKey && (
+        <div className="space-y-2">
+          <h3 className="text-sm font-semibold text-slate-700 flex items-center gap-2">
+            <UserPlus className="w-4 h-4 text-sky-500" />
+            Read access
+          </h3>
+          {escrowedKey.grantees.length > 0 ? (
+            <ul className="flex flex-wrap gap-2">
+              {escrowedKey.grantees.map((account) => (
+                <li
+                  key={account}
+                  className="pl-3 pr-1 py-1 glass rounded-full text-xs text-slate-600 font-mono flex items-center gap-1"
+                  title={account}
+                >
+                  {shortAddress(account)}
+                  <button
+                    onClick={() => run(() => revokeAccess(account))}
+                    disabled={loading}
+                    className="p-0.5 text-slate-400 hover:text-red-500 disabled:opacity-50"
+                    title="Revoke access"
+                  >
+                    <X className="w-3.5 h-3.5" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-sm text-slate-600">Nobody else can decrypt your key.</p>
+          )}
+          <div className="flex gap-2">
+            <input
+              type="text"
+              placeholder="Account to grant read access (0x...)"
+              className="flex-1 px-4 py-2.5 bg-white/80 border border-slate-300 rounded-xl text-sm text-slate-700 font-mono placeholder:text-slate-400 focus:outline-none focus:border-sky-400"
+              value={grantee}
+              onChange={(e) => setGrantee(e.target.value)}
+              disabled={loading}
+            />
+            <button
+              onClick={handleGrant}
+              disabled={loading || !grantee.trim()}
+              className="px-4 py-2 bg-gradient-to-r from-sky-400 to-blue-500 hover:from-sky-300 hover:to-blue-400 disabled:opacity-50 disabled:cursor-not-allowed rounded-xl text-white text-sm font-medium transition-all"
+            >
+              Grant
+            </button>
+          </div>
+          <p className="text-xs text-amber-600">
+            A grantee can read every message written with your vault key. Revoking stops them from decrypting the key
+            again, but not from using a copy they already decrypted: rotate your vault key after revoking.
+          </p>
+        </div>
+      )}
+
+      {/* Vaults shared with the account */}
+      {sharedWith.length > 0 && (
+        <div className="space-y-2">
+          <h3 className="text-sm font-semibold text-slate-700 flex items-center gap-2">
+            <Eye className="w-4 h-4 text-sky-500" />
+            Shared with you
+          </h3>
+          <ul className="space-y-2">
+            {sharedWith.map((owner) => (
+              <li key={owner} className="flex items-center justify-between gap-3 p-3 glass rounded-xl text-sm">
+                <span className="font-mono text-slate-600" title={owner}>
+                  {shortAddress(owner)}
+                </span>
+                <button
+                  onClick={() => run(() => openSharedVault(owner))}
+                  disabled={loading || !ready}
+                  className="px-3 py-1.5 bg-gradient-to-r from-sky-400 to-blue-500 hover:from-sky-300 hover:to-blue-400 disabled:opacity-50 rounded-lg text-white text-xs font-medium"
+                >
+                  Open Read-Only
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {panelError && <p className="text-sm text-red-600">{panelError}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,70 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { History, ShieldAlert, X } from "lucide-react";
+import { MessageVersion } from "@/hooks/useWhisperVault";
+
+interface MessageHistoryProps {
+  messageId: number;
+  loadHistory: (id: number) => Promise<MessageVersion[]>;
+  onClose: () => void;
+}
+
+/**
+ * Decrypted revision history of an edited message, oldest first
+ */
+export const MessageHistory = ({ messageId, loadHistory, onClose }: MessageHistoryProps) => {
+  const [versions, setVersions] = useState<MessageVersion[] | null>(null);
+  const [historyError, setHistoryError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setVersions(null);
+    setHistoryError(null);
+    loadHistory(messageId)
+      .then((loaded) => !cancelled && setVersions(loaded))
+      .catch((err) => !cancelled && setHistoryError(err instanceof Error ? err.message : "Failed to load history"));
+    return () => {
+      cancelled = true;
+    };
+  }, [messageId, loadHistory]);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-slate-700 flex items-center gap-2">
+          <History className="w-4 h-4 text-sky-500" />
+          Edit history of message #{messageId}
+        </h3>
+        <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-600" title="Close history">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+      {historyError ? (
+        <p className="text-sm text-red-600">{historyError}</p>
+      ) : !versions ? (
+        <p className="text-sm text-slate-500">Decrypting revisions...</p>
+      ) : (
+        <ol className="space-y-2">
+          {versions.map((version, i) => (
+            <li key={i} className="p-3 glass rounded-xl text-sm space-y-1">
+              <div className="flex items-center gap-2 text-xs text-slate-500">
+                <span className="font-medium">{version.current ? "Current" : `Revision ${i + 1}`}</span>
+                <span>·</span>
+                <span>{new Date(version.timestamp * 1000).toLocaleString()}</span>
+              </div>
+              {version.text !== null ? (
+                <p className="text-slate-700 break-words">{version.text}</p>
+              ) : (
+                <p className="text-xs text-red-600 flex items-center gap-1">
+                  <ShieldAlert className="w-3.5 h-3.5" />
+                  This revision can&apos;t be decrypted with the current key
+                </p>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,81 @@
+"use client";
+
+import { Download, Printer } from "lucide-react";
+import { formatRecoveryKit } from "@/hooks/useCrypto";
+
+interface RecoveryKitProps {
+  phrase: string;
+  address: string;
+  chainId: number;
+  saved: boolean;
+  onSavedChange: (saved: boolean) => void;
+}
+
+/**
+ * Shows a recovery phrase with print and download options, and asks the user to confirm
+ * it was saved before the kit is stored
+ */
+export const RecoveryKit = ({ phrase, address, chainId, saved, onSavedChange }: RecoveryKitProps) => {
+  const kitText = formatRecoveryKit(phrase, address, chainId);
+
+  const handleDownload = () => {
+    const url = URL.createObjectURL(new Blob([kitText], { type: "text/plain" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `whisperlink-recovery-${address.slice(2, 8).toLowerCase()}.txt`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handlePrint = () => {
+    const printWindow = window.open("", "_blank", "width=640,height=640");
+    if (!printWindow) return;
+    const pre = printWindow.document.createElement("pre");
+    pre.style.font = "14px/1.6 monospace";
+    pre.style.whiteSpace = "pre-wrap";
+    pre.textContent = kitText;
+    printWindow.document.title = "WhisperLink Recovery Kit";
+    printWindow.document.body.appendChild(pre);
+    printWindow.print();
+    printWindow.close();
+  };
+
+  return (
+    <div className="space-y-3 text-left">
+      <p className="text-sm text-slate-600">
+        This phrase opens your vault if you forget your password. Anyone who has it can read your messages, so keep
+        it offline and private.
+      </p>
+      <ol className="grid grid-cols-3 gap-2 p-3 bg-white/80 border border-slate-300 rounded-xl">
+        {phrase.split(" ").map((word, i) => (
+          <li key={i} className="text-sm text-slate-700 font-mono">
+            <span className="text-slate-400 mr-1">{i + 1}.</span>
+            {word}
+          </li>
+        ))}
+      </ol>
+      <div className="flex gap-2">
+        <button
+          type="button"
+          onClick={handlePrint}
+          className="flex-1 py-2 glass-card hover:bg-blue-50/80 rounded-xl text-slate-700 text-sm font-medium transition-all flex items-center justify-center gap-2"
+        >
+          <Printer className="w-4 h-4 text-sky-500" />
+          Print
+        </button>
+        <button
+          type="button"
+          onClick={handleDownload}
+          className="flex-1 py-2 glass-card hover:bg-blue-50/80 rounded-xl text-slate-700 text-sm font-medium transition-all flex items-center justify-center gap-2"
+        >
+          <Download className="w-4 h-4 text-sky-500" />
+          Download
+        </button>
+      </div>
+      <label className="flex items-start gap-2 text-sm text-slate-700 cursor-pointer">
+        <input type="checkbox" className="mt-0.5" checked={saved} onChange={(e) => onSavedChange(e.target.checked)} />
+        I have printed, downloaded or written down my recovery phrase
+      </label>
+    </div>
+  );
+};
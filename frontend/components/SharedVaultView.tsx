@@ -0,0 +1,67 @@
+"use client";
+
+import { ArrowLeft, Eye, Lock, ShieldAlert, Trash2 } from "lucide-react";
+import { SharedVault } from "@/hooks/useKeyEscrow";
+
+interface SharedVaultViewProps {
+  vault: SharedVault;
+  onClose: () => void;
+}
+
+/**
+ * Read-only view of another owner's vault, opened with the key they escrowed for us
+ */
+export const SharedVaultView = ({ vault, onClose }: SharedVaultViewProps) => {
+  const { owner, messages, total } = vault;
+
+  return (
+    <div className="flex-1 min-h-0 flex flex-col">
+      <div className="px-4 py-3 border-b border-slate-300/50 flex items-center gap-3">
+        <button onClick={onClose} className="p-1.5 text-slate-500 hover:text-slate-700" title="Back to your vault">
+          <ArrowLeft className="w-4 h-4" />
+        </button>
+        <Eye className="w-4 h-4 text-sky-500" />
+        <span className="flex-1 truncate font-mono text-sm text-slate-700" title={owner}>
+          {owner}
+        </span>
+        <span className="px-2 py-0.5 rounded-full bg-slate-100 text-slate-500 text-xs">Read-only</span>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-4">
+        {total > messages.length && (
+          <p className="text-center text-xs text-slate-500">
+            Showing the latest {messages.length} of {total} messages
+          </p>
+        )}
+        {messages.length === 0 && <p className="text-center text-sm text-slate-500">This vault has no messages.</p>}
+        {messages.map((msg) => (
+          <div key={msg.id} className={`flex ${msg.isResponse ? "justify-start" : "justify-end"}`}>
+            <div className={`max-w-[80%] ${msg.isResponse ? "message-system" : "message-user"} px-5 py-3 space-y-2`}>
+              {msg.deleted ? (
+                <div className="flex items-center gap-2 text-xs italic opacity-80">
+                  <Trash2 className="w-3.5 h-3.5" />
+                  Message deleted
+                </div>
+              ) : msg.tampered ? (
+                <div className="flex items-start gap-2 p-2 rounded-lg bg-red-100/80 border border-red-300/50">
+                  <ShieldAlert className="w-3.5 h-3.5 text-red-600 flex-shrink-0 mt-0.5" />
+                  <p className="text-xs text-red-600">This message was moved or copied from elsewhere and is hidden.</p>
+                </div>
+              ) : msg.text !== null ? (
+                <p className={`text-sm break-words ${msg.isResponse ? "text-slate-700" : "text-white"}`}>{msg.text}</p>
+              ) : (
+                <div className="flex items-center gap-2 encrypted-content p-2 rounded-lg">
+                  <Lock className="w-3.5 h-3.5 text-sky-500 flex-shrink-0" />
+                  <p className="text-xs text-sky-600/80">Written before this vault had a shareable key</p>
+                </div>
+              )}
+              <div className={`text-xs ${msg.isResponse ? "text-slate-500" : "text-white/80"}`}>
+                {new Date(msg.timestamp * 1000).toLocaleString()}
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,216 @@
+"use client";
+
+import { useState } from "react";
+import { Archive, ArchiveRestore, Check, ChevronDown, KeyRound, MessageSquare, Pencil, Plus, X } from "lucide-react";
+import { Thread } from "@/hooks/useWhisperVault";
+import { MAX_TITLE_LENGTH } from "@/hooks/useCrypto";
+
+interface ThreadSidebarProps {
+  threads: Thread[];
+  // null while a direct conversation is shown
+  activeThread: number | null;
+  // Whether the deployment has threads; older ones only have the default conversation
+  supported: boolean;
+  // Whether the vault has a data key to derive thread keys from
+  canUseOwnKey: boolean;
+  loading: boolean;
+  onSelect: (id: number) => Promise<void>;
+  onCreate: (title: string, ownKey: boolean) => Promise<void>;
+  onRename: (id: number, title: string) => Promise<void>;
+  onArchive: (id: number, archived: boolean) => Promise<void>;
+}
+
+const threadName = (thread: Thread) =>
+  thread.id === 0 ? "General" : thread.title ?? `Encrypted thread #${thread.id}`;
+
+/**
+ * Thread list of the unlocked vault: switch, create, rename and archive threads
+ */
+export const ThreadSidebar = ({
+  threads,
+  activeThread,
+  supported,
+  canUseOwnKey,
+  loading,
+  onSelect,
+  onCreate,
+  onRename,
+  onArchive,
+}: ThreadSidebarProps) => {
+  // null when no title is edited, 0 for a new thread, else the id of the thread being renamed
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [titleInput, setTitleInput] = useState("");
+  const [ownKey, setOwnKey] = useState(false);
+  const [showArchived, setShowArchived] = useState(false);
+  const [sidebarError, setSidebarError] = useState<string | null>(null);
+
+  const open = threads.filter((thread) => !thread.archived);
+  const archived = threads.filter((thread) => thread.archived);
+
+  const run = async (action: () => Promise<void>) => {
+    try {
+      setSidebarError(null);
+      await action();
+    } catch (err) {
+      console.error("Thread action failed:", err);
+      setSidebarError(err instanceof Error ? err.message : "Thread action failed");
+    }
+  };
+
+  const startEditing = (id: number, title = "") => {
+    setEditingId(id);
+    setTitleInput(title);
+    setOwnKey(false);
+    setSidebarError(null);
+  };
+
+  const handleSave = () =>
+    run(async () => {
+      if (editingId === 0) await onCreate(titleInput, ownKey);
+      else if (editingId !== null) await onRename(editingId, titleInput);
+      setEditingId(null);
+    });
+
+  const titleEditor = (
+    <div className="space-y-2 p-2 glass rounded-xl">
+      <input
+        type="text"
+        value={titleInput}
+        onChange={(e) => setTitleInput(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") handleSave();
+          if (e.key === "Escape") setEditingId(null);
+        }}
+        placeholder="Thread title"
+        maxLength={MAX_TITLE_LENGTH}
+        className="w-full px-3 py-2 bg-white/80 border border-slate-300 rounded-lg text-sm text-slate-700 placeholder:text-slate-400 focus:outline-none focus:border-sky-400"
+        autoFocus
+      />
+      {editingId === 0 && (
+        <label
+          className={`flex items-center gap-2 text-xs ${canUseOwnKey ? "text-slate-600" : "text-slate-400"}`}
+          title={
+            canUseOwnKey
+              ? "Messages of this thread are encrypted with a key derived only for it"
+              : "Needs a vault with a data key. Create a recovery kit first."
+          }
+        >
+          <input
+            type="checkbox"
+            checked={ownKey}
+            onChange={(e) => setOwnKey(e.target.checked)}
+            disabled={!canUseOwnKey}
+          />
+          Use its own key
+        </label>
+      )}
+      <div className="flex justify-end gap-1">
+        <button onClick={() => setEditingId(null)} className="p-1.5 text-slate-400 hover:text-slate-600" title="Cancel">
+          <X className="w-4 h-4" />
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={loading || !titleInput.trim()}
+          className="p-1.5 text-sky-500 hover:text-sky-600 disabled:opacity-50"
+          title={editingId === 0 ? "Create thread" : "Save title"}
+        >
+          <Check className="w-4 h-4" />
+        </button>
+      </div>
+    </div>
+  );
+
+  const threadRow = (thread: Thread) =>
+    editingId === thread.id && thread.id !== 0 ? (
+      <div key={thread.id}>{titleEditor}</div>
+    ) : (
+      <div
+        key={thread.id}
+        className={`group flex items-center gap-2 px-3 py-2 rounded-xl cursor-pointer transition-colors ${
+          thread.id === activeThread ? "bg-sky-100/80 text-sky-700" : "text-slate-600 hover:bg-white/60"
+        }`}
+        onClick={() => thread.id !== activeThread && run(() => onSelect(thread.id))}
+      >
+        <MessageSquare className="w-4 h-4 flex-shrink-0" />
+        <span className={`flex-1 truncate text-sm ${thread.title === undefined && thread.id !== 0 ? "italic" : ""}`}>
+          {threadName(thread)}
+        </span>
+        {thread.ownKey && (
+          <span title="Encrypted with its own key">
+            <KeyRound className="w-3.5 h-3.5 text-sky-500 flex-shrink-0" />
+          </span>
+        )}
+        {thread.id !== 0 && (
+          <span className="hidden group-hover:flex items-center gap-0.5">
+            {thread.title !== undefined && (
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  startEditing(thread.id, thread.title);
+                }}
+                disabled={loading}
+                className="p-1 hover:bg-black/5 rounded"
+                title="Rename thread"
+              >
+                <Pencil className="w-3 h-3" />
+              </button>
+            )}
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                run(() => onArchive(thread.id, !thread.archived));
+              }}
+              disabled={loading}
+              className="p-1 hover:bg-black/5 rounded"
+              title={thread.archived ? "Restore thread" : "Archive thread"}
+            >
+              {thread.archived ? <ArchiveRestore className="w-3 h-3" /> : <Archive className="w-3 h-3" />}
+            </button>
+          </span>
+        )}
+        <span className="text-xs text-slate-400 group-hover:hidden">{thread.messageCount}</span>
+      </div>
+    );
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between px-1">
+        <h3 className="text-sm font-semibold text-slate-700">Threads</h3>
+        {supported && (
+          <button
+            onClick={() => startEditing(0)}
+            disabled={loading || editingId !== null}
+            className="p-1.5 text-slate-500 hover:text-sky-600 disabled:opacity-50"
+            title="New thread"
+          >
+            <Plus className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+
+      {editingId === 0 && titleEditor}
+      {sidebarError && <p className="px-1 text-xs text-red-600">{sidebarError}</p>}
+
+      <div className="space-y-1">{open.map(threadRow)}</div>
+
+      {archived.length > 0 && (
+        <div className="space-y-1">
+          <button
+            onClick={() => setShowArchived(!showArchived)}
+            className="w-full flex items-center gap-1 px-1 text-xs text-slate-500 hover:text-slate-700"
+          >
+            <ChevronDown className={`w-3.5 h-3.5 transition-transform ${showArchived ? "" : "-rotate-90"}`} />
+            Archived ({archived.length})
+          </button>
+          {showArchived && archived.map(threadRow)}
+        </div>
+      )}
+
+      {!supported && (
+        <p className="px-1 text-xs text-slate-500">
+          This deployment predates threads, so all messages are in one conversation.
+        </p>
+      )}
+    </div>
+  );
+};
@@ -1,9 +1,48 @@
 "use client";
 
-import { useState, useEffect, useCallback, useRef } from "react";
+import { useState, useEffect, useLayoutEffect, useCallback, useMemo, useRef } from "react";
 import { ConnectButton } from "@rainbow-me/rainbowkit";
 import { useAccount, useSignMessage } from "wagmi";
-import { useWhisperVault } from "@/hooks/useWhisperVault";
+import {
+  BucketCost,
+  LiveStatus,
+  MAX_CONTENT_BYTES,
+  useWhisperVault,
+  VaultKeyMode,
+  VaultStatus,
+} from "@/hooks/useWhisperVault";
+import {
+  benchmarkKdf,
+  createRecoveryPhrase,
+  describeKdf,
+  getKdfName,
+  KdfName,
+  MAX_LABELS,
+  parseLabelList,
+  parseRecoveryKit,
+  WALLET_KEY_KDF,
+} from "@/hooks/useCrypto";
+import { useChannels } from "@/hooks/useChannels";
+import { useDirectMessages } from "@/hooks/useDirectMessages";
+import { useGroups } from "@/hooks/useGroups";
+import { useGuardians } from "@/hooks/useGuardians";
+import { useKeyEscrow } from "@/hooks/useKeyEscrow";
+import { useMessageGrants } from "@/hooks/useMessageGrants";
+import { MAX_PRIORITY, useMessageFlags } from "@/hooks/useMessageFlags";
+import { ChannelFeed } from "./ChannelFeed";
+import { ChannelList } from "./ChannelList";
+import { ConversationList } from "./ConversationList";
+import { DirectConversation } from "./DirectConversation";
+import { GroupConversation } from "./GroupConversation";
+import { GrantsPanel } from "./GrantsPanel";
+import { GrantView } from "./GrantView";
+import { GroupList } from "./GroupList";
+import { GuardianPanel } from "./GuardianPanel";
+import { KeyEscrowPanel } from "./KeyEscrowPanel";
+import { MessageHistory } from "./MessageHistory";
+import { RecoveryKit } from "./RecoveryKit";
+import { SharedVaultView } from "./SharedVaultView";
+import { ThreadSidebar } from "./ThreadSidebar";
 import {
   Lock,
   Unlock,
@@ -21,26 +60,133 @@ import {
   Zap,
   Globe,
   ShieldCheck,
+  ShieldAlert,
   Fingerprint,
+  Share2,
+  FileKey,
+  LifeBuoy,
+  Upload,
   Radio,
   ChevronDown,
+  Users,
+  ChevronUp,
+  Pencil,
+  Trash2,
+  History,
+  X,
+  Tag,
+  Star,
+  Flag,
+  Fuel,
 } from "lucide-react";
+import { formatEther } from "ethers";
+
+// Header badge of each live update state
+const LIVE_BADGES: Record<LiveStatus, { label: string; iconClass: string; title: string }> = {
+  live: {
+    label: "Live",
+    iconClass: "text-green-500 animate-pulse",
+    title: "New messages appear as they are stored",
+  },
+  connecting: {
+    label: "Connecting...",
+    iconClass: "text-amber-500 animate-pulse",
+    title: "Subscribing to new messages",
+  },
+  reconnecting: {
+    label: "Reconnecting...",
+    iconClass: "text-amber-500 animate-pulse",
+    title: "The network doesn't answer; messages stored meanwhile appear once it's back",
+  },
+  off: {
+    label: "Offline",
+    iconClass: "text-slate-400",
+    title: "No live updates in demo mode; refresh to see new messages",
+  },
+};
 
-/* label support */
-/* label support */
 export default function WhisperChat() {
   const { isConnected, address, chainId } = useAccount();
   const {
     messages,
+    messageCount,
+    olderMessageCount,
+    hasOlderMessages,
+    threads,
+    activeThread,
+    threadsSupported,
+    liveStatus,
+    loadingOlder,
     loading,
     error,
+    decryptProgress,
+    rotationProgress,
+    pendingRotation,
     loadMessages,
+    loadOlderMessages,
+    loadThreads,
+    selectThread,
+    createThread,
+    renameThread,
+    setThreadArchived,
     sendMessage,
+    editMessage,
+    deleteMessage,
+    getMessageHistory,
+    setMessageLabels,
     decryptAllMessages,
+    vaultKdf,
+    setVaultKdf,
+    keyMode,
+    vaultKeyMode,
+    deriveWalletSecret,
+    measureMessage,
+    getVaultStatus,
+    setupVault,
+    unlockVault,
+    recoverVault,
+    restoreVault,
+    getDataKey,
+    createRecoveryKit,
+    hasRecoveryKit,
+    privacyMode,
+    setPrivacyMode,
+    relayEnabled,
+    setRelayEnabled,
+    relayerAvailable,
+    estimateBucketCosts,
+    rotateKey,
+    lock,
   } = useWhisperVault();
+  const guardians = useGuardians();
+  const { guardianSet, recoveryRequest, refresh: refreshGuardians } = guardians;
+  const keyEscrow = useKeyEscrow();
+  const { escrow: escrowedKey, sharedVault, closeSharedVault, refresh: refreshEscrow, clear: clearEscrow } = keyEscrow;
+  const direct = useDirectMessages();
+  const {
+    messagingKey,
+    activeConversation,
+    getMessagingKeyPair,
+    unlockMessagingKey,
+    openConversation,
+    closeConversation,
+    refresh: refreshConversations,
+    clear: clearDirectMessages,
+  } = direct;
+  const groups = useGroups({ messagingKey, getKeyPair: getMessagingKeyPair, unlock: unlockMessagingKey });
+  const { activeGroup, openGroup, closeGroup, refresh: refreshGroups, clear: clearGroups } = groups;
+  const channels = useChannels({ messagingKey, getKeyPair: getMessagingKeyPair, unlock: unlockMessagingKey });
+  const messageGrants = useMessageGrants({ messagingKey, getKeyPair: getMessagingKeyPair, unlock: unlockMessagingKey });
+  const { openGrant, closeGrant, refresh: refreshGrants, clear: clearGrants } = messageGrants;
+  const { activeChannel, openChannel, closeChannel, refresh: refreshChannels, clear: clearChannels } = channels;
+  // Deleted messages keep their index but have nothing left to flag
+  const flaggableIds = useMemo(() => messages.filter((msg) => !msg.deleted).map((msg) => msg.id), [messages]);
+  const messageFlags = useMessageFlags(flaggableIds);
+  const { flags, clear: clearFlags } = messageFlags;
   
   const [prevChainId, setPrevChainId] = useState<number | undefined>(undefined);
   const [messageInput, setMessageInput] = useState("");
+  const [contentBytes, setContentBytes] = useState(0);
   const [password, setPassword] = useState("");
   const [sendError, setSendError] = useState<string | null>(null);
   const [isAuthenticated, setIsAuthenticated] = useState(false);
@@ -51,7 +197,53 @@ export default function WhisperChat() {
   const [isSending, setIsSending] = useState(false);
   const [isDecrypting, setIsDecrypting] = useState(false);
   const [copiedId, setCopiedId] = useState<number | null>(null);
+  // Message being edited in the input box, and message whose edit history is shown
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [historyId, setHistoryId] = useState<number | null>(null);
+  // Message whose labels are being edited, and the label the list is filtered by
+  const [labelingId, setLabelingId] = useState<number | null>(null);
+  const [labelInput, setLabelInput] = useState("");
+  const [labelError, setLabelError] = useState<string | null>(null);
+  const [labelFilter, setLabelFilter] = useState<string | null>(null);
+  // Only list messages whose decrypted starred flag is set
+  const [starredOnly, setStarredOnly] = useState(false);
+  const [isTuningKdf, setIsTuningKdf] = useState(false);
+  const [authMode, setAuthMode] = useState<VaultKeyMode>("password");
+  const [walletKeyWarning, setWalletKeyWarning] = useState<string | null>(null);
+  const [vaultStatus, setVaultStatus] = useState<VaultStatus | null>(null);
+  const [setupStep, setSetupStep] = useState<"password" | "confirm" | "kit">("password");
+  const [setupConfirm, setSetupConfirm] = useState("");
+  // Wallet key secret held between the signature and the recovery kit step of setup
+  const [setupSecret, setSetupSecret] = useState("");
+  const [kitPhrase, setKitPhrase] = useState<string | null>(null);
+  const [kitSaved, setKitSaved] = useState(false);
+  const [recoveryMode, setRecoveryMode] = useState(false);
+  const [recoveryMethod, setRecoveryMethod] = useState<"kit" | "guardians" | "escrow">("kit");
+  const [recoveryInput, setRecoveryInput] = useState("");
+  const [recoveryPassword, setRecoveryPassword] = useState("");
+  const [recoveryConfirm, setRecoveryConfirm] = useState("");
+  const [showKit, setShowKit] = useState(false);
+  const [showGuardians, setShowGuardians] = useState(false);
+  const [showEscrow, setShowEscrow] = useState(false);
+  const [showGrants, setShowGrants] = useState(false);
+  const [kitError, setKitError] = useState<string | null>(null);
+  const [isSavingKit, setIsSavingKit] = useState(false);
+  const [showRotate, setShowRotate] = useState(false);
+  const [rotateCurrent, setRotateCurrent] = useState("");
+  const [rotateNew, setRotateNew] = useState("");
+  const [rotateConfirm, setRotateConfirm] = useState("");
+  const [rotateError, setRotateError] = useState<string | null>(null);
+  const [showPrivacy, setShowPrivacy] = useState(false);
+  const [bucketCosts, setBucketCosts] = useState<BucketCost[] | null>(null);
+  const [bucketCostError, setBucketCostError] = useState<string | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const messagesContainerRef = useRef<HTMLDivElement>(null);
+  // Whether the message list is scrolled to the newest message, and its last scroll offset
+  const atBottomRef = useRef(true);
+  const lastScrollTopRef = useRef(0);
+  // Scroll position while older messages load, restored once they are prepended
+  const prependAnchorRef = useRef<{ top: number; height: number } | null>(null);
+  const loadedRangeRef = useRef<{ oldest: number; newest: number } | null>(null);
   
   const { signMessageAsync } = useSignMessage();
   
@@ -75,25 +267,89 @@ export default function WhisperChat() {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
   };
 
-  useEffect(() => {
-    scrollToBottom();
+  // Follow new messages, but keep the view in place when older messages are prepended above it
+  useLayoutEffect(() => {
+    const previous = loadedRangeRef.current;
+    const range = messages.length > 0 ? { oldest: messages[0].id, newest: messages[messages.length - 1].id } : null;
+    loadedRangeRef.current = range;
+    const appended = range?.newest !== previous?.newest;
+    const prepended = !!range && !!previous && !appended && range.oldest < previous.oldest;
+
+    const container = messagesContainerRef.current;
+    const anchor = prependAnchorRef.current;
+    if (prepended && container && anchor) {
+      container.scrollTop = anchor.top + container.scrollHeight - anchor.height;
+      prependAnchorRef.current = null;
+      return;
+    }
+    if (appended || atBottomRef.current) scrollToBottom();
   }, [messages]);
 
+  const handleLoadOlder = useCallback(async () => {
+    const container = messagesContainerRef.current;
+    if (!hasOlderMessages || loadingOlder) return;
+    if (container) prependAnchorRef.current = { top: container.scrollTop, height: container.scrollHeight };
+    try {
+      // Keep a decrypted conversation decrypted
+      await loadOlderMessages(messages.some((msg) => msg.decryptedText) ? password : undefined);
+    } catch (err) {
+      prependAnchorRef.current = null;
+      setSendError(err instanceof Error ? err.message : "Failed to load older messages");
+    }
+  }, [hasOlderMessages, loadingOlder, loadOlderMessages, messages, password]);
+
+  const handleMessagesScroll = () => {
+    const container = messagesContainerRef.current;
+    if (!container) return;
+    const scrolledUp = container.scrollTop < lastScrollTopRef.current;
+    lastScrollTopRef.current = container.scrollTop;
+    atBottomRef.current = container.scrollHeight - container.scrollTop - container.clientHeight < 80;
+    // Track the position until the older page is in
+    if (prependAnchorRef.current) {
+      prependAnchorRef.current = { top: container.scrollTop, height: container.scrollHeight };
+    } else if (scrolledUp && container.scrollTop < 80) {
+      handleLoadOlder();
+    }
+  };
+
   const handleLockVault = useCallback(() => {
+    lock();
+    clearDirectMessages();
+    clearGroups();
+    clearChannels();
+    clearFlags();
+    clearEscrow();
+    clearGrants();
+    setStarredOnly(false);
+    setShowKit(false);
+    setShowGuardians(false);
+    setShowEscrow(false);
+    setShowGrants(false);
+    setEditingId(null);
+    setHistoryId(null);
+    setLabelingId(null);
+    setLabelFilter(null);
     setIsAuthenticated(false);
     setPassword("");
     setAuthPassword("");
     setAuthError(null);
     setSendError(null);
-  }, []);
+  }, [lock, clearDirectMessages, clearGroups, clearChannels, clearFlags, clearEscrow, clearGrants]);
 
   useEffect(() => {
     if (!isConnected) {
+      lock();
+      clearDirectMessages();
+      clearGroups();
+      clearChannels();
+      clearFlags();
+      clearEscrow();
+      clearGrants();
       setIsAuthenticated(false);
       setAuthPassword("");
       setPassword("");
     }
-  }, [isConnected]);
+  }, [isConnected, lock, clearDirectMessages, clearGroups, clearChannels, clearFlags, clearEscrow, clearGrants]);
 
   useEffect(() => {
     if (chainId && prevChainId && chainId !== prevChainId && isAuthenticated) {
@@ -109,7 +365,96 @@ export default function WhisperChat() {
     }
   }, [isConnected, address, isAuthenticated, loadMessages]);
 
+  useEffect(() => {
+    if (isConnected && address && isAuthenticated) {
+      loadThreads(password);
+    }
+  }, [isConnected, address, isAuthenticated, password, loadThreads]);
+
+  useEffect(() => {
+    if (isConnected && address && isAuthenticated) {
+      refreshConversations();
+    }
+  }, [isConnected, address, isAuthenticated, refreshConversations]);
+
+  useEffect(() => {
+    if (isConnected && address && isAuthenticated) {
+      refreshGroups();
+      refreshChannels();
+    }
+  }, [isConnected, address, isAuthenticated, refreshGroups, refreshChannels]);
+
+  const resetSetup = () => {
+    setSetupStep("password");
+    setSetupConfirm("");
+    setSetupSecret("");
+    setKitPhrase(null);
+    setKitSaved(false);
+  };
+
+  // Offer a fresh recovery kit as the last setup step
+  const startKitStep = () => {
+    setKitPhrase(createRecoveryPhrase());
+    setKitSaved(false);
+    setSetupStep("kit");
+  };
+
   const handleAuthenticate = useCallback(async () => {
+    if (!vaultStatus) return;
+    const isSetup = vaultStatus === "new";
+
+    // Last setup step: store the keyring, with the recovery kit unless it was skipped
+    if (isSetup && setupStep === "kit") {
+      if (kitPhrase && !kitSaved) {
+        setAuthError("Please save your recovery kit first");
+        return;
+      }
+      const secret = authMode === "wallet" ? setupSecret : authPassword;
+      try {
+        setIsAuthenticating(true);
+        setAuthError(null);
+        // Storing the keyring is a transaction, which already proves wallet ownership
+        await setupVault(secret, authMode, kitPhrase);
+        setPassword(secret);
+        resetSetup();
+        setIsAuthenticated(true);
+      } catch (err) {
+        console.error("Vault setup failed:", err);
+        setAuthError(err instanceof Error ? err.message : "Vault setup failed");
+      } finally {
+        setIsAuthenticating(false);
+      }
+      return;
+    }
+
+    if (authMode === "wallet") {
+      try {
+        setIsAuthenticating(true);
+        setAuthError(null);
+        setWalletKeyWarning(null);
+        const { secret, deterministic } = await deriveWalletSecret();
+        if (!deterministic) {
+          setWalletKeyWarning(
+            "Your wallet returned a different signature for the same request. Wallet key mode needs deterministic signatures, otherwise your messages could never be decrypted again. Please use a password instead."
+          );
+          return;
+        }
+        if (isSetup) {
+          setSetupSecret(secret);
+          startKitStep();
+          return;
+        }
+        await unlockVault(secret, "wallet");
+        setPassword(secret);
+        setIsAuthenticated(true);
+      } catch (err) {
+        console.error("Wallet key derivation failed:", err);
+        setAuthError(err instanceof Error ? err.message : "Signature rejected");
+      } finally {
+        setIsAuthenticating(false);
+      }
+      return;
+    }
     if (!authPassword.trim()) {
       setAuthError("Please enter a password");
       return;
@@ -118,9 +463,27 @@ export default function WhisperChat() {
       setAuthError("Password must be at least 6 characters");
       return;
     }
+    // Setup asks for the password twice, since a typo would lock the vault under an unknown key
+    if (isSetup && setupStep === "password") {
+      setAuthError(null);
+      setSetupConfirm("");
+      setSetupStep("confirm");
+      return;
+    }
+    if (isSetup) {
+      if (setupConfirm !== authPassword) {
+        setAuthError("Passwords don't match");
+        return;
+      }
+      setAuthError(null);
+      startKitStep();
+      return;
+    }
     try {
       setIsAuthenticating(true);
       setAuthError(null);
+      // Check the password first, so a typo never gets as far as the signature request
+      await unlockVault(authPassword, "password");
       const timestamp = Date.now();
       const message = `WhisperLink Authentication\n\nI am signing in to WhisperLink with my encryption key.\n\nTimestamp: ${timestamp}\nAddress: ${address}`;
       await signMessageAsync({ message });
@@ -132,9 +495,184 @@ export default function WhisperChat() {
     } finally {
       setIsAuthenticating(false);
     }
-  }, [authPassword, address, signMessageAsync]);
+  }, [
+    vaultStatus,
+    setupStep,
+    setupConfirm,
+    setupSecret,
+    kitPhrase,
+    kitSaved,
+    authMode,
+    authPassword,
+    address,
+    signMessageAsync,
+    deriveWalletSecret,
+    setupVault,
+    unlockVault,
+  ]);
 
-  const MAX_MESSAGE_LENGTH = 500;
+  // Forgotten password: open the data key with the recovery phrase and set a new password
+  const handleRecover = async () => {
+    if (recoveryPassword.length < 6) {
+      setAuthError("Password must be at least 6 characters");
+      return;
+    }
+    if (recoveryPassword !== recoveryConfirm) {
+      setAuthError("Passwords don't match");
+      return;
+    }
+    try {
+      setIsAuthenticating(true);
+      setAuthError(null);
+      await recoverVault(recoveryInput, recoveryPassword);
+      setPassword(recoveryPassword);
+      setAuthPassword("");
+      closeRecovery();
+      setIsAuthenticated(true);
+    } catch (err) {
+      console.error("Recovery failed:", err);
+      setAuthError(err instanceof Error ? err.message : "Recovery failed");
+    } finally {
+      setIsAuthenticating(false);
+    }
+  };
+
+  // Forgotten password and kit: recombine the data key from the shares guardians returned
+  const handleGuardianRecover = async () => {
+    if (recoveryPassword.length < 6) {
+      setAuthError("Password must be at least 6 characters");
+      return;
+    }
+    if (recoveryPassword !== recoveryConfirm) {
+      setAuthError("Passwords don't match");
+      return;
+    }
+    try {
+      setIsAuthenticating(true);
+      setAuthError(null);
+      await restoreVault(await guardians.collectRecoveredKey(), recoveryPassword);
+      await guardians.closeRecovery();
+      setPassword(recoveryPassword);
+      setAuthPassword("");
+      closeRecovery();
+      setIsAuthenticated(true);
+    } catch (err) {
+      console.error("Guardian recovery failed:", err);
+      setAuthError(err instanceof Error ? err.message : "Recovery failed");
+    } finally {
+      setIsAuthenticating(false);
+    }
+  };
+
+  // Forgotten password: decrypt the data key escrowed with VaultKeyEscrow, which the wallet is allowed on
+  const handleEscrowRecover = async () => {
+    if (recoveryPassword.length < 6) {
+      setAuthError("Password must be at least 6 characters");
+      return;
+    }
+    if (recoveryPassword !== recoveryConfirm) {
+      setAuthError("Passwords don't match");
+      return;
+    }
+    try {
+      setIsAuthenticating(true);
+      setAuthError(null);
+      await restoreVault(await keyEscrow.recoverKey(), recoveryPassword);
+      setPassword(recoveryPassword);
+      setAuthPassword("");
+      closeRecovery();
+      setIsAuthenticated(true);
+    } catch (err) {
+      console.error("Escrow recovery failed:", err);
+      setAuthError(err instanceof Error ? err.message : "Recovery failed");
+    } finally {
+      setIsAuthenticating(false);
+    }
+  };
+
+  const handleAskGuardians = async () => {
+    try {
+      setIsAuthenticating(true);
+      setAuthError(null);
+      await guardians.startRecovery();
+    } catch (err) {
+      console.error("Failed to start guardian recovery:", err);
+      setAuthError(err instanceof Error ? err.message : "Failed to contact your guardians");
+    } finally {
+      setIsAuthenticating(false);
+    }
+  };
+
+  const closeRecovery = () => {
+    setRecoveryMode(false);
+    setRecoveryInput("");
+    setRecoveryPassword("");
+    setRecoveryConfirm("");
+  };
+
+  const closeKit = () => {
+    setShowKit(false);
+    setKitPhrase(null);
+    setKitSaved(false);
+    setKitError(null);
+  };
+
+  const handleSaveKit = async () => {
+    if (!kitPhrase) return;
+    try {
+      setIsSavingKit(true);
+      setKitError(null);
+      await createRecoveryKit(password, kitPhrase);
+      closeKit();
+    } catch (err) {
+      setKitError(err instanceof Error ? err.message : "Failed to create recovery kit");
+    } finally {
+      setIsSavingKit(false);
+    }
+  };
+
+  const handleKitFile = async (file: File | undefined) => {
+    if (!file) return;
+    setRecoveryInput(parseRecoveryKit(await file.text()));
+  };
+
+  // Whether the vault needs the setup wizard; re-checked when the account or chain changes
+  useEffect(() => {
+    if (!isConnected || !address || isAuthenticated) return;
+    let cancelled = false;
+    setVaultStatus(null);
+    resetSetup();
+    closeRecovery();
+    refreshGuardians().catch((err) => console.error("Failed to read guardians:", err));
+    refreshEscrow().catch((err) => console.error("Failed to read the key escrow:", err));
+    getVaultStatus()
+      .then((status) => !cancelled && status && setVaultStatus(status))
+      .catch((err) => {
+        console.error("Failed to read vault status:", err);
+        if (!cancelled) setAuthError("Failed to read your vault. Please check your connection.");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [isConnected, address, isAuthenticated, getVaultStatus, refreshGuardians, refreshEscrow]);
+
+  // Byte budget: size of the compressed, encrypted message as it will be stored on-chain
+  useEffect(() => {
+    if (!messageInput) {
+      setContentBytes(0);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      measureMessage(messageInput)
+        .then((bytes) => !cancelled && setContentBytes(bytes))
+        .catch((err) => console.error("Failed to measure message:", err));
+    }, 150);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [messageInput, measureMessage]);
   
   const handleSend = async () => {
     if (isSending) return;
@@ -142,14 +680,20 @@ export default function WhisperChat() {
       setSendError("Please enter both message and password");
       return;
     }
-    if (messageInput.length > MAX_MESSAGE_LENGTH) {
-      setSendError(`Message too long. Maximum ${MAX_MESSAGE_LENGTH} characters allowed.`);
-      return;
-    }
     try {
       setIsSending(true);
       setSendError(null);
-      await sendMessage(messageInput, password);
+      const bytes = await measureMessage(messageInput);
+      if (bytes > MAX_CONTENT_BYTES) {
+        setSendError(`Message too long. ${bytes} of ${MAX_CONTENT_BYTES} bytes after compression and encryption.`);
+        return;
+      }
+      if (editingId !== null) {
+        await editMessage(editingId, messageInput, password);
+        setEditingId(null);
+      } else {
+        await sendMessage(messageInput, password);
+      }
       setMessageInput("");
     } catch (err) {
       setSendError(err instanceof Error ? err.message : "Failed to send");
@@ -158,6 +702,167 @@ export default function WhisperChat() {
     }
   };
 
+  const startEdit = (id: number, text: string) => {
+    setEditingId(id);
+    setMessageInput(text);
+    setSendError(null);
+  };
+
+  const cancelEdit = () => {
+    setEditingId(null);
+    setMessageInput("");
+  };
+
+  const handleDelete = async (id: number) => {
+    if (!window.confirm("Delete this message? It can't be restored, and its edit history is removed too.")) return;
+    try {
+      setSendError(null);
+      if (editingId === id) cancelEdit();
+      if (historyId === id) setHistoryId(null);
+      if (labelingId === id) setLabelingId(null);
+      await deleteMessage(id);
+    } catch (err) {
+      setSendError(err instanceof Error ? err.message : "Failed to delete");
+    }
+  };
+
+  const startLabeling = (id: number, labels: string[] = []) => {
+    setLabelingId(id);
+    setLabelInput(labels.join(", "));
+    setLabelError(null);
+  };
+
+  const handleSaveLabels = async () => {
+    if (labelingId === null) return;
+    try {
+      setLabelError(null);
+      await setMessageLabels(labelingId, parseLabelList(labelInput), password);
+      setLabelingId(null);
+    } catch (err) {
+      setLabelError(err instanceof Error ? err.message : "Failed to save labels");
+    }
+  };
+
+  // Labels only exist in plaintext after decryption, so the filter covers the loaded messages
+  const allLabels = useMemo(
+    () => Array.from(new Set(messages.flatMap((msg) => msg.labels ?? []))).sort(),
+    [messages]
+  );
+  const visibleMessages = useMemo(
+    () =>
+      messages.filter(
+        (msg) => (!labelFilter || msg.labels?.includes(labelFilter)) && (!starredOnly || flags[msg.id]?.starred)
+      ),
+    [messages, labelFilter, starredOnly, flags]
+  );
+  const unreadIds = useMemo(
+    () => flaggableIds.filter((id) => flags[id] && !flags[id].read),
+    [flaggableIds, flags]
+  );
+
+  // Flag changes are transactions on encrypted inputs; their errors show like send errors
+  const handleFlagChange = async (change: () => Promise<void>) => {
+    try {
+      setSendError(null);
+      await change();
+    } catch (err) {
+      setSendError(err instanceof Error ? err.message : "Failed to update flags");
+    }
+  };
+
+  useEffect(() => {
+    if (labelFilter && !allLabels.includes(labelFilter)) setLabelFilter(null);
+  }, [allLabels, labelFilter]);
+
+  const handleSelectThread = async (id: number) => {
+    closeConversation();
+    closeGroup();
+    closeChannel();
+    closeSharedVault();
+    closeGrant();
+    if (editingId !== null) cancelEdit();
+    setHistoryId(null);
+    setLabelingId(null);
+    setLabelFilter(null);
+    setStarredOnly(false);
+    setSendError(null);
+    // Keep a decrypted conversation decrypted
+    await selectThread(id, messages.some((msg) => msg.decryptedText) ? password : undefined);
+  };
+
+  const handleOpenConversation = async (peer: string) => {
+    closeGroup();
+    closeChannel();
+    closeSharedVault();
+    closeGrant();
+    await openConversation(peer);
+  };
+
+  const handleOpenGroup = async (id: number) => {
+    closeConversation();
+    closeChannel();
+    closeSharedVault();
+    closeGrant();
+    await openGroup(id);
+  };
+
+  const handleOpenChannel = async (id: number) => {
+    closeConversation();
+    closeGroup();
+    closeSharedVault();
+    closeGrant();
+    await openChannel(id);
+  };
+
+  const handleCreateThread = async (title: string, ownKey: boolean) => {
+    const id = await createThread(title, ownKey, password);
+    await handleSelectThread(id);
+  };
+
+  const handleArchiveThread = async (id: number, archived: boolean) => {
+    await setThreadArchived(id, archived);
+    if (archived && id === activeThread) await handleSelectThread(0);
+  };
+
+  const currentThread = threads.find((thread) => thread.id === activeThread);
+  const currentGroup = groups.groups.find((group) => group.id === activeGroup);
+
+  // One read-only view at a time: opening a shared vault or a grant closes the other
+  useEffect(() => {
+    if (sharedVault) closeGrant();
+  }, [sharedVault, closeGrant]);
+
+  useEffect(() => {
+    if (openGrant) closeSharedVault();
+  }, [openGrant, closeSharedVault]);
+  // Ways back into a vault whose password is lost, in order of preference
+  const recoveryMethods = (
+    [
+      { method: "kit", icon: LifeBuoy, label: "Recovery kit", available: hasRecoveryKit },
+      { method: "guardians", icon: Users, label: "Guardians", available: !!guardianSet },
+      { method: "escrow", icon: KeyRound, label: "FHE key", available: !!escrowedKey },
+    ] as const
+  ).filter(({ available }) => available);
+  const handleRecoverWith =
+    recoveryMethod === "kit" ? handleRecover : recoveryMethod === "guardians" ? handleGuardianRecover : handleEscrowRecover;
+  const currentChannel = channels.channels.find((channel) => channel.id === activeChannel);
+
+  const loadHistory = useCallback((id: number) => getMessageHistory(id, password), [getMessageHistory, password]);
+
+  // Gas per padding bucket, refreshed whenever the privacy panel is opened
+  useEffect(() => {
+    if (!showPrivacy) return;
+    let cancelled = false;
+    setBucketCosts(null);
+    setBucketCostError(null);
+    estimateBucketCosts()
+      .then((costs) => !cancelled && setBucketCosts(costs))
+      .catch((err) => !cancelled && setBucketCostError(err instanceof Error ? err.message : "Failed to estimate gas"));
+    return () => {
+      cancelled = true;
+    };
+  }, [showPrivacy, estimateBucketCosts]);
+
   const handleDecryptAll = async () => {
     if (!password.trim()) {
       setSendError("Please enter password to decrypt");
@@ -174,6 +879,52 @@ export default function WhisperChat() {
     }
   };
 
+  const closeRotate = () => {
+    setShowRotate(false);
+    setRotateCurrent("");
+    setRotateNew("");
+    setRotateConfirm("");
+    setRotateError(null);
+  };
+
+  // Re-encrypt the vault under a new password; an interrupted run is resumed by submitting again
+  const handleRotateKey = async () => {
+    if (keyMode === "password" && !rotateCurrent) {
+      setRotateError("Please enter your current password");
+      return;
+    }
+    if (rotateNew.length < 6) {
+      setRotateError("Password must be at least 6 characters");
+      return;
+    }
+    if (rotateNew !== rotateConfirm) {
+      setRotateError("New passwords don't match");
+      return;
+    }
+    try {
+      setRotateError(null);
+      await rotateKey(keyMode === "wallet" ? password : rotateCurrent, rotateNew);
+      setPassword(rotateNew);
+      closeRotate();
+    } catch (err) {
+      setRotateError(err instanceof Error ? err.message : "Key rotation failed");
+    }
+  };
+
+  // Calibrate the selected KDF to ~500ms on this device and use it for new messages
+  const handleKdfChange = async (name: KdfName) => {
+    try {
+      setIsTuningKdf(true);
+      setSendError(null);
+      const { params } = await benchmarkKdf(name);
+      setVaultKdf(params);
+    } catch (err) {
+      setSendError(err instanceof Error ? err.message : "Failed to calibrate key derivation");
+    } finally {
+      setIsTuningKdf(false);
+    }
+  };
+
   const formatTime = (timestamp: number) => {
     const date = new Date(timestamp * 1000);
     const now = new Date();
@@ -246,13 +997,16 @@ export default function WhisperChat() {
             {/* Center Stats */}
             {isAuthenticated && (
               <div className="hidden md:flex items-center gap-6">
-                <div className="flex items-center gap-2 px-4 py-2 glass-card rounded-full">
-                  <Radio className="w-4 h-4 text-green-500 animate-pulse" />
-                  <span className="text-sm text-slate-600">Live</span>
+                <div
+                  className="flex items-center gap-2 px-4 py-2 glass-card rounded-full"
+                  title={LIVE_BADGES[liveStatus].title}
+                >
+                  <Radio className={`w-4 h-4 ${LIVE_BADGES[liveStatus].iconClass}`} />
+                  <span className="text-sm text-slate-600">{LIVE_BADGES[liveStatus].label}</span>
                 </div>
                 <div className="flex items-center gap-2 px-4 py-2 glass-card rounded-full">
                   <Shield className="w-4 h-4 text-sky-500" />
-                  <span className="text-sm text-slate-600">{messages.length} Messages</span>
+                  <span className="text-sm text-slate-600">{messageCount} Messages</span>
                 </div>
               </div>
             )}
@@ -340,9 +1094,17 @@ export default function WhisperChat() {
                   </div>
 
                   <div className="space-y-2">
-                    <h2 className="text-2xl font-bold text-slate-700">Unlock Your Vault</h2>
+                    <h2 className="text-2xl font-bold text-slate-700">
+                      {recoveryMode ? "Recover Your Vault" : vaultStatus === "new" ? "Set Up Your Vault" : "Unlock Your Vault"}
+                    </h2>
                     <p className="text-slate-600">
-                      Enter your encryption password and sign with your wallet
+                      {vaultStatus === "new"
+                        ? authMode === "password"
+                          ? "Choose the password that encrypts your messages. It can't be recovered, so pick one you'll remember."
+                          : "Sign once with your wallet to create the key that encrypts your messages"
+                        : authMode === "password"
+                          ? "Enter your encryption password and sign with your wallet"
+                          : "Sign once with your wallet to derive your encryption key"}
                     </p>
                   </div>
 
@@ -354,77 +1116,416 @@ export default function WhisperChat() {
                     </span>
                   </div>
 
+                  {/* Key Mode */}
+                  <div className="grid grid-cols-2 gap-1 p-1 glass rounded-xl">
+                    {([
+                      { mode: "password", icon: KeyRound, label: "Password" },
+                      { mode: "wallet", icon: Fingerprint, label: "Wallet key" },
+                    ] as const).map(({ mode, icon: Icon, label }) => (
+                      <button
+                        key={mode}
+                        type="button"
+                        onClick={() => {
+                          setAuthMode(mode);
+                          setAuthError(null);
+                          setWalletKeyWarning(null);
+                          setSetupStep("password");
+                        }}
+                        disabled={isAuthenticating}
+                        className={`py-2 rounded-lg text-sm font-medium flex items-center justify-center gap-2 transition-all ${
+                          authMode === mode ? "bg-white shadow-sm text-sky-600" : "text-slate-500 hover:text-slate-700"
+                        }`}
+                      >
+                        <Icon className="w-4 h-4" />
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+
                   {/* Error Display */}
                   {authError && (
                     <div className="p-4 bg-red-100/80 border border-red-300/50 rounded-xl text-red-600 text-sm">
                       {authError}
                     </div>
                   )}
-
-                  {/* Password Input */}
-                  <div className="space-y-4">
-                    <div className="relative">
-                      <Lock className="absolute left-4 top-1/2 -translate-y-1/2 w-5 h-5 text-slate-400" />
-                      <input
-                        type={showAuthPassword ? "text" : "password"}
-                        placeholder="Enter encryption password..."
-                        className="w-full pl-12 pr-12 py-4 bg-white/80 border border-slate-300 rounded-xl text-slate-700 placeholder:text-slate-400 focus:outline-none focus:border-sky-400 input-cyber transition-all"
-                        value={authPassword}
-                        onChange={(e) => setAuthPassword(e.target.value)}
-                        onKeyDown={(e) => e.key === "Enter" && handleAuthenticate()}
-                        autoComplete="off"
-                        disabled={isAuthenticating}
-                      />
-                      <button
-                        type="button"
-                        onClick={() => setShowAuthPassword(!showAuthPassword)}
-                        className="absolute right-4 top-1/2 -translate-y-1/2 text-slate-400 hover:text-slate-600 transition-colors"
-                      >
-                        {showAuthPassword ? <EyeOff className="w-5 h-5" /> : <Eye className="w-5 h-5" />}
-                      </button>
+                  {walletKeyWarning && (
+                    <div className="p-4 bg-amber-100/80 border border-amber-300/50 rounded-xl text-amber-700 text-sm text-left">
+                      {walletKeyWarning}
                     </div>
+                  )}
 
-                    {/* Password Strength */}
-                    {authPassword && (
-                      <div className="space-y-2">
-                        <div className="flex gap-1">
-                          {[1, 2, 3].map((level) => (
-                            <div
-                              key={level}
-                              className="h-1.5 flex-1 rounded-full transition-all duration-300"
-                              style={{
-                                backgroundColor: passwordStrength.level >= level ? passwordStrength.color : "rgb(51, 65, 85)"
+                  {/* Recovery */}
+                  {recoveryMode ? (
+                    <div className="space-y-4 text-left">
+                      {recoveryMethods.length > 1 && (
+                        <div className={`grid ${recoveryMethods.length > 2 ? "grid-cols-3" : "grid-cols-2"} gap-1 p-1 glass rounded-xl`}>
+                          {recoveryMethods.map(({ method, icon: Icon, label }) => (
+                            <button
+                              key={method}
+                              type="button"
+                              onClick={() => {
+                                setRecoveryMethod(method);
+                                setAuthError(null);
                               }}
-                            />
+                              disabled={isAuthenticating}
+                              className={`py-2 rounded-lg text-sm font-medium flex items-center justify-center gap-2 transition-all ${
+                                recoveryMethod === method ? "bg-white shadow-sm text-sky-600" : "text-slate-500 hover:text-slate-700"
+                              }`}
+                            >
+                              <Icon className="w-4 h-4" />
+                              {label}
+                            </button>
                           ))}
                         </div>
-                        <p className="text-xs text-right" style={{ color: passwordStrength.color }}>
-                          {passwordStrength.label}
-                        </p>
-                      </div>
-                    )}
-
-                    <button
-                      onClick={handleAuthenticate}
-                      disabled={isAuthenticating || !authPassword.trim() || authPassword.length < 6}
-                      className="w-full py-4 bg-gradient-to-r from-sky-400 to-blue-500 hover:from-sky-300 hover:to-blue-400 disabled:opacity-50 disabled:cursor-not-allowed rounded-xl text-white font-bold transition-all glow-cyan btn-cyber flex items-center justify-center gap-2 shadow-md"
-                    >
-                      {isAuthenticating ? (
+                      )}
+                      {recoveryMethod === "kit" ? (
                         <>
-                          <div className="w-5 h-5 border-2 border-white/30 border-t-white rounded-full animate-spin" />
-                          <span>Waiting for signature...</span>
+                          <p className="text-sm text-slate-600">
+                            Enter the phrase from your recovery kit, or load the kit file, then choose a new password.
+                            Messages written before the vault had a recovery kit can&apos;t be recovered.
+                          </p>
+                          <textarea
+                            placeholder="twelve words of your recovery phrase..."
+                            rows={3}
+                            className="w-full px-4 py-3 bg-white/80 border border-slate-300 rounded-xl text-sm text-slate-700 font-mono placeholder:text-slate-400 focus:outline-none focus:border-sky-400"
+                            value={recoveryInput}
+                            onChange={(e) => setRecoveryInput(e.target.value)}
+                            autoComplete="off"
+                            spellCheck={false}
+                            disabled={isAuthenticating}
+                          />
+                          <label className="inline-flex items-center gap-2 text-sm text-sky-600 hover:text-sky-700 font-medium cursor-pointer">
+                            <Upload className="w-4 h-4" />
+                            Load kit file
+                            <input
+                              type="file"
+                              accept=".txt,text/plain"
+                              className="hidden"
+                              onChange={(e) => handleKitFile(e.target.files?.[0])}
+                              disabled={isAuthenticating}
+                            />
+                          </label>
                         </>
+                      ) : recoveryMethod === "escrow" ? (
+                        <p className="text-sm text-slate-600">
+                          Your vault key is escrowed on-chain, encrypted with FHE so only accounts you allowed can
+                          decrypt it. Sign the decryption request with this wallet, then choose a new password. Messages
+                          written before the vault had a recovery kit can&apos;t be recovered.
+                        </p>
+                      ) : recoveryRequest && guardianSet ? (
+                        <div className="space-y-2">
+                          <p className="text-sm text-slate-600">
+                            Your guardians were asked for help. Once {guardianSet.threshold} of them return their share,
+                            choose a new password to restore your vault.
+                          </p>
+                          <div className="flex items-center justify-between gap-2 p-3 glass rounded-xl text-sm">
+                            <span className={recoveryRequest.submitted >= guardianSet.threshold ? "text-green-600" : "text-slate-600"}>
+                              {recoveryRequest.submitted} of {guardianSet.threshold} shares returned
+                            </span>
+                            <button
+                              type="button"
+                              onClick={() => refreshGuardians()}
+                              disabled={isAuthenticating}
+                              className="text-sky-600 hover:text-sky-700"
+                              title="Check again"
+                            >
+                              <RefreshCw className="w-4 h-4" />
+                            </button>
+                          </div>
+                        </div>
                       ) : (
+                        <div className="space-y-3">
+                          <p className="text-sm text-slate-600">
+                            {guardianSet?.guardians.length ?? 0} guardians each hold a piece of your vault key. Ask them
+                            for help, then let them know outside this app so they can confirm it was you. Signing twice
+                            creates the key their pieces are returned to.
+                          </p>
+                          <button
+                            onClick={handleAskGuardians}
+                            disabled={isAuthenticating}
+                            className="w-full py-3 glass-card hover:bg-blue-50/80 disabled:opacity-50 disabled:cursor-not-allowed rounded-xl text-slate-700 font-medium transition-all flex items-center justify-center gap-2"
+                          >
+                            {isAuthenticating ? (
+                              <div className="w-5 h-5 border-2 border-sky-400/30 border-t-sky-500 rounded-full animate-spin" />
+                            ) : (
+                              <Users className="w-5 h-5 text-sky-500" />
+                            )}
+                            <span>Ask Guardians</span>
+                          </button>
+                        </div>
+                      )}
+                      {(recoveryMethod !== "guardians" || recoveryRequest) && (
                         <>
-                          <LogIn className="w-5 h-5" />
-                          <span>Sign In with Wallet</span>
+                          <input
+                            type="password"
+                            placeholder="New password"
+                            className="w-full px-4 py-3 bg-white/80 border border-slate-300 rounded-xl text-sm text-slate-700 placeholder:text-slate-400 focus:outline-none focus:border-sky-400"
+                            value={recoveryPassword}
+                            onChange={(e) => setRecoveryPassword(e.target.value)}
+                            disabled={isAuthenticating}
+                          />
+                          <input
+                            type="password"
+                            placeholder="Confirm new password"
+                            className="w-full px-4 py-3 bg-white/80 border border-slate-300 rounded-xl text-sm text-slate-700 placeholder:text-slate-400 focus:outline-none focus:border-sky-400"
+                            value={recoveryConfirm}
+                            onChange={(e) => setRecoveryConfirm(e.target.value)}
+                            onKeyDown={(e) =>
+                              e.key === "Enter" && handleRecoverWith()
+                            }
+                            disabled={isAuthenticating}
+                          />
+                          <button
+                            onClick={handleRecoverWith}
+                            disabled={
+                              isAuthenticating ||
+                              !recoveryPassword ||
+                              !recoveryConfirm ||
+                              (recoveryMethod === "kit"
+                                ? !recoveryInput.trim()
+                                : recoveryMethod === "escrow"
+                                  ? keyEscrow.fhevmStatus !== "ready"
+                                  : !recoveryRequest || !guardianSet || recoveryRequest.submitted < guardianSet.threshold)
+                            }
+                            className="w-full py-4 bg-gradient-to-r from-sky-400 to-blue-500 hover:from-sky-300 hover:to-blue-400 disabled:opacity-50 disabled:cursor-not-allowed rounded-xl text-white font-bold transition-all glow-cyan btn-cyber flex items-center justify-center gap-2 shadow-md"
+                          >
+                            {isAuthenticating ? (
+                              <div className="w-5 h-5 border-2 border-white/30 border-t-white rounded-full animate-spin" />
+                            ) : (
+                              <LifeBuoy className="w-5 h-5" />
+                            )}
+                            <span>Recover Vault</span>
+                          </button>
                         </>
                       )}
-                    </button>
-                  </div>
+                      <button
+                        type="button"
+                        onClick={() => {
+                          closeRecovery();
+                          setAuthError(null);
+                        }}
+                        disabled={isAuthenticating}
+                        className="text-sm text-sky-600 hover:text-sky-700 font-medium"
+                      >
+                        Back to unlock
+                      </button>
+                    </div>
+                  ) : (
+                    <>
+                      {/* Setup Steps */}
+                      {vaultStatus === "new" && (
+                        <div className="flex items-center justify-center gap-2 text-xs text-slate-500">
+                          {(authMode === "password"
+                            ? (["password", "confirm", "kit"] as const)
+                            : (["password", "kit"] as const)
+                          ).map((step, i) => (
+                            <span key={step} className="flex items-center gap-2">
+                              {i > 0 && <span className="w-6 h-px bg-slate-300" />}
+                              <span
+                                className={`w-5 h-5 rounded-full flex items-center justify-center ${
+                                  setupStep === step ? "bg-sky-500 text-white" : "bg-slate-200 text-slate-500"
+                                }`}
+                              >
+                                {i + 1}
+                              </span>
+                              <span className={setupStep === step ? "text-slate-700 font-medium" : ""}>
+                                {step === "kit"
+                                  ? "Recovery kit"
+                                  : step === "confirm"
+                                    ? "Confirm"
+                                    : authMode === "password"
+                                      ? "Choose password"
+                                      : "Sign"}
+                              </span>
+                            </span>
+                          ))}
+                        </div>
+                      )}
+
+                      {/* Password Input */}
+                      <div className="space-y-4">
+                        {setupStep === "kit" && address && chainId ? (
+                          kitPhrase ? (
+                            <>
+                              <RecoveryKit
+                                phrase={kitPhrase}
+                                address={address}
+                                chainId={chainId}
+                                saved={kitSaved}
+                                onSavedChange={setKitSaved}
+                              />
+                              <button
+                                type="button"
+                                onClick={() => setKitPhrase(null)}
+                                disabled={isAuthenticating}
+                                className="text-xs text-slate-500 hover:text-slate-700"
+                              >
+                                Continue without a recovery kit
+                              </button>
+                            </>
+                          ) : (
+                            <div className="p-4 bg-amber-100/80 border border-amber-300/50 rounded-xl text-amber-700 text-sm text-left space-y-2">
+                              <p>
+                                Without a recovery kit, a forgotten password means your messages are lost for good. You
+                                can still create one later from the chat.
+                              </p>
+                              <button
+                                type="button"
+                                onClick={startKitStep}
+                                className="text-sm text-sky-600 hover:text-sky-700 font-medium"
+                              >
+                                Show a recovery kit
+                              </button>
+                            </div>
+                          )
+                        ) : authMode === "password" && setupStep === "confirm" ? (
+                          <>
+                            <div className="relative">
+                              <Lock className="absolute left-4 top-1/2 -translate-y-1/2 w-5 h-5 text-slate-400" />
+                              <input
+                                type="password"
+                                placeholder="Type your password again..."
+                                className="w-full pl-12 pr-4 py-4 bg-white/80 border border-slate-300 rounded-xl text-slate-700 placeholder:text-slate-400 focus:outline-none focus:border-sky-400 input-cyber transition-all"
+                                value={setupConfirm}
+                                onChange={(e) => setSetupConfirm(e.target.value)}
+                                onKeyDown={(e) => e.key === "Enter" && handleAuthenticate()}
+                                autoComplete="off"
+                                autoFocus
+                                disabled={isAuthenticating}
+                              />
+                            </div>
+                            <p className="text-sm text-slate-600 text-left">
+                              A check value encrypted with this password is stored with your vault, so a mistyped
+                              password is refused when unlocking instead of hiding your messages.
+                            </p>
+                            <button
+                              type="button"
+                              onClick={() => {
+                                setSetupStep("password");
+                                setAuthError(null);
+                              }}
+                              disabled={isAuthenticating}
+                              className="text-sm text-sky-600 hover:text-sky-700 font-medium"
+                            >
+                              Back
+                            </button>
+                          </>
+                        ) : authMode === "password" ? (
+                          <>
+                            <div className="relative">
+                              <Lock className="absolute left-4 top-1/2 -translate-y-1/2 w-5 h-5 text-slate-400" />
+                              <input
+                                type={showAuthPassword ? "text" : "password"}
+                                placeholder="Enter encryption password..."
+                                className="w-full pl-12 pr-12 py-4 bg-white/80 border border-slate-300 rounded-xl text-slate-700 placeholder:text-slate-400 focus:outline-none focus:border-sky-400 input-cyber transition-all"
+                                value={authPassword}
+                                onChange={(e) => setAuthPassword(e.target.value)}
+                                onKeyDown={(e) => e.key === "Enter" && handleAuthenticate()}
+                                autoComplete="off"
+                                disabled={isAuthenticating}
+                              />
+                              <button
+                                type="button"
+                                onClick={() => setShowAuthPassword(!showAuthPassword)}
+                                className="absolute right-4 top-1/2 -translate-y-1/2 text-slate-400 hover:text-slate-600 transition-colors"
+                              >
+                                {showAuthPassword ? <EyeOff className="w-5 h-5" /> : <Eye className="w-5 h-5" />}
+                              </button>
+                            </div>
+
+                            {/* Password Strength */}
+                            {authPassword && (
+                              <div className="space-y-2">
+                                <div className="flex gap-1">
+                                  {[1, 2, 3].map((level) => (
+                                    <div
+                                      key={level}
+                                      className="h-1.5 flex-1 rounded-full transition-all duration-300"
+                                      style={{
+                                        backgroundColor: passwordStrength.level >= level ? passwordStrength.color : "rgb(51, 65, 85)"
+                                      }}
+                                    />
+                                  ))}
+                                </div>
+                                <p className="text-xs text-right" style={{ color: passwordStrength.color }}>
+                                  {passwordStrength.label}
+                                </p>
+                              </div>
+                            )}
+                          </>
+                        ) : (
+                          <p className="text-sm text-slate-600 text-left">
+                            Your wallet signs a fixed EIP-712 message bound to this chain, vault contract and address.
+                            The key is derived from that signature, so no password is needed, but anyone who obtains
+                            the signature can read your messages.
+                          </p>
+                        )}
+
+                        <button
+                          onClick={handleAuthenticate}
+                          disabled={
+                            isAuthenticating ||
+                            !vaultStatus ||
+                            (authMode === "password" && (!authPassword.trim() || authPassword.length < 6)) ||
+                            (setupStep === "confirm" && !setupConfirm) ||
+                            (setupStep === "kit" && !!kitPhrase && !kitSaved)
+                          }
+                          className="w-full py-4 bg-gradient-to-r from-sky-400 to-blue-500 hover:from-sky-300 hover:to-blue-400 disabled:opacity-50 disabled:cursor-not-allowed rounded-xl text-white font-bold transition-all glow-cyan btn-cyber flex items-center justify-center gap-2 shadow-md"
+                        >
+                          {isAuthenticating ? (
+                            <>
+                              <div className="w-5 h-5 border-2 border-white/30 border-t-white rounded-full animate-spin" />
+                              <span>Waiting for signature...</span>
+                            </>
+                          ) : !vaultStatus ? (
+                            <>
+                              <div className="w-5 h-5 border-2 border-white/30 border-t-white rounded-full animate-spin" />
+                              <span>Checking vault...</span>
+                            </>
+                          ) : vaultStatus === "new" ? (
+                            <>
+                              <LogIn className="w-5 h-5" />
+                              <span>
+                                {setupStep === "kit"
+                                  ? "Create Vault"
+                                  : authMode === "wallet"
+                                    ? "Sign with Wallet"
+                                    : "Continue"}
+                              </span>
+                            </>
+                          ) : (
+                            <>
+                              <LogIn className="w-5 h-5" />
+                              <span>{authMode === "password" ? "Sign In with Wallet" : "Unlock with Wallet Key"}</span>
+                            </>
+                          )}
+                        </button>
+                        {vaultStatus === "protected" && recoveryMethods.length > 0 && (
+                          <button
+                            type="button"
+                            onClick={() => {
+                              setRecoveryMode(true);
+                              setRecoveryMethod(recoveryMethods[0].method);
+                              setAuthError(null);
+                            }}
+                            disabled={isAuthenticating}
+                            className="text-sm text-sky-600 hover:text-sky-700 font-medium"
+                          >
+                            {hasRecoveryKit
+                              ? "Forgot your password? Use your recovery kit"
+                              : guardianSet
+                                ? "Forgot your password? Ask your guardians"
+                                : "Forgot your password? Decrypt your escrowed key"}
+                          </button>
+                        )}
+                      </div>
+                    </>
+                  )}
 
                   <p className="text-xs text-slate-500">
-                    Your password never leaves your browser. It&apos;s used for local encryption only.
+                    {authMode === "password"
+                      ? "Your password never leaves your browser. It's used for local encryption only."
+                      : "The signature never leaves your browser. It's used for local encryption only."}
                   </p>
                 </div>
               </div>
@@ -432,206 +1533,936 @@ export default function WhisperChat() {
           </div>
         ) : (
           /* Chat Interface */
-          <div className="h-[calc(100vh-80px)] flex flex-col max-w-4xl mx-auto">
-            {/* Error Display */}
-            {(error || sendError) && (
-              <div className="mx-4 mt-4 p-4 bg-red-100/80 border border-red-300/50 rounded-xl text-red-600 text-sm flex items-center gap-2">
-                <Shield className="w-4 h-4" />
-                {error || sendError}
-              </div>
-            )}
-
-            {/* Control Bar */}
-            <div className="p-4 border-b border-slate-300/50">
-              <div className="flex items-center justify-between">
-                <div className="flex items-center gap-3">
-                  <div className="flex items-center gap-2 px-3 py-1.5 bg-green-100/80 border border-green-300/50 rounded-full">
-                    <Unlock className="w-4 h-4 text-green-600" />
-                    <span className="text-sm text-green-600">Vault Unlocked</span>
-                  </div>
+          <div className="h-[calc(100vh-80px)] flex max-w-6xl mx-auto">
+            <aside className="w-64 flex-shrink-0 border-r border-slate-300/50 p-3 space-y-6 overflow-y-auto">
+              <ThreadSidebar
+                threads={threads}
+                activeThread={activeConversation || activeGroup !== null || activeChannel !== null ? null : activeThread}
+                supported={threadsSupported}
+                canUseOwnKey={!!getDataKey()}
+                loading={loading}
+                onSelect={handleSelectThread}
+                onCreate={handleCreateThread}
+                onRename={(id, title) => renameThread(id, title, password)}
+                onArchive={handleArchiveThread}
+              />
+              <ConversationList
+                conversations={direct.conversations}
+                activeConversation={activeConversation}
+                supported={direct.supported}
+                messagingKey={messagingKey}
+                loading={direct.loading}
+                onOpen={handleOpenConversation}
+                onRegisterKey={direct.registerMessagingKey}
+              />
+              <GroupList
+                groups={groups.groups}
+                activeGroup={activeGroup}
+                available={groups.available}
+                messagingKey={messagingKey}
+                loading={groups.loading}
+                onOpen={handleOpenGroup}
+                onCreate={groups.createGroup}
+                onDecrypt={groups.decryptGroups}
+              />
+              <ChannelList
+                channels={channels.channels}
+                activeChannel={activeChannel}
+                available={channels.available}
+                messagingKey={messagingKey}
+                loading={channels.loading}
+                onOpen={handleOpenChannel}
+                onCreate={channels.createChannel}
+                onRequest={channels.requestSubscription}
+                onCancelRequest={channels.cancelRequest}
+                onDecrypt={channels.decryptChannels}
+              />
+            </aside>
+            <div className="flex-1 min-w-0 flex flex-col">
+              {/* Error Display */}
+              {(error || sendError) && (
+                <div className="mx-4 mt-4 p-4 bg-red-100/80 border border-red-300/50 rounded-xl text-red-600 text-sm flex items-center gap-2">
+                  <Shield className="w-4 h-4" />
+                  {error || sendError}
                 </div>
-                <div className="flex items-center gap-2">
-                  <button
-                    onClick={handleDecryptAll}
-                    disabled={loading || isDecrypting || messages.length === 0}
-                    className="px-4 py-2 glass-card hover:bg-blue-50/80 disabled:opacity-50 disabled:cursor-not-allowed rounded-xl text-slate-700 text-sm font-medium transition-all flex items-center gap-2"
-                  >
-                    {isDecrypting ? (
-                      <>
-                        <div className="w-4 h-4 border-2 border-sky-400/30 border-t-sky-500 rounded-full animate-spin" />
-                        <span>Decrypting...</span>
-                      </>
+              )}
+
+              {/* Control Bar */}
+              <div className="p-4 border-b border-slate-300/50">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-3">
+                    <div className="flex items-center gap-2 px-3 py-1.5 bg-green-100/80 border border-green-300/50 rounded-full">
+                      <Unlock className="w-4 h-4 text-green-600" />
+                      <span className="text-sm text-green-600">Vault Unlocked</span>
+                    </div>
+                    {keyMode === "wallet" ? (
+                      <div
+                        className="hidden md:flex items-center gap-2 px-3 py-1.5 glass-card rounded-full"
+                        title={describeKdf(WALLET_KEY_KDF)}
+                      >
+                        <Fingerprint className="w-4 h-4 text-sky-500" />
+                        <span className="text-sm text-slate-600">Wallet key</span>
+                      </div>
                     ) : (
-                      <>
-                        <Unlock className="w-4 h-4 text-sky-500" />
-                        <span>Decrypt All</span>
-                      </>
+                      <div
+                        className="hidden md:flex items-center gap-2 px-3 py-1.5 glass-card rounded-full"
+                        title={vaultKdf ? describeKdf(vaultKdf) : "Default PBKDF2-SHA256 settings"}
+                      >
+                        <KeyRound className="w-4 h-4 text-sky-500" />
+                        <select
+                          className="bg-transparent text-sm text-slate-600 focus:outline-none disabled:opacity-50"
+                          value={vaultKdf ? getKdfName(vaultKdf) : "pbkdf2"}
+                          onChange={(e) => handleKdfChange(e.target.value as KdfName)}
+                          disabled={isTuningKdf || loading}
+                        >
+                          <option value="pbkdf2">PBKDF2</option>
+                          <option value="scrypt">scrypt</option>
+                          <option value="argon2id">Argon2id</option>
+                        </select>
+                        {isTuningKdf && (
+                          <div className="w-3.5 h-3.5 border-2 border-sky-400/30 border-t-sky-500 rounded-full animate-spin" />
+                        )}
+                      </div>
                     )}
-                  </button>
-                  <button
-                    onClick={handleLockVault}
-                    className="px-4 py-2 bg-red-100/80 hover:bg-red-200/80 border border-red-300/50 rounded-xl text-red-600 text-sm font-medium transition-all flex items-center gap-2"
-                  >
-                    <LogOut className="w-4 h-4" />
-                    <span>Lock</span>
-                  </button>
+                    {vaultKeyMode && vaultKeyMode !== keyMode && (
+                      <span
+                        className="hidden lg:inline text-xs text-amber-600"
+                        title="Messages are decrypted with the key of the mode they were written in"
+                      >
+                        Latest messages use {vaultKeyMode === "wallet" ? "a wallet key" : "a password"}
+                      </span>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <button
+                      onClick={handleDecryptAll}
+                      disabled={loading || isDecrypting || messages.length === 0}
+                      className="px-4 py-2 glass-card hover:bg-blue-50/80 disabled:opacity-50 disabled:cursor-not-allowed rounded-xl text-slate-700 text-sm font-medium transition-all flex items-center gap-2"
+                    >
+                      {isDecrypting ? (
+                        <>
+                          <div className="w-4 h-4 border-2 border-sky-400/30 border-t-sky-500 rounded-full animate-spin" />
+                          <span>
+                            {decryptProgress
+                              ? `Decrypting ${decryptProgress.done}/${decryptProgress.total}`
+                              : "Decrypting..."}
+                          </span>
+                        </>
+                      ) : (
+                        <>
+                          <Unlock className="w-4 h-4 text-sky-500" />
+                          <span>Decrypt All</span>
+                        </>
+                      )}
+                    </button>
+                    <button
+                      onClick={() => (showRotate ? closeRotate() : setShowRotate(true))}
+                      disabled={loading && !rotationProgress}
+                      className="relative px-4 py-2 glass-card hover:bg-blue-50/80 disabled:opacity-50 disabled:cursor-not-allowed rounded-xl text-slate-700 text-sm font-medium transition-all flex items-center gap-2"
+                      title={pendingRotation ? "A password change was interrupted" : "Re-encrypt the vault with a new password"}
+                    >
+                      <KeyRound className="w-4 h-4 text-sky-500" />
+                      <span className="hidden sm:inline">Change Password</span>
+                      {pendingRotation && <span className="absolute -top-1 -right-1 w-2.5 h-2.5 bg-amber-500 rounded-full" />}
+                    </button>
+                    <button
+                      onClick={() => (showKit ? closeKit() : setShowKit(true))}
+                      disabled={loading && !isSavingKit}
+                      className="relative px-4 py-2 glass-card hover:bg-blue-50/80 disabled:opacity-50 disabled:cursor-not-allowed rounded-xl text-slate-700 text-sm font-medium transition-all flex items-center gap-2"
+                      title={hasRecoveryKit ? "Replace your recovery kit" : "Create a recovery kit for a forgotten password"}
+                    >
+                      <LifeBuoy className="w-4 h-4 text-sky-500" />
+                      <span className="hidden sm:inline">Recovery Kit</span>
+                      {!hasRecoveryKit && <span className="absolute -top-1 -right-1 w-2.5 h-2.5 bg-amber-500 rounded-full" />}
+                    </button>
+                    <button
+                      onClick={() => {
+                        if (!showGuardians) refreshGuardians();
+                        setShowGuardians(!showGuardians);
+                      }}
+                      className="relative px-4 py-2 glass-card hover:bg-blue-50/80 rounded-xl text-slate-700 text-sm font-medium transition-all flex items-center gap-2"
+                      title="Let trusted people help you recover your vault"
+                    >
+                      <Users className="w-4 h-4 text-sky-500" />
+                      <span className="hidden sm:inline">Guardians</span>
+                      {recoveryRequest && <span className="absolute -top-1 -right-1 w-2.5 h-2.5 bg-amber-500 rounded-full" />}
+                    </button>
+                    <button
+                      onClick={() => {
+                        if (!showEscrow) refreshEscrow();
+                        setShowEscrow(!showEscrow);
+                      }}
+                      className="relative px-4 py-2 glass-card hover:bg-blue-50/80 rounded-xl text-slate-700 text-sm font-medium transition-all flex items-center gap-2"
+                      title="Escrow your vault key with FHE and share read access"
+                    >
+                      <Share2 className="w-4 h-4 text-sky-500" />
+                      <span className="hidden sm:inline">Key Escrow</span>
+                      {keyEscrow.sharedWith.length > 0 && (
+                        <span className="absolute -top-1 -right-1 w-2.5 h-2.5 bg-sky-500 rounded-full" />
+                      )}
+                    </button>
+                    <button
+                      onClick={() => {
+                        if (!showGrants) refreshGrants();
+                        setShowGrants(!showGrants);
+                      }}
+                      className="relative px-4 py-2 glass-card hover:bg-blue-50/80 rounded-xl text-slate-700 text-sm font-medium transition-all flex items-center gap-2"
+                      title="Show chosen messages to someone until a date"
+                    >
+                      <FileKey className="w-4 h-4 text-sky-500" />
+                      <span className="hidden sm:inline">Grants</span>
+                      {messageGrants.received.length > 0 && (
+                        <span className="absolute -top-1 -right-1 w-2.5 h-2.5 bg-sky-500 rounded-full" />
+                      )}
+                    </button>
+                    <button
+                      onClick={() => setShowPrivacy(!showPrivacy)}
+                      className="relative px-4 py-2 glass-card hover:bg-blue-50/80 rounded-xl text-slate-700 text-sm font-medium transition-all flex items-center gap-2"
+                      title="Pad messages to fixed sizes and hide which ones are responses"
+                    >
+                      <EyeOff className={`w-4 h-4 ${privacyMode ? "text-green-500" : "text-sky-500"}`} />
+                      <span className="hidden sm:inline">Private Shape</span>
+                      {privacyMode && <span className="absolute -top-1 -right-1 w-2.5 h-2.5 bg-green-500 rounded-full" />}
+                    </button>
+                    <button
+                      onClick={handleLockVault}
+                      className="px-4 py-2 bg-red-100/80 hover:bg-red-200/80 border border-red-300/50 rounded-xl text-red-600 text-sm font-medium transition-all flex items-center gap-2"
+                    >
+                      <LogOut className="w-4 h-4" />
+                      <span>Lock</span>
+                    </button>
+                  </div>
                 </div>
               </div>
-            </div>
 
-            {/* Messages Area */}
-            <div className="flex-1 overflow-y-auto p-4 space-y-4">
-              {messages.length === 0 ? (
-                <div className="h-full flex items-center justify-center">
-                  <div className="text-center space-y-4">
-                    <div className="w-20 h-20 mx-auto glass-card rounded-2xl flex items-center justify-center shadow-sm">
-                      <MessageSquare className="w-10 h-10 text-slate-400" />
-                    </div>
-                    <div>
-                      <p className="text-slate-600 font-medium">No messages yet</p>
-                      <p className="text-sm text-slate-500">
-                        Send your first encrypted message below
-                      </p>
+              {/* Key Rotation */}
+              {(showRotate || pendingRotation) && (
+                <div className="p-4 border-b border-slate-300/50 space-y-3">
+                  {pendingRotation && (
+                    <div className="p-3 bg-amber-100/80 border border-amber-300/50 rounded-xl text-amber-700 text-sm">
+                      A password change was interrupted. Some messages already use the new password; submit again
+                      with the same current and new password to finish re-encrypting the rest.
                     </div>
-                    <ChevronDown className="w-6 h-6 text-slate-400 mx-auto animate-bounce" />
-                  </div>
+                  )}
+                  {showRotate ? (
+                    <>
+                      <div className="grid gap-2 md:grid-cols-3">
+                        {keyMode === "password" && (
+                          <input
+                            type="password"
+                            placeholder="Current password"
+                            className="px-4 py-2.5 bg-white/80 border border-slate-300 rounded-xl text-sm text-slate-700 placeholder:text-slate-400 focus:outline-none focus:border-sky-400"
+                            value={rotateCurrent}
+                            onChange={(e) => setRotateCurrent(e.target.value)}
+                            disabled={!!rotationProgress}
+                          />
+                        )}
+                        <input
+                          type="password"
+                          placeholder="New password"
+                          className="px-4 py-2.5 bg-white/80 border border-slate-300 rounded-xl text-sm text-slate-700 placeholder:text-slate-400 focus:outline-none focus:border-sky-400"
+                          value={rotateNew}
+                          onChange={(e) => setRotateNew(e.target.value)}
+                          disabled={!!rotationProgress}
+                        />
+                        <input
+                          type="password"
+                          placeholder="Confirm new password"
+                          className="px-4 py-2.5 bg-white/80 border border-slate-300 rounded-xl text-sm text-slate-700 placeholder:text-slate-400 focus:outline-none focus:border-sky-400"
+                          value={rotateConfirm}
+                          onChange={(e) => setRotateConfirm(e.target.value)}
+                          onKeyDown={(e) => e.key === "Enter" && handleRotateKey()}
+                          disabled={!!rotationProgress}
+                        />
+                      </div>
+                      {rotateError && <p className="text-sm text-red-600">{rotateError}</p>}
+                      {rotationProgress && (
+                        <div className="space-y-1">
+                          <div className="flex justify-between text-xs text-slate-500">
+                            <span>{rotationProgress.phase === "decrypting" ? "Re-encrypting messages" : "Writing to chain"}</span>
+                            <span>
+                              {rotationProgress.done}/{rotationProgress.total}
+                            </span>
+                          </div>
+                          <div className="h-1.5 bg-slate-200 rounded-full overflow-hidden">
+                            <div
+                              className="h-full bg-gradient-to-r from-sky-400 to-blue-500 transition-all duration-300"
+                              style={{
+                                width: `${rotationProgress.total ? (rotationProgress.done / rotationProgress.total) * 100 : 100}%`,
+                              }}
+                            />
+                          </div>
+                        </div>
+                      )}
+                      <div className="flex justify-end gap-2">
+                        <button
+                          onClick={closeRotate}
+                          disabled={!!rotationProgress}
+                          className="px-4 py-2 text-sm text-slate-500 hover:text-slate-700 disabled:opacity-50 transition-colors"
+                        >
+                          Cancel
+                        </button>
+                        <button
+                          onClick={handleRotateKey}
+                          disabled={loading || !rotateNew || !rotateConfirm}
+                          className="px-4 py-2 bg-gradient-to-r from-sky-400 to-blue-500 hover:from-sky-300 hover:to-blue-400 disabled:opacity-50 disabled:cursor-not-allowed rounded-xl text-white text-sm font-medium transition-all flex items-center gap-2"
+                        >
+                          {rotationProgress && (
+                            <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin" />
+                          )}
+                          <span>{pendingRotation ? "Resume Re-encryption" : "Re-encrypt Vault"}</span>
+                        </button>
+                      </div>
+                    </>
+                  ) : (
+                    <button
+                      onClick={() => setShowRotate(true)}
+                      className="text-sm text-sky-600 hover:text-sky-700 font-medium"
+                    >
+                      Resume password change
+                    </button>
+                  )}
                 </div>
-              ) : (
-                <>
-                  {/* Refresh Button */}
-                  <div className="flex justify-center">
+              )}
+
+              {/* Recovery Kit */}
+              {showKit && (
+                <div className="p-4 border-b border-slate-300/50 space-y-3">
+                  <p className="text-sm text-slate-600">
+                    {hasRecoveryKit
+                      ? "Your vault has a recovery kit. A new kit replaces it, and the old phrase stops working."
+                      : "A recovery kit opens your vault if you forget your password. Messages not yet under the vault's data key are re-encrypted, which may take a few transactions."}
+                  </p>
+                  {kitPhrase && address && chainId && (
+                    <RecoveryKit
+                      phrase={kitPhrase}
+                      address={address}
+                      chainId={chainId}
+                      saved={kitSaved}
+                      onSavedChange={setKitSaved}
+                    />
+                  )}
+                  {kitError && <p className="text-sm text-red-600">{kitError}</p>}
+                  {isSavingKit && rotationProgress && (
+                    <p className="text-xs text-slate-500">
+                      {rotationProgress.phase === "decrypting" ? "Re-encrypting messages" : "Writing to chain"}{" "}
+                      {rotationProgress.done}/{rotationProgress.total}
+                    </p>
+                  )}
+                  <div className="flex justify-end gap-2">
+                    <button
+                      onClick={closeKit}
+                      disabled={isSavingKit}
+                      className="px-4 py-2 text-sm text-slate-500 hover:text-slate-700 disabled:opacity-50 transition-colors"
+                    >
+                      Cancel
+                    </button>
                     <button
-                      onClick={loadMessages}
-                      disabled={loading}
-                      className="px-4 py-2 text-sm text-slate-500 hover:text-slate-700 transition-colors flex items-center gap-2 glass-card rounded-full"
+                      onClick={kitPhrase ? handleSaveKit : () => setKitPhrase(createRecoveryPhrase())}
+                      disabled={isSavingKit || (!!kitPhrase && !kitSaved)}
+                      className="px-4 py-2 bg-gradient-to-r from-sky-400 to-blue-500 hover:from-sky-300 hover:to-blue-400 disabled:opacity-50 disabled:cursor-not-allowed rounded-xl text-white text-sm font-medium transition-all flex items-center gap-2"
                     >
-                      <RefreshCw className={`w-4 h-4 ${loading ? "animate-spin" : ""}`} />
-                      Refresh Messages
+                      {isSavingKit && (
+                        <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin" />
+                      )}
+                      <span>{kitPhrase ? "Save Recovery Kit" : "Create Recovery Kit"}</span>
                     </button>
                   </div>
+                </div>
+              )}
 
-                  {/* Message List */}
-                  {messages.map((msg) => (
-                    <div
-                      key={msg.id}
-                      className={`flex group ${msg.isResponse ? "justify-start" : "justify-end"}`}
-                    >
-                      <div
-                        className={`max-w-[80%] ${
-                          msg.isResponse ? "message-system" : "message-user"
-                        } px-5 py-3 ${!msg.decryptedText ? "scan-line" : ""}`}
-                      >
-                        {/* Message Content */}
-                        <div className="space-y-2">
-                          {msg.decryptedText ? (
-                            <div className="flex items-start gap-2">
-                              <p className={`text-sm flex-1 ${msg.isResponse ? "text-slate-700" : "text-white"}`}>
-                                {msg.decryptedText}
-                              </p>
+              {/* Guardians */}
+              {showGuardians && (
+                <div className="p-4 border-b border-slate-300/50">
+                  <GuardianPanel guardians={guardians} getDataKey={getDataKey} />
+                </div>
+              )}
+
+              {/* Key Escrow */}
+              {showEscrow && (
+                <div className="p-4 border-b border-slate-300/50">
+                  <KeyEscrowPanel escrow={keyEscrow} getDataKey={getDataKey} />
+                </div>
+              )}
+
+              {/* Read Grants */}
+              {showGrants && (
+                <div className="p-4 border-b border-slate-300/50">
+                  <GrantsPanel grants={messageGrants} messages={activeThread === 0 ? messages : null} />
+                </div>
+              )}
+
+              {/* Edit History */}
+              {historyId !== null && (
+                <div className="p-4 border-b border-slate-300/50">
+                  <MessageHistory messageId={historyId} loadHistory={loadHistory} onClose={() => setHistoryId(null)} />
+                </div>
+              )}
+
+              {/* Privacy Mode */}
+              {showPrivacy && (
+                <div className="p-4 border-b border-slate-300/50 space-y-3">
+                  <label className="flex items-start gap-3 text-sm text-slate-700 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      className="mt-0.5"
+                      checked={privacyMode}
+                      onChange={(e) => setPrivacyMode(e.target.checked)}
+                    />
+                    <span>
+                      <span className="font-medium">Uniform on-chain shape.</span> Messages are padded to the sizes
+                      below, and auto-responses are stored like your own messages with the same size, so observers
+                      can&apos;t tell their length or which ones are responses. Padding costs more gas.
+                    </span>
+                  </label>
+                  {bucketCostError ? (
+                    <p className="text-sm text-red-600">{bucketCostError}</p>
+                  ) : !bucketCosts ? (
+                    <p className="text-sm text-slate-500">Estimating gas...</p>
+                  ) : bucketCosts.length === 0 ? (
+                    <p className="text-sm text-slate-500">Gas costs are only available on-chain.</p>
+                  ) : (
+                    <div className="grid gap-1 grid-cols-2 md:grid-cols-4 text-xs">
+                      {bucketCosts.map((cost) => (
+                        <div
+                          key={cost.size}
+                          className={`px-3 py-2 rounded-lg border ${
+                            privacyMode && contentBytes === cost.size
+                              ? "border-sky-400 bg-sky-50/80"
+                              : "border-slate-200 bg-white/60"
+                          }`}
+                        >
+                          <div className="font-medium text-slate-700">{cost.size.toLocaleString()} bytes</div>
+                          <div className="text-slate-500">{cost.gas.toLocaleString()} gas</div>
+                          {cost.fee !== null && <div className="text-slate-500">{formatEther(cost.fee)} ETH</div>}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  {bucketCosts && bucketCosts.length > 0 && (
+                    <p className="text-xs text-slate-500">
+                      Per stored message at current fees. In private shape mode a send stores two messages of the
+                      same size.
+                    </p>
+                  )}
+                </div>
+              )}
+
+              {openGrant ? (
+                <GrantView openGrant={openGrant} onClose={closeGrant} />
+              ) : sharedVault ? (
+                <SharedVaultView vault={sharedVault} onClose={closeSharedVault} />
+              ) : currentChannel ? (
+                <ChannelFeed
+                  channel={currentChannel}
+                  subscribers={channels.subscribers}
+                  requests={channels.requests}
+                  posts={channels.posts}
+                  hasOlderPosts={channels.hasOlderPosts}
+                  loadingOlder={channels.loadingOlder}
+                  loading={channels.loading}
+                  onLoadOlder={channels.loadOlderPosts}
+                  onDecrypt={channels.decryptChannels}
+                  onPublish={channels.publishPost}
+                  onApprove={channels.approveRequests}
+                  onReject={channels.rejectRequests}
+                  onRemove={channels.removeSubscriber}
+                  onRotateKey={channels.rotateChannelKey}
+                  onRename={channels.renameChannel}
+                  onUnsubscribe={channels.unsubscribe}
+                  onClose={closeChannel}
+                />
+              ) : currentGroup && address ? (
+                <GroupConversation
+                  group={currentGroup}
+                  members={groups.members}
+                  address={address}
+                  messages={groups.groupMessages}
+                  hasOlderMessages={groups.hasOlderGroupMessages}
+                  loadingOlder={groups.loadingOlder}
+                  loading={groups.loading}
+                  onLoadOlder={groups.loadOlderGroupMessages}
+                  onDecrypt={groups.decryptGroups}
+                  onSend={groups.sendGroupMessage}
+                  onInvite={groups.inviteMembers}
+                  onRemove={groups.removeMember}
+                  onSetAdmin={groups.setMemberAdmin}
+                  onRotateKey={groups.rotateGroupKey}
+                  onRename={groups.renameGroup}
+                  onLeave={groups.leaveGroup}
+                  onClose={closeGroup}
+                />
+              ) : activeConversation && address ? (
+                <DirectConversation
+                  peer={activeConversation}
+                  address={address}
+                  messages={direct.directMessages}
+                  hasOlderMessages={direct.hasOlderDirectMessages}
+                  loadingOlder={direct.loadingOlder}
+                  loading={direct.loading}
+                  onLoadOlder={direct.loadOlderDirectMessages}
+                  onDecrypt={direct.decryptDirectMessages}
+                  onSend={direct.sendDirectMessage}
+                  onClose={closeConversation}
+                />
+              ) : (
+                <>
+                  {/* Messages Area */}
+                  <div
+                    ref={messagesContainerRef}
+                    onScroll={handleMessagesScroll}
+                    className="flex-1 overflow-y-auto p-4 space-y-4"
+                  >
+                    {messages.length === 0 ? (
+                      <div className="h-full flex items-center justify-center">
+                        <div className="text-center space-y-4">
+                          <div className="w-20 h-20 mx-auto glass-card rounded-2xl flex items-center justify-center shadow-sm">
+                            <MessageSquare className="w-10 h-10 text-slate-400" />
+                          </div>
+                          <div>
+                            <p className="text-slate-600 font-medium">No messages yet</p>
+                            <p className="text-sm text-slate-500">
+                              Send your first encrypted message below
+                            </p>
+                          </div>
+                          <ChevronDown className="w-6 h-6 text-slate-400 mx-auto animate-bounce" />
+                        </div>
+                      </div>
+                    ) : (
+                      <>
+                        {/* Older Messages & Refresh Buttons */}
+                        <div className="flex justify-center gap-2">
+                          {hasOlderMessages && (
+                            <button
+                              onClick={handleLoadOlder}
+                              disabled={loadingOlder}
+                              className="px-4 py-2 text-sm text-slate-500 hover:text-slate-700 transition-colors flex items-center gap-2 glass-card rounded-full"
+                            >
+                              {loadingOlder ? (
+                                <RefreshCw className="w-4 h-4 animate-spin" />
+                              ) : (
+                                <ChevronUp className="w-4 h-4" />
+                              )}
+                              {loadingOlder ? "Loading older messages..." : `${olderMessageCount} older messages`}
+                            </button>
+                          )}
+                          <button
+                            onClick={loadMessages}
+                            disabled={loading}
+                            className="px-4 py-2 text-sm text-slate-500 hover:text-slate-700 transition-colors flex items-center gap-2 glass-card rounded-full"
+                          >
+                            <RefreshCw className={`w-4 h-4 ${loading ? "animate-spin" : ""}`} />
+                            Refresh Messages
+                          </button>
+                        </div>
+
+                        {/* Label Filter */}
+                        {allLabels.length > 0 && (
+                          <div className="flex flex-wrap items-center justify-center gap-1.5 text-xs">
+                            <Tag className="w-3.5 h-3.5 text-slate-400" />
+                            {allLabels.map((label) => (
                               <button
-                                onClick={() => handleCopyContent(msg.id, msg.decryptedText || "")}
-                                className="opacity-0 group-hover:opacity-100 transition-opacity p-1 hover:bg-black/5 rounded"
-                                title="Copy message"
+                                key={label}
+                                onClick={() => setLabelFilter(labelFilter === label ? null : label)}
+                                className={`px-2 py-0.5 rounded-full transition-colors ${
+                                  labelFilter === label
+                                    ? "bg-sky-500 text-white"
+                                    : "glass-card text-slate-600 hover:text-slate-800"
+                                }`}
                               >
-                                {copiedId === msg.id ? (
-                                  <Check className="w-3.5 h-3.5 text-green-600" />
-                                ) : (
-                                  <Copy className={`w-3.5 h-3.5 ${msg.isResponse ? "text-slate-500" : "text-white/70"}`} />
-                                )}
+                                {label}
                               </button>
-                            </div>
-                          ) : (
-                            <div className="flex items-center gap-2 encrypted-content p-2 rounded-lg">
-                              <Lock className="w-3.5 h-3.5 text-sky-500 flex-shrink-0" />
-                              <p className="font-mono text-xs text-sky-600/80 break-all flex-1">
-                                {truncateHex(msg.encryptedContent)}
-                              </p>
+                            ))}
+                            {labelFilter && (
+                              <span className="w-full text-center text-slate-500">
+                                {visibleMessages.length} of {messages.length} loaded messages labeled &quot;{labelFilter}&quot;
+                                {hasOlderMessages && ", load older messages to search further back"}
+                              </span>
+                            )}
+                          </div>
+                        )}
+
+                        {/* Encrypted Flags */}
+                        {messageFlags.available && (
+                          <div className="flex flex-wrap items-center justify-center gap-1.5 text-xs">
+                            <Flag className="w-3.5 h-3.5 text-slate-400" />
+                            {messageFlags.revealed ? (
+                              <>
+                                <button
+                                  onClick={() => setStarredOnly(!starredOnly)}
+                                  className={`px-2 py-0.5 rounded-full flex items-center gap-1 transition-colors ${
+                                    starredOnly ? "bg-sky-500 text-white" : "glass-card text-slate-600 hover:text-slate-800"
+                                  }`}
+                                >
+                                  <Star className="w-3 h-3" />
+                                  Starred
+                                </button>
+                                <button
+                                  onClick={() => handleFlagChange(() => messageFlags.setRead(unreadIds, true))}
+                                  disabled={unreadIds.length === 0 || messageFlags.loading}
+                                  className="px-2 py-0.5 rounded-full glass-card text-slate-600 hover:text-slate-800 disabled:opacity-50"
+                                >
+                                  {unreadIds.length > 0 ? `Mark ${unreadIds.length} unread as read` : "All read"}
+                                </button>
+                              </>
+                            ) : (
                               <button
-                                onClick={() => handleCopyContent(msg.id, msg.encryptedContent)}
-                                className="opacity-60 hover:opacity-100 transition-opacity p-1 hover:bg-black/5 rounded flex-shrink-0"
-                                title="Copy encrypted content"
+                                onClick={() => handleFlagChange(messageFlags.decryptFlags)}
+                                disabled={messageFlags.decrypting || messageFlags.fhevmStatus !== "ready"}
+                                className="px-2 py-0.5 rounded-full glass-card text-slate-600 hover:text-slate-800 disabled:opacity-50"
+                                title="Read, starred and priority flags are FHE-encrypted on chain; decrypting asks for a signature"
                               >
-                                {copiedId === msg.id ? (
-                                  <Check className="w-3.5 h-3.5 text-green-600" />
+                                {messageFlags.fhevmStatus !== "ready"
+                                  ? "Loading FHEVM..."
+                                  : messageFlags.decrypting
+                                    ? "Decrypting flags..."
+                                    : "Decrypt flags"}
+                              </button>
+                            )}
+                          </div>
+                        )}
+
+                        {/* Message List */}
+                        {visibleMessages.map((msg) => (
+                          <div
+                            key={msg.id}
+                            className={`flex group ${msg.isResponse ? "justify-start" : "justify-end"}`}
+                          >
+                            <div
+                              className={`max-w-[80%] ${
+                                msg.isResponse ? "message-system" : "message-user"
+                              } px-5 py-3 ${!msg.decryptedText && !msg.deleted ? "scan-line" : ""}`}
+                            >
+                              {/* Message Content */}
+                              <div className="space-y-2">
+                                {msg.deleted ? (
+                                  <div className="flex items-center gap-2 p-2 rounded-lg bg-black/5">
+                                    <Trash2
+                                      className={`w-3.5 h-3.5 flex-shrink-0 ${msg.isResponse ? "text-slate-400" : "text-white/70"}`}
+                                    />
+                                    <p className={`text-xs italic ${msg.isResponse ? "text-slate-500" : "text-white/80"}`}>
+                                      This message was deleted
+                                    </p>
+                                  </div>
+                                ) : msg.decryptedText ? (
+                                  <div className="flex items-start gap-2">
+                                    <p className={`text-sm flex-1 ${msg.isResponse ? "text-slate-700" : "text-white"}`}>
+                                      {msg.decryptedText}
+                                    </p>
+                                    <button
+                                      onClick={() => handleCopyContent(msg.id, msg.decryptedText || "")}
+                                      className="opacity-0 group-hover:opacity-100 transition-opacity p-1 hover:bg-black/5 rounded"
+                                      title="Copy message"
+                                    >
+                                      {copiedId === msg.id ? (
+                                        <Check className="w-3.5 h-3.5 text-green-600" />
+                                      ) : (
+                                        <Copy className={`w-3.5 h-3.5 ${msg.isResponse ? "text-slate-500" : "text-white/70"}`} />
+                                      )}
+                                    </button>
+                                  </div>
+                                ) : msg.tampered ? (
+                                  <div className="flex items-start gap-2 p-2 rounded-lg bg-red-100/80 border border-red-300/50">
+                                    <ShieldAlert className="w-3.5 h-3.5 text-red-600 flex-shrink-0 mt-0.5" />
+                                    <p className="text-xs text-red-600 flex-1">
+                                      Tampered or relocated: this ciphertext was written for another vault, chain or
+                                      position and is not shown.
+                                    </p>
+                                  </div>
                                 ) : (
-                                  <Copy className="w-3.5 h-3.5 text-sky-500" />
+                                  <div className="flex items-center gap-2 encrypted-content p-2 rounded-lg">
+                                    <Lock className="w-3.5 h-3.5 text-sky-500 flex-shrink-0" />
+                                    <p className="font-mono text-xs text-sky-600/80 break-all flex-1">
+                                      {truncateHex(msg.encryptedContent)}
+                                    </p>
+                                    <button
+                                      onClick={() => handleCopyContent(msg.id, msg.encryptedContent)}
+                                      className="opacity-60 hover:opacity-100 transition-opacity p-1 hover:bg-black/5 rounded flex-shrink-0"
+                                      title="Copy encrypted content"
+                                    >
+                                      {copiedId === msg.id ? (
+                                        <Check className="w-3.5 h-3.5 text-green-600" />
+                                      ) : (
+                                        <Copy className="w-3.5 h-3.5 text-sky-500" />
+                                      )}
+                                    </button>
+                                  </div>
                                 )}
-                              </button>
-                            </div>
-                          )}
 
-                          {/* Message Footer */}
-                          <div className={`flex items-center gap-2 text-xs ${
-                            msg.isResponse ? "text-slate-500" : "text-white/80"
-                          }`}>
-                            <span className="font-medium">{msg.isResponse ? "System" : "You"}</span>
-                            <span>·</span>
-                            <span>{formatTime(msg.timestamp)}</span>
-                            {msg.decryptedText && (
-                              <>
-                                <span>·</span>
-                                <span className="text-green-600 flex items-center gap-1">
-                                  <ShieldCheck className="w-3 h-3" />
-                                  Decrypted
-                                </span>
-                              </>
-                            )}
+                                {/* Labels */}
+                                {labelingId === msg.id ? (
+                                  <div className="space-y-1">
+                                    <div className="flex items-center gap-1">
+                                      <input
+                                        type="text"
+                                        value={labelInput}
+                                        onChange={(e) => setLabelInput(e.target.value)}
+                                        onKeyDown={(e) => {
+                                          if (e.key === "Enter") handleSaveLabels();
+                                          if (e.key === "Escape") setLabelingId(null);
+                                        }}
+                                        placeholder={`Up to ${MAX_LABELS} labels, comma-separated`}
+                                        className="flex-1 px-2 py-1 text-xs rounded-lg bg-white/90 text-slate-700 border border-slate-300/50 focus:outline-none focus:border-sky-400"
+                                        autoFocus
+                                      />
+                                      <button
+                                        onClick={handleSaveLabels}
+                                        disabled={loading}
+                                        className="p-1 hover:bg-black/5 rounded"
+                                        title="Save labels"
+                                      >
+                                        <Check className="w-3.5 h-3.5" />
+                                      </button>
+                                      <button
+                                        onClick={() => setLabelingId(null)}
+                                        className="p-1 hover:bg-black/5 rounded"
+                                        title="Cancel"
+                                      >
+                                        <X className="w-3.5 h-3.5" />
+                                      </button>
+                                    </div>
+                                    {labelError && <p className="text-xs text-red-600">{labelError}</p>}
+                                  </div>
+                                ) : msg.labels ? (
+                                  <div className="flex flex-wrap gap-1">
+                                    {msg.labels.map((label) => (
+                                      <button
+                                        key={label}
+                                        onClick={() => setLabelFilter(label)}
+                                        className={`px-2 py-0.5 rounded-full text-xs ${
+                                          msg.isResponse ? "bg-sky-100 text-sky-700" : "bg-white/20 text-white"
+                                        }`}
+                                        title={`Show messages labeled "${label}"`}
+                                      >
+                                        {label}
+                                      </button>
+                                    ))}
+                                  </div>
+                                ) : null}
+
+                                {/* Message Footer */}
+                                <div className={`flex items-center gap-2 text-xs ${
+                                  msg.isResponse ? "text-slate-500" : "text-white/80"
+                                }`}>
+                                  <span className="font-medium">{msg.isResponse ? "System" : "You"}</span>
+                                  <span>·</span>
+                                  <span>{formatTime(msg.timestamp)}</span>
+                                  {msg.tampered && (
+                                    <>
+                                      <span>·</span>
+                                      <span className="text-red-600 flex items-center gap-1">
+                                        <ShieldAlert className="w-3 h-3" />
+                                        Tampered
+                                      </span>
+                                    </>
+                                  )}
+                                  {msg.decryptedText && (
+                                    <>
+                                      <span>·</span>
+                                      <span className="text-green-600 flex items-center gap-1">
+                                        <ShieldCheck className="w-3 h-3" />
+                                        Decrypted
+                                      </span>
+                                    </>
+                                  )}
+                                  {!!msg.revisionCount && !msg.deleted && (
+                                    <>
+                                      <span>·</span>
+                                      <button
+                                        onClick={() => setHistoryId(msg.id)}
+                                        className="flex items-center gap-1 hover:underline"
+                                        title={`${msg.revisionCount} earlier revision${msg.revisionCount === 1 ? "" : "s"}, click to view`}
+                                      >
+                                        <History className="w-3 h-3" />
+                                        Edited
+                                      </button>
+                                    </>
+                                  )}
+                                  {flags[msg.id] && !msg.deleted && (
+                                    <>
+                                      {!flags[msg.id].read && (
+                                        <>
+                                          <span>·</span>
+                                          <span className="font-semibold">Unread</span>
+                                        </>
+                                      )}
+                                      {flags[msg.id].starred && <Star className="w-3 h-3 fill-current" />}
+                                      {flags[msg.id].priority > 0 && (
+                                        <span className="flex items-center gap-0.5" title={`Priority ${flags[msg.id].priority}`}>
+                                          <Flag className="w-3 h-3" />
+                                          P{flags[msg.id].priority}
+                                        </span>
+                                      )}
+                                    </>
+                                  )}
+                                  {!msg.deleted && (
+                                    <span className="ml-auto flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                                      {flags[msg.id] && (
+                                        <>
+                                          <button
+                                            onClick={() =>
+                                              handleFlagChange(() => messageFlags.setRead([msg.id], !flags[msg.id].read))
+                                            }
+                                            disabled={messageFlags.loading}
+                                            className="p-1 hover:bg-black/5 rounded"
+                                            title={flags[msg.id].read ? "Mark unread" : "Mark read"}
+                                          >
+                                            {flags[msg.id].read ? <EyeOff className="w-3 h-3" /> : <Eye className="w-3 h-3" />}
+                                          </button>
+                                          <button
+                                            onClick={() =>
+                                              handleFlagChange(() => messageFlags.setStarred(msg.id, !flags[msg.id].starred))
+                                            }
+                                            disabled={messageFlags.loading}
+                                            className="p-1 hover:bg-black/5 rounded"
+                                            title={flags[msg.id].starred ? "Unstar" : "Star"}
+                                          >
+                                            <Star className={`w-3 h-3 ${flags[msg.id].starred ? "fill-current" : ""}`} />
+                                          </button>
+                                          <button
+                                            onClick={() =>
+                                              handleFlagChange(() =>
+                                                messageFlags.setPriority(msg.id, (flags[msg.id].priority + 1) % (MAX_PRIORITY + 1))
+                                              )
+                                            }
+                                            disabled={messageFlags.loading}
+                                            className="p-1 hover:bg-black/5 rounded"
+                                            title={`Priority ${flags[msg.id].priority} of ${MAX_PRIORITY}, click to cycle`}
+                                          >
+                                            <Flag className="w-3 h-3" />
+                                          </button>
+                                        </>
+                                      )}
+                                      {!msg.isResponse && msg.decryptedText && !msg.tampered && (
+                                        <button
+                                          onClick={() => startEdit(msg.id, msg.decryptedText || "")}
+                                          disabled={loading}
+                                          className="p-1 hover:bg-black/5 rounded"
+                                          title="Edit message"
+                                        >
+                                          <Pencil className="w-3 h-3" />
+                                        </button>
+                                      )}
+                                      {(msg.decryptedText || msg.labels) && !msg.tampered && (
+                                        <button
+                                          onClick={() => startLabeling(msg.id, msg.labels)}
+                                          disabled={loading}
+                                          className="p-1 hover:bg-black/5 rounded"
+                                          title="Edit labels"
+                                        >
+                                          <Tag className="w-3 h-3" />
+                                        </button>
+                                      )}
+                                      <button
+                                        onClick={() => handleDelete(msg.id)}
+                                        disabled={loading}
+                                        className="p-1 hover:bg-black/5 rounded"
+                                        title="Delete message"
+                                      >
+                                        <Trash2 className="w-3 h-3" />
+                                      </button>
+                                    </span>
+                                  )}
+                                </div>
+                              </div>
+                            </div>
                           </div>
+                        ))}
+                        <div ref={messagesEndRef} />
+                      </>
+                    )}
+                  </div>
+
+                  {/* Input Area */}
+                  <div className="p-4 border-t border-slate-300/50 glass">
+                    {currentThread?.archived && (
+                      <p className="mb-2 text-xs text-slate-500">This thread is archived. Restore it to write to it.</p>
+                    )}
+                    {editingId !== null && (
+                      <div className="mb-2 flex items-center justify-between text-xs text-slate-500">
+                        <span className="flex items-center gap-1">
+                          <Pencil className="w-3 h-3 text-sky-500" />
+                          Editing message #{editingId}. The current text is kept in its edit history.
+                        </span>
+                        <button onClick={cancelEdit} className="p-1 hover:text-slate-700" title="Cancel edit">
+                          <X className="w-3.5 h-3.5" />
+                        </button>
+                      </div>
+                    )}
+                    <div className="flex items-center gap-3">
+                      <div className="flex-1 relative">
+                        <input
+                          type="text"
+                          placeholder={editingId !== null ? "Edit your message..." : "Type your encrypted message..."}
+                          className="w-full px-5 py-4 bg-white/80 border border-slate-300 rounded-2xl text-slate-700 placeholder:text-slate-400 focus:outline-none focus:border-sky-400 input-cyber transition-all pr-12"
+                          value={messageInput}
+                          onChange={(e) => setMessageInput(e.target.value)}
+                          onKeyDown={(e) => {
+                            if (e.key === "Enter" && !e.shiftKey) handleSend();
+                            if (e.key === "Escape" && editingId !== null) cancelEdit();
+                          }}
+                          disabled={loading || !!currentThread?.archived}
+                        />
+                        <div className="absolute right-4 top-1/2 -translate-y-1/2">
+                          <Lock className="w-4 h-4 text-sky-400/70" />
                         </div>
                       </div>
+                      <button
+                        onClick={handleSend}
+                        disabled={loading || isSending || !messageInput.trim() || !!currentThread?.archived}
+                        className="p-4 bg-gradient-to-r from-sky-400 to-blue-500 hover:from-sky-300 hover:to-blue-400 disabled:opacity-50 disabled:cursor-not-allowed rounded-2xl text-white transition-all glow-cyan btn-cyber shadow-md"
+                      >
+                        {(loading || isSending) ? (
+                          <div className="w-6 h-6 border-2 border-white/30 border-t-white rounded-full animate-spin" />
+                        ) : (
+                          <Send className="w-6 h-6" />
+                        )}
+                      </button>
                     </div>
-                  ))}
-                  <div ref={messagesEndRef} />
-                </>
-              )}
-            </div>
 
-            {/* Input Area */}
-            <div className="p-4 border-t border-slate-300/50 glass">
-              <div className="flex items-center gap-3">
-                <div className="flex-1 relative">
-                  <input
-                    type="text"
-                    placeholder="Type your encrypted message..."
-                    className="w-full px-5 py-4 bg-white/80 border border-slate-300 rounded-2xl text-slate-700 placeholder:text-slate-400 focus:outline-none focus:border-sky-400 input-cyber transition-all pr-12"
-                    value={messageInput}
-                    onChange={(e) => setMessageInput(e.target.value)}
-                    onKeyDown={(e) => e.key === "Enter" && !e.shiftKey && handleSend()}
-                    disabled={loading}
-                  />
-                  <div className="absolute right-4 top-1/2 -translate-y-1/2">
-                    <Lock className="w-4 h-4 text-sky-400/70" />
-                  </div>
-                </div>
-                <button
-                  onClick={handleSend}
-                  disabled={loading || isSending || !messageInput.trim()}
-                  className="p-4 bg-gradient-to-r from-sky-400 to-blue-500 hover:from-sky-300 hover:to-blue-400 disabled:opacity-50 disabled:cursor-not-allowed rounded-2xl text-white transition-all glow-cyan btn-cyber shadow-md"
-                >
-                  {(loading || isSending) ? (
-                    <div className="w-6 h-6 border-2 border-white/30 border-t-white rounded-full animate-spin" />
-                  ) : (
-                    <Send className="w-6 h-6" />
-                  )}
-                </button>
-              </div>
-
-              {/* Status Bar */}
-              <div className="mt-3 flex items-center justify-between text-xs text-slate-500">
-                <div className="flex items-center gap-2">
-                  <div className="w-2 h-2 bg-green-500 rounded-full animate-pulse" />
-                  <span>Connected: {address?.slice(0, 6)}...{address?.slice(-4)}</span>
-                </div>
-                <div className="flex items-center gap-4">
-                  <span className={messageInput.length > MAX_MESSAGE_LENGTH ? "text-red-500" : ""}>
-                    {messageInput.length}/{MAX_MESSAGE_LENGTH}
-                  </span>
-                  <div className="flex items-center gap-1.5 px-2 py-1 bg-sky-100/80 rounded-full">
-                    <Shield className="w-3 h-3 text-sky-500" />
-                    <span className="text-sky-600">E2E Encrypted</span>
+                    {/* Status Bar */}
+                    <div className="mt-3 flex items-center justify-between text-xs text-slate-500">
+                      <div className="flex items-center gap-2">
+                        <div className="w-2 h-2 bg-green-500 rounded-full animate-pulse" />
+                        <span>Connected: {address?.slice(0, 6)}...{address?.slice(-4)}</span>
+                      </div>
+                      <div className="flex items-center gap-4">
+                        <span
+                          className={contentBytes > MAX_CONTENT_BYTES ? "text-red-500" : ""}
+                          title={
+                            privacyMode
+                              ? "Padded size stored on-chain for this message and its response"
+                              : "Stored size after compression and encryption"
+                          }
+                        >
+                          {privacyMode && contentBytes > 0 && <span>Bucket </span>}
+                          {contentBytes.toLocaleString()}/{MAX_CONTENT_BYTES.toLocaleString()} bytes
+                        </span>
+                        {relayerAvailable && (
+                          <button
+                            onClick={() => setRelayEnabled(!relayEnabled)}
+                            className={`flex items-center gap-1.5 px-2 py-1 rounded-full transition-all ${
+                              relayEnabled ? "bg-green-100/80 text-green-600" : "bg-slate-100/80 text-slate-500"
+                            }`}
+                            title={
+                              relayEnabled
+                                ? "You sign each send and the relayer pays the gas. Click to send your own transactions."
+                                : "You send and pay for your own transactions. Click to send through the relayer."
+                            }
+                          >
+                            <Fuel className="w-3 h-3" />
+                            <span>{relayEnabled ? "Gasless" : "Direct"}</span>
+                          </button>
+                        )}
+                        <div className="flex items-center gap-1.5 px-2 py-1 bg-sky-100/80 rounded-full">
+                          <Shield className="w-3 h-3 text-sky-500" />
+                          <span className="text-sky-600">E2E Encrypted</span>
+                        </div>
+                      </div>
+                    </div>
                   </div>
-                </div>
-              </div>
+                </>
+              )}
             </div>
           </div>
         )}
@@ -0,0 +1,102 @@
+/**
+ * Broadcast channels (ChannelRegistry)
+ *
+ * Like a group (see crypto/groups.ts), every channel has a random AES-256 channel key per epoch,
+ * wrapped by the publisher to its own WhisperVault messaging key and to each approved subscriber's.
+ * Approving or removing a subscriber starts a new epoch with a new key, so a removed subscriber
+ * can't read later posts. Only the publisher posts, so a post isn't bound to a sender.
+ *
+ * Post or name: GROUP_VERSION (1) | IV (12) | ciphertext, with associated data under their own
+ * tags, so nothing moves between a group and a channel or from one epoch to another.
+ */
+
+import { AbiCoder, getBytes } from "ethers";
+import { X25519KeyPair, open, seal } from "./ecies";
+import { GroupContext, GroupMemberKey, decryptWithGroupKey, encryptWithGroupKey, generateGroupKey } from "./groups";
+import { Bytes } from "./kdf";
+
+export const MAX_CHANNEL_NAME_LENGTH = 64;
+
+const CHANNEL_KEY_LENGTH = 32;
+const WRAP_INFO = "whisperlink-channel-key-v1";
+const KEY_TAG = "whisperlink-channel-key-v1";
+const POST_TAG = "whisperlink-channel-post-v1";
+const NAME_TAG = "whisperlink-channel-name-v1";
+
+/**
+ * Where a channel key, name or post belongs: the chain, ChannelRegistry and key epoch
+ */
+export type ChannelContext = GroupContext;
+
+function encodeAssociatedData(tag: string, context: ChannelContext, account?: string): Bytes {
+  const types = ["string", "uint256", "address", "uint256"];
+  const values: (string | number)[] = [tag, context.chainId, context.registry, context.epoch];
+  if (account) {
+    types.push("address");
+    values.push(account);
+  }
+  return new Uint8Array(getBytes(AbiCoder.defaultAbiCoder().encode(types, values)));
+}
+
+/**
+ * A new random channel key
+ */
+export const generateChannelKey = generateGroupKey;
+
+/**
+ * Wrap a channel key to the publisher and every subscriber, in the order the registry expects
+ * @returns The wrapped keys (0x hex)
+ */
+export function wrapChannelKey(channelKey: Bytes, readers: GroupMemberKey[], context: ChannelContext): Promise<string[]> {
+  return Promise.all(
+    readers.map((reader) =>
+      seal(channelKey, reader.messagingKey, encodeAssociatedData(KEY_TAG, context, reader.address), WRAP_INFO)
+    )
+  );
+}
+
+/**
+ * Unwrap the channel key of an epoch with the reader's messaging key pair
+ * @returns The channel key, or null if it isn't wrapped to this key pair
+ */
+export async function unwrapChannelKey(
+  wrappedHex: string,
+  keyPair: X25519KeyPair,
+  reader: string,
+  context: ChannelContext
+): Promise<Bytes | null> {
+  const channelKey = await open(wrappedHex, keyPair, encodeAssociatedData(KEY_TAG, context, reader), WRAP_INFO);
+  return channelKey?.length === CHANNEL_KEY_LENGTH ? channelKey : null;
+}
+
+/**
+ * Encrypt a post with the channel key of the current epoch
+ * @returns The post (0x hex)
+ */
+export function encryptChannelPost(text: string, channelKey: Bytes, context: ChannelContext): Promise<string> {
+  return encryptWithGroupKey(text, channelKey, encodeAssociatedData(POST_TAG, context));
+}
+
+/**
+ * Decrypt a post with the channel key of its epoch
+ * @returns The text, or null if the key or epoch is wrong
+ */
+export function decryptChannelPost(encryptedHex: string, channelKey: Bytes, context: ChannelContext): Promise<string | null> {
+  return decryptWithGroupKey(encryptedHex, channelKey, encodeAssociatedData(POST_TAG, context));
+}
+
+/**
+ * Encrypt a channel's name with the channel key of the current epoch
+ * @returns The encrypted name (0x hex)
+ */
+export function encryptChannelName(name: string, channelKey: Bytes, context: ChannelContext): Promise<string> {
+  return encryptWithGroupKey(name, channelKey, encodeAssociatedData(NAME_TAG, context));
+}
+
+/**
+ * Decrypt a channel's name
+ * @returns The name, or null if the key or epoch is wrong
+ */
+export function decryptChannelName(encryptedHex: string, channelKey: Bytes, context: ChannelContext): Promise<string | null> {
+  return decryptWithGroupKey(encryptedHex, channelKey, encodeAssociatedData(NAME_TAG, context));
+}
@@ -0,0 +1,84 @@
+/**
+ * Plaintext compression for envelopes
+ *
+ * Uses the native CompressionStream ("deflate", zlib format) where available and the
+ * pure JS implementation from fflate elsewhere (older browsers, Node runtimes used by
+ * the hardhat tasks). Both read and write the same format.
+ */
+
+import { Unzlib, zlibSync } from "fflate";
+import type { Bytes } from "./kdf";
+
+// Upper bound for decompressed plaintext, guards against decompression bombs
+export const MAX_DECOMPRESSED_BYTES = 1024 * 1024;
+
+function hasCompressionStreams(): boolean {
+  return typeof CompressionStream !== "undefined" && typeof DecompressionStream !== "undefined";
+}
+
+function concat(chunks: Uint8Array[], length: number): Bytes {
+  const out = new Uint8Array(length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return out;
+}
+
+async function readLimited(stream: ReadableStream<Uint8Array>, limit: number): Promise<Bytes> {
+  const reader = stream.getReader();
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    length += value.length;
+    if (length > limit) {
+      await reader.cancel();
+      throw new Error("Decompressed message too large");
+    }
+    chunks.push(value);
+  }
+  return concat(chunks, length);
+}
+
+/**
+ * Run bytes through a (de)compression stream. Write errors surface on the readable side.
+ */
+function pipe(data: Bytes, stream: CompressionStream | DecompressionStream, limit: number): Promise<Bytes> {
+  const writer = stream.writable.getWriter();
+  writer.write(data).catch(() => {});
+  writer.close().catch(() => {});
+  return readLimited(stream.readable, limit);
+}
+
+/**
+ * Compress bytes with deflate (zlib format)
+ */
+export async function compress(data: Bytes): Promise<Bytes> {
+  if (hasCompressionStreams()) {
+    return pipe(data, new CompressionStream("deflate"), Infinity);
+  }
+  return new Uint8Array(zlibSync(data));
+}
+
+/**
+ * Decompress deflate (zlib format) bytes, refusing output over MAX_DECOMPRESSED_BYTES
+ */
+export async function decompress(data: Bytes): Promise<Bytes> {
+  if (hasCompressionStreams()) {
+    return pipe(data, new DecompressionStream("deflate"), MAX_DECOMPRESSED_BYTES);
+  }
+
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  const inflater = new Unzlib((chunk) => {
+    length += chunk.length;
+    if (length > MAX_DECOMPRESSED_BYTES) throw new Error("Decompressed message too large");
+    chunks.push(chunk);
+  });
+  inflater.push(data, true);
+  return concat(chunks, length);
+}
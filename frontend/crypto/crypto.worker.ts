@@ -0,0 +1,31 @@
+/// <reference lib="webworker" />
+
+/**
+ * Crypto worker: runs envelope compression and AES-GCM encryption/decryption off the main thread.
+ * Keys are derived once on the main thread and posted here as non-extractable CryptoKeys.
+ */
+
+import { encryptWithKey, openEnvelope } from "./envelope";
+import type { CryptoJob, CryptoJobResult } from "./workerPool";
+
+declare const self: DedicatedWorkerGlobalScope;
+
+self.onmessage = async (event: MessageEvent<CryptoJob>) => {
+  const job = event.data;
+  let reply: CryptoJobResult;
+
+  try {
+    const result =
+      job.type === "encrypt"
+        ? await encryptWithKey(job.text, job.key, job.params, job.options)
+        : await openEnvelope(job.encryptedHex, job.keys, job.context);
+    reply = { id: job.id, ok: true, result };
+  } catch (err) {
+    reply =
+      err instanceof Error
+        ? { id: job.id, ok: false, error: err.message, name: err.name }
+        : { id: job.id, ok: false, error: String(err), name: "Error" };
+  }
+
+  self.postMessage(reply);
+};
@@ -0,0 +1,106 @@
+// @vitest-environment node
+import { describe, expect, it } from "vitest";
+import {
+  DirectMessageContext,
+  decodePlaintext,
+  decryptDirectMessage,
+  deriveMessagingKeyPair,
+  encodePlaintext,
+  encryptDirectMessage,
+} from "./direct";
+import { bytesToHex, hexToBytes } from "./envelope";
+
+const context: DirectMessageContext = {
+  sender: "0x" + "a1".repeat(20),
+  recipient: "0x" + "b2".repeat(20),
+  chainId: 31337,
+  vault: "0x" + "c3".repeat(20),
+};
+
+// Messaging key pairs of the sender, the recipient and a third account
+async function deriveKeyPairs() {
+  const [sender, recipient, outsider] = await Promise.all(
+    ["1b", "2c", "3d"].map((byte) => deriveMessagingKeyPair("0x" + byte.repeat(65)))
+  );
+  return { sender, recipient, outsider };
+}
+
+describe("direct", () => {
+  it("lets both the sender and the recipient read a message", async () => {
+    const { sender, recipient } = await deriveKeyPairs();
+    const encrypted = await encryptDirectMessage(
+      "Hello, Bob",
+      context,
+      "0x" + bytesToHex(sender.publicKey),
+      "0x" + bytesToHex(recipient.publicKey)
+    );
+
+    expect(await decryptDirectMessage(encrypted, sender, context)).toBe("Hello, Bob");
+    expect(await decryptDirectMessage(encrypted, recipient, context)).toBe("Hello, Bob");
+  });
+
+  it("opens nothing for a third account", async () => {
+    const { sender, recipient, outsider } = await deriveKeyPairs();
+    const encrypted = await encryptDirectMessage(
+      "Not for you",
+      context,
+      "0x" + bytesToHex(sender.publicKey),
+      "0x" + bytesToHex(recipient.publicKey)
+    );
+    expect(await decryptDirectMessage(encrypted, outsider, context)).toBeNull();
+  });
+
+  it("opens nothing in another context", async () => {
+    const { sender, recipient } = await deriveKeyPairs();
+    const encrypted = await encryptDirectMessage(
+      "Bound",
+      context,
+      "0x" + bytesToHex(sender.publicKey),
+      "0x" + bytesToHex(recipient.publicKey)
+    );
+
+    for (const other of [
+      // Passed off as coming from the recipient
+      { ...context, sender: context.recipient, recipient: context.sender },
+      { ...context, chainId: 1 },
+      { ...context, vault: "0x" + "d4".repeat(20) },
+    ]) {
+      expect(await decryptDirectMessage(encrypted, recipient, other)).toBeNull();
+    }
+  });
+
+  it("opens nothing once a byte is flipped", async () => {
+    const { sender, recipient } = await deriveKeyPairs();
+    const encrypted = hexToBytes(
+      (
+        await encryptDirectMessage(
+          "Tamper-evident",
+          context,
+          "0x" + bytesToHex(sender.publicKey),
+          "0x" + bytesToHex(recipient.publicKey)
+        )
+      ).slice(2)
+    );
+
+    // Version, the key sealed to the recipient, and the ciphertext
+    for (const index of [0, 1 + 92 + 40, encrypted.length - 1]) {
+      const tampered = encrypted.slice();
+      tampered[index] ^= 0x01;
+      expect(await decryptDirectMessage("0x" + bytesToHex(tampered), recipient, context)).toBeNull();
+    }
+  });
+
+  it("pads plaintexts to whole blocks", async () => {
+    for (const text of ["", "Hi", "x".repeat(59), "x".repeat(60), "Compressible ".repeat(100)]) {
+      const encoded = await encodePlaintext(text);
+      expect(encoded.length % 64).toBe(0);
+      expect(await decodePlaintext(encoded)).toBe(text);
+    }
+    expect((await encodePlaintext("Compressible ".repeat(100))).length).toBeLessThan(1300);
+
+    // Body length past the end of the block
+    const truncated = new Uint8Array(64);
+    new DataView(truncated.buffer).setUint32(1, 60);
+    await expect(decodePlaintext(truncated)).rejects.toThrow("bad padding");
+  });
+});
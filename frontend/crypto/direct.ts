@@ -0,0 +1,192 @@
+/**
+ * Direct messages: messages between two addresses (WhisperVault.sendDirectMessage)
+ *
+ * Every account publishes an X25519 messaging key in the vault, derived from an EIP-712
+ * signature so nobody has to store it. A direct message is encrypted with a fresh content key,
+ * and that key is sealed (see crypto/ecies.ts) both to the recipient's messaging key and to the
+ * sender's own, so both sides can read the conversation later.
+ *
+ * Direct message: DIRECT_VERSION (1) | content key sealed to the sender | content key sealed
+ * to the recipient | IV (12) | ciphertext
+ * Plaintext: flags (1) | body length (4) | body | zero padding to a multiple of BLOCK_SIZE
+ *
+ * The associated data binds a message and its sealed keys to the sender, recipient, chain and
+ * vault, so a ciphertext can't be passed off as coming from another address.
+ */
+
+import { AbiCoder, getBytes } from "ethers";
+import { compress, decompress } from "./compression";
+import { SEAL_OVERHEAD, X25519KeyPair, deriveKeyPairFromSignature, open, seal } from "./ecies";
+import { bytesToHex, hexToBytes } from "./envelope";
+import { Bytes } from "./kdf";
+
+const DIRECT_VERSION = 1;
+const CONTENT_KEY_LENGTH = 32;
+const SEALED_KEY_LENGTH = SEAL_OVERHEAD + CONTENT_KEY_LENGTH;
+const IV_LENGTH = 12;
+const PREFIX_LENGTH = 5;
+const BLOCK_SIZE = 64;
+const FLAG_COMPRESSED = 0x01;
+const SEAL_INFO = "whisperlink-direct-seal-v1";
+const KEY_PAIR_INFO = "whisperlink-messaging-key-v1";
+const MESSAGE_TAG = "whisperlink-direct-message-v1";
+
+const MESSAGING_KEY_PURPOSE =
+  "Derive your WhisperLink messaging key. Only sign this on WhisperLink; anyone with this signature can read your direct messages.";
+
+/**
+ * Where a direct message belongs: its sender and recipient, chain and WhisperVault
+ */
+export interface DirectMessageContext {
+  sender: string;
+  recipient: string;
+  chainId: number;
+  vault: string;
+}
+
+/**
+ * Build the EIP-712 payload signed to derive a messaging key pair
+ * @param chainId - Chain the vault lives on
+ * @param vaultAddress - WhisperVault contract address
+ * @param account - Signing account
+ */
+export function buildMessagingKeyTypedData(chainId: number, vaultAddress: `0x${string}`, account: `0x${string}`) {
+  return {
+    domain: {
+      name: "WhisperLink Messaging Key",
+      version: "1",
+      chainId,
+      verifyingContract: vaultAddress,
+    },
+    types: {
+      MessagingKey: [
+        { name: "account", type: "address" },
+        { name: "purpose", type: "string" },
+      ],
+    },
+    primaryType: "MessagingKey",
+    message: {
+      account,
+      purpose: MESSAGING_KEY_PURPOSE,
+    },
+  } as const;
+}
+
+/**
+ * Turn a signature of buildMessagingKeyTypedData into an X25519 key pair
+ */
+export function deriveMessagingKeyPair(signature: string): Promise<X25519KeyPair> {
+  return deriveKeyPairFromSignature(signature, KEY_PAIR_INFO);
+}
+
+function encodeAssociatedData(context: DirectMessageContext): Bytes {
+  return new Uint8Array(
+    getBytes(
+      AbiCoder.defaultAbiCoder().encode(
+        ["string", "uint256", "address", "address", "address"],
+        [MESSAGE_TAG, context.chainId, context.vault, context.sender, context.recipient]
+      )
+    )
+  );
+}
+
+/**
+ * Compress a text when that makes it smaller and pad it: flags | body length | body | padding
+ * (also used for group messages)
+ */
+export async function encodePlaintext(text: string): Promise<Bytes> {
+  const raw = new TextEncoder().encode(text);
+  const deflated = await compress(raw);
+  const compressed = deflated.length < raw.length;
+  const body = compressed ? deflated : raw;
+
+  const out = new Uint8Array(Math.ceil((PREFIX_LENGTH + body.length) / BLOCK_SIZE) * BLOCK_SIZE);
+  out[0] = compressed ? FLAG_COMPRESSED : 0;
+  new DataView(out.buffer).setUint32(1, body.length);
+  out.set(body, PREFIX_LENGTH);
+  return out;
+}
+
+export async function decodePlaintext(data: Bytes): Promise<string> {
+  const bodyLength = data.length >= PREFIX_LENGTH ? new DataView(data.buffer).getUint32(1) : -1;
+  if (bodyLength < 0 || PREFIX_LENGTH + bodyLength > data.length) {
+    throw new Error("Invalid direct message: bad padding");
+  }
+  const body = data.slice(PREFIX_LENGTH, PREFIX_LENGTH + bodyLength);
+  return new TextDecoder().decode((data[0] & FLAG_COMPRESSED) !== 0 ? await decompress(body) : body);
+}
+
+/**
+ * Encrypt a direct message so both its sender and its recipient can read it
+ * @param senderKey - The sender's published messaging key (0x hex)
+ * @param recipientKey - The recipient's published messaging key (0x hex)
+ * @returns The message (0x hex)
+ */
+export async function encryptDirectMessage(
+  text: string,
+  context: DirectMessageContext,
+  senderKey: string,
+  recipientKey: string
+): Promise<string> {
+  const associatedData = encodeAssociatedData(context);
+  const contentKey = crypto.getRandomValues(new Uint8Array(CONTENT_KEY_LENGTH));
+  try {
+    const [forSender, forRecipient] = await Promise.all([
+      seal(contentKey, senderKey, associatedData, SEAL_INFO),
+      seal(contentKey, recipientKey, associatedData, SEAL_INFO),
+    ]);
+    const key = await crypto.subtle.importKey("raw", contentKey, "AES-GCM", false, ["encrypt"]);
+    const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+    const ciphertext = new Uint8Array(
+      await crypto.subtle.encrypt({ name: "AES-GCM", iv, additionalData: associatedData }, key, await encodePlaintext(text))
+    );
+
+    const out = new Uint8Array(1 + SEALED_KEY_LENGTH * 2 + IV_LENGTH + ciphertext.length);
+    out[0] = DIRECT_VERSION;
+    out.set(getBytes(forSender), 1);
+    out.set(getBytes(forRecipient), 1 + SEALED_KEY_LENGTH);
+    out.set(iv, 1 + SEALED_KEY_LENGTH * 2);
+    out.set(ciphertext, 1 + SEALED_KEY_LENGTH * 2 + IV_LENGTH);
+    return "0x" + bytesToHex(out);
+  } finally {
+    contentKey.fill(0);
+  }
+}
+
+/**
+ * Decrypt a direct message as its sender or its recipient
+ * @param keyPair - The reader's messaging key pair
+ * @returns The text, or null if this key pair can't open the message
+ */
+export async function decryptDirectMessage(
+  encryptedHex: string,
+  keyPair: X25519KeyPair,
+  context: DirectMessageContext
+): Promise<string | null> {
+  const data = hexToBytes(encryptedHex.replace(/^0x/, ""));
+  const bodyOffset = 1 + SEALED_KEY_LENGTH * 2;
+  if (data[0] !== DIRECT_VERSION || data.length <= bodyOffset + IV_LENGTH) return null;
+
+  const associatedData = encodeAssociatedData(context);
+  for (const offset of [1, 1 + SEALED_KEY_LENGTH]) {
+    const sealedKey = "0x" + bytesToHex(data.slice(offset, offset + SEALED_KEY_LENGTH));
+    const contentKey = await open(sealedKey, keyPair, associatedData, SEAL_INFO);
+    if (!contentKey || contentKey.length !== CONTENT_KEY_LENGTH) continue;
+
+    try {
+      const key = await crypto.subtle.importKey("raw", contentKey, "AES-GCM", false, ["decrypt"]);
+      const plaintext = await crypto.subtle.decrypt(
+        { name: "AES-GCM", iv: data.slice(bodyOffset, bodyOffset + IV_LENGTH), additionalData: associatedData },
+        key,
+        data.slice(bodyOffset + IV_LENGTH)
+      );
+      return await decodePlaintext(new Uint8Array(plaintext));
+    } catch {
+      return null;
+    } finally {
+      contentKey.fill(0);
+    }
+  }
+  return null;
+}
+
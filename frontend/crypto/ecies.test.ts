@@ -0,0 +1,61 @@
+// @vitest-environment node
+import { describe, expect, it } from "vitest";
+import { SEAL_OVERHEAD, deriveKeyPairFromSignature, open, seal } from "./ecies";
+import { bytesToHex, hexToBytes } from "./envelope";
+
+const INFO = "whisperlink-test-seal-v1";
+const signature = "0x" + "1b".repeat(65);
+const associatedData = new TextEncoder().encode("associated data");
+const plaintext = new TextEncoder().encode("sealed content key");
+
+describe("ecies", () => {
+  it("derives the same key pair from the same signature, in any case", async () => {
+    const keyPair = await deriveKeyPairFromSignature(signature, INFO);
+    const again = await deriveKeyPairFromSignature(signature.toUpperCase().replace("0X", "0x"), INFO);
+    expect(bytesToHex(again.privateKey)).toBe(bytesToHex(keyPair.privateKey));
+    expect(bytesToHex(again.publicKey)).toBe(bytesToHex(keyPair.publicKey));
+
+    const otherUse = await deriveKeyPairFromSignature(signature, "whisperlink-other-use-v1");
+    expect(bytesToHex(otherUse.publicKey)).not.toBe(bytesToHex(keyPair.publicKey));
+  });
+
+  it("seals to a public key and opens with its key pair", async () => {
+    const keyPair = await deriveKeyPairFromSignature(signature, INFO);
+    const sealed = await seal(plaintext, "0x" + bytesToHex(keyPair.publicKey), associatedData, INFO);
+
+    expect(hexToBytes(sealed.slice(2)).length).toBe(plaintext.length + SEAL_OVERHEAD);
+    expect(await open(sealed, keyPair, associatedData, INFO)).toEqual(plaintext);
+    // A fresh ephemeral key every time
+    expect(await seal(plaintext, "0x" + bytesToHex(keyPair.publicKey), associatedData, INFO)).not.toBe(sealed);
+  });
+
+  it("opens nothing with another key pair, associated data or info", async () => {
+    const keyPair = await deriveKeyPairFromSignature(signature, INFO);
+    const other = await deriveKeyPairFromSignature("0x" + "2c".repeat(65), INFO);
+    const sealed = await seal(plaintext, "0x" + bytesToHex(keyPair.publicKey), associatedData, INFO);
+
+    expect(await open(sealed, other, associatedData, INFO)).toBeNull();
+    expect(await open(sealed, keyPair, new TextEncoder().encode("other data"), INFO)).toBeNull();
+    expect(await open(sealed, keyPair, associatedData, "whisperlink-other-use-v1")).toBeNull();
+  });
+
+  it("opens nothing once a byte is flipped", async () => {
+    const keyPair = await deriveKeyPairFromSignature(signature, INFO);
+    const sealedHex = await seal(plaintext, "0x" + bytesToHex(keyPair.publicKey), associatedData, INFO);
+    const sealed = hexToBytes(sealedHex.slice(2));
+
+    // Ephemeral key, IV and ciphertext
+    for (const index of [0, 32, sealed.length - 1]) {
+      const tampered = sealed.slice();
+      tampered[index] ^= 0x01;
+      expect(await open("0x" + bytesToHex(tampered), keyPair, associatedData, INFO)).toBeNull();
+    }
+    expect(await open("0x" + bytesToHex(sealed.slice(0, 44)), keyPair, associatedData, INFO)).toBeNull();
+  });
+
+  it("refuses a public key of the wrong length", async () => {
+    await expect(seal(plaintext, "0x" + "11".repeat(31), associatedData, INFO)).rejects.toThrow(
+      "Invalid encryption key"
+    );
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * ECIES over X25519: seal data to a public key so only the holder of its private key opens it
+ *
+ * Seal: ephemeral X25519 key agreement with the recipient, HKDF-SHA256 (salt: ephemeral public
+ * key | recipient public key, info: a per-use label) and AES-GCM with caller-given associated
+ * data. X25519 key pairs are derived from a wallet signature, so nobody has to store them.
+ *
+ * Sealed: ephemeral public key (32) | IV (12) | ciphertext
+ */
+
+import { x25519 } from "@noble/curves/ed25519";
+import { getBytes } from "ethers";
+import { bytesToHex, hexToBytes } from "./envelope";
+import { Bytes } from "./kdf";
+
+const PUBLIC_KEY_LENGTH = 32;
+
+const IV_LENGTH = 12;
+
+/**
+ * Size a seal adds to its plaintext: ephemeral key, IV and AES-GCM tag
+ */
+export const SEAL_OVERHEAD = PUBLIC_KEY_LENGTH + IV_LENGTH + 16;
+
+export interface X25519KeyPair {
+  privateKey: Bytes;
+  publicKey: Bytes;
+}
+
+/**
+ * Turn a wallet signature into an X25519 key pair
+ * @param info - HKDF info naming what the key is for, so one signature never gives two uses the same key
+ */
+export async function deriveKeyPairFromSignature(signature: string, info: string): Promise<X25519KeyPair> {
+  const keyMaterial = await crypto.subtle.importKey(
+    "raw",
+    new Uint8Array(getBytes(signature.toLowerCase())),
+    "HKDF",
+    false,
+    ["deriveBits"]
+  );
+  const bits = await crypto.subtle.deriveBits(
+    { name: "HKDF", hash: "SHA-256", salt: new Uint8Array(0), info: new TextEncoder().encode(info) },
+    keyMaterial,
+    256
+  );
+  const privateKey = new Uint8Array(bits);
+  return { privateKey, publicKey: new Uint8Array(x25519.getPublicKey(privateKey)) };
+}
+
+async function deriveSealKey(
+  sharedSecret: Uint8Array,
+  ephemeralKey: Bytes,
+  recipientKey: Bytes,
+  info: string
+): Promise<CryptoKey> {
+  const keyMaterial = await crypto.subtle.importKey("raw", new Uint8Array(sharedSecret), "HKDF", false, ["deriveKey"]);
+  const salt = new Uint8Array(PUBLIC_KEY_LENGTH * 2);
+  salt.set(ephemeralKey);
+  salt.set(recipientKey, PUBLIC_KEY_LENGTH);
+  return crypto.subtle.deriveKey(
+    { name: "HKDF", hash: "SHA-256", salt, info: new TextEncoder().encode(info) },
+    keyMaterial,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  );
+}
+
+/**
+ * Seal data to an X25519 public key
+ * @param recipientKeyHex - The recipient's public key (0x hex)
+ * @param info - Label of the use, the same when opening
+ * @returns The sealed data (0x hex)
+ */
+export async function seal(plaintext: Bytes, recipientKeyHex: string, associatedData: Bytes, info: string): Promise<string> {
+  const recipientKey = hexToBytes(recipientKeyHex.replace(/^0x/, ""));
+  if (recipientKey.length !== PUBLIC_KEY_LENGTH) throw new Error("Invalid encryption key");
+
+  const ephemeralPrivate = crypto.getRandomValues(new Uint8Array(PUBLIC_KEY_LENGTH));
+  const ephemeralKey = new Uint8Array(x25519.getPublicKey(ephemeralPrivate));
+  const key = await deriveSealKey(
+    x25519.getSharedSecret(ephemeralPrivate, recipientKey),
+    ephemeralKey,
+    recipientKey,
+    info
+  );
+  ephemeralPrivate.fill(0);
+
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const ciphertext = new Uint8Array(
+    await crypto.subtle.encrypt({ name: "AES-GCM", iv, additionalData: associatedData }, key, plaintext)
+  );
+
+  const out = new Uint8Array(PUBLIC_KEY_LENGTH + IV_LENGTH + ciphertext.length);
+  out.set(ephemeralKey);
+  out.set(iv, PUBLIC_KEY_LENGTH);
+  out.set(ciphertext, PUBLIC_KEY_LENGTH + IV_LENGTH);
+  return "0x" + bytesToHex(out);
+}
+
+/**
+ * Open data sealed to a key pair
+ * @returns The plaintext, or null if the key, associated data or info is wrong
+ */
+export async function open(
+  sealedHex: string,
+  keyPair: X25519KeyPair,
+  associatedData: Bytes,
+  info: string
+): Promise<Bytes | null> {
+  const sealed = hexToBytes(sealedHex.replace(/^0x/, ""));
+  if (sealed.length <= PUBLIC_KEY_LENGTH + IV_LENGTH) return null;
+
+  const ephemeralKey = sealed.slice(0, PUBLIC_KEY_LENGTH);
+  try {
+    const key = await deriveSealKey(
+      x25519.getSharedSecret(keyPair.privateKey, ephemeralKey),
+      ephemeralKey,
+      keyPair.publicKey,
+      info
+    );
+    return new Uint8Array(
+      await crypto.subtle.decrypt(
+        { name: "AES-GCM", iv: sealed.slice(PUBLIC_KEY_LENGTH, PUBLIC_KEY_LENGTH + IV_LENGTH), additionalData: associatedData },
+        key,
+        sealed.slice(PUBLIC_KEY_LENGTH + IV_LENGTH)
+      )
+    );
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,252 @@
+// @vitest-environment node
+import { describe, expect, it } from "vitest";
+import {
+  ContextMismatchError,
+  MessageContext,
+  PADDING_BUCKETS,
+  bytesToHex,
+  createVaultKeyParams,
+  decryptWithKeys,
+  encryptWithKey,
+  getEnvelopeSize,
+  getKeyCandidates,
+  getRewriteOptions,
+  getVaultKeyId,
+  getVaultKeyParams,
+  hexToBytes,
+  openEnvelope,
+} from "./envelope";
+import { Bytes, KDF_PBKDF2_SHA256, KDF_SCRYPT, encodeKdfParams } from "./kdf";
+
+const context: MessageContext = {
+  owner: "0x" + "a1".repeat(20),
+  chainId: 31337,
+  vault: "0x" + "b2".repeat(20),
+  sequence: 7,
+};
+
+const params = createVaultKeyParams({ kdf: KDF_PBKDF2_SHA256, iterations: 1000 });
+
+function generateKey(): Promise<CryptoKey> {
+  return crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, false, ["encrypt", "decrypt"]);
+}
+
+// Flip one bit of the byte at `index` of a hex envelope
+function flipByte(hex: string, index: number): string {
+  const bytes = hexToBytes(hex);
+  bytes[index] ^= 0x01;
+  return bytesToHex(bytes);
+}
+
+// Context digest as older clients wrote it into v2 headers
+async function digestContext(ctx: MessageContext): Promise<Bytes> {
+  const tag = new TextEncoder().encode("whisperlink-context-v1");
+  const data = new Uint8Array(tag.length + 56);
+  const view = new DataView(data.buffer);
+  data.set(tag);
+  data.set(hexToBytes(ctx.owner.slice(2)), tag.length);
+  view.setBigUint64(tag.length + 20, BigInt(ctx.chainId));
+  data.set(hexToBytes(ctx.vault.slice(2)), tag.length + 28);
+  view.setBigUint64(tag.length + 48, BigInt(ctx.sequence));
+  return new Uint8Array(await crypto.subtle.digest("SHA-256", data), 0, 16);
+}
+
+// Encrypt an envelope as a client of the given version did: v2 authenticates its header, v1 doesn't, v0 has none
+async function encryptOld(version: 0 | 1 | 2, text: string, key: CryptoKey, ctx = context): Promise<string> {
+  const kdfParams = encodeKdfParams(params.kdf);
+  const header =
+    version === 0
+      ? new Uint8Array(0)
+      : new Uint8Array([
+          version,
+          params.kdf.kdf,
+          kdfParams.length,
+          ...kdfParams,
+          params.salt.length,
+          ...params.salt,
+          ...(version === 2 ? await digestContext(ctx) : []),
+        ]);
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  // A legacy IV that looks like a version byte must still read as v0
+  if (version === 0) iv[0] = 3;
+  const ciphertext = await crypto.subtle.encrypt(
+    version === 2 ? { name: "AES-GCM", iv, additionalData: header } : { name: "AES-GCM", iv },
+    key,
+    new TextEncoder().encode(text)
+  );
+  return bytesToHex(new Uint8Array([...header, ...iv, ...new Uint8Array(ciphertext)]));
+}
+
+describe("envelope", () => {
+  it("round-trips a context-bound v3 envelope", async () => {
+    const key = await generateKey();
+    const encrypted = await encryptWithKey("Hello, vault", key, params, { context });
+
+    expect(hexToBytes(encrypted)[0]).toBe(3);
+    expect(getVaultKeyId(getVaultKeyParams(encrypted))).toBe(getVaultKeyId(params));
+    expect(await decryptWithKeys(encrypted, [key], context)).toBe("Hello, vault");
+    expect(await decryptWithKeys("0x" + encrypted, [key], context)).toBe("Hello, vault");
+  });
+
+  it("compresses only when that saves space", async () => {
+    const key = await generateKey();
+    const repetitive = "whisper ".repeat(200);
+    const compressed = await encryptWithKey(repetitive, key, params);
+    const raw = await encryptWithKey(repetitive, key, params, { compress: false });
+
+    expect(compressed.length).toBeLessThan(raw.length);
+    expect(await decryptWithKeys(compressed, [key])).toBe(repetitive);
+    expect(await decryptWithKeys(raw, [key])).toBe(repetitive);
+  });
+
+  it("fails when a header byte is flipped", async () => {
+    const key = await generateKey();
+    const encrypted = await encryptWithKey("Authenticated header", key, params, { context });
+    // Last salt byte: the header still parses, but the additional data no longer matches
+    const saltEnd = 4 + encodeKdfParams(params.kdf).length + 1 + params.salt.length - 1;
+    const tampered = flipByte(encrypted, saltEnd);
+
+    expect(getVaultKeyParams(tampered)).not.toBeNull();
+    await expect(decryptWithKeys(tampered, async () => key, context)).rejects.toThrow("Decryption failed");
+  });
+
+  it("fails when the ciphertext or context digest is flipped", async () => {
+    const key = await generateKey();
+    const encrypted = await encryptWithKey("Authenticated body", key, params, { context });
+    const length = encrypted.length / 2;
+    const digestStart = 4 + encodeKdfParams(params.kdf).length + 1 + params.salt.length;
+
+    await expect(decryptWithKeys(flipByte(encrypted, length - 1), [key], context)).rejects.toThrow("Decryption failed");
+    await expect(decryptWithKeys(flipByte(encrypted, digestStart), [key], context)).rejects.toThrow(
+      "Decryption failed"
+    );
+  });
+
+  it("throws a ContextMismatchError for another context", async () => {
+    const key = await generateKey();
+    const encrypted = await encryptWithKey("Bound", key, params, { context });
+
+    for (const other of [
+      { ...context, sequence: 8 },
+      { ...context, chainId: 1 },
+      { ...context, owner: "0x" + "c3".repeat(20) },
+      { ...context, vault: "0x" + "d4".repeat(20) },
+    ]) {
+      await expect(decryptWithKeys(encrypted, [key], other)).rejects.toBeInstanceOf(ContextMismatchError);
+    }
+    // Without an expected context the digest isn't checked
+    expect(await decryptWithKeys(encrypted, [key])).toBe("Bound");
+  });
+
+  it("fails with the wrong key", async () => {
+    const encrypted = await encryptWithKey("Private", await generateKey(), params, { context });
+    await expect(decryptWithKeys(encrypted, [await generateKey()], context)).rejects.toThrow("Decryption failed");
+  });
+
+  it("pads envelopes to their bucket and keeps the response flag inside", async () => {
+    const key = await generateKey();
+    const short = await encryptWithKey("Hi", key, params, { context, pad: true, isResponse: true });
+    const longer = await encryptWithKey("A somewhat longer message", key, params, { context, pad: true });
+
+    expect(short.length / 2).toBe(PADDING_BUCKETS[0]);
+    expect(longer.length / 2).toBe(PADDING_BUCKETS[0]);
+    expect(await getEnvelopeSize("Hi", params, { context, pad: true })).toBe(PADDING_BUCKETS[0]);
+    expect(await openEnvelope(short, [key], context)).toEqual({ text: "Hi", isResponse: true });
+    expect(await openEnvelope(longer, [key], context)).toEqual({
+      text: "A somewhat longer message",
+      isResponse: false,
+    });
+
+    const unpadded = await encryptWithKey("Hi", key, params, { context });
+    expect(await openEnvelope(unpadded, [key], context)).toEqual({ text: "Hi", isResponse: null });
+    expect(await getEnvelopeSize("Hi", params, { context })).toBe(unpadded.length / 2);
+  });
+
+  it("pads to at least minBucket, and leaves oversized text unpadded", async () => {
+    const key = await generateKey();
+    const bucketed = await encryptWithKey("Hi", key, params, { pad: true, minBucket: 1000 });
+    expect(bucketed.length / 2).toBe(1024);
+
+    const largest = PADDING_BUCKETS[PADDING_BUCKETS.length - 1];
+    const random = bytesToHex(crypto.getRandomValues(new Uint8Array(largest)));
+    const oversized = await encryptWithKey(random, key, params, { pad: true, compress: false });
+    expect(oversized.length / 2).toBeGreaterThan(largest);
+    expect(await decryptWithKeys(oversized, [key])).toBe(random);
+  });
+
+  it("rewrites a padded response as a response of at least the same size", async () => {
+    const key = await generateKey();
+    const previousHex = await encryptWithKey("A response of some length", key, params, {
+      context,
+      pad: true,
+      minBucket: 512,
+      isResponse: true,
+    });
+    const previous = await openEnvelope(previousHex, [key], context);
+    const options = getRewriteOptions(previous, previousHex, context);
+
+    expect(options).toMatchObject({ context, pad: true, minBucket: 512, isResponse: true });
+    const rewritten = await encryptWithKey("Short", key, params, options);
+    expect(rewritten.length / 2).toBe(512);
+    expect(await openEnvelope(rewritten, [key], context)).toEqual({ text: "Short", isResponse: true });
+
+    const plainHex = await encryptWithKey("Not padded", key, params, { context });
+    const plain = await openEnvelope(plainHex, [key], context);
+    expect(getRewriteOptions(plain, plainHex, context).pad).toBe(false);
+    expect(getRewriteOptions(plain, plainHex, context, true).pad).toBe(true);
+  });
+
+  it("reads v2 envelopes, binding them to their context", async () => {
+    const key = await generateKey();
+    const encrypted = await encryptOld(2, "Written by v2", key);
+
+    expect(getVaultKeyId(getVaultKeyParams(encrypted))).toBe(getVaultKeyId(params));
+    expect(await decryptWithKeys(encrypted, [key], context)).toBe("Written by v2");
+    await expect(decryptWithKeys(encrypted, [key], { ...context, sequence: 0 })).rejects.toBeInstanceOf(
+      ContextMismatchError
+    );
+    await expect(decryptWithKeys(flipByte(encrypted, 1), async () => key, context)).rejects.toThrow(
+      "Decryption failed"
+    );
+  });
+
+  it("reads v1 envelopes, which have no context", async () => {
+    const key = await generateKey();
+    const encrypted = await encryptOld(1, "Written by v1", key);
+
+    expect(getVaultKeyId(getVaultKeyParams(encrypted))).toBe(getVaultKeyId(params));
+    expect(await decryptWithKeys(encrypted, [key], context)).toBe("Written by v1");
+  });
+
+  it("reads legacy v0 ciphertexts, also when the IV looks like a version byte", async () => {
+    const key = await generateKey();
+    const encrypted = await encryptOld(0, "Written by v0", key);
+
+    expect(getVaultKeyParams(encrypted)).toBeNull();
+    expect(getVaultKeyId(null)).toBe("legacy");
+    expect(getKeyCandidates(encrypted).at(-1)).toBeNull();
+    expect(await decryptWithKeys(encrypted, async () => key, context)).toBe("Written by v0");
+  });
+
+  it("treats headers with unknown flags or oversized KDF params as legacy data", async () => {
+    const key = await generateKey();
+    const encrypted = await encryptWithKey("Flags", key, params);
+    const unknownFlag = hexToBytes(encrypted);
+    unknownFlag[1] |= 0x80;
+    expect(getKeyCandidates(bytesToHex(unknownFlag))).toEqual([null]);
+
+    // An envelope claiming scrypt with N = 2^30 would hang the tab
+    const oversized = bytesToHex(
+      new Uint8Array([3, 0, KDF_SCRYPT, 3, 30, 8, 1, 16, ...params.salt, ...crypto.getRandomValues(new Uint8Array(40))])
+    );
+    expect(getVaultKeyParams(oversized)).toBeNull();
+    expect(getKeyCandidates(oversized)).toEqual([null]);
+  });
+
+  it("refuses data that isn't a ciphertext", async () => {
+    const key = await generateKey();
+    await expect(decryptWithKeys("0x1234", [key])).rejects.toThrow("data too short");
+    await expect(decryptWithKeys("zz".repeat(40), [key])).rejects.toThrow("not valid hex format");
+    expect(getVaultKeyParams("0x")).toBeNull();
+  });
+});
@@ -0,0 +1,458 @@
+/**
+ * Ciphertext envelope encoding with AES-GCM
+ *
+ * Envelope (v3):
+ *   version (1) | flags (1) | kdfId (1) | kdfParamsLength (1) | kdfParams | saltLength (1) | salt
+ *   | contextDigest (16, if FLAG_CONTEXT) | IV (12) | ciphertext
+ *
+ * Flags: FLAG_COMPRESSED when the plaintext was deflated before encryption (only used when it
+ * saves space), FLAG_CONTEXT when the envelope is bound to a message context, FLAG_PADDED when
+ * the envelope is padded to one of PADDING_BUCKETS.
+ *
+ * Padded plaintext: innerFlags (1) | bodyLength (4) | body | zero padding
+ * In padded envelopes the compression and response flags live in innerFlags, inside the
+ * ciphertext, so all envelopes of a bucket look the same on-chain.
+ *
+ * The header (everything before the IV) is passed to AES-GCM as additional data, so the flags
+ * and the context digest (owner, chainId, vault address and message sequence number) are
+ * authenticated. A ciphertext copied into another vault or position still decrypts, but its
+ * digest no longer matches the expected context and decryption fails with a ContextMismatchError.
+ *
+ * Older envelopes are still read: v2 is v3 without the flags byte (always context-bound,
+ * never compressed), v1 has neither context digest nor additional data.
+ * Legacy ciphertexts (v0) are a bare IV (12) | ciphertext, keyed with PBKDF2 and a fixed salt.
+ *
+ * Functions here work on already derived keys so they can run inside a Web Worker;
+ * password handling lives in hooks/useCrypto.ts and crypto/session.ts.
+ */
+
+import { compress, decompress } from "./compression";
+import { Bytes, DEFAULT_KDF_PARAMS, KDF_PBKDF2_SHA256, KdfParams, decodeKdfParams, encodeKdfParams } from "./kdf";
+
+export const LEGACY_SALT = "whisperlink-salt";
+export const LEGACY_KDF: KdfParams = { kdf: KDF_PBKDF2_SHA256, iterations: 100000 };
+
+const ENVELOPE_V1 = 1;
+const ENVELOPE_V2 = 2;
+const ENVELOPE_V3 = 3;
+const FLAG_COMPRESSED = 0x01;
+const FLAG_CONTEXT = 0x02;
+const FLAG_PADDED = 0x04;
+const INNER_COMPRESSED = 0x01;
+const INNER_RESPONSE = 0x02;
+const PADDED_PREFIX_LENGTH = 5;
+const SALT_LENGTH = 16;
+const IV_LENGTH = 12;
+const CONTEXT_DIGEST_LENGTH = 16;
+const CONTEXT_TAG = "whisperlink-context-v1";
+const TAG_LENGTH = 16;
+
+/**
+ * Total envelope sizes padded envelopes are rounded up to (the largest is the WhisperVault limit)
+ */
+export const PADDING_BUCKETS = [256, 512, 1024, 2048, 4096, 8192, 16384];
+
+/**
+ * Key derivation settings of a vault, stored in every envelope
+ */
+export interface VaultKeyParams {
+  kdf: KdfParams;
+  salt: Bytes;
+}
+
+/**
+ * Where a ciphertext belongs: the vault owner, chain, vault contract and message position
+ */
+export interface MessageContext {
+  owner: string;
+  chainId: number;
+  vault: string;
+  sequence: number;
+}
+
+export interface EncryptOptions {
+  // Where the message will be stored; binds the ciphertext to it
+  context?: MessageContext;
+  // Deflate the plaintext when that makes it smaller (default true)
+  compress?: boolean;
+  // Pad to a PADDING_BUCKETS size and move the compression flag inside the ciphertext
+  pad?: boolean;
+  // Smallest bucket to pad to, e.g. to give a message and its response the same size
+  minBucket?: number;
+  // Response flag, stored inside the ciphertext of padded envelopes
+  isResponse?: boolean;
+}
+
+export interface DecryptedPayload {
+  text: string;
+  // Response flag hidden in padded envelopes, null for other envelopes
+  isResponse: boolean | null;
+}
+
+/**
+ * Thrown when a ciphertext decrypts but was written for a different context
+ */
+export class ContextMismatchError extends Error {
+  constructor() {
+    super("Message context mismatch: tampered with or relocated");
+    this.name = "ContextMismatchError";
+  }
+}
+
+interface ParsedEnvelope {
+  params: VaultKeyParams | null;
+  // Additional data (v2+) and context digest, if bound
+  header: Bytes | null;
+  contextDigest: Bytes | null;
+  compressed: boolean;
+  padded: boolean;
+  iv: Bytes;
+  ciphertext: Bytes;
+}
+
+export function bytesToHex(bytes: Bytes): string {
+  return Array.from(bytes)
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+export function hexToBytes(hex: string): Bytes {
+  return new Uint8Array(hex.match(/.{1,2}/g)!.map((byte) => parseInt(byte, 16)));
+}
+
+/**
+ * Digest of a message context, stored in v2 envelope headers
+ */
+async function digestContext(context: MessageContext): Promise<Bytes> {
+  const data = new Uint8Array(CONTEXT_TAG.length + 20 + 8 + 20 + 8);
+  const view = new DataView(data.buffer);
+  let offset = 0;
+  data.set(new TextEncoder().encode(CONTEXT_TAG), offset);
+  offset += CONTEXT_TAG.length;
+  data.set(hexToBytes(context.owner.slice(2).toLowerCase()), offset);
+  offset += 20;
+  view.setBigUint64(offset, BigInt(context.chainId));
+  offset += 8;
+  data.set(hexToBytes(context.vault.slice(2).toLowerCase()), offset);
+  offset += 20;
+  view.setBigUint64(offset, BigInt(context.sequence));
+
+  const digest = await crypto.subtle.digest("SHA-256", data);
+  return new Uint8Array(digest, 0, CONTEXT_DIGEST_LENGTH);
+}
+
+/**
+ * Parse a v1-v3 envelope header. Returns null when the bytes don't look like one,
+ * in which case the data is treated as a legacy v0 ciphertext.
+ */
+function parseEnvelope(data: Bytes): ParsedEnvelope | null {
+  const version = data[0];
+  if (data.length < 5 || version < ENVELOPE_V1 || version > ENVELOPE_V3) return null;
+
+  let offset = 1;
+  let flags = version === ENVELOPE_V2 ? FLAG_CONTEXT : 0;
+  if (version === ENVELOPE_V3) {
+    flags = data[offset++];
+    if (flags & ~(FLAG_COMPRESSED | FLAG_CONTEXT | FLAG_PADDED)) return null;
+  }
+
+  const kdf = data[offset++];
+  const paramsLength = data[offset++];
+  if (offset + paramsLength + 1 > data.length) return null;
+  const rawParams = data.slice(offset, offset + paramsLength);
+  offset += paramsLength;
+
+  const saltLength = data[offset++];
+  if (saltLength === 0 || offset + saltLength + IV_LENGTH >= data.length) return null;
+  const salt = data.slice(offset, offset + saltLength);
+  offset += saltLength;
+
+  let contextDigest: Bytes | null = null;
+  if (flags & FLAG_CONTEXT) {
+    if (offset + CONTEXT_DIGEST_LENGTH + IV_LENGTH >= data.length) return null;
+    contextDigest = data.slice(offset, offset + CONTEXT_DIGEST_LENGTH);
+    offset += CONTEXT_DIGEST_LENGTH;
+  }
+
+  const kdfParams = decodeKdfParams(kdf, rawParams);
+  if (!kdfParams) return null;
+
+  return {
+    params: { kdf: kdfParams, salt },
+    header: version === ENVELOPE_V1 ? null : data.slice(0, offset),
+    contextDigest,
+    compressed: (flags & FLAG_COMPRESSED) !== 0,
+    padded: (flags & FLAG_PADDED) !== 0,
+    iv: data.slice(offset, offset + IV_LENGTH),
+    ciphertext: data.slice(offset + IV_LENGTH),
+  };
+}
+
+function parseLegacy(data: Bytes): ParsedEnvelope {
+  return {
+    params: null,
+    header: null,
+    contextDigest: null,
+    compressed: false,
+    padded: false,
+    iv: data.slice(0, IV_LENGTH),
+    ciphertext: data.slice(IV_LENGTH),
+  };
+}
+
+/**
+ * Decode and validate hex-encoded ciphertext (with or without 0x prefix)
+ */
+function decodeHex(encryptedHex: string): Bytes {
+  // Remove 0x prefix if present
+  const cleanHex = encryptedHex.startsWith("0x") ? encryptedHex.slice(2) : encryptedHex;
+
+  if (!cleanHex || cleanHex.length < 24) {
+    throw new Error("Invalid encrypted content: data too short");
+  }
+
+  // Validate hex format
+  if (!/^[0-9a-fA-F]+$/.test(cleanHex)) {
+    throw new Error("Invalid encrypted content: not valid hex format");
+  }
+
+  return hexToBytes(cleanHex);
+}
+
+/**
+ * All readings of a ciphertext, most likely first.
+ * A legacy IV may start with a version byte by chance, so an envelope reading is
+ * always followed by the legacy (v0) interpretation.
+ */
+function parseCandidates(encryptedHex: string): ParsedEnvelope[] {
+  const combined = decodeHex(encryptedHex);
+  const envelope = parseEnvelope(combined);
+  return envelope ? [envelope, parseLegacy(combined)] : [parseLegacy(combined)];
+}
+
+/**
+ * Create key derivation settings for a new vault, with a fresh random salt
+ * @param kdf - KDF and cost parameters (PBKDF2 by default)
+ */
+export function createVaultKeyParams(kdf: KdfParams = DEFAULT_KDF_PARAMS): VaultKeyParams {
+  return {
+    kdf,
+    salt: crypto.getRandomValues(new Uint8Array(SALT_LENGTH)),
+  };
+}
+
+/**
+ * Read the key derivation settings from an existing ciphertext
+ * @returns The vault settings, or null for legacy (v0) or unreadable data
+ */
+export function getVaultKeyParams(encryptedHex: string): VaultKeyParams | null {
+  try {
+    return parseEnvelope(decodeHex(encryptedHex))?.params ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Stable identifier of a vault's key settings; equal ids mean the same derived key for the same password
+ * @param params - Vault settings, or null for the legacy (v0) key
+ */
+export function getVaultKeyId(params: VaultKeyParams | null): string {
+  if (!params) return "legacy";
+  return `${params.kdf.kdf}:${bytesToHex(encodeKdfParams(params.kdf))}:${bytesToHex(params.salt)}`;
+}
+
+/**
+ * Key settings needed to read a ciphertext, in the order `decryptWithKeys` expects its keys.
+ * `null` stands for the legacy (v0) key.
+ */
+export function getKeyCandidates(encryptedHex: string): (VaultKeyParams | null)[] {
+  return parseCandidates(encryptedHex).map((candidate) => candidate.params);
+}
+
+/**
+ * Plaintext bytes to encrypt, deflated when that is enabled and saves space
+ */
+async function encodePlaintext(text: string, options: EncryptOptions): Promise<{ body: Bytes; compressed: boolean }> {
+  const raw = new TextEncoder().encode(text);
+  if (options.compress === false) return { body: raw, compressed: false };
+
+  const deflated = await compress(raw);
+  return deflated.length < raw.length ? { body: deflated, compressed: true } : { body: raw, compressed: false };
+}
+
+async function buildHeader(params: VaultKeyParams, flags: number, context?: MessageContext): Promise<Bytes> {
+  const kdfParams = encodeKdfParams(params.kdf);
+  return new Uint8Array([
+    ENVELOPE_V3,
+    flags | (context ? FLAG_CONTEXT : 0),
+    params.kdf.kdf,
+    kdfParams.length,
+    ...kdfParams,
+    params.salt.length,
+    ...params.salt,
+    ...(context ? await digestContext(context) : []),
+  ]);
+}
+
+/**
+ * Smallest bucket that fits `size`; sizes above the largest bucket are left as they are
+ */
+function getBucket(size: number, minBucket = 0): number {
+  return PADDING_BUCKETS.find((bucket) => bucket >= size && bucket >= minBucket) ?? size;
+}
+
+/**
+ * Header and plaintext payload of an envelope, padded to its bucket when requested
+ */
+async function buildPayload(
+  text: string,
+  params: VaultKeyParams,
+  options: EncryptOptions
+): Promise<{ header: Bytes; payload: Bytes }> {
+  const { body, compressed } = await encodePlaintext(text, options);
+  if (!options.pad) {
+    return { header: await buildHeader(params, compressed ? FLAG_COMPRESSED : 0, options.context), payload: body };
+  }
+
+  const header = await buildHeader(params, FLAG_PADDED, options.context);
+  const unpadded = header.length + IV_LENGTH + PADDED_PREFIX_LENGTH + body.length + TAG_LENGTH;
+  const payload = new Uint8Array(PADDED_PREFIX_LENGTH + body.length + getBucket(unpadded, options.minBucket) - unpadded);
+  payload[0] = (compressed ? INNER_COMPRESSED : 0) | (options.isResponse ? INNER_RESPONSE : 0);
+  new DataView(payload.buffer).setUint32(1, body.length);
+  payload.set(body, PADDED_PREFIX_LENGTH);
+  return { header, payload };
+}
+
+/**
+ * Options to encrypt new text in place of an envelope, e.g. for an edit or a key rotation. A
+ * padded envelope keeps its hidden response flag and at least its size, so the rewrite doesn't
+ * turn a response into a user message or show that the text got shorter.
+ * @param previous - The replaced envelope, decrypted
+ * @param previousHex - The replaced envelope (with or without 0x prefix)
+ * @param context - Where the message is stored
+ * @param pad - Pad the new envelope even if the replaced one isn't padded
+ */
+export function getRewriteOptions(
+  previous: DecryptedPayload,
+  previousHex: string,
+  context: MessageContext,
+  pad = false
+): EncryptOptions {
+  return {
+    context,
+    pad: pad || previous.isResponse !== null,
+    minBucket: previousHex.replace(/^0x/, "").length / 2,
+    isResponse: previous.isResponse ?? undefined,
+  };
+}
+
+/**
+ * Size in bytes of the envelope `encryptWithKey` would produce for this text, without encrypting
+ */
+export async function getEnvelopeSize(
+  text: string,
+  params: VaultKeyParams,
+  options: EncryptOptions = {}
+): Promise<number> {
+  const { header, payload } = await buildPayload(text, params, options);
+  return header.length + IV_LENGTH + payload.length + TAG_LENGTH;
+}
+
+/**
+ * Encrypt text with an already derived key
+ * @param options - Context binding, compression and padding settings
+ * @returns Hex-encoded v3 envelope (header + IV + ciphertext)
+ */
+export async function encryptWithKey(
+  text: string,
+  key: CryptoKey,
+  params: VaultKeyParams,
+  options: EncryptOptions = {}
+): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+
+  const { header, payload } = await buildPayload(text, params, options);
+
+  const encrypted = await crypto.subtle.encrypt({ name: "AES-GCM", iv, additionalData: header }, key, payload);
+
+  // Combine header, IV and encrypted data
+  const combined = new Uint8Array(header.length + iv.length + encrypted.byteLength);
+  combined.set(header);
+  combined.set(iv, header.length);
+  combined.set(new Uint8Array(encrypted), header.length + iv.length);
+
+  return bytesToHex(combined);
+}
+
+/**
+ * Decrypt a ciphertext with already derived keys, including the flags hidden in padded envelopes
+ * @param encryptedHex - Hex-encoded envelope or legacy v0 data (with or without 0x prefix)
+ * @param keys - One key per entry of `getKeyCandidates(encryptedHex)` (null to skip), or a resolver called lazily
+ * @param context - Expected context; envelopes bound to another context throw a ContextMismatchError
+ */
+export async function openEnvelope(
+  encryptedHex: string,
+  keys: (CryptoKey | null)[] | ((params: VaultKeyParams | null) => Promise<CryptoKey>),
+  context?: MessageContext
+): Promise<DecryptedPayload> {
+  const candidates = parseCandidates(encryptedHex);
+
+  for (const [i, candidate] of candidates.entries()) {
+    const key = Array.isArray(keys) ? keys[i] : await keys(candidate.params);
+    if (!key) continue;
+
+    let decrypted: ArrayBuffer;
+    try {
+      decrypted = await crypto.subtle.decrypt(
+        candidate.header
+          ? { name: "AES-GCM", iv: candidate.iv, additionalData: candidate.header }
+          : { name: "AES-GCM", iv: candidate.iv },
+        key,
+        candidate.ciphertext
+      );
+    } catch {
+      // AES-GCM decryption fails when password is wrong (authentication tag mismatch)
+      continue;
+    }
+
+    // The digest is authenticated, so a mismatch means the ciphertext was moved, not corrupted
+    if (context && candidate.contextDigest) {
+      const expected = bytesToHex(await digestContext(context));
+      if (bytesToHex(candidate.contextDigest) !== expected) throw new ContextMismatchError();
+    }
+
+    let body = new Uint8Array(decrypted);
+    let compressed = candidate.compressed;
+    let isResponse: boolean | null = null;
+    if (candidate.padded) {
+      const bodyLength = body.length >= PADDED_PREFIX_LENGTH ? new DataView(decrypted).getUint32(1) : -1;
+      if (bodyLength < 0 || PADDED_PREFIX_LENGTH + bodyLength > body.length) {
+        throw new Error("Invalid encrypted content: bad padding");
+      }
+      compressed = (body[0] & INNER_COMPRESSED) !== 0;
+      isResponse = (body[0] & INNER_RESPONSE) !== 0;
+      body = body.slice(PADDED_PREFIX_LENGTH, PADDED_PREFIX_LENGTH + bodyLength);
+    }
+
+    const plaintext = compressed ? await decompress(body) : body;
+    return { text: new TextDecoder().decode(plaintext), isResponse };
+  }
+
+  throw new Error("Decryption failed: incorrect password or corrupted data");
+}
+
+/**
+ * Decrypt a ciphertext with already derived keys
+ * @param encryptedHex - Hex-encoded envelope or legacy v0 data (with or without 0x prefix)
+ * @param keys - One key per entry of `getKeyCandidates(encryptedHex)` (null to skip), or a resolver called lazily
+ * @param context - Expected context; envelopes bound to another context throw a ContextMismatchError
+ * @returns Decrypted plain text
+ */
+export async function decryptWithKeys(
+  encryptedHex: string,
+  keys: (CryptoKey | null)[] | ((params: VaultKeyParams | null) => Promise<CryptoKey>),
+  context?: MessageContext
+): Promise<string> {
+  return (await openEnvelope(encryptedHex, keys, context)).text;
+}
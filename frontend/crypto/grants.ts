@@ -0,0 +1,74 @@
+/**
+ * Read grants (MessageGrants): chosen vault messages shown to another account until an expiry
+ *
+ * The owner decrypts each chosen message and seals its text (see crypto/ecies.ts) to the
+ * grantee's WhisperVault messaging key; the grantee opens it with the key pair derived from a
+ * signature, without ever learning the vault password or data key.
+ *
+ * Sealed message: the padded plaintext of direct messages, sealed to the grantee. The associated
+ * data binds it to its owner, grantee and vault index on one chain and MessageGrants contract, so
+ * a sealed message can't be passed off as another one of the vault.
+ */
+
+import { AbiCoder, getBytes } from "ethers";
+import { decodePlaintext, encodePlaintext } from "./direct";
+import { X25519KeyPair, open, seal } from "./ecies";
+import { Bytes } from "./kdf";
+
+const SEAL_INFO = "whisperlink-grant-seal-v1";
+const MESSAGE_TAG = "whisperlink-granted-message-v1";
+
+/**
+ * Where a granted message belongs: the chain, MessageGrants contract, vault owner and grantee
+ */
+export interface GrantContext {
+  chainId: number;
+  registry: string;
+  owner: string;
+  grantee: string;
+}
+
+function encodeAssociatedData(context: GrantContext, index: number): Bytes {
+  return new Uint8Array(
+    getBytes(
+      AbiCoder.defaultAbiCoder().encode(
+        ["string", "uint256", "address", "address", "address", "uint256"],
+        [MESSAGE_TAG, context.chainId, context.registry, context.owner, context.grantee, index]
+      )
+    )
+  );
+}
+
+/**
+ * Seal the text of a vault message to the grantee
+ * @param granteeKey - The grantee's published messaging key (0x hex)
+ * @param index - Index of the message in the owner's vault
+ * @returns The sealed message (0x hex)
+ */
+export async function sealGrantedMessage(
+  text: string,
+  granteeKey: string,
+  context: GrantContext,
+  index: number
+): Promise<string> {
+  return seal(await encodePlaintext(text), granteeKey, encodeAssociatedData(context, index), SEAL_INFO);
+}
+
+/**
+ * Open a message sealed with sealGrantedMessage, with the grantee's messaging key pair
+ * @returns The text, or null if it isn't sealed to this key pair or belongs elsewhere
+ */
+export async function openGrantedMessage(
+  sealedHex: string,
+  keyPair: X25519KeyPair,
+  context: GrantContext,
+  index: number
+): Promise<string | null> {
+  const plaintext = await open(sealedHex, keyPair, encodeAssociatedData(context, index), SEAL_INFO);
+  if (!plaintext) return null;
+  try {
+    return await decodePlaintext(plaintext);
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,165 @@
+/**
+ * Group conversations (GroupRegistry)
+ *
+ * Every group has a random AES-256 group key per epoch. Its creator or an admin wraps it (seals
+ * it, see crypto/ecies.ts) to the WhisperVault messaging key of each member; adding or removing a
+ * member starts a new epoch with a new key, so a removed member can't read what comes after and
+ * a new one can't read what came before.
+ *
+ * Group message or name: GROUP_VERSION (1) | IV (12) | ciphertext, over the padded plaintext of
+ * direct messages. The associated data binds a message to its sender and epoch, and a wrapped key
+ * to its member and epoch, on one chain and registry. A group key is never reused across groups,
+ * so a ciphertext can't be moved from one group to another either.
+ */
+
+import { AbiCoder, getBytes } from "ethers";
+import { decodePlaintext, encodePlaintext } from "./direct";
+import { X25519KeyPair, open, seal } from "./ecies";
+import { bytesToHex, hexToBytes } from "./envelope";
+import { Bytes } from "./kdf";
+
+export const MAX_GROUP_NAME_LENGTH = 64;
+
+const GROUP_VERSION = 1;
+const GROUP_KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+const WRAP_INFO = "whisperlink-group-key-v1";
+const KEY_TAG = "whisperlink-group-key-v1";
+const MESSAGE_TAG = "whisperlink-group-message-v1";
+const NAME_TAG = "whisperlink-group-name-v1";
+
+/**
+ * Where a group key, name or message belongs: the chain, GroupRegistry and key epoch
+ */
+export interface GroupContext {
+  chainId: number;
+  registry: string;
+  epoch: number;
+}
+
+/**
+ * A member to wrap a group key to, with the messaging key they published in WhisperVault
+ */
+export interface GroupMemberKey {
+  address: string;
+  messagingKey: string;
+}
+
+function encodeAssociatedData(tag: string, context: GroupContext, account?: string): Bytes {
+  const types = ["string", "uint256", "address", "uint256"];
+  const values: (string | number)[] = [tag, context.chainId, context.registry, context.epoch];
+  if (account) {
+    types.push("address");
+    values.push(account);
+  }
+  return new Uint8Array(getBytes(AbiCoder.defaultAbiCoder().encode(types, values)));
+}
+
+/**
+ * A new random group key
+ */
+export function generateGroupKey(): Bytes {
+  return crypto.getRandomValues(new Uint8Array(GROUP_KEY_LENGTH));
+}
+
+/**
+ * Wrap a group key to every member, in the order the registry lists them
+ * @returns The wrapped keys (0x hex)
+ */
+export function wrapGroupKey(groupKey: Bytes, members: GroupMemberKey[], context: GroupContext): Promise<string[]> {
+  return Promise.all(
+    members.map((member) =>
+      seal(groupKey, member.messagingKey, encodeAssociatedData(KEY_TAG, context, member.address), WRAP_INFO)
+    )
+  );
+}
+
+/**
+ * Unwrap the group key of an epoch with the member's messaging key pair
+ * @returns The group key, or null if it isn't wrapped to this key pair
+ */
+export async function unwrapGroupKey(
+  wrappedHex: string,
+  keyPair: X25519KeyPair,
+  member: string,
+  context: GroupContext
+): Promise<Bytes | null> {
+  const groupKey = await open(wrappedHex, keyPair, encodeAssociatedData(KEY_TAG, context, member), WRAP_INFO);
+  return groupKey?.length === GROUP_KEY_LENGTH ? groupKey : null;
+}
+
+/**
+ * Encrypt a text with a symmetric group or channel key (see crypto/channels.ts)
+ * @returns VERSION | IV | ciphertext (0x hex)
+ */
+export async function encryptWithGroupKey(text: string, groupKey: Bytes, associatedData: Bytes): Promise<string> {
+  const key = await crypto.subtle.importKey("raw", groupKey, "AES-GCM", false, ["encrypt"]);
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const ciphertext = new Uint8Array(
+    await crypto.subtle.encrypt({ name: "AES-GCM", iv, additionalData: associatedData }, key, await encodePlaintext(text))
+  );
+
+  const out = new Uint8Array(1 + IV_LENGTH + ciphertext.length);
+  out[0] = GROUP_VERSION;
+  out.set(iv, 1);
+  out.set(ciphertext, 1 + IV_LENGTH);
+  return "0x" + bytesToHex(out);
+}
+
+/**
+ * Decrypt a text encrypted with encryptWithGroupKey
+ * @returns The text, or null if the key or associated data is wrong
+ */
+export async function decryptWithGroupKey(encryptedHex: string, groupKey: Bytes, associatedData: Bytes): Promise<string | null> {
+  const data = hexToBytes(encryptedHex.replace(/^0x/, ""));
+  if (data[0] !== GROUP_VERSION || data.length <= 1 + IV_LENGTH) return null;
+
+  try {
+    const key = await crypto.subtle.importKey("raw", groupKey, "AES-GCM", false, ["decrypt"]);
+    const plaintext = await crypto.subtle.decrypt(
+      { name: "AES-GCM", iv: data.slice(1, 1 + IV_LENGTH), additionalData: associatedData },
+      key,
+      data.slice(1 + IV_LENGTH)
+    );
+    return await decodePlaintext(new Uint8Array(plaintext));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Encrypt a message to a group with the group key of the current epoch
+ * @returns The message (0x hex)
+ */
+export function encryptGroupMessage(text: string, groupKey: Bytes, context: GroupContext, sender: string): Promise<string> {
+  return encryptWithGroupKey(text, groupKey, encodeAssociatedData(MESSAGE_TAG, context, sender));
+}
+
+/**
+ * Decrypt a group message with the group key of its epoch
+ * @returns The text, or null if the key, epoch or sender is wrong
+ */
+export function decryptGroupMessage(
+  encryptedHex: string,
+  groupKey: Bytes,
+  context: GroupContext,
+  sender: string
+): Promise<string | null> {
+  return decryptWithGroupKey(encryptedHex, groupKey, encodeAssociatedData(MESSAGE_TAG, context, sender));
+}
+
+/**
+ * Encrypt a group's name with the group key of the current epoch
+ * @returns The encrypted name (0x hex)
+ */
+export function encryptGroupName(name: string, groupKey: Bytes, context: GroupContext): Promise<string> {
+  return encryptWithGroupKey(name, groupKey, encodeAssociatedData(NAME_TAG, context));
+}
+
+/**
+ * Decrypt a group's name
+ * @returns The name, or null if the key or epoch is wrong
+ */
+export function decryptGroupName(encryptedHex: string, groupKey: Bytes, context: GroupContext): Promise<string | null> {
+  return decryptWithGroupKey(encryptedHex, groupKey, encodeAssociatedData(NAME_TAG, context));
+}
@@ -0,0 +1,250 @@
+/**
+ * Guardian recovery: the vault data key split into Shamir shares, one per guardian
+ *
+ * The owner names 3 to 5 guardians in the GuardianRegistry contract, and any `threshold` of
+ * them can give the data key back. Each share is sealed to its guardian's X25519 key (see
+ * crypto/ecies.ts). To recover, the owner publishes a fresh recovery key and guardians seal
+ * their share to it instead. A hash of the data key is published with
+ * the shares, so shares from a dishonest guardian are found and left out.
+ *
+ * X25519 keys are derived from an EIP-712 signature like wallet keys (see crypto/walletKey.ts),
+ * so nobody has to store them, and they need the same deterministic signatures.
+ *
+ * Share: SHARE_VERSION (1) | x (1) | y (data key id + data key, 48)
+ * The associated data binds a sealed share to the owner, guardian, chain and registry, and a
+ * share handed back also to the recovery request.
+ */
+
+import { AbiCoder, getBytes, keccak256, solidityPacked } from "ethers";
+import { X25519KeyPair, deriveKeyPairFromSignature, open, seal } from "./ecies";
+import { Bytes } from "./kdf";
+import { DataKey } from "./keyring";
+import { SecretShare, combineShares, splitSecret } from "./shamir";
+
+export const MIN_GUARDIANS = 3;
+export const MAX_GUARDIANS = 5;
+
+const SHARE_VERSION = 1;
+const DATA_KEY_ID_LENGTH = 16;
+const SEAL_INFO = "whisperlink-guardian-seal-v1";
+const KEY_PAIR_INFO = "whisperlink-guardian-key-v1";
+const SHARE_TAG = "whisperlink-guardian-share-v1";
+const RETURNED_SHARE_TAG = "whisperlink-returned-share-v1";
+const COMMITMENT_TAG = "whisperlink-guardian-commitment-v1";
+
+const KEY_PURPOSES = {
+  guardian:
+    "Derive your WhisperLink guardian key. Only sign this on WhisperLink; anyone with this signature can read the recovery shares you hold.",
+  recovery:
+    "Derive the key that receives your WhisperLink recovery shares. Only sign this on WhisperLink; anyone with this signature can recover your vault.",
+} as const;
+
+export type GuardianKeyPurpose = keyof typeof KEY_PURPOSES;
+
+/**
+ * Where a share belongs: the vault owner, the guardian holding it, and the GuardianRegistry
+ */
+export interface GuardianShareContext {
+  owner: string;
+  guardian: string;
+  chainId: number;
+  registry: string;
+}
+
+/**
+ * A guardian and the encryption key they published in the registry
+ */
+export interface GuardianKey {
+  address: string;
+  publicKey: string;
+}
+
+/**
+ * A share handed back by a guardian, as read from the registry
+ */
+export interface ReturnedShare {
+  guardian: string;
+  sealed: string;
+}
+
+/**
+ * Build the EIP-712 payload signed to derive an X25519 key pair
+ * @param chainId - Chain the registry lives on
+ * @param registry - GuardianRegistry contract address
+ * @param account - Signing account
+ * @param purpose - "guardian" for the key shares are sealed to, "recovery" for a recovery request key
+ * @param nonce - Recovery request id, 0 for guardian keys
+ */
+export function buildGuardianKeyTypedData(
+  chainId: number,
+  registry: `0x${string}`,
+  account: `0x${string}`,
+  purpose: GuardianKeyPurpose,
+  nonce: bigint
+) {
+  return {
+    domain: {
+      name: "WhisperLink Guardian Key",
+      version: "1",
+      chainId,
+      verifyingContract: registry,
+    },
+    types: {
+      GuardianKey: [
+        { name: "account", type: "address" },
+        { name: "purpose", type: "string" },
+        { name: "nonce", type: "uint256" },
+      ],
+    },
+    primaryType: "GuardianKey",
+    message: {
+      account,
+      purpose: KEY_PURPOSES[purpose],
+      nonce,
+    },
+  } as const;
+}
+
+/**
+ * Turn a signature of buildGuardianKeyTypedData into an X25519 key pair
+ */
+export function deriveX25519KeyPair(signature: string): Promise<X25519KeyPair> {
+  return deriveKeyPairFromSignature(signature, KEY_PAIR_INFO);
+}
+
+/**
+ * Hash of a data key published with its shares, to check a recovered key
+ */
+export function getKeyCommitment(dataKey: DataKey): string {
+  return keccak256(solidityPacked(["string", "bytes", "bytes"], [COMMITMENT_TAG, dataKey.id, dataKey.raw]));
+}
+
+function encodeAssociatedData(tag: string, context: GuardianShareContext, requestId: bigint): Bytes {
+  return new Uint8Array(
+    getBytes(
+      AbiCoder.defaultAbiCoder().encode(
+        ["string", "uint256", "address", "address", "address", "uint256"],
+        [tag, context.chainId, context.registry, context.owner, context.guardian, requestId]
+      )
+    )
+  );
+}
+
+function encodeShare(share: SecretShare): Bytes {
+  const out = new Uint8Array(2 + share.y.length);
+  out[0] = SHARE_VERSION;
+  out[1] = share.x;
+  out.set(share.y, 2);
+  return out;
+}
+
+function decodeShare(data: Bytes): SecretShare | null {
+  if (data.length < 3 || data[0] !== SHARE_VERSION || data[1] === 0) return null;
+  return { x: data[1], y: data.slice(2) };
+}
+
+/**
+ * Split a data key into one sealed share per guardian
+ * @param context - Owner, chain and registry the shares are bound to
+ * @returns The sealed shares (0x hex, in guardian order) and the key commitment
+ */
+export async function createGuardianShares(
+  dataKey: DataKey,
+  guardians: GuardianKey[],
+  threshold: number,
+  context: Omit<GuardianShareContext, "guardian">
+): Promise<{ shares: string[]; keyCommitment: string }> {
+  if (guardians.length < MIN_GUARDIANS || guardians.length > MAX_GUARDIANS) {
+    throw new Error(`Name ${MIN_GUARDIANS} to ${MAX_GUARDIANS} guardians`);
+  }
+
+  const secret = new Uint8Array(dataKey.id.length + dataKey.raw.length);
+  secret.set(dataKey.id);
+  secret.set(dataKey.raw, dataKey.id.length);
+  const parts = splitSecret(secret, guardians.length, threshold);
+  secret.fill(0);
+
+  const shares = await Promise.all(
+    parts.map((part, i) =>
+      seal(
+        encodeShare(part),
+        guardians[i].publicKey,
+        encodeAssociatedData(SHARE_TAG, { ...context, guardian: guardians[i].address }, BigInt(0)),
+        SEAL_INFO
+      )
+    )
+  );
+  return { shares, keyCommitment: getKeyCommitment(dataKey) };
+}
+
+/**
+ * Re-seal a guardian's share to the owner's recovery key
+ * @param sealedShare - The share as published by the owner
+ * @param keyPair - The guardian's key pair
+ * @param recoveryKey - Recovery key of the open request (0x hex)
+ * @param requestId - Id of the open request
+ * @throws if the share can't be opened with this key pair
+ */
+export async function returnGuardianShare(
+  sealedShare: string,
+  keyPair: X25519KeyPair,
+  context: GuardianShareContext,
+  recoveryKey: string,
+  requestId: bigint
+): Promise<string> {
+  const share = await open(sealedShare, keyPair, encodeAssociatedData(SHARE_TAG, context, BigInt(0)), SEAL_INFO);
+  if (!share || !decodeShare(share)) throw new Error("This guardian key doesn't open the share");
+  try {
+    return await seal(share, recoveryKey, encodeAssociatedData(RETURNED_SHARE_TAG, context, requestId), SEAL_INFO);
+  } finally {
+    share.fill(0);
+  }
+}
+
+function* combinations<T>(items: T[], size: number, start = 0): Generator<T[]> {
+  if (size === 0) {
+    yield [];
+    return;
+  }
+  for (let i = start; i <= items.length - size; i++) {
+    for (const rest of combinations(items, size - 1, i + 1)) yield [items[i], ...rest];
+  }
+}
+
+/**
+ * Open the shares handed back for a recovery and recombine the data key
+ * @param keyPair - The recovery key pair of the request
+ * @param context - Owner, chain and registry the shares are bound to
+ * @param threshold - Number of shares needed
+ * @param keyCommitment - Commitment published with the shares
+ * @returns The data key, or null if not enough valid shares were handed back
+ */
+export async function recoverDataKeyFromShares(
+  returned: ReturnedShare[],
+  keyPair: X25519KeyPair,
+  context: Omit<GuardianShareContext, "guardian">,
+  requestId: bigint,
+  threshold: number,
+  keyCommitment: string
+): Promise<DataKey | null> {
+  const shares: SecretShare[] = [];
+  for (const { guardian, sealed } of returned) {
+    const data = await open(
+      sealed,
+      keyPair,
+      encodeAssociatedData(RETURNED_SHARE_TAG, { ...context, guardian }, requestId),
+      SEAL_INFO
+    );
+    const share = data && decodeShare(data);
+    if (share && !shares.some((other) => other.x === share.x)) shares.push(share);
+  }
+
+  // A dishonest guardian's share gives a key that doesn't match the commitment
+  for (const subset of combinations(shares, threshold)) {
+    const secret = combineShares(subset);
+    const dataKey = { id: secret.slice(0, DATA_KEY_ID_LENGTH), raw: secret.slice(DATA_KEY_ID_LENGTH) };
+    if (getKeyCommitment(dataKey) === keyCommitment.toLowerCase()) return dataKey;
+    secret.fill(0);
+  }
+  return null;
+}
@@ -0,0 +1,115 @@
+// @vitest-environment node
+import { describe, expect, it } from "vitest";
+import {
+  KDF_ARGON2ID,
+  KDF_DATA_KEY,
+  KDF_PBKDF2_SHA256,
+  KDF_RECOVERY_HKDF,
+  KDF_SCRYPT,
+  KDF_THREAD_KEY,
+  KDF_WALLET_HKDF,
+  KdfParams,
+  MIN_KDF_PARAMS,
+  decodeKdfParams,
+  deriveKey,
+  encodeKdfParams,
+} from "./kdf";
+
+const salt = new Uint8Array(16).fill(7);
+
+// Encrypt with one key and decrypt with another, to compare non-extractable keys
+async function sameKey(a: CryptoKey, b: CryptoKey): Promise<boolean> {
+  const iv = new Uint8Array(12);
+  const ciphertext = await crypto.subtle.encrypt({ name: "AES-GCM", iv }, a, new Uint8Array([1, 2, 3]));
+  return crypto.subtle.decrypt({ name: "AES-GCM", iv }, b, ciphertext).then(
+    () => true,
+    () => false
+  );
+}
+
+describe("kdf", () => {
+  it("round-trips the parameters of every KDF", () => {
+    const all: KdfParams[] = [
+      ...Object.values(MIN_KDF_PARAMS),
+      { kdf: KDF_PBKDF2_SHA256, iterations: 10 * 1000 * 1000 },
+      { kdf: KDF_SCRYPT, logN: 20, r: 8, p: 1 },
+      { kdf: KDF_ARGON2ID, memoryKiB: 1024 * 1024, passes: 2, parallelism: 1 },
+      { kdf: KDF_WALLET_HKDF },
+      { kdf: KDF_RECOVERY_HKDF },
+      { kdf: KDF_DATA_KEY },
+      { kdf: KDF_THREAD_KEY, thread: 42 },
+    ];
+    for (const params of all) {
+      expect(decodeKdfParams(params.kdf, encodeKdfParams(params))).toEqual(params);
+    }
+  });
+
+  it("refuses costs above the caps", () => {
+    const refused: KdfParams[] = [
+      { kdf: KDF_PBKDF2_SHA256, iterations: 10 * 1000 * 1000 + 1 },
+      { kdf: KDF_SCRYPT, logN: 21, r: 8, p: 1 },
+      { kdf: KDF_SCRYPT, logN: 15, r: 9, p: 1 },
+      { kdf: KDF_SCRYPT, logN: 15, r: 8, p: 2 },
+      { kdf: KDF_ARGON2ID, memoryKiB: 1024 * 1024 + 1, passes: 2, parallelism: 1 },
+      { kdf: KDF_ARGON2ID, memoryKiB: 19456, passes: 3, parallelism: 1 },
+      { kdf: KDF_ARGON2ID, memoryKiB: 19456, passes: 2, parallelism: 2 },
+    ];
+    for (const params of refused) {
+      expect(decodeKdfParams(params.kdf, encodeKdfParams(params))).toBeNull();
+    }
+  });
+
+  it("refuses zero costs, malformed encodings and unknown ids", () => {
+    const refused: KdfParams[] = [
+      { kdf: KDF_PBKDF2_SHA256, iterations: 0 },
+      { kdf: KDF_SCRYPT, logN: 0, r: 8, p: 1 },
+      { kdf: KDF_ARGON2ID, memoryKiB: 7, passes: 2, parallelism: 1 },
+      { kdf: KDF_ARGON2ID, memoryKiB: 19456, passes: 0, parallelism: 1 },
+      { kdf: KDF_THREAD_KEY, thread: 0 },
+    ];
+    for (const params of refused) {
+      expect(decodeKdfParams(params.kdf, encodeKdfParams(params))).toBeNull();
+    }
+
+    expect(decodeKdfParams(KDF_PBKDF2_SHA256, new Uint8Array(3))).toBeNull();
+    expect(decodeKdfParams(KDF_SCRYPT, new Uint8Array([15, 8, 1, 0]))).toBeNull();
+    expect(decodeKdfParams(KDF_WALLET_HKDF, new Uint8Array(1))).toBeNull();
+    expect(decodeKdfParams(99, new Uint8Array(0))).toBeNull();
+  });
+
+  it("decodes parameters from a slice of a larger buffer", () => {
+    const header = new Uint8Array([0xff, 0xff, ...encodeKdfParams(MIN_KDF_PARAMS.argon2id)]);
+    expect(decodeKdfParams(KDF_ARGON2ID, header.subarray(2))).toEqual(MIN_KDF_PARAMS.argon2id);
+  });
+
+  it("derives the same key from the same password and salt", async () => {
+    const cheap: KdfParams[] = [
+      { kdf: KDF_PBKDF2_SHA256, iterations: 1000 },
+      { kdf: KDF_SCRYPT, logN: 10, r: 8, p: 1 },
+      { kdf: KDF_ARGON2ID, memoryKiB: 64, passes: 1, parallelism: 1 },
+      { kdf: KDF_WALLET_HKDF },
+      { kdf: KDF_RECOVERY_HKDF },
+    ];
+    for (const params of cheap) {
+      const key = await deriveKey("correct horse", params, salt);
+      expect(await sameKey(key, await deriveKey("correct horse", params, salt))).toBe(true);
+      expect(await sameKey(key, await deriveKey("wrong horse", params, salt))).toBe(false);
+      expect(await sameKey(key, await deriveKey("correct horse", params, new Uint8Array(16)))).toBe(false);
+    }
+  });
+
+  it("keeps wallet and recovery keys apart", async () => {
+    const wallet = await deriveKey("secret", { kdf: KDF_WALLET_HKDF }, salt);
+    const recovery = await deriveKey("secret", { kdf: KDF_RECOVERY_HKDF }, salt);
+    expect(await sameKey(wallet, recovery)).toBe(false);
+  });
+
+  it("refuses to derive data and thread keys from a password", async () => {
+    await expect(deriveKey("password", { kdf: KDF_DATA_KEY }, salt)).rejects.toThrow(
+      "unwrapped from the vault keyring"
+    );
+    await expect(deriveKey("password", { kdf: KDF_THREAD_KEY, thread: 1 }, salt)).rejects.toThrow(
+      "derived from the vault data key"
+    );
+  });
+});
@@ -0,0 +1,316 @@
+/**
+ * Password-based key derivation for vault keys
+ *
+ * PBKDF2-SHA256 runs natively through Web Crypto. The memory-hard KDFs
+ * (scrypt, Argon2id) use the pure JS implementations from @noble/hashes.
+ * The KDF id and its parameters are stored in every ciphertext envelope, so a
+ * vault can move to stronger settings without breaking older messages.
+ *
+ * Wallet key vaults (see crypto/walletKey.ts) use HKDF-SHA256 over a deterministic
+ * wallet signature instead of a password; the signature takes the password's place.
+ * Recovery keys (see crypto/keyring.ts) use HKDF-SHA256 over the recovery phrase entropy.
+ * KDF_DATA_KEY marks envelopes encrypted with a vault's random data key, which is
+ * unwrapped from the vault keyring rather than derived. KDF_THREAD_KEY marks envelopes encrypted
+ * with a thread's own key, derived from the data key (see crypto/threads.ts).
+ */
+
+import { scryptAsync } from "@noble/hashes/scrypt";
+import { argon2idAsync } from "@noble/hashes/argon2";
+
+export const KDF_PBKDF2_SHA256 = 1;
+export const KDF_SCRYPT = 2;
+export const KDF_ARGON2ID = 3;
+export const KDF_WALLET_HKDF = 4;
+export const KDF_RECOVERY_HKDF = 5;
+export const KDF_DATA_KEY = 6;
+export const KDF_THREAD_KEY = 7;
+
+const WALLET_KEY_INFO = "whisperlink-wallet-key-v1";
+const RECOVERY_KEY_INFO = "whisperlink-recovery-key-v1";
+
+const KEY_LENGTH = 256;
+
+// Byte arrays backed by a plain ArrayBuffer, as accepted by crypto.subtle
+export type Bytes = Uint8Array<ArrayBuffer>;
+
+export type KdfParams =
+  | { kdf: typeof KDF_PBKDF2_SHA256; iterations: number }
+  | { kdf: typeof KDF_SCRYPT; logN: number; r: number; p: number }
+  | { kdf: typeof KDF_ARGON2ID; memoryKiB: number; passes: number; parallelism: number }
+  | { kdf: typeof KDF_WALLET_HKDF }
+  | { kdf: typeof KDF_RECOVERY_HKDF }
+  | { kdf: typeof KDF_DATA_KEY }
+  | { kdf: typeof KDF_THREAD_KEY; thread: number };
+
+export type KdfName = "pbkdf2" | "scrypt" | "argon2id";
+
+/**
+ * Lowest settings accepted for new vaults (OWASP password storage recommendations)
+ */
+export const MIN_KDF_PARAMS: Record<KdfName, KdfParams> = {
+  pbkdf2: { kdf: KDF_PBKDF2_SHA256, iterations: 100000 },
+  scrypt: { kdf: KDF_SCRYPT, logN: 15, r: 8, p: 1 },
+  argon2id: { kdf: KDF_ARGON2ID, memoryKiB: 19456, passes: 2, parallelism: 1 },
+};
+
+export const DEFAULT_KDF_PARAMS: KdfParams = MIN_KDF_PARAMS.pbkdf2;
+
+/**
+ * Highest costs benchmarkKdf picks; it keeps r, p, passes and parallelism of MIN_KDF_PARAMS.
+ * Settings are read from envelopes anyone can store, so decodeKdfParams refuses costlier ones
+ * instead of letting a crafted message hang the tab or exhaust its memory.
+ */
+const MAX_PBKDF2_ITERATIONS = 10 * 1000 * 1000;
+// 1 GiB with r = 8
+const MAX_SCRYPT_LOG_N = 20;
+const MAX_SCRYPT_R = 8;
+const MAX_SCRYPT_P = 1;
+const MAX_ARGON2_MEMORY_KIB = 1024 * 1024;
+const MAX_ARGON2_PASSES = 2;
+const MAX_ARGON2_PARALLELISM = 1;
+
+export function isWalletKdf(params: KdfParams): boolean {
+  return params.kdf === KDF_WALLET_HKDF;
+}
+
+export function getKdfName(params: KdfParams): KdfName | "wallet" {
+  switch (params.kdf) {
+    case KDF_WALLET_HKDF:
+      return "wallet";
+    case KDF_SCRYPT:
+      return "scrypt";
+    case KDF_ARGON2ID:
+      return "argon2id";
+    default:
+      return "pbkdf2";
+  }
+}
+
+/**
+ * Human readable summary of KDF settings, e.g. "scrypt (N=2^15, r=8, p=1)"
+ */
+export function describeKdf(params: KdfParams): string {
+  switch (params.kdf) {
+    case KDF_SCRYPT:
+      return `scrypt (N=2^${params.logN}, r=${params.r}, p=${params.p})`;
+    case KDF_ARGON2ID:
+      return `Argon2id (${Math.round(params.memoryKiB / 1024)} MiB, t=${params.passes}, p=${params.parallelism})`;
+    case KDF_WALLET_HKDF:
+      return "Wallet signature (EIP-712 + HKDF-SHA256)";
+    case KDF_RECOVERY_HKDF:
+      return "Recovery phrase (HKDF-SHA256)";
+    case KDF_DATA_KEY:
+      return "Random vault data key";
+    case KDF_THREAD_KEY:
+      return `Thread key (HKDF-SHA256 over the data key, thread ${params.thread})`;
+    default:
+      return `PBKDF2-SHA256 (${params.iterations.toLocaleString()} iterations)`;
+  }
+}
+
+/**
+ * Serialize KDF parameters for the envelope header (big-endian)
+ */
+export function encodeKdfParams(params: KdfParams): Bytes {
+  switch (params.kdf) {
+    case KDF_SCRYPT:
+      return new Uint8Array([params.logN, params.r, params.p]);
+    case KDF_ARGON2ID: {
+      const out = new Uint8Array(6);
+      const view = new DataView(out.buffer);
+      view.setUint32(0, params.memoryKiB);
+      view.setUint8(4, params.passes);
+      view.setUint8(5, params.parallelism);
+      return out;
+    }
+    case KDF_WALLET_HKDF:
+    case KDF_RECOVERY_HKDF:
+    case KDF_DATA_KEY:
+      return new Uint8Array(0);
+    case KDF_THREAD_KEY: {
+      const out = new Uint8Array(4);
+      new DataView(out.buffer).setUint32(0, params.thread);
+      return out;
+    }
+    default: {
+      const out = new Uint8Array(4);
+      new DataView(out.buffer).setUint32(0, params.iterations);
+      return out;
+    }
+  }
+}
+
+/**
+ * Parse KDF parameters from an envelope header
+ * @returns The parameters, or null when the id or encoding is unknown
+ */
+export function decodeKdfParams(kdf: number, raw: Bytes): KdfParams | null {
+  const view = new DataView(raw.buffer, raw.byteOffset, raw.byteLength);
+
+  if (kdf === KDF_PBKDF2_SHA256 && raw.length === 4) {
+    const iterations = view.getUint32(0);
+    return iterations > 0 && iterations <= MAX_PBKDF2_ITERATIONS ? { kdf, iterations } : null;
+  }
+
+  if (kdf === KDF_SCRYPT && raw.length === 3) {
+    const [logN, r, p] = raw;
+    return logN > 0 && logN <= MAX_SCRYPT_LOG_N && r > 0 && r <= MAX_SCRYPT_R && p > 0 && p <= MAX_SCRYPT_P
+      ? { kdf, logN, r, p }
+      : null;
+  }
+
+  if (kdf === KDF_ARGON2ID && raw.length === 6) {
+    const memoryKiB = view.getUint32(0);
+    const passes = view.getUint8(4);
+    const parallelism = view.getUint8(5);
+    return memoryKiB >= 8 * parallelism &&
+      memoryKiB <= MAX_ARGON2_MEMORY_KIB &&
+      passes > 0 &&
+      passes <= MAX_ARGON2_PASSES &&
+      parallelism > 0 &&
+      parallelism <= MAX_ARGON2_PARALLELISM
+      ? { kdf, memoryKiB, passes, parallelism }
+      : null;
+  }
+
+  if ((kdf === KDF_WALLET_HKDF || kdf === KDF_RECOVERY_HKDF || kdf === KDF_DATA_KEY) && raw.length === 0) {
+    return { kdf };
+  }
+
+  if (kdf === KDF_THREAD_KEY && raw.length === 4) {
+    const thread = view.getUint32(0);
+    return thread > 0 ? { kdf, thread } : null;
+  }
+
+  return null;
+}
+
+/**
+ * Derive a non-extractable AES-GCM key from a password (or wallet signature for KDF_WALLET_HKDF,
+ * recovery phrase entropy for KDF_RECOVERY_HKDF)
+ */
+export async function deriveKey(password: string, params: KdfParams, salt: Bytes): Promise<CryptoKey> {
+  const passwordBuffer = new TextEncoder().encode(password);
+
+  if (params.kdf === KDF_DATA_KEY) {
+    throw new Error("Data keys are unwrapped from the vault keyring, not derived");
+  }
+
+  if (params.kdf === KDF_THREAD_KEY) {
+    throw new Error("Thread keys are derived from the vault data key, not a password");
+  }
+
+  if (params.kdf === KDF_WALLET_HKDF || params.kdf === KDF_RECOVERY_HKDF) {
+    const keyMaterial = await crypto.subtle.importKey("raw", passwordBuffer, "HKDF", false, ["deriveKey"]);
+
+    return crypto.subtle.deriveKey(
+      {
+        name: "HKDF",
+        hash: "SHA-256",
+        salt,
+        info: new TextEncoder().encode(params.kdf === KDF_WALLET_HKDF ? WALLET_KEY_INFO : RECOVERY_KEY_INFO),
+      },
+      keyMaterial,
+      { name: "AES-GCM", length: KEY_LENGTH },
+      false,
+      ["encrypt", "decrypt"]
+    );
+  }
+
+  if (params.kdf === KDF_PBKDF2_SHA256) {
+    const keyMaterial = await crypto.subtle.importKey("raw", passwordBuffer, "PBKDF2", false, ["deriveKey"]);
+
+    return crypto.subtle.deriveKey(
+      {
+        name: "PBKDF2",
+        salt,
+        iterations: params.iterations,
+        hash: "SHA-256",
+      },
+      keyMaterial,
+      { name: "AES-GCM", length: KEY_LENGTH },
+      false,
+      ["encrypt", "decrypt"]
+    );
+  }
+
+  const rawKey =
+    params.kdf === KDF_SCRYPT
+      ? await scryptAsync(passwordBuffer, salt, { N: 2 ** params.logN, r: params.r, p: params.p, dkLen: KEY_LENGTH / 8 })
+      : await argon2idAsync(passwordBuffer, salt, {
+          m: params.memoryKiB,
+          t: params.passes,
+          p: params.parallelism,
+          dkLen: KEY_LENGTH / 8,
+        });
+
+  try {
+    return await crypto.subtle.importKey("raw", new Uint8Array(rawKey), "AES-GCM", false, ["encrypt", "decrypt"]);
+  } finally {
+    rawKey.fill(0);
+  }
+}
+
+/**
+ * Scale the cost parameter of a KDF by a factor, keeping the other settings
+ */
+function scaleKdf(params: KdfParams, factor: number): KdfParams {
+  switch (params.kdf) {
+    case KDF_SCRYPT:
+      // N must stay a power of two
+      return {
+        ...params,
+        logN: Math.min(MAX_SCRYPT_LOG_N, params.logN + Math.max(0, Math.floor(Math.log2(factor)))),
+      };
+    case KDF_ARGON2ID:
+      // Round memory to whole MiB
+      return {
+        ...params,
+        memoryKiB: Math.min(MAX_ARGON2_MEMORY_KIB, Math.floor((params.memoryKiB * factor) / 1024) * 1024),
+      };
+    case KDF_WALLET_HKDF:
+    case KDF_RECOVERY_HKDF:
+    case KDF_DATA_KEY:
+    case KDF_THREAD_KEY:
+      return params;
+    default:
+      return {
+        ...params,
+        iterations: Math.min(MAX_PBKDF2_ITERATIONS, Math.floor((params.iterations * factor) / 1000) * 1000),
+      };
+  }
+}
+
+/**
+ * Measure a KDF on this device and scale its cost so one derivation takes about `targetMs`.
+ * Never returns settings below MIN_KDF_PARAMS, so slow devices may exceed the target.
+ * @param name - KDF to calibrate
+ * @param targetMs - Desired derivation time in milliseconds
+ * @returns Calibrated parameters and the measured duration of the final settings
+ */
+export async function benchmarkKdf(
+  name: KdfName,
+  targetMs = 500
+): Promise<{ params: KdfParams; durationMs: number }> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const time = async (params: KdfParams) => {
+    const start = performance.now();
+    await deriveKey("whisperlink-benchmark", params, salt);
+    return performance.now() - start;
+  };
+
+  let params = MIN_KDF_PARAMS[name];
+  let durationMs = await time(params);
+
+  // Grow the cost until a derivation reaches the target (a couple of rounds at most)
+  for (let round = 0; round < 4 && durationMs < targetMs * 0.8; round++) {
+    const next = scaleKdf(params, targetMs / Math.max(durationMs, 1));
+    if (JSON.stringify(next) === JSON.stringify(params)) break;
+    const nextDuration = await time(next);
+    if (nextDuration > targetMs * 1.5) break;
+    params = next;
+    durationMs = nextDuration;
+  }
+
+  return { params, durationMs };
+}
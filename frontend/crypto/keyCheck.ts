@@ -0,0 +1,39 @@
+/**
+ * Key-check values: a known constant encrypted with the vault key
+ *
+ * Each vault stores one (on-chain via WhisperVault.setKeyCheck, in localStorage in demo
+ * mode) so a wrong password is refused when unlocking, instead of showing up later as
+ * messages that fail to decrypt. The value is a regular envelope, so it also records the
+ * vault's KDF and salt. It is bound to the vault context at KEY_CHECK_SEQUENCE, an index no
+ * message can have, so it can't be passed off as a message or copied into another vault.
+ */
+
+import { ContextMismatchError, MessageContext, VaultKeyParams, encryptWithKey, openEnvelope } from "./envelope";
+
+export const KEY_CHECK_SEQUENCE = Number.MAX_SAFE_INTEGER;
+
+const KEY_CHECK_TEXT = "whisperlink-key-check-v1";
+
+export type VaultContext = Omit<MessageContext, "sequence">;
+
+/**
+ * Encrypt the key-check value for a vault
+ * @returns Hex-encoded envelope
+ */
+export function createKeyCheck(key: CryptoKey, params: VaultKeyParams, context: VaultContext): Promise<string> {
+  return encryptWithKey(KEY_CHECK_TEXT, key, params, { context: { ...context, sequence: KEY_CHECK_SEQUENCE } });
+}
+
+/**
+ * Check a key against a vault's key-check value
+ * @returns false if the key is wrong; throws a ContextMismatchError if the value belongs to another vault
+ */
+export async function verifyKeyCheck(keyCheckHex: string, key: CryptoKey, context: VaultContext): Promise<boolean> {
+  try {
+    const { text } = await openEnvelope(keyCheckHex, [key], { ...context, sequence: KEY_CHECK_SEQUENCE });
+    return text === KEY_CHECK_TEXT;
+  } catch (err) {
+    if (err instanceof ContextMismatchError) throw err;
+    return false;
+  }
+}
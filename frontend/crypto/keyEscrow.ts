@@ -0,0 +1,76 @@
+/**
+ * Key escrow: the vault data key stored as FHE-encrypted euint256 values in VaultKeyEscrow
+ *
+ * The 32 byte data key and its 16 byte id each fill one euint256 (KEY_CHUNKS). They are encrypted
+ * for the contract and the owner in the browser, and only accounts the owner allowed in the FHEVM
+ * ACL can decrypt them: the owner, to recover the vault without a password, and grantees, to read
+ * it. A hash of the data key is published with the chunks, so a decrypted key is checked before use.
+ *
+ * A grantee only holds the data key, not the password: messages encrypted with the data key or a
+ * thread key derived from it open, messages written before the vault had a keyring don't.
+ */
+
+import { getBytes, hexlify, keccak256, solidityPacked, toBeHex } from "ethers";
+import { DecryptedPayload, MessageContext, VaultKeyParams, getKeyCandidates, openEnvelope } from "./envelope";
+import { KDF_DATA_KEY, KDF_THREAD_KEY } from "./kdf";
+import { DataKey } from "./keyring";
+import { VaultKeySession } from "./session";
+
+export const KEY_CHUNKS = 2;
+
+const DATA_KEY_LENGTH = 32;
+const DATA_KEY_ID_LENGTH = 16;
+const COMMITMENT_TAG = "whisperlink-key-escrow-commitment-v1";
+
+/**
+ * Hash of a data key published with its encrypted chunks, to check a decrypted key
+ */
+export function getEscrowCommitment(dataKey: DataKey): string {
+  return keccak256(solidityPacked(["string", "bytes", "bytes"], [COMMITMENT_TAG, dataKey.id, dataKey.raw]));
+}
+
+/**
+ * Split a data key into the values encrypted as euint256: the key, then its id
+ */
+export function dataKeyToChunks(dataKey: DataKey): bigint[] {
+  return [BigInt(hexlify(dataKey.raw)), BigInt(hexlify(dataKey.id))];
+}
+
+/**
+ * Join decrypted chunks back into a data key
+ * @param keyCommitment - Commitment published with the chunks
+ * @returns The data key, or null if the chunks don't match the commitment
+ */
+export function chunksToDataKey(chunks: bigint[], keyCommitment: string): DataKey | null {
+  if (chunks.length !== KEY_CHUNKS || chunks[1] >= BigInt(2) ** BigInt(DATA_KEY_ID_LENGTH * 8)) return null;
+  const dataKey = {
+    raw: new Uint8Array(getBytes(toBeHex(chunks[0], DATA_KEY_LENGTH))),
+    id: new Uint8Array(getBytes(toBeHex(chunks[1], DATA_KEY_ID_LENGTH))),
+  };
+  if (getEscrowCommitment(dataKey) === keyCommitment.toLowerCase()) return dataKey;
+  dataKey.raw.fill(0);
+  return null;
+}
+
+function usesDataKey(params: VaultKeyParams | null): params is VaultKeyParams {
+  return params?.kdf.kdf === KDF_DATA_KEY || params?.kdf.kdf === KDF_THREAD_KEY;
+}
+
+/**
+ * Open a message of someone else's vault with its data key alone
+ * @param session - A session holding only the owner's data key (see VaultKeySession.addDataKey)
+ * @param context - Context of the message in the owner's vault
+ * @throws if the message isn't encrypted with the data key, or a ContextMismatchError if it was moved
+ */
+export async function openWithDataKey(
+  encryptedHex: string,
+  session: VaultKeySession,
+  context: MessageContext
+): Promise<DecryptedPayload> {
+  const keys = await Promise.all(
+    getKeyCandidates(encryptedHex).map((params) =>
+      usesDataKey(params) ? session.getKey(params).catch(() => null) : null
+    )
+  );
+  return openEnvelope(encryptedHex, keys, context);
+}
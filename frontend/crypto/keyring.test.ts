@@ -0,0 +1,130 @@
+// @vitest-environment node
+import { describe, expect, it } from "vitest";
+import { ContextMismatchError, bytesToHex, createVaultKeyParams, decryptWithKeys, encryptWithKey } from "./envelope";
+import { KDF_PBKDF2_SHA256, deriveKey } from "./kdf";
+import { VaultContext, createKeyCheck } from "./keyCheck";
+import {
+  RECOVERY_KEY_KDF,
+  createDataKey,
+  createRecoveryPhrase,
+  decodeKeyring,
+  encodeKeyring,
+  formatRecoveryKit,
+  getDataKeyParams,
+  getKeyringEntries,
+  importDataKey,
+  parseRecoveryKit,
+  recoveryPhraseToSecret,
+  unwrapDataKey,
+  wrapDataKey,
+} from "./keyring";
+
+const context: VaultContext = {
+  owner: "0x" + "a1".repeat(20),
+  chainId: 31337,
+  vault: "0x" + "b2".repeat(20),
+};
+
+const passwordParams = createVaultKeyParams({ kdf: KDF_PBKDF2_SHA256, iterations: 1000 });
+
+describe("keyring", () => {
+  it("wraps and unwraps a data key", async () => {
+    const dataKey = createDataKey();
+    const key = await deriveKey("password", passwordParams.kdf, passwordParams.salt);
+    const entry = await wrapDataKey(dataKey, key, passwordParams, context);
+
+    const unwrapped = await unwrapDataKey(entry, key, context);
+    expect(unwrapped).not.toBeNull();
+    expect(bytesToHex(unwrapped!.id)).toBe(bytesToHex(dataKey.id));
+    expect(bytesToHex(unwrapped!.raw)).toBe(bytesToHex(dataKey.raw));
+
+    // Messages encrypted with the data key open with the unwrapped copy
+    const message = await encryptWithKey("Hello", await importDataKey(dataKey), getDataKeyParams(dataKey));
+    expect(await decryptWithKeys(message, [await importDataKey(unwrapped!)])).toBe("Hello");
+  });
+
+  it("unwraps nothing with the wrong key", async () => {
+    const entry = await wrapDataKey(
+      createDataKey(),
+      await deriveKey("password", passwordParams.kdf, passwordParams.salt),
+      passwordParams,
+      context
+    );
+    const wrong = await deriveKey("not the password", passwordParams.kdf, passwordParams.salt);
+    expect(await unwrapDataKey(entry, wrong, context)).toBeNull();
+  });
+
+  it("refuses an entry copied from another vault", async () => {
+    const key = await deriveKey("password", passwordParams.kdf, passwordParams.salt);
+    const entry = await wrapDataKey(createDataKey(), key, passwordParams, context);
+    await expect(unwrapDataKey(entry, key, { ...context, owner: "0x" + "c3".repeat(20) })).rejects.toBeInstanceOf(
+      ContextMismatchError
+    );
+  });
+
+  it("doesn't take a key check for a data key", async () => {
+    const key = await deriveKey("password", passwordParams.kdf, passwordParams.salt);
+    expect(await unwrapDataKey(await createKeyCheck(key, passwordParams, context), key, context)).toBeNull();
+  });
+
+  it("round-trips keyring entries and tells the recovery entry apart", async () => {
+    const dataKey = createDataKey();
+    const recoveryParams = createVaultKeyParams(RECOVERY_KEY_KDF);
+    const secret = recoveryPhraseToSecret(createRecoveryPhrase());
+    const unlock = await wrapDataKey(
+      dataKey,
+      await deriveKey("password", passwordParams.kdf, passwordParams.salt),
+      passwordParams,
+      context
+    );
+    const recovery = await wrapDataKey(
+      dataKey,
+      await deriveKey(secret, RECOVERY_KEY_KDF, recoveryParams.salt),
+      recoveryParams,
+      context
+    );
+
+    const entries = decodeKeyring("0x" + encodeKeyring([recovery, "0x" + unlock]));
+    expect(entries).toEqual([recovery, unlock]);
+    expect(getKeyringEntries(entries!)).toEqual({ unlock, recovery });
+    expect(getKeyringEntries([unlock])).toEqual({ unlock, recovery: null });
+
+    const recoveryKey = await deriveKey(secret, RECOVERY_KEY_KDF, recoveryParams.salt);
+    const recovered = await unwrapDataKey(recovery, recoveryKey, context);
+    expect(bytesToHex(recovered!.raw)).toBe(bytesToHex(dataKey.raw));
+  });
+
+  it("refuses keyrings that are truncated, too long or not a keyring", async () => {
+    const keyring = encodeKeyring(["aabbcc", "ddeeff"]);
+    expect(decodeKeyring(keyring)).toEqual(["aabbcc", "ddeeff"]);
+    expect(decodeKeyring(keyring.slice(0, -2))).toBeNull();
+    expect(decodeKeyring(keyring + "00")).toBeNull();
+    expect(decodeKeyring("0x")).toBeNull();
+
+    // A plain key check starts with an envelope version, not the keyring version
+    const key = await deriveKey("password", passwordParams.kdf, passwordParams.salt);
+    expect(decodeKeyring(await createKeyCheck(key, passwordParams, context))).toBeNull();
+  });
+
+  it("reads recovery phrases regardless of case and spacing", () => {
+    const phrase = createRecoveryPhrase();
+    expect(phrase.split(" ")).toHaveLength(12);
+
+    const secret = recoveryPhraseToSecret(phrase);
+    expect(recoveryPhraseToSecret(`  ${phrase.toUpperCase().split(" ").join("\n  ")} `)).toBe(secret);
+
+    const words = phrase.split(" ");
+    const misspelled = [...words.slice(1), "whisperlink"].join(" ");
+    expect(() => recoveryPhraseToSecret(misspelled)).toThrow("Invalid recovery phrase");
+    expect(() => recoveryPhraseToSecret(words.slice(1).join(" "))).toThrow("Invalid recovery phrase");
+  });
+
+  it("reads the phrase back from a recovery kit", () => {
+    const phrase = createRecoveryPhrase();
+    const kit = formatRecoveryKit(phrase, context.owner, context.chainId);
+
+    expect(parseRecoveryKit(kit)).toBe(phrase);
+    expect(parseRecoveryKit(kit.replace(/\n/g, "\r\n"))).toBe(phrase);
+    expect(parseRecoveryKit(`  ${phrase}\n`)).toBe(phrase);
+  });
+});
@@ -0,0 +1,201 @@
+/**
+ * Vault keyring: a random data key, wrapped by the password (or wallet) key and a recovery key
+ *
+ * Messages of keyring vaults are encrypted with the data key (KDF_DATA_KEY envelopes, whose
+ * salt is the data key id). A password change only rewraps the data key, and the recovery
+ * phrase opens every message even when the password is forgotten. The keyring is stored in
+ * the key check's place and doubles as one: a wrong password fails to unwrap the data key.
+ *
+ * Keyring: KEYRING_VERSION (1) | count (1) | (entryLength (2) | entry)*
+ * Each entry is an envelope bound to the vault context at KEY_CHECK_SEQUENCE, holding
+ * DATA_KEY_TAG ":" id (hex) ":" key (hex). Its header names the wrapping KDF, so the
+ * recovery entry (KDF_RECOVERY_HKDF) is told apart from the unlock entry.
+ *
+ * The recovery phrase is a 12-word BIP-39 mnemonic over 128 random bits. Being random,
+ * it only needs HKDF rather than a slow password KDF.
+ */
+
+import { Mnemonic } from "ethers";
+import {
+  ContextMismatchError,
+  VaultKeyParams,
+  bytesToHex,
+  encryptWithKey,
+  getVaultKeyParams,
+  hexToBytes,
+  openEnvelope,
+} from "./envelope";
+import { Bytes, KDF_DATA_KEY, KDF_RECOVERY_HKDF, KdfParams } from "./kdf";
+import { KEY_CHECK_SEQUENCE, VaultContext } from "./keyCheck";
+
+export const RECOVERY_KEY_KDF: KdfParams = { kdf: KDF_RECOVERY_HKDF };
+
+const KEYRING_VERSION = 0x81;
+const DATA_KEY_TAG = "whisperlink-data-key-v1";
+const DATA_KEY_LENGTH = 32;
+const DATA_KEY_ID_LENGTH = 16;
+const RECOVERY_ENTROPY_LENGTH = 16;
+const KIT_PHRASE_LABEL = "Recovery phrase:";
+
+/**
+ * A vault's random data key. The raw bytes are kept so the key can be wrapped again.
+ */
+export interface DataKey {
+  id: Bytes;
+  raw: Bytes;
+}
+
+/**
+ * Create a fresh random data key
+ */
+export function createDataKey(): DataKey {
+  return {
+    id: crypto.getRandomValues(new Uint8Array(DATA_KEY_ID_LENGTH)),
+    raw: crypto.getRandomValues(new Uint8Array(DATA_KEY_LENGTH)),
+  };
+}
+
+/**
+ * Envelope key settings of messages encrypted with a data key
+ */
+export function getDataKeyParams(dataKey: DataKey): VaultKeyParams {
+  return { kdf: { kdf: KDF_DATA_KEY }, salt: dataKey.id };
+}
+
+export function importDataKey(dataKey: DataKey): Promise<CryptoKey> {
+  return crypto.subtle.importKey("raw", dataKey.raw, "AES-GCM", false, ["encrypt", "decrypt"]);
+}
+
+/**
+ * Encrypt a data key with a wrapping key
+ * @param params - Settings the wrapping key was derived with, recorded in the entry
+ * @returns Hex-encoded keyring entry
+ */
+export function wrapDataKey(
+  dataKey: DataKey,
+  key: CryptoKey,
+  params: VaultKeyParams,
+  context: VaultContext
+): Promise<string> {
+  const text = `${DATA_KEY_TAG}:${bytesToHex(dataKey.id)}:${bytesToHex(dataKey.raw)}`;
+  return encryptWithKey(text, key, params, { context: { ...context, sequence: KEY_CHECK_SEQUENCE }, compress: false });
+}
+
+/**
+ * Decrypt a data key from a keyring entry
+ * @returns The data key, or null if the wrapping key is wrong; throws a ContextMismatchError
+ * if the entry belongs to another vault
+ */
+export async function unwrapDataKey(entry: string, key: CryptoKey, context: VaultContext): Promise<DataKey | null> {
+  let text: string;
+  try {
+    ({ text } = await openEnvelope(entry, [key], { ...context, sequence: KEY_CHECK_SEQUENCE }));
+  } catch (err) {
+    if (err instanceof ContextMismatchError) throw err;
+    return null;
+  }
+
+  const [tag, id, raw] = text.split(":");
+  if (tag !== DATA_KEY_TAG || id?.length !== DATA_KEY_ID_LENGTH * 2 || raw?.length !== DATA_KEY_LENGTH * 2) {
+    return null;
+  }
+  return { id: hexToBytes(id), raw: hexToBytes(raw) };
+}
+
+/**
+ * Serialize keyring entries
+ * @returns Hex-encoded keyring
+ */
+export function encodeKeyring(entries: string[]): string {
+  const parts = entries.map((entry) => hexToBytes(entry.replace(/^0x/, "")));
+  const out = new Uint8Array(2 + parts.reduce((sum, part) => sum + 2 + part.length, 0));
+  const view = new DataView(out.buffer);
+  out[0] = KEYRING_VERSION;
+  out[1] = parts.length;
+  let offset = 2;
+  for (const part of parts) {
+    view.setUint16(offset, part.length);
+    out.set(part, offset + 2);
+    offset += 2 + part.length;
+  }
+  return bytesToHex(out);
+}
+
+/**
+ * Parse a keyring
+ * @returns Hex-encoded entries, or null if the value is not a keyring (e.g. a plain key check)
+ */
+export function decodeKeyring(keyringHex: string): string[] | null {
+  const clean = keyringHex.replace(/^0x/, "");
+  if (clean.length < 4) return null;
+  const data = hexToBytes(clean);
+  if (data[0] !== KEYRING_VERSION) return null;
+
+  const view = new DataView(data.buffer);
+  const entries: string[] = [];
+  let offset = 2;
+  for (let i = 0; i < data[1]; i++) {
+    if (offset + 2 > data.length) return null;
+    const length = view.getUint16(offset);
+    if (offset + 2 + length > data.length) return null;
+    entries.push(bytesToHex(data.slice(offset + 2, offset + 2 + length)));
+    offset += 2 + length;
+  }
+  return offset === data.length ? entries : null;
+}
+
+/**
+ * Split keyring entries into the one unlocked by the password or wallet key and the recovery one
+ */
+export function getKeyringEntries(entries: string[]): { unlock: string | null; recovery: string | null } {
+  const isRecovery = (entry: string) => getVaultKeyParams(entry)?.kdf.kdf === KDF_RECOVERY_HKDF;
+  return {
+    unlock: entries.find((entry) => !isRecovery(entry)) ?? null,
+    recovery: entries.find(isRecovery) ?? null,
+  };
+}
+
+/**
+ * Generate a new 12-word recovery phrase
+ */
+export function createRecoveryPhrase(): string {
+  return Mnemonic.entropyToPhrase(crypto.getRandomValues(new Uint8Array(RECOVERY_ENTROPY_LENGTH)));
+}
+
+/**
+ * Turn a recovery phrase into the secret its key is derived from (KDF_RECOVERY_HKDF).
+ * Case and extra whitespace are ignored.
+ */
+export function recoveryPhraseToSecret(phrase: string): string {
+  const normalized = phrase.trim().toLowerCase().split(/\s+/).join(" ");
+  if (!Mnemonic.isValidMnemonic(normalized)) throw new Error("Invalid recovery phrase");
+  return Mnemonic.phraseToEntropy(normalized);
+}
+
+/**
+ * Text of a recovery kit file, readable by parseRecoveryKit
+ */
+export function formatRecoveryKit(phrase: string, owner: string, chainId: number): string {
+  return [
+    "WhisperLink Recovery Kit",
+    "",
+    `Address: ${owner}`,
+    `Chain ID: ${chainId}`,
+    `Created: ${new Date().toISOString()}`,
+    "",
+    KIT_PHRASE_LABEL,
+    phrase,
+    "",
+    "Anyone with this phrase can read your messages. Keep it offline and private.",
+    "",
+  ].join("\n");
+}
+
+/**
+ * Read the recovery phrase from a kit file, or from the phrase on its own
+ */
+export function parseRecoveryKit(text: string): string {
+  const lines = text.split(/\r?\n/);
+  const label = lines.findIndex((line) => line.trim() === KIT_PHRASE_LABEL);
+  return (label >= 0 ? lines[label + 1] ?? "" : text).trim();
+}
@@ -0,0 +1,77 @@
+/**
+ * Encrypted message labels
+ *
+ * The labels of a message are stored next to it (WhisperVault.setLabels) as one envelope,
+ * encrypted with the vault key like the message itself, so label names never appear on-chain.
+ * The envelope is bound to the message position shifted by LABEL_SEQUENCE_OFFSET, an index
+ * range no message reaches, so labels can't be passed off as a message or moved to another one.
+ *
+ * Plaintext: label names joined by newlines, padded with newlines to a multiple of
+ * LABEL_BLOCK_SIZE bytes and never compressed, so the stored size only tells how many blocks
+ * the names take, not their exact length.
+ */
+
+import { EncryptOptions, MessageContext } from "./envelope";
+
+export const LABEL_SEQUENCE_OFFSET = 2 ** 52;
+export const MAX_LABELS = 8;
+export const MAX_LABEL_LENGTH = 32;
+
+const LABEL_BLOCK_SIZE = 32;
+
+/**
+ * Canonical form of a label name: trimmed, lowercase, inner whitespace collapsed
+ * @returns The label, or null if it is empty or too long
+ */
+export function normalizeLabel(name: string): string | null {
+  const label = name.trim().toLowerCase().replace(/\s+/g, " ");
+  if (!label || label.length > MAX_LABEL_LENGTH) return null;
+  return label;
+}
+
+/**
+ * Parse a comma-separated list of labels as typed by the user
+ * @throws if a label is too long or there are too many
+ */
+export function parseLabelList(input: string): string[] {
+  const labels: string[] = [];
+  for (const part of input.split(",")) {
+    if (!part.trim()) continue;
+    const label = normalizeLabel(part);
+    if (!label) throw new Error(`Labels can be at most ${MAX_LABEL_LENGTH} characters`);
+    if (!labels.includes(label)) labels.push(label);
+  }
+  if (labels.length > MAX_LABELS) throw new Error(`A message can have at most ${MAX_LABELS} labels`);
+  return labels;
+}
+
+/**
+ * Plaintext of a label envelope
+ */
+export function encodeLabels(labels: string[]): string {
+  const text = labels.join("\n");
+  const size = new TextEncoder().encode(text).length;
+  const padded = Math.ceil((size + 1) / LABEL_BLOCK_SIZE) * LABEL_BLOCK_SIZE;
+  return text + "\n".repeat(padded - size);
+}
+
+/**
+ * Label names from the plaintext of a label envelope
+ */
+export function decodeLabels(text: string): string[] {
+  return text.split("\n").filter((label) => label.length > 0);
+}
+
+/**
+ * Context the labels of the message at `context.sequence` are bound to
+ */
+export function getLabelContext(context: MessageContext): MessageContext {
+  return { ...context, sequence: LABEL_SEQUENCE_OFFSET + context.sequence };
+}
+
+/**
+ * Envelope options for the labels of a message
+ */
+export function getLabelEncryptOptions(context: MessageContext): EncryptOptions {
+  return { context: getLabelContext(context), compress: false };
+}
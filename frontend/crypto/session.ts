@@ -0,0 +1,85 @@
+/**
+ * Key cache for an unlocked vault
+ *
+ * Deriving a vault key is deliberately slow (PBKDF2/scrypt/Argon2id), so the
+ * non-extractable CryptoKey for each (KDF, salt) pair is derived once and
+ * reused until the vault is locked. Keys can be posted to crypto workers as-is.
+ * Keyring vaults also hold their unwrapped data key, which is never derived, and the
+ * thread keys derived from it.
+ */
+
+import { LEGACY_KDF, LEGACY_SALT, VaultKeyParams, bytesToHex, getVaultKeyId } from "./envelope";
+import { KDF_DATA_KEY, KDF_THREAD_KEY, deriveKey } from "./kdf";
+import { DataKey, getDataKeyParams, importDataKey } from "./keyring";
+import { deriveThreadKey } from "./threads";
+
+export class VaultKeySession {
+  #password: string;
+  #keys = new Map<string, Promise<CryptoKey>>();
+  #dataKey: DataKey | null = null;
+
+  constructor(password: string) {
+    this.#password = password;
+  }
+
+  /**
+   * Whether this session was unlocked with the given password
+   */
+  matches(password: string): boolean {
+    return this.#password === password;
+  }
+
+  /**
+   * Get the key for a vault's settings (`null` for the legacy key), deriving it on first use
+   */
+  getKey(params: VaultKeyParams | null): Promise<CryptoKey> {
+    const id = getVaultKeyId(params);
+    let key = this.#keys.get(id);
+    if (!key && params?.kdf.kdf === KDF_DATA_KEY) {
+      return Promise.reject(new Error("The vault's data key is locked"));
+    }
+    if (!key && params?.kdf.kdf === KDF_THREAD_KEY) {
+      // Thread keys derive from the data key named by their salt
+      const dataKey = this.#dataKey;
+      if (!dataKey || bytesToHex(dataKey.id) !== bytesToHex(params.salt)) {
+        return Promise.reject(new Error("The vault's data key is locked"));
+      }
+      key = deriveThreadKey(dataKey, params.kdf.thread);
+      this.#keys.set(id, key);
+    }
+    if (!key) {
+      key = params
+        ? deriveKey(this.#password, params.kdf, params.salt)
+        : deriveKey(this.#password, LEGACY_KDF, new TextEncoder().encode(LEGACY_SALT));
+      // Don't cache failures, the next call retries
+      key.catch(() => this.#keys.delete(id));
+      this.#keys.set(id, key);
+    }
+    return key;
+  }
+
+  /**
+   * Add the vault's data key, unwrapped from its keyring
+   */
+  addDataKey(dataKey: DataKey): void {
+    this.#dataKey = { id: dataKey.id.slice(), raw: dataKey.raw.slice() };
+    this.#keys.set(getVaultKeyId(getDataKeyParams(dataKey)), importDataKey(dataKey));
+  }
+
+  /**
+   * The data key added to this session, to wrap it again (null for vaults without a keyring)
+   */
+  getDataKey(): DataKey | null {
+    return this.#dataKey;
+  }
+
+  /**
+   * Forget the password and all derived keys
+   */
+  clear(): void {
+    this.#password = "";
+    this.#keys.clear();
+    this.#dataKey?.raw.fill(0);
+    this.#dataKey = null;
+  }
+}
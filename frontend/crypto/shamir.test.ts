@@ -0,0 +1,63 @@
+// @vitest-environment node
+import { describe, expect, it } from "vitest";
+import { bytesToHex } from "./envelope";
+import { SecretShare, combineShares, splitSecret } from "./shamir";
+
+const secret = crypto.getRandomValues(new Uint8Array(32));
+
+// Every subset of `size` shares
+function subsets(shares: SecretShare[], size: number): SecretShare[][] {
+  if (size === 0) return [[]];
+  return shares.flatMap((share, i) => subsets(shares.slice(i + 1), size - 1).map((rest) => [share, ...rest]));
+}
+
+describe("shamir", () => {
+  it("recombines the secret from any threshold of shares, in any order", () => {
+    const shares = splitSecret(secret, 5, 3);
+    expect(shares.map((share) => share.x)).toEqual([1, 2, 3, 4, 5]);
+
+    for (const subset of subsets(shares, 3)) {
+      expect(bytesToHex(combineShares(subset))).toBe(bytesToHex(secret));
+      expect(bytesToHex(combineShares([...subset].reverse()))).toBe(bytesToHex(secret));
+    }
+    expect(bytesToHex(combineShares(shares))).toBe(bytesToHex(secret));
+  });
+
+  it("gives a wrong secret from fewer shares than the threshold", () => {
+    const shares = splitSecret(secret, 5, 3);
+    for (const subset of subsets(shares, 2)) {
+      expect(bytesToHex(combineShares(subset))).not.toBe(bytesToHex(secret));
+    }
+  });
+
+  it("gives a wrong secret from a tampered share", () => {
+    const [first, second] = splitSecret(secret, 3, 2);
+    const tampered = { x: second.x, y: second.y.slice() };
+    tampered.y[0] ^= 0x01;
+
+    const combined = combineShares([first, tampered]);
+    expect(combined[0]).not.toBe(secret[0]);
+    expect(bytesToHex(combined.slice(1))).toBe(bytesToHex(secret.slice(1)));
+  });
+
+  it("splits with the largest share count", () => {
+    const shares = splitSecret(secret, 255, 2);
+    expect(bytesToHex(combineShares([shares[0], shares[254]]))).toBe(bytesToHex(secret));
+  });
+
+  it("refuses invalid thresholds", () => {
+    expect(() => splitSecret(secret, 3, 1)).toThrow("Invalid share threshold");
+    expect(() => splitSecret(secret, 3, 4)).toThrow("Invalid share threshold");
+    expect(() => splitSecret(secret, 256, 2)).toThrow("Invalid share threshold");
+    expect(() => splitSecret(secret, 3, 2.5)).toThrow("Invalid share threshold");
+  });
+
+  it("refuses shares that can't be combined", () => {
+    const [first, second] = splitSecret(secret, 3, 2);
+    expect(() => combineShares([first])).toThrow("Invalid shares");
+    expect(() => combineShares([first, first])).toThrow("Invalid shares");
+    expect(() => combineShares([first, { x: 0, y: second.y }])).toThrow("Invalid shares");
+    expect(() => combineShares([first, { x: 256, y: second.y }])).toThrow("Invalid shares");
+    expect(() => combineShares([first, { x: second.x, y: second.y.slice(1) }])).toThrow("Invalid shares");
+  });
+});
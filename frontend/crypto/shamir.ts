@@ -0,0 +1,86 @@
+/**
+ * Shamir secret sharing over GF(256)
+ *
+ * Every byte of the secret is the constant term of its own random polynomial of degree
+ * threshold - 1, and share x holds all polynomials evaluated at x (1 to 255). Any
+ * `threshold` shares give the secret back by Lagrange interpolation at 0; fewer reveal
+ * nothing about it. The field uses the AES polynomial x^8 + x^4 + x^3 + x + 1.
+ */
+
+import { Bytes } from "./kdf";
+
+export interface SecretShare {
+  x: number;
+  y: Bytes;
+}
+
+const EXP = new Uint8Array(510);
+const LOG = new Uint8Array(256);
+for (let i = 0, value = 1; i < 255; i++) {
+  EXP[i] = EXP[i + 255] = value;
+  LOG[value] = i;
+  // Multiply by the generator 3
+  value ^= ((value << 1) ^ (value & 0x80 ? 0x11b : 0)) & 0xff;
+}
+
+function mul(a: number, b: number): number {
+  return a && b ? EXP[LOG[a] + LOG[b]] : 0;
+}
+
+function div(a: number, b: number): number {
+  return a ? EXP[LOG[a] + 255 - LOG[b]] : 0;
+}
+
+/**
+ * Split a secret into `count` shares, any `threshold` of which recover it
+ */
+export function splitSecret(secret: Bytes, count: number, threshold: number): SecretShare[] {
+  if (!Number.isInteger(threshold) || threshold < 2 || threshold > count || count > 255) {
+    throw new Error("Invalid share threshold");
+  }
+
+  // coefficients[c * length + i]: coefficient of x^(c + 1) for byte i
+  const coefficients = crypto.getRandomValues(new Uint8Array((threshold - 1) * secret.length));
+  const shares: SecretShare[] = [];
+  for (let x = 1; x <= count; x++) {
+    const y = new Uint8Array(secret.length);
+    for (let i = 0; i < secret.length; i++) {
+      let value = 0;
+      for (let c = threshold - 2; c >= 0; c--) {
+        value = mul(value ^ coefficients[c * secret.length + i], x);
+      }
+      y[i] = value ^ secret[i];
+    }
+    shares.push({ x, y });
+  }
+  coefficients.fill(0);
+  return shares;
+}
+
+/**
+ * Recombine shares into the secret. Shares that don't belong together give a wrong
+ * secret rather than an error, so callers must check the result.
+ */
+export function combineShares(shares: SecretShare[]): Bytes {
+  const length = shares[0]?.y.length ?? 0;
+  const xs = new Set(shares.map((share) => share.x));
+  if (
+    shares.length < 2 ||
+    xs.size !== shares.length ||
+    xs.has(0) ||
+    shares.some((share) => share.y.length !== length || share.x > 255)
+  ) {
+    throw new Error("Invalid shares");
+  }
+
+  const secret = new Uint8Array(length);
+  for (const share of shares) {
+    // Lagrange basis polynomial of this share at 0 (subtraction is xor in GF(256))
+    let basis = 1;
+    for (const other of shares) {
+      if (other.x !== share.x) basis = mul(basis, div(other.x, other.x ^ share.x));
+    }
+    for (let i = 0; i < length; i++) secret[i] ^= mul(share.y[i], basis);
+  }
+  return secret;
+}
@@ -0,0 +1,70 @@
+/**
+ * Signed store requests: messages a relayer stores on a user's behalf
+ * (WhisperVault.storeMessagesWithSignature)
+ *
+ * The user signs an EIP-712 StoreRequest with the exact ciphertexts, the thread, their current
+ * vault nonce and a deadline; a relayer submits it and pays the gas. The contract checks the
+ * signature against the WhisperVault domain, so a request only works on one chain and vault,
+ * once, and before its deadline. The ciphertexts are encrypted before signing: a relayer only
+ * sees what any observer of the chain sees.
+ */
+
+/**
+ * A batch of messages to append to a user's vault, as signed by the user
+ */
+export interface StoreRequest {
+  user: `0x${string}`;
+  // Thread to append to, 0 for the default conversation
+  threadId: number;
+  // Hex ciphertexts, in the order they are appended
+  encryptedContents: `0x${string}`[];
+  isResponses: boolean[];
+  // WhisperVault.nonces(user) when the request is signed
+  nonce: number;
+  // Last unix time the request can be submitted at
+  deadline: number;
+}
+
+/**
+ * A signed request, as posted to the relayer
+ */
+export interface SignedStoreRequest {
+  request: StoreRequest;
+  signature: `0x${string}`;
+}
+
+/**
+ * Build the EIP-712 payload of a store request
+ * @param chainId - Chain the vault lives on
+ * @param vaultAddress - WhisperVault contract address
+ * @param request - The messages to store
+ */
+export function buildStoreRequestTypedData(chainId: number, vaultAddress: `0x${string}`, request: StoreRequest) {
+  return {
+    domain: {
+      name: "WhisperVault",
+      version: "1",
+      chainId,
+      verifyingContract: vaultAddress,
+    },
+    types: {
+      StoreRequest: [
+        { name: "user", type: "address" },
+        { name: "threadId", type: "uint256" },
+        { name: "encryptedContents", type: "bytes[]" },
+        { name: "isResponses", type: "bool[]" },
+        { name: "nonce", type: "uint256" },
+        { name: "deadline", type: "uint256" },
+      ],
+    },
+    primaryType: "StoreRequest",
+    message: {
+      user: request.user,
+      threadId: BigInt(request.threadId),
+      encryptedContents: request.encryptedContents,
+      isResponses: request.isResponses,
+      nonce: BigInt(request.nonce),
+      deadline: BigInt(request.deadline),
+    },
+  } as const;
+}
@@ -0,0 +1,106 @@
+/**
+ * Threads: named conversations of a vault (WhisperVault.createThread)
+ *
+ * A thread title is an envelope like a message, bound to the vault context at
+ * THREAD_SEQUENCE_OFFSET + thread id, a range no message or label envelope reaches. Titles are
+ * padded with newlines to a multiple of TITLE_BLOCK_SIZE bytes and never compressed, so their
+ * stored size doesn't give their length away.
+ *
+ * A thread can use its own key: HKDF-SHA256 over the vault's data key, salted with the data key
+ * id, with the thread id in the info. It is never stored or wrapped, so only keyring vaults can
+ * have one. Envelopes under a thread key name it as KDF_THREAD_KEY with the thread id as its
+ * parameter and the data key id as salt; a thread uses its own key when its title does.
+ */
+
+import { EncryptOptions, MessageContext, VaultKeyParams, getVaultKeyParams } from "./envelope";
+import { KDF_DATA_KEY, KDF_THREAD_KEY } from "./kdf";
+import { DataKey } from "./keyring";
+
+export const THREAD_SEQUENCE_OFFSET = 2 ** 52 + 2 ** 51;
+export const MAX_TITLE_LENGTH = 64;
+
+const TITLE_BLOCK_SIZE = 32;
+const THREAD_KEY_INFO = "whisperlink-thread-key-v1";
+
+/**
+ * Envelope key settings of a thread's own key, derived from the data key with `dataKeyParams`
+ */
+export function getThreadKeyParams(dataKeyParams: VaultKeyParams, thread: number): VaultKeyParams {
+  return { kdf: { kdf: KDF_THREAD_KEY, thread }, salt: dataKeyParams.salt };
+}
+
+/**
+ * Key settings an envelope is written under, with thread keys replaced by the data key they
+ * derive from. Re-encrypting a vault under its data key leaves thread keys as they are.
+ */
+export function getBaseKeyParams(params: VaultKeyParams | null): VaultKeyParams | null {
+  return params?.kdf.kdf === KDF_THREAD_KEY ? { kdf: { kdf: KDF_DATA_KEY }, salt: params.salt } : params;
+}
+
+/**
+ * Whether a thread title is encrypted with the thread's own key
+ */
+export function usesThreadKey(encryptedTitle: string): boolean {
+  return getVaultKeyParams(encryptedTitle)?.kdf.kdf === KDF_THREAD_KEY;
+}
+
+/**
+ * Derive the own key of a thread from the vault's data key
+ */
+export async function deriveThreadKey(dataKey: DataKey, thread: number): Promise<CryptoKey> {
+  const keyMaterial = await crypto.subtle.importKey("raw", dataKey.raw, "HKDF", false, ["deriveKey"]);
+  return crypto.subtle.deriveKey(
+    {
+      name: "HKDF",
+      hash: "SHA-256",
+      salt: dataKey.id,
+      info: new TextEncoder().encode(`${THREAD_KEY_INFO}:${thread}`),
+    },
+    keyMaterial,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  );
+}
+
+/**
+ * Check a thread title as typed by the user
+ * @returns The trimmed title
+ * @throws if it is empty or too long
+ */
+export function normalizeTitle(title: string): string {
+  const trimmed = title.trim().replace(/\s+/g, " ");
+  if (!trimmed) throw new Error("A thread needs a title");
+  if (trimmed.length > MAX_TITLE_LENGTH) throw new Error(`Thread titles can be at most ${MAX_TITLE_LENGTH} characters`);
+  return trimmed;
+}
+
+/**
+ * Plaintext of a title envelope
+ */
+export function encodeTitle(title: string): string {
+  const size = new TextEncoder().encode(title).length;
+  const padded = Math.ceil((size + 1) / TITLE_BLOCK_SIZE) * TITLE_BLOCK_SIZE;
+  return title + "\n".repeat(padded - size);
+}
+
+/**
+ * Title from the plaintext of a title envelope
+ */
+export function decodeTitle(text: string): string {
+  return text.replace(/\n+$/, "");
+}
+
+/**
+ * Context the title of the thread at `context.sequence` is bound to
+ */
+export function getTitleContext(context: MessageContext): MessageContext {
+  return { ...context, sequence: THREAD_SEQUENCE_OFFSET + context.sequence };
+}
+
+/**
+ * Envelope options for the title of a thread
+ */
+export function getTitleEncryptOptions(context: MessageContext): EncryptOptions {
+  return { context: getTitleContext(context), compress: false };
+}
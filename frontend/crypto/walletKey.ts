@@ -0,0 +1,56 @@
+/**
+ * Wallet key mode: derive the vault key from a wallet signature instead of a password
+ *
+ * The wallet signs a fixed EIP-712 payload, domain-separated by chain id, the
+ * WhisperVault address and the owner address. The signature is run through
+ * HKDF-SHA256 (KDF_WALLET_HKDF) with the vault salt to produce the AES-GCM key.
+ *
+ * This only works with wallets that produce deterministic (RFC 6979) signatures:
+ * hardware wallets or smart accounts that randomize signatures would lock the
+ * user out of their own vault, so callers must check determinism first.
+ */
+
+import { KDF_WALLET_HKDF, KdfParams } from "./kdf";
+
+export const WALLET_KEY_KDF: KdfParams = { kdf: KDF_WALLET_HKDF };
+
+const WALLET_KEY_PURPOSE =
+  "Derive the WhisperLink encryption key for this vault. Only sign this on WhisperLink; anyone with this signature can read your messages.";
+
+export type WalletKeyTypedData = ReturnType<typeof buildWalletKeyTypedData>;
+
+/**
+ * Build the EIP-712 payload signed to derive a wallet key
+ * @param chainId - Chain the vault lives on
+ * @param vaultAddress - WhisperVault contract address (zero address in local demo mode)
+ * @param owner - Vault owner address
+ */
+export function buildWalletKeyTypedData(chainId: number, vaultAddress: `0x${string}`, owner: `0x${string}`) {
+  return {
+    domain: {
+      name: "WhisperLink Vault Key",
+      version: "1",
+      chainId,
+      verifyingContract: vaultAddress,
+    },
+    types: {
+      VaultKey: [
+        { name: "owner", type: "address" },
+        { name: "purpose", type: "string" },
+      ],
+    },
+    primaryType: "VaultKey",
+    message: {
+      owner,
+      purpose: WALLET_KEY_PURPOSE,
+    },
+  } as const;
+}
+
+/**
+ * Turn a wallet signature into the secret used in place of a password.
+ * Signatures are normalized so equal signatures always give equal keys.
+ */
+export function walletSignatureToSecret(signature: string): string {
+  return signature.toLowerCase();
+}
@@ -0,0 +1,165 @@
+/**
+ * Small Web Worker pool for bulk envelope encryption/decryption
+ *
+ * Jobs are queued and handed to the first idle worker. Where workers are not
+ * available (SSR, old browsers, Node), jobs run on the calling thread instead.
+ */
+
+import {
+  ContextMismatchError,
+  DecryptedPayload,
+  EncryptOptions,
+  MessageContext,
+  VaultKeyParams,
+  encryptWithKey,
+  getKeyCandidates,
+  openEnvelope,
+} from "./envelope";
+import { VaultKeySession } from "./session";
+
+const MAX_WORKERS = 4;
+
+type JobId = { id: number };
+
+export type CryptoJob = JobId &
+  (
+    | { type: "encrypt"; text: string; key: CryptoKey; params: VaultKeyParams; options?: EncryptOptions }
+    | { type: "decrypt"; encryptedHex: string; keys: (CryptoKey | null)[]; context?: MessageContext }
+  );
+
+// Error names survive the worker boundary so callers can tell context mismatches apart
+export type CryptoJobResult = JobId &
+  ({ ok: true; result: string | DecryptedPayload } | { ok: false; error: string; name: string });
+
+type PendingJob = {
+  job: CryptoJob;
+  resolve: (result: string | DecryptedPayload) => void;
+  reject: (err: Error) => void;
+};
+
+export class CryptoWorkerPool {
+  #size: number;
+  #workers: Worker[] = [];
+  #idle: Worker[] = [];
+  #queue: PendingJob[] = [];
+  #running = new Map<number, PendingJob & { worker: Worker }>();
+  #nextId = 0;
+
+  constructor(size?: number) {
+    const cores = typeof navigator !== "undefined" ? navigator.hardwareConcurrency || 2 : 2;
+    this.#size = size ?? Math.max(1, Math.min(MAX_WORKERS, cores - 1));
+  }
+
+  static isSupported(): boolean {
+    return typeof Worker !== "undefined";
+  }
+
+  /**
+   * Encrypt text with the session key for the given vault settings
+   * @param options - Context binding and compression settings
+   */
+  async encrypt(
+    text: string,
+    session: VaultKeySession,
+    params: VaultKeyParams,
+    options?: EncryptOptions
+  ): Promise<string> {
+    const key = await session.getKey(params);
+    return (await this.#run({ id: this.#nextId++, type: "encrypt", text, key, params, options })) as string;
+  }
+
+  /**
+   * Decrypt a ciphertext with the session keys, checking it against the expected `context`.
+   * The legacy key is only derived if the envelope reading fails.
+   * @returns The text and the response flag hidden in padded envelopes
+   */
+  async decrypt(encryptedHex: string, session: VaultKeySession, context?: MessageContext): Promise<DecryptedPayload> {
+    const candidates = getKeyCandidates(encryptedHex);
+    const primary = await session.getKey(candidates[0]);
+    const run = (keys: (CryptoKey | null)[]) =>
+      this.#run({ id: this.#nextId++, type: "decrypt", encryptedHex, keys, context }) as Promise<DecryptedPayload>;
+
+    try {
+      return await run([primary]);
+    } catch (err) {
+      if (candidates.length < 2 || err instanceof ContextMismatchError) throw err;
+      const fallbacks = await Promise.all(candidates.slice(1).map((params) => session.getKey(params)));
+      return run([null, ...fallbacks]);
+    }
+  }
+
+  /**
+   * Stop all workers and reject queued jobs
+   */
+  terminate(): void {
+    for (const worker of this.#workers) worker.terminate();
+    for (const pending of [...this.#queue, ...this.#running.values()]) {
+      pending.reject(new Error("Crypto worker pool terminated"));
+    }
+    this.#workers = [];
+    this.#idle = [];
+    this.#queue = [];
+    this.#running.clear();
+  }
+
+  #run(job: CryptoJob): Promise<string | DecryptedPayload> {
+    if (!CryptoWorkerPool.isSupported()) {
+      return job.type === "encrypt"
+        ? encryptWithKey(job.text, job.key, job.params, job.options)
+        : openEnvelope(job.encryptedHex, job.keys, job.context);
+    }
+
+    return new Promise((resolve, reject) => {
+      this.#queue.push({ job, resolve, reject });
+      this.#dispatch();
+    });
+  }
+
+  #dispatch(): void {
+    while (this.#queue.length > 0) {
+      const worker = this.#idle.pop() ?? this.#spawn();
+      if (!worker) return;
+
+      const pending = this.#queue.shift()!;
+      this.#running.set(pending.job.id, { ...pending, worker });
+      worker.postMessage(pending.job);
+    }
+  }
+
+  #spawn(): Worker | undefined {
+    if (this.#workers.length >= this.#size) return undefined;
+
+    const worker = new Worker(new URL("./crypto.worker.ts", import.meta.url), { type: "module" });
+
+    worker.onmessage = (event: MessageEvent<CryptoJobResult>) => {
+      const reply = event.data;
+      const pending = this.#running.get(reply.id);
+      this.#running.delete(reply.id);
+      this.#idle.push(worker);
+
+      if (pending) {
+        if (reply.ok) pending.resolve(reply.result);
+        else pending.reject(reply.name === "ContextMismatchError" ? new ContextMismatchError() : new Error(reply.error));
+      }
+      this.#dispatch();
+    };
+
+    worker.onerror = (event) => {
+      // A crashed worker fails every job it holds; the pool spawns a replacement on demand
+      console.error("[CryptoWorkerPool] Worker error:", event.message);
+      worker.terminate();
+      this.#workers = this.#workers.filter((w) => w !== worker);
+      this.#idle = this.#idle.filter((w) => w !== worker);
+      for (const [id, pending] of this.#running) {
+        if (pending.worker === worker) {
+          this.#running.delete(id);
+          pending.reject(new Error(event.message || "Crypto worker failed"));
+        }
+      }
+      this.#dispatch();
+    };
+
+    this.#workers.push(worker);
+    return worker;
+  }
+}
@@ -0,0 +1,662 @@
+import { useState, useCallback, useEffect, useRef } from "react";
+import { useAccount, useChainId, useWalletClient } from "wagmi";
+import { BrowserProvider, Contract, ZeroHash, getAddress } from "ethers";
+import { MAX_CONTENT_BYTES, MESSAGE_PAGE_SIZE, getContractAddress } from "./useWhisperVault";
+import { MessagingKeyAccess } from "./useGroups";
+import {
+  decryptChannelName,
+  decryptChannelPost,
+  encryptChannelName,
+  encryptChannelPost,
+  generateChannelKey,
+  unwrapChannelKey,
+  wrapChannelKey,
+  ChannelContext,
+  X25519KeyPair,
+} from "./useCrypto";
+
+const CHANNEL_REGISTRY_ABI = [
+  "function vault() view returns (address)",
+  "function createChannel(bytes encryptedName, bytes wrappedKey) external returns (uint256 channelId)",
+  "function requestSubscription(uint256 channelId) external",
+  "function cancelRequest(uint256 channelId) external",
+  "function rejectRequests(uint256 channelId, address[] accounts) external",
+  "function updateSubscribers(uint256 channelId, address[] approved, address[] removed, bytes encryptedName, bytes[] wrappedKeys) external",
+  "function unsubscribe(uint256 channelId) external",
+  "function renameChannel(uint256 channelId, bytes encryptedName) external",
+  "function publish(uint256 channelId, bytes encryptedContent) external",
+  "function getChannelCount() view returns (uint256)",
+  "function getChannel(uint256 channelId) view returns (tuple(address publisher, bytes name, uint256 epoch, bool rekeyNeeded, uint256 createdAt) channel, uint256 postCount)",
+  "function getSubscribers(uint256 channelId) view returns (address[])",
+  "function getRequests(uint256 channelId) view returns (address[])",
+  "function getStatus(uint256 channelId, address account) view returns (uint8)",
+  "function getWrappedKey(uint256 channelId, uint256 epoch, address account) view returns (bytes)",
+  "function getChannelsOf(address account) view returns (uint256[] channelIds, uint8[] statuses)",
+  "function getPostsRange(uint256 channelId, uint256 offset, uint256 limit) view returns (tuple(uint256 epoch, bytes encryptedContent, uint256 timestamp)[] page)",
+  "function getLatestPosts(uint256 channelId, uint256 offset, uint256 limit) view returns (tuple(uint256 epoch, bytes encryptedContent, uint256 timestamp)[] page, uint256 total)",
+  "event ChannelCreated(uint256 indexed channelId, address indexed publisher)",
+  "event ChannelRenamed(uint256 indexed channelId, uint256 size)",
+  "event SubscriptionRequested(uint256 indexed channelId, address indexed account)",
+  "event SubscriptionRequestClosed(uint256 indexed channelId, address indexed account, bool rejected)",
+  "event SubscriberAdded(uint256 indexed channelId, address indexed subscriber)",
+  "event SubscriberRemoved(uint256 indexed channelId, address indexed subscriber)",
+  "event ChannelKeyRotated(uint256 indexed channelId, uint256 indexed epoch, uint256 subscriberCount)",
+  "event PostPublished(uint256 indexed channelId, uint256 indexed postIndex, uint256 epoch, uint256 size)",
+];
+
+const MESSAGING_KEYS_ABI = ["function getMessagingKey(address account) view returns (bytes32)"];
+
+// ChannelRegistry.Status, by its index in the enum
+const STATUSES = ["none", "pending", "subscriber", "publisher"] as const;
+
+type ChannelKey = ReturnType<typeof generateChannelKey>;
+
+export type ChannelStatus = (typeof STATUSES)[number];
+
+/**
+ * A channel the connected account publishes, reads or asked to read
+ */
+export interface Channel {
+  id: number;
+  publisher: string;
+  // The connected account's place in the channel
+  status: ChannelStatus;
+  // Encrypted name as stored, and the name once decrypted; pending readers can't decrypt it
+  encryptedName: string;
+  name?: string;
+  // Epoch of the current channel key
+  epoch: number;
+  // A subscriber left with the current key, the publisher has to replace it before posting
+  rekeyNeeded: boolean;
+  postCount: number;
+  createdAt: number;
+}
+
+/**
+ * A post of a channel, encrypted with the channel key of its epoch
+ */
+export interface ChannelPost {
+  // Position in the channel
+  id: number;
+  epoch: number;
+  encryptedContent: string;
+  timestamp: number;
+  decryptedText?: string;
+  // Set when the channel key of its epoch was never wrapped to this account: posted before it was approved
+  beforeSubscribing?: boolean;
+  // Set when the channel key doesn't open it
+  unreadable?: boolean;
+}
+
+type StoredChannel = { publisher: string; name: string; epoch: bigint; rekeyNeeded: boolean; createdAt: bigint };
+
+type StoredPost = { epoch: bigint; encryptedContent: string; timestamp: bigint };
+
+function toChannelPost(post: StoredPost, id: number): ChannelPost {
+  return {
+    id,
+    epoch: Number(post.epoch),
+    encryptedContent: post.encryptedContent,
+    timestamp: Number(post.timestamp),
+  };
+}
+
+async function readChannel(registry: Contract, id: number, status: ChannelStatus): Promise<Channel> {
+  const [channel, postCount]: [StoredChannel, bigint] = await registry.getChannel(id);
+  return {
+    id,
+    publisher: channel.publisher,
+    status,
+    encryptedName: channel.name,
+    epoch: Number(channel.epoch),
+    rekeyNeeded: channel.rekeyNeeded,
+    postCount: Number(postCount),
+    createdAt: Number(channel.createdAt),
+  };
+}
+
+/**
+ * Read the newest page of a channel's posts, oldest first
+ */
+async function readLatestPostPage(registry: Contract, id: number): Promise<ChannelPost[]> {
+  const [page, total]: [StoredPost[], bigint] = await registry.getLatestPosts(id, 0, MESSAGE_PAGE_SIZE);
+  return page.map((post, i) => toChannelPost(post, Number(total) - 1 - i)).reverse();
+}
+
+/**
+ * Broadcast channels through the ChannelRegistry contract (see crypto/channels.ts)
+ *
+ * The publisher posts, approves subscription requests and removes subscribers; subscribers get a
+ * read-only feed. Channel keys are wrapped to WhisperVault messaging keys, so like useGroups this
+ * hook borrows the messaging key pair of useDirectMessages, and keeps unwrapped channel keys in
+ * memory until the account changes or clear() is called. Needs a deployed registry.
+ */
+export function useChannels(messaging: MessagingKeyAccess) {
+  const { address } = useAccount();
+  const chainId = useChainId();
+  const { data: walletClient } = useWalletClient();
+  const { messagingKey, getKeyPair, unlock } = messaging;
+
+  // null until checked whether the registry is deployed on this chain
+  const [available, setAvailable] = useState<boolean | null>(null);
+  const [channels, setChannels] = useState<Channel[]>([]);
+  const [activeChannel, setActiveChannel] = useState<number | null>(null);
+  const activeChannelRef = useRef<number | null>(null);
+  // Subscribers and pending requests of the open channel, only read for its publisher
+  const [subscribers, setSubscribers] = useState<string[]>([]);
+  const [requests, setRequests] = useState<string[]>([]);
+  const [posts, setPosts] = useState<ChannelPost[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [loadingOlder, setLoadingOlder] = useState(false);
+  // Unwrapped channel keys by "channelId:epoch", null when not wrapped to this account
+  const channelKeysRef = useRef(new Map<string, ChannelKey | null>());
+
+  const forgetKeys = useCallback(() => {
+    channelKeysRef.current.forEach((key) => key?.fill(0));
+    channelKeysRef.current.clear();
+  }, []);
+
+  useEffect(() => {
+    forgetKeys();
+    setAvailable(null);
+    setChannels([]);
+    setActiveChannel(null);
+    activeChannelRef.current = null;
+    setSubscribers([]);
+    setRequests([]);
+    setPosts([]);
+  }, [address, chainId, forgetKeys]);
+
+  const getRegistry = useCallback(async () => {
+    if (!walletClient || !chainId) return null;
+    const registryAddress = await getContractAddress(chainId, "ChannelRegistry");
+    if (!registryAddress) return null;
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const provider = new BrowserProvider(walletClient as any);
+    const signer = await provider.getSigner();
+    return new Contract(registryAddress, CHANNEL_REGISTRY_ABI, signer);
+  }, [walletClient, chainId]);
+
+  const requireRegistry = useCallback(async () => {
+    const registry = await getRegistry();
+    if (!registry || !address) throw new Error("Channels aren't available on this network");
+    return { registry, registryAddress: (await registry.getAddress()) as string, account: address };
+  }, [getRegistry, address]);
+
+  // The open channel, only if the connected account publishes it
+  const requireOwnChannel = useCallback(() => {
+    const id = activeChannelRef.current;
+    const channel = channels.find((entry) => entry.id === id);
+    if (!channel || channel.status !== "publisher") throw new Error("Open a channel you publish first");
+    return channel;
+  }, [channels]);
+
+  /**
+   * The channel key of an epoch, unwrapped with the messaging key pair and cached
+   * @returns null if the key was never wrapped to this account
+   */
+  const getChannelKey = useCallback(
+    async (registry: Contract, channelId: number, epoch: number, keyPair: X25519KeyPair): Promise<ChannelKey | null> => {
+      const cacheKey = `${channelId}:${epoch}`;
+      if (channelKeysRef.current.has(cacheKey)) return channelKeysRef.current.get(cacheKey) ?? null;
+      if (!address) return null;
+
+      const wrapped: string = await registry.getWrappedKey(channelId, epoch, address);
+      const context: ChannelContext = { chainId, registry: await registry.getAddress(), epoch };
+      const channelKey = wrapped === "0x" ? null : await unwrapChannelKey(wrapped, keyPair, address, context);
+      channelKeysRef.current.set(cacheKey, channelKey);
+      return channelKey;
+    },
+    [address, chainId]
+  );
+
+  // The channel key of the current epoch, which new names and posts are encrypted with
+  const requireCurrentKey = useCallback(
+    async (registry: Contract, channel: Channel, keyPair: X25519KeyPair): Promise<ChannelKey> => {
+      const channelKey = await getChannelKey(registry, channel.id, channel.epoch, keyPair);
+      if (!channelKey) throw new Error("Your messaging key doesn't open this channel's key");
+      return channelKey;
+    },
+    [getChannelKey]
+  );
+
+  const openChannelNames = useCallback(
+    async (registry: Contract, list: Channel[], keyPair: X25519KeyPair): Promise<Channel[]> => {
+      const registryAddress = await registry.getAddress();
+      return Promise.all(
+        list.map(async (channel) => {
+          if (channel.name !== undefined || channel.status === "pending") return channel;
+          const channelKey = await getChannelKey(registry, channel.id, channel.epoch, keyPair);
+          const name = channelKey
+            ? await decryptChannelName(channel.encryptedName, channelKey, {
+                chainId,
+                registry: registryAddress,
+                epoch: channel.epoch,
+              })
+            : null;
+          return name === null ? channel : { ...channel, name };
+        })
+      );
+    },
+    [chainId, getChannelKey]
+  );
+
+  const openPosts = useCallback(
+    async (registry: Contract, channelId: number, page: ChannelPost[], keyPair: X25519KeyPair): Promise<ChannelPost[]> => {
+      const registryAddress = await registry.getAddress();
+      return Promise.all(
+        page.map(async (post) => {
+          if (post.decryptedText !== undefined || post.beforeSubscribing) return post;
+          const channelKey = await getChannelKey(registry, channelId, post.epoch, keyPair);
+          if (!channelKey) return { ...post, beforeSubscribing: true };
+          const text = await decryptChannelPost(post.encryptedContent, channelKey, {
+            chainId,
+            registry: registryAddress,
+            epoch: post.epoch,
+          });
+          return text === null ? { ...post, unreadable: true } : { ...post, decryptedText: text, unreadable: undefined };
+        })
+      );
+    },
+    [chainId, getChannelKey]
+  );
+
+  // Subscribers and pending requests of a channel the connected account publishes
+  const readAudience = useCallback(async (registry: Contract, id: number) => {
+    const [current, pending]: [string[], string[]] = await Promise.all([
+      registry.getSubscribers(id),
+      registry.getRequests(id),
+    ]);
+    if (activeChannelRef.current !== id) return;
+    setSubscribers([...current]);
+    setRequests([...pending]);
+  }, []);
+
+  // Reload the account's channels, and the audience of the open one
+  const refresh = useCallback(async () => {
+    if (!address) return;
+    const registry = await getRegistry();
+    setAvailable(!!registry);
+    if (!registry) return;
+
+    try {
+      const [ids, statuses]: [bigint[], bigint[]] = await registry.getChannelsOf(address);
+      const list = await Promise.all(
+        ids.map((id, i) => readChannel(registry, Number(id), STATUSES[Number(statuses[i])]))
+      );
+      const keyPair = getKeyPair();
+      const shown = keyPair ? await openChannelNames(registry, list, keyPair) : list;
+      setChannels((prev) => {
+        const names = new Map(prev.map((channel) => [`${channel.id}:${channel.epoch}`, channel.name]));
+        return shown.map((channel) => ({
+          ...channel,
+          name: channel.status === "pending" ? undefined : channel.name ?? names.get(`${channel.id}:${channel.epoch}`),
+        }));
+      });
+
+      const open = list.find((channel) => channel.id === activeChannelRef.current);
+      if (activeChannelRef.current !== null && (!open || open.status === "pending")) {
+        activeChannelRef.current = null;
+        setActiveChannel(null);
+        setPosts([]);
+      } else if (open?.status === "publisher") {
+        await readAudience(registry, open.id);
+      }
+    } catch (err) {
+      console.warn("[ChannelRegistry] Failed to read channels:", err);
+      setAvailable(false);
+    }
+  }, [address, getRegistry, getKeyPair, openChannelNames, readAudience]);
+
+  const runTransaction = useCallback(
+    async <T>(action: () => Promise<T>): Promise<T> => {
+      try {
+        setLoading(true);
+        return await action();
+      } finally {
+        setLoading(false);
+        await refresh();
+      }
+    },
+    [refresh]
+  );
+
+  /**
+   * Look up the messaging keys of accounts in the WhisperVault the registry belongs to
+   * @throws if one of them hasn't published a key
+   */
+  const readMessagingKeys = useCallback(async (registry: Contract, accounts: string[]) => {
+    const vault = new Contract(await registry.vault(), MESSAGING_KEYS_ABI, registry.runner);
+    return Promise.all(
+      accounts.map(async (account) => {
+        const key: string = await vault.getMessagingKey(account);
+        if (key === ZeroHash) throw new Error(`${account} hasn't published a messaging key yet`);
+        return { address: account, messagingKey: key };
+      })
+    );
+  }, []);
+
+  /**
+   * Show a channel and its newest page of posts, decrypted if the messaging key pair is at hand
+   */
+  const openChannel = useCallback(
+    async (id: number) => {
+      const { registry } = await requireRegistry();
+      const publishing = channels.find((channel) => channel.id === id)?.status === "publisher";
+      activeChannelRef.current = id;
+      setActiveChannel(id);
+      setSubscribers([]);
+      setRequests([]);
+      setPosts([]);
+
+      try {
+        setLoading(true);
+        const page = await readLatestPostPage(registry, id);
+        const keyPair = getKeyPair();
+        const shown = keyPair ? await openPosts(registry, id, page, keyPair) : page;
+        if (activeChannelRef.current !== id) return;
+        setPosts(shown);
+        if (publishing) await readAudience(registry, id);
+      } finally {
+        setLoading(false);
+      }
+    },
+    [requireRegistry, channels, getKeyPair, openPosts, readAudience]
+  );
+
+  const closeChannel = useCallback(() => {
+    activeChannelRef.current = null;
+    setActiveChannel(null);
+    setSubscribers([]);
+    setRequests([]);
+    setPosts([]);
+  }, []);
+
+  /**
+   * Sign for the messaging key pair if needed, and decrypt channel names and the open channel's posts
+   */
+  const decryptChannels = useCallback(async () => {
+    const { registry } = await requireRegistry();
+    const keyPair = await unlock();
+    const opened = await openChannelNames(registry, channels, keyPair);
+    const names = new Map(opened.map((channel) => [channel.id, channel.name]));
+    setChannels((prev) => prev.map((channel) => ({ ...channel, name: channel.name ?? names.get(channel.id) })));
+
+    const open = activeChannelRef.current;
+    if (open === null) return;
+    const shown = await openPosts(registry, open, posts, keyPair);
+    if (activeChannelRef.current !== open) return;
+    const byId = new Map(shown.map((post) => [post.id, post]));
+    setPosts((prev) => prev.map((post) => byId.get(post.id) ?? post));
+  }, [requireRegistry, unlock, openChannelNames, openPosts, channels, posts]);
+
+  /**
+   * Create a channel published by the connected account, with a channel key wrapped to it alone
+   * @returns The id of the new channel
+   */
+  const createChannel = useCallback(
+    (name: string) =>
+      runTransaction(async () => {
+        const { registry, registryAddress, account } = await requireRegistry();
+        if (!messagingKey) throw new Error("Publish a messaging key first");
+
+        const channelKey = generateChannelKey();
+        try {
+          const context: ChannelContext = { chainId, registry: registryAddress, epoch: 1 };
+          const [[wrappedKey], encryptedName] = await Promise.all([
+            wrapChannelKey(channelKey, [{ address: getAddress(account), messagingKey }], context),
+            encryptChannelName(name.trim(), channelKey, context),
+          ]);
+          const tx = await registry.createChannel(encryptedName, wrappedKey);
+          const receipt = await tx.wait();
+          const created = receipt.logs
+            .map((log: { topics: string[]; data: string }) => registry.interface.parseLog(log))
+            .find((log: { name: string } | null) => log?.name === "ChannelCreated");
+          const id = Number(created.args.channelId);
+          channelKeysRef.current.set(`${id}:1`, channelKey.slice());
+          return id;
+        } finally {
+          channelKey.fill(0);
+        }
+      }),
+    [runTransaction, requireRegistry, messagingKey, chainId]
+  );
+
+  /**
+   * Ask the publisher of a channel to approve the connected account
+   * @param input - The channel id, as typed by the user
+   */
+  const requestSubscription = useCallback(
+    (input: string) =>
+      runTransaction(async () => {
+        const id = Number(input.trim().replace(/^#/, ""));
+        if (!Number.isInteger(id) || id < 1) throw new Error("Enter a channel number");
+        const { registry } = await requireRegistry();
+        if (!messagingKey) throw new Error("Publish a messaging key first");
+        if (id > Number(await registry.getChannelCount())) throw new Error(`There is no channel #${id}`);
+        const tx = await registry.requestSubscription(id);
+        await tx.wait();
+      }),
+    [runTransaction, requireRegistry, messagingKey]
+  );
+
+  // Withdraw a pending request to subscribe
+  const cancelRequest = useCallback(
+    (id: number) =>
+      runTransaction(async () => {
+        const { registry } = await requireRegistry();
+        const tx = await registry.cancelRequest(id);
+        await tx.wait();
+      }),
+    [runTransaction, requireRegistry]
+  );
+
+  /**
+   * Approve requests and remove subscribers of the open channel under a new channel key, wrapped
+   * to the publisher and then to the resulting subscribers in the order the registry will list them
+   */
+  const rekeyChannel = useCallback(
+    (approved: string[], removed: string[]) =>
+      runTransaction(async () => {
+        const channel = requireOwnChannel();
+        const { registry, registryAddress, account } = await requireRegistry();
+        const keyPair = await unlock();
+
+        const current = await readChannel(registry, channel.id, channel.status);
+        const currentKey = await requireCurrentKey(registry, current, keyPair);
+        const name = await decryptChannelName(current.encryptedName, currentKey, {
+          chainId,
+          registry: registryAddress,
+          epoch: current.epoch,
+        });
+        if (name === null) throw new Error("This channel's name doesn't decrypt with its key");
+
+        const listed: string[] = await registry.getSubscribers(channel.id);
+        const resulting = [...listed.filter((subscriber) => !removed.includes(subscriber)), ...approved];
+        const readerKeys = await readMessagingKeys(registry, [getAddress(account), ...resulting]);
+
+        const channelKey = generateChannelKey();
+        try {
+          const context: ChannelContext = { chainId, registry: registryAddress, epoch: current.epoch + 1 };
+          const [wrappedKeys, encryptedName] = await Promise.all([
+            wrapChannelKey(channelKey, readerKeys, context),
+            encryptChannelName(name, channelKey, context),
+          ]);
+          const tx = await registry.updateSubscribers(channel.id, approved, removed, encryptedName, wrappedKeys);
+          await tx.wait();
+          channelKeysRef.current.set(`${channel.id}:${current.epoch + 1}`, channelKey.slice());
+        } finally {
+          channelKey.fill(0);
+        }
+      }),
+    [runTransaction, requireOwnChannel, requireRegistry, unlock, requireCurrentKey, readMessagingKeys, chainId]
+  );
+
+  // Approve pending requests to the open channel; the new subscribers read what is posted from now on
+  const approveRequests = useCallback((accounts: string[]) => rekeyChannel(accounts, []), [rekeyChannel]);
+
+  // Remove a subscriber of the open channel; they can't read what is posted from now on
+  const removeSubscriber = useCallback((subscriber: string) => rekeyChannel([], [subscriber]), [rekeyChannel]);
+
+  // Replace the channel key of the open channel after a subscriber left
+  const rotateChannelKey = useCallback(() => rekeyChannel([], []), [rekeyChannel]);
+
+  const rejectRequests = useCallback(
+    (accounts: string[]) =>
+      runTransaction(async () => {
+        const channel = requireOwnChannel();
+        const { registry } = await requireRegistry();
+        const tx = await registry.rejectRequests(channel.id, accounts);
+        await tx.wait();
+      }),
+    [runTransaction, requireOwnChannel, requireRegistry]
+  );
+
+  /**
+   * Rename the open channel, encrypting the name with the current channel key
+   */
+  const renameChannel = useCallback(
+    (name: string) =>
+      runTransaction(async () => {
+        const channel = requireOwnChannel();
+        const { registry, registryAddress } = await requireRegistry();
+        const keyPair = await unlock();
+
+        const current = await readChannel(registry, channel.id, channel.status);
+        const channelKey = await requireCurrentKey(registry, current, keyPair);
+        const encryptedName = await encryptChannelName(name.trim(), channelKey, {
+          chainId,
+          registry: registryAddress,
+          epoch: current.epoch,
+        });
+        const tx = await registry.renameChannel(channel.id, encryptedName);
+        await tx.wait();
+        setChannels((prev) =>
+          prev.map((entry) => (entry.id === channel.id ? { ...entry, encryptedName, name: name.trim() } : entry))
+        );
+      }),
+    [runTransaction, requireOwnChannel, requireRegistry, unlock, requireCurrentKey, chainId]
+  );
+
+  // Stop reading the open channel; its publisher then replaces the channel key
+  const unsubscribe = useCallback(
+    () =>
+      runTransaction(async () => {
+        const id = activeChannelRef.current;
+        if (id === null) throw new Error("Open a channel first");
+        const { registry } = await requireRegistry();
+        const tx = await registry.unsubscribe(id);
+        await tx.wait();
+        closeChannel();
+      }),
+    [runTransaction, requireRegistry, closeChannel]
+  );
+
+  /**
+   * Load the page of posts before the oldest loaded one
+   */
+  const loadOlderPosts = useCallback(async () => {
+    const id = activeChannelRef.current;
+    const oldest = posts[0]?.id ?? 0;
+    if (id === null || oldest === 0 || loadingOlder) return;
+
+    try {
+      setLoadingOlder(true);
+      const { registry } = await requireRegistry();
+      const start = Math.max(0, oldest - MESSAGE_PAGE_SIZE);
+      const stored: StoredPost[] = await registry.getPostsRange(id, start, oldest - start);
+      const page = stored.map((post, i) => toChannelPost(post, start + i));
+      const keyPair = getKeyPair();
+      const shown = keyPair ? await openPosts(registry, id, page, keyPair) : page;
+      if (activeChannelRef.current !== id) return;
+      setPosts((prev) => [...shown, ...prev.filter((post) => post.id >= oldest)]);
+    } finally {
+      setLoadingOlder(false);
+    }
+  }, [posts, loadingOlder, requireRegistry, getKeyPair, openPosts]);
+
+  /**
+   * Post to the open channel, encrypted with its current channel key
+   */
+  const publishPost = useCallback(
+    async (text: string) => {
+      const trimmed = text.trim();
+      if (!trimmed) return;
+
+      await runTransaction(async () => {
+        const channel = requireOwnChannel();
+        const { registry, registryAddress } = await requireRegistry();
+        const keyPair = await unlock();
+
+        const current = await readChannel(registry, channel.id, channel.status);
+        if (current.rekeyNeeded) throw new Error("A subscriber left: replace the channel key first");
+        const channelKey = await requireCurrentKey(registry, current, keyPair);
+        const encrypted = await encryptChannelPost(trimmed, channelKey, {
+          chainId,
+          registry: registryAddress,
+          epoch: current.epoch,
+        });
+        if ((encrypted.length - 2) / 2 > MAX_CONTENT_BYTES) {
+          throw new Error(`Post too large: over ${MAX_CONTENT_BYTES.toLocaleString()} bytes once encrypted`);
+        }
+        const tx = await registry.publish(channel.id, encrypted);
+        await tx.wait();
+
+        // Our own post is shown as typed; the rest keeps what was already decrypted
+        const page = await openPosts(
+          registry,
+          channel.id,
+          (await readLatestPostPage(registry, channel.id)).map((post) =>
+            post.encryptedContent === encrypted ? { ...post, decryptedText: trimmed } : post
+          ),
+          keyPair
+        );
+        if (activeChannelRef.current !== channel.id) return;
+        setPosts((prev) => {
+          const known = new Map(prev.map((post) => [post.id, post]));
+          const first = page[0]?.id ?? 0;
+          return [...prev.filter((post) => post.id < first), ...page.map((post) => known.get(post.id) ?? post)];
+        });
+      });
+    },
+    [runTransaction, requireOwnChannel, requireRegistry, unlock, requireCurrentKey, openPosts, chainId]
+  );
+
+  // Forget unwrapped channel keys and decrypted names and posts
+  const clear = useCallback(() => {
+    forgetKeys();
+    setChannels((prev) => prev.map((channel) => ({ ...channel, name: undefined })));
+    setPosts((prev) =>
+      prev.map((post) => ({ ...post, decryptedText: undefined, unreadable: undefined, beforeSubscribing: undefined }))
+    );
+  }, [forgetKeys]);
+
+  return {
+    available,
+    channels,
+    activeChannel,
+    subscribers,
+    requests,
+    posts,
+    hasOlderPosts: (posts[0]?.id ?? 0) > 0,
+    loading,
+    loadingOlder,
+    refresh,
+    openChannel,
+    closeChannel,
+    decryptChannels,
+    createChannel,
+    requestSubscription,
+    cancelRequest,
+    approveRequests,
+    rejectRequests,
+    removeSubscriber,
+    rotateChannelKey,
+    renameChannel,
+    unsubscribe,
+    loadOlderPosts,
+    publishPost,
+    clear,
+  };
+}
@@ -1,107 +1,159 @@
 /**
  * Client-side encryption utilities using Web Crypto API
- * Provides AES-GCM encryption with PBKDF2 key derivation
+ * Provides AES-GCM encryption with pluggable password-based key derivation
+ * (PBKDF2, scrypt or Argon2id, see crypto/kdf.ts) and optional plaintext compression
+ *
+ * Ciphertexts are stored as a self-describing envelope (see crypto/envelope.ts).
+ * For bulk work, derive keys once with a VaultKeySession and hand the jobs to a
+ * CryptoWorkerPool instead of calling the password-based helpers below per message.
  */
 
-const SALT = "whisperlink-salt";
-const ITERATIONS = 100000;
-const KEY_LENGTH = 256;
-const IV_LENGTH = 12;
+import {
+  EncryptOptions,
+  LEGACY_KDF,
+  LEGACY_SALT,
+  MessageContext,
+  VaultKeyParams,
+  createVaultKeyParams,
+  decryptWithKeys,
+  encryptWithKey,
+} from "../crypto/envelope";
+import { deriveKey } from "../crypto/kdf";
 
-/**
- * Derive an AES-GCM key from a password using PBKDF2
- */
-async function deriveKey(password: string): Promise<CryptoKey> {
-  const encoder = new TextEncoder();
-  const passwordBuffer = encoder.encode(password);
-
-  const keyMaterial = await crypto.subtle.importKey(
-    "raw",
-    passwordBuffer,
-    "PBKDF2",
-    false,
-    ["deriveKey"]
-  );
-
-  return crypto.subtle.deriveKey(
-    {
-      name: "PBKDF2",
-      salt: encoder.encode(SALT),
-      iterations: ITERATIONS,
-      hash: "SHA-256",
-    },
-    keyMaterial,
-    { name: "AES-GCM", length: KEY_LENGTH },
-    false,
-    ["encrypt", "decrypt"]
-  );
-}
+export { benchmarkKdf, describeKdf, getKdfName, isWalletKdf, MIN_KDF_PARAMS } from "../crypto/kdf";
+export type { KdfName, KdfParams } from "../crypto/kdf";
+export {
+  bytesToHex,
+  createVaultKeyParams,
+  getEnvelopeSize,
+  getRewriteOptions,
+  getVaultKeyId,
+  getVaultKeyParams,
+  hexToBytes,
+  PADDING_BUCKETS,
+} from "../crypto/envelope";
+export { ContextMismatchError } from "../crypto/envelope";
+export type { DecryptedPayload, EncryptOptions, MessageContext, VaultKeyParams } from "../crypto/envelope";
+export { createKeyCheck, verifyKeyCheck } from "../crypto/keyCheck";
+export {
+  createDataKey,
+  createRecoveryPhrase,
+  decodeKeyring,
+  encodeKeyring,
+  formatRecoveryKit,
+  getDataKeyParams,
+  getKeyringEntries,
+  parseRecoveryKit,
+  recoveryPhraseToSecret,
+  RECOVERY_KEY_KDF,
+  unwrapDataKey,
+  wrapDataKey,
+} from "../crypto/keyring";
+export type { DataKey } from "../crypto/keyring";
+export {
+  buildGuardianKeyTypedData,
+  createGuardianShares,
+  deriveX25519KeyPair,
+  MAX_GUARDIANS,
+  MIN_GUARDIANS,
+  recoverDataKeyFromShares,
+  returnGuardianShare,
+} from "../crypto/guardians";
+export type { GuardianKey, GuardianShareContext, ReturnedShare } from "../crypto/guardians";
+export type { X25519KeyPair } from "../crypto/ecies";
+export { chunksToDataKey, dataKeyToChunks, getEscrowCommitment, KEY_CHUNKS, openWithDataKey } from "../crypto/keyEscrow";
+export {
+  buildMessagingKeyTypedData,
+  decryptDirectMessage,
+  deriveMessagingKeyPair,
+  encryptDirectMessage,
+} from "../crypto/direct";
+export type { DirectMessageContext } from "../crypto/direct";
+export {
+  decryptGroupMessage,
+  decryptGroupName,
+  encryptGroupMessage,
+  encryptGroupName,
+  generateGroupKey,
+  unwrapGroupKey,
+  wrapGroupKey,
+  MAX_GROUP_NAME_LENGTH,
+} from "../crypto/groups";
+export type { GroupContext, GroupMemberKey } from "../crypto/groups";
+export {
+  decryptChannelName,
+  decryptChannelPost,
+  encryptChannelName,
+  encryptChannelPost,
+  generateChannelKey,
+  unwrapChannelKey,
+  wrapChannelKey,
+  MAX_CHANNEL_NAME_LENGTH,
+} from "../crypto/channels";
+export type { ChannelContext } from "../crypto/channels";
+export { openGrantedMessage, sealGrantedMessage } from "../crypto/grants";
+export type { GrantContext } from "../crypto/grants";
+export { buildStoreRequestTypedData } from "../crypto/storeRequest";
+export type { SignedStoreRequest, StoreRequest } from "../crypto/storeRequest";
+export {
+  decodeLabels,
+  encodeLabels,
+  getLabelContext,
+  getLabelEncryptOptions,
+  MAX_LABEL_LENGTH,
+  MAX_LABELS,
+  parseLabelList,
+} from "../crypto/labels";
+export {
+  decodeTitle,
+  encodeTitle,
+  getBaseKeyParams,
+  getThreadKeyParams,
+  getTitleContext,
+  getTitleEncryptOptions,
+  MAX_TITLE_LENGTH,
+  normalizeTitle,
+  usesThreadKey,
+} from "../crypto/threads";
+export type { VaultContext } from "../crypto/keyCheck";
+export { VaultKeySession } from "../crypto/session";
+export { CryptoWorkerPool } from "../crypto/workerPool";
+export { buildWalletKeyTypedData, walletSignatureToSecret, WALLET_KEY_KDF } from "../crypto/walletKey";
 
 /**
  * Encrypt text using AES-GCM
  * @param text - Plain text to encrypt
  * @param password - Password for encryption
- * @returns Hex-encoded encrypted data (IV + ciphertext)
+ * @param params - Vault key settings; pass the vault's existing settings to reuse its salt
+ * @param options - Context binding (owner, chain, vault, position) and compression settings
+ * @returns Hex-encoded envelope (header + IV + ciphertext)
  */
-export async function encryptText(text: string, password: string): Promise<string> {
-  const key = await deriveKey(password);
-  const encoder = new TextEncoder();
-  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
-
-  const encrypted = await crypto.subtle.encrypt(
-    { name: "AES-GCM", iv },
-    key,
-    encoder.encode(text)
-  );
-
-  // Combine IV and encrypted data
-  const combined = new Uint8Array(iv.length + encrypted.byteLength);
-  combined.set(iv);
-  combined.set(new Uint8Array(encrypted), iv.length);
-
-  return Array.from(combined)
-    .map((b) => b.toString(16).padStart(2, "0"))
-    .join("");
+export async function encryptText(
+  text: string,
+  password: string,
+  params: VaultKeyParams = createVaultKeyParams(),
+  options?: EncryptOptions
+): Promise<string> {
+  const key = await deriveKey(password, params.kdf, params.salt);
+  return encryptWithKey(text, key, params, options);
 }
 
 /**
  * Decrypt hex-encoded AES-GCM encrypted data
- * @param encryptedHex - Hex-encoded encrypted data (with or without 0x prefix)
+ * @param encryptedHex - Hex-encoded v1 envelope or legacy v0 data (with or without 0x prefix)
  * @param password - Password for decryption
+ * @param context - Expected context; throws a ContextMismatchError if the ciphertext was bound elsewhere
  * @returns Decrypted plain text
  */
-export async function decryptText(encryptedHex: string, password: string): Promise<string> {
-  // Remove 0x prefix if present
-  const cleanHex = encryptedHex.startsWith("0x") ? encryptedHex.slice(2) : encryptedHex;
-  
-  if (!cleanHex || cleanHex.length < 24) {
-    throw new Error("Invalid encrypted content: data too short");
-  }
-  
-  // Validate hex format
-  if (!/^[0-9a-fA-F]+$/.test(cleanHex)) {
-    throw new Error("Invalid encrypted content: not valid hex format");
-  }
-  
-  const key = await deriveKey(password);
-  const combined = new Uint8Array(
-    cleanHex.match(/.{1,2}/g)!.map((byte) => parseInt(byte, 16))
+export async function decryptText(encryptedHex: string, password: string, context?: MessageContext): Promise<string> {
+  return decryptWithKeys(
+    encryptedHex,
+    (params) =>
+      params
+        ? deriveKey(password, params.kdf, params.salt)
+        : deriveKey(password, LEGACY_KDF, new TextEncoder().encode(LEGACY_SALT)),
+    context
   );
-
-  const iv = combined.slice(0, IV_LENGTH);
-  const encryptedData = combined.slice(IV_LENGTH);
-
-  try {
-    const decrypted = await crypto.subtle.decrypt(
-      { name: "AES-GCM", iv },
-      key,
-      encryptedData
-    );
-    return new TextDecoder().decode(decrypted);
-  } catch (cryptoErr) {
-    // AES-GCM decryption fails when password is wrong (authentication tag mismatch)
-    throw new Error("Decryption failed: incorrect password or corrupted data");
-  }
 }
 
 /**
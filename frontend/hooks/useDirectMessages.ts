@@ -0,0 +1,405 @@
+import { useState, useCallback, useEffect, useRef } from "react";
+import { useAccount, useChainId, useWalletClient } from "wagmi";
+import { BrowserProvider, Contract, ZeroHash, getAddress, hexlify, isAddress } from "ethers";
+import { MAX_CONTENT_BYTES, MESSAGE_PAGE_SIZE, getContractAddress, isMissingFunction } from "./useWhisperVault";
+import {
+  buildMessagingKeyTypedData,
+  decryptDirectMessage,
+  deriveMessagingKeyPair,
+  encryptDirectMessage,
+  X25519KeyPair,
+} from "./useCrypto";
+
+// The messaging keys and direct messages of WhisperVault
+const DIRECT_MESSAGES_ABI = [
+  "function setMessagingKey(bytes32 key) external",
+  "function getMessagingKey(address account) view returns (bytes32)",
+  "function sendDirectMessage(address recipient, bytes encryptedContent) external",
+  "function getInbox(address account) view returns (address[] peers, uint256[] messageCounts, uint256[] lastTimestamps)",
+  "function getDirectMessagesRange(address a, address b, uint256 offset, uint256 limit) view returns (tuple(address sender, bytes encryptedContent, uint256 timestamp)[] page)",
+  "function getLatestDirectMessages(address a, address b, uint256 offset, uint256 limit) view returns (tuple(address sender, bytes encryptedContent, uint256 timestamp)[] page, uint256 total)",
+  "event MessagingKeySet(address indexed account, bytes32 key)",
+  "event DirectMessageSent(address indexed sender, address indexed recipient, uint256 indexed messageIndex, uint256 size)",
+];
+
+/**
+ * A message of a two-party conversation, encrypted to both parties' messaging keys
+ */
+export interface DirectMessage {
+  // Position in the conversation
+  id: number;
+  sender: string;
+  encryptedContent: string;
+  timestamp: number;
+  decryptedText?: string;
+  // Set when the reader's messaging key doesn't open it, e.g. it was sealed to an earlier key
+  unreadable?: boolean;
+}
+
+/**
+ * A two-party conversation of the connected account, as listed in its inbox
+ */
+export interface Conversation {
+  peer: string;
+  messageCount: number;
+  // When the latest message was sent
+  lastTimestamp: number;
+}
+
+type StoredDirectMessage = { sender: string; encryptedContent: string; timestamp: bigint };
+
+function toDirectMessage(msg: StoredDirectMessage, id: number): DirectMessage {
+  return { id, sender: msg.sender, encryptedContent: msg.encryptedContent, timestamp: Number(msg.timestamp) };
+}
+
+/**
+ * Read the newest page of the conversation between two addresses, oldest first, and the number
+ * of messages in the conversation
+ */
+async function readLatestDirectPage(
+  contract: Contract,
+  account: string,
+  peer: string
+): Promise<{ page: DirectMessage[]; total: number }> {
+  const [page, total]: [StoredDirectMessage[], bigint] = await contract.getLatestDirectMessages(
+    account,
+    peer,
+    0,
+    MESSAGE_PAGE_SIZE
+  );
+  return { page: page.map((msg, i) => toDirectMessage(msg, Number(total) - 1 - i)).reverse(), total: Number(total) };
+}
+
+/**
+ * Two-party conversations through WhisperVault (see crypto/direct.ts), and the messaging key
+ * they are sealed to
+ *
+ * The messaging key pair is derived from a wallet signature, signed for once per session and
+ * kept in memory until the account changes or clear() is called. Groups, channels and grants
+ * borrow it through getMessagingKeyPair and unlockMessagingKey. Needs a deployed vault; there is
+ * no demo mode.
+ */
+export function useDirectMessages() {
+  const { address } = useAccount();
+  const chainId = useChainId();
+  const { data: walletClient } = useWalletClient();
+
+  // Whether the deployment has direct messages
+  const [supported, setSupported] = useState(false);
+  // Messaging key the account published, null if none, and its key pair once signed for in this session
+  const [messagingKey, setMessagingKey] = useState<string | null>(null);
+  const messagingKeyPairRef = useRef<X25519KeyPair | null>(null);
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  // Peer of the conversation shown in `directMessages`, null while none is open
+  const [activeConversation, setActiveConversation] = useState<string | null>(null);
+  const activeConversationRef = useRef<string | null>(null);
+  const [directMessages, setDirectMessages] = useState<DirectMessage[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [loadingOlder, setLoadingOlder] = useState(false);
+  const loadingOlderRef = useRef(false);
+
+  useEffect(() => {
+    messagingKeyPairRef.current?.privateKey.fill(0);
+    messagingKeyPairRef.current = null;
+    setMessagingKey(null);
+    setSupported(false);
+    setConversations([]);
+    setActiveConversation(null);
+    activeConversationRef.current = null;
+    setDirectMessages([]);
+  }, [address, chainId]);
+
+  const getVault = useCallback(async () => {
+    if (!walletClient || !chainId) return null;
+    const vaultAddress = await getContractAddress(chainId);
+    if (!vaultAddress) return null;
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const provider = new BrowserProvider(walletClient as any);
+    const signer = await provider.getSigner();
+    return new Contract(vaultAddress, DIRECT_MESSAGES_ABI, signer);
+  }, [walletClient, chainId]);
+
+  const requireVault = useCallback(async () => {
+    const vault = await getVault();
+    if (!vault || !address) throw new Error("Direct messages need a deployed WhisperVault");
+    return { vault, account: address };
+  }, [getVault, address]);
+
+  /**
+   * Load the published messaging key and the inbox of the connected account, newest conversation first
+   */
+  const refresh = useCallback(async () => {
+    if (!address) return;
+    const vault = await getVault();
+    if (!vault) {
+      setSupported(false);
+      return;
+    }
+
+    try {
+      const [key, [peers, counts, lastTimestamps]]: [string, [string[], bigint[], bigint[]]] = await Promise.all([
+        vault.getMessagingKey(address),
+        vault.getInbox(address),
+      ]);
+      setSupported(true);
+      setMessagingKey(key === ZeroHash ? null : key);
+      setConversations(
+        peers
+          .map((peer, i) => ({ peer, messageCount: Number(counts[i]), lastTimestamp: Number(lastTimestamps[i]) }))
+          .sort((a, b) => b.lastTimestamp - a.lastTimestamp)
+      );
+    } catch (err) {
+      setSupported(false);
+      if (isMissingFunction(err)) return;
+      console.warn("[WhisperVault] Failed to load conversations:", err);
+    }
+  }, [address, getVault]);
+
+  /**
+   * Derive the messaging key pair from a wallet signature
+   * @param checkDeterministic - Sign twice and refuse wallets whose signatures change
+   */
+  const signMessagingKeyPair = useCallback(
+    async (checkDeterministic: boolean): Promise<X25519KeyPair> => {
+      if (!walletClient || !address || !chainId) throw new Error("Not connected");
+      const vaultAddress = await getContractAddress(chainId);
+      if (!vaultAddress) throw new Error("Direct messages need a deployed WhisperVault");
+
+      const typedData = buildMessagingKeyTypedData(chainId, vaultAddress as `0x${string}`, address);
+      const sign = () => walletClient.signTypedData({ account: address, ...typedData });
+      const signature = await sign();
+      if (checkDeterministic && (await sign()).toLowerCase() !== signature.toLowerCase()) {
+        throw new Error("This wallet doesn't produce repeatable signatures, so it can't hold a messaging key");
+      }
+      return deriveMessagingKeyPair(signature);
+    },
+    [walletClient, address, chainId]
+  );
+
+  /**
+   * Publish the key direct messages are sealed to, so others can start conversations
+   */
+  const registerMessagingKey = useCallback(async () => {
+    try {
+      setLoading(true);
+      const { vault } = await requireVault();
+      const keyPair = await signMessagingKeyPair(true);
+      const key = hexlify(keyPair.publicKey);
+      const tx = await vault.setMessagingKey(key);
+      await tx.wait();
+
+      messagingKeyPairRef.current?.privateKey.fill(0);
+      messagingKeyPairRef.current = keyPair;
+      setMessagingKey(key);
+    } finally {
+      setLoading(false);
+    }
+  }, [requireVault, signMessagingKeyPair]);
+
+  /**
+   * Decrypt direct messages of the conversation with `peer` that aren't decrypted yet
+   */
+  const openDirectMessages = useCallback(
+    async (page: DirectMessage[], peer: string, keyPair: X25519KeyPair): Promise<DirectMessage[]> => {
+      const vault = await getContractAddress(chainId);
+      if (!address || !vault) return page;
+
+      return Promise.all(
+        page.map(async (msg) => {
+          if (msg.decryptedText !== undefined) return msg;
+          const fromMe = msg.sender.toLowerCase() === address.toLowerCase();
+          const text = await decryptDirectMessage(msg.encryptedContent, keyPair, {
+            sender: msg.sender,
+            recipient: fromMe ? peer : address,
+            chainId,
+            vault,
+          });
+          return text === null ? { ...msg, unreadable: true } : { ...msg, decryptedText: text, unreadable: undefined };
+        })
+      );
+    },
+    [address, chainId]
+  );
+
+  // The messaging key pair if this session already signed for it
+  const getMessagingKeyPair = useCallback((): X25519KeyPair | null => messagingKeyPairRef.current, []);
+
+  /**
+   * The messaging key pair, signed for once per session (direct messages and groups share it)
+   * @throws if the account has no messaging key, or the wallet's signature no longer gives it
+   */
+  const unlockMessagingKey = useCallback(async (): Promise<X25519KeyPair> => {
+    if (messagingKeyPairRef.current) return messagingKeyPairRef.current;
+    if (!messagingKey) throw new Error("Publish a messaging key first");
+
+    const keyPair = await signMessagingKeyPair(false);
+    if (hexlify(keyPair.publicKey) !== messagingKey.toLowerCase()) {
+      keyPair.privateKey.fill(0);
+      throw new Error("This wallet's signature no longer gives your published messaging key");
+    }
+    messagingKeyPairRef.current = keyPair;
+    return keyPair;
+  }, [messagingKey, signMessagingKeyPair]);
+
+  /**
+   * Sign for the messaging key pair if needed and decrypt the loaded direct messages
+   */
+  const decryptDirectMessages = useCallback(async () => {
+    const peer = activeConversationRef.current;
+    if (!peer) return;
+
+    const keyPair = await unlockMessagingKey();
+    const opened = await openDirectMessages(directMessages, peer, keyPair);
+    if (activeConversationRef.current !== peer) return;
+    const byId = new Map(opened.map((msg) => [msg.id, msg]));
+    setDirectMessages((prev) => prev.map((msg) => byId.get(msg.id) ?? msg));
+  }, [directMessages, unlockMessagingKey, openDirectMessages]);
+
+  /**
+   * Show the conversation with another address, or start one
+   * @param peerInput - The other party's address, as typed by the user
+   * @throws if the address is invalid or has never published a messaging key
+   */
+  const openConversation = useCallback(
+    async (peerInput: string) => {
+      try {
+        setLoading(true);
+        const { vault, account } = await requireVault();
+        if (!isAddress(peerInput.trim())) throw new Error("Enter a valid 0x address");
+        const peer = getAddress(peerInput.trim());
+        if (peer === getAddress(account)) throw new Error("Direct messages go to another address");
+        if ((await vault.getMessagingKey(peer)) === ZeroHash) {
+          throw new Error(`${peer} hasn't published a messaging key yet`);
+        }
+
+        activeConversationRef.current = peer;
+        setActiveConversation(peer);
+        setDirectMessages([]);
+
+        const { page } = await readLatestDirectPage(vault, account, peer);
+        const keyPair = messagingKeyPairRef.current;
+        const shown = keyPair ? await openDirectMessages(page, peer, keyPair) : page;
+        if (activeConversationRef.current === peer) setDirectMessages(shown);
+      } finally {
+        setLoading(false);
+      }
+    },
+    [requireVault, openDirectMessages]
+  );
+
+  // Go back from a conversation to the vault's threads
+  const closeConversation = useCallback(() => {
+    activeConversationRef.current = null;
+    setActiveConversation(null);
+    setDirectMessages([]);
+  }, []);
+
+  /**
+   * Load the page of direct messages before the oldest loaded one
+   */
+  const loadOlderDirectMessages = useCallback(async () => {
+    const peer = activeConversationRef.current;
+    const oldest = directMessages[0]?.id ?? 0;
+    if (!peer || oldest === 0 || loadingOlderRef.current) return;
+
+    try {
+      loadingOlderRef.current = true;
+      setLoadingOlder(true);
+
+      const { vault, account } = await requireVault();
+      const start = Math.max(0, oldest - MESSAGE_PAGE_SIZE);
+      const stored: StoredDirectMessage[] = await vault.getDirectMessagesRange(account, peer, start, oldest - start);
+      const page = stored.map((msg, i) => toDirectMessage(msg, start + i));
+      const keyPair = messagingKeyPairRef.current;
+      const shown = keyPair ? await openDirectMessages(page, peer, keyPair) : page;
+      if (activeConversationRef.current !== peer) return;
+      setDirectMessages((prev) => [...shown, ...prev.filter((msg) => msg.id >= oldest)]);
+    } finally {
+      loadingOlderRef.current = false;
+      setLoadingOlder(false);
+    }
+  }, [directMessages, requireVault, openDirectMessages]);
+
+  /**
+   * Send a direct message to the open conversation, encrypted to both parties' messaging keys
+   */
+  const sendDirectMessage = useCallback(
+    async (text: string) => {
+      const peer = activeConversationRef.current;
+      if (!peer) throw new Error("Open a conversation first");
+      const trimmed = text.trim();
+      if (!trimmed) return;
+
+      try {
+        setLoading(true);
+        const { vault, account } = await requireVault();
+        const [senderKey, recipientKey]: string[] = await Promise.all([
+          vault.getMessagingKey(account),
+          vault.getMessagingKey(peer),
+        ]);
+        if (senderKey === ZeroHash) throw new Error("Publish a messaging key first");
+        if (recipientKey === ZeroHash) throw new Error(`${peer} has no messaging key`);
+
+        const encrypted = await encryptDirectMessage(
+          trimmed,
+          { sender: account, recipient: peer, chainId, vault: await vault.getAddress() },
+          senderKey,
+          recipientKey
+        );
+        if ((encrypted.length - 2) / 2 > MAX_CONTENT_BYTES) {
+          throw new Error(`Message too large: over ${MAX_CONTENT_BYTES.toLocaleString()} bytes once encrypted`);
+        }
+        const tx = await vault.sendDirectMessage(peer, encrypted);
+        await tx.wait();
+
+        // Our own message is shown as typed; the rest keeps what was already decrypted
+        const { page } = await readLatestDirectPage(vault, account, peer);
+        if (activeConversationRef.current === peer) {
+          setDirectMessages((prev) => {
+            const known = new Map(prev.map((msg) => [msg.id, msg]));
+            const first = page[0]?.id ?? 0;
+            return [
+              ...prev.filter((msg) => msg.id < first),
+              ...page.map(
+                (msg) => known.get(msg.id) ?? (msg.encryptedContent === encrypted ? { ...msg, decryptedText: trimmed } : msg)
+              ),
+            ];
+          });
+        }
+        await refresh();
+      } finally {
+        setLoading(false);
+      }
+    },
+    [chainId, requireVault, refresh]
+  );
+
+  // Forget the messaging key pair and decrypted messages
+  const clear = useCallback(() => {
+    messagingKeyPairRef.current?.privateKey.fill(0);
+    messagingKeyPairRef.current = null;
+    setDirectMessages((prev) => prev.map((msg) => ({ ...msg, decryptedText: undefined, unreadable: undefined })));
+  }, []);
+
+  return {
+    supported,
+    messagingKey,
+    conversations,
+    activeConversation,
+    directMessages,
+    hasOlderDirectMessages: (directMessages[0]?.id ?? 0) > 0,
+    loading,
+    loadingOlder,
+    refresh,
+    registerMessagingKey,
+    getMessagingKeyPair,
+    unlockMessagingKey,
+    openConversation,
+    closeConversation,
+    decryptDirectMessages,
+    loadOlderDirectMessages,
+    sendDirectMessage,
+    clear,
+  };
+}
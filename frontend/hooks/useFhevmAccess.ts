@@ -0,0 +1,58 @@
+import { useCallback } from "react";
+import { useChainId, useWalletClient } from "wagmi";
+import { Signer, ZeroHash } from "ethers";
+import { useFhevm } from "@/fhevm/useFhevm";
+import { FhevmDecryptionSignature } from "@/fhevm/FhevmDecryptionSignature";
+import { useInMemoryStorage } from "./useInMemoryStorage";
+import { useMetaMaskEthersSigner } from "./metamask/useMetaMaskEthersSigner";
+
+/**
+ * The FHEVM instance of the connected wallet's network, and decryption of FHE handles for it
+ *
+ * The instance encrypts inputs for contracts and decrypts handles the account is allowed on. The
+ * userDecrypt signature is asked for once per contract and kept in memory until the page reloads.
+ * On the hardhat node the instance runs against the FHEVM mock.
+ * @param enabled - Load the instance (and the relayer SDK) only once a contract needs it
+ */
+export function useFhevmAccess(enabled: boolean) {
+  const chainId = useChainId();
+  const { data: walletClient } = useWalletClient();
+  const { initialMockChains } = useMetaMaskEthersSigner();
+  const { storage } = useInMemoryStorage();
+
+  const { instance, status } = useFhevm({
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    provider: walletClient as any,
+    chainId,
+    initialMockChains,
+    enabled,
+  });
+
+  /**
+   * Decrypt handles of a contract, signing the userDecrypt request first if needed
+   * @returns Clear values by handle; uninitialized (zero) handles are left out
+   */
+  const userDecrypt = useCallback(
+    async (contractAddress: string, handles: string[], signer: Signer) => {
+      if (!instance) throw new Error("The FHEVM instance is still loading");
+      const requested = [...new Set(handles)].filter((handle) => handle !== ZeroHash);
+      if (requested.length === 0) return {};
+
+      const sig = await FhevmDecryptionSignature.loadOrSign(instance, [contractAddress], signer, storage);
+      if (!sig) throw new Error("Unable to sign the decryption request");
+      return instance.userDecrypt(
+        requested.map((handle) => ({ handle, contractAddress })),
+        sig.privateKey,
+        sig.publicKey,
+        sig.signature,
+        sig.contractAddresses,
+        sig.userAddress,
+        sig.startTimestamp,
+        sig.durationDays
+      );
+    },
+    [instance, storage]
+  );
+
+  return { instance, status, userDecrypt };
+}
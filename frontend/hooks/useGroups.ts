@@ -0,0 +1,638 @@
+import { useState, useCallback, useEffect, useRef } from "react";
+import { useAccount, useChainId, useWalletClient } from "wagmi";
+import { BrowserProvider, Contract, ZeroHash, getAddress, isAddress } from "ethers";
+import { MAX_CONTENT_BYTES, MESSAGE_PAGE_SIZE, getContractAddress } from "./useWhisperVault";
+import {
+  decryptGroupMessage,
+  decryptGroupName,
+  encryptGroupMessage,
+  encryptGroupName,
+  generateGroupKey,
+  unwrapGroupKey,
+  wrapGroupKey,
+  GroupContext,
+  X25519KeyPair,
+} from "./useCrypto";
+
+const GROUP_REGISTRY_ABI = [
+  "function vault() view returns (address)",
+  "function createGroup(bytes encryptedName, address[] members, bytes[] wrappedKeys) external returns (uint256 groupId)",
+  "function updateMembers(uint256 groupId, address[] added, address[] removed, bytes encryptedName, bytes[] wrappedKeys) external",
+  "function leaveGroup(uint256 groupId) external",
+  "function setAdmin(uint256 groupId, address account, bool admin) external",
+  "function renameGroup(uint256 groupId, bytes encryptedName) external",
+  "function sendMessage(uint256 groupId, bytes encryptedContent) external",
+  "function getGroup(uint256 groupId) view returns (tuple(address creator, bytes name, uint256 epoch, bool rekeyNeeded, uint256 createdAt) group, uint256 messageCount)",
+  "function getMembers(uint256 groupId) view returns (address[] members, bool[] admins)",
+  "function getWrappedKey(uint256 groupId, uint256 epoch, address account) view returns (bytes)",
+  "function getGroupsOf(address account) view returns (uint256[] groupIds)",
+  "function getMessagesRange(uint256 groupId, uint256 offset, uint256 limit) view returns (tuple(address sender, uint256 epoch, bytes encryptedContent, uint256 timestamp)[] page)",
+  "function getLatestMessages(uint256 groupId, uint256 offset, uint256 limit) view returns (tuple(address sender, uint256 epoch, bytes encryptedContent, uint256 timestamp)[] page, uint256 total)",
+  "event GroupCreated(uint256 indexed groupId, address indexed creator)",
+  "event GroupRenamed(uint256 indexed groupId, uint256 size)",
+  "event MemberAdded(uint256 indexed groupId, address indexed member)",
+  "event MemberRemoved(uint256 indexed groupId, address indexed member)",
+  "event AdminSet(uint256 indexed groupId, address indexed account, bool admin)",
+  "event GroupKeyRotated(uint256 indexed groupId, uint256 indexed epoch, uint256 memberCount)",
+  "event GroupMessageSent(uint256 indexed groupId, address indexed sender, uint256 indexed messageIndex, uint256 epoch, uint256 size)",
+];
+
+const MESSAGING_KEYS_ABI = ["function getMessagingKey(address account) view returns (bytes32)"];
+
+type GroupKey = ReturnType<typeof generateGroupKey>;
+
+/**
+ * A group the connected account is a member of
+ */
+export interface Group {
+  id: number;
+  creator: string;
+  // Encrypted name as stored, and the name once decrypted
+  encryptedName: string;
+  name?: string;
+  // Epoch of the current group key
+  epoch: number;
+  // A member left with the current key, an admin has to replace it before anyone writes
+  rekeyNeeded: boolean;
+  messageCount: number;
+  createdAt: number;
+}
+
+export interface GroupMember {
+  address: string;
+  admin: boolean;
+}
+
+/**
+ * A message of a group, encrypted with the group key of its epoch
+ */
+export interface GroupMessage {
+  // Position in the group
+  id: number;
+  sender: string;
+  epoch: number;
+  encryptedContent: string;
+  timestamp: number;
+  decryptedText?: string;
+  // Set when the group key of its epoch was never wrapped to this account: sent before it joined
+  beforeJoining?: boolean;
+  // Set when the group key doesn't open it
+  unreadable?: boolean;
+}
+
+/**
+ * The messaging key of the connected account, from useDirectMessages: group keys are wrapped to it
+ */
+export interface MessagingKeyAccess {
+  // Messaging key the account published, null if none
+  messagingKey: string | null;
+  // The key pair if this session already signed for it
+  getKeyPair: () => X25519KeyPair | null;
+  // Sign for the key pair if needed
+  unlock: () => Promise<X25519KeyPair>;
+}
+
+type StoredGroup = { creator: string; name: string; epoch: bigint; rekeyNeeded: boolean; createdAt: bigint };
+
+type StoredGroupMessage = { sender: string; epoch: bigint; encryptedContent: string; timestamp: bigint };
+
+function toGroupMessage(msg: StoredGroupMessage, id: number): GroupMessage {
+  return {
+    id,
+    sender: msg.sender,
+    epoch: Number(msg.epoch),
+    encryptedContent: msg.encryptedContent,
+    timestamp: Number(msg.timestamp),
+  };
+}
+
+async function readGroup(registry: Contract, id: number): Promise<Group> {
+  const [group, messageCount]: [StoredGroup, bigint] = await registry.getGroup(id);
+  return {
+    id,
+    creator: group.creator,
+    encryptedName: group.name,
+    epoch: Number(group.epoch),
+    rekeyNeeded: group.rekeyNeeded,
+    messageCount: Number(messageCount),
+    createdAt: Number(group.createdAt),
+  };
+}
+
+async function readMembers(registry: Contract, id: number): Promise<GroupMember[]> {
+  const [members, admins]: [string[], boolean[]] = await registry.getMembers(id);
+  return members.map((address, i) => ({ address, admin: admins[i] }));
+}
+
+/**
+ * Read the newest page of a group's messages, oldest first
+ */
+async function readLatestGroupPage(registry: Contract, id: number): Promise<GroupMessage[]> {
+  const [page, total]: [StoredGroupMessage[], bigint] = await registry.getLatestMessages(id, 0, MESSAGE_PAGE_SIZE);
+  return page.map((msg, i) => toGroupMessage(msg, Number(total) - 1 - i)).reverse();
+}
+
+/**
+ * Parse a list of typed addresses
+ * @throws if one isn't a valid address
+ */
+function parseAddresses(inputs: string[]): string[] {
+  const addresses = inputs.map((input) => input.trim()).filter(Boolean);
+  for (const input of addresses) {
+    if (!isAddress(input)) throw new Error(`${input} isn't a valid 0x address`);
+  }
+  return [...new Set(addresses.map((input) => getAddress(input)))];
+}
+
+/**
+ * Group conversations through the GroupRegistry contract (see crypto/groups.ts)
+ *
+ * Group keys are wrapped to the WhisperVault messaging keys of the members, so this hook signs
+ * for nothing itself: it borrows the messaging key pair of useDirectMessages. Unwrapped group keys
+ * stay in memory until the account changes or clear() is called. Needs a deployed registry;
+ * there is no demo mode.
+ */
+export function useGroups(messaging: MessagingKeyAccess) {
+  const { address } = useAccount();
+  const chainId = useChainId();
+  const { data: walletClient } = useWalletClient();
+  const { messagingKey, getKeyPair, unlock } = messaging;
+
+  // null until checked whether the registry is deployed on this chain
+  const [available, setAvailable] = useState<boolean | null>(null);
+  const [groups, setGroups] = useState<Group[]>([]);
+  const [activeGroup, setActiveGroup] = useState<number | null>(null);
+  const activeGroupRef = useRef<number | null>(null);
+  const [members, setMembers] = useState<GroupMember[]>([]);
+  const [groupMessages, setGroupMessages] = useState<GroupMessage[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [loadingOlder, setLoadingOlder] = useState(false);
+  // Unwrapped group keys by "groupId:epoch", null when not wrapped to this account
+  const groupKeysRef = useRef(new Map<string, GroupKey | null>());
+
+  const forgetKeys = useCallback(() => {
+    groupKeysRef.current.forEach((key) => key?.fill(0));
+    groupKeysRef.current.clear();
+  }, []);
+
+  useEffect(() => {
+    forgetKeys();
+    setAvailable(null);
+    setGroups([]);
+    setActiveGroup(null);
+    activeGroupRef.current = null;
+    setMembers([]);
+    setGroupMessages([]);
+  }, [address, chainId, forgetKeys]);
+
+  const getRegistry = useCallback(async () => {
+    if (!walletClient || !chainId) return null;
+    const registryAddress = await getContractAddress(chainId, "GroupRegistry");
+    if (!registryAddress) return null;
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const provider = new BrowserProvider(walletClient as any);
+    const signer = await provider.getSigner();
+    return new Contract(registryAddress, GROUP_REGISTRY_ABI, signer);
+  }, [walletClient, chainId]);
+
+  const requireRegistry = useCallback(async () => {
+    const registry = await getRegistry();
+    if (!registry || !address) throw new Error("Groups aren't available on this network");
+    return { registry, registryAddress: (await registry.getAddress()) as string, account: address };
+  }, [getRegistry, address]);
+
+  /**
+   * The group key of an epoch, unwrapped with the messaging key pair and cached
+   * @returns null if the key was never wrapped to this account
+   */
+  const getGroupKey = useCallback(
+    async (registry: Contract, groupId: number, epoch: number, keyPair: X25519KeyPair): Promise<GroupKey | null> => {
+      const cacheKey = `${groupId}:${epoch}`;
+      if (groupKeysRef.current.has(cacheKey)) return groupKeysRef.current.get(cacheKey) ?? null;
+      if (!address) return null;
+
+      const wrapped: string = await registry.getWrappedKey(groupId, epoch, address);
+      const context: GroupContext = { chainId, registry: await registry.getAddress(), epoch };
+      const groupKey = wrapped === "0x" ? null : await unwrapGroupKey(wrapped, keyPair, address, context);
+      groupKeysRef.current.set(cacheKey, groupKey);
+      return groupKey;
+    },
+    [address, chainId]
+  );
+
+  // The group key of the current epoch, which new names and messages are encrypted with
+  const requireCurrentKey = useCallback(
+    async (registry: Contract, group: Group, keyPair: X25519KeyPair): Promise<GroupKey> => {
+      const groupKey = await getGroupKey(registry, group.id, group.epoch, keyPair);
+      if (!groupKey) throw new Error("Your messaging key doesn't open this group's key");
+      return groupKey;
+    },
+    [getGroupKey]
+  );
+
+  const openGroupNames = useCallback(
+    async (registry: Contract, list: Group[], keyPair: X25519KeyPair): Promise<Group[]> => {
+      const registryAddress = await registry.getAddress();
+      return Promise.all(
+        list.map(async (group) => {
+          if (group.name !== undefined) return group;
+          const groupKey = await getGroupKey(registry, group.id, group.epoch, keyPair);
+          const name = groupKey
+            ? await decryptGroupName(group.encryptedName, groupKey, { chainId, registry: registryAddress, epoch: group.epoch })
+            : null;
+          return name === null ? group : { ...group, name };
+        })
+      );
+    },
+    [chainId, getGroupKey]
+  );
+
+  const openGroupMessages = useCallback(
+    async (registry: Contract, groupId: number, page: GroupMessage[], keyPair: X25519KeyPair): Promise<GroupMessage[]> => {
+      const registryAddress = await registry.getAddress();
+      return Promise.all(
+        page.map(async (msg) => {
+          if (msg.decryptedText !== undefined || msg.beforeJoining) return msg;
+          const groupKey = await getGroupKey(registry, groupId, msg.epoch, keyPair);
+          if (!groupKey) return { ...msg, beforeJoining: true };
+          const text = await decryptGroupMessage(
+            msg.encryptedContent,
+            groupKey,
+            { chainId, registry: registryAddress, epoch: msg.epoch },
+            msg.sender
+          );
+          return text === null ? { ...msg, unreadable: true } : { ...msg, decryptedText: text, unreadable: undefined };
+        })
+      );
+    },
+    [chainId, getGroupKey]
+  );
+
+  // Reload the account's groups, and the members of the open group
+  const refresh = useCallback(async () => {
+    if (!address) return;
+    const registry = await getRegistry();
+    setAvailable(!!registry);
+    if (!registry) return;
+
+    try {
+      const ids: bigint[] = await registry.getGroupsOf(address);
+      const list = await Promise.all(ids.map((id) => readGroup(registry, Number(id))));
+      const keyPair = getKeyPair();
+      const shown = keyPair ? await openGroupNames(registry, list, keyPair) : list;
+      setGroups((prev) => {
+        const names = new Map(prev.map((group) => [`${group.id}:${group.epoch}`, group.name]));
+        return shown.map((group) => ({ ...group, name: group.name ?? names.get(`${group.id}:${group.epoch}`) }));
+      });
+
+      const open = activeGroupRef.current;
+      if (open !== null) {
+        if (!list.some((group) => group.id === open)) {
+          activeGroupRef.current = null;
+          setActiveGroup(null);
+          setGroupMessages([]);
+        }
+        const groupMembers = await readMembers(registry, open);
+        if (activeGroupRef.current === open) setMembers(groupMembers);
+      }
+    } catch (err) {
+      console.warn("[GroupRegistry] Failed to read groups:", err);
+      setAvailable(false);
+    }
+  }, [address, getRegistry, getKeyPair, openGroupNames]);
+
+  const runTransaction = useCallback(
+    async <T>(action: () => Promise<T>): Promise<T> => {
+      try {
+        setLoading(true);
+        return await action();
+      } finally {
+        setLoading(false);
+        await refresh();
+      }
+    },
+    [refresh]
+  );
+
+  /**
+   * Look up the messaging keys of accounts in the WhisperVault the registry belongs to
+   * @throws if one of them hasn't published a key
+   */
+  const readMessagingKeys = useCallback(async (registry: Contract, accounts: string[]) => {
+    const vault = new Contract(await registry.vault(), MESSAGING_KEYS_ABI, registry.runner);
+    return Promise.all(
+      accounts.map(async (account) => {
+        const key: string = await vault.getMessagingKey(account);
+        if (key === ZeroHash) throw new Error(`${account} hasn't published a messaging key yet`);
+        return { address: account, messagingKey: key };
+      })
+    );
+  }, []);
+
+  /**
+   * Show a group and its newest page of messages, decrypted if the messaging key pair is at hand
+   */
+  const openGroup = useCallback(
+    async (id: number) => {
+      const { registry } = await requireRegistry();
+      activeGroupRef.current = id;
+      setActiveGroup(id);
+      setMembers([]);
+      setGroupMessages([]);
+
+      try {
+        setLoading(true);
+        const [groupMembers, page] = await Promise.all([readMembers(registry, id), readLatestGroupPage(registry, id)]);
+        const keyPair = getKeyPair();
+        const shown = keyPair ? await openGroupMessages(registry, id, page, keyPair) : page;
+        if (activeGroupRef.current !== id) return;
+        setMembers(groupMembers);
+        setGroupMessages(shown);
+      } finally {
+        setLoading(false);
+      }
+    },
+    [requireRegistry, getKeyPair, openGroupMessages]
+  );
+
+  const closeGroup = useCallback(() => {
+    activeGroupRef.current = null;
+    setActiveGroup(null);
+    setMembers([]);
+    setGroupMessages([]);
+  }, []);
+
+  /**
+   * Sign for the messaging key pair if needed, and decrypt group names and the open group's messages
+   */
+  const decryptGroups = useCallback(async () => {
+    const { registry } = await requireRegistry();
+    const keyPair = await unlock();
+    const opened = await openGroupNames(registry, groups, keyPair);
+    const names = new Map(opened.map((group) => [group.id, group.name]));
+    setGroups((prev) => prev.map((group) => ({ ...group, name: group.name ?? names.get(group.id) })));
+
+    const open = activeGroupRef.current;
+    if (open === null) return;
+    const shown = await openGroupMessages(registry, open, groupMessages, keyPair);
+    if (activeGroupRef.current !== open) return;
+    const byId = new Map(shown.map((msg) => [msg.id, msg]));
+    setGroupMessages((prev) => prev.map((msg) => byId.get(msg.id) ?? msg));
+  }, [requireRegistry, unlock, openGroupNames, openGroupMessages, groups, groupMessages]);
+
+  /**
+   * Create a group with a new group key wrapped to the caller and every member
+   * @param memberInputs - The other members' addresses, as typed by the user
+   * @returns The id of the new group
+   */
+  const createGroup = useCallback(
+    (name: string, memberInputs: string[]) =>
+      runTransaction(async () => {
+        const { registry, registryAddress, account } = await requireRegistry();
+        if (!messagingKey) throw new Error("Publish a messaging key first");
+        const self = getAddress(account);
+        const others = parseAddresses(memberInputs).filter((member) => member !== self);
+
+        const memberKeys = await readMessagingKeys(registry, [self, ...others]);
+        const groupKey = generateGroupKey();
+        try {
+          const context: GroupContext = { chainId, registry: registryAddress, epoch: 1 };
+          const [wrappedKeys, encryptedName] = await Promise.all([
+            wrapGroupKey(groupKey, memberKeys, context),
+            encryptGroupName(name.trim(), groupKey, context),
+          ]);
+          const tx = await registry.createGroup(encryptedName, others, wrappedKeys);
+          const receipt = await tx.wait();
+          const created = receipt.logs
+            .map((log: { topics: string[]; data: string }) => registry.interface.parseLog(log))
+            .find((log: { name: string } | null) => log?.name === "GroupCreated");
+          const id = Number(created.args.groupId);
+          groupKeysRef.current.set(`${id}:1`, groupKey.slice());
+          return id;
+        } finally {
+          groupKey.fill(0);
+        }
+      }),
+    [runTransaction, requireRegistry, readMessagingKeys, messagingKey, chainId]
+  );
+
+  /**
+   * Add and remove members of the open group under a new group key, wrapped to the resulting
+   * members in the order the registry will list them
+   */
+  const rekeyGroup = useCallback(
+    (added: string[], removed: string[]) =>
+      runTransaction(async () => {
+        const id = activeGroupRef.current;
+        if (id === null) throw new Error("Open a group first");
+        const { registry, registryAddress } = await requireRegistry();
+        const keyPair = await unlock();
+
+        const group = await readGroup(registry, id);
+        const currentKey = await requireCurrentKey(registry, group, keyPair);
+        const name = await decryptGroupName(group.encryptedName, currentKey, {
+          chainId,
+          registry: registryAddress,
+          epoch: group.epoch,
+        });
+        if (name === null) throw new Error("This group's name doesn't decrypt with its key");
+
+        const current = (await readMembers(registry, id)).map((member) => member.address);
+        const resulting = [...current.filter((member) => !removed.includes(member)), ...added];
+        const memberKeys = await readMessagingKeys(registry, resulting);
+
+        const groupKey = generateGroupKey();
+        try {
+          const context: GroupContext = { chainId, registry: registryAddress, epoch: group.epoch + 1 };
+          const [wrappedKeys, encryptedName] = await Promise.all([
+            wrapGroupKey(groupKey, memberKeys, context),
+            encryptGroupName(name, groupKey, context),
+          ]);
+          const tx = await registry.updateMembers(id, added, removed, encryptedName, wrappedKeys);
+          await tx.wait();
+          groupKeysRef.current.set(`${id}:${group.epoch + 1}`, groupKey.slice());
+        } finally {
+          groupKey.fill(0);
+        }
+      }),
+    [runTransaction, requireRegistry, unlock, requireCurrentKey, readMessagingKeys, chainId]
+  );
+
+  /**
+   * Invite accounts to the open group; they can read what is written from now on
+   * @param inputs - Their addresses, as typed by the user
+   */
+  const inviteMembers = useCallback(
+    async (inputs: string[]) => {
+      const current = new Set(members.map((member) => member.address));
+      const added = parseAddresses(inputs).filter((account) => !current.has(account));
+      if (added.length === 0) throw new Error("Enter at least one address that isn't a member yet");
+      await rekeyGroup(added, []);
+    },
+    [members, rekeyGroup]
+  );
+
+  // Remove a member of the open group; they can't read what is written from now on
+  const removeMember = useCallback((member: string) => rekeyGroup([], [member]), [rekeyGroup]);
+
+  // Replace the group key of the open group after a member left
+  const rotateGroupKey = useCallback(() => rekeyGroup([], []), [rekeyGroup]);
+
+  const setMemberAdmin = useCallback(
+    (member: string, admin: boolean) =>
+      runTransaction(async () => {
+        const id = activeGroupRef.current;
+        if (id === null) throw new Error("Open a group first");
+        const { registry } = await requireRegistry();
+        const tx = await registry.setAdmin(id, member, admin);
+        await tx.wait();
+      }),
+    [runTransaction, requireRegistry]
+  );
+
+  /**
+   * Rename the open group, encrypting the name with the current group key
+   */
+  const renameGroup = useCallback(
+    (name: string) =>
+      runTransaction(async () => {
+        const id = activeGroupRef.current;
+        if (id === null) throw new Error("Open a group first");
+        const { registry, registryAddress } = await requireRegistry();
+        const keyPair = await unlock();
+
+        const group = await readGroup(registry, id);
+        const groupKey = await requireCurrentKey(registry, group, keyPair);
+        const encryptedName = await encryptGroupName(name.trim(), groupKey, {
+          chainId,
+          registry: registryAddress,
+          epoch: group.epoch,
+        });
+        const tx = await registry.renameGroup(id, encryptedName);
+        await tx.wait();
+        setGroups((prev) => prev.map((entry) => (entry.id === id ? { ...entry, encryptedName, name: name.trim() } : entry)));
+      }),
+    [runTransaction, requireRegistry, unlock, requireCurrentKey, chainId]
+  );
+
+  // Leave the open group; its admins then replace the group key
+  const leaveGroup = useCallback(
+    () =>
+      runTransaction(async () => {
+        const id = activeGroupRef.current;
+        if (id === null) throw new Error("Open a group first");
+        const { registry } = await requireRegistry();
+        const tx = await registry.leaveGroup(id);
+        await tx.wait();
+        closeGroup();
+      }),
+    [runTransaction, requireRegistry, closeGroup]
+  );
+
+  /**
+   * Load the page of group messages before the oldest loaded one
+   */
+  const loadOlderGroupMessages = useCallback(async () => {
+    const id = activeGroupRef.current;
+    const oldest = groupMessages[0]?.id ?? 0;
+    if (id === null || oldest === 0 || loadingOlder) return;
+
+    try {
+      setLoadingOlder(true);
+      const { registry } = await requireRegistry();
+      const start = Math.max(0, oldest - MESSAGE_PAGE_SIZE);
+      const stored: StoredGroupMessage[] = await registry.getMessagesRange(id, start, oldest - start);
+      const page = stored.map((msg, i) => toGroupMessage(msg, start + i));
+      const keyPair = getKeyPair();
+      const shown = keyPair ? await openGroupMessages(registry, id, page, keyPair) : page;
+      if (activeGroupRef.current !== id) return;
+      setGroupMessages((prev) => [...shown, ...prev.filter((msg) => msg.id >= oldest)]);
+    } finally {
+      setLoadingOlder(false);
+    }
+  }, [groupMessages, loadingOlder, requireRegistry, getKeyPair, openGroupMessages]);
+
+  /**
+   * Send a message to the open group, encrypted with its current group key
+   */
+  const sendGroupMessage = useCallback(
+    async (text: string) => {
+      const trimmed = text.trim();
+      if (!trimmed) return;
+
+      await runTransaction(async () => {
+        const id = activeGroupRef.current;
+        if (id === null) throw new Error("Open a group first");
+        const { registry, registryAddress, account } = await requireRegistry();
+        const keyPair = await unlock();
+
+        const group = await readGroup(registry, id);
+        if (group.rekeyNeeded) throw new Error("A member left: an admin has to replace the group key first");
+        const groupKey = await requireCurrentKey(registry, group, keyPair);
+        const encrypted = await encryptGroupMessage(
+          trimmed,
+          groupKey,
+          { chainId, registry: registryAddress, epoch: group.epoch },
+          account
+        );
+        if ((encrypted.length - 2) / 2 > MAX_CONTENT_BYTES) {
+          throw new Error(`Message too large: over ${MAX_CONTENT_BYTES.toLocaleString()} bytes once encrypted`);
+        }
+        const tx = await registry.sendMessage(id, encrypted);
+        await tx.wait();
+
+        // Our own message is shown as typed; the rest keeps what was already decrypted
+        const page = await openGroupMessages(
+          registry,
+          id,
+          (await readLatestGroupPage(registry, id)).map((msg) =>
+            msg.encryptedContent === encrypted ? { ...msg, decryptedText: trimmed } : msg
+          ),
+          keyPair
+        );
+        if (activeGroupRef.current !== id) return;
+        setGroupMessages((prev) => {
+          const known = new Map(prev.map((msg) => [msg.id, msg]));
+          const first = page[0]?.id ?? 0;
+          return [...prev.filter((msg) => msg.id < first), ...page.map((msg) => known.get(msg.id) ?? msg)];
+        });
+      });
+    },
+    [runTransaction, requireRegistry, unlock, requireCurrentKey, openGroupMessages, chainId]
+  );
+
+  // Forget unwrapped group keys and decrypted names and messages
+  const clear = useCallback(() => {
+    forgetKeys();
+    setGroups((prev) => prev.map((group) => ({ ...group, name: undefined })));
+    setGroupMessages((prev) =>
+      prev.map((msg) => ({ ...msg, decryptedText: undefined, unreadable: undefined, beforeJoining: undefined }))
+    );
+  }, [forgetKeys]);
+
+  return {
+    available,
+    groups,
+    activeGroup,
+    members,
+    groupMessages,
+    hasOlderGroupMessages: (groupMessages[0]?.id ?? 0) > 0,
+    loading,
+    loadingOlder,
+    refresh,
+    openGroup,
+    closeGroup,
+    decryptGroups,
+    createGroup,
+    inviteMembers,
+    removeMember,
+    rotateGroupKey,
+    setMemberAdmin,
+    renameGroup,
+    leaveGroup,
+    loadOlderGroupMessages,
+    sendGroupMessage,
+    clear,
+  };
+}
@@ -0,0 +1,345 @@
+import { useState, useCallback, useEffect } from "react";
+import { useAccount, useChainId, useWalletClient } from "wagmi";
+import { BrowserProvider, Contract, hexlify } from "ethers";
+import { getContractAddress } from "./useWhisperVault";
+import {
+  buildGuardianKeyTypedData,
+  createGuardianShares,
+  deriveX25519KeyPair,
+  recoverDataKeyFromShares,
+  returnGuardianShare,
+  DataKey,
+  GuardianKey,
+  X25519KeyPair,
+} from "./useCrypto";
+
+const GUARDIAN_REGISTRY_ABI = [
+  "function setEncryptionKey(bytes32 key) external",
+  "function getEncryptionKey(address account) view returns (bytes32)",
+  "function setGuardians(address[] guardians, uint8 threshold, bytes[] shares, bytes32 keyCommitment) external",
+  "function clearGuardians() external",
+  "function getGuardians(address owner) view returns (address[] guardians, uint8 threshold, bytes32 keyCommitment, uint256 epoch)",
+  "function getShare(address owner, address guardian) view returns (bytes)",
+  "function getGuardedOwners(address guardian) view returns (address[] owners)",
+  "function startRecovery(bytes32 recoveryKey) external",
+  "function getRecoveryRequest(address owner) view returns (uint256 requestId, bytes32 recoveryKey, uint256 timestamp, uint256 submitted)",
+  "function getRecoveryCount(address owner) view returns (uint256)",
+  "function submitShare(address owner, bytes share) external",
+  "function getSubmittedShares(address owner) view returns (address[] guardians, bytes[] shares)",
+  "function closeRecovery() external",
+  "event EncryptionKeySet(address indexed account, bytes32 key)",
+  "event GuardiansUpdated(address indexed owner, uint256 indexed epoch, uint8 threshold, uint256 guardianCount)",
+  "event GuardiansCleared(address indexed owner)",
+  "event RecoveryStarted(address indexed owner, uint256 indexed requestId, bytes32 recoveryKey)",
+  "event ShareSubmitted(address indexed owner, uint256 indexed requestId, address indexed guardian)",
+  "event RecoveryClosed(address indexed owner, uint256 indexed requestId)",
+];
+
+const ZERO_KEY = "0x" + "00".repeat(32);
+
+export interface GuardianSet {
+  guardians: string[];
+  threshold: number;
+  keyCommitment: string;
+}
+
+export interface RecoveryRequest {
+  id: bigint;
+  recoveryKey: string;
+  timestamp: number;
+  submitted: number;
+}
+
+/**
+ * A vault the connected account is a guardian of, with its open recovery if any
+ */
+export interface GuardedVault {
+  owner: string;
+  request: RecoveryRequest | null;
+  // Whether this guardian already handed back their share for the open recovery
+  returned: boolean;
+}
+
+async function readRecoveryRequest(registry: Contract, owner: string): Promise<RecoveryRequest | null> {
+  const [id, recoveryKey, timestamp, submitted] = await registry.getRecoveryRequest(owner);
+  return id === BigInt(0) ? null : { id, recoveryKey, timestamp: Number(timestamp), submitted: Number(submitted) };
+}
+
+/**
+ * Social recovery through the GuardianRegistry contract (see crypto/guardians.ts)
+ *
+ * Guardians publish an X25519 key derived from a wallet signature, owners publish their data
+ * key split among 3 to 5 guardians, and a recovery collects the shares guardians hand back.
+ * Needs a deployed registry; there is no demo mode.
+ */
+export function useGuardians() {
+  const { address } = useAccount();
+  const chainId = useChainId();
+  const { data: walletClient } = useWalletClient();
+
+  // null until checked whether the registry is deployed on this chain
+  const [available, setAvailable] = useState<boolean | null>(null);
+  const [guardianKey, setGuardianKey] = useState<string | null>(null);
+  const [guardianSet, setGuardianSet] = useState<GuardianSet | null>(null);
+  const [recoveryRequest, setRecoveryRequest] = useState<RecoveryRequest | null>(null);
+  const [guardedVaults, setGuardedVaults] = useState<GuardedVault[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    setAvailable(null);
+    setGuardianKey(null);
+    setGuardianSet(null);
+    setRecoveryRequest(null);
+    setGuardedVaults([]);
+  }, [address, chainId]);
+
+  const getRegistry = useCallback(async () => {
+    if (!walletClient || !chainId) return null;
+    const registryAddress = await getContractAddress(chainId, "GuardianRegistry");
+    if (!registryAddress) return null;
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const provider = new BrowserProvider(walletClient as any);
+    const signer = await provider.getSigner();
+    return new Contract(registryAddress, GUARDIAN_REGISTRY_ABI, signer);
+  }, [walletClient, chainId]);
+
+  const requireRegistry = useCallback(async () => {
+    const registry = await getRegistry();
+    if (!registry || !address) throw new Error("Guardian recovery isn't available on this network");
+    return { registry, registryAddress: (await registry.getAddress()) as `0x${string}`, owner: address };
+  }, [getRegistry, address]);
+
+  /**
+   * Derive an X25519 key pair from a wallet signature
+   * @param checkDeterministic - Sign twice and refuse wallets whose signatures change
+   */
+  const signKeyPair = useCallback(
+    async (
+      registryAddress: `0x${string}`,
+      purpose: "guardian" | "recovery",
+      nonce: bigint,
+      checkDeterministic: boolean
+    ): Promise<X25519KeyPair> => {
+      if (!walletClient || !address) throw new Error("Not connected");
+      const typedData = buildGuardianKeyTypedData(chainId, registryAddress, address, purpose, nonce);
+      const sign = () => walletClient.signTypedData({ account: address, ...typedData });
+
+      const signature = await sign();
+      if (checkDeterministic && (await sign()).toLowerCase() !== signature.toLowerCase()) {
+        throw new Error("This wallet doesn't produce repeatable signatures, so it can't hold a recovery key");
+      }
+      return deriveX25519KeyPair(signature);
+    },
+    [walletClient, address, chainId]
+  );
+
+  // Reload the account's guardian key, guardian set, open recovery and guarded vaults
+  const refresh = useCallback(async () => {
+    if (!address) return;
+    const registry = await getRegistry();
+    setAvailable(!!registry);
+    if (!registry) return;
+
+    try {
+      const [key, [guardians, threshold, keyCommitment], request, owners] = await Promise.all([
+        registry.getEncryptionKey(address) as Promise<string>,
+        registry.getGuardians(address),
+        readRecoveryRequest(registry, address),
+        registry.getGuardedOwners(address) as Promise<string[]>,
+      ]);
+      setGuardianKey(key === ZERO_KEY ? null : key);
+      setGuardianSet(
+        guardians.length > 0 ? { guardians: [...guardians], threshold: Number(threshold), keyCommitment } : null
+      );
+      setRecoveryRequest(request);
+      setGuardedVaults(
+        await Promise.all(
+          owners.map(async (owner) => {
+            const ownerRequest = await readRecoveryRequest(registry, owner);
+            const [returnedBy] = ownerRequest ? await registry.getSubmittedShares(owner) : [[]];
+            return {
+              owner,
+              request: ownerRequest,
+              returned: (returnedBy as string[]).some((guardian) => guardian.toLowerCase() === address.toLowerCase()),
+            };
+          })
+        )
+      );
+    } catch (err) {
+      console.warn("[GuardianRegistry] Failed to read guardians:", err);
+      setAvailable(false);
+    }
+  }, [address, getRegistry]);
+
+  const runTransaction = useCallback(
+    async <T>(action: () => Promise<T>): Promise<T> => {
+      try {
+        setLoading(true);
+        return await action();
+      } finally {
+        setLoading(false);
+        await refresh();
+      }
+    },
+    [refresh]
+  );
+
+  /**
+   * Publish the key that owners seal guardian shares to
+   */
+  const registerGuardianKey = useCallback(
+    () =>
+      runTransaction(async () => {
+        const { registry, registryAddress } = await requireRegistry();
+        const keyPair = await signKeyPair(registryAddress, "guardian", BigInt(0), true);
+        const tx = await registry.setEncryptionKey(hexlify(keyPair.publicKey));
+        await tx.wait();
+        keyPair.privateKey.fill(0);
+      }),
+    [runTransaction, requireRegistry, signKeyPair]
+  );
+
+  /**
+   * Split the vault's data key among guardians, any `threshold` of whom can give it back
+   */
+  const saveGuardians = useCallback(
+    (guardians: string[], threshold: number, dataKey: DataKey) =>
+      runTransaction(async () => {
+        const { registry, registryAddress, owner } = await requireRegistry();
+        const keys: GuardianKey[] = await Promise.all(
+          guardians.map(async (guardian) => {
+            const publicKey: string = await registry.getEncryptionKey(guardian);
+            if (publicKey === ZERO_KEY) {
+              throw new Error(`${guardian} hasn't published a guardian key yet`);
+            }
+            return { address: guardian, publicKey };
+          })
+        );
+
+        const { shares, keyCommitment } = await createGuardianShares(dataKey, keys, threshold, {
+          owner,
+          chainId,
+          registry: registryAddress,
+        });
+        const tx = await registry.setGuardians(guardians, threshold, shares, keyCommitment);
+        await tx.wait();
+      }),
+    [runTransaction, requireRegistry, chainId]
+  );
+
+  const removeGuardians = useCallback(
+    () =>
+      runTransaction(async () => {
+        const { registry } = await requireRegistry();
+        const tx = await registry.clearGuardians();
+        await tx.wait();
+      }),
+    [runTransaction, requireRegistry]
+  );
+
+  /**
+   * As a guardian, hand an owner's share back for their open recovery
+   */
+  const returnShare = useCallback(
+    (owner: string) =>
+      runTransaction(async () => {
+        const { registry, registryAddress, owner: guardian } = await requireRegistry();
+        const request = await readRecoveryRequest(registry, owner);
+        if (!request) throw new Error("This vault has no open recovery");
+
+        const keyPair = await signKeyPair(registryAddress, "guardian", BigInt(0), false);
+        try {
+          const sealed = await returnGuardianShare(
+            await registry.getShare(owner, guardian),
+            keyPair,
+            { owner, guardian, chainId, registry: registryAddress },
+            request.recoveryKey,
+            request.id
+          );
+          const tx = await registry.submitShare(owner, sealed);
+          await tx.wait();
+        } finally {
+          keyPair.privateKey.fill(0);
+        }
+      }),
+    [runTransaction, requireRegistry, signKeyPair, chainId]
+  );
+
+  /**
+   * Ask guardians for help: publish a fresh recovery key for them to seal their shares to
+   */
+  const startRecovery = useCallback(
+    () =>
+      runTransaction(async () => {
+        const { registry, registryAddress, owner } = await requireRegistry();
+        const nextId = (await registry.getRecoveryCount(owner)) + BigInt(1);
+        const keyPair = await signKeyPair(registryAddress, "recovery", nextId, true);
+        keyPair.privateKey.fill(0);
+        const tx = await registry.startRecovery(hexlify(keyPair.publicKey));
+        await tx.wait();
+      }),
+    [runTransaction, requireRegistry, signKeyPair]
+  );
+
+  /**
+   * Recombine the data key from the shares guardians handed back
+   * @throws if fewer than the threshold of valid shares came back
+   */
+  const collectRecoveredKey = useCallback(async (): Promise<DataKey> => {
+    const { registry, registryAddress, owner } = await requireRegistry();
+    const request = await readRecoveryRequest(registry, owner);
+    const [, threshold, keyCommitment] = await registry.getGuardians(owner);
+    if (!request) throw new Error("No recovery is open");
+
+    const keyPair = await signKeyPair(registryAddress, "recovery", request.id, false);
+    try {
+      if (hexlify(keyPair.publicKey) !== request.recoveryKey.toLowerCase()) {
+        throw new Error("This wallet's signature no longer gives the recovery key");
+      }
+      const [guardians, sealed]: [string[], string[]] = await registry.getSubmittedShares(owner);
+      const dataKey = await recoverDataKeyFromShares(
+        guardians.map((guardian, i) => ({ guardian, sealed: sealed[i] })),
+        keyPair,
+        { owner, chainId, registry: registryAddress },
+        request.id,
+        Number(threshold),
+        keyCommitment
+      );
+      if (!dataKey) {
+        throw new Error(`Not enough valid shares yet: ${Number(threshold)} guardians need to respond`);
+      }
+      return dataKey;
+    } finally {
+      keyPair.privateKey.fill(0);
+    }
+  }, [requireRegistry, signKeyPair, chainId]);
+
+  // Close the open recovery, once the vault is restored or to cancel it
+  const closeRecovery = useCallback(
+    () =>
+      runTransaction(async () => {
+        const { registry } = await requireRegistry();
+        const tx = await registry.closeRecovery();
+        await tx.wait();
+      }),
+    [runTransaction, requireRegistry]
+  );
+
+  return {
+    available,
+    guardianKey,
+    guardianSet,
+    recoveryRequest,
+    guardedVaults,
+    loading,
+    refresh,
+    registerGuardianKey,
+    saveGuardians,
+    removeGuardians,
+    returnShare,
+    startRecovery,
+    collectRecoveredKey,
+    closeRecovery,
+  };
+}
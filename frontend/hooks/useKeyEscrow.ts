@@ -0,0 +1,316 @@
+import { useState, useCallback, useEffect } from "react";
+import { useAccount, useChainId, useWalletClient } from "wagmi";
+import { BrowserProvider, Contract } from "ethers";
+import { useFhevmAccess } from "./useFhevmAccess";
+import { getContractAddress, MESSAGE_PAGE_SIZE } from "./useWhisperVault";
+import {
+  chunksToDataKey,
+  dataKeyToChunks,
+  getEscrowCommitment,
+  openWithDataKey,
+  ContextMismatchError,
+  DataKey,
+  VaultKeySession,
+} from "./useCrypto";
+
+const VAULT_KEY_ESCROW_ABI = [
+  "function storeKey(bytes32[] encryptedChunks, bytes inputProof, bytes32 keyCommitment) external",
+  "function grantAccess(address grantee) external",
+  "function revokeAccess(address grantee) external",
+  "function clearKey() external",
+  "function getKey(address owner) view returns (bytes32[] chunks, bytes32 keyCommitment, uint256 epoch)",
+  "function getGrantees(address owner) view returns (address[])",
+  "function getSharedWith(address grantee) view returns (address[])",
+  "function hasAccess(address owner, address account) view returns (bool)",
+  "event KeyStored(address indexed owner, uint256 indexed epoch, bytes32 keyCommitment)",
+  "event KeyCleared(address indexed owner)",
+  "event AccessGranted(address indexed owner, address indexed grantee)",
+  "event AccessRevoked(address indexed owner, address indexed grantee, uint256 indexed epoch)",
+];
+
+const VAULT_READ_ABI = [
+  "function getMessageCount(address user) view returns (uint256)",
+  "function getMessagesRange(address user, uint256 offset, uint256 limit) view returns (tuple(bytes label, address sender, bytes encryptedContent, uint256 timestamp, bool isResponse)[] page)",
+];
+
+export interface EscrowedKey {
+  epoch: number;
+  keyCommitment: string;
+  grantees: string[];
+}
+
+/**
+ * A message of a vault shared with the connected account
+ */
+export interface SharedMessage {
+  id: number;
+  sender: string;
+  timestamp: number;
+  isResponse: boolean;
+  // null if the message isn't encrypted with the data key (written before the vault had a keyring)
+  text: string | null;
+  tampered: boolean;
+  deleted: boolean;
+}
+
+/**
+ * The latest messages of another owner's vault, opened read-only with their escrowed key
+ */
+export interface SharedVault {
+  owner: string;
+  messages: SharedMessage[];
+  // Messages in the vault, of which the latest MESSAGE_PAGE_SIZE are shown
+  total: number;
+}
+
+/**
+ * The vault data key held as FHE handles by the VaultKeyEscrow contract (see crypto/keyEscrow.ts)
+ *
+ * The owner stores the key encrypted in the browser and can decrypt it back to restore the vault
+ * without a password. Granting an account read access adds it to the FHEVM ACL of the handles;
+ * the grantee then decrypts the key and opens the owner's vault read-only. Needs a deployed
+ * VaultKeyEscrow and an FHEVM network (the hardhat node runs the mock).
+ */
+export function useKeyEscrow() {
+  const { address } = useAccount();
+  const chainId = useChainId();
+  const { data: walletClient } = useWalletClient();
+
+  // null until checked whether VaultKeyEscrow is deployed on this chain
+  const [available, setAvailable] = useState<boolean | null>(null);
+  const [escrow, setEscrow] = useState<EscrowedKey | null>(null);
+  const [sharedWith, setSharedWith] = useState<string[]>([]);
+  const [sharedVault, setSharedVault] = useState<SharedVault | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const { instance, status: fhevmStatus, userDecrypt } = useFhevmAccess(available === true);
+
+  useEffect(() => {
+    setAvailable(null);
+    setEscrow(null);
+    setSharedWith([]);
+    setSharedVault(null);
+  }, [address, chainId]);
+
+  const getEscrowContract = useCallback(async () => {
+    if (!walletClient || !chainId) return null;
+    const escrowAddress = await getContractAddress(chainId, "VaultKeyEscrow");
+    if (!escrowAddress) return null;
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const provider = new BrowserProvider(walletClient as any);
+    const signer = await provider.getSigner();
+    return { contract: new Contract(escrowAddress, VAULT_KEY_ESCROW_ABI, signer), signer };
+  }, [walletClient, chainId]);
+
+  const requireEscrow = useCallback(async () => {
+    const escrowContract = await getEscrowContract();
+    if (!escrowContract || !address) throw new Error("Key escrow isn't available on this network");
+    return {
+      ...escrowContract,
+      contractAddress: (await escrowContract.contract.getAddress()) as string,
+      account: address,
+    };
+  }, [getEscrowContract, address]);
+
+  // Reload the account's escrowed key, its grantees and the vaults shared with the account
+  const refresh = useCallback(async () => {
+    if (!address) return;
+    const escrowContract = await getEscrowContract();
+    setAvailable(!!escrowContract);
+    if (!escrowContract) return;
+
+    try {
+      const { contract } = escrowContract;
+      const [[chunks, keyCommitment, epoch], grantees, owners] = await Promise.all([
+        contract.getKey(address),
+        contract.getGrantees(address) as Promise<string[]>,
+        contract.getSharedWith(address) as Promise<string[]>,
+      ]);
+      setEscrow(chunks.length > 0 ? { epoch: Number(epoch), keyCommitment, grantees: [...grantees] } : null);
+      setSharedWith([...owners]);
+    } catch (err) {
+      console.warn("[VaultKeyEscrow] Failed to read the escrow:", err);
+      setAvailable(false);
+    }
+  }, [address, getEscrowContract]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const runTransaction = useCallback(
+    async (action: (escrow: Awaited<ReturnType<typeof requireEscrow>>) => Promise<void>) => {
+      try {
+        setLoading(true);
+        await action(await requireEscrow());
+      } finally {
+        setLoading(false);
+        await refresh();
+      }
+    },
+    [requireEscrow, refresh]
+  );
+
+  /**
+   * Store the vault's data key, or replace it after a rotation; grantees keep their access
+   */
+  const storeKey = useCallback(
+    (dataKey: DataKey) =>
+      runTransaction(async ({ contract, contractAddress, account }) => {
+        if (!instance) throw new Error("The FHEVM instance is still loading");
+        const input = instance.createEncryptedInput(contractAddress, account);
+        for (const chunk of dataKeyToChunks(dataKey)) input.add256(chunk);
+        const enc = await input.encrypt();
+        const tx = await contract.storeKey(enc.handles, enc.inputProof, getEscrowCommitment(dataKey));
+        await tx.wait();
+      }),
+    [runTransaction, instance]
+  );
+
+  const grantAccess = useCallback(
+    (grantee: string) =>
+      runTransaction(async ({ contract }) => {
+        const tx = await contract.grantAccess(grantee);
+        await tx.wait();
+      }),
+    [runTransaction]
+  );
+
+  /**
+   * Revoke an account; it can't decrypt the key again, but keeps what it already decrypted
+   */
+  const revokeAccess = useCallback(
+    (grantee: string) =>
+      runTransaction(async ({ contract }) => {
+        const tx = await contract.revokeAccess(grantee);
+        await tx.wait();
+      }),
+    [runTransaction]
+  );
+
+  // Remove the escrowed key and every grant
+  const clearKey = useCallback(
+    () =>
+      runTransaction(async ({ contract }) => {
+        const tx = await contract.clearKey();
+        await tx.wait();
+      }),
+    [runTransaction]
+  );
+
+  /**
+   * Decrypt an owner's escrowed data key, which the connected account must be allowed on
+   * @throws if no key is stored, or the decrypted key doesn't match its commitment
+   */
+  const decryptKey = useCallback(
+    async (owner: string): Promise<DataKey> => {
+      const { contract, contractAddress, signer } = await requireEscrow();
+      const [chunks, keyCommitment]: [string[], string] = await contract.getKey(owner);
+      if (chunks.length === 0) throw new Error("No key is escrowed for this vault");
+
+      const clear = await userDecrypt(contractAddress, chunks, signer);
+      const dataKey = chunksToDataKey(
+        chunks.map((handle) => BigInt(clear[handle] ?? 0)),
+        keyCommitment
+      );
+      if (!dataKey) throw new Error("The escrowed key doesn't match its commitment");
+      return dataKey;
+    },
+    [requireEscrow, userDecrypt]
+  );
+
+  /**
+   * Decrypt the connected account's own escrowed key, to restore the vault without its password
+   */
+  const recoverKey = useCallback(async () => {
+    if (!address) throw new Error("Not connected");
+    return decryptKey(address);
+  }, [address, decryptKey]);
+
+  /**
+   * Open the latest page of a vault shared with the connected account, read-only
+   */
+  const openSharedVault = useCallback(
+    async (owner: string) => {
+      try {
+        setLoading(true);
+        const vaultAddress = await getContractAddress(chainId);
+        if (!vaultAddress || !walletClient) throw new Error("WhisperVault isn't deployed on this network");
+        const dataKey = await decryptKey(owner);
+        const session = new VaultKeySession("");
+        session.addDataKey(dataKey);
+
+        try {
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          const provider = new BrowserProvider(walletClient as any);
+          const vault = new Contract(vaultAddress, VAULT_READ_ABI, provider);
+          const total = Number(await vault.getMessageCount(owner));
+          const offset = Math.max(0, total - MESSAGE_PAGE_SIZE);
+          const page: { sender: string; encryptedContent: string; timestamp: bigint; isResponse: boolean }[] =
+            await vault.getMessagesRange(owner, offset, MESSAGE_PAGE_SIZE);
+
+          const messages = await Promise.all(
+            page.map(async (msg, i): Promise<SharedMessage> => {
+              const id = offset + i;
+              const base = {
+                id,
+                sender: msg.sender,
+                timestamp: Number(msg.timestamp),
+                isResponse: msg.isResponse,
+                text: null,
+                tampered: false,
+                deleted: msg.encryptedContent === "0x",
+              };
+              if (base.deleted) return base;
+              try {
+                const { text, isResponse } = await openWithDataKey(msg.encryptedContent, session, {
+                  owner,
+                  chainId,
+                  vault: vaultAddress,
+                  sequence: id,
+                });
+                return { ...base, text, ...(isResponse !== null && { isResponse }) };
+              } catch (err) {
+                return { ...base, tampered: err instanceof ContextMismatchError };
+              }
+            })
+          );
+          setSharedVault({ owner, messages, total });
+        } finally {
+          session.clear();
+          dataKey.raw.fill(0);
+        }
+      } finally {
+        setLoading(false);
+      }
+    },
+    [chainId, walletClient, decryptKey]
+  );
+
+  const closeSharedVault = useCallback(() => setSharedVault(null), []);
+
+  // Forget decrypted content; the userDecrypt signature stays in memory until the page reloads
+  const clear = useCallback(() => {
+    setSharedVault(null);
+  }, []);
+
+  return {
+    available,
+    // The FHEVM instance encrypts the key and decrypts it back; "ready" once loaded
+    fhevmStatus,
+    escrow,
+    sharedWith,
+    sharedVault,
+    loading,
+    refresh,
+    storeKey,
+    grantAccess,
+    revokeAccess,
+    clearKey,
+    recoverKey,
+    openSharedVault,
+    closeSharedVault,
+    clear,
+  };
+}
@@ -0,0 +1,285 @@
+import { useState, useCallback, useEffect, useMemo, useRef } from "react";
+import { useAccount, useChainId, useWalletClient } from "wagmi";
+import { BrowserProvider, Contract, ZeroHash } from "ethers";
+import { useFhevmAccess } from "./useFhevmAccess";
+import { getContractAddress } from "./useWhisperVault";
+
+const MESSAGE_FLAGS_ABI = [
+  "function MAX_PRIORITY() view returns (uint8)",
+  "function MAX_BATCH_SIZE() view returns (uint256)",
+  "function setRead(uint256[] indexes, bytes32 encryptedRead, bytes inputProof) external",
+  "function setStarred(uint256 index, bytes32 encryptedStarred, bytes inputProof) external",
+  "function setPriority(uint256 index, bytes32 encryptedPriority, bytes inputProof) external",
+  "function getFlags(address user, uint256 index) view returns (tuple(bytes32 read, bytes32 starred, bytes32 priority))",
+  "function getFlagsRange(address user, uint256 offset, uint256 limit) view returns (tuple(bytes32 read, bytes32 starred, bytes32 priority)[] page)",
+  "event FlagsUpdated(address indexed user, uint256 indexed messageIndex)",
+];
+
+// MessageFlags.MAX_PRIORITY and MessageFlags.MAX_BATCH_SIZE
+export const MAX_PRIORITY = 3;
+const MAX_BATCH_SIZE = 64;
+
+/**
+ * The flags of a vault message once decrypted; unset flags read as false or 0
+ */
+export interface MessageFlags {
+  read: boolean;
+  starred: boolean;
+  priority: number;
+}
+
+type FlagHandles = { read: string; starred: string; priority: string };
+
+// Handles of a message whose flags were never set
+const UNSET: FlagHandles = { read: ZeroHash, starred: ZeroHash, priority: ZeroHash };
+
+function sameHandles(a: FlagHandles, b: FlagHandles): boolean {
+  return a.read === b.read && a.starred === b.starred && a.priority === b.priority;
+}
+
+/**
+ * Encrypted read, starred and priority flags of vault messages, through the MessageFlags contract
+ *
+ * Flags are FHE handles: they are set from inputs encrypted in the browser and only the owner can
+ * decrypt them (see useFhevmAccess).
+ * Handles of the given messages are read on every change of the list; their values stay hidden
+ * until decryptFlags() is called, and are then kept up to date until clear(). Needs a deployed
+ * MessageFlags and an FHEVM network (the hardhat node runs the mock).
+ */
+export function useMessageFlags(messageIds: number[]) {
+  const { address } = useAccount();
+  const chainId = useChainId();
+  const { data: walletClient } = useWalletClient();
+
+  // null until checked whether MessageFlags is deployed on this chain
+  const [available, setAvailable] = useState<boolean | null>(null);
+  const [handles, setHandles] = useState<Record<number, FlagHandles>>({});
+  const handlesRef = useRef(handles);
+  // Decrypted flags, by message id, with the handles they were decrypted from
+  const [flags, setFlags] = useState<Record<number, MessageFlags & { from: FlagHandles }>>({});
+  // Whether decrypted flags should follow changes, set by decryptFlags() and reset by clear()
+  const [revealed, setRevealed] = useState(false);
+  const [decrypting, setDecrypting] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const idsKey = messageIds.join(",");
+
+  const { instance, status: fhevmStatus, userDecrypt } = useFhevmAccess(available === true);
+
+  useEffect(() => {
+    setAvailable(null);
+    setHandles({});
+    handlesRef.current = {};
+    setFlags({});
+    setRevealed(false);
+  }, [address, chainId]);
+
+  const getFlagsContract = useCallback(async () => {
+    if (!walletClient || !chainId) return null;
+    const flagsAddress = await getContractAddress(chainId, "MessageFlags");
+    if (!flagsAddress) return null;
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const provider = new BrowserProvider(walletClient as any);
+    const signer = await provider.getSigner();
+    return { contract: new Contract(flagsAddress, MESSAGE_FLAGS_ABI, signer), signer };
+  }, [walletClient, chainId]);
+
+  const requireFlags = useCallback(async () => {
+    const flagsContract = await getFlagsContract();
+    if (!flagsContract || !address) throw new Error("Message flags aren't available on this network");
+    if (!instance) throw new Error("The FHEVM instance is still loading");
+    return {
+      ...flagsContract,
+      instance,
+      contractAddress: (await flagsContract.contract.getAddress()) as string,
+      account: address,
+    };
+  }, [getFlagsContract, address, instance]);
+
+  // Read the flag handles of messages
+  const readHandles = useCallback(
+    async (contract: Contract, ids: number[]) => {
+      if (!address || ids.length === 0) return;
+      const read: FlagHandles[] = await Promise.all(ids.map((id) => contract.getFlags(address, id)));
+      const next = { ...handlesRef.current };
+      ids.forEach((id, i) => {
+        next[id] = { read: read[i].read, starred: read[i].starred, priority: read[i].priority };
+      });
+      handlesRef.current = next;
+      setHandles(next);
+    },
+    [address]
+  );
+
+  const refresh = useCallback(async () => {
+    if (!address) return;
+    const flagsContract = await getFlagsContract();
+    setAvailable(!!flagsContract);
+    if (!flagsContract) return;
+
+    try {
+      await readHandles(flagsContract.contract, idsKey ? idsKey.split(",").map(Number) : []);
+    } catch (err) {
+      console.warn("[MessageFlags] Failed to read flags:", err);
+      setAvailable(false);
+    }
+  }, [address, getFlagsContract, readHandles, idsKey]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  /**
+   * Decrypt the flags of the given messages whose handles changed since they were last decrypted
+   */
+  const decryptHandles = useCallback(
+    async (ids: number[]) => {
+      const { signer, contractAddress } = await requireFlags();
+      const pending = ids.filter((id) => !flags[id] || !sameHandles(flags[id].from, handlesRef.current[id] ?? UNSET));
+      const clear: Record<string, string | bigint | boolean> = await userDecrypt(
+        contractAddress,
+        pending.flatMap((id) => {
+          const current = handlesRef.current[id] ?? UNSET;
+          return [current.read, current.starred, current.priority];
+        }),
+        signer
+      );
+
+      setFlags((prev) => {
+        const next = { ...prev };
+        for (const id of pending) {
+          const from = handlesRef.current[id] ?? UNSET;
+          next[id] = {
+            read: from.read !== ZeroHash && Boolean(clear[from.read]),
+            starred: from.starred !== ZeroHash && Boolean(clear[from.starred]),
+            priority: from.priority === ZeroHash ? 0 : Number(clear[from.priority] ?? 0),
+            from,
+          };
+        }
+        return next;
+      });
+    },
+    [requireFlags, flags, userDecrypt]
+  );
+
+  /**
+   * Decrypt the flags of the listed messages, and keep decrypting them as they change
+   */
+  const decryptFlags = useCallback(async () => {
+    try {
+      setDecrypting(true);
+      await decryptHandles(Object.keys(handlesRef.current).map(Number));
+      setRevealed(true);
+    } finally {
+      setDecrypting(false);
+    }
+  }, [decryptHandles]);
+
+  // Decrypt newly listed or changed flags once the user chose to see them
+  useEffect(() => {
+    if (!revealed || decrypting) return;
+    const stale = Object.keys(handles)
+      .map(Number)
+      .filter((id) => !flags[id] || !sameHandles(flags[id].from, handles[id]));
+    if (stale.length === 0) return;
+    setDecrypting(true);
+    decryptHandles(stale)
+      .catch((err) => {
+        // Stop following until the user decrypts again, instead of retrying on every render
+        console.warn("[MessageFlags] Failed to decrypt flags:", err);
+        setRevealed(false);
+      })
+      .finally(() => setDecrypting(false));
+  }, [revealed, decrypting, handles, flags, decryptHandles]);
+
+  const runTransaction = useCallback(
+    async (ids: number[], action: (flags: Awaited<ReturnType<typeof requireFlags>>) => Promise<void>) => {
+      try {
+        setLoading(true);
+        const context = await requireFlags();
+        await action(context);
+        await readHandles(context.contract, ids);
+      } finally {
+        setLoading(false);
+      }
+    },
+    [requireFlags, readHandles]
+  );
+
+  /**
+   * Mark messages read or unread, in batches of MAX_BATCH_SIZE sharing one encrypted value
+   */
+  const setRead = useCallback(
+    (ids: number[], read: boolean) =>
+      runTransaction(ids, async ({ contract, instance, contractAddress, account }) => {
+        for (let i = 0; i < ids.length; i += MAX_BATCH_SIZE) {
+          const input = instance.createEncryptedInput(contractAddress, account);
+          input.addBool(read);
+          const enc = await input.encrypt();
+          const tx = await contract.setRead(ids.slice(i, i + MAX_BATCH_SIZE), enc.handles[0], enc.inputProof);
+          await tx.wait();
+        }
+      }),
+    [runTransaction]
+  );
+
+  const setStarred = useCallback(
+    (id: number, starred: boolean) =>
+      runTransaction([id], async ({ contract, instance, contractAddress, account }) => {
+        const input = instance.createEncryptedInput(contractAddress, account);
+        input.addBool(starred);
+        const enc = await input.encrypt();
+        const tx = await contract.setStarred(id, enc.handles[0], enc.inputProof);
+        await tx.wait();
+      }),
+    [runTransaction]
+  );
+
+  /**
+   * Set the priority of a message, from 0 (none) to MAX_PRIORITY
+   */
+  const setPriority = useCallback(
+    (id: number, priority: number) =>
+      runTransaction([id], async ({ contract, instance, contractAddress, account }) => {
+        if (!Number.isInteger(priority) || priority < 0 || priority > MAX_PRIORITY) {
+          throw new Error(`Priority goes from 0 to ${MAX_PRIORITY}`);
+        }
+        const input = instance.createEncryptedInput(contractAddress, account);
+        input.add8(priority);
+        const enc = await input.encrypt();
+        const tx = await contract.setPriority(id, enc.handles[0], enc.inputProof);
+        await tx.wait();
+      }),
+    [runTransaction]
+  );
+
+  // Forget decrypted flags; the userDecrypt signature stays in memory until the page reloads
+  const clear = useCallback(() => {
+    setFlags({});
+    setRevealed(false);
+  }, []);
+
+  const decrypted = useMemo(() => {
+    const shown: Record<number, MessageFlags> = {};
+    for (const [id, value] of Object.entries(flags)) {
+      shown[Number(id)] = { read: value.read, starred: value.starred, priority: value.priority };
+    }
+    return shown;
+  }, [flags]);
+
+  return {
+    available,
+    // The FHEVM instance encrypts inputs and decrypts handles; "ready" once loaded
+    fhevmStatus,
+    flags: decrypted,
+    revealed,
+    decrypting,
+    loading,
+    refresh,
+    decryptFlags,
+    setRead,
+    setStarred,
+    setPriority,
+    clear,
+  };
+}
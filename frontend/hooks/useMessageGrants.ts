@@ -0,0 +1,308 @@
+import { useState, useCallback, useEffect, useMemo } from "react";
+import { useAccount, useChainId, useWalletClient } from "wagmi";
+import { BrowserProvider, Contract, ZeroHash, getAddress } from "ethers";
+import { getContractAddress } from "./useWhisperVault";
+import { MessagingKeyAccess } from "./useGroups";
+import { openGrantedMessage, sealGrantedMessage, GrantContext } from "./useCrypto";
+
+const MESSAGE_GRANTS_ABI = [
+  "function MAX_GRANT_MESSAGES() view returns (uint256)",
+  "function createGrant(address grantee, uint256[] indexes, bytes[] contents, uint256 expiresAt) external returns (uint256 grantId)",
+  "function revokeGrant(uint256 grantId) external",
+  "function getGrant(uint256 grantId) view returns (address owner, address grantee, uint256 createdAt, uint256 expiresAt, bool revoked, uint256[] indexes)",
+  "function getGrantContents(uint256 grantId) view returns (bytes[])",
+  "function getGrantsBy(address owner) view returns (uint256[])",
+  "function getGrantsFor(address grantee) view returns (uint256[])",
+  "function isActive(uint256 grantId) view returns (bool)",
+  "event GrantCreated(uint256 indexed grantId, address indexed owner, address indexed grantee, uint256 expiresAt, uint256 messageCount)",
+  "event GrantRevoked(uint256 indexed grantId, address indexed owner, address indexed grantee)",
+];
+
+const VAULT_ABI = [
+  "function getMessagingKey(address account) view returns (bytes32)",
+  "function getMessageMetadata(address user, uint256 index) view returns (address sender, uint256 timestamp, bool isResponse)",
+];
+
+// MessageGrants.MAX_GRANT_MESSAGES and MessageGrants.MAX_DURATION
+export const MAX_GRANT_MESSAGES = 32;
+export const MAX_GRANT_DAYS = 365;
+
+/**
+ * Read access to messages of a vault, given by the connected account or to it
+ */
+export interface MessageGrant {
+  id: number;
+  owner: string;
+  grantee: string;
+  createdAt: number;
+  expiresAt: number;
+  revoked: boolean;
+  // Vault indexes of the granted messages
+  indexes: number[];
+}
+
+/**
+ * A message of an open grant
+ */
+export interface GrantedMessage {
+  index: number;
+  // null once the owner cleared the vault: the sealed copy outlives the message
+  timestamp: number | null;
+  isResponse: boolean;
+  // null if the sealed message doesn't open with the connected account's messaging key
+  text: string | null;
+}
+
+/**
+ * The messages of a grant made to the connected account, opened read-only
+ */
+export interface OpenGrant {
+  grant: MessageGrant;
+  messages: GrantedMessage[];
+}
+
+/**
+ * Whether a grant can still be read, as MessageGrants.isActive tells it
+ */
+export function isGrantActive(grant: MessageGrant, now = Date.now() / 1000): boolean {
+  return !grant.revoked && now < grant.expiresAt;
+}
+
+async function readGrant(registry: Contract, id: number): Promise<MessageGrant> {
+  const [owner, grantee, createdAt, expiresAt, revoked, indexes] = await registry.getGrant(id);
+  return {
+    id,
+    owner,
+    grantee,
+    createdAt: Number(createdAt),
+    expiresAt: Number(expiresAt),
+    revoked,
+    indexes: (indexes as bigint[]).map(Number),
+  };
+}
+
+/**
+ * Time-limited read grants of vault messages through the MessageGrants contract (see crypto/grants.ts)
+ *
+ * The owner seals the decrypted text of chosen messages to the grantee's messaging key; the
+ * grantee opens them read-only with its messaging key pair, borrowed from useDirectMessages like
+ * useGroups does. Revoked and expired grants are left out of the grants received, and an open
+ * grant closes when it expires. Needs a deployed MessageGrants.
+ */
+export function useMessageGrants(messaging: MessagingKeyAccess) {
+  const { address } = useAccount();
+  const chainId = useChainId();
+  const { data: walletClient } = useWalletClient();
+  const { unlock } = messaging;
+
+  // null until checked whether MessageGrants is deployed on this chain
+  const [available, setAvailable] = useState<boolean | null>(null);
+  const [given, setGiven] = useState<MessageGrant[]>([]);
+  const [received, setReceived] = useState<MessageGrant[]>([]);
+  const [openGrant, setOpenGrant] = useState<OpenGrant | null>(null);
+  const [loading, setLoading] = useState(false);
+  // Re-evaluates which grants are active as time passes
+  const [now, setNow] = useState(() => Date.now() / 1000);
+
+  useEffect(() => {
+    setAvailable(null);
+    setGiven([]);
+    setReceived([]);
+    setOpenGrant(null);
+  }, [address, chainId]);
+
+  const getRegistry = useCallback(async () => {
+    if (!walletClient || !chainId) return null;
+    const registryAddress = await getContractAddress(chainId, "MessageGrants");
+    const vaultAddress = await getContractAddress(chainId);
+    if (!registryAddress || !vaultAddress) return null;
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const provider = new BrowserProvider(walletClient as any);
+    const signer = await provider.getSigner();
+    return {
+      registry: new Contract(registryAddress, MESSAGE_GRANTS_ABI, signer),
+      vault: new Contract(vaultAddress, VAULT_ABI, signer),
+    };
+  }, [walletClient, chainId]);
+
+  const requireRegistry = useCallback(async () => {
+    const contracts = await getRegistry();
+    if (!contracts || !address) throw new Error("Message grants aren't available on this network");
+    return { ...contracts, registryAddress: (await contracts.registry.getAddress()) as string, account: address };
+  }, [getRegistry, address]);
+
+  // Reload the grants the account gave and received
+  const refresh = useCallback(async () => {
+    if (!address) return;
+    const contracts = await getRegistry();
+    setAvailable(!!contracts);
+    if (!contracts) return;
+
+    try {
+      const { registry } = contracts;
+      const [givenIds, receivedIds]: [bigint[], bigint[]] = await Promise.all([
+        registry.getGrantsBy(address),
+        registry.getGrantsFor(address),
+      ]);
+      const [givenGrants, receivedGrants] = await Promise.all([
+        Promise.all(givenIds.map((id) => readGrant(registry, Number(id)))),
+        Promise.all(receivedIds.map((id) => readGrant(registry, Number(id)))),
+      ]);
+      // Newest first
+      setGiven(givenGrants.reverse());
+      setReceived(receivedGrants.reverse());
+      setNow(Date.now() / 1000);
+    } catch (err) {
+      console.warn("[MessageGrants] Failed to read grants:", err);
+      setAvailable(false);
+    }
+  }, [address, getRegistry]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const activeReceived = useMemo(() => received.filter((grant) => isGrantActive(grant, now)), [received, now]);
+
+  // Wake up at the next expiry: drop the expired grant from the list and close it if open
+  useEffect(() => {
+    const next = [...given, ...received]
+      .filter((grant) => isGrantActive(grant, now))
+      .reduce((soonest, grant) => Math.min(soonest, grant.expiresAt), Infinity);
+    if (next === Infinity) return;
+    // setTimeout takes at most 2^31 - 1 ms; for later expiries wake up and check again
+    const timer = setTimeout(() => setNow(Date.now() / 1000), Math.min((next - now) * 1000 + 500, 2 ** 31 - 1));
+    return () => clearTimeout(timer);
+  }, [given, received, now]);
+
+  useEffect(() => {
+    if (openGrant && !isGrantActive(openGrant.grant, now)) setOpenGrant(null);
+  }, [openGrant, now]);
+
+  const runTransaction = useCallback(
+    async <T>(action: () => Promise<T>): Promise<T> => {
+      try {
+        setLoading(true);
+        return await action();
+      } finally {
+        setLoading(false);
+        await refresh();
+      }
+    },
+    [refresh]
+  );
+
+  /**
+   * Let an account read messages of the connected account's vault until a given time
+   * @param messages - Vault messages with their decrypted text, at most MAX_GRANT_MESSAGES
+   * @param expiresAt - When the grant ends (unix seconds)
+   */
+  const createGrant = useCallback(
+    (grantee: string, messages: { id: number; text: string }[], expiresAt: number) =>
+      runTransaction(async () => {
+        const { registry, vault, registryAddress, account } = await requireRegistry();
+        if (messages.length === 0 || messages.length > MAX_GRANT_MESSAGES) {
+          throw new Error(`Choose 1 to ${MAX_GRANT_MESSAGES} messages`);
+        }
+        const granteeKey: string = await vault.getMessagingKey(grantee);
+        if (granteeKey === ZeroHash) {
+          throw new Error(`${grantee} hasn't published a messaging key yet, so nothing can be sealed to them`);
+        }
+
+        const context: GrantContext = {
+          chainId,
+          registry: registryAddress,
+          owner: getAddress(account),
+          grantee: getAddress(grantee),
+        };
+        const sealed = await Promise.all(
+          messages.map(({ id, text }) => sealGrantedMessage(text, granteeKey, context, id))
+        );
+        const tx = await registry.createGrant(
+          grantee,
+          messages.map(({ id }) => id),
+          sealed,
+          expiresAt
+        );
+        await tx.wait();
+      }),
+    [runTransaction, requireRegistry, chainId]
+  );
+
+  /**
+   * End a grant now; what the grantee already read can't be taken back
+   */
+  const revokeGrant = useCallback(
+    (id: number) =>
+      runTransaction(async () => {
+        const { registry } = await requireRegistry();
+        const tx = await registry.revokeGrant(id);
+        await tx.wait();
+      }),
+    [runTransaction, requireRegistry]
+  );
+
+  /**
+   * Open the messages of an active grant made to the connected account
+   */
+  const openReceivedGrant = useCallback(
+    async (id: number) => {
+      try {
+        setLoading(true);
+        const { registry, vault, registryAddress, account } = await requireRegistry();
+        const grant = await readGrant(registry, id);
+        if (!isGrantActive(grant)) throw new Error("This grant was revoked or has expired");
+
+        const keyPair = await unlock();
+        const contents: string[] = await registry.getGrantContents(id);
+        const context: GrantContext = {
+          chainId,
+          registry: registryAddress,
+          owner: getAddress(grant.owner),
+          grantee: getAddress(account),
+        };
+        const messages = await Promise.all(
+          grant.indexes.map(async (index, i): Promise<GrantedMessage> => {
+            const metadata: [string, bigint, boolean] | null = await vault
+              .getMessageMetadata(grant.owner, index)
+              .catch(() => null);
+            return {
+              index,
+              timestamp: metadata ? Number(metadata[1]) : null,
+              isResponse: metadata?.[2] ?? false,
+              text: await openGrantedMessage(contents[i], keyPair, context, index),
+            };
+          })
+        );
+        setOpenGrant({ grant, messages });
+      } finally {
+        setLoading(false);
+      }
+    },
+    [requireRegistry, unlock, chainId]
+  );
+
+  const closeGrant = useCallback(() => setOpenGrant(null), []);
+
+  // Forget opened messages
+  const clear = useCallback(() => {
+    setOpenGrant(null);
+  }, []);
+
+  return {
+    available,
+    given,
+    // Grants made to the account that are neither revoked nor expired
+    received: activeReceived,
+    openGrant,
+    loading,
+    now,
+    refresh,
+    createGrant,
+    revokeGrant,
+    openReceivedGrant,
+    closeGrant,
+    clear,
+  };
+}
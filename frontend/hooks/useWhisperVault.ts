@@ -1,13 +1,63 @@
-import { useState, useCallback } from "react";
+import { useState, useCallback, useMemo, useRef, useEffect } from "react";
 import { useAccount, useChainId, useWalletClient } from "wagmi";
-import { BrowserProvider, Contract, ZeroAddress } from "ethers";
-import { encryptText, decryptText } from "./useCrypto";
+import { BrowserProvider, Contract, ZeroAddress, getAddress, isAddress, isError } from "ethers";
+import {
+  buildStoreRequestTypedData,
+  buildWalletKeyTypedData,
+  bytesToHex,
+  createDataKey,
+  decodeLabels,
+  decodeTitle,
+  encodeLabels,
+  encodeTitle,
+  getBaseKeyParams,
+  getLabelContext,
+  getLabelEncryptOptions,
+  getThreadKeyParams,
+  getTitleContext,
+  getTitleEncryptOptions,
+  normalizeTitle,
+  usesThreadKey,
+  createKeyCheck,
+  createVaultKeyParams,
+  decodeKeyring,
+  encodeKeyring,
+  getDataKeyParams,
+  getKeyringEntries,
+  getEnvelopeSize,
+  getRewriteOptions,
+  getVaultKeyId,
+  getVaultKeyParams,
+  hexToBytes,
+  isWalletKdf,
+  PADDING_BUCKETS,
+  recoveryPhraseToSecret,
+  RECOVERY_KEY_KDF,
+  unwrapDataKey,
+  verifyKeyCheck,
+  wrapDataKey,
+  walletSignatureToSecret,
+  ContextMismatchError,
+  CryptoWorkerPool,
+  DataKey,
+  DecryptedPayload,
+  KdfParams,
+  MessageContext,
+  SignedStoreRequest,
+  StoreRequest,
+  VaultContext,
+  VaultKeyParams,
+  VaultKeySession,
+  WALLET_KEY_KDF,
+} from "./useCrypto";
 
-// Dynamic deployment addresses cache
-let deploymentCache: Record<string, { address: string; chainId: number; chainName: string }> | null = null;
-let deploymentFetchPromise: Promise<Record<string, { address: string; chainId: number; chainName: string }>> | null = null;
+type DeploymentEntry = { address: string; chainId: number; chainName: string };
 
-async function fetchDeployments(): Promise<Record<string, { address: string; chainId: number; chainName: string }>> {
+// Dynamic deployment addresses cache, by contract name and chain id
+let deploymentCache: Record<string, Record<string, DeploymentEntry>> | null = null;
+let deploymentFetchPromise: Promise<Record<string, Record<string, DeploymentEntry>>> | null = null;
+
+async function fetchDeployments(): Promise<Record<string, Record<string, DeploymentEntry>>> {
   // Return cached data if available
   if (deploymentCache) return deploymentCache;
   
@@ -17,9 +67,8 @@ async function fetchDeployments(): Promise<Record<string, { address: string; cha
   deploymentFetchPromise = (async () => {
     try {
       const response = await fetch('/deployments.json');
-      const data = await response.json();
-      deploymentCache = data.WhisperVault || {};
-      return deploymentCache as Record<string, { address: string; chainId: number; chainName: string }>;
+      deploymentCache = (await response.json()) || {};
+      return deploymentCache as Record<string, Record<string, DeploymentEntry>>;
     } catch (error) {
       console.error('[WhisperVault] Failed to fetch deployments:', error);
       return {};
@@ -46,24 +95,59 @@ const WHISPER_VAULT_ABI = [
   "function getMessageMetadata(address user, uint256 index) view returns (address sender, uint256 timestamp, bool isResponse)",
   "function getEncryptedContent(address user, uint256 index) view returns (bytes)",
   "function getMessage(address user, uint256 index) view returns (address sender, bytes encryptedContent, uint256 timestamp, bool isResponse)",
-  "function getAllMessages(address user) view returns (tuple(string label, address sender, bytes encryptedContent, uint256 timestamp, bool isResponse)[])",
+  "function getAllMessages(address user) view returns (tuple(bytes label, address sender, bytes encryptedContent, uint256 timestamp, bool isResponse)[])",
+  "function getMessagesRange(address user, uint256 offset, uint256 limit) view returns (tuple(bytes label, address sender, bytes encryptedContent, uint256 timestamp, bool isResponse)[] page)",
+  "function getLatestMessages(address user, uint256 offset, uint256 limit) view returns (tuple(bytes label, address sender, bytes encryptedContent, uint256 timestamp, bool isResponse)[] page, uint256 total)",
   "function storeMessage(bytes encryptedContent) external",
   "function storeResponse(bytes encryptedContent) external",
+  "function storeMessages(bytes[] encryptedContents, bool[] isResponses) external",
+  "function replaceMessages(uint256[] indexes, bytes[] encryptedContents) external",
+  "function deleteMessage(uint256 index) external",
+  "function setLabels(uint256[] indexes, bytes[] encryptedLabels) external",
+  "function getLabels(address user, uint256 index) view returns (bytes)",
+  "function editMessage(uint256 index, bytes encryptedContent) external",
+  "function getRevisions(address user, uint256 index) view returns (tuple(bytes encryptedContent, uint256 replacedAt)[])",
+  "function replaceRevisions(uint256 index, bytes[] encryptedContents) external",
+  "function getRevisionCounts(address user, uint256 offset, uint256 limit) view returns (uint256[] counts)",
+  "function getRevisionCountsAt(address user, uint256[] indexes) view returns (uint256[] counts)",
+  "function createThread(bytes encryptedTitle) external returns (uint256 threadId)",
+  "function renameThread(uint256 threadId, bytes encryptedTitle) external",
+  "function setThreadArchived(uint256 threadId, bool archived) external",
+  "function getThreads(address user) view returns (tuple(bytes title, uint256 createdAt, bool archived)[] threads, uint256[] messageCounts)",
+  "function storeThreadMessages(uint256 threadId, bytes[] encryptedContents, bool[] isResponses) external",
+  "function storeMessagesWithSignature(address user, uint256 threadId, bytes[] encryptedContents, bool[] isResponses, uint256 deadline, bytes signature) external",
+  "function nonces(address user) view returns (uint256)",
+  "function getThreadMessagesRange(address user, uint256 threadId, uint256 offset, uint256 limit) view returns (tuple(bytes label, address sender, bytes encryptedContent, uint256 timestamp, bool isResponse)[] page, uint256[] indexes)",
+  "function getLatestThreadMessages(address user, uint256 threadId, uint256 offset, uint256 limit) view returns (tuple(bytes label, address sender, bytes encryptedContent, uint256 timestamp, bool isResponse)[] page, uint256[] indexes, uint256 total)",
+  "function getKeyCheck(address user) view returns (bytes)",
+  "function setKeyCheck(bytes keyCheck) external",
   "function clearMessages() external",
   "function requestDecryption() external",
-  "event MessageStored(address indexed user, uint256 indexed messageIndex, uint256 timestamp, bool isResponse)",
+  "event MessageStored(address indexed user, uint256 indexed messageIndex, uint256 timestamp, bool isResponse, uint256 size)",
+  "event MessageReplaced(address indexed user, uint256 indexed messageIndex, uint256 size)",
+  "event MessageDeleted(address indexed user, uint256 indexed messageIndex)",
+  "event LabelsUpdated(address indexed user, uint256 indexed messageIndex, uint256 size)",
+  "event MessageEdited(address indexed user, uint256 indexed messageIndex, uint256 revision, uint256 size)",
+  "event ThreadCreated(address indexed user, uint256 indexed threadId, uint256 size)",
+  "event ThreadRenamed(address indexed user, uint256 indexed threadId, uint256 size)",
+  "event ThreadArchived(address indexed user, uint256 indexed threadId, bool archived)",
+  "event KeyCheckUpdated(address indexed user, uint256 size)",
   "event MessagesCleared(address indexed user)",
+  "event StoreRequestRelayed(address indexed user, address indexed relayer, uint256 nonce)",
   "event DecryptionRequested(address indexed user, uint256 timestamp)",
 ];
 
 /**
- * Get WhisperVault contract address for the given chainId (async)
+ * Get the address of a deployed contract (WhisperVault by default) for the given chainId (async)
  */
-async function getContractAddress(chainId: number | undefined): Promise<string | null> {
+export async function getContractAddress(
+  chainId: number | undefined,
+  contractName = "WhisperVault"
+): Promise<string | null> {
   if (!chainId) return null;
   
   const deployments = await fetchDeployments();
-  const entry = deployments[chainId.toString()];
+  const entry = deployments[contractName]?.[chainId.toString()];
   if (!entry || !entry.address || entry.address === ZeroAddress || entry.address === "0x0000000000000000000000000000000000000000") {
     return null;
   }
@@ -71,6 +155,9 @@ async function getContractAddress(chainId: number | undefined): Promise<string |
   return entry.address;
 }
 
+// WhisperVault rejects encryptedContent larger than this
+export const MAX_CONTENT_BYTES = 16384;
+
 export interface Message {
   id: number;
   sender: string;
@@ -78,6 +165,384 @@ export interface Message {
   timestamp: number;
   isResponse: boolean;
   decryptedText?: string;
+  // Set when the ciphertext decrypts but belongs to another vault, chain or position
+  tampered?: boolean;
+  // Tombstone of a deleted message: its index stays taken, its content is gone
+  deleted?: boolean;
+  // Number of earlier revisions, set when the message was edited
+  revisionCount?: number;
+  // Encrypted labels as stored, and their names once decrypted
+  encryptedLabels?: string;
+  labels?: string[];
+}
+
+/**
+ * Earlier content of an edited message
+ */
+export interface MessageRevision {
+  encryptedContent: string;
+  // When an edit replaced it
+  replacedAt: number;
+}
+
+/**
+ * One decrypted version of an edited message, for the revision history
+ */
+export interface MessageVersion {
+  // null if the version can't be decrypted or belongs to another position
+  text: string | null;
+  // When this version was written
+  timestamp: number;
+  current: boolean;
+}
+
+/**
+ * A named conversation of the vault. Thread 0 is the default conversation, which has no title.
+ */
+export interface Thread {
+  id: number;
+  // Encrypted title as stored, null for the default conversation, and the title once decrypted
+  encryptedTitle: string | null;
+  title?: string;
+  createdAt: number;
+  archived: boolean;
+  messageCount: number;
+  // Messages are encrypted with the thread's own key, derived from the vault data key
+  ownKey: boolean;
+}
+
+// Demo mode keeps the revisions of a message next to it, and the thread it belongs to
+type LocalMessage = Message & { revisions?: MessageRevision[]; thread?: number };
+
+type LocalThread = Pick<Thread, "id" | "encryptedTitle" | "createdAt" | "archived">;
+
+/**
+ * How the vault key is derived: from a typed password, or from a wallet signature
+ */
+export type VaultKeyMode = "password" | "wallet";
+
+/**
+ * Setup state of a vault: "new" has neither messages nor a key check and needs the setup
+ * wizard, "protected" has a key check, "unverified" predates key checks and is verified
+ * against its newest message instead
+ */
+export type VaultStatus = "new" | "protected" | "unverified";
+
+export interface DecryptProgress {
+  done: number;
+  total: number;
+}
+
+export interface RotationProgress {
+  phase: "decrypting" | "writing";
+  done: number;
+  total: number;
+}
+
+/**
+ * Exact cost of storing one padded message of a bucket size, at the current vault state
+ */
+export interface BucketCost {
+  size: number;
+  gas: bigint;
+  // gas * current fee per gas, null if the network doesn't report fees
+  fee: bigint | null;
+}
+
+// Messages read per contract call: the latest page on load, then older pages on scroll
+export const MESSAGE_PAGE_SIZE = 50;
+
+// How often live updates poll for new vault events, and the longest wait between retries
+const LIVE_POLL_MS = 4000;
+const LIVE_MAX_BACKOFF_MS = 30000;
+// Longest run of missed blocks live updates catch up on from events; after a longer gap they reload
+const LIVE_MAX_BLOCK_RANGE = 1000;
+
+/**
+ * State of the live updates of the vault: "off" without a wallet or in demo mode, "connecting"
+ * until the first poll, "reconnecting" while polls fail
+ */
+export type LiveStatus = "off" | "connecting" | "live" | "reconnecting";
+
+type StoredMessage = { label: string; sender: string; encryptedContent: string; timestamp: bigint; isResponse: boolean };
+
+function toMessage(msg: StoredMessage, id: number, revisionCount = 0): Message {
+  return {
+    id,
+    sender: msg.sender,
+    encryptedContent: msg.encryptedContent,
+    timestamp: Number(msg.timestamp),
+    isResponse: msg.isResponse,
+    // Stored content is never empty, so empty content is a tombstone
+    ...(msg.encryptedContent === "0x" && { deleted: true }),
+    ...(revisionCount > 0 && { revisionCount }),
+    ...(msg.label !== "0x" && { encryptedLabels: msg.label }),
+  };
+}
+
+/**
+ * Read messages `offset` to `offset + limit` (cut short at the end of the vault), oldest first
+ */
+async function readMessagesRange(contract: Contract, user: string, offset: number, limit: number): Promise<Message[]> {
+  const [page, counts]: [StoredMessage[], bigint[]] = await Promise.all([
+    contract.getMessagesRange(user, offset, limit),
+    contract.getRevisionCounts(user, offset, limit),
+  ]);
+  return page.map((msg, i) => toMessage(msg, offset + i, Number(counts[i] ?? 0)));
+}
+
+/**
+ * Read every message of a vault, one page per call
+ */
+async function readAllMessages(contract: Contract, user: string): Promise<Message[]> {
+  const count = Number(await contract.getMessageCount(user));
+  const all: Message[] = [];
+  while (all.length < count) {
+    const page = await readMessagesRange(contract, user, all.length, MESSAGE_PAGE_SIZE);
+    if (page.length === 0) break;
+    all.push(...page);
+  }
+  return all;
+}
+
+/**
+ * Whether a call failed because the deployment predates the function: it doesn't know the
+ * function selector and reverts without data
+ */
+export function isMissingFunction(err: unknown): boolean {
+  return isError(err, "CALL_EXCEPTION") && (!err.data || err.data === "0x");
+}
+
+/**
+ * Whether a deployment has storeMessages, probed by estimating the batch
+ * @throws if the batch itself would revert
+ */
+async function canStoreBatch(contract: Contract, contents: string[], isResponses: boolean[]): Promise<boolean> {
+  try {
+    await contract.storeMessages.estimateGas(contents, isResponses);
+    return true;
+  } catch (err) {
+    if (isMissingFunction(err)) return false;
+    throw err;
+  }
+}
+
+/**
+ * Relayer of signed store requests (see tasks/Relayer.ts): NEXT_PUBLIC_RELAYER_URL, or the
+ * local one on the hardhat chain
+ */
+export function getRelayerUrl(chainId: number): string | null {
+  return process.env.NEXT_PUBLIC_RELAYER_URL || (chainId === 31337 ? "http://localhost:8546" : null);
+}
+
+// Signed store requests expire after this long, so one stuck in a relayer queue can't land much later
+const RELAY_DEADLINE_SECONDS = 10 * 60;
+const RELAY_POLL_MS = 1000;
+const RELAY_TIMEOUT_MS = 2 * 60 * 1000;
+
+/**
+ * Whether the relayer or indexer at `url` is up and serves this chain and vault
+ */
+async function checkService(url: string, chainId: number, vaultAddress: string): Promise<boolean> {
+  try {
+    const response = await fetch(`${url}/health`);
+    if (!response.ok) return false;
+    const health = await response.json();
+    return health.chainId === chainId && isAddress(health.vault) && getAddress(health.vault) === getAddress(vaultAddress);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Hand a signed store request to the relayer and wait until it's mined
+ * @throws with the relayer's reason if it refuses or fails the request
+ */
+async function relayStoreRequest(url: string, signed: SignedStoreRequest): Promise<void> {
+  const posted = await fetch(`${url}/requests`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(signed),
+  });
+  const { id, error } = await posted.json();
+  if (!posted.ok) throw new Error(`The relayer refused the message: ${error}`);
+
+  const started = Date.now();
+  while (Date.now() - started < RELAY_TIMEOUT_MS) {
+    await new Promise((resolve) => setTimeout(resolve, RELAY_POLL_MS));
+    const job = await (await fetch(`${url}/requests/${id}`)).json();
+    if (job.status === "mined") return;
+    if (job.status === "failed") throw new Error(`The relayer couldn't store the message: ${job.error}`);
+  }
+  throw new Error("The relayer hasn't stored the message yet, reload later to see whether it arrived");
+}
+
+/**
+ * Event indexer of the vault (see tasks/Indexer.ts): NEXT_PUBLIC_INDEXER_URL, or the local one on
+ * the hardhat chain
+ */
+export function getIndexerUrl(chainId: number): string | null {
+  return process.env.NEXT_PUBLIC_INDEXER_URL || (chainId === 31337 ? "http://localhost:8547" : null);
+}
+
+type IndexedMessage = {
+  index: number;
+  sender: string;
+  isResponse: boolean;
+  timestamp: number;
+  encryptedContent: string;
+  encryptedLabels: string;
+  revisionCount: number;
+};
+
+/**
+ * Read a page of a thread from the indexer, oldest first: the newest messages, or those before
+ * the vault index `before`
+ * @returns null if the indexer hasn't caught up with block `head` yet
+ * @throws if the indexer can't be reached
+ */
+async function readIndexedThreadPage(
+  url: string,
+  user: string,
+  thread: number,
+  head: number,
+  before?: number
+): Promise<{ page: Message[]; total: number } | null> {
+  const query = new URLSearchParams({ thread: String(thread), limit: String(MESSAGE_PAGE_SIZE) });
+  if (before !== undefined) query.set("cursor", String(before));
+  const response = await fetch(`${url}/users/${user}/messages?${query}`);
+  if (!response.ok) throw new Error(`Indexer error ${response.status}`);
+  const { messages, total, indexedBlock }: { messages: IndexedMessage[]; total: number; indexedBlock: number } =
+    await response.json();
+  if (indexedBlock < head) return null;
+
+  const page = messages.map((msg) =>
+    toMessage(
+      {
+        label: msg.encryptedLabels,
+        sender: msg.sender,
+        encryptedContent: msg.encryptedContent,
+        timestamp: BigInt(msg.timestamp),
+        isResponse: msg.isResponse,
+      },
+      msg.index,
+      msg.revisionCount
+    )
+  );
+  return { page: page.reverse(), total };
+}
+
+/**
+ * Revision counts of the messages at `indexes`, merged into them
+ */
+async function withRevisionCounts(
+  contract: Contract,
+  user: string,
+  page: StoredMessage[],
+  indexes: bigint[]
+): Promise<Message[]> {
+  const counts: bigint[] = page.length > 0 ? await contract.getRevisionCountsAt(user, indexes) : [];
+  return page.map((msg, i) => toMessage(msg, Number(indexes[i]), Number(counts[i] ?? 0)));
+}
+
+/**
+ * Read the messages of a thread from position `offset` to `offset + limit`, oldest first
+ */
+async function readThreadRange(
+  contract: Contract,
+  user: string,
+  thread: number,
+  offset: number,
+  limit: number
+): Promise<Message[]> {
+  const [page, indexes]: [StoredMessage[], bigint[]] = await contract.getThreadMessagesRange(user, thread, offset, limit);
+  return withRevisionCounts(contract, user, page, indexes);
+}
+
+/**
+ * Read the newest page of a thread, oldest first, and the number of messages in the thread
+ */
+async function readLatestThreadPage(
+  contract: Contract,
+  user: string,
+  thread: number
+): Promise<{ page: Message[]; total: number }> {
+  const [page, indexes, total]: [StoredMessage[], bigint[], bigint] = await contract.getLatestThreadMessages(
+    user,
+    thread,
+    0,
+    MESSAGE_PAGE_SIZE
+  );
+  return { page: (await withRevisionCounts(contract, user, page, indexes)).reverse(), total: Number(total) };
+}
+
+function toThread(id: number, encryptedTitle: string | null, createdAt: number, archived: boolean, messageCount: number): Thread {
+  return {
+    id,
+    encryptedTitle,
+    createdAt,
+    archived,
+    messageCount,
+    ownKey: encryptedTitle !== null && usesThreadKey(encryptedTitle),
+  };
+}
+
+// Limits for one replaceMessages transaction during key rotation
+const ROTATION_BATCH_SIZE = 50;
+const ROTATION_BATCH_BYTES = 24 * 1024;
+
+/**
+ * Key settings of an unfinished key rotation, kept in localStorage so it can be resumed.
+ * Resuming reuses the same salt, so messages already rewritten are recognized and skipped.
+ */
+function loadRotationTarget(address: string): VaultKeyParams | null {
+  const stored = localStorage.getItem(`whisperlink-rotation-${address}`);
+  if (!stored) return null;
+  try {
+    const { kdf, salt } = JSON.parse(stored) as { kdf: KdfParams; salt: string };
+    return { kdf, salt: hexToBytes(salt) };
+  } catch {
+    localStorage.removeItem(`whisperlink-rotation-${address}`);
+    return null;
+  }
+}
+
+function saveRotationTarget(address: string, params: VaultKeyParams | null): void {
+  if (params) {
+    localStorage.setItem(
+      `whisperlink-rotation-${address}`,
+      JSON.stringify({ kdf: params.kdf, salt: bytesToHex(params.salt) })
+    );
+  } else {
+    localStorage.removeItem(`whisperlink-rotation-${address}`);
+  }
+}
+
+function loadLocalMessages(address: string): LocalMessage[] {
+  try {
+    return JSON.parse(localStorage.getItem(`whisperlink-${address}`) ?? "[]");
+  } catch {
+    return [];
+  }
+}
+
+function loadLocalThreads(address: string): LocalThread[] {
+  try {
+    return JSON.parse(localStorage.getItem(`whisperlink-threads-${address}`) ?? "[]");
+  } catch {
+    return [];
+  }
+}
+
+function saveLocalThreads(address: string, threads: LocalThread[]): void {
+  const stored = threads.map(({ id, encryptedTitle, createdAt, archived }) => ({ id, encryptedTitle, createdAt, archived }));
+  localStorage.setItem(`whisperlink-threads-${address}`, JSON.stringify(stored));
+}
+
+// Decrypted text and label names never reach localStorage
+function saveLocalMessages(address: string, messages: LocalMessage[]): void {
+  const stored = messages.map((msg) => ({ ...msg, decryptedText: undefined, tampered: undefined, labels: undefined }));
+  localStorage.setItem(`whisperlink-${address}`, JSON.stringify(stored));
 }
 
 function generateAutoResponse(userMessage: string): string {
@@ -94,14 +559,194 @@ function generateAutoResponse(userMessage: string): string {
   return responses[index];
 }
 
+/**
+ * Find the key settings (KDF + salt) of a vault from its newest envelope
+ * @returns The settings, or null if the vault only holds legacy ciphertexts
+ */
+function findVaultKeyParams(messages: Message[]): VaultKeyParams | null {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const params = getVaultKeyParams(messages[i].encryptedContent);
+    if (params) return params;
+  }
+  return null;
+}
+
 export function useWhisperVault() {
   const { address, isConnected } = useAccount();
   const chainId = useChainId();
   const { data: walletClient } = useWalletClient();
 
   const [messages, setMessages] = useState<Message[]>([]);
+  const messagesRef = useRef<Message[]>([]);
+  // Number of messages in the active thread; only the newest pages are loaded into `messages`
+  const [messageCount, setMessageCount] = useState(0);
+  const messageCountRef = useRef(0);
+  // Position in the thread of the oldest loaded message, i.e. how many older ones are left
+  const [oldestPosition, setOldestPosition] = useState(0);
+  const [threads, setThreads] = useState<Thread[]>([toThread(0, null, 0, false, 0)]);
+  // Thread shown in `messages`; loads read it through the ref, so switching threads doesn't
+  // re-run effects that depend on loadMessages
+  const [activeThread, setActiveThread] = useState(0);
+  const activeThreadRef = useRef(0);
+  // Whether the deployment has threads; older ones only have the default conversation
+  const [threadsSupported, setThreadsSupported] = useState(false);
+  const threadsSupportedRef = useRef(false);
+  const [liveStatus, setLiveStatus] = useState<LiveStatus>("off");
+  const [loadingOlder, setLoadingOlder] = useState(false);
+  const loadingOlderRef = useRef(false);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // KDF chosen by the user for upcoming messages; older envelopes keep their own settings
+  const [kdfOverride, setKdfOverride] = useState<KdfParams | null>(null);
+  const [keyMode, setKeyMode] = useState<VaultKeyMode>("password");
+
+  const [decryptProgress, setDecryptProgress] = useState<DecryptProgress | null>(null);
+  const [rotationProgress, setRotationProgress] = useState<RotationProgress | null>(null);
+  const [pendingRotation, setPendingRotation] = useState(false);
+  // Privacy mode pads messages to PADDING_BUCKETS and stores responses like user messages
+  const [privacyMode, setPrivacyModeState] = useState(false);
+  // Send through the relayer when one serves this vault, otherwise (or when turned off) as transactions
+  const [relayEnabled, setRelayEnabledState] = useState(true);
+  // null until checked whether a relayer serves this chain and vault
+  const [relayerAvailable, setRelayerAvailable] = useState<boolean | null>(null);
+  // Indexer serving this chain and vault, null while unchecked or if there is none
+  const indexerUrlRef = useRef<string | null>(null);
+
+  // Encrypted key-check value or keyring of the vault, null until loaded or if the vault has none
+  const [keyCheck, setKeyCheck] = useState<string | null>(null);
+  // Envelope settings of the unlocked keyring data key; new messages are encrypted with it
+  const [dataKeyParams, setDataKeyParams] = useState<VaultKeyParams | null>(null);
+
+  // An empty vault uses the settings it was set up with
+  const vaultKeyParams = useMemo(
+    () => findVaultKeyParams(messages) ?? (keyCheck ? getVaultKeyParams(keyCheck) : null),
+    [messages, keyCheck]
+  );
+
+  const keyring = useMemo(() => {
+    const entries = keyCheck ? decodeKeyring(keyCheck) : null;
+    return entries ? getKeyringEntries(entries) : null;
+  }, [keyCheck]);
+  // Keyring vaults encrypt with their data key; the unlock entry tells the key mode and KDF
+  const modeParams = (keyring?.unlock ? getVaultKeyParams(keyring.unlock) : null) ?? vaultKeyParams;
+
+  // Derived keys stay cached for the unlocked session; crypto runs in a worker pool
+  const sessionRef = useRef<VaultKeySession | null>(null);
+  const poolRef = useRef<CryptoWorkerPool | null>(null);
+
+  const getSession = useCallback((password: string) => {
+    if (!sessionRef.current?.matches(password)) {
+      sessionRef.current?.clear();
+      sessionRef.current = new VaultKeySession(password);
+    }
+    return sessionRef.current;
+  }, []);
+
+  const getPool = useCallback(() => {
+    if (!poolRef.current) poolRef.current = new CryptoWorkerPool();
+    return poolRef.current;
+  }, []);
+
+  useEffect(() => {
+    return () => {
+      sessionRef.current?.clear();
+      sessionRef.current = null;
+      poolRef.current?.terminate();
+      poolRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    setKeyCheck(null);
+    setDataKeyParams(null);
+    setThreads([toThread(0, null, 0, false, 0)]);
+    setActiveThread(0);
+    activeThreadRef.current = 0;
+    setPendingRotation(address ? loadRotationTarget(address) !== null : false);
+    setPrivacyModeState(address ? localStorage.getItem(`whisperlink-privacy-${address}`) === "1" : false);
+    setRelayEnabledState(address ? localStorage.getItem(`whisperlink-direct-${address}`) !== "1" : true);
+  }, [address]);
+
+  const setPrivacyMode = useCallback(
+    (enabled: boolean) => {
+      setPrivacyModeState(enabled);
+      if (!address) return;
+      if (enabled) localStorage.setItem(`whisperlink-privacy-${address}`, "1");
+      else localStorage.removeItem(`whisperlink-privacy-${address}`);
+    },
+    [address]
+  );
+
+  /**
+   * Check whether a relayer serves this chain and vault
+   */
+  const refreshRelayer = useCallback(async () => {
+    const url = getRelayerUrl(chainId);
+    const vaultAddress = await getContractAddress(chainId);
+    const available = !!url && !!vaultAddress && (await checkService(url, chainId, vaultAddress));
+    setRelayerAvailable(available);
+    return available;
+  }, [chainId]);
+
+  useEffect(() => {
+    setRelayerAvailable(null);
+    refreshRelayer();
+  }, [refreshRelayer]);
+
+  useEffect(() => {
+    let cancelled = false;
+    indexerUrlRef.current = null;
+    (async () => {
+      const url = getIndexerUrl(chainId);
+      const vaultAddress = await getContractAddress(chainId);
+      if (url && vaultAddress && (await checkService(url, chainId, vaultAddress)) && !cancelled) {
+        indexerUrlRef.current = url;
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [chainId]);
+
+  const setRelayEnabled = useCallback(
+    (enabled: boolean) => {
+      setRelayEnabledState(enabled);
+      // The relayer may have been started since the last check
+      if (enabled) refreshRelayer();
+      if (!address) return;
+      if (enabled) localStorage.removeItem(`whisperlink-direct-${address}`);
+      else localStorage.setItem(`whisperlink-direct-${address}`, "1");
+    },
+    [address, refreshRelayer]
+  );
+
+  // Forget cached keys and decrypted text
+  const lock = useCallback(() => {
+    sessionRef.current?.clear();
+    sessionRef.current = null;
+    setDataKeyParams(null);
+    setDecryptProgress(null);
+    setMessages((prev) => prev.map((msg) => ({ ...msg, decryptedText: undefined, tampered: undefined, labels: undefined })));
+    setThreads((prev) => prev.map((thread) => ({ ...thread, title: undefined })));
+  }, []);
+
+  /**
+   * Context ciphertexts of this vault are bound to.
+   * Demo mode storage is shared across chains, so it binds to chain 0 and the zero address.
+   */
+  const getVaultContext = useCallback(async (): Promise<VaultContext> => {
+    if (!address) throw new Error("Not connected");
+    const vault = await getContractAddress(chainId);
+    return { owner: address, chainId: vault ? chainId : 0, vault: vault ?? ZeroAddress };
+  }, [address, chainId]);
+
+  /**
+   * Context binder for this vault: maps a message index to the context its ciphertext is bound to
+   */
+  const getContextBinder = useCallback(async (): Promise<(sequence: number) => MessageContext> => {
+    const vault = await getVaultContext();
+    return (sequence: number) => ({ ...vault, sequence });
+  }, [getVaultContext]);
 
   // Get contract instance
   const getContract = useCallback(async () => {
@@ -120,9 +765,46 @@ export function useWhisperVault() {
     return new Contract(contractAddress, WHISPER_VAULT_ABI, signer);
   }, [walletClient, chainId]);
 
-  // Load messages from contract
-  const loadMessages = useCallback(async () => {
-    if (!address) return;
+  /**
+   * Read a page of a thread from the indexer, when one serves this vault and has indexed the
+   * latest block
+   * @returns null to read it from the contract instead
+   */
+  const readFromIndexer = useCallback(
+    async (contract: Contract, thread: number, before?: number) => {
+      const url = indexerUrlRef.current;
+      const provider = contract.runner?.provider;
+      if (!url || !address || !provider) return null;
+      try {
+        return await readIndexedThreadPage(url, address, thread, await provider.getBlockNumber(), before);
+      } catch (err) {
+        console.warn("[WhisperVault] Indexer unavailable, reading from the contract:", err);
+        return null;
+      }
+    },
+    [address]
+  );
+
+  /**
+   * Load the newest page of messages of the active thread, from the indexer or the contract
+   * @returns The loaded page, empty if the active thread changed meanwhile
+   */
+  const loadMessages = useCallback(async (): Promise<Message[]> => {
+    if (!address) return [];
+    const thread = activeThreadRef.current;
+    let shown: Message[] = [];
+    // A load for a thread that is no longer shown is dropped
+    const show = (page: Message[], count: number) => {
+      if (activeThreadRef.current !== thread) return;
+      shown = page;
+      setMessages(page);
+      setMessageCount(count);
+      setOldestPosition(count - page.length);
+    };
+    const showLocal = (stored: LocalMessage[]) => {
+      const inThread = stored.filter((msg) => (msg.thread ?? 0) === thread);
+      show(inThread, inThread.length);
+    };
 
     try {
       setLoading(true);
@@ -134,27 +816,36 @@ export function useWhisperVault() {
         const stored = localStorage.getItem(`whisperlink-${address}`);
         if (stored) {
           try {
-            setMessages(JSON.parse(stored));
+            showLocal(JSON.parse(stored));
           } catch (parseErr) {
             console.error("Failed to parse stored messages:", parseErr);
             localStorage.removeItem(`whisperlink-${address}`);
-            setMessages([]);
+            show([], 0);
           }
+        } else {
+          show([], 0);
         }
-        return;
+        return shown;
       }
 
-      // Use batch loading for better performance
-      const allMessages = await contract.getAllMessages(address);
-      const loadedMessages: Message[] = allMessages.map((msg: { label: string; sender: string; encryptedContent: string; timestamp: bigint; isResponse: boolean }, index: number) => ({
-        id: index,
-        sender: msg.sender,
-        encryptedContent: msg.encryptedContent as string,
-        timestamp: Number(msg.timestamp),
-        isResponse: msg.isResponse,
-      }));
+      // Newest page only, older pages are loaded on demand
+      try {
+        const { page, total } =
+          (await readFromIndexer(contract, thread)) ?? (await readLatestThreadPage(contract, address, thread));
+        setThreadsSupported(true);
+        show(page, total);
+        return shown;
+      } catch (err) {
+        if (!isMissingFunction(err)) throw err;
+        setThreadsSupported(false);
+      }
 
-      setMessages(loadedMessages);
+      // Older deployment without threads: everything is in the default conversation
+      const [page, total]: [StoredMessage[], bigint] = await contract.getLatestMessages(address, 0, MESSAGE_PAGE_SIZE);
+      const count = Number(total);
+      const counts: bigint[] = await contract.getRevisionCounts(address, count - page.length, page.length);
+      show(page.map((msg, i) => toMessage(msg, count - 1 - i, Number(counts[page.length - 1 - i] ?? 0))).reverse(), count);
+      return shown;
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : "Unknown error";
       console.error("Failed to load messages:", err);
@@ -170,113 +861,1017 @@ export function useWhisperVault() {
       const stored = localStorage.getItem(`whisperlink-${address}`);
       if (stored) {
         try {
-          setMessages(JSON.parse(stored));
+          showLocal(JSON.parse(stored));
         } catch (parseErr) {
           console.error("Failed to parse stored messages:", parseErr);
-          setMessages([]);
+          show([], 0);
         }
       }
+      return shown;
     } finally {
       setLoading(false);
     }
-  }, [address, getContract]);
+  }, [address, getContract, readFromIndexer]);
 
-  // Send a message
-  const sendMessage = useCallback(
-    async (messageText: string, password: string) => {
-      if (!address) throw new Error("Not connected");
+  /**
+   * Decrypt loaded messages in the worker pool, newest first, reporting progress.
+   * Results are merged into `messages` as they arrive.
+   * @param password - Password, or the session of a conversation that is already shown decrypted
+   */
+  const decryptMessages = useCallback(
+    async (messagesToDecrypt: Message[], password: string | VaultKeySession) => {
+      // Tombstones have nothing to decrypt
+      const targets = messagesToDecrypt.filter((msg) => !msg.deleted);
+      const session = typeof password === "string" ? getSession(password) : password;
+      const pool = getPool();
+      const contextFor = await getContextBinder();
+      const total = targets.length;
+      let done = 0;
+      setDecryptProgress({ done, total });
+
+      // Render results as they arrive, batching state updates per frame-ish interval
+      type DecryptResult = Pick<Message, "decryptedText" | "tampered"> & Partial<Pick<Message, "isResponse" | "labels">>;
+      const ready = new Map<number, DecryptResult>();
+      let flushTimer: ReturnType<typeof setTimeout> | null = null;
+      const flush = () => {
+        flushTimer = null;
+        if (ready.size === 0) return;
+        const batch = new Map(ready);
+        ready.clear();
+        setMessages((prev) => prev.map((msg) => (batch.has(msg.id) ? { ...msg, ...batch.get(msg.id) } : msg)));
+        setDecryptProgress({ done, total });
+      };
+      const report = (id: number, result: DecryptResult) => {
+        ready.set(id, result);
+        done++;
+        if (!flushTimer) flushTimer = setTimeout(flush, 50);
+      };
 
       try {
-        setLoading(true);
-        setError(null);
+        // Newest first, so the visible end of the conversation appears first
+        await Promise.all(
+          [...targets].reverse().map(async (msg: Message) => {
+            try {
+              const { text, isResponse } = await pool.decrypt(msg.encryptedContent, session, contextFor(msg.id));
+              const labels = msg.encryptedLabels
+                ? await pool
+                    .decrypt(msg.encryptedLabels, session, getLabelContext(contextFor(msg.id)))
+                    .then(({ text: labelText }) => decodeLabels(labelText))
+                    .catch((err) => {
+                      console.warn(`[Decrypt] Labels of message ${msg.id} can't be decrypted:`, err);
+                      return undefined;
+                    })
+                : undefined;
+              // Padded envelopes carry the real response flag, the on-chain one is always false
+              report(msg.id, {
+                decryptedText: text,
+                tampered: false,
+                labels,
+                ...(isResponse !== null && { isResponse }),
+              });
+            } catch (err) {
+              if (err instanceof ContextMismatchError) {
+                // Never show content that was copied in from another vault or moved
+                console.warn(`[Decrypt] Message ${msg.id} was tampered with or relocated`);
+                report(msg.id, { decryptedText: undefined, tampered: true });
+                return;
+              }
+              console.error(`[Decrypt] Message ${msg.id} failed:`, err);
+              report(msg.id, { decryptedText: "[Decryption failed]", tampered: false });
+            }
+          })
+        );
+
+        if (flushTimer) clearTimeout(flushTimer);
+        flush();
+      } finally {
+        setDecryptProgress(null);
+      }
+    },
+    [getSession, getPool, getContextBinder]
+  );
 
-        // Encrypt user message
-        const encryptedMessage = await encryptText(messageText, password);
+  // Live updates read these without re-subscribing
+  useEffect(() => {
+    messagesRef.current = messages;
+  }, [messages]);
 
-        // Generate and encrypt auto-response
-        const responseText = generateAutoResponse(messageText);
-        const encryptedResponse = await encryptText(responseText, password);
+  useEffect(() => {
+    messageCountRef.current = messageCount;
+  }, [messageCount]);
 
-        const now = Math.floor(Date.now() / 1000);
+  useEffect(() => {
+    threadsSupportedRef.current = threadsSupported;
+  }, [threadsSupported]);
 
-        // Try to use contract, fallback to local storage
-        const contract = await getContract();
-        if (contract) {
-          // Convert hex string to bytes for contract
-          const messageBytes = "0x" + encryptedMessage;
-          const responseBytes = "0x" + encryptedResponse;
+  /**
+   * Append the messages of the active thread stored after the loaded ones, e.g. by another tab or
+   * the relayer, and refresh the message counts of the other threads. Only the new messages are
+   * read, and they are decrypted when the conversation is shown decrypted.
+   */
+  const appendNewMessages = useCallback(async () => {
+    if (!address) return;
+    const contract = await getContract();
+    if (!contract) return;
+
+    // Stored events don't say which thread they went to
+    if (threadsSupportedRef.current) {
+      const [, counts]: [unknown[], bigint[]] = await contract.getThreads(address);
+      setThreads((prev) =>
+        prev.map((entry) => (entry.id < counts.length ? { ...entry, messageCount: Number(counts[entry.id]) } : entry))
+      );
+    }
 
-          // Store user message on-chain
-          const tx1 = await contract.storeMessage(messageBytes);
-          await tx1.wait();
+    const thread = activeThreadRef.current;
+    const count = messageCountRef.current;
+    const added: Message[] = [];
+    for (;;) {
+      const page = threadsSupportedRef.current
+        ? await readThreadRange(contract, address, thread, count + added.length, MESSAGE_PAGE_SIZE)
+        : await readMessagesRange(contract, address, count + added.length, MESSAGE_PAGE_SIZE);
+      added.push(...page);
+      if (page.length < MESSAGE_PAGE_SIZE) break;
+    }
+    if (added.length === 0 || activeThreadRef.current !== thread) return;
 
-          // Store auto-response on-chain
-          const tx2 = await contract.storeResponse(responseBytes);
-          await tx2.wait();
+    // A send may have appended some of them already
+    const fresh = added.filter((msg) => !messagesRef.current.some((entry) => entry.id === msg.id));
+    const shownDecrypted = messagesRef.current.some((msg) => msg.decryptedText !== undefined);
+    setMessages((prev) => [...prev, ...added.filter((msg) => !prev.some((entry) => entry.id === msg.id))]);
+    const total = Math.max(messageCountRef.current, count + added.length);
+    messageCountRef.current = total;
+    setMessageCount(total);
+    setThreads((prev) => prev.map((entry) => (entry.id === thread ? { ...entry, messageCount: total } : entry)));
 
-          // Reload messages from chain
-          await loadMessages();
+    if (shownDecrypted && sessionRef.current && fresh.length > 0) await decryptMessages(fresh, sessionRef.current);
+  }, [address, getContract, decryptMessages]);
+
+  // Live updates: poll the MessageStored and MessagesCleared events of the connected address and
+  // apply them. Failed polls are retried with backoff, picking up the missed blocks; switching
+  // account or chain starts over.
+  useEffect(() => {
+    if (!address || !walletClient) {
+      setLiveStatus("off");
+      return;
+    }
+
+    let stopped = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let contract: Contract | null = null;
+    let lastBlock: number | null = null;
+    let failures = 0;
+    setLiveStatus("connecting");
+
+    const poll = async () => {
+      try {
+        contract ??= await getContract();
+        const provider = contract?.runner?.provider;
+        if (!contract || !provider) {
+          // Demo mode has nothing to subscribe to
+          if (!stopped) setLiveStatus("off");
           return;
         }
 
-        // Store locally for demo mode
-        const newMessages = [
-          ...messages,
-          {
-            id: messages.length,
-            sender: address,
-            encryptedContent: encryptedMessage,
-            timestamp: now,
-            isResponse: false,
-          },
-          {
-            id: messages.length + 1,
-            sender: "system",
-            encryptedContent: encryptedResponse,
-            timestamp: now + 1,
-            isResponse: true,
-          },
-        ];
-
-        setMessages(newMessages);
-        localStorage.setItem(`whisperlink-${address}`, JSON.stringify(newMessages));
+        const head = await provider.getBlockNumber();
+        if (lastBlock !== null && (head < lastBlock || head - lastBlock > LIVE_MAX_BLOCK_RANGE)) {
+          // The node was reset, or too much was missed to catch up from events
+          await loadMessages();
+        } else if (lastBlock !== null && head > lastBlock) {
+          const [stored, cleared] = await Promise.all([
+            contract.queryFilter(contract.filters.MessageStored(address), lastBlock + 1, head),
+            contract.queryFilter(contract.filters.MessagesCleared(address), lastBlock + 1, head),
+          ]);
+          if (stopped) return;
+          if (cleared.length > 0) {
+            messageCountRef.current = 0;
+            setMessages([]);
+            setMessageCount(0);
+            setOldestPosition(0);
+            setThreads((prev) => prev.map((thread) => ({ ...thread, messageCount: 0 })));
+          }
+          if (stored.length > 0) await appendNewMessages();
+        }
+        if (stopped) return;
+        lastBlock = head;
+        failures = 0;
+        setLiveStatus("live");
       } catch (err) {
-        console.error("Failed to send message:", err);
-        setError(err instanceof Error ? err.message : "Failed to send");
-        throw err;
-      } finally {
-        setLoading(false);
+        if (stopped) return;
+        console.warn("[WhisperVault] Live update failed, retrying:", err);
+        failures++;
+        setLiveStatus("reconnecting");
       }
-    },
-    [address, messages, getContract, loadMessages]
-  );
+      if (!stopped) timer = setTimeout(poll, Math.min(LIVE_POLL_MS * 2 ** failures, LIVE_MAX_BACKOFF_MS));
+    };
+    poll();
 
-  // Decrypt all messages - on-chain verification is optional
-  const decryptAllMessages = useCallback(
-    async (password: string) => {
-      try {
-        setLoading(true);
-        setError(null);
+    return () => {
+      stopped = true;
+      clearTimeout(timer);
+    };
+  }, [address, walletClient, getContract, loadMessages, appendNewMessages]);
 
-        if (messages.length === 0) {
-          throw new Error("No messages to decrypt");
-        }
+  /**
+   * Load the thread list with each thread's message count
+   * @param password - Decrypt the titles with this password
+   */
+  const loadThreads = useCallback(
+    async (password?: string) => {
+      if (!address) return;
 
-        // Step 1: Try to send on-chain decryption request (optional - for audit trail)
+      try {
         const contract = await getContract();
+        let loaded: Thread[];
         if (contract) {
-          console.log("[Decrypt] Attempting on-chain decryption request (optional)...");
-          
           try {
-            // Call requestDecryption - this is a write function that triggers MetaMask
-            const tx = await contract.requestDecryption();
-            console.log("[Decrypt] Waiting for transaction confirmation...");
-            await tx.wait();
-            console.log("[Decrypt] Decryption request confirmed on-chain");
-          } catch (contractErr) {
-            // On-chain verification failed, but continue with local decryption
-            console.warn("[Decrypt] On-chain request failed, continuing with local decryption:", contractErr);
-            // Don't throw error - local decryption can still proceed
+            const [stored, counts]: [{ title: string; createdAt: bigint; archived: boolean }[], bigint[]] =
+              await contract.getThreads(address);
+            loaded = [
+              toThread(0, null, 0, false, Number(counts[0])),
+              ...stored.map((thread, i) =>
+                toThread(i + 1, thread.title, Number(thread.createdAt), thread.archived, Number(counts[i + 1]))
+              ),
+            ];
+            setThreadsSupported(true);
+          } catch (err) {
+            if (!isMissingFunction(err)) throw err;
+            setThreadsSupported(false);
+            loaded = [toThread(0, null, 0, false, Number(await contract.getMessageCount(address)))];
+          }
+        } else {
+          const stored = loadLocalMessages(address);
+          const countOf = (id: number) => stored.filter((msg) => (msg.thread ?? 0) === id).length;
+          loaded = [
+            toThread(0, null, 0, false, countOf(0)),
+            ...loadLocalThreads(address).map((thread) =>
+              toThread(thread.id, thread.encryptedTitle, thread.createdAt, thread.archived, countOf(thread.id))
+            ),
+          ];
+          setThreadsSupported(true);
+        }
+
+        if (password) {
+          const session = getSession(password);
+          const pool = getPool();
+          const contextFor = await getContextBinder();
+          loaded = await Promise.all(
+            loaded.map(async (thread) => {
+              if (!thread.encryptedTitle) return thread;
+              try {
+                const { text } = await pool.decrypt(thread.encryptedTitle, session, getTitleContext(contextFor(thread.id)));
+                return { ...thread, title: decodeTitle(text) };
+              } catch (err) {
+                console.warn(`[Threads] Title of thread ${thread.id} can't be decrypted:`, err);
+                return thread;
+              }
+            })
+          );
+        }
+        setThreads(loaded);
+      } catch (err) {
+        console.error("Failed to load threads:", err);
+        setError(err instanceof Error ? err.message : "Failed to load threads");
+      }
+    },
+    [address, getContract, getSession, getPool, getContextBinder]
+  );
+
+  /**
+   * Read the vault's key-check value or keyring (null if it has none, including deployments that predate key checks)
+   * @throws if the read fails for another reason, so a vault that can't be read never looks new
+   */
+  const readKeyCheck = useCallback(
+    async (contract: Contract | null): Promise<string | null> => {
+      if (!address) return null;
+      if (!contract) return localStorage.getItem(`whisperlink-keycheck-${address}`);
+      try {
+        const value: string = await contract.getKeyCheck(address);
+        return value === "0x" ? null : value;
+      } catch (err) {
+        if (!isMissingFunction(err)) throw err;
+        console.warn("[WhisperVault] Key check not available on this deployment:", err);
+        return null;
+      }
+    },
+    [address]
+  );
+
+  /**
+   * Store a new key-check value or keyring for the vault: on-chain, or in localStorage in demo mode
+   */
+  const storeKeyCheck = useCallback(
+    async (contract: Contract | null, value: string) => {
+      if (!address) throw new Error("Not connected");
+      if (contract) {
+        const tx = await contract.setKeyCheck("0x" + value);
+        await tx.wait();
+      } else {
+        localStorage.setItem(`whisperlink-keycheck-${address}`, value);
+      }
+      setKeyCheck(value);
+    },
+    [address]
+  );
+
+  /**
+   * Wrap a data key with the key a session derives for `params`, as a keyring entry
+   */
+  const wrapForSession = useCallback(
+    async (dataKey: DataKey, session: VaultKeySession, params: VaultKeyParams) =>
+      wrapDataKey(dataKey, await session.getKey(params), params, await getVaultContext()),
+    [getVaultContext]
+  );
+
+  /**
+   * Keyring entry that lets a recovery phrase unwrap the data key
+   */
+  const wrapForRecovery = useCallback(
+    async (dataKey: DataKey, recoveryPhrase: string) => {
+      const recoverySession = new VaultKeySession(recoveryPhraseToSecret(recoveryPhrase));
+      try {
+        return await wrapForSession(dataKey, recoverySession, createVaultKeyParams(RECOVERY_KEY_KDF));
+      } finally {
+        recoverySession.clear();
+      }
+    },
+    [wrapForSession]
+  );
+
+  /**
+   * Check whether a secret opens a vault's key-check value or keyring.
+   * The data key of a keyring is added to the session.
+   * @throws if the value was made for the other key mode
+   */
+  const openKeyCheck = useCallback(
+    async (value: string, session: VaultKeySession, mode: VaultKeyMode): Promise<boolean> => {
+      const entries = decodeKeyring(value);
+      const unlockEntry = entries ? getKeyringEntries(entries).unlock : value;
+      const params = unlockEntry ? getVaultKeyParams(unlockEntry) : null;
+      if (!unlockEntry || !params) throw new Error("The vault's key check is unreadable");
+      if (isWalletKdf(params.kdf) !== (mode === "wallet")) {
+        throw new Error(
+          mode === "wallet"
+            ? "This vault is protected by a password, not a wallet key"
+            : "This vault uses a wallet key. Switch to Wallet key to unlock it."
+        );
+      }
+
+      const key = await session.getKey(params);
+      if (!entries) return verifyKeyCheck(value, key, await getVaultContext());
+
+      const dataKey = await unwrapDataKey(unlockEntry, key, await getVaultContext());
+      if (!dataKey) return false;
+      session.addDataKey(dataKey);
+      setDataKeyParams(getDataKeyParams(dataKey));
+      return true;
+    },
+    [getVaultContext]
+  );
+
+  /**
+   * Find out whether the connected vault still needs to be set up
+   * @returns null while the wallet client is not ready
+   */
+  const getVaultStatus = useCallback(async (): Promise<VaultStatus | null> => {
+    if (!address || !walletClient) return null;
+
+    const contract = await getContract();
+    const value = await readKeyCheck(contract);
+    setKeyCheck(value);
+    if (value) return "protected";
+
+    const count = contract ? Number(await contract.getMessageCount(address)) : loadLocalMessages(address).length;
+    return count > 0 ? "unverified" : "new";
+  }, [address, walletClient, getContract, readKeyCheck]);
+
+  /**
+   * First-run setup: create the vault's data key and store it wrapped in a keyring
+   * @param secret - Password, or wallet key secret in wallet mode
+   * @param recoveryPhrase - Phrase of the recovery kit shown to the user, null to skip the kit
+   * @throws if the vault has a keyring or messages, or can't be read to confirm it has neither
+   */
+  const setupVault = useCallback(
+    async (secret: string, mode: VaultKeyMode, recoveryPhrase: string | null) => {
+      if (!address) throw new Error("Not connected");
+
+      try {
+        setLoading(true);
+        setError(null);
+
+        const contract = await getContract();
+        if (await readKeyCheck(contract)) throw new Error("This vault is already set up");
+        // A new keyring would make the messages already stored unreadable
+        const count = contract ? Number(await contract.getMessageCount(address)) : loadLocalMessages(address).length;
+        if (count > 0) throw new Error("This vault already has messages, unlock it instead");
+
+        const session = getSession(secret);
+        const dataKey = createDataKey();
+        const params = createVaultKeyParams(mode === "wallet" ? WALLET_KEY_KDF : kdfOverride ?? undefined);
+        const entries = [await wrapForSession(dataKey, session, params)];
+        if (recoveryPhrase) entries.push(await wrapForRecovery(dataKey, recoveryPhrase));
+        await storeKeyCheck(contract, encodeKeyring(entries));
+
+        session.addDataKey(dataKey);
+        setDataKeyParams(getDataKeyParams(dataKey));
+        setKeyMode(mode);
+      } finally {
+        setLoading(false);
+      }
+    },
+    [address, kdfOverride, getContract, getSession, readKeyCheck, storeKeyCheck, wrapForSession, wrapForRecovery]
+  );
+
+  /**
+   * Verify a secret before unlocking: against the key-check value or keyring, or the newest
+   * message for vaults that predate key checks
+   * @throws if the secret is wrong
+   */
+  const unlockVault = useCallback(
+    async (secret: string, mode: VaultKeyMode) => {
+      if (!address) throw new Error("Not connected");
+
+      const contract = await getContract();
+      const session = getSession(secret);
+      const value = await readKeyCheck(contract);
+      setKeyCheck(value);
+
+      let valid = true;
+      if (value) {
+        valid = await openKeyCheck(value, session, mode).catch((err) => {
+          session.clear();
+          sessionRef.current = null;
+          throw err;
+        });
+      } else {
+        // Newest message that wasn't deleted
+        let index = contract ? Number(await contract.getMessageCount(address)) : loadLocalMessages(address).length;
+        let newest = "";
+        while (index > 0 && !newest) {
+          index--;
+          const content: string = contract
+            ? await contract.getEncryptedContent(address, index)
+            : loadLocalMessages(address)[index].encryptedContent;
+          newest = content === "0x" ? "" : content;
+        }
+        if (newest) {
+          const contextFor = await getContextBinder();
+          try {
+            await getPool().decrypt(newest, session, contextFor(index));
+          } catch (err) {
+            // A relocated message still proves the key is right
+            valid = err instanceof ContextMismatchError;
+          }
+        }
+      }
+
+      if (!valid) {
+        session.clear();
+        sessionRef.current = null;
+        throw new Error(mode === "wallet" ? "This wallet key doesn't open the vault" : "Wrong password");
+      }
+      setKeyMode(mode);
+    },
+    [address, getContract, getSession, getPool, getContextBinder, readKeyCheck, openKeyCheck]
+  );
+
+  /**
+   * Protect a recovered data key with a new password, keeping the recovery kit entry if there is one
+   */
+  const restoreVault = useCallback(
+    async (dataKey: DataKey, newPassword: string) => {
+      if (!address) throw new Error("Not connected");
+
+      try {
+        setLoading(true);
+        setError(null);
+
+        const contract = await getContract();
+        const value = await readKeyCheck(contract);
+        const entries = value ? decodeKeyring(value) : null;
+        const recoveryEntry = entries ? getKeyringEntries(entries).recovery : null;
+
+        const session = getSession(newPassword);
+        const params = createVaultKeyParams(kdfOverride ?? undefined);
+        const unlockEntry = await wrapForSession(dataKey, session, params);
+        await storeKeyCheck(contract, encodeKeyring(recoveryEntry ? [unlockEntry, recoveryEntry] : [unlockEntry]));
+
+        session.addDataKey(dataKey);
+        setDataKeyParams(getDataKeyParams(dataKey));
+        setKdfOverride(params.kdf);
+        setKeyMode("password");
+      } finally {
+        setLoading(false);
+      }
+    },
+    [address, kdfOverride, getContract, getSession, readKeyCheck, storeKeyCheck, wrapForSession]
+  );
+
+  /**
+   * Unlock with the recovery phrase and protect the data key with a new password.
+   * Messages written before the vault had a keyring can't be recovered.
+   */
+  const recoverVault = useCallback(
+    async (recoveryPhrase: string, newPassword: string) => {
+      if (!address) throw new Error("Not connected");
+
+      const value = await readKeyCheck(await getContract());
+      const entries = value ? decodeKeyring(value) : null;
+      const recoveryEntry = entries ? getKeyringEntries(entries).recovery : null;
+      const recoveryParams = recoveryEntry ? getVaultKeyParams(recoveryEntry) : null;
+      if (!recoveryEntry || !recoveryParams) throw new Error("This vault has no recovery kit");
+
+      const recoverySession = new VaultKeySession(recoveryPhraseToSecret(recoveryPhrase));
+      const dataKey = await unwrapDataKey(
+        recoveryEntry,
+        await recoverySession.getKey(recoveryParams),
+        await getVaultContext()
+      ).finally(() => recoverySession.clear());
+      if (!dataKey) throw new Error("This recovery phrase doesn't open the vault");
+
+      await restoreVault(dataKey, newPassword);
+    },
+    [address, getContract, getVaultContext, readKeyCheck, restoreVault]
+  );
+
+  // Data key of the unlocked vault, null for vaults without a keyring
+  const getDataKey = useCallback((): DataKey | null => sessionRef.current?.getDataKey() ?? null, []);
+
+  // Key settings for new messages: the vault's own, or fresh ones when switching KDF or key mode
+  const getNextKeyParams = useCallback(
+    (): VaultKeyParams =>
+      dataKeyParams ??
+      (vaultKeyParams &&
+      isWalletKdf(vaultKeyParams.kdf) === (keyMode === "wallet") &&
+      (keyMode === "wallet" || !kdfOverride || JSON.stringify(kdfOverride) === JSON.stringify(vaultKeyParams.kdf))
+        ? vaultKeyParams
+        : createVaultKeyParams(keyMode === "wallet" ? WALLET_KEY_KDF : kdfOverride ?? undefined)),
+    [dataKeyParams, vaultKeyParams, kdfOverride, keyMode]
+  );
+
+  // Key settings for new messages and labels of a thread: its own key, or the vault's
+  const getThreadParams = useCallback(
+    (thread: number): VaultKeyParams => {
+      if (!threads.find((entry) => entry.id === thread)?.ownKey) return getNextKeyParams();
+      if (!dataKeyParams) throw new Error("Unlock the vault to write to this thread");
+      return getThreadKeyParams(dataKeyParams, thread);
+    },
+    [threads, dataKeyParams, getNextKeyParams]
+  );
+
+  /**
+   * On-chain size in bytes of a message as sendMessage would store it (after compression
+   * and encryption), to compare against MAX_CONTENT_BYTES
+   */
+  const measureMessage = useCallback(
+    async (messageText: string) =>
+      getEnvelopeSize(messageText, getThreadParams(activeThread), {
+        // Only the digest length matters for the size
+        context: { owner: address ?? ZeroAddress, chainId, vault: ZeroAddress, sequence: messages.length },
+        pad: privacyMode,
+      }),
+    [address, chainId, messages.length, privacyMode, activeThread, getThreadParams]
+  );
+
+  /**
+   * Store messages through the relayer: the wallet signs a store request instead of sending a
+   * transaction, and the relayer pays the gas
+   * @returns false if the deployment predates signed store requests
+   */
+  const relayMessages = useCallback(
+    async (contract: Contract, threadId: number, encryptedContents: string[], isResponses: boolean[]) => {
+      const url = getRelayerUrl(chainId);
+      if (!walletClient || !address || !url) throw new Error("Not connected");
+
+      let nonce: bigint;
+      try {
+        nonce = await contract.nonces(address);
+      } catch (err) {
+        if (!isMissingFunction(err)) throw err;
+        setRelayerAvailable(false);
+        return false;
+      }
+
+      const request: StoreRequest = {
+        user: address,
+        threadId,
+        encryptedContents: encryptedContents as `0x${string}`[],
+        isResponses,
+        nonce: Number(nonce),
+        deadline: Math.floor(Date.now() / 1000) + RELAY_DEADLINE_SECONDS,
+      };
+      const typedData = buildStoreRequestTypedData(chainId, (await contract.getAddress()) as `0x${string}`, request);
+      const signature = await walletClient.signTypedData({ account: address, ...typedData });
+      await relayStoreRequest(url, { request, signature });
+      return true;
+    },
+    [walletClient, address, chainId]
+  );
+
+  // Send a message
+  const sendMessage = useCallback(
+    async (messageText: string, password: string) => {
+      if (!address) throw new Error("Not connected");
+
+      try {
+        setLoading(true);
+        setError(null);
+
+        // Encrypt user message under the thread's or vault's settings, or fresh ones when switching KDF
+        const thread = activeThread;
+        const keyParams = getThreadParams(thread);
+        const session = getSession(password);
+        const pool = getPool();
+        const responseText = generateAutoResponse(messageText);
+
+        // Try to use contract, fallback to local storage
+        const contract = await getContract();
+
+        // Bind both ciphertexts to the indexes they will be stored at
+        const contextFor = await getContextBinder();
+        const sequence = contract
+          ? Number(await contract.getMessageCount(address))
+          : loadLocalMessages(address).length;
+
+        // In privacy mode both are padded to the same bucket and the response flag is encrypted
+        let minBucket: number | undefined;
+        if (privacyMode) {
+          const sizes = await Promise.all([
+            getEnvelopeSize(messageText, keyParams, { context: contextFor(sequence), pad: true }),
+            getEnvelopeSize(responseText, keyParams, { context: contextFor(sequence + 1), pad: true }),
+          ]);
+          minBucket = Math.max(...sizes);
+        }
+
+        // Encrypt user message and auto-response
+        const [encryptedMessage, encryptedResponse] = await Promise.all([
+          pool.encrypt(messageText, session, keyParams, { context: contextFor(sequence), pad: privacyMode, minBucket }),
+          pool.encrypt(responseText, session, keyParams, {
+            context: contextFor(sequence + 1),
+            pad: privacyMode,
+            minBucket,
+            isResponse: true,
+          }),
+        ]);
+
+        const now = Math.floor(Date.now() / 1000);
+
+        if (contract) {
+          // Convert hex string to bytes for contract
+          const messageBytes = "0x" + encryptedMessage;
+          const responseBytes = "0x" + encryptedResponse;
+          // The auto-response is shaped like a user message in privacy mode
+          const contents = [messageBytes, responseBytes];
+          const isResponses = [false, !privacyMode];
+
+          if (relayEnabled && relayerAvailable && (await relayMessages(contract, thread, contents, isResponses))) {
+            // Gasless: the relayer stored both from one signed request
+          } else if (thread > 0) {
+            const tx = await contract.storeThreadMessages(thread, contents, isResponses);
+            await tx.wait();
+          } else if (await canStoreBatch(contract, contents, isResponses)) {
+            // Store both in one transaction, so the vault is never left with half a send
+            const tx = await contract.storeMessages(contents, isResponses);
+            await tx.wait();
+          } else {
+            // Older deployment: store user message, then auto-response
+            const tx1 = await contract.storeMessage(messageBytes);
+            await tx1.wait();
+
+            const tx2 = privacyMode ? await contract.storeMessage(responseBytes) : await contract.storeResponse(responseBytes);
+            await tx2.wait();
+          }
+
+          // Append the new messages, or reload the newest page if the loaded ones are out of date
+          const newest = messages[messages.length - 1]?.id ?? -1;
+          if (threadsSupported) {
+            const { page, total } = await readLatestThreadPage(contract, address, thread);
+            const before = page.filter((msg) => msg.id < sequence);
+            if ((before[before.length - 1]?.id ?? -1) !== newest) {
+              await loadMessages();
+              return;
+            }
+            setMessages((prev) => [...prev.filter((msg) => msg.id < sequence), ...page.filter((msg) => msg.id >= sequence)]);
+            setMessageCount(total);
+            setThreads((prev) => prev.map((entry) => (entry.id === thread ? { ...entry, messageCount: total } : entry)));
+            return;
+          }
+          if (newest !== sequence - 1) {
+            await loadMessages();
+            return;
+          }
+          const stored = await readMessagesRange(contract, address, sequence, MESSAGE_PAGE_SIZE);
+          setMessages((prev) => [...prev.filter((msg) => msg.id < sequence), ...stored]);
+          setMessageCount(sequence + stored.length);
+          return;
+        }
+
+        // Store locally for demo mode
+        const added: LocalMessage[] = [
+          {
+            id: sequence,
+            sender: address,
+            encryptedContent: encryptedMessage,
+            timestamp: now,
+            isResponse: false,
+            thread,
+          },
+          {
+            id: sequence + 1,
+            sender: privacyMode ? address : "system",
+            encryptedContent: encryptedResponse,
+            timestamp: privacyMode ? now : now + 1,
+            isResponse: !privacyMode,
+            thread,
+          },
+        ];
+
+        setMessages([...messages, ...added]);
+        setMessageCount(messageCount + added.length);
+        setThreads((prev) =>
+          prev.map((entry) => (entry.id === thread ? { ...entry, messageCount: entry.messageCount + added.length } : entry))
+        );
+        saveLocalMessages(address, [...loadLocalMessages(address), ...added]);
+      } catch (err) {
+        console.error("Failed to send message:", err);
+        setError(err instanceof Error ? err.message : "Failed to send");
+        throw err;
+      } finally {
+        setLoading(false);
+      }
+    },
+    [
+      address,
+      messages,
+      messageCount,
+      privacyMode,
+      relayEnabled,
+      relayerAvailable,
+      activeThread,
+      threadsSupported,
+      getThreadParams,
+      getSession,
+      getPool,
+      getContract,
+      getContextBinder,
+      relayMessages,
+      loadMessages,
+    ]
+  );
+
+  /**
+   * Edit a message: the new text is encrypted for the same index, and the old ciphertext is
+   * kept as a revision
+   */
+  const editMessage = useCallback(
+    async (id: number, messageText: string, password: string) => {
+      if (!address) throw new Error("Not connected");
+      const target = messages.find((msg) => msg.id === id);
+      if (!target || target.deleted) throw new Error("This message can't be edited");
+
+      try {
+        setLoading(true);
+        setError(null);
+
+        const contextFor = await getContextBinder();
+        const session = getSession(password);
+        const pool = getPool();
+        // A padded response stays a response of at least its size
+        const previous = await pool.decrypt(target.encryptedContent, session, contextFor(id));
+        const encrypted = await pool.encrypt(
+          messageText,
+          session,
+          getThreadParams(activeThread),
+          getRewriteOptions(previous, target.encryptedContent, contextFor(id), privacyMode)
+        );
+
+        const contract = await getContract();
+        if (contract) {
+          const tx = await contract.editMessage(id, "0x" + encrypted);
+          await tx.wait();
+        } else {
+          const now = Math.floor(Date.now() / 1000);
+          const stored = loadLocalMessages(address).map((msg) => {
+            if (msg.id !== id) return msg;
+            const revisions = [...(msg.revisions ?? []), { encryptedContent: msg.encryptedContent, replacedAt: now }];
+            return { ...msg, encryptedContent: encrypted, revisions, revisionCount: revisions.length };
+          });
+          saveLocalMessages(address, stored);
+        }
+
+        setMessages((prev) =>
+          prev.map((msg) =>
+            msg.id === id
+              ? {
+                  ...msg,
+                  encryptedContent: encrypted,
+                  decryptedText: messageText,
+                  tampered: false,
+                  revisionCount: (msg.revisionCount ?? 0) + 1,
+                }
+              : msg
+          )
+        );
+      } catch (err) {
+        console.error("Failed to edit message:", err);
+        setError(err instanceof Error ? err.message : "Failed to edit");
+        throw err;
+      } finally {
+        setLoading(false);
+      }
+    },
+    [address, messages, privacyMode, activeThread, getContextBinder, getPool, getSession, getThreadParams, getContract]
+  );
+
+  /**
+   * Set the labels of a message, encrypted with the vault key; an empty list removes them
+   */
+  const setMessageLabels = useCallback(
+    async (id: number, labels: string[], password: string) => {
+      if (!address) throw new Error("Not connected");
+      const target = messages.find((msg) => msg.id === id);
+      if (!target || target.deleted) throw new Error("This message can't be labeled");
+
+      try {
+        setLoading(true);
+        setError(null);
+
+        const contextFor = await getContextBinder();
+        const encrypted =
+          labels.length > 0
+            ? await getPool().encrypt(
+                encodeLabels(labels),
+                getSession(password),
+                getThreadParams(activeThread),
+                getLabelEncryptOptions(contextFor(id))
+              )
+            : null;
+
+        const contract = await getContract();
+        if (contract) {
+          const tx = await contract.setLabels([id], [encrypted ? "0x" + encrypted : "0x"]);
+          await tx.wait();
+        } else {
+          const stored = loadLocalMessages(address).map((msg) =>
+            msg.id === id ? { ...msg, encryptedLabels: encrypted ?? undefined } : msg
+          );
+          saveLocalMessages(address, stored);
+        }
+
+        setMessages((prev) =>
+          prev.map((msg) =>
+            msg.id === id
+              ? { ...msg, encryptedLabels: encrypted ?? undefined, labels: labels.length > 0 ? labels : undefined }
+              : msg
+          )
+        );
+      } catch (err) {
+        console.error("Failed to set labels:", err);
+        setError(err instanceof Error ? err.message : "Failed to set labels");
+        throw err;
+      } finally {
+        setLoading(false);
+      }
+    },
+    [address, messages, activeThread, getContextBinder, getPool, getSession, getThreadParams, getContract]
+  );
+
+  /**
+   * Delete a message. Its index stays taken by a tombstone, and its revisions are dropped.
+   */
+  const deleteMessage = useCallback(
+    async (id: number) => {
+      if (!address) throw new Error("Not connected");
+
+      try {
+        setLoading(true);
+        setError(null);
+
+        const contract = await getContract();
+        if (contract) {
+          const tx = await contract.deleteMessage(id);
+          await tx.wait();
+        } else {
+          const stored = loadLocalMessages(address).map((msg) =>
+            msg.id === id
+              ? {
+                  ...msg,
+                  encryptedContent: "0x",
+                  deleted: true,
+                  revisions: undefined,
+                  revisionCount: undefined,
+                  encryptedLabels: undefined,
+                }
+              : msg
+          );
+          saveLocalMessages(address, stored);
+        }
+
+        setMessages((prev) =>
+          prev.map((msg) =>
+            msg.id === id
+              ? {
+                  ...msg,
+                  encryptedContent: "0x",
+                  decryptedText: undefined,
+                  tampered: undefined,
+                  deleted: true,
+                  revisionCount: undefined,
+                  encryptedLabels: undefined,
+                  labels: undefined,
+                }
+              : msg
+          )
+        );
+      } catch (err) {
+        console.error("Failed to delete message:", err);
+        setError(err instanceof Error ? err.message : "Failed to delete");
+        throw err;
+      } finally {
+        setLoading(false);
+      }
+    },
+    [address, getContract]
+  );
+
+  /**
+   * Decrypt every version of an edited message, oldest first and ending with the current one.
+   * Versions that don't decrypt, or were written for another position, have no text.
+   */
+  const getMessageHistory = useCallback(
+    async (id: number, password: string): Promise<MessageVersion[]> => {
+      if (!address) throw new Error("Not connected");
+      const target = messages.find((msg) => msg.id === id);
+      if (!target || target.deleted) return [];
+
+      let revisions: MessageRevision[];
+      let current: string;
+      const contract = await getContract();
+      if (contract) {
+        const [stored, content]: [{ encryptedContent: string; replacedAt: bigint }[], string] = await Promise.all([
+          contract.getRevisions(address, id),
+          contract.getEncryptedContent(address, id),
+        ]);
+        revisions = stored.map((revision) => ({
+          encryptedContent: revision.encryptedContent,
+          replacedAt: Number(revision.replacedAt),
+        }));
+        current = content;
+      } else {
+        const local = loadLocalMessages(address).find((msg) => msg.id === id);
+        revisions = local?.revisions ?? [];
+        current = local?.encryptedContent ?? target.encryptedContent;
+      }
+
+      const session = getSession(password);
+      const pool = getPool();
+      const contextFor = await getContextBinder();
+      const versions = [...revisions.map((revision) => revision.encryptedContent), current];
+
+      return Promise.all(
+        versions.map(async (content, i): Promise<MessageVersion> => {
+          let text: string | null = null;
+          try {
+            ({ text } = await pool.decrypt(content, session, contextFor(id)));
+          } catch (err) {
+            console.warn(`[History] Version ${i} of message ${id} can't be shown:`, err);
+          }
+          return {
+            text,
+            timestamp: i === 0 ? target.timestamp : revisions[i - 1].replacedAt,
+            current: i === revisions.length,
+          };
+        })
+      );
+    },
+    [address, messages, getContract, getSession, getPool, getContextBinder]
+  );
+
+  // Decrypt all loaded messages - on-chain verification is optional
+  const decryptAllMessages = useCallback(
+    async (password: string) => {
+      try {
+        setLoading(true);
+        setError(null);
+
+        if (messages.length === 0) {
+          throw new Error("No messages to decrypt");
+        }
+
+        // Step 1: Try to send on-chain decryption request (optional - for audit trail)
+        const contract = await getContract();
+        if (contract) {
+          console.log("[Decrypt] Attempting on-chain decryption request (optional)...");
+          
+          try {
+            // Call requestDecryption - this is a write function that triggers MetaMask
+            const tx = await contract.requestDecryption();
+            console.log("[Decrypt] Waiting for transaction confirmation...");
+            await tx.wait();
+            console.log("[Decrypt] Decryption request confirmed on-chain");
+          } catch (contractErr) {
+            // On-chain verification failed, but continue with local decryption
+            console.warn("[Decrypt] On-chain request failed, continuing with local decryption:", contractErr);
+            // Don't throw error - local decryption can still proceed
           }
         } else {
           console.log("[Decrypt] No contract available, using local decryption only");
@@ -284,33 +1879,683 @@ export function useWhisperVault() {
 
         // Step 2: Decrypt locally (works independently of on-chain verification)
         console.log("[Decrypt] Proceeding with local decryption...");
-        
-        const decryptedMessages = await Promise.all(
-          messages.map(async (msg: Message) => {
-            try {
-              console.log(`[Decrypt] Message ${msg.id}, content preview:`, msg.encryptedContent?.substring(0, 50));
-              const decrypted = await decryptText(msg.encryptedContent, password);
-              console.log(`[Decrypt] Message ${msg.id} decrypted:`, decrypted);
-              return { ...msg, decryptedText: decrypted };
-            } catch (err) {
-              console.error(`[Decrypt] Message ${msg.id} failed:`, err);
-              return { ...msg, decryptedText: "[Decryption failed]" };
+        await decryptMessages(messages, password);
+      } catch (err) {
+        console.error("Failed to decrypt:", err);
+        setError(err instanceof Error ? err.message : "Decryption failed");
+        throw err;
+      } finally {
+        setLoading(false);
+      }
+    },
+    [messages, getContract, decryptMessages]
+  );
+
+  /**
+   * Load the page of messages before the oldest loaded one.
+   * @param password - Decrypt the page with this password, for a conversation that is shown decrypted
+   */
+  const loadOlderMessages = useCallback(
+    async (password?: string) => {
+      if (!address || loadingOlderRef.current || oldestPosition === 0) return;
+      const thread = activeThreadRef.current;
+      const oldest = messages[0]?.id ?? 0;
+
+      try {
+        loadingOlderRef.current = true;
+        setLoadingOlder(true);
+        setError(null);
+
+        const contract = await getContract();
+        if (!contract) return;
+        // An empty indexed page disagrees with oldestPosition, the contract settles it
+        const indexed = threadsSupported ? (await readFromIndexer(contract, thread, oldest))?.page : undefined;
+        const start = Math.max(0, oldestPosition - (indexed?.length || MESSAGE_PAGE_SIZE));
+        const page = indexed?.length
+          ? indexed
+          : (threadsSupported
+            ? await readThreadRange(contract, address, thread, start, oldestPosition - start)
+            : await readMessagesRange(contract, address, start, oldestPosition - start));
+        if (activeThreadRef.current !== thread) return;
+        setMessages((prev) => [...page, ...prev.filter((msg) => msg.id >= oldest)]);
+        setOldestPosition(start);
+
+        if (password) await decryptMessages(page, password);
+      } catch (err) {
+        console.error("Failed to load older messages:", err);
+        setError(err instanceof Error ? err.message : "Failed to load older messages");
+        throw err;
+      } finally {
+        loadingOlderRef.current = false;
+        setLoadingOlder(false);
+      }
+    },
+    [address, messages, oldestPosition, threadsSupported, getContract, readFromIndexer, decryptMessages]
+  );
+
+  /**
+   * Show another thread: its newest page replaces the loaded messages
+   * @param password - Decrypt the page with this password, for a conversation that is shown decrypted
+   */
+  const selectThread = useCallback(
+    async (id: number, password?: string) => {
+      activeThreadRef.current = id;
+      setActiveThread(id);
+      setMessages([]);
+      setMessageCount(0);
+      setOldestPosition(0);
+
+      const page = await loadMessages();
+      if (password && page.length > 0 && activeThreadRef.current === id) await decryptMessages(page, password);
+    },
+    [loadMessages, decryptMessages]
+  );
+
+  /**
+   * Create a thread with an encrypted title
+   * @param ownKey - Encrypt the thread with its own key, derived from the vault data key
+   * @returns The id of the new thread
+   */
+  const createThread = useCallback(
+    async (title: string, ownKey: boolean, password: string): Promise<number> => {
+      if (!address) throw new Error("Not connected");
+      const name = normalizeTitle(title);
+      if (ownKey && !dataKeyParams) {
+        throw new Error("This vault has no data key to derive thread keys from. Create a recovery kit first.");
+      }
+
+      try {
+        setLoading(true);
+        setError(null);
+
+        const contract = await getContract();
+        const id = contract
+          ? ((await contract.getThreads(address)) as [unknown[]])[0].length + 1
+          : loadLocalThreads(address).length + 1;
+        const params = ownKey && dataKeyParams ? getThreadKeyParams(dataKeyParams, id) : getNextKeyParams();
+        const contextFor = await getContextBinder();
+        const encrypted = await getPool().encrypt(
+          encodeTitle(name),
+          getSession(password),
+          params,
+          getTitleEncryptOptions(contextFor(id))
+        );
+
+        const now = Math.floor(Date.now() / 1000);
+        if (contract) {
+          const tx = await contract.createThread("0x" + encrypted);
+          await tx.wait();
+        } else {
+          saveLocalThreads(address, [
+            ...loadLocalThreads(address),
+            { id, encryptedTitle: encrypted, createdAt: now, archived: false },
+          ]);
+        }
+
+        setThreads((prev) => [...prev, { ...toThread(id, encrypted, now, false, 0), title: name }]);
+        return id;
+      } catch (err) {
+        console.error("Failed to create thread:", err);
+        setError(err instanceof Error ? err.message : "Failed to create thread");
+        throw err;
+      } finally {
+        setLoading(false);
+      }
+    },
+    [address, dataKeyParams, getContract, getNextKeyParams, getContextBinder, getPool, getSession]
+  );
+
+  /**
+   * Replace the title of a thread, encrypted with the same kind of key as before
+   */
+  const renameThread = useCallback(
+    async (id: number, title: string, password: string) => {
+      if (!address) throw new Error("Not connected");
+      const name = normalizeTitle(title);
+
+      try {
+        setLoading(true);
+        setError(null);
+
+        const contextFor = await getContextBinder();
+        const encrypted = await getPool().encrypt(
+          encodeTitle(name),
+          getSession(password),
+          getThreadParams(id),
+          getTitleEncryptOptions(contextFor(id))
+        );
+
+        const contract = await getContract();
+        if (contract) {
+          const tx = await contract.renameThread(id, "0x" + encrypted);
+          await tx.wait();
+        } else {
+          saveLocalThreads(
+            address,
+            loadLocalThreads(address).map((thread) => (thread.id === id ? { ...thread, encryptedTitle: encrypted } : thread))
+          );
+        }
+
+        setThreads((prev) =>
+          prev.map((thread) => (thread.id === id ? { ...thread, encryptedTitle: encrypted, title: name } : thread))
+        );
+      } catch (err) {
+        console.error("Failed to rename thread:", err);
+        setError(err instanceof Error ? err.message : "Failed to rename thread");
+        throw err;
+      } finally {
+        setLoading(false);
+      }
+    },
+    [address, getContextBinder, getPool, getSession, getThreadParams, getContract]
+  );
+
+  /**
+   * Archive a thread, or restore an archived one. Archived threads take no new messages.
+   */
+  const setThreadArchived = useCallback(
+    async (id: number, archived: boolean) => {
+      if (!address) throw new Error("Not connected");
+
+      try {
+        setLoading(true);
+        setError(null);
+
+        const contract = await getContract();
+        if (contract) {
+          const tx = await contract.setThreadArchived(id, archived);
+          await tx.wait();
+        } else {
+          saveLocalThreads(
+            address,
+            loadLocalThreads(address).map((thread) => (thread.id === id ? { ...thread, archived } : thread))
+          );
+        }
+
+        setThreads((prev) => prev.map((thread) => (thread.id === id ? { ...thread, archived } : thread)));
+      } catch (err) {
+        console.error("Failed to archive thread:", err);
+        setError(err instanceof Error ? err.message : "Failed to archive thread");
+        throw err;
+      } finally {
+        setLoading(false);
+      }
+    },
+    [address, getContract]
+  );
+
+  /**
+   * Rewrite every message, revision, label and thread title not yet encrypted under `target`:
+   * decrypt with the old session, re-encrypt with the new one, then store with as few
+   * replaceMessages and setLabels transactions as the batch limits allow, one replaceRevisions per
+   * edited message and one renameThread per title. Everything is decrypted first, so nothing is
+   * written if a key is wrong, and what is already under `target` must open with the new session,
+   * so a resumed rotation can't switch to another new password. Thread keys derive from the data
+   * key, so their envelopes count as encrypted under it.
+   */
+  const reencryptMessages = useCallback(
+    async (contract: Contract | null, oldSession: VaultKeySession, newSession: VaultKeySession, target: VaultKeyParams) => {
+      if (!address) throw new Error("Not connected");
+
+      // Every message of the vault, not only the loaded pages
+      const all: LocalMessage[] = contract ? await readAllMessages(contract, address) : loadLocalMessages(address);
+      const threadList: LocalThread[] = contract
+        ? await contract.getThreads(address).then(
+            ([stored]: [{ title: string; createdAt: bigint; archived: boolean }[]]) =>
+              stored.map((thread, i) => ({
+                id: i + 1,
+                encryptedTitle: thread.title,
+                createdAt: Number(thread.createdAt),
+                archived: thread.archived,
+              })),
+            (err: unknown) => {
+              if (isMissingFunction(err)) return [];
+              throw err;
             }
-          })
+          )
+        : loadLocalThreads(address);
+      const targetId = getVaultKeyId(target);
+      const needsRewrite = (hex: string) => getVaultKeyId(getBaseKeyParams(getVaultKeyParams(hex))) !== targetId;
+      const live = all.filter((msg) => !msg.deleted);
+      const pending = live.filter((msg) => needsRewrite(msg.encryptedContent));
+      const pendingLabels = live.filter((msg) => msg.encryptedLabels && needsRewrite(msg.encryptedLabels));
+      const pendingTitles = threadList.filter((thread) => thread.encryptedTitle && needsRewrite(thread.encryptedTitle));
+      // Earlier versions of edited messages, rewritten per message since replaceRevisions takes them all
+      const revisionLists = await Promise.all(
+        live
+          .filter((msg) => (msg.revisionCount ?? 0) > 0)
+          .map(async (msg) => ({
+            id: msg.id,
+            revisions: contract
+              ? (
+                  (await contract.getRevisions(address, msg.id)) as { encryptedContent: string; replacedAt: bigint }[]
+                ).map((revision) => ({ encryptedContent: revision.encryptedContent, replacedAt: Number(revision.replacedAt) }))
+              : msg.revisions ?? [],
+          }))
+      );
+      const pendingRevisions = revisionLists.filter(({ revisions }) =>
+        revisions.some((revision) => needsRewrite(revision.encryptedContent))
+      );
+      const revisionTotal = pendingRevisions.reduce(
+        (sum, { revisions }) => sum + revisions.filter((revision) => needsRewrite(revision.encryptedContent)).length,
+        0
+      );
+      const total = pending.length + pendingLabels.length + pendingTitles.length + revisionTotal;
+      const pool = getPool();
+      const contextFor = await getContextBinder();
+
+      // A resumed rotation must go on with the key it started with, or what it already rewrote is lost
+      const alreadyRewritten = [
+        ...live
+          .filter((msg) => !needsRewrite(msg.encryptedContent))
+          .map((msg) => ({ hex: msg.encryptedContent, context: contextFor(msg.id) })),
+        ...threadList
+          .filter((thread) => thread.encryptedTitle && !needsRewrite(thread.encryptedTitle))
+          .map((thread) => ({ hex: thread.encryptedTitle!, context: getTitleContext(contextFor(thread.id)) })),
+      ][0];
+      if (alreadyRewritten) {
+        await pool.decrypt(alreadyRewritten.hex, newSession, alreadyRewritten.context).catch((err) => {
+          // A relocated envelope still opened, so the key is right
+          if (err instanceof ContextMismatchError) return;
+          throw new Error(
+            "Messages already re-encrypted don't open with this new password. Enter the one the interrupted change started with."
+          );
+        });
+      }
+      if (total === 0) return;
+
+      // Step 1: decrypt everything that still needs rewriting with the old key
+      let done = 0;
+      setRotationProgress({ phase: "decrypting", done, total });
+      const decryptOld = async (hex: string, context: MessageContext, what: string): Promise<DecryptedPayload> => {
+        try {
+          const payload = await pool.decrypt(hex, oldSession, context);
+          setRotationProgress({ phase: "decrypting", done: ++done, total });
+          return payload;
+        } catch (err) {
+          // Re-encrypting would give a relocated message a valid binding, so refuse
+          if (err instanceof ContextMismatchError) {
+            throw new Error(`${what} was tampered with or relocated and can't be re-encrypted`);
+          }
+          throw new Error(`${what} can't be decrypted with the current password`);
+        }
+      };
+      // A revision the old key doesn't open was already lost to an earlier key change, and stays as it is
+      const decryptRevision = async (hex: string, id: number): Promise<DecryptedPayload | null> => {
+        try {
+          return await pool.decrypt(hex, oldSession, contextFor(id));
+        } catch (err) {
+          console.warn(`[Rotation] A revision of message ${id} can't be decrypted and is kept as it is:`, err);
+          return null;
+        } finally {
+          setRotationProgress({ phase: "decrypting", done: ++done, total });
+        }
+      };
+      const [payloads, labelPayloads, titlePayloads, revisionPayloads] = await Promise.all([
+        Promise.all(pending.map((msg) => decryptOld(msg.encryptedContent, contextFor(msg.id), `Message ${msg.id}`))),
+        Promise.all(
+          pendingLabels.map((msg) =>
+            decryptOld(msg.encryptedLabels!, getLabelContext(contextFor(msg.id)), `Labels of message ${msg.id}`)
+          )
+        ),
+        Promise.all(
+          pendingTitles.map((thread) =>
+            decryptOld(thread.encryptedTitle!, getTitleContext(contextFor(thread.id)), `Title of thread ${thread.id}`)
+          )
+        ),
+        Promise.all(
+          pendingRevisions.map(({ id, revisions }) =>
+            Promise.all(
+              revisions.map((revision) =>
+                needsRewrite(revision.encryptedContent) ? decryptRevision(revision.encryptedContent, id) : null
+              )
+            )
+          )
+        ),
+      ]);
+      // Padded messages and revisions keep their bucket and hidden response flag
+      const reencrypt = (payload: DecryptedPayload, id: number, hex: string) =>
+        pool.encrypt(payload.text, newSession, target, getRewriteOptions(payload, hex, contextFor(id)));
+      const encrypted = await Promise.all(
+        payloads.map((payload, i) => reencrypt(payload, pending[i].id, pending[i].encryptedContent))
+      );
+      // Every revision of each message, with the ones that weren't rewritten unchanged
+      const encryptedRevisions = await Promise.all(
+        pendingRevisions.map(({ id, revisions }, i) =>
+          Promise.all(
+            revisions.map(async (revision, j) => {
+              const payload = revisionPayloads[i][j];
+              return payload
+                ? await reencrypt(payload, id, revision.encryptedContent)
+                : revision.encryptedContent.replace(/^0x/, "");
+            })
+          )
+        )
+      );
+      const encryptedLabels = await Promise.all(
+        labelPayloads.map(({ text }, i) =>
+          pool.encrypt(text, newSession, target, getLabelEncryptOptions(contextFor(pendingLabels[i].id)))
+        )
+      );
+      const encryptedTitles = await Promise.all(
+        titlePayloads.map(({ text }, i) =>
+          pool.encrypt(text, newSession, target, getTitleEncryptOptions(contextFor(pendingTitles[i].id)))
+        )
+      );
+
+      // Step 2: write the new ciphertexts
+      if (contract) {
+        done = 0;
+        setRotationProgress({ phase: "writing", done, total });
+        const writeBatches = async (
+          ids: number[],
+          hexes: string[],
+          write: (ids: number[], contents: string[]) => Promise<{ wait: () => Promise<unknown> }>
+        ) => {
+          let start = 0;
+          while (start < ids.length) {
+            let end = start;
+            let bytes = 0;
+            while (end < ids.length && end - start < ROTATION_BATCH_SIZE) {
+              bytes += hexes[end].length / 2;
+              if (end > start && bytes > ROTATION_BATCH_BYTES) break;
+              end++;
+            }
+
+            const tx = await write(
+              ids.slice(start, end),
+              hexes.slice(start, end).map((hex) => "0x" + hex)
+            );
+            await tx.wait();
+            done += end - start;
+            start = end;
+            setRotationProgress({ phase: "writing", done, total });
+          }
+        };
+        await writeBatches(
+          pending.map((msg) => msg.id),
+          encrypted,
+          (ids, contents) => contract.replaceMessages(ids, contents)
+        );
+        await writeBatches(
+          pendingLabels.map((msg) => msg.id),
+          encryptedLabels,
+          (ids, contents) => contract.setLabels(ids, contents)
+        );
+        for (const [i, thread] of pendingTitles.entries()) {
+          const tx = await contract.renameThread(thread.id, "0x" + encryptedTitles[i]);
+          await tx.wait();
+          setRotationProgress({ phase: "writing", done: ++done, total });
+        }
+        for (const [i, { id }] of pendingRevisions.entries()) {
+          const rewrittenCount = revisionPayloads[i].filter((payload) => payload !== null).length;
+          if (rewrittenCount === 0) continue;
+          const tx = await contract.replaceRevisions(id, encryptedRevisions[i].map((hex) => "0x" + hex));
+          await tx.wait();
+          done += rewrittenCount;
+          setRotationProgress({ phase: "writing", done, total });
+        }
+      }
+
+      const rewritten = new Map(pending.map((msg, i) => [msg.id, { content: encrypted[i], text: payloads[i].text }]));
+      const relabeled = new Map(
+        pendingLabels.map((msg, i) => [msg.id, { labels: encryptedLabels[i], names: decodeLabels(labelPayloads[i].text) }])
+      );
+      const rewrite = <T extends Message>(msg: T): T => {
+        const entry = rewritten.get(msg.id);
+        const labelEntry = relabeled.get(msg.id);
+        return {
+          ...msg,
+          ...(entry && { encryptedContent: entry.content, decryptedText: entry.text }),
+          ...(labelEntry && { encryptedLabels: labelEntry.labels, labels: labelEntry.names }),
+        };
+      };
+      const retitled = new Map(
+        pendingTitles.map((thread, i) => [thread.id, { title: encryptedTitles[i], name: decodeTitle(titlePayloads[i].text) }])
+      );
+      setMessages((prev) => prev.map(rewrite));
+      setThreads((prev) =>
+        prev.map((thread) => {
+          const entry = retitled.get(thread.id);
+          return entry ? { ...thread, encryptedTitle: entry.title, title: entry.name } : thread;
+        })
+      );
+      if (!contract) {
+        const revised = new Map(
+          pendingRevisions.map(({ id, revisions }, i) => [
+            id,
+            revisions.map((revision, j) => ({ ...revision, encryptedContent: encryptedRevisions[i][j] })),
+          ])
+        );
+        saveLocalMessages(
+          address,
+          all.map((msg) => ({ ...rewrite(msg), ...(revised.has(msg.id) && { revisions: revised.get(msg.id) }) }))
+        );
+        saveLocalThreads(
+          address,
+          threadList.map((thread) => ({ ...thread, encryptedTitle: retitled.get(thread.id)?.title ?? thread.encryptedTitle }))
         );
+      }
+    },
+    [address, getPool, getContextBinder]
+  );
+
+  /**
+   * Move the vault to a new password.
+   * Keyring vaults only wrap their data key again. Older vaults re-encrypt every message, and an
+   * interrupted rotation resumes with the same target settings and skips rewritten messages.
+   * @param oldPassword - Current password (or wallet key secret)
+   * @param newPassword - New password
+   * @param kdf - KDF for the new key; defaults to the vault's current password KDF
+   */
+  const rotateKey = useCallback(
+    async (oldPassword: string, newPassword: string, kdf?: KdfParams) => {
+      if (!address) throw new Error("Not connected");
+
+      const oldSession = new VaultKeySession(oldPassword);
+      const newSession = new VaultKeySession(newPassword);
+
+      try {
+        setLoading(true);
+        setError(null);
+
+        // An empty vault has nothing to decrypt, so the key check is the only proof of the old secret
+        const contract = await getContract();
+        const currentCheck = await readKeyCheck(contract);
+        const entries = currentCheck ? decodeKeyring(currentCheck) : null;
+        if (currentCheck) {
+          // A rotation interrupted after its last step already stored the key check under the new password
+          const resumed = entries ? null : loadRotationTarget(address);
+          const finished = resumed !== null && getVaultKeyId(getVaultKeyParams(currentCheck)) === getVaultKeyId(resumed);
+          if (finished && !(await openKeyCheck(currentCheck, newSession, "password"))) {
+            throw new Error("The new password isn't the one the interrupted change started with");
+          }
+          if (!finished && !(await openKeyCheck(currentCheck, oldSession, keyMode))) {
+            throw new Error("The current password is wrong");
+          }
+        }
+
+        const dataKey = oldSession.getDataKey();
+        let newKdf: KdfParams;
+        if (entries && dataKey) {
+          const unlockParams = getVaultKeyParams(getKeyringEntries(entries).unlock ?? "");
+          const params = createVaultKeyParams(
+            kdf ?? kdfOverride ?? (unlockParams && !isWalletKdf(unlockParams.kdf) ? unlockParams.kdf : undefined)
+          );
+          newSession.addDataKey(dataKey);
+
+          // Only messages left over from an interrupted recovery kit upgrade need rewriting
+          await reencryptMessages(contract, oldSession, newSession, getDataKeyParams(dataKey));
+
+          const { recovery } = getKeyringEntries(entries);
+          const newEntry = await wrapForSession(dataKey, newSession, params);
+          await storeKeyCheck(contract, encodeKeyring(recovery ? [newEntry, recovery] : [newEntry]));
+          newKdf = params.kdf;
+        } else {
+          let target = loadRotationTarget(address);
+          if (!target) {
+            const currentKdf =
+              kdfOverride ?? (vaultKeyParams && !isWalletKdf(vaultKeyParams.kdf) ? vaultKeyParams.kdf : undefined);
+            target = createVaultKeyParams(kdf ?? currentKdf);
+            saveRotationTarget(address, target);
+            setPendingRotation(true);
+          }
+
+          await reencryptMessages(contract, oldSession, newSession, target);
 
-        setMessages(decryptedMessages);
+          // Last, so an interrupted rotation still unlocks with the old password
+          await storeKeyCheck(
+            contract,
+            await createKeyCheck(await newSession.getKey(target), target, await getVaultContext())
+          );
+          saveRotationTarget(address, null);
+          setPendingRotation(false);
+          newKdf = target.kdf;
+        }
+
+        setKdfOverride(newKdf);
+        setKeyMode("password");
+
+        // Keep the new key for the rest of the session
+        sessionRef.current?.clear();
+        sessionRef.current = newSession;
       } catch (err) {
-        console.error("Failed to decrypt:", err);
-        setError(err instanceof Error ? err.message : "Decryption failed");
+        newSession.clear();
+        console.error("Failed to rotate key:", err);
+        setError(err instanceof Error ? err.message : "Key rotation failed");
+        throw err;
+      } finally {
+        oldSession.clear();
+        setRotationProgress(null);
+        setLoading(false);
+      }
+    },
+    [
+      address,
+      vaultKeyParams,
+      kdfOverride,
+      keyMode,
+      getContract,
+      getVaultContext,
+      readKeyCheck,
+      storeKeyCheck,
+      openKeyCheck,
+      wrapForSession,
+      reencryptMessages,
+    ]
+  );
+
+  /**
+   * Store a recovery kit for the unlocked vault. Vaults without a keyring get a data key, and
+   * their messages are re-encrypted under it so the recovery phrase opens them too. An
+   * existing kit is replaced and its phrase stops working.
+   * @param secret - Current password (or wallet key secret)
+   * @param recoveryPhrase - Phrase of the kit shown to the user
+   */
+  const createRecoveryKit = useCallback(
+    async (secret: string, recoveryPhrase: string) => {
+      if (!address) throw new Error("Not connected");
+      if (loadRotationTarget(address)) throw new Error("Finish the interrupted password change first");
+
+      try {
+        setLoading(true);
+        setError(null);
+
+        const contract = await getContract();
+        const session = getSession(secret);
+        const value = await readKeyCheck(contract);
+        const entries = value ? decodeKeyring(value) : null;
+
+        if (entries) {
+          const dataKey = session.getDataKey();
+          const { unlock } = getKeyringEntries(entries);
+          if (!dataKey || !unlock) throw new Error("Unlock the vault before creating a recovery kit");
+          await storeKeyCheck(contract, encodeKeyring([unlock, await wrapForRecovery(dataKey, recoveryPhrase)]));
+          return;
+        }
+
+        const dataKey = createDataKey();
+        const params = createVaultKeyParams(
+          keyMode === "wallet"
+            ? WALLET_KEY_KDF
+            : kdfOverride ?? (vaultKeyParams && !isWalletKdf(vaultKeyParams.kdf) ? vaultKeyParams.kdf : undefined)
+        );
+        const unlockEntry = await wrapForSession(dataKey, session, params);
+        await storeKeyCheck(contract, encodeKeyring([unlockEntry, await wrapForRecovery(dataKey, recoveryPhrase)]));
+        session.addDataKey(dataKey);
+        setDataKeyParams(getDataKeyParams(dataKey));
+
+        // Older messages move to the data key; if interrupted, the next password change finishes it
+        await reencryptMessages(contract, session, session, getDataKeyParams(dataKey));
+      } catch (err) {
+        console.error("Failed to create recovery kit:", err);
+        setError(err instanceof Error ? err.message : "Failed to create recovery kit");
         throw err;
       } finally {
+        setRotationProgress(null);
         setLoading(false);
       }
     },
-    [messages, getContract]
+    [
+      address,
+      keyMode,
+      kdfOverride,
+      vaultKeyParams,
+      getContract,
+      getSession,
+      readKeyCheck,
+      storeKeyCheck,
+      wrapForSession,
+      wrapForRecovery,
+      reencryptMessages,
+    ]
   );
 
+  /**
+   * Estimate the exact gas of storing a padded message of each bucket size, for the current vault.
+   * Empty in demo mode.
+   */
+  const estimateBucketCosts = useCallback(async (): Promise<BucketCost[]> => {
+    const contract = await getContract();
+    if (!contract) return [];
+
+    const feeData = await contract.runner?.provider?.getFeeData();
+    const feePerGas = feeData?.maxFeePerGas ?? feeData?.gasPrice ?? null;
+
+    // Random bytes, since calldata gas depends on the number of zero bytes
+    return Promise.all(
+      PADDING_BUCKETS.map(async (size) => {
+        const content = "0x" + bytesToHex(crypto.getRandomValues(new Uint8Array(size)));
+        const gas: bigint = await contract.storeMessage.estimateGas(content);
+        return { size, gas, fee: feePerGas === null ? null : gas * feePerGas };
+      })
+    );
+  }, [getContract]);
+
+  /**
+   * Sign the wallet key payload and return the secret used in place of a password.
+   * The first time for an address the payload is signed twice: wallets that don't
+   * produce deterministic signatures can't re-derive the key, so they are reported.
+   */
+  const deriveWalletSecret = useCallback(async (): Promise<{ secret: string; deterministic: boolean }> => {
+    if (!walletClient || !address || !chainId) throw new Error("Not connected");
+
+    const vaultAddress = ((await getContractAddress(chainId)) ?? ZeroAddress) as `0x${string}`;
+    const typedData = buildWalletKeyTypedData(chainId, vaultAddress, address);
+    const sign = () => walletClient.signTypedData({ account: address, ...typedData });
+
+    const signature = await sign();
+
+    const checkedKey = `whisperlink-wallet-deterministic-${address}`;
+    let deterministic = localStorage.getItem(checkedKey) === "1";
+    if (!deterministic) {
+      deterministic = walletSignatureToSecret(await sign()) === walletSignatureToSecret(signature);
+      if (deterministic) localStorage.setItem(checkedKey, "1");
+    }
+
+    return { secret: walletSignatureToSecret(signature), deterministic };
+  }, [walletClient, address, chainId]);
+
   // Clear all messages
   const clearMessages = useCallback(async () => {
     if (!address) return;
@@ -324,6 +2569,9 @@ export function useWhisperVault() {
       }
 
       setMessages([]);
+      setMessageCount(0);
+      setOldestPosition(0);
+      setThreads((prev) => prev.map((thread) => ({ ...thread, messageCount: 0 })));
       localStorage.removeItem(`whisperlink-${address}`);
     } catch (err) {
       console.error("Failed to clear messages:", err);
@@ -335,14 +2583,64 @@ export function useWhisperVault() {
 
   return {
     messages,
+    messageCount,
+    // Number of messages of the active thread older than the loaded pages
+    olderMessageCount: oldestPosition,
+    hasOlderMessages: oldestPosition > 0,
+    threads,
+    activeThread,
+    threadsSupported,
+    liveStatus,
+    loadingOlder,
     loading,
     error,
+    decryptProgress,
+    rotationProgress,
+    pendingRotation,
     isConnected,
     address,
     chainId,
+    vaultKdf:
+      keyMode === "wallet"
+        ? WALLET_KEY_KDF
+        : kdfOverride ?? (modeParams && !isWalletKdf(modeParams.kdf) ? modeParams.kdf : null),
+    setVaultKdf: setKdfOverride,
+    keyMode,
+    setKeyMode,
+    // Mode of the vault's keyring, or of its newest envelope; null until it holds v1 messages
+    vaultKeyMode: modeParams ? ((isWalletKdf(modeParams.kdf) ? "wallet" : "password") as VaultKeyMode) : null,
+    hasRecoveryKit: !!keyring?.recovery,
+    deriveWalletSecret,
+    measureMessage,
+    getVaultStatus,
+    setupVault,
+    unlockVault,
+    recoverVault,
+    restoreVault,
+    getDataKey,
+    createRecoveryKit,
+    privacyMode,
+    setPrivacyMode,
+    // Whether sends go through the relayer (when one is available) instead of wallet transactions
+    relayEnabled,
+    setRelayEnabled,
+    relayerAvailable,
+    estimateBucketCosts,
     loadMessages,
+    loadOlderMessages,
+    loadThreads,
+    selectThread,
+    createThread,
+    renameThread,
+    setThreadArchived,
     sendMessage,
+    editMessage,
+    deleteMessage,
+    getMessageHistory,
+    setMessageLabels,
     decryptAllMessages,
     clearMessages,
+    rotateKey,
+    lock,
   };
 }
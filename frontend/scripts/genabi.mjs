@@ -124,6 +124,17 @@ export const ${CONTRACT_NAME}Addresses = {
 };
 `;
 
+// Contracts deployed next to WhisperVault, only listed in deployments.json
+const EXTRA_CONTRACT_NAMES = ["GuardianRegistry", "GroupRegistry", "ChannelRegistry", "MessageFlags", "VaultKeyEscrow", "MessageGrants"];
+
+function readAddress(chainName, chainId, contractName) {
+  const file = path.join(deploymentsDir, chainName, `${contractName}.json`);
+  if (!fs.existsSync(file)) {
+    return "0x0000000000000000000000000000000000000000";
+  }
+  return JSON.parse(fs.readFileSync(file, "utf-8")).address;
+}
+
 // Generate dynamic deployments.json for runtime fetching
 const deploymentsJson = {
   [CONTRACT_NAME]: {
@@ -131,6 +142,12 @@ const deploymentsJson = {
     "11155111": { address: deploySepolia.address, chainId: 11155111, chainName: "sepolia" },
   }
 };
+for (const name of EXTRA_CONTRACT_NAMES) {
+  deploymentsJson[name] = {
+    "31337": { address: readAddress("localhost", 31337, name), chainId: 31337, chainName: "hardhat" },
+    "11155111": { address: readAddress("sepolia", 11155111, name), chainId: 11155111, chainName: "sepolia" },
+  };
+}
 
 const publicDir = path.resolve("./public");
 if (!fs.existsSync(publicDir)) {
@@ -12,7 +12,15 @@ import "dotenv/config";
 import "solidity-coverage";
 
 import "./tasks/accounts";
+import "./tasks/ChannelRegistry";
 import "./tasks/FHECounter";
+import "./tasks/GroupRegistry";
+import "./tasks/GuardianRegistry";
+import "./tasks/Indexer";
+import "./tasks/MessageFlags";
+import "./tasks/MessageGrants";
+import "./tasks/Relayer";
+import "./tasks/VaultKeyEscrow";
 import "./tasks/WhisperVault";
 
 // Run 'npx hardhat vars setup' to see the list of variables that need to be set
@@ -0,0 +1,353 @@
+import { task } from "hardhat/config";
+import type { HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
+import {
+  decryptChannelName,
+  decryptChannelPost,
+  encryptChannelName,
+  encryptChannelPost,
+  generateChannelKey,
+  unwrapChannelKey,
+  wrapChannelKey,
+} from "../frontend/crypto/channels";
+import { buildMessagingKeyTypedData, deriveMessagingKeyPair } from "../frontend/crypto/direct";
+import type { ChannelRegistry } from "../types";
+
+/**
+ * Tutorial: Broadcast channels on a local node (--network localhost)
+ * ==================================================================
+ *
+ * 1. The publisher and every reader publish a messaging key first (see whisper:dm-key):
+ *
+ *   npx hardhat --network localhost whisper:dm-key --signer 0
+ *   npx hardhat --network localhost whisper:dm-key --signer 1
+ *
+ * 2. Create a channel, let a reader ask for access and approve them; approving replaces the key
+ *
+ *   npx hardhat --network localhost channel:create --name "Announcements"
+ *   npx hardhat --network localhost channel:request --channel 1 --signer 1
+ *   npx hardhat --network localhost channel:approve --channel 1 --accounts <address of signer 1>
+ *
+ * 3. Post, read, and remove a reader, who can't read later posts
+ *
+ *   npx hardhat --network localhost channel:post --channel 1 --message "Hello subscribers"
+ *   npx hardhat --network localhost channel:read --channel 1 --signer 1
+ *   npx hardhat --network localhost channel:remove --channel 1 --subscriber <address of signer 1>
+ *
+ * After a subscriber unsubscribes, the publisher replaces the key with channel:rekey before posting.
+ * --signer picks an account from `npx hardhat accounts` by index (0 by default).
+ */
+
+async function getRegistry(hre: HardhatRuntimeEnvironment, taskArguments: TaskArguments) {
+  const { ethers, deployments } = hre;
+
+  const ChannelRegistryDeployment = taskArguments.address
+    ? { address: taskArguments.address }
+    : await deployments.get("ChannelRegistry");
+  console.log(`ChannelRegistry: ${ChannelRegistryDeployment.address}`);
+
+  const signers = await ethers.getSigners();
+  const signer = signers[parseInt(taskArguments.signer ?? "0")];
+  if (!signer) {
+    throw new Error(`No signer at index ${taskArguments.signer}`);
+  }
+
+  const registry = await ethers.getContractAt("ChannelRegistry", ChannelRegistryDeployment.address);
+  const vault = await ethers.getContractAt("WhisperVault", await registry.vault());
+  const { chainId } = await ethers.provider.getNetwork();
+  return {
+    registry: registry.connect(signer),
+    registryAddress: ChannelRegistryDeployment.address,
+    vault,
+    signer,
+    chainId: Number(chainId),
+  };
+}
+
+type Registry = Awaited<ReturnType<typeof getRegistry>>;
+
+const STATUSES = ["none", "pending", "subscriber", "publisher"];
+
+async function signMessagingKeyPair({ vault, signer, chainId }: Registry) {
+  const { domain, types, message } = buildMessagingKeyTypedData(
+    chainId,
+    (await vault.getAddress()) as `0x${string}`,
+    signer.address as `0x${string}`,
+  );
+  return deriveMessagingKeyPair(await signer.signTypedData(domain, { MessagingKey: [...types.MessagingKey] }, message));
+}
+
+async function readMessagingKeys({ vault }: Registry, accounts: string[]) {
+  return Promise.all(
+    accounts.map(async (account) => {
+      const messagingKey = await vault.getMessagingKey(account);
+      if (messagingKey === "0x" + "00".repeat(32)) {
+        throw new Error(`${account} hasn't published a messaging key yet, see whisper:dm-key`);
+      }
+      return { address: account, messagingKey };
+    }),
+  );
+}
+
+async function sendAndWait(tx: Awaited<ReturnType<ChannelRegistry["publish"]>>) {
+  console.log(`Wait for tx:${tx.hash}...`);
+  const receipt = await tx.wait();
+  console.log(`tx:${tx.hash} status=${receipt?.status}`);
+}
+
+/**
+ * Approve requests and remove subscribers under a new channel key, wrapped to the publisher and
+ * then to the subscribers in the order the registry will list them
+ */
+async function rekey(context: Registry, channelId: number, approved: string[], removed: string[]) {
+  const { registry, registryAddress, signer, chainId } = context;
+  const [channel] = await registry.getChannel(channelId);
+  const epoch = Number(channel.epoch);
+  const keyPair = await signMessagingKeyPair(context);
+  const channelKey = await unwrapChannelKey(
+    await registry.getWrappedKey(channelId, epoch, signer.address),
+    keyPair,
+    signer.address,
+    { chainId, registry: registryAddress, epoch },
+  );
+  keyPair.privateKey.fill(0);
+  if (!channelKey) {
+    throw new Error(`${signer.address} doesn't hold the current key of channel ${channelId}`);
+  }
+  const name = await decryptChannelName(channel.name, channelKey, { chainId, registry: registryAddress, epoch });
+  channelKey.fill(0);
+  if (name === null) {
+    throw new Error("The channel's name doesn't decrypt with its key");
+  }
+
+  const subscribers = await registry.getSubscribers(channelId);
+  const resulting = [...subscribers.filter((subscriber) => !removed.includes(subscriber)), ...approved];
+  const newKey = generateChannelKey();
+  const newContext = { chainId, registry: registryAddress, epoch: epoch + 1 };
+  const wrappedKeys = await wrapChannelKey(
+    newKey,
+    await readMessagingKeys(context, [signer.address, ...resulting]),
+    newContext,
+  );
+  const encryptedName = await encryptChannelName(name, newKey, newContext);
+  newKey.fill(0);
+
+  await sendAndWait(await registry.updateSubscribers(channelId, approved, removed, encryptedName, wrappedKeys));
+  console.log(`Channel ${channelId} is at key epoch ${epoch + 1} with ${resulting.length} subscribers`);
+}
+
+async function printChannel(registry: ChannelRegistry, channelId: number) {
+  const [[channel, postCount], subscribers, requests] = await Promise.all([
+    registry.getChannel(channelId),
+    registry.getSubscribers(channelId),
+    registry.getRequests(channelId),
+  ]);
+  console.log(
+    `Channel ${channelId}: publisher=${channel.publisher} epoch=${channel.epoch} posts=${postCount}${channel.rekeyNeeded ? " (key rotation pending)" : ""}`,
+  );
+  subscribers.forEach((subscriber) => console.log(`  ${subscriber}`));
+  requests.forEach((account) => console.log(`  ${account} (pending)`));
+}
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost channel:create --name "Announcements"
+ */
+task("channel:create", "Creates a channel published by the signer")
+  .addOptionalParam("address", "Optionally specify the ChannelRegistry contract address")
+  .addOptionalParam("signer", "Index of the publishing account", "0")
+  .addParam("name", "The channel name")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const context = await getRegistry(hre, taskArguments);
+    const { registry, registryAddress, signer, chainId } = context;
+
+    const channelKey = generateChannelKey();
+    const channelContext = { chainId, registry: registryAddress, epoch: 1 };
+    const [wrappedKey] = await wrapChannelKey(
+      channelKey,
+      await readMessagingKeys(context, [signer.address]),
+      channelContext,
+    );
+    const encryptedName = await encryptChannelName(taskArguments.name, channelKey, channelContext);
+    channelKey.fill(0);
+
+    await sendAndWait(await registry.createChannel(encryptedName, wrappedKey));
+    await printChannel(registry, Number(await registry.getChannelCount()));
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost channel:list --signer 1
+ */
+task("channel:list", "Lists the channels an account publishes, reads or asked to read")
+  .addOptionalParam("address", "Optionally specify the ChannelRegistry contract address")
+  .addOptionalParam("signer", "Index of the account", "0")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { registry, signer } = await getRegistry(hre, taskArguments);
+
+    const [channelIds, statuses] = await registry.getChannelsOf(signer.address);
+    console.log(`${signer.address} is in ${channelIds.length} channels`);
+    for (const [i, channelId] of channelIds.entries()) {
+      console.log(`[${STATUSES[Number(statuses[i])]}]`);
+      await printChannel(registry, Number(channelId));
+    }
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost channel:request --channel 1 --signer 1
+ */
+task("channel:request", "Asks the publisher of a channel for access")
+  .addOptionalParam("address", "Optionally specify the ChannelRegistry contract address")
+  .addOptionalParam("signer", "Index of the requesting account", "0")
+  .addParam("channel", "The channel id")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { registry } = await getRegistry(hre, taskArguments);
+    await sendAndWait(await registry.requestSubscription(parseInt(taskArguments.channel)));
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost channel:approve --channel 1 --accounts 0x..,0x..
+ */
+task("channel:approve", "Approves requests to a channel under a new channel key")
+  .addOptionalParam("address", "Optionally specify the ChannelRegistry contract address")
+  .addOptionalParam("signer", "Index of the publishing account", "0")
+  .addParam("channel", "The channel id")
+  .addParam("accounts", "Comma-separated addresses with a pending request")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const context = await getRegistry(hre, taskArguments);
+    const approved = (taskArguments.accounts as string)
+      .split(",")
+      .map((account) => hre.ethers.getAddress(account.trim()));
+    await rekey(context, parseInt(taskArguments.channel), approved, []);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost channel:reject --channel 1 --accounts 0x..
+ */
+task("channel:reject", "Rejects requests to a channel")
+  .addOptionalParam("address", "Optionally specify the ChannelRegistry contract address")
+  .addOptionalParam("signer", "Index of the publishing account", "0")
+  .addParam("channel", "The channel id")
+  .addParam("accounts", "Comma-separated addresses with a pending request")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { registry } = await getRegistry(hre, taskArguments);
+    const rejected = (taskArguments.accounts as string)
+      .split(",")
+      .map((account) => hre.ethers.getAddress(account.trim()));
+    await sendAndWait(await registry.rejectRequests(parseInt(taskArguments.channel), rejected));
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost channel:remove --channel 1 --subscriber 0x...
+ */
+task("channel:remove", "Removes a subscriber from a channel under a new channel key")
+  .addOptionalParam("address", "Optionally specify the ChannelRegistry contract address")
+  .addOptionalParam("signer", "Index of the publishing account", "0")
+  .addParam("channel", "The channel id")
+  .addParam("subscriber", "The subscriber to remove")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const context = await getRegistry(hre, taskArguments);
+    await rekey(context, parseInt(taskArguments.channel), [], [hre.ethers.getAddress(taskArguments.subscriber)]);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost channel:rekey --channel 1
+ */
+task("channel:rekey", "Replaces the key of a channel, e.g. after a subscriber left")
+  .addOptionalParam("address", "Optionally specify the ChannelRegistry contract address")
+  .addOptionalParam("signer", "Index of the publishing account", "0")
+  .addParam("channel", "The channel id")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const context = await getRegistry(hre, taskArguments);
+    await rekey(context, parseInt(taskArguments.channel), [], []);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost channel:unsubscribe --channel 1 --signer 1
+ */
+task("channel:unsubscribe", "Stops reading a channel")
+  .addOptionalParam("address", "Optionally specify the ChannelRegistry contract address")
+  .addOptionalParam("signer", "Index of the subscribed account", "0")
+  .addParam("channel", "The channel id")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { registry } = await getRegistry(hre, taskArguments);
+    await sendAndWait(await registry.unsubscribe(parseInt(taskArguments.channel)));
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost channel:post --channel 1 --message "Hello subscribers"
+ */
+task("channel:post", "Publishes a post to a channel")
+  .addOptionalParam("address", "Optionally specify the ChannelRegistry contract address")
+  .addOptionalParam("signer", "Index of the publishing account", "0")
+  .addParam("channel", "The channel id")
+  .addParam("message", "The post to encrypt and publish")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const context = await getRegistry(hre, taskArguments);
+    const { registry, registryAddress, signer, chainId } = context;
+    const channelId = parseInt(taskArguments.channel);
+
+    const [channel] = await registry.getChannel(channelId);
+    const channelContext = { chainId, registry: registryAddress, epoch: Number(channel.epoch) };
+    const keyPair = await signMessagingKeyPair(context);
+    const channelKey = await unwrapChannelKey(
+      await registry.getWrappedKey(channelId, channel.epoch, signer.address),
+      keyPair,
+      signer.address,
+      channelContext,
+    );
+    keyPair.privateKey.fill(0);
+    if (!channelKey) {
+      throw new Error(`${signer.address} doesn't hold the current key of channel ${channelId}`);
+    }
+    const encrypted = await encryptChannelPost(taskArguments.message, channelKey, channelContext);
+    channelKey.fill(0);
+
+    await sendAndWait(await registry.publish(channelId, encrypted));
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost channel:read --channel 1 --signer 1 --limit 20
+ */
+task("channel:read", "Decrypts the newest posts of a channel")
+  .addOptionalParam("address", "Optionally specify the ChannelRegistry contract address")
+  .addOptionalParam("signer", "Index of the reading account", "0")
+  .addParam("channel", "The channel id")
+  .addOptionalParam("limit", "Maximum number of posts", "20")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const context = await getRegistry(hre, taskArguments);
+    const { registry, registryAddress, signer, chainId } = context;
+    const channelId = parseInt(taskArguments.channel);
+
+    const [page, total] = await registry.getLatestPosts(channelId, 0, parseInt(taskArguments.limit));
+    console.log(`Channel ${channelId} has ${total} posts`);
+    const keyPair = await signMessagingKeyPair(context);
+    const channelKeys = new Map<number, Awaited<ReturnType<typeof unwrapChannelKey>>>();
+
+    for (const [i, post] of [...page].reverse().entries()) {
+      const epoch = Number(post.epoch);
+      const channelContext = { chainId, registry: registryAddress, epoch };
+      if (!channelKeys.has(epoch)) {
+        const wrapped = await registry.getWrappedKey(channelId, epoch, signer.address);
+        channelKeys.set(
+          epoch,
+          wrapped === "0x" ? null : await unwrapChannelKey(wrapped, keyPair, signer.address, channelContext),
+        );
+      }
+      const channelKey = channelKeys.get(epoch);
+      const text = channelKey
+        ? await decryptChannelPost(post.encryptedContent, channelKey, channelContext)
+        : "(posted before you were approved)";
+      const position = Number(total) - page.length + i;
+      console.log(`[${position}] ${new Date(Number(post.timestamp) * 1000).toISOString()}: ${text ?? "(unreadable)"}`);
+    }
+    keyPair.privateKey.fill(0);
+    channelKeys.forEach((channelKey) => channelKey?.fill(0));
+  });
@@ -0,0 +1,330 @@
+import { task } from "hardhat/config";
+import type { HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
+import { buildMessagingKeyTypedData, deriveMessagingKeyPair } from "../frontend/crypto/direct";
+import {
+  decryptGroupMessage,
+  decryptGroupName,
+  encryptGroupMessage,
+  encryptGroupName,
+  generateGroupKey,
+  unwrapGroupKey,
+  wrapGroupKey,
+} from "../frontend/crypto/groups";
+import type { GroupRegistry } from "../types";
+
+/**
+ * Tutorial: Group conversations on a local node (--network localhost)
+ * ===================================================================
+ *
+ * 1. Every member publishes a messaging key first (see whisper:dm-key):
+ *
+ *   npx hardhat --network localhost whisper:dm-key --signer 0
+ *   npx hardhat --network localhost whisper:dm-key --signer 1
+ *   npx hardhat --network localhost whisper:dm-key --signer 2
+ *
+ * 2. Create a group, talk, and change its members; every change replaces the group key
+ *
+ *   npx hardhat --network localhost group:create --name "Team" --members <address of signer 1>
+ *   npx hardhat --network localhost group:send --group 1 --message "Hello team"
+ *   npx hardhat --network localhost group:invite --group 1 --members <address of signer 2>
+ *   npx hardhat --network localhost group:read --group 1 --signer 2
+ *   npx hardhat --network localhost group:remove --group 1 --member <address of signer 1>
+ *
+ * 3. After a member leaves, an admin replaces the key before anyone writes again
+ *
+ *   npx hardhat --network localhost group:leave --group 1 --signer 2
+ *   npx hardhat --network localhost group:rekey --group 1
+ *
+ * --signer picks an account from `npx hardhat accounts` by index (0 by default). Keys are
+ * derived from EIP-712 signatures exactly like the frontend does it, so a member can use either.
+ */
+
+async function getRegistry(hre: HardhatRuntimeEnvironment, taskArguments: TaskArguments) {
+  const { ethers, deployments } = hre;
+
+  const GroupRegistryDeployment = taskArguments.address
+    ? { address: taskArguments.address }
+    : await deployments.get("GroupRegistry");
+  console.log(`GroupRegistry: ${GroupRegistryDeployment.address}`);
+
+  const signers = await ethers.getSigners();
+  const signer = signers[parseInt(taskArguments.signer ?? "0")];
+  if (!signer) {
+    throw new Error(`No signer at index ${taskArguments.signer}`);
+  }
+
+  const registry = await ethers.getContractAt("GroupRegistry", GroupRegistryDeployment.address);
+  const vault = await ethers.getContractAt("WhisperVault", await registry.vault());
+  const { chainId } = await ethers.provider.getNetwork();
+  return {
+    registry: registry.connect(signer),
+    registryAddress: GroupRegistryDeployment.address,
+    vault,
+    signer,
+    chainId: Number(chainId),
+  };
+}
+
+type Registry = Awaited<ReturnType<typeof getRegistry>>;
+
+async function signMessagingKeyPair({ vault, signer, chainId }: Registry) {
+  const { domain, types, message } = buildMessagingKeyTypedData(
+    chainId,
+    (await vault.getAddress()) as `0x${string}`,
+    signer.address as `0x${string}`,
+  );
+  return deriveMessagingKeyPair(await signer.signTypedData(domain, { MessagingKey: [...types.MessagingKey] }, message));
+}
+
+async function readMessagingKeys({ vault }: Registry, accounts: string[]) {
+  return Promise.all(
+    accounts.map(async (account) => {
+      const messagingKey = await vault.getMessagingKey(account);
+      if (messagingKey === "0x" + "00".repeat(32)) {
+        throw new Error(`${account} hasn't published a messaging key yet, see whisper:dm-key`);
+      }
+      return { address: account, messagingKey };
+    }),
+  );
+}
+
+/**
+ * The current group key, unwrapped with the signer's messaging key pair
+ */
+async function getCurrentKey(context: Registry, groupId: number) {
+  const { registry, registryAddress, signer, chainId } = context;
+  const [group] = await registry.getGroup(groupId);
+  const epoch = Number(group.epoch);
+  const keyPair = await signMessagingKeyPair(context);
+  const groupKey = await unwrapGroupKey(
+    await registry.getWrappedKey(groupId, epoch, signer.address),
+    keyPair,
+    signer.address,
+    { chainId, registry: registryAddress, epoch },
+  );
+  keyPair.privateKey.fill(0);
+  if (!groupKey) {
+    throw new Error(`${signer.address} doesn't hold the current key of group ${groupId}`);
+  }
+  return { group, epoch, groupKey };
+}
+
+/**
+ * Add and remove members under a new group key, wrapped in the order the registry will list them
+ */
+async function rekey(context: Registry, groupId: number, added: string[], removed: string[]) {
+  const { registry, registryAddress, chainId } = context;
+  const { group, epoch, groupKey } = await getCurrentKey(context, groupId);
+  const name = await decryptGroupName(group.name, groupKey, { chainId, registry: registryAddress, epoch });
+  groupKey.fill(0);
+  if (name === null) {
+    throw new Error("The group's name doesn't decrypt with its key");
+  }
+
+  const [members] = await registry.getMembers(groupId);
+  const resulting = [...members.filter((member) => !removed.includes(member)), ...added];
+  const newKey = generateGroupKey();
+  const newContext = { chainId, registry: registryAddress, epoch: epoch + 1 };
+  const wrappedKeys = await wrapGroupKey(newKey, await readMessagingKeys(context, resulting), newContext);
+  const encryptedName = await encryptGroupName(name, newKey, newContext);
+  newKey.fill(0);
+
+  const tx = await registry.updateMembers(groupId, added, removed, encryptedName, wrappedKeys);
+  console.log(`Wait for tx:${tx.hash}...`);
+  const receipt = await tx.wait();
+  console.log(`tx:${tx.hash} status=${receipt?.status}`);
+  console.log(`Group ${groupId} is at key epoch ${epoch + 1} with ${resulting.length} members`);
+}
+
+async function printGroup(registry: GroupRegistry, groupId: number) {
+  const [[group, messageCount], [members, admins]] = await Promise.all([
+    registry.getGroup(groupId),
+    registry.getMembers(groupId),
+  ]);
+  console.log(
+    `Group ${groupId}: epoch=${group.epoch} messages=${messageCount}${group.rekeyNeeded ? " (key rotation pending)" : ""}`,
+  );
+  members.forEach((member, i) => console.log(`  ${member}${admins[i] ? " (admin)" : ""}`));
+}
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost group:create --name "Team" --members 0x..,0x..
+ */
+task("group:create", "Creates a group with a new group key wrapped to every member")
+  .addOptionalParam("address", "Optionally specify the GroupRegistry contract address")
+  .addOptionalParam("signer", "Index of the creating account", "0")
+  .addParam("name", "The group name")
+  .addOptionalParam("members", "Comma-separated addresses of the other members", "")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const context = await getRegistry(hre, taskArguments);
+    const { registry, registryAddress, signer, chainId } = context;
+
+    const others = (taskArguments.members as string)
+      .split(",")
+      .filter(Boolean)
+      .map((member) => hre.ethers.getAddress(member.trim()));
+    const groupKey = generateGroupKey();
+    const groupContext = { chainId, registry: registryAddress, epoch: 1 };
+    const wrappedKeys = await wrapGroupKey(
+      groupKey,
+      await readMessagingKeys(context, [signer.address, ...others]),
+      groupContext,
+    );
+    const encryptedName = await encryptGroupName(taskArguments.name, groupKey, groupContext);
+    groupKey.fill(0);
+
+    const tx = await registry.createGroup(encryptedName, others, wrappedKeys);
+    console.log(`Wait for tx:${tx.hash}...`);
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+    await printGroup(registry, Number(await registry.getGroupCount()));
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost group:list --signer 1
+ */
+task("group:list", "Lists the groups of an account and their members")
+  .addOptionalParam("address", "Optionally specify the GroupRegistry contract address")
+  .addOptionalParam("signer", "Index of the account", "0")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { registry, signer } = await getRegistry(hre, taskArguments);
+
+    const groupIds = await registry.getGroupsOf(signer.address);
+    console.log(`${signer.address} is a member of ${groupIds.length} groups`);
+    for (const groupId of groupIds) {
+      await printGroup(registry, Number(groupId));
+    }
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost group:invite --group 1 --members 0x..,0x..
+ */
+task("group:invite", "Adds members to a group under a new group key")
+  .addOptionalParam("address", "Optionally specify the GroupRegistry contract address")
+  .addOptionalParam("signer", "Index of an admin account", "0")
+  .addParam("group", "The group id")
+  .addParam("members", "Comma-separated addresses to add")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const context = await getRegistry(hre, taskArguments);
+    const added = (taskArguments.members as string).split(",").map((member) => hre.ethers.getAddress(member.trim()));
+    await rekey(context, parseInt(taskArguments.group), added, []);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost group:remove --group 1 --member 0x...
+ */
+task("group:remove", "Removes a member from a group under a new group key")
+  .addOptionalParam("address", "Optionally specify the GroupRegistry contract address")
+  .addOptionalParam("signer", "Index of an admin account", "0")
+  .addParam("group", "The group id")
+  .addParam("member", "The member to remove")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const context = await getRegistry(hre, taskArguments);
+    await rekey(context, parseInt(taskArguments.group), [], [hre.ethers.getAddress(taskArguments.member)]);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost group:rekey --group 1
+ */
+task("group:rekey", "Replaces the key of a group, e.g. after a member left")
+  .addOptionalParam("address", "Optionally specify the GroupRegistry contract address")
+  .addOptionalParam("signer", "Index of an admin account", "0")
+  .addParam("group", "The group id")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const context = await getRegistry(hre, taskArguments);
+    await rekey(context, parseInt(taskArguments.group), [], []);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost group:leave --group 1 --signer 2
+ */
+task("group:leave", "Leaves a group")
+  .addOptionalParam("address", "Optionally specify the GroupRegistry contract address")
+  .addOptionalParam("signer", "Index of the leaving account", "0")
+  .addParam("group", "The group id")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { registry, signer } = await getRegistry(hre, taskArguments);
+
+    const tx = await registry.leaveGroup(parseInt(taskArguments.group));
+    console.log(`Wait for tx:${tx.hash}...`);
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+    console.log(`${signer.address} left group ${taskArguments.group}`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost group:send --group 1 --message "Hello team"
+ */
+task("group:send", "Sends a message to a group")
+  .addOptionalParam("address", "Optionally specify the GroupRegistry contract address")
+  .addOptionalParam("signer", "Index of the sending account", "0")
+  .addParam("group", "The group id")
+  .addParam("message", "The message to encrypt and send")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const context = await getRegistry(hre, taskArguments);
+    const { registry, registryAddress, signer, chainId } = context;
+    const groupId = parseInt(taskArguments.group);
+
+    const { epoch, groupKey } = await getCurrentKey(context, groupId);
+    const encrypted = await encryptGroupMessage(
+      taskArguments.message,
+      groupKey,
+      { chainId, registry: registryAddress, epoch },
+      signer.address,
+    );
+    groupKey.fill(0);
+
+    const tx = await registry.sendMessage(groupId, encrypted);
+    console.log(`Wait for tx:${tx.hash}...`);
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost group:read --group 1 --signer 1 --limit 20
+ */
+task("group:read", "Decrypts the newest messages of a group")
+  .addOptionalParam("address", "Optionally specify the GroupRegistry contract address")
+  .addOptionalParam("signer", "Index of the reading account", "0")
+  .addParam("group", "The group id")
+  .addOptionalParam("limit", "Maximum number of messages", "20")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const context = await getRegistry(hre, taskArguments);
+    const { registry, registryAddress, signer, chainId } = context;
+    const groupId = parseInt(taskArguments.group);
+
+    const [page, total] = await registry.getLatestMessages(groupId, 0, parseInt(taskArguments.limit));
+    console.log(`Group ${groupId} has ${total} messages`);
+    const keyPair = await signMessagingKeyPair(context);
+    const groupKeys = new Map<number, Awaited<ReturnType<typeof unwrapGroupKey>>>();
+
+    for (const [i, msg] of [...page].reverse().entries()) {
+      const epoch = Number(msg.epoch);
+      const groupContext = { chainId, registry: registryAddress, epoch };
+      if (!groupKeys.has(epoch)) {
+        const wrapped = await registry.getWrappedKey(groupId, epoch, signer.address);
+        groupKeys.set(
+          epoch,
+          wrapped === "0x" ? null : await unwrapGroupKey(wrapped, keyPair, signer.address, groupContext),
+        );
+      }
+      const groupKey = groupKeys.get(epoch);
+      const text = groupKey
+        ? await decryptGroupMessage(msg.encryptedContent, groupKey, groupContext, msg.sender)
+        : "(sent before you joined)";
+      const position = Number(total) - page.length + i;
+      console.log(
+        `[${position}] ${msg.sender} @ ${new Date(Number(msg.timestamp) * 1000).toISOString()}: ${text ?? "(unreadable)"}`,
+      );
+    }
+    keyPair.privateKey.fill(0);
+    groupKeys.forEach((groupKey) => groupKey?.fill(0));
+  });
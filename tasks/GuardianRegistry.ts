@@ -0,0 +1,341 @@
+import { task } from "hardhat/config";
+import type { HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { createVaultKeyParams, getVaultKeyParams } from "../frontend/crypto/envelope";
+import {
+  buildGuardianKeyTypedData,
+  createGuardianShares,
+  deriveX25519KeyPair,
+  recoverDataKeyFromShares,
+  returnGuardianShare,
+  GuardianKeyPurpose,
+} from "../frontend/crypto/guardians";
+import { deriveKey, isWalletKdf } from "../frontend/crypto/kdf";
+import {
+  decodeKeyring,
+  encodeKeyring,
+  getKeyringEntries,
+  unwrapDataKey,
+  wrapDataKey,
+} from "../frontend/crypto/keyring";
+
+/**
+ * Tutorial: Guardian recovery on a local node (--network localhost)
+ * ================================================================
+ *
+ * 1. Set up a vault with a password in the frontend (or with whisper:store on a vault that
+ *    already has a keyring), then let three accounts publish their guardian keys:
+ *
+ *   npx hardhat --network localhost guardian:key --signer 1
+ *   npx hardhat --network localhost guardian:key --signer 2
+ *   npx hardhat --network localhost guardian:key --signer 3
+ *
+ * 2. Split the vault's data key among them, any two of them can restore it
+ *
+ *   npx hardhat --network localhost guardian:setup --password "secret" --threshold 2 --guardians 0x..,0x..,0x..
+ *
+ * 3. Password forgotten: open a recovery, let two guardians hand back their share, and set a
+ *    new password
+ *
+ *   npx hardhat --network localhost guardian:request
+ *   npx hardhat --network localhost guardian:approve --owner 0x... --signer 1
+ *   npx hardhat --network localhost guardian:approve --owner 0x... --signer 3
+ *   npx hardhat --network localhost guardian:recover --password "new secret"
+ *
+ * --signer picks an account from `npx hardhat accounts` by index (0 by default). Keys are
+ * derived from EIP-712 signatures exactly like the frontend does it, so a guardian can use
+ * either.
+ */
+
+async function getRegistry(hre: HardhatRuntimeEnvironment, taskArguments: TaskArguments) {
+  const { ethers, deployments } = hre;
+
+  const GuardianRegistryDeployment = taskArguments.address
+    ? { address: taskArguments.address }
+    : await deployments.get("GuardianRegistry");
+  console.log(`GuardianRegistry: ${GuardianRegistryDeployment.address}`);
+
+  const signers = await ethers.getSigners();
+  const signer = signers[parseInt(taskArguments.signer ?? "0")];
+  if (!signer) {
+    throw new Error(`No signer at index ${taskArguments.signer}`);
+  }
+
+  const registry = await ethers.getContractAt("GuardianRegistry", GuardianRegistryDeployment.address);
+  const { chainId } = await ethers.provider.getNetwork();
+  return {
+    registry: registry.connect(signer),
+    registryAddress: GuardianRegistryDeployment.address as `0x${string}`,
+    signer,
+    chainId: Number(chainId),
+  };
+}
+
+async function getVault(hre: HardhatRuntimeEnvironment, signer: HardhatEthersSigner) {
+  const WhisperVaultDeployment = await hre.deployments.get("WhisperVault");
+  const vault = await hre.ethers.getContractAt("WhisperVault", WhisperVaultDeployment.address);
+  const { chainId } = await hre.ethers.provider.getNetwork();
+  return {
+    vault: vault.connect(signer),
+    context: { owner: signer.address, chainId: Number(chainId), vault: WhisperVaultDeployment.address },
+  };
+}
+
+async function signKeyPair(
+  signer: HardhatEthersSigner,
+  chainId: number,
+  registryAddress: `0x${string}`,
+  purpose: GuardianKeyPurpose,
+  nonce: bigint,
+) {
+  const { domain, types, message } = buildGuardianKeyTypedData(
+    chainId,
+    registryAddress,
+    signer.address as `0x${string}`,
+    purpose,
+    nonce,
+  );
+  return deriveX25519KeyPair(await signer.signTypedData(domain, { GuardianKey: [...types.GuardianKey] }, message));
+}
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost guardian:key --signer 1
+ */
+task("guardian:key", "Publishes the guardian key owners encrypt shares to")
+  .addOptionalParam("address", "Optionally specify the GuardianRegistry contract address")
+  .addOptionalParam("signer", "Index of the guardian account", "0")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { registry, registryAddress, signer, chainId } = await getRegistry(hre, taskArguments);
+
+    const keyPair = await signKeyPair(signer, chainId, registryAddress, "guardian", 0n);
+    const publicKey = hre.ethers.hexlify(keyPair.publicKey);
+    const tx = await registry.setEncryptionKey(publicKey);
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+    console.log(`Guardian key of ${signer.address}: ${publicKey}`);
+  });
+
+/**
+ * The password unwraps the vault's data key from its keyring, which is then split among the
+ * guardians. Vaults without a keyring need a recovery kit from the frontend first.
+ *
+ * Example:
+ *   - npx hardhat --network localhost guardian:setup --password "secret" --threshold 2 --guardians 0x..,0x..,0x..
+ */
+task("guardian:setup", "Splits the vault key among 3 to 5 guardians")
+  .addOptionalParam("address", "Optionally specify the GuardianRegistry contract address")
+  .addOptionalParam("signer", "Index of the vault owner account", "0")
+  .addParam("password", "The vault password")
+  .addParam("guardians", "Comma-separated guardian addresses")
+  .addParam("threshold", "Number of guardians needed to recover the vault")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { registry, registryAddress, signer, chainId } = await getRegistry(hre, taskArguments);
+    const { vault, context } = await getVault(hre, signer);
+
+    const keyring = decodeKeyring(await vault.getKeyCheck(signer.address));
+    const unlockEntry = keyring ? getKeyringEntries(keyring).unlock : null;
+    const params = unlockEntry ? getVaultKeyParams(unlockEntry) : null;
+    if (!unlockEntry || !params) {
+      throw new Error("This vault has no data key yet, create a recovery kit in the frontend first");
+    }
+    if (isWalletKdf(params.kdf)) {
+      throw new Error("This vault uses a wallet key, set up guardians from the frontend instead");
+    }
+    const dataKey = await unwrapDataKey(
+      unlockEntry,
+      await deriveKey(taskArguments.password, params.kdf, params.salt),
+      context,
+    );
+    if (!dataKey) {
+      throw new Error("Wrong password for this vault");
+    }
+
+    const guardians: string[] = taskArguments.guardians.split(",").map((guardian: string) => guardian.trim());
+    const keys = await Promise.all(
+      guardians.map(async (guardian) => ({ address: guardian, publicKey: await registry.getEncryptionKey(guardian) })),
+    );
+    const missing = keys.find(({ publicKey }) => publicKey === hre.ethers.ZeroHash);
+    if (missing) {
+      throw new Error(`${missing.address} hasn't published a guardian key (guardian:key)`);
+    }
+
+    const threshold = parseInt(taskArguments.threshold);
+    const { shares, keyCommitment } = await createGuardianShares(dataKey, keys, threshold, {
+      owner: signer.address,
+      chainId,
+      registry: registryAddress,
+    });
+    const tx = await registry.setGuardians(guardians, threshold, shares, keyCommitment);
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+    console.log(`Any ${threshold} of ${guardians.length} guardians can now recover the vault`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost guardian:status
+ *   - npx hardhat --network localhost guardian:status --owner 0x...
+ */
+task("guardian:status", "Prints the guardians and open recovery of a vault")
+  .addOptionalParam("address", "Optionally specify the GuardianRegistry contract address")
+  .addOptionalParam("signer", "Index of the account to check if --owner is not given", "0")
+  .addOptionalParam("owner", "The vault owner address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { registry, signer } = await getRegistry(hre, taskArguments);
+    const owner = taskArguments.owner ?? signer.address;
+
+    const [guardians, threshold] = await registry.getGuardians(owner);
+    const [requestId, , timestamp, submitted] = await registry.getRecoveryRequest(owner);
+    const guarded = await registry.getGuardedOwners(owner);
+
+    console.log(`Vault of ${owner}:`);
+    console.log(`  Guardians: ${guardians.length ? guardians.join(", ") : "none"}`);
+    if (guardians.length) {
+      console.log(`  Threshold: ${threshold} of ${guardians.length}`);
+    }
+    console.log(
+      requestId === 0n
+        ? "  Recovery: none open"
+        : `  Recovery: #${requestId} opened ${new Date(Number(timestamp) * 1000).toISOString()}, ${submitted} shares returned`,
+    );
+    console.log(`  Guardian of: ${guarded.length ? guarded.join(", ") : "nobody"}`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost guardian:request
+ */
+task("guardian:request", "Asks the guardians to hand back their shares")
+  .addOptionalParam("address", "Optionally specify the GuardianRegistry contract address")
+  .addOptionalParam("signer", "Index of the vault owner account", "0")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { registry, registryAddress, signer, chainId } = await getRegistry(hre, taskArguments);
+
+    const requestId = (await registry.getRecoveryCount(signer.address)) + 1n;
+    const keyPair = await signKeyPair(signer, chainId, registryAddress, "recovery", requestId);
+    const tx = await registry.startRecovery(hre.ethers.hexlify(keyPair.publicKey));
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+    console.log(`Recovery #${requestId} opened for ${signer.address}`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost guardian:approve --owner 0x... --signer 1
+ */
+task("guardian:approve", "Hands a guardian's share back to the owner for their open recovery")
+  .addOptionalParam("address", "Optionally specify the GuardianRegistry contract address")
+  .addOptionalParam("signer", "Index of the guardian account", "0")
+  .addParam("owner", "The vault owner address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { registry, registryAddress, signer, chainId } = await getRegistry(hre, taskArguments);
+    const owner: string = taskArguments.owner;
+
+    const [requestId, recoveryKey] = await registry.getRecoveryRequest(owner);
+    if (requestId === 0n) {
+      throw new Error(`${owner} has no open recovery`);
+    }
+    const share = await registry.getShare(owner, signer.address);
+    if (share === "0x") {
+      throw new Error(`${signer.address} is not a guardian of ${owner}`);
+    }
+
+    const keyPair = await signKeyPair(signer, chainId, registryAddress, "guardian", 0n);
+    const sealed = await returnGuardianShare(
+      share,
+      keyPair,
+      { owner, guardian: signer.address, chainId, registry: registryAddress },
+      recoveryKey,
+      requestId,
+    );
+    const tx = await registry.submitShare(owner, sealed);
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+    console.log(`Share handed back to ${owner} for recovery #${requestId}`);
+  });
+
+/**
+ * The recovered data key is wrapped with the new password in the vault's keyring (the
+ * recovery kit entry is kept), then the recovery is closed.
+ *
+ * Example:
+ *   - npx hardhat --network localhost guardian:recover --password "new secret"
+ */
+task("guardian:recover", "Recombines the vault key from the returned shares and sets a new password")
+  .addOptionalParam("address", "Optionally specify the GuardianRegistry contract address")
+  .addOptionalParam("signer", "Index of the vault owner account", "0")
+  .addParam("password", "The new vault password")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { registry, registryAddress, signer, chainId } = await getRegistry(hre, taskArguments);
+    const { vault, context } = await getVault(hre, signer);
+
+    const [requestId, recoveryKey] = await registry.getRecoveryRequest(signer.address);
+    if (requestId === 0n) {
+      throw new Error("No recovery is open, start one with guardian:request");
+    }
+    const [, threshold, keyCommitment] = await registry.getGuardians(signer.address);
+    const [guardians, sealed] = await registry.getSubmittedShares(signer.address);
+    console.log(`${guardians.length} shares returned, ${threshold} needed`);
+
+    const keyPair = await signKeyPair(signer, chainId, registryAddress, "recovery", requestId);
+    if (hre.ethers.hexlify(keyPair.publicKey) !== recoveryKey) {
+      throw new Error("This signer doesn't give the recovery key of the open request");
+    }
+    const dataKey = await recoverDataKeyFromShares(
+      guardians.map((guardian, i) => ({ guardian, sealed: sealed[i] })),
+      keyPair,
+      { owner: signer.address, chainId, registry: registryAddress },
+      requestId,
+      Number(threshold),
+      keyCommitment,
+    );
+    if (!dataKey) {
+      throw new Error("Not enough valid shares to recover the vault key yet");
+    }
+
+    const keyring = decodeKeyring(await vault.getKeyCheck(signer.address));
+    const recoveryEntry = keyring ? getKeyringEntries(keyring).recovery : null;
+    const params = createVaultKeyParams();
+    const unlockEntry = await wrapDataKey(
+      dataKey,
+      await deriveKey(taskArguments.password, params.kdf, params.salt),
+      params,
+      context,
+    );
+    const tx = await vault.setKeyCheck(
+      "0x" + encodeKeyring(recoveryEntry ? [unlockEntry, recoveryEntry] : [unlockEntry]),
+    );
+    console.log(`Wait for tx:${tx.hash}...`);
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    await (await registry.closeRecovery()).wait();
+    console.log("Vault recovered, unlock it with the new password");
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost guardian:cancel
+ */
+task("guardian:cancel", "Closes the open recovery of the vault")
+  .addOptionalParam("address", "Optionally specify the GuardianRegistry contract address")
+  .addOptionalParam("signer", "Index of the vault owner account", "0")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { registry } = await getRegistry(hre, taskArguments);
+
+    const tx = await registry.closeRecovery();
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+    console.log("Recovery closed");
+  });
@@ -0,0 +1,710 @@
+import Database from "better-sqlite3";
+import { createServer } from "http";
+import { task } from "hardhat/config";
+import type { HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
+import { getAddress, isAddress, Log, TransactionDescription } from "ethers";
+import type { WhisperVault } from "../types";
+import { HttpError, sendError, sendJson } from "./http";
+
+/**
+ * Tutorial: Index a vault into SQLite and query it over HTTP (--network localhost)
+ * ================================================================================
+ *
+ * The indexer tails the message events of WhisperVault from a start block, keeps every event in
+ * an SQLite file and folds them into the current messages of each vault. Ciphertexts are read
+ * from the calldata of the transactions that emitted the events, so the index holds the same
+ * encrypted data as the contract and nothing more; what can't be decoded (e.g. calls made through
+ * another contract) is read back from the contract at the event's block. Blocks that leave the
+ * chain in a reorg are rolled back and the vaults they touched are rebuilt from the remaining
+ * events.
+ *
+ * 1. With the node running and the contracts deployed, start the indexer in its own terminal
+ *
+ *   npx hardhat --network localhost indexer:start --port 8547
+ *
+ *    It starts at the vault's deployment block (--from-block to override) and resumes from the
+ *    database file (--db, indexer-<chainId>.sqlite by default) when restarted.
+ *
+ * 2. Query it; the frontend reads messages from it when it is up to date, and from the node otherwise
+ *
+ *   curl "http://localhost:8547/users/<address>/messages?limit=20"
+ *
+ * The indexer serves, for a user:
+ *   GET /health                     chain id, vault, start, indexed and head block
+ *   GET /users/:user/messages       messages of the current vault, tombstones included
+ *       thread    only this thread (0 is the default conversation)
+ *       from, to  only messages stored at or after `from` and before `to` (unix seconds)
+ *       order     "desc" (default) or "asc" by message index
+ *       cursor    only messages past this index in that order, from a previous nextCursor
+ *       limit     page size, at most 200
+ *   GET /users/:user/stats/daily    stored messages per day, same thread/from/to filters,
+ *       utcOffset minutes east of UTC the days start at
+ *   GET /users/:user/events         change feed of the vault, oldest first
+ *       cursor    only events after this one, from a previous nextCursor
+ *       limit     page size, at most 200
+ */
+
+const DEFAULT_PORT = 8547;
+const DEFAULT_POLL_MS = 2000;
+// Blocks read per eth_getLogs call while catching up
+const DEFAULT_BATCH_SIZE = 2000;
+// Hashes of the most recent blocks kept to find where a reorg forked; a deeper one re-indexes from the start
+const REORG_DEPTH = 128;
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+const INDEXED_EVENTS = [
+  "MessageStored",
+  "MessageEdited",
+  "MessageReplaced",
+  "MessageDeleted",
+  "LabelsUpdated",
+  "MessagesCleared",
+] as const;
+
+type IndexedEvent = (typeof INDEXED_EVENTS)[number];
+
+// The calls whose bytes[] argument holds the ciphertexts (or labels) an event reports
+const EVENT_CALLS: Partial<Record<IndexedEvent, string[]>> = {
+  MessageStored: [
+    "storeMessage",
+    "storeResponse",
+    "storeMessages",
+    "storeThreadMessages",
+    "storeMessagesWithSignature",
+  ],
+  MessageEdited: ["editMessage"],
+  MessageReplaced: ["replaceMessages"],
+  LabelsUpdated: ["setLabels"],
+};
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS meta (key TEXT PRIMARY KEY, value TEXT NOT NULL);
+  CREATE TABLE IF NOT EXISTS blocks (number INTEGER PRIMARY KEY, hash TEXT NOT NULL);
+  CREATE TABLE IF NOT EXISTS events (
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    block_hash TEXT NOT NULL,
+    tx_hash TEXT NOT NULL,
+    user TEXT NOT NULL,
+    name TEXT NOT NULL,
+    message_index INTEGER,
+    timestamp INTEGER NOT NULL,
+    payload TEXT NOT NULL,
+    PRIMARY KEY (block_number, log_index)
+  );
+  CREATE INDEX IF NOT EXISTS events_by_user ON events (user, block_number, log_index);
+  CREATE TABLE IF NOT EXISTS messages (
+    user TEXT NOT NULL,
+    idx INTEGER NOT NULL,
+    thread INTEGER,
+    is_response INTEGER NOT NULL,
+    sender TEXT NOT NULL,
+    timestamp INTEGER NOT NULL,
+    content TEXT NOT NULL,
+    labels TEXT NOT NULL,
+    revision_count INTEGER NOT NULL,
+    block_number INTEGER NOT NULL,
+    tx_hash TEXT NOT NULL,
+    PRIMARY KEY (user, idx)
+  );
+  CREATE INDEX IF NOT EXISTS messages_by_thread ON messages (user, thread, idx);
+  CREATE INDEX IF NOT EXISTS messages_by_time ON messages (user, timestamp);
+`;
+
+/**
+ * An indexed event; `payload` holds its data as JSON: for MessageStored the timestamp, response
+ * flag, thread and content, for edits and replacements the content, for labels the labels
+ */
+interface EventRow {
+  block_number: number;
+  log_index: number;
+  block_hash: string;
+  tx_hash: string;
+  user: string;
+  name: IndexedEvent;
+  message_index: number | null;
+  timestamp: number;
+  payload: string;
+}
+
+interface MessageRow {
+  user: string;
+  idx: number;
+  // null if the storing call couldn't be decoded and the contract couldn't be read either
+  thread: number | null;
+  is_response: number;
+  sender: string;
+  timestamp: number;
+  content: string;
+  labels: string;
+  revision_count: number;
+  block_number: number;
+  tx_hash: string;
+}
+
+/**
+ * The SQLite index of one vault and the block range it covers
+ */
+interface VaultIndex {
+  db: Database.Database;
+  startBlock: number;
+  // Last block whose events are in the index
+  indexedBlock(): number;
+  setIndexedBlock(block: number): void;
+}
+
+/**
+ * Open (or create) the index of one vault
+ * @throws if the file indexes another chain or vault
+ */
+export function openIndex(path: string, chainId: number, vaultAddress: string, startBlock: number): VaultIndex {
+  const db = new Database(path);
+  db.pragma("journal_mode = WAL");
+  db.exec(SCHEMA);
+
+  const getMeta = db.prepare<[string], { value: string }>("SELECT value FROM meta WHERE key = ?");
+  const setMeta = db.prepare<[string, string]>("INSERT OR REPLACE INTO meta (key, value) VALUES (?, ?)");
+  const meta = (key: string) => getMeta.get(key)?.value;
+
+  if (meta("chainId") === undefined) {
+    setMeta.run("chainId", String(chainId));
+    setMeta.run("vault", vaultAddress);
+    setMeta.run("startBlock", String(startBlock));
+    setMeta.run("indexedBlock", String(startBlock - 1));
+  } else if (meta("chainId") !== String(chainId) || meta("vault") !== vaultAddress) {
+    db.close();
+    throw new Error(`${path} indexes WhisperVault ${meta("vault")} on chain ${meta("chainId")}, pick another --db`);
+  }
+
+  return {
+    db,
+    startBlock: Number(meta("startBlock")),
+    indexedBlock: () => Number(meta("indexedBlock")),
+    setIndexedBlock: (block: number) => {
+      setMeta.run("indexedBlock", String(block));
+    },
+  };
+}
+
+/**
+ * Fold events into the messages table: the state the contract holds after them
+ */
+function createMessageFold(db: Database.Database, vaultAddress: string) {
+  const insert = db.prepare(
+    `INSERT OR REPLACE INTO messages
+      (user, idx, thread, is_response, sender, timestamp, content, labels, revision_count, block_number, tx_hash)
+      VALUES (@user, @idx, @thread, @is_response, @sender, @timestamp, @content, '0x', 0, @block_number, @tx_hash)`,
+  );
+  const setContent = db.prepare("UPDATE messages SET content = ? WHERE user = ? AND idx = ?");
+  const edit = db.prepare("UPDATE messages SET content = ?, revision_count = ? WHERE user = ? AND idx = ?");
+  const setLabels = db.prepare("UPDATE messages SET labels = ? WHERE user = ? AND idx = ?");
+  const tombstone = db.prepare(
+    "UPDATE messages SET content = '0x', labels = '0x', revision_count = 0 WHERE user = ? AND idx = ?",
+  );
+  const clear = db.prepare("DELETE FROM messages WHERE user = ?");
+  const userEvents = db.prepare<[string], EventRow>(
+    "SELECT * FROM events WHERE user = ? ORDER BY block_number, log_index",
+  );
+
+  function apply(event: EventRow) {
+    const { user, message_index: idx } = event;
+    const data = JSON.parse(event.payload);
+    switch (event.name) {
+      case "MessageStored":
+        insert.run({
+          user,
+          idx,
+          thread: data.thread,
+          is_response: data.isResponse ? 1 : 0,
+          // Responses are sent by the contract itself
+          sender: data.isResponse ? vaultAddress : user,
+          timestamp: data.timestamp,
+          content: data.content,
+          block_number: event.block_number,
+          tx_hash: event.tx_hash,
+        });
+        break;
+      case "MessageEdited":
+        edit.run(data.content, data.revision, user, idx);
+        break;
+      case "MessageReplaced":
+        setContent.run(data.content, user, idx);
+        break;
+      case "LabelsUpdated":
+        setLabels.run(data.labels, user, idx);
+        break;
+      case "MessageDeleted":
+        tombstone.run(user, idx);
+        break;
+      case "MessagesCleared":
+        clear.run(user);
+        break;
+    }
+  }
+
+  // Replay every remaining event of a user, after a reorg dropped some of them
+  function rebuild(user: string) {
+    clear.run(user);
+    for (const event of userEvents.all(user)) apply(event);
+  }
+
+  return { apply, rebuild };
+}
+
+/**
+ * The ciphertexts passed to a vault call, in the order its events report them, and the thread
+ * it stores to
+ */
+function decodeCall(call: TransactionDescription): { name: string; thread: number | null; values: string[] } {
+  const { name, args } = call;
+  switch (name) {
+    case "storeMessage":
+    case "storeResponse":
+      return { name, thread: 0, values: [args[0]] };
+    case "storeMessages":
+      return { name, thread: 0, values: [...args[0]] };
+    case "storeThreadMessages":
+      return { name, thread: Number(args[0]), values: [...args[1]] };
+    case "storeMessagesWithSignature":
+      return { name, thread: Number(args[1]), values: [...args[2]] };
+    case "editMessage":
+      return { name, thread: null, values: [args[1]] };
+    default:
+      // replaceMessages(indexes, contents), setLabels(indexes, labels)
+      return { name, thread: null, values: args.length > 1 && Array.isArray(args[1]) ? [...args[1]] : [] };
+  }
+}
+
+/**
+ * Tails the vault's events into the index, one batch of blocks per transaction
+ */
+export function createIndexer(
+  hre: HardhatRuntimeEnvironment,
+  vault: WhisperVault,
+  index: VaultIndex,
+  batchSize: number,
+) {
+  const { provider } = hre.ethers;
+  const { db } = index;
+  const vaultAddress = getAddress(vault.target as string);
+  const fold = createMessageFold(db, vaultAddress);
+  const topics = INDEXED_EVENTS.map((name) => vault.interface.getEvent(name).topicHash);
+
+  const insertEvent = db.prepare(
+    `INSERT INTO events (block_number, log_index, block_hash, tx_hash, user, name, message_index, timestamp, payload)
+      VALUES (@block_number, @log_index, @block_hash, @tx_hash, @user, @name, @message_index, @timestamp, @payload)`,
+  );
+  const insertBlock = db.prepare("INSERT OR REPLACE INTO blocks (number, hash) VALUES (?, ?)");
+  const pruneBlocks = db.prepare("DELETE FROM blocks WHERE number < ?");
+  const recentBlocks = db.prepare<[], { number: number; hash: string }>(
+    "SELECT number, hash FROM blocks ORDER BY number DESC",
+  );
+  const blockHash = db.prepare<[number], { hash: string }>("SELECT hash FROM blocks WHERE number = ?");
+
+  const commitBatch = db.transaction((events: EventRow[], blocks: Map<number, string>, toBlock: number) => {
+    for (const event of events) {
+      insertEvent.run(event);
+      fold.apply(event);
+    }
+    for (const [number, hash] of blocks) insertBlock.run(number, hash);
+    pruneBlocks.run(toBlock - REORG_DEPTH);
+    index.setIndexedBlock(toBlock);
+  });
+
+  const rollBack = db.transaction((forkBlock: number) => {
+    const users = db
+      .prepare<[number], { user: string }>("SELECT DISTINCT user FROM events WHERE block_number > ?")
+      .all(forkBlock);
+    db.prepare("DELETE FROM events WHERE block_number > ?").run(forkBlock);
+    db.prepare("DELETE FROM blocks WHERE number > ?").run(forkBlock);
+    for (const { user } of users) fold.rebuild(user);
+    index.setIndexedBlock(forkBlock);
+    return users.length;
+  });
+
+  /**
+   * Whether the last indexed block is still on the chain; if not, roll back to the newest kept
+   * block that is, or to the start when none is
+   */
+  async function checkReorg() {
+    const indexed = index.indexedBlock();
+    const stored = blockHash.get(indexed);
+    if (!stored) return;
+    const current = await provider.getBlock(indexed);
+    if (current?.hash === stored.hash) return;
+
+    let forkBlock = index.startBlock - 1;
+    for (const { number, hash } of recentBlocks.all()) {
+      if ((await provider.getBlock(number))?.hash === hash) {
+        forkBlock = number;
+        break;
+      }
+    }
+    const users = rollBack(forkBlock);
+    console.log(`[indexer] Reorg: rolled back blocks ${forkBlock + 1}-${indexed}, rebuilt ${users} vault(s)`);
+  }
+
+  /**
+   * Content of an event: from the calldata of its transaction, or read back from the contract at
+   * its block when the call can't be decoded (e.g. made through another contract)
+   */
+  async function readValue(name: IndexedEvent, user: string, messageIndex: number, blockNumber: number) {
+    try {
+      return name === "LabelsUpdated"
+        ? await vault.getLabels(user, messageIndex, { blockTag: blockNumber })
+        : await vault.getEncryptedContent(user, messageIndex, { blockTag: blockNumber });
+    } catch (err) {
+      console.warn(`[indexer] Couldn't read ${name} content of ${user} #${messageIndex} at ${blockNumber}:`, err);
+      return "0x";
+    }
+  }
+
+  /**
+   * Thread of a stored message, read back from the contract at its block when the storing call
+   * can't be decoded: each thread lists its message indexes in increasing order, so the thread
+   * holding the message is found by a binary search of each
+   */
+  async function readThread(user: string, messageIndex: number, blockNumber: number) {
+    const overrides = { blockTag: blockNumber };
+    try {
+      const [, messageCounts] = await vault.getThreads(user, overrides);
+      for (let thread = 0; thread < messageCounts.length; thread++) {
+        let low = 0;
+        let high = Number(messageCounts[thread]) - 1;
+        while (low <= high) {
+          const middle = Math.floor((low + high) / 2);
+          const [, indexes] = await vault.getThreadMessagesRange(user, thread, middle, 1, overrides);
+          const found = Number(indexes[0]);
+          if (found === messageIndex) return thread;
+          if (found < messageIndex) low = middle + 1;
+          else high = middle - 1;
+        }
+      }
+    } catch (err) {
+      console.warn(`[indexer] Couldn't read the thread of ${user} #${messageIndex} at ${blockNumber}:`, err);
+    }
+    // Cleared later in the same block, or unreadable
+    return null;
+  }
+
+  async function indexRange(fromBlock: number, toBlock: number) {
+    // The tip is read before the logs: if it is reorged meanwhile, the next poll sees its hash change
+    const tip = await provider.getBlock(toBlock);
+    if (!tip?.hash) throw new Error(`Block ${toBlock} not found`);
+    const logs: Log[] = await provider.getLogs({ address: vaultAddress, topics: [topics], fromBlock, toBlock });
+
+    const blocks = new Map<number, { hash: string; timestamp: number }>([
+      [toBlock, { hash: tip.hash, timestamp: tip.timestamp }],
+    ]);
+    const calls = new Map<string, ReturnType<typeof decodeCall> | null>();
+    // How many value-carrying events of each transaction were seen, to match them to the call's arguments
+    const positions = new Map<string, number>();
+    const events: EventRow[] = [];
+
+    for (const log of logs) {
+      const parsed = vault.interface.parseLog(log);
+      if (!parsed) continue;
+      const name = parsed.name as IndexedEvent;
+      const user = getAddress(parsed.args.user);
+      const messageIndex = name === "MessagesCleared" ? null : Number(parsed.args.messageIndex);
+
+      let block = blocks.get(log.blockNumber);
+      if (!block) {
+        const header = await provider.getBlock(log.blockNumber);
+        if (!header?.hash) throw new Error(`Block ${log.blockNumber} not found`);
+        block = { hash: header.hash, timestamp: header.timestamp };
+        blocks.set(log.blockNumber, block);
+      }
+      if (block.hash !== log.blockHash) throw new Error(`Block ${log.blockNumber} was reorged while indexing`);
+
+      const payload: Record<string, unknown> = {};
+      const callNames = EVENT_CALLS[name];
+      if (callNames && messageIndex !== null) {
+        if (!calls.has(log.transactionHash)) {
+          const tx = await provider.getTransaction(log.transactionHash);
+          const call = tx && tx.to === vaultAddress ? vault.interface.parseTransaction(tx) : null;
+          calls.set(log.transactionHash, call ? decodeCall(call) : null);
+        }
+        const call = calls.get(log.transactionHash);
+        const position = positions.get(log.transactionHash) ?? 0;
+        positions.set(log.transactionHash, position + 1);
+
+        const decoded = call && callNames.includes(call.name) ? call.values[position] : undefined;
+        const value = decoded ?? (await readValue(name, user, messageIndex, log.blockNumber));
+        if (name === "MessageStored") {
+          Object.assign(payload, {
+            timestamp: Number(parsed.args.timestamp),
+            isResponse: parsed.args.isResponse,
+            thread: call && decoded !== undefined ? call.thread : await readThread(user, messageIndex, log.blockNumber),
+            content: value,
+          });
+        } else if (name === "MessageEdited") {
+          Object.assign(payload, { revision: Number(parsed.args.revision), content: value });
+        } else {
+          payload[name === "LabelsUpdated" ? "labels" : "content"] = value;
+        }
+      }
+
+      events.push({
+        block_number: log.blockNumber,
+        log_index: log.index,
+        block_hash: log.blockHash,
+        tx_hash: log.transactionHash,
+        user,
+        name,
+        message_index: messageIndex,
+        timestamp: block.timestamp,
+        payload: JSON.stringify(payload),
+      });
+    }
+
+    const hashes = new Map([...blocks].map(([number, { hash }]) => [number, hash]));
+    commitBatch(events, hashes, toBlock);
+    return events.length;
+  }
+
+  /**
+   * Roll back a reorg if there was one, then index up to the current head
+   */
+  async function sync() {
+    await checkReorg();
+    const head = await provider.getBlockNumber();
+    // A restarted node may be behind the index; the reorg check rolls it back on the next poll
+    while (index.indexedBlock() < head) {
+      const fromBlock = index.indexedBlock() + 1;
+      const toBlock = Math.min(fromBlock + batchSize - 1, head);
+      const count = await indexRange(fromBlock, toBlock);
+      if (count > 0) console.log(`[indexer] Blocks ${fromBlock}-${toBlock}: ${count} event(s)`);
+    }
+    return head;
+  }
+
+  return { sync };
+}
+
+function readUser(value: string): string {
+  if (!isAddress(value)) throw new HttpError(400, "Invalid user address");
+  return getAddress(value);
+}
+
+function readInteger(url: URL, name: string, min = 0, max = Number.MAX_SAFE_INTEGER): number | undefined {
+  const value = url.searchParams.get(name);
+  if (value === null || value === "") return undefined;
+  const number = Number(value);
+  if (!Number.isSafeInteger(number) || number < min || number > max) {
+    throw new HttpError(400, `Invalid ${name}`);
+  }
+  return number;
+}
+
+/**
+ * Read-only queries of the index, as served over HTTP
+ */
+export function createQueries(db: Database.Database) {
+  type Filters = { thread?: number; from?: number; to?: number };
+
+  // Conditions and parameters of the thread and time-range filters of a user's messages
+  function where(user: string, { thread, from, to }: Filters) {
+    const conditions = ["user = ?"];
+    const params: (string | number)[] = [user];
+    if (thread !== undefined) {
+      conditions.push("thread = ?");
+      params.push(thread);
+    }
+    if (from !== undefined) {
+      conditions.push("timestamp >= ?");
+      params.push(from);
+    }
+    if (to !== undefined) {
+      conditions.push("timestamp < ?");
+      params.push(to);
+    }
+    return { conditions, params };
+  }
+
+  function messages(user: string, url: URL) {
+    const filters = { thread: readInteger(url, "thread"), from: readInteger(url, "from"), to: readInteger(url, "to") };
+    const order = url.searchParams.get("order") ?? "desc";
+    if (order !== "asc" && order !== "desc") throw new HttpError(400, "Invalid order");
+    const limit = readInteger(url, "limit", 1, MAX_PAGE_SIZE) ?? DEFAULT_PAGE_SIZE;
+    const cursor = readInteger(url, "cursor");
+
+    const { conditions, params } = where(user, filters);
+    const { total } = db
+      .prepare<unknown[], { total: number }>(`SELECT COUNT(*) AS total FROM messages WHERE ${conditions.join(" AND ")}`)
+      .get(...params)!;
+    if (cursor !== undefined) {
+      conditions.push(order === "asc" ? "idx > ?" : "idx < ?");
+      params.push(cursor);
+    }
+    const rows = db
+      .prepare<unknown[], MessageRow>(
+        `SELECT * FROM messages WHERE ${conditions.join(" AND ")} ORDER BY idx ${order.toUpperCase()} LIMIT ?`,
+      )
+      .all(...params, limit);
+    const { count } = db
+      .prepare<[string], { count: number }>("SELECT COUNT(*) AS count FROM messages WHERE user = ?")
+      .get(user)!;
+
+    return {
+      messages: rows.map((row) => ({
+        index: row.idx,
+        thread: row.thread,
+        sender: row.sender,
+        isResponse: row.is_response === 1,
+        timestamp: row.timestamp,
+        encryptedContent: row.content,
+        encryptedLabels: row.labels,
+        revisionCount: row.revision_count,
+        blockNumber: row.block_number,
+        txHash: row.tx_hash,
+      })),
+      total,
+      vaultMessageCount: count,
+      nextCursor: rows.length === limit ? rows[rows.length - 1].idx : null,
+    };
+  }
+
+  function dailyStats(user: string, url: URL) {
+    const filters = { thread: readInteger(url, "thread"), from: readInteger(url, "from"), to: readInteger(url, "to") };
+    const utcOffset = readInteger(url, "utcOffset", -14 * 60, 14 * 60) ?? 0;
+    const { conditions, params } = where(user, filters);
+    // Tombstones don't count
+    conditions.push("content != '0x'");
+    const days = db
+      .prepare<unknown[], { day: string; messages: number; responses: number }>(
+        `SELECT date(timestamp + ?, 'unixepoch') AS day, COUNT(*) AS messages, SUM(is_response) AS responses
+          FROM messages WHERE ${conditions.join(" AND ")} GROUP BY day ORDER BY day`,
+      )
+      .all(utcOffset * 60, ...params);
+    return { utcOffset, days };
+  }
+
+  function events(user: string, url: URL) {
+    const limit = readInteger(url, "limit", 1, MAX_PAGE_SIZE) ?? DEFAULT_PAGE_SIZE;
+    const cursor = url.searchParams.get("cursor");
+    const position = cursor ? cursor.match(/^(\d+)-(\d+)$/) : null;
+    if (cursor && !position) throw new HttpError(400, "Invalid cursor");
+
+    const rows = db
+      .prepare<[string, number, number, number, number], EventRow>(
+        `SELECT * FROM events WHERE user = ? AND (block_number > ? OR (block_number = ? AND log_index > ?))
+          ORDER BY block_number, log_index LIMIT ?`,
+      )
+      .all(user, Number(position?.[1] ?? -1), Number(position?.[1] ?? -1), Number(position?.[2] ?? -1), limit);
+    const last = rows[rows.length - 1];
+
+    return {
+      events: rows.map((row) => ({
+        name: row.name,
+        messageIndex: row.message_index,
+        timestamp: row.timestamp,
+        blockNumber: row.block_number,
+        logIndex: row.log_index,
+        txHash: row.tx_hash,
+        ...JSON.parse(row.payload),
+      })),
+      // Resume from the last event even when the page isn't full: the feed grows as blocks arrive
+      nextCursor: last ? `${last.block_number}-${last.log_index}` : cursor,
+    };
+  }
+
+  return { messages, dailyStats, events };
+}
+
+async function getVault(hre: HardhatRuntimeEnvironment, taskArguments: TaskArguments) {
+  const { ethers, deployments } = hre;
+
+  const WhisperVaultDeployment = taskArguments.address
+    ? { address: taskArguments.address, receipt: undefined }
+    : await deployments.get("WhisperVault");
+  console.log(`WhisperVault: ${WhisperVaultDeployment.address}`);
+
+  const vault = await ethers.getContractAt("WhisperVault", WhisperVaultDeployment.address);
+  const { chainId } = await ethers.provider.getNetwork();
+  return {
+    vault,
+    vaultAddress: getAddress(WhisperVaultDeployment.address),
+    deployBlock: WhisperVaultDeployment.receipt?.blockNumber ?? 0,
+    chainId: Number(chainId),
+  };
+}
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost indexer:start --port 8547
+ */
+task("indexer:start", "Indexes WhisperVault events into SQLite and serves them over HTTP")
+  .addOptionalParam("address", "Optionally specify the WhisperVault contract address")
+  .addOptionalParam("fromBlock", "First block to index, the vault's deployment block by default")
+  .addOptionalParam("db", "SQLite file of the index, indexer-<chainId>.sqlite by default")
+  .addOptionalParam("port", "Port to listen on", String(DEFAULT_PORT))
+  .addOptionalParam("interval", "Milliseconds between polls for new blocks", String(DEFAULT_POLL_MS))
+  .addOptionalParam("batch", "Blocks read per log query while catching up", String(DEFAULT_BATCH_SIZE))
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { vault, vaultAddress, deployBlock, chainId } = await getVault(hre, taskArguments);
+    const path = taskArguments.db ?? `indexer-${chainId}.sqlite`;
+    const index = openIndex(
+      path,
+      chainId,
+      vaultAddress,
+      taskArguments.fromBlock !== undefined ? parseInt(taskArguments.fromBlock) : deployBlock,
+    );
+    console.log(`Index ${path}: blocks ${index.startBlock}-${index.indexedBlock()} indexed`);
+
+    const indexer = createIndexer(hre, vault, index, parseInt(taskArguments.batch));
+    const queries = createQueries(index.db);
+    let headBlock = index.indexedBlock();
+
+    const server = createServer((req, res) => {
+      try {
+        const url = new URL(req.url ?? "/", "http://localhost");
+        const userMatch = url.pathname.match(/^\/users\/([^/]+)\/(messages|stats\/daily|events)$/);
+        if (req.method === "OPTIONS") {
+          sendJson(res, 204, null);
+        } else if (req.method === "GET" && url.pathname === "/health") {
+          const { startBlock } = index;
+          sendJson(res, 200, {
+            chainId,
+            vault: vaultAddress,
+            startBlock,
+            indexedBlock: index.indexedBlock(),
+            headBlock,
+          });
+        } else if (req.method === "GET" && userMatch) {
+          const user = readUser(userMatch[1]);
+          const indexedBlock = index.indexedBlock();
+          if (userMatch[2] === "messages") sendJson(res, 200, { ...queries.messages(user, url), indexedBlock });
+          else if (userMatch[2] === "events") sendJson(res, 200, { ...queries.events(user, url), indexedBlock });
+          else sendJson(res, 200, { ...queries.dailyStats(user, url), indexedBlock });
+        } else {
+          throw new HttpError(404, "Not found");
+        }
+      } catch (err) {
+        sendError(res, err, "indexer");
+      }
+    });
+
+    const port = parseInt(taskArguments.port);
+    await new Promise<void>((resolve) => server.listen(port, resolve));
+    console.log(`Indexer listening on http://localhost:${port} (chain ${chainId})`);
+
+    // Poll until interrupted; a failed poll is retried on the next one
+    let stopped = false;
+    process.once("SIGINT", () => {
+      console.log("Stopping indexer...");
+      stopped = true;
+    });
+    const interval = parseInt(taskArguments.interval);
+    while (!stopped) {
+      try {
+        headBlock = await indexer.sync();
+      } catch (err) {
+        console.error("[indexer] poll failed:", err);
+      }
+      await new Promise((resolve) => setTimeout(resolve, interval));
+    }
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+    index.db.close();
+  });
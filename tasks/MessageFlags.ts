@@ -0,0 +1,145 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { task } from "hardhat/config";
+import type { HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
+
+/**
+ * Tutorial: Encrypted message flags on a local node (--network localhost)
+ * =======================================================================
+ *
+ * 1. Store a few messages first (see whisper:store)
+ *
+ * 2. Set flags from encrypted inputs; the transactions show which message changes, not to what
+ *
+ *   npx hardhat --network localhost flags:read --indexes 0,1
+ *   npx hardhat --network localhost flags:star --index 1
+ *   npx hardhat --network localhost flags:priority --index 1 --value 2
+ *
+ * 3. Decrypt them, which only the message owner can do
+ *
+ *   npx hardhat --network localhost flags:show
+ *
+ * --signer picks an account from `npx hardhat accounts` by index (0 by default).
+ */
+
+async function getFlags(hre: HardhatRuntimeEnvironment, taskArguments: TaskArguments) {
+  const { ethers, deployments, fhevm } = hre;
+
+  await fhevm.initializeCLIApi();
+
+  const MessageFlagsDeployment = taskArguments.address
+    ? { address: taskArguments.address }
+    : await deployments.get("MessageFlags");
+  console.log(`MessageFlags: ${MessageFlagsDeployment.address}`);
+
+  const signers = await ethers.getSigners();
+  const signer = signers[parseInt(taskArguments.signer ?? "0")];
+  if (!signer) {
+    throw new Error(`No signer at index ${taskArguments.signer}`);
+  }
+
+  const messageFlags = await ethers.getContractAt("MessageFlags", MessageFlagsDeployment.address);
+  return {
+    messageFlags: messageFlags.connect(signer),
+    flagsAddress: MessageFlagsDeployment.address,
+    signer,
+    input: () => fhevm.createEncryptedInput(MessageFlagsDeployment.address, signer.address),
+  };
+}
+
+async function waitFor(tx: { hash: string; wait: () => Promise<{ status?: number | null } | null> }) {
+  console.log(`Wait for tx:${tx.hash}...`);
+  const receipt = await tx.wait();
+  console.log(`tx:${tx.hash} status=${receipt?.status}`);
+}
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost flags:read --indexes 0,1,2
+ *   - npx hardhat --network localhost flags:read --indexes 2 --unread
+ */
+task("flags:read", "Marks messages read (or unread) with one encrypted value")
+  .addOptionalParam("address", "Optionally specify the MessageFlags contract address")
+  .addOptionalParam("signer", "Index of the message owner", "0")
+  .addParam("indexes", "Comma-separated message indexes")
+  .addFlag("unread", "Mark them unread instead")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { messageFlags, input } = await getFlags(hre, taskArguments);
+    const indexes = String(taskArguments.indexes)
+      .split(",")
+      .map((index) => parseInt(index.trim()));
+    if (indexes.some((index) => !Number.isInteger(index))) {
+      throw new Error(`Argument --indexes is not a list of integers`);
+    }
+
+    const encrypted = await input().addBool(!taskArguments.unread).encrypt();
+    await waitFor(await messageFlags.setRead(indexes, encrypted.handles[0], encrypted.inputProof));
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost flags:star --index 1
+ *   - npx hardhat --network localhost flags:star --index 1 --off
+ */
+task("flags:star", "Stars (or unstars) a message")
+  .addOptionalParam("address", "Optionally specify the MessageFlags contract address")
+  .addOptionalParam("signer", "Index of the message owner", "0")
+  .addParam("index", "The message index")
+  .addFlag("off", "Unstar it instead")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { messageFlags, input } = await getFlags(hre, taskArguments);
+
+    const encrypted = await input().addBool(!taskArguments.off).encrypt();
+    await waitFor(
+      await messageFlags.setStarred(parseInt(taskArguments.index), encrypted.handles[0], encrypted.inputProof),
+    );
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost flags:priority --index 1 --value 3
+ */
+task("flags:priority", "Sets the priority of a message, capped to MAX_PRIORITY by the contract")
+  .addOptionalParam("address", "Optionally specify the MessageFlags contract address")
+  .addOptionalParam("signer", "Index of the message owner", "0")
+  .addParam("index", "The message index")
+  .addParam("value", "The priority")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const value = parseInt(taskArguments.value);
+    if (!Number.isInteger(value) || value < 0 || value > 255) {
+      throw new Error(`Argument --value is not an integer from 0 to 255`);
+    }
+    const { messageFlags, input } = await getFlags(hre, taskArguments);
+
+    const encrypted = await input().add8(value).encrypt();
+    await waitFor(
+      await messageFlags.setPriority(parseInt(taskArguments.index), encrypted.handles[0], encrypted.inputProof),
+    );
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost flags:show --offset 0 --limit 20
+ */
+task("flags:show", "Decrypts the flags of a range of messages")
+  .addOptionalParam("address", "Optionally specify the MessageFlags contract address")
+  .addOptionalParam("signer", "Index of the message owner", "0")
+  .addOptionalParam("offset", "Index of the first message", "0")
+  .addOptionalParam("limit", "Maximum number of messages", "20")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, fhevm } = hre;
+    const { messageFlags, flagsAddress, signer } = await getFlags(hre, taskArguments);
+    const offset = parseInt(taskArguments.offset);
+
+    const decryptBool = async (handle: string) =>
+      handle !== ethers.ZeroHash && (await fhevm.userDecryptEbool(handle, flagsAddress, signer));
+    const page = await messageFlags.getFlagsRange(signer.address, offset, parseInt(taskArguments.limit));
+    for (const [i, flags] of page.entries()) {
+      const priority =
+        flags.priority === ethers.ZeroHash
+          ? 0n
+          : await fhevm.userDecryptEuint(FhevmType.euint8, flags.priority, flagsAddress, signer);
+      const read = await decryptBool(flags.read);
+      const starred = await decryptBool(flags.starred);
+      console.log(`[${offset + i}] read=${read} starred=${starred} priority=${priority}`);
+    }
+  });
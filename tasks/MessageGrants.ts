@@ -0,0 +1,139 @@
+import { task } from "hardhat/config";
+import type { HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
+import { buildMessagingKeyTypedData, deriveMessagingKeyPair } from "../frontend/crypto/direct";
+import { openGrantedMessage } from "../frontend/crypto/grants";
+import type { MessageGrants } from "../types";
+
+/**
+ * Tutorial: Read grants on a local node (--network localhost)
+ * ===========================================================
+ *
+ * Grants are created in the app, which decrypts the chosen messages and seals them to the
+ * grantee's messaging key (see whisper:dm-key). These tasks list, read and revoke them.
+ *
+ * 1. List the grants the signer gave and received
+ *
+ *   npx hardhat --network localhost grants:list --signer 1
+ *
+ * 2. As the grantee, decrypt the messages of an active grant
+ *
+ *   npx hardhat --network localhost grants:read --grant 1 --signer 1
+ *
+ * 3. As the owner, end a grant before its expiry
+ *
+ *   npx hardhat --network localhost grants:revoke --grant 1
+ *
+ * --signer picks an account from `npx hardhat accounts` by index (0 by default).
+ */
+
+async function getGrants(hre: HardhatRuntimeEnvironment, taskArguments: TaskArguments) {
+  const { ethers, deployments } = hre;
+
+  const MessageGrantsDeployment = taskArguments.address
+    ? { address: taskArguments.address }
+    : await deployments.get("MessageGrants");
+  console.log(`MessageGrants: ${MessageGrantsDeployment.address}`);
+
+  const signers = await ethers.getSigners();
+  const signer = signers[parseInt(taskArguments.signer ?? "0")];
+  if (!signer) {
+    throw new Error(`No signer at index ${taskArguments.signer}`);
+  }
+
+  const messageGrants = await ethers.getContractAt("MessageGrants", MessageGrantsDeployment.address);
+  const vault = await ethers.getContractAt("WhisperVault", await messageGrants.vault());
+  const { chainId } = await ethers.provider.getNetwork();
+  return {
+    messageGrants: messageGrants.connect(signer),
+    grantsAddress: MessageGrantsDeployment.address,
+    vault,
+    signer,
+    chainId: Number(chainId),
+  };
+}
+
+async function printGrant(messageGrants: MessageGrants, grantId: bigint) {
+  const [[owner, grantee, , expiresAt, revoked, indexes], active] = await Promise.all([
+    messageGrants.getGrant(grantId),
+    messageGrants.isActive(grantId),
+  ]);
+  const status = revoked ? "revoked" : active ? "active" : "expired";
+  console.log(
+    `Grant ${grantId}: ${owner} -> ${grantee} messages=[${indexes.join(",")}] expires=${new Date(Number(expiresAt) * 1000).toISOString()} (${status})`,
+  );
+}
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost grants:list --signer 1
+ */
+task("grants:list", "Lists the grants an account gave and received")
+  .addOptionalParam("address", "Optionally specify the MessageGrants contract address")
+  .addOptionalParam("signer", "Index of the account", "0")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { messageGrants, signer } = await getGrants(hre, taskArguments);
+
+    const [given, received] = await Promise.all([
+      messageGrants.getGrantsBy(signer.address),
+      messageGrants.getGrantsFor(signer.address),
+    ]);
+    console.log(`Given by ${signer.address}:`);
+    for (const grantId of given) await printGrant(messageGrants, grantId);
+    console.log(`Received by ${signer.address}:`);
+    for (const grantId of received) await printGrant(messageGrants, grantId);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost grants:read --grant 1 --signer 1
+ */
+task("grants:read", "Decrypts the messages of an active grant, as its grantee")
+  .addOptionalParam("address", "Optionally specify the MessageGrants contract address")
+  .addOptionalParam("signer", "Index of the grantee", "0")
+  .addParam("grant", "The grant id")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { messageGrants, grantsAddress, vault, signer, chainId } = await getGrants(hre, taskArguments);
+    const grantId = parseInt(taskArguments.grant);
+
+    const [owner, grantee, , expiresAt, , indexes] = await messageGrants.getGrant(grantId);
+    if (grantee !== signer.address) {
+      throw new Error(`Grant ${grantId} was made to ${grantee}, not ${signer.address}`);
+    }
+    if (!(await messageGrants.isActive(grantId))) {
+      throw new Error(`Grant ${grantId} was revoked or has expired`);
+    }
+
+    const { domain, types, message } = buildMessagingKeyTypedData(
+      chainId,
+      (await vault.getAddress()) as `0x${string}`,
+      signer.address as `0x${string}`,
+    );
+    const keyPair = await deriveMessagingKeyPair(
+      await signer.signTypedData(domain, { MessagingKey: [...types.MessagingKey] }, message),
+    );
+    const contents = await messageGrants.getGrantContents(grantId);
+    const context = { chainId, registry: grantsAddress, owner, grantee };
+    console.log(`Grant ${grantId} from ${owner}, until ${new Date(Number(expiresAt) * 1000).toISOString()}:`);
+    for (const [i, index] of indexes.entries()) {
+      const text = await openGrantedMessage(contents[i], keyPair, context, Number(index));
+      console.log(`[${index}] ${text ?? "(doesn't open with this messaging key)"}`);
+    }
+    keyPair.privateKey.fill(0);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost grants:revoke --grant 1
+ */
+task("grants:revoke", "Revokes a grant of the signer before its expiry")
+  .addOptionalParam("address", "Optionally specify the MessageGrants contract address")
+  .addOptionalParam("signer", "Index of the owner", "0")
+  .addParam("grant", "The grant id")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { messageGrants } = await getGrants(hre, taskArguments);
+
+    const tx = await messageGrants.revokeGrant(parseInt(taskArguments.grant));
+    console.log(`Wait for tx:${tx.hash}...`);
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+  });
@@ -0,0 +1,332 @@
+import { createServer, IncomingMessage } from "http";
+import { task } from "hardhat/config";
+import type { HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
+import { getAddress, isAddress, isHexString, verifyTypedData } from "ethers";
+import { buildStoreRequestTypedData, SignedStoreRequest, StoreRequest } from "../frontend/crypto/storeRequest";
+import type { WhisperVault } from "../types";
+import { HttpError, sendError, sendJson } from "./http";
+
+/**
+ * Tutorial: Gasless messages through a local relayer (--network localhost)
+ * ========================================================================
+ *
+ * The relayer takes store requests signed by vault owners (see frontend/crypto/storeRequest.ts),
+ * queues them and submits them to WhisperVault.storeMessagesWithSignature one at a time, paying
+ * the gas from a hardhat account.
+ *
+ * 1. With the node running and the contracts deployed, start the relayer in its own terminal
+ *
+ *   npx hardhat --network localhost relayer:start --port 8546
+ *
+ * 2. Send a message through it as another account; the frontend does the same when relaying is on
+ *
+ *   npx hardhat --network localhost relayer:send --message "Hello" --signer 1
+ *
+ * The relayer serves:
+ *   GET  /health        relayer and vault address, chain id, queue length
+ *   POST /requests      a SignedStoreRequest; replies 202 with the job id
+ *   GET  /requests/:id  the job: queued, submitted, mined or failed, with its tx hash or error
+ */
+
+const DEFAULT_PORT = 8546;
+const MAX_BODY_SIZE = 1024 * 1024;
+// Jobs kept for status queries, finished ones are dropped oldest first
+const MAX_JOBS = 1000;
+const MAX_QUEUED = 100;
+
+type JobStatus = "queued" | "submitted" | "mined" | "failed";
+
+interface RelayJob {
+  id: number;
+  request: StoreRequest;
+  signature: string;
+  status: JobStatus;
+  txHash?: string;
+  blockNumber?: number;
+  error?: string;
+}
+
+const isInteger = (value: unknown): value is number => typeof value === "number" && Number.isSafeInteger(value);
+
+/**
+ * Check the shape of a posted request; the signature and nonce are checked against the chain later
+ */
+function parseSignedRequest(body: unknown, maxBatchSize: number): SignedStoreRequest {
+  const { request, signature } = (body ?? {}) as Partial<SignedStoreRequest>;
+  if (!request || typeof signature !== "string" || !isHexString(signature, 65)) {
+    throw new HttpError(400, "Expected { request, signature } with a 65-byte signature");
+  }
+  const { user, threadId, encryptedContents, isResponses, nonce, deadline } = request;
+  if (typeof user !== "string" || !isAddress(user)) throw new HttpError(400, "Invalid user");
+  if (!isInteger(threadId) || threadId < 0) throw new HttpError(400, "Invalid thread id");
+  if (!isInteger(nonce) || nonce < 0 || !isInteger(deadline)) throw new HttpError(400, "Invalid nonce or deadline");
+  if (
+    !Array.isArray(encryptedContents) ||
+    !Array.isArray(isResponses) ||
+    encryptedContents.length === 0 ||
+    encryptedContents.length > maxBatchSize ||
+    encryptedContents.length !== isResponses.length ||
+    !encryptedContents.every((content) => typeof content === "string" && isHexString(content)) ||
+    !isResponses.every((flag) => typeof flag === "boolean")
+  ) {
+    throw new HttpError(400, `Expected 1 to ${maxBatchSize} hex contents with a response flag each`);
+  }
+  return { request: { user, threadId, encryptedContents, isResponses, nonce, deadline }, signature };
+}
+
+/**
+ * Queue of signed store requests, submitted in arrival order by one relayer account
+ *
+ * Requests are checked before they are queued: the signature must recover to the user, and the
+ * nonce must follow the user's on-chain nonce and their requests already queued, so a queued
+ * request only fails if the chain changes under it. When one does, its nonce stays unused and the
+ * user's later requests can no longer go through, so they are failed with it and have to be signed
+ * again from the on-chain nonce.
+ */
+export function createRelayQueue(vault: WhisperVault, chainId: number, vaultAddress: string) {
+  const jobs = new Map<number, RelayJob>();
+  const queue: RelayJob[] = [];
+  let nextId = 1;
+  let draining = false;
+
+  // Nonce the user's next request must carry: after their pending requests, or their on-chain nonce
+  const nextNonce = async (user: string) => {
+    const pending = [...jobs.values()].filter(
+      (job) => (job.status === "queued" || job.status === "submitted") && getAddress(job.request.user) === user,
+    );
+    if (pending.length > 0) return Math.max(...pending.map((job) => job.request.nonce)) + 1;
+    return Number(await vault.nonces(user));
+  };
+
+  const forgetFinished = () => {
+    for (const [id, job] of jobs) {
+      if (jobs.size <= MAX_JOBS) break;
+      if (job.status === "mined" || job.status === "failed") jobs.delete(id);
+    }
+  };
+
+  const submit = async (job: RelayJob) => {
+    const { request, signature } = job;
+    if (request.deadline < Date.now() / 1000) throw new Error("Request expired");
+    const args = [
+      request.user,
+      request.threadId,
+      request.encryptedContents,
+      request.isResponses,
+      request.deadline,
+      signature,
+    ] as const;
+    // Surface the revert reason instead of paying for a failing transaction
+    await vault.storeMessagesWithSignature.staticCall(...args);
+    const tx = await vault.storeMessagesWithSignature(...args);
+    job.status = "submitted";
+    job.txHash = tx.hash;
+    console.log(`[relayer] job ${job.id}: tx ${tx.hash}`);
+    const receipt = await tx.wait();
+    if (receipt?.status !== 1) throw new Error("Transaction reverted");
+    job.status = "mined";
+    job.blockNumber = receipt.blockNumber;
+  };
+
+  // Fail the user's queued jobs at once instead of submitting them with nonces that can't match
+  const failQueued = (user: string, error: string) => {
+    for (const job of queue.filter((queued) => getAddress(queued.request.user) === user)) {
+      queue.splice(queue.indexOf(job), 1);
+      job.status = "failed";
+      job.error = error;
+      console.log(`[relayer] job ${job.id}: failed, ${error}`);
+    }
+  };
+
+  const drain = async () => {
+    if (draining) return;
+    draining = true;
+    try {
+      for (let job = queue.shift(); job; job = queue.shift()) {
+        try {
+          await submit(job);
+          console.log(`[relayer] job ${job.id}: mined in block ${job.blockNumber}`);
+        } catch (err) {
+          job.status = "failed";
+          job.error = (err as { reason?: string }).reason ?? (err instanceof Error ? err.message : String(err));
+          console.log(`[relayer] job ${job.id}: failed, ${job.error}`);
+          failQueued(
+            getAddress(job.request.user),
+            `Job ${job.id} of the same user failed before it, sign it again with a new nonce`,
+          );
+        }
+      }
+    } finally {
+      draining = false;
+    }
+  };
+
+  const accept = async ({ request, signature }: SignedStoreRequest): Promise<RelayJob> => {
+    if (queue.length >= MAX_QUEUED) throw new HttpError(503, "Relayer queue is full, try again later");
+    if (request.deadline < Date.now() / 1000) throw new HttpError(400, "Request expired");
+
+    const user = getAddress(request.user);
+    const { domain, types, message } = buildStoreRequestTypedData(chainId, vaultAddress as `0x${string}`, request);
+    if (getAddress(verifyTypedData(domain, { StoreRequest: [...types.StoreRequest] }, message, signature)) !== user) {
+      throw new HttpError(401, "Signature doesn't match the user");
+    }
+    const expected = await nextNonce(user);
+    if (request.nonce !== expected) {
+      throw new HttpError(409, `Expected nonce ${expected}, got ${request.nonce}`);
+    }
+
+    const job: RelayJob = { id: nextId++, request, signature, status: "queued" };
+    jobs.set(job.id, job);
+    queue.push(job);
+    forgetFinished();
+    console.log(`[relayer] job ${job.id}: ${request.encryptedContents.length} messages for ${user}`);
+    // Submitted in the background; clients poll the job
+    void drain();
+    return job;
+  };
+
+  return { accept, get: (id: number) => jobs.get(id), queued: () => queue.length };
+}
+
+function readBody(req: IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_SIZE) {
+        reject(new HttpError(413, "Request too large"));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on("end", () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString("utf8")));
+      } catch {
+        reject(new HttpError(400, "Invalid JSON"));
+      }
+    });
+    req.on("error", reject);
+  });
+}
+
+async function getVault(hre: HardhatRuntimeEnvironment, taskArguments: TaskArguments) {
+  const { ethers, deployments } = hre;
+
+  const WhisperVaultDeployment = taskArguments.address
+    ? { address: taskArguments.address }
+    : await deployments.get("WhisperVault");
+  console.log(`WhisperVault: ${WhisperVaultDeployment.address}`);
+
+  const signers = await ethers.getSigners();
+  const signer = signers[parseInt(taskArguments.signer ?? "0")];
+  if (!signer) {
+    throw new Error(`No signer at index ${taskArguments.signer}`);
+  }
+
+  const vault = await ethers.getContractAt("WhisperVault", WhisperVaultDeployment.address);
+  const { chainId } = await ethers.provider.getNetwork();
+  return {
+    vault: vault.connect(signer),
+    vaultAddress: WhisperVaultDeployment.address,
+    signer,
+    chainId: Number(chainId),
+  };
+}
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost relayer:start --port 8546
+ */
+task("relayer:start", "Runs a relayer that submits signed store requests and pays their gas")
+  .addOptionalParam("address", "Optionally specify the WhisperVault contract address")
+  .addOptionalParam("signer", "Index of the account paying the gas", "0")
+  .addOptionalParam("port", "Port to listen on", String(DEFAULT_PORT))
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { vault, vaultAddress, signer, chainId } = await getVault(hre, taskArguments);
+    const maxBatchSize = Number(await vault.MAX_BATCH_SIZE());
+    const relay = createRelayQueue(vault, chainId, vaultAddress);
+
+    const server = createServer(async (req, res) => {
+      try {
+        const url = new URL(req.url ?? "/", "http://localhost");
+        const jobMatch = url.pathname.match(/^\/requests\/(\d+)$/);
+        if (req.method === "OPTIONS") {
+          sendJson(res, 204, null);
+        } else if (req.method === "GET" && url.pathname === "/health") {
+          sendJson(res, 200, { relayer: signer.address, vault: vaultAddress, chainId, queued: relay.queued() });
+        } else if (req.method === "POST" && url.pathname === "/requests") {
+          const job = await relay.accept(parseSignedRequest(await readBody(req), maxBatchSize));
+          sendJson(res, 202, { id: job.id, status: job.status });
+        } else if (req.method === "GET" && jobMatch) {
+          const job = relay.get(Number(jobMatch[1]));
+          if (!job) throw new HttpError(404, "Unknown job");
+          const { id, status, txHash, blockNumber, error } = job;
+          sendJson(res, 200, { id, status, txHash, blockNumber, error });
+        } else {
+          throw new HttpError(404, "Not found");
+        }
+      } catch (err) {
+        sendError(res, err, "relayer");
+      }
+    });
+
+    const port = parseInt(taskArguments.port);
+    await new Promise<void>((resolve) => server.listen(port, resolve));
+    console.log(`Relayer ${signer.address} listening on http://localhost:${port} (chain ${chainId})`);
+
+    // Serve until interrupted
+    await new Promise<void>((resolve) => {
+      process.once("SIGINT", () => {
+        console.log("Stopping relayer...");
+        server.close(() => resolve());
+      });
+    });
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost relayer:send --message "Hello" --signer 1
+ */
+task("relayer:send", "Signs a message and its store request, and sends it through the relayer")
+  .addOptionalParam("address", "Optionally specify the WhisperVault contract address")
+  .addOptionalParam("signer", "Index of the vault owner", "0")
+  .addOptionalParam("relayer", "Relayer URL", `http://localhost:${DEFAULT_PORT}`)
+  .addOptionalParam("thread", "Thread id, 0 for the default conversation", "0")
+  .addParam("message", "The message to store (only hex-encoded, like whisper:store without --password)")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+    const { vault, vaultAddress, signer, chainId } = await getVault(hre, taskArguments);
+
+    const request: StoreRequest = {
+      user: signer.address as `0x${string}`,
+      threadId: parseInt(taskArguments.thread),
+      encryptedContents: [ethers.hexlify(ethers.toUtf8Bytes(taskArguments.message)) as `0x${string}`],
+      isResponses: [false],
+      nonce: Number(await vault.nonces(signer.address)),
+      deadline: Math.floor(Date.now() / 1000) + 600,
+    };
+    const { domain, types, message } = buildStoreRequestTypedData(chainId, vaultAddress as `0x${string}`, request);
+    const signature = await signer.signTypedData(domain, { StoreRequest: [...types.StoreRequest] }, message);
+
+    const posted = await fetch(`${taskArguments.relayer}/requests`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ request, signature }),
+    });
+    const { id, error } = await posted.json();
+    if (!posted.ok) throw new Error(`Relayer refused the request: ${error}`);
+    console.log(`Queued as job ${id}, nonce ${request.nonce}`);
+
+    for (;;) {
+      const job = await (await fetch(`${taskArguments.relayer}/requests/${id}`)).json();
+      if (job.status === "mined") {
+        console.log(`Stored in tx:${job.txHash} (block ${job.blockNumber})`);
+        return;
+      }
+      if (job.status === "failed") throw new Error(`Relaying failed: ${job.error}`);
+      await new Promise((resolve) => setTimeout(resolve, 1000));
+    }
+  });
@@ -0,0 +1,126 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { task } from "hardhat/config";
+import type { HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
+
+/**
+ * Tutorial: Escrowed vault keys on a local node (--network localhost)
+ * ===================================================================
+ *
+ * The app stores the vault data key from the browser. These tasks manage who may decrypt it.
+ *
+ * 1. Let another account decrypt the key, or take that back
+ *
+ *   npx hardhat --network localhost escrow:grant --grantee 0x...
+ *   npx hardhat --network localhost escrow:revoke --grantee 0x...
+ *
+ * 2. Show the key, its grantees and the vaults shared with the signer
+ *
+ *   npx hardhat --network localhost escrow:show
+ *
+ * 3. Decrypt the chunks of a key the signer has access to
+ *
+ *   npx hardhat --network localhost escrow:decrypt --owner 0x... --signer 1
+ *
+ * --signer picks an account from `npx hardhat accounts` by index (0 by default).
+ */
+
+async function getEscrow(hre: HardhatRuntimeEnvironment, taskArguments: TaskArguments) {
+  const { ethers, deployments, fhevm } = hre;
+
+  await fhevm.initializeCLIApi();
+
+  const VaultKeyEscrowDeployment = taskArguments.address
+    ? { address: taskArguments.address }
+    : await deployments.get("VaultKeyEscrow");
+  console.log(`VaultKeyEscrow: ${VaultKeyEscrowDeployment.address}`);
+
+  const signers = await ethers.getSigners();
+  const signer = signers[parseInt(taskArguments.signer ?? "0")];
+  if (!signer) {
+    throw new Error(`No signer at index ${taskArguments.signer}`);
+  }
+
+  const vaultKeyEscrow = await ethers.getContractAt("VaultKeyEscrow", VaultKeyEscrowDeployment.address);
+  return { vaultKeyEscrow: vaultKeyEscrow.connect(signer), escrowAddress: VaultKeyEscrowDeployment.address, signer };
+}
+
+async function waitFor(tx: { hash: string; wait: () => Promise<{ status?: number | null } | null> }) {
+  console.log(`Wait for tx:${tx.hash}...`);
+  const receipt = await tx.wait();
+  console.log(`tx:${tx.hash} status=${receipt?.status}`);
+}
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost escrow:grant --grantee 0x...
+ */
+task("escrow:grant", "Lets an account decrypt the signer's escrowed vault key")
+  .addOptionalParam("address", "Optionally specify the VaultKeyEscrow contract address")
+  .addOptionalParam("signer", "Index of the key owner", "0")
+  .addParam("grantee", "The account to share the key with")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { vaultKeyEscrow } = await getEscrow(hre, taskArguments);
+    await waitFor(await vaultKeyEscrow.grantAccess(taskArguments.grantee));
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost escrow:revoke --grantee 0x...
+ */
+task("escrow:revoke", "Revokes an account's access, moving the key to new handles")
+  .addOptionalParam("address", "Optionally specify the VaultKeyEscrow contract address")
+  .addOptionalParam("signer", "Index of the key owner", "0")
+  .addParam("grantee", "The account to revoke")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { vaultKeyEscrow } = await getEscrow(hre, taskArguments);
+    await waitFor(await vaultKeyEscrow.revokeAccess(taskArguments.grantee));
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost escrow:show
+ */
+task("escrow:show", "Shows the signer's escrowed key, its grantees and the keys shared with the signer")
+  .addOptionalParam("address", "Optionally specify the VaultKeyEscrow contract address")
+  .addOptionalParam("signer", "Index of the account", "0")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { vaultKeyEscrow, signer } = await getEscrow(hre, taskArguments);
+
+    const [chunks, keyCommitment, epoch] = await vaultKeyEscrow.getKey(signer.address);
+    if (chunks.length === 0) {
+      console.log(`No key stored for ${signer.address}`);
+    } else {
+      console.log(`Key of ${signer.address}: epoch=${epoch} commitment=${keyCommitment}`);
+      for (const grantee of await vaultKeyEscrow.getGrantees(signer.address)) {
+        console.log(`  shared with ${grantee}`);
+      }
+    }
+    for (const owner of await vaultKeyEscrow.getSharedWith(signer.address)) {
+      console.log(`Key of ${owner} is shared with ${signer.address}`);
+    }
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost escrow:decrypt
+ *   - npx hardhat --network localhost escrow:decrypt --owner 0x... --signer 1
+ */
+task("escrow:decrypt", "Decrypts the chunks of an escrowed key the signer may decrypt")
+  .addOptionalParam("address", "Optionally specify the VaultKeyEscrow contract address")
+  .addOptionalParam("signer", "Index of the account decrypting", "0")
+  .addOptionalParam("owner", "The key owner, the signer by default")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { fhevm } = hre;
+    const { vaultKeyEscrow, escrowAddress, signer } = await getEscrow(hre, taskArguments);
+    const owner = taskArguments.owner ?? signer.address;
+
+    const [chunks, keyCommitment] = await vaultKeyEscrow.getKey(owner);
+    if (chunks.length === 0) {
+      throw new Error(`No key stored for ${owner}`);
+    }
+    for (const [i, chunk] of chunks.entries()) {
+      const value = await fhevm.userDecryptEuint(FhevmType.euint256, chunk, escrowAddress, signer);
+      console.log(`chunk[${i}]=0x${value.toString(16)}`);
+    }
+    console.log(`commitment=${keyCommitment}`);
+  });
@@ -1,5 +1,22 @@
 import { task } from "hardhat/config";
-import type { TaskArguments } from "hardhat/types";
+import type { HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import {
+  buildMessagingKeyTypedData,
+  decryptDirectMessage,
+  deriveMessagingKeyPair,
+  encryptDirectMessage,
+} from "../frontend/crypto/direct";
+import { createVaultKeyParams, encryptWithKey, getEnvelopeSize, getVaultKeyParams } from "../frontend/crypto/envelope";
+import { verifyKeyCheck } from "../frontend/crypto/keyCheck";
+import {
+  decodeKeyring,
+  getDataKeyParams,
+  getKeyringEntries,
+  importDataKey,
+  unwrapDataKey,
+} from "../frontend/crypto/keyring";
+import { deriveKey, isWalletKdf } from "../frontend/crypto/kdf";
 
 /**
  * Tutorial: Deploy and Interact Locally (--network localhost)
@@ -17,9 +34,18 @@ import type { TaskArguments } from "hardhat/types";
  *
  *   npx hardhat --network localhost whisper:address
  *   npx hardhat --network localhost whisper:count --user <address>
+ *   npx hardhat --network localhost whisper:list --user <address> --offset 0 --limit 20
  *   npx hardhat --network localhost whisper:store --message "Hello World"
+ *   npx hardhat --network localhost whisper:store --message "Hello World" --password "secret"
  *   npx hardhat --network localhost whisper:clear
  *
+ * 4. Send direct messages between two accounts (--signer picks an account by index)
+ *
+ *   npx hardhat --network localhost whisper:dm-key --signer 0
+ *   npx hardhat --network localhost whisper:dm-key --signer 1
+ *   npx hardhat --network localhost whisper:dm-send --to <address of signer 1> --message "Hi"
+ *   npx hardhat --network localhost whisper:dm-read --peer <address of signer 0> --signer 1
+ *
  *
  * Tutorial: Deploy and Interact on Sepolia (--network sepolia)
  * ===========================================================
@@ -32,6 +58,7 @@ import type { TaskArguments } from "hardhat/types";
  *
  *   npx hardhat --network sepolia whisper:address
  *   npx hardhat --network sepolia whisper:count --user <address>
+ *   npx hardhat --network sepolia whisper:list --user <address>
  *
  */
 
@@ -74,12 +101,101 @@ task("whisper:count", "Gets the message count for a user")
   });
 
 /**
+ * Lists a page of messages, newest first: --offset skips that many of the newest messages.
+ * With --oldest the page is taken from the start instead and --offset is a message index.
+ * With --thread only that thread's messages are paged (0 is the default conversation), and
+ * --offset counts messages of the thread.
+ *
+ * Example:
+ *   - npx hardhat --network localhost whisper:list --user 0x...
+ *   - npx hardhat --network localhost whisper:list --user 0x... --offset 20 --limit 20
+ *   - npx hardhat --network localhost whisper:list --user 0x... --oldest --offset 0 --limit 50
+ *   - npx hardhat --network localhost whisper:list --user 0x... --thread 1
+ *   - npx hardhat --network sepolia whisper:list --user 0x...
+ */
+task("whisper:list", "Lists a page of a user's messages")
+  .addOptionalParam("address", "Optionally specify the WhisperVault contract address")
+  .addParam("user", "The user address to list messages for")
+  .addOptionalParam("offset", "Number of messages to skip", "0")
+  .addOptionalParam("limit", "Maximum number of messages to list", "20")
+  .addFlag("oldest", "Page from the oldest message instead of the newest")
+  .addOptionalParam("thread", "Only list the messages of this thread (0 is the default conversation)")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+
+    const WhisperVaultDeployment = taskArguments.address
+      ? { address: taskArguments.address }
+      : await deployments.get("WhisperVault");
+    console.log(`WhisperVault: ${WhisperVaultDeployment.address}`);
+
+    const whisperVaultContract = await ethers.getContractAt("WhisperVault", WhisperVaultDeployment.address);
+
+    const offset = parseInt(taskArguments.offset);
+    const limit = parseInt(taskArguments.limit);
+    if (!Number.isInteger(offset) || offset < 0 || !Number.isInteger(limit) || limit < 1) {
+      throw new Error("--offset must be 0 or more and --limit at least 1");
+    }
+
+    let messages: Awaited<ReturnType<typeof whisperVaultContract.getMessagesRange>>;
+    let indexOf: (position: number) => number;
+    let total: number;
+    if (taskArguments.thread !== undefined) {
+      const thread = parseInt(taskArguments.thread);
+      if (!Number.isInteger(thread) || thread < 0) throw new Error("--thread must be a thread id");
+      let indexes: bigint[];
+      if (taskArguments.oldest) {
+        const [, counts] = await whisperVaultContract.getThreads(taskArguments.user);
+        total = Number(counts[thread] ?? 0);
+        [messages, indexes] = await whisperVaultContract.getThreadMessagesRange(taskArguments.user, thread, offset, limit);
+      } else {
+        let count: bigint;
+        [messages, indexes, count] = await whisperVaultContract.getLatestThreadMessages(
+          taskArguments.user,
+          thread,
+          offset,
+          limit,
+        );
+        total = Number(count);
+      }
+      indexOf = (position) => Number(indexes[position]);
+    } else if (taskArguments.oldest) {
+      total = Number(await whisperVaultContract.getMessageCount(taskArguments.user));
+      messages = await whisperVaultContract.getMessagesRange(taskArguments.user, offset, limit);
+      indexOf = (position) => offset + position;
+    } else {
+      let count: bigint;
+      [messages, count] = await whisperVaultContract.getLatestMessages(taskArguments.user, offset, limit);
+      total = Number(count);
+      indexOf = (position) => total - 1 - offset - position;
+    }
+
+    const scope = taskArguments.thread !== undefined ? ` in thread ${taskArguments.thread}` : "";
+    console.log(`Showing ${messages.length} of ${total} messages${scope} for ${taskArguments.user}`);
+    messages.forEach((msg, position) => {
+      const time = new Date(Number(msg.timestamp) * 1000).toISOString();
+      const kind = msg.isResponse ? "response" : "message";
+      // Deleted messages leave a tombstone without content
+      const size = msg.encryptedContent === "0x" ? "deleted" : `${ethers.dataLength(msg.encryptedContent)} bytes`;
+      const labeled = msg.label !== "0x" ? ", labeled" : "";
+      console.log(`  #${indexOf(position)} ${time} ${kind} from ${msg.sender}, ${size}${labeled}`);
+    });
+  });
+
+/**
+ * With --password the message is encrypted exactly like the frontend does it (compressed
+ * when that saves space, AES-GCM bound to owner, chain, vault and index). Compression uses
+ * CompressionStream where the Node runtime provides it and a pure JS deflate otherwise.
+ * If the vault has a key check or keyring (set up in the frontend), a wrong password is refused
+ * and the vault's own key settings, or its data key, are used.
+ *
  * Example:
  *   - npx hardhat --network localhost whisper:store --message "Hello"
+ *   - npx hardhat --network localhost whisper:store --message "Hello" --password "secret"
  *   - npx hardhat --network sepolia whisper:store --message "Hello"
  */
 task("whisper:store", "Stores an encrypted message")
   .addOptionalParam("address", "Optionally specify the WhisperVault contract address")
+  .addOptionalParam("password", "Encrypt with this password (otherwise the message is only hex-encoded)")
   .addParam("message", "The message to encrypt and store")
   .setAction(async function (taskArguments: TaskArguments, hre) {
     const { ethers, deployments } = hre;
@@ -92,9 +208,48 @@ task("whisper:store", "Stores an encrypted message")
     const signers = await ethers.getSigners();
     const whisperVaultContract = await ethers.getContractAt("WhisperVault", WhisperVaultDeployment.address);
 
-    // Encode message as hex bytes (simulating client-side AES encryption)
-    const messageBytes = ethers.toUtf8Bytes(taskArguments.message);
-    const messageHex = ethers.hexlify(messageBytes);
+    let messageHex: string;
+    if (taskArguments.password) {
+      const { chainId } = await ethers.provider.getNetwork();
+      const sequence = await whisperVaultContract.getMessageCount(signers[0].address);
+      const vault = { owner: signers[0].address, chainId: Number(chainId), vault: WhisperVaultDeployment.address };
+      const options = { context: { ...vault, sequence: Number(sequence) } };
+
+      // Keyring vaults encrypt with their data key, which the password unwraps
+      const keyCheck = await whisperVaultContract.getKeyCheck(signers[0].address);
+      const keyring = keyCheck === "0x" ? null : decodeKeyring(keyCheck);
+      const unlockEntry = keyring ? getKeyringEntries(keyring).unlock : keyCheck;
+      const unlockParams = keyCheck === "0x" ? createVaultKeyParams() : getVaultKeyParams(unlockEntry ?? "");
+      if (!unlockEntry || !unlockParams) {
+        throw new Error("The vault's key check is unreadable");
+      }
+      if (isWalletKdf(unlockParams.kdf)) {
+        throw new Error("This vault uses a wallet key, store messages from the frontend instead");
+      }
+
+      let params = unlockParams;
+      let key = await deriveKey(taskArguments.password, unlockParams.kdf, unlockParams.salt);
+      if (keyring) {
+        const dataKey = await unwrapDataKey(unlockEntry, key, vault);
+        if (!dataKey) {
+          throw new Error("Wrong password for this vault");
+        }
+        params = getDataKeyParams(dataKey);
+        key = await importDataKey(dataKey);
+      } else if (keyCheck !== "0x" && !(await verifyKeyCheck(keyCheck, key, vault))) {
+        throw new Error("Wrong password for this vault");
+      }
+      messageHex = "0x" + (await encryptWithKey(taskArguments.message, key, params, options));
+      const plainSize = ethers.toUtf8Bytes(taskArguments.message).length;
+      const uncompressedSize = await getEnvelopeSize(taskArguments.message, params, { ...options, compress: false });
+      console.log(
+        `Encrypted ${plainSize} bytes into ${ethers.dataLength(messageHex)} bytes (${uncompressedSize} without compression)`,
+      );
+    } else {
+      // Encode message as hex bytes (simulating client-side AES encryption)
+      const messageBytes = ethers.toUtf8Bytes(taskArguments.message);
+      messageHex = ethers.hexlify(messageBytes);
+    }
 
     console.log("Storing message...");
     const tx = await whisperVaultContract
@@ -167,3 +322,142 @@ task("whisper:metadata", "Gets message metadata")
     console.log(`  Timestamp: ${new Date(Number(timestamp) * 1000).toISOString()}`);
     console.log(`  Is Response: ${isResponse}`);
   });
+
+async function getDirectMessaging(hre: HardhatRuntimeEnvironment, taskArguments: TaskArguments) {
+  const { ethers, deployments } = hre;
+
+  const WhisperVaultDeployment = taskArguments.address
+    ? { address: taskArguments.address }
+    : await deployments.get("WhisperVault");
+  console.log(`WhisperVault: ${WhisperVaultDeployment.address}`);
+
+  const signers = await ethers.getSigners();
+  const signer = signers[parseInt(taskArguments.signer ?? "0")];
+  if (!signer) {
+    throw new Error(`No signer at index ${taskArguments.signer}`);
+  }
+
+  const whisperVaultContract = await ethers.getContractAt("WhisperVault", WhisperVaultDeployment.address);
+  const { chainId } = await ethers.provider.getNetwork();
+  return {
+    whisperVaultContract: whisperVaultContract.connect(signer),
+    vaultAddress: WhisperVaultDeployment.address as `0x${string}`,
+    signer,
+    chainId: Number(chainId),
+  };
+}
+
+async function signMessagingKeyPair(signer: HardhatEthersSigner, chainId: number, vaultAddress: `0x${string}`) {
+  const { domain, types, message } = buildMessagingKeyTypedData(chainId, vaultAddress, signer.address as `0x${string}`);
+  return deriveMessagingKeyPair(await signer.signTypedData(domain, { MessagingKey: [...types.MessagingKey] }, message));
+}
+
+/**
+ * The key is derived from an EIP-712 signature exactly like the frontend does it, so an account
+ * can use either.
+ *
+ * Example:
+ *   - npx hardhat --network localhost whisper:dm-key --signer 1
+ */
+task("whisper:dm-key", "Publishes the messaging key direct messages are encrypted to")
+  .addOptionalParam("address", "Optionally specify the WhisperVault contract address")
+  .addOptionalParam("signer", "Index of the account", "0")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { whisperVaultContract, vaultAddress, signer, chainId } = await getDirectMessaging(hre, taskArguments);
+
+    const keyPair = await signMessagingKeyPair(signer, chainId, vaultAddress);
+    const publicKey = hre.ethers.hexlify(keyPair.publicKey);
+    const tx = await whisperVaultContract.setMessagingKey(publicKey);
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+    console.log(`Messaging key of ${signer.address}: ${publicKey}`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost whisper:dm-send --to 0x... --message "Hello"
+ */
+task("whisper:dm-send", "Sends a direct message to another address")
+  .addOptionalParam("address", "Optionally specify the WhisperVault contract address")
+  .addOptionalParam("signer", "Index of the sending account", "0")
+  .addParam("to", "The recipient address")
+  .addParam("message", "The message to encrypt and send")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+    const { whisperVaultContract, vaultAddress, signer, chainId } = await getDirectMessaging(hre, taskArguments);
+
+    const recipient = ethers.getAddress(taskArguments.to);
+    const [senderKey, recipientKey] = await Promise.all([
+      whisperVaultContract.getMessagingKey(signer.address),
+      whisperVaultContract.getMessagingKey(recipient),
+    ]);
+    if (senderKey === ethers.ZeroHash) {
+      throw new Error("Publish a messaging key first, see whisper:dm-key");
+    }
+    if (recipientKey === ethers.ZeroHash) {
+      throw new Error(`${recipient} hasn't published a messaging key yet`);
+    }
+
+    const encrypted = await encryptDirectMessage(
+      taskArguments.message,
+      { sender: signer.address, recipient, chainId, vault: vaultAddress },
+      senderKey,
+      recipientKey,
+    );
+    const tx = await whisperVaultContract.sendDirectMessage(recipient, encrypted);
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+    console.log(`Sent ${ethers.dataLength(encrypted)} bytes to ${recipient}`);
+  });
+
+/**
+ * Lists the inbox of the account, or decrypts a page of one conversation with --peer
+ *
+ * Example:
+ *   - npx hardhat --network localhost whisper:dm-read --signer 1
+ *   - npx hardhat --network localhost whisper:dm-read --signer 1 --peer 0x... --limit 20
+ */
+task("whisper:dm-read", "Lists or decrypts direct messages")
+  .addOptionalParam("address", "Optionally specify the WhisperVault contract address")
+  .addOptionalParam("signer", "Index of the reading account", "0")
+  .addOptionalParam("peer", "Show the conversation with this address")
+  .addOptionalParam("limit", "Number of newest messages to show", "20")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+    const { whisperVaultContract, vaultAddress, signer, chainId } = await getDirectMessaging(hre, taskArguments);
+
+    if (!taskArguments.peer) {
+      const [peers, counts, lastTimestamps] = await whisperVaultContract.getInbox(signer.address);
+      console.log(`${peers.length} conversation(s) of ${signer.address}`);
+      peers.forEach((peer, i) => {
+        const last = new Date(Number(lastTimestamps[i]) * 1000).toISOString();
+        console.log(`  ${peer}: ${counts[i]} message(s), latest ${last}`);
+      });
+      return;
+    }
+
+    const limit = parseInt(taskArguments.limit);
+    if (!Number.isInteger(limit) || limit <= 0) {
+      throw new Error("--limit must be a positive integer");
+    }
+    const peer = ethers.getAddress(taskArguments.peer);
+    const keyPair = await signMessagingKeyPair(signer, chainId, vaultAddress);
+    const [page, total] = await whisperVaultContract.getLatestDirectMessages(signer.address, peer, 0, limit);
+    console.log(`Showing ${page.length} of ${total} message(s) with ${peer}`);
+
+    for (const [i, message] of [...page].reverse().entries()) {
+      const fromMe = message.sender === signer.address;
+      const text = await decryptDirectMessage(message.encryptedContent, keyPair, {
+        sender: message.sender,
+        recipient: fromMe ? peer : signer.address,
+        chainId,
+        vault: vaultAddress,
+      });
+      const position = Number(total) - page.length + i;
+      console.log(`  #${position} ${fromMe ? "You" : "Them"}: ${text ?? "(can't be decrypted with this key)"}`);
+    }
+  });
@@ -0,0 +1,40 @@
+import type { ServerResponse } from "http";
+
+/**
+ * Helpers of the JSON services run from hardhat tasks (relayer:start, indexer:start)
+ */
+
+/**
+ * An error reported to the client with an HTTP status
+ */
+export class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Reply with a JSON body, readable from the frontend's origin
+ */
+export function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, {
+    "Content-Type": "application/json",
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+    "Access-Control-Allow-Headers": "Content-Type",
+  });
+  res.end(status === 204 ? undefined : JSON.stringify(body));
+}
+
+/**
+ * Reply with the status of an HttpError, or 500 for anything unexpected
+ */
+export function sendError(res: ServerResponse, err: unknown, tag: string) {
+  if (!(err instanceof HttpError)) console.error(`[${tag}] request failed:`, err);
+  sendJson(res, err instanceof HttpError ? err.status : 500, {
+    error: err instanceof Error ? err.message : "Unexpected error",
+  });
+}
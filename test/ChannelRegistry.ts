@@ -0,0 +1,246 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { ethers } from "hardhat";
+import { ChannelRegistry, ChannelRegistry__factory, WhisperVault, WhisperVault__factory } from "../types";
+import { expect } from "chai";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+  carol: HardhatEthersSigner;
+  dave: HardhatEthersSigner;
+};
+
+// Helper functions to create keys and ciphertexts (simulated for tests)
+function messagingKey(name: string): string {
+  // In production, this is an X25519 public key derived from a wallet signature
+  return ethers.keccak256(ethers.toUtf8Bytes(`key:${name}`));
+}
+
+function wrapKey(reader: string, epoch: number): string {
+  // In production, the channel key is sealed to the reader's messaging key (see frontend/crypto/channels.ts)
+  return ethers.hexlify(ethers.toUtf8Bytes(`channel key ${epoch} for ${reader}`));
+}
+
+function encrypt(text: string): string {
+  // In production, names and posts are AES-GCM encrypted with the channel key
+  return ethers.hexlify(ethers.toUtf8Bytes(text));
+}
+
+async function deployFixture() {
+  const vaultFactory = (await ethers.getContractFactory("WhisperVault")) as WhisperVault__factory;
+  const whisperVaultContract = (await vaultFactory.deploy()) as WhisperVault;
+  const factory = (await ethers.getContractFactory("ChannelRegistry")) as ChannelRegistry__factory;
+  const channelRegistryContract = (await factory.deploy(await whisperVaultContract.getAddress())) as ChannelRegistry;
+
+  return { whisperVaultContract, channelRegistryContract };
+}
+
+describe("ChannelRegistry", function () {
+  let signers: Signers;
+  let whisperVaultContract: WhisperVault;
+  let channelRegistryContract: ChannelRegistry;
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = {
+      deployer: ethSigners[0],
+      alice: ethSigners[1],
+      bob: ethSigners[2],
+      carol: ethSigners[3],
+      dave: ethSigners[4],
+    };
+  });
+
+  beforeEach(async function () {
+    ({ whisperVaultContract, channelRegistryContract } = await deployFixture());
+
+    for (const [name, signer] of [
+      ["alice", signers.alice],
+      ["bob", signers.bob],
+      ["carol", signers.carol],
+      ["dave", signers.dave],
+    ] as const) {
+      await whisperVaultContract.connect(signer).setMessagingKey(messagingKey(name));
+    }
+  });
+
+  // Alice publishes channel 1, Bob and Carol ask to read it
+  async function createChannel() {
+    await channelRegistryContract.connect(signers.alice).createChannel(encrypt("News"), wrapKey("alice", 1));
+    await channelRegistryContract.connect(signers.bob).requestSubscription(1);
+    await channelRegistryContract.connect(signers.carol).requestSubscription(1);
+  }
+
+  // Alice approves Bob and Carol under key epoch 2
+  async function approveBobAndCarol() {
+    await channelRegistryContract.connect(signers.alice).updateSubscribers(
+      1,
+      [signers.bob.address, signers.carol.address],
+      [],
+      encrypt("News"),
+      [signers.alice.address, signers.bob.address, signers.carol.address].map((reader) => wrapKey(reader, 2)),
+    );
+  }
+
+  it("should create a channel with its creator as publisher", async function () {
+    await expect(channelRegistryContract.connect(signers.alice).createChannel(encrypt("News"), wrapKey("alice", 1)))
+      .to.emit(channelRegistryContract, "ChannelCreated")
+      .withArgs(1, signers.alice.address)
+      .and.to.emit(channelRegistryContract, "ChannelKeyRotated")
+      .withArgs(1, 1, 0);
+
+    const [channel, postCount] = await channelRegistryContract.getChannel(1);
+    expect(channel.publisher).to.eq(signers.alice.address);
+    expect(channel.name).to.eq(encrypt("News"));
+    expect(channel.epoch).to.eq(1);
+    expect(postCount).to.eq(0);
+    expect(await channelRegistryContract.getStatus(1, signers.alice.address)).to.eq(3);
+    expect(await channelRegistryContract.getWrappedKey(1, 1, signers.alice.address)).to.eq(wrapKey("alice", 1));
+
+    await expect(
+      channelRegistryContract.connect(signers.deployer).createChannel(encrypt("News"), wrapKey("deployer", 1)),
+    ).to.be.revertedWith("Channels: Publisher has no key");
+  });
+
+  it("should approve subscribers from their requests under a new key", async function () {
+    await createChannel();
+    expect(await channelRegistryContract.getRequests(1)).to.deep.eq([signers.bob.address, signers.carol.address]);
+    expect(await channelRegistryContract.getStatus(1, signers.bob.address)).to.eq(1);
+    const [pendingIds, pendingStatuses] = await channelRegistryContract.getChannelsOf(signers.bob.address);
+    expect(pendingIds).to.deep.eq([1n]);
+    expect(pendingStatuses).to.deep.eq([1n]);
+
+    await expect(
+      channelRegistryContract
+        .connect(signers.alice)
+        .updateSubscribers(1, [signers.bob.address], [], encrypt("News"), [wrapKey("alice", 2), wrapKey("bob", 2)]),
+    )
+      .to.emit(channelRegistryContract, "SubscriberAdded")
+      .withArgs(1, signers.bob.address)
+      .and.to.emit(channelRegistryContract, "ChannelKeyRotated")
+      .withArgs(1, 2, 1);
+
+    expect(await channelRegistryContract.getSubscribers(1)).to.deep.eq([signers.bob.address]);
+    expect(await channelRegistryContract.getRequests(1)).to.deep.eq([signers.carol.address]);
+    expect(await channelRegistryContract.getStatus(1, signers.bob.address)).to.eq(2);
+    expect(await channelRegistryContract.getWrappedKey(1, 2, signers.bob.address)).to.eq(wrapKey("bob", 2));
+    expect(await channelRegistryContract.getWrappedKey(1, 1, signers.bob.address)).to.eq("0x");
+
+    // Carol's request is rejected, Dave's is withdrawn
+    await channelRegistryContract.connect(signers.dave).requestSubscription(1);
+    await expect(channelRegistryContract.connect(signers.alice).rejectRequests(1, [signers.carol.address]))
+      .to.emit(channelRegistryContract, "SubscriptionRequestClosed")
+      .withArgs(1, signers.carol.address, true);
+    await expect(channelRegistryContract.connect(signers.dave).cancelRequest(1))
+      .to.emit(channelRegistryContract, "SubscriptionRequestClosed")
+      .withArgs(1, signers.dave.address, false);
+    expect(await channelRegistryContract.getRequests(1)).to.deep.eq([]);
+    expect((await channelRegistryContract.getChannelsOf(signers.carol.address))[0]).to.deep.eq([]);
+  });
+
+  it("should only let the publisher post", async function () {
+    await createChannel();
+    await approveBobAndCarol();
+
+    await expect(channelRegistryContract.connect(signers.alice).publish(1, encrypt("First post")))
+      .to.emit(channelRegistryContract, "PostPublished")
+      .withArgs(1, 0, 2, encrypt("First post").length / 2 - 1);
+    await channelRegistryContract.connect(signers.alice).publish(1, encrypt("Second post"));
+
+    const [latest, total] = await channelRegistryContract.getLatestPosts(1, 0, 1);
+    expect(total).to.eq(2);
+    expect(latest[0].encryptedContent).to.eq(encrypt("Second post"));
+    const [first] = await channelRegistryContract.getPostsRange(1, 0, 1);
+    expect(first.epoch).to.eq(2);
+
+    await expect(channelRegistryContract.connect(signers.bob).publish(1, encrypt("Me too"))).to.be.revertedWith(
+      "Channels: Not the publisher",
+    );
+    await expect(channelRegistryContract.connect(signers.alice).publish(1, "0x")).to.be.revertedWith("Empty message");
+  });
+
+  it("should rotate the key when a subscriber is removed", async function () {
+    await createChannel();
+    await approveBobAndCarol();
+
+    await expect(
+      channelRegistryContract
+        .connect(signers.alice)
+        .updateSubscribers(1, [], [signers.bob.address], encrypt("News"), [wrapKey("alice", 3), wrapKey("carol", 3)]),
+    )
+      .to.emit(channelRegistryContract, "SubscriberRemoved")
+      .withArgs(1, signers.bob.address)
+      .and.to.emit(channelRegistryContract, "ChannelKeyRotated")
+      .withArgs(1, 3, 1);
+
+    expect(await channelRegistryContract.getSubscribers(1)).to.deep.eq([signers.carol.address]);
+    expect(await channelRegistryContract.getWrappedKey(1, 3, signers.bob.address)).to.eq("0x");
+    expect(await channelRegistryContract.getWrappedKey(1, 2, signers.bob.address)).to.eq(
+      wrapKey(signers.bob.address, 2),
+    );
+    expect(await channelRegistryContract.getStatus(1, signers.bob.address)).to.eq(0);
+    expect((await channelRegistryContract.getChannelsOf(signers.bob.address))[0]).to.deep.eq([]);
+  });
+
+  it("should need a new key after a subscriber unsubscribes", async function () {
+    await createChannel();
+    await approveBobAndCarol();
+
+    await expect(channelRegistryContract.connect(signers.carol).unsubscribe(1))
+      .to.emit(channelRegistryContract, "SubscriberRemoved")
+      .withArgs(1, signers.carol.address);
+    expect((await channelRegistryContract.getChannel(1))[0].rekeyNeeded).to.eq(true);
+    await expect(channelRegistryContract.connect(signers.alice).publish(1, encrypt("Hello"))).to.be.revertedWith(
+      "Channels: Key rotation pending",
+    );
+
+    await channelRegistryContract
+      .connect(signers.alice)
+      .updateSubscribers(1, [], [], encrypt("News"), [wrapKey("alice", 3), wrapKey("bob", 3)]);
+    const [channel] = await channelRegistryContract.getChannel(1);
+    expect(channel.rekeyNeeded).to.eq(false);
+    expect(channel.epoch).to.eq(3);
+    await channelRegistryContract.connect(signers.alice).publish(1, encrypt("Hello"));
+  });
+
+  it("should revert on invalid subscriber changes", async function () {
+    await createChannel();
+
+    await expect(channelRegistryContract.connect(signers.bob).requestSubscription(1)).to.be.revertedWith(
+      "Channels: Already subscribed or pending",
+    );
+    await expect(channelRegistryContract.connect(signers.deployer).requestSubscription(1)).to.be.revertedWith(
+      "Channels: Subscriber has no key",
+    );
+    await expect(channelRegistryContract.connect(signers.bob).requestSubscription(2)).to.be.revertedWith(
+      "Channels: Unknown channel",
+    );
+    await expect(
+      channelRegistryContract
+        .connect(signers.bob)
+        .updateSubscribers(1, [signers.carol.address], [], encrypt("News"), [wrapKey("alice", 2), wrapKey("carol", 2)]),
+    ).to.be.revertedWith("Channels: Not the publisher");
+    await expect(
+      channelRegistryContract
+        .connect(signers.alice)
+        .updateSubscribers(1, [signers.dave.address], [], encrypt("News"), [wrapKey("alice", 2), wrapKey("dave", 2)]),
+    ).to.be.revertedWith("Channels: No pending request");
+    await expect(
+      channelRegistryContract
+        .connect(signers.alice)
+        .updateSubscribers(1, [signers.bob.address], [], encrypt("News"), [wrapKey("alice", 2)]),
+    ).to.be.revertedWith("Channels: Length mismatch");
+    await expect(
+      channelRegistryContract
+        .connect(signers.alice)
+        .updateSubscribers(1, [], [signers.bob.address], encrypt("News"), [wrapKey("alice", 2)]),
+    ).to.be.revertedWith("Channels: Not a subscriber");
+    await expect(channelRegistryContract.connect(signers.bob).unsubscribe(1)).to.be.revertedWith(
+      "Channels: Not a subscriber",
+    );
+    await expect(channelRegistryContract.connect(signers.dave).cancelRequest(1)).to.be.revertedWith(
+      "Channels: No pending request",
+    );
+  });
+});
@@ -0,0 +1,255 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { ethers } from "hardhat";
+import { GroupRegistry, GroupRegistry__factory, WhisperVault, WhisperVault__factory } from "../types";
+import { expect } from "chai";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+  carol: HardhatEthersSigner;
+  dave: HardhatEthersSigner;
+};
+
+// Helper functions to create keys and ciphertexts (simulated for tests)
+function messagingKey(name: string): string {
+  // In production, this is an X25519 public key derived from a wallet signature
+  return ethers.keccak256(ethers.toUtf8Bytes(`key:${name}`));
+}
+
+function wrapKey(member: string, epoch: number): string {
+  // In production, the group key is sealed to the member's messaging key (see frontend/crypto/groups.ts)
+  return ethers.hexlify(ethers.toUtf8Bytes(`group key ${epoch} for ${member}`));
+}
+
+function encrypt(text: string): string {
+  // In production, names and messages are AES-GCM encrypted with the group key
+  return ethers.hexlify(ethers.toUtf8Bytes(text));
+}
+
+async function deployFixture() {
+  const vaultFactory = (await ethers.getContractFactory("WhisperVault")) as WhisperVault__factory;
+  const whisperVaultContract = (await vaultFactory.deploy()) as WhisperVault;
+  const factory = (await ethers.getContractFactory("GroupRegistry")) as GroupRegistry__factory;
+  const groupRegistryContract = (await factory.deploy(await whisperVaultContract.getAddress())) as GroupRegistry;
+
+  return { whisperVaultContract, groupRegistryContract };
+}
+
+describe("GroupRegistry", function () {
+  let signers: Signers;
+  let whisperVaultContract: WhisperVault;
+  let groupRegistryContract: GroupRegistry;
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = {
+      deployer: ethSigners[0],
+      alice: ethSigners[1],
+      bob: ethSigners[2],
+      carol: ethSigners[3],
+      dave: ethSigners[4],
+    };
+  });
+
+  beforeEach(async function () {
+    ({ whisperVaultContract, groupRegistryContract } = await deployFixture());
+
+    for (const [name, signer] of [
+      ["alice", signers.alice],
+      ["bob", signers.bob],
+      ["carol", signers.carol],
+      ["dave", signers.dave],
+    ] as const) {
+      await whisperVaultContract.connect(signer).setMessagingKey(messagingKey(name));
+    }
+  });
+
+  // Alice creates group 1 with Bob and Carol
+  async function createGroup() {
+    const members = [signers.alice.address, signers.bob.address, signers.carol.address];
+    await groupRegistryContract.connect(signers.alice).createGroup(
+      encrypt("Team"),
+      members.slice(1),
+      members.map((member) => wrapKey(member, 1)),
+    );
+  }
+
+  it("should create a group with its creator as admin", async function () {
+    await expect(
+      groupRegistryContract
+        .connect(signers.alice)
+        .createGroup(encrypt("Team"), [signers.bob.address], [wrapKey("alice", 1), wrapKey("bob", 1)]),
+    )
+      .to.emit(groupRegistryContract, "GroupCreated")
+      .withArgs(1, signers.alice.address)
+      .and.to.emit(groupRegistryContract, "GroupKeyRotated")
+      .withArgs(1, 1, 2);
+
+    const [group, messageCount] = await groupRegistryContract.getGroup(1);
+    expect(group.creator).to.eq(signers.alice.address);
+    expect(group.name).to.eq(encrypt("Team"));
+    expect(group.epoch).to.eq(1);
+    expect(group.rekeyNeeded).to.eq(false);
+    expect(messageCount).to.eq(0);
+
+    const [members, admins] = await groupRegistryContract.getMembers(1);
+    expect(members).to.deep.eq([signers.alice.address, signers.bob.address]);
+    expect(admins).to.deep.eq([true, false]);
+    expect(await groupRegistryContract.getWrappedKey(1, 1, signers.bob.address)).to.eq(wrapKey("bob", 1));
+    expect(await groupRegistryContract.getGroupsOf(signers.bob.address)).to.deep.eq([1n]);
+    expect(await groupRegistryContract.getGroupsOf(signers.carol.address)).to.deep.eq([]);
+  });
+
+  it("should send messages tagged with their sender and key epoch", async function () {
+    await createGroup();
+
+    await expect(groupRegistryContract.connect(signers.bob).sendMessage(1, encrypt("Hello")))
+      .to.emit(groupRegistryContract, "GroupMessageSent")
+      .withArgs(1, signers.bob.address, 0, 1, encrypt("Hello").length / 2 - 1);
+    await groupRegistryContract.connect(signers.alice).sendMessage(1, encrypt("Hi Bob"));
+    await groupRegistryContract.connect(signers.carol).sendMessage(1, encrypt("Hi all"));
+
+    const [latest, total] = await groupRegistryContract.getLatestMessages(1, 0, 2);
+    expect(total).to.eq(3);
+    expect(latest.map((msg) => msg.sender)).to.deep.eq([signers.carol.address, signers.alice.address]);
+    const [first] = await groupRegistryContract.getMessagesRange(1, 0, 1);
+    expect(first.sender).to.eq(signers.bob.address);
+    expect(first.epoch).to.eq(1);
+    expect(first.encryptedContent).to.eq(encrypt("Hello"));
+
+    await expect(groupRegistryContract.connect(signers.dave).sendMessage(1, encrypt("Let me in"))).to.be.revertedWith(
+      "Groups: Not a member",
+    );
+    await expect(groupRegistryContract.connect(signers.bob).sendMessage(1, "0x")).to.be.revertedWith("Empty message");
+  });
+
+  it("should rotate the group key when members change", async function () {
+    await createGroup();
+
+    // Dave joins, Bob is removed: the new key is wrapped to Alice, Carol and Dave in that order
+    await expect(
+      groupRegistryContract.connect(signers.alice).updateMembers(
+        1,
+        [signers.dave.address],
+        [signers.bob.address],
+        encrypt("Team"),
+        [signers.alice.address, signers.carol.address, signers.dave.address].map((member) => wrapKey(member, 2)),
+      ),
+    )
+      .to.emit(groupRegistryContract, "MemberRemoved")
+      .withArgs(1, signers.bob.address)
+      .and.to.emit(groupRegistryContract, "MemberAdded")
+      .withArgs(1, signers.dave.address)
+      .and.to.emit(groupRegistryContract, "GroupKeyRotated")
+      .withArgs(1, 2, 3);
+
+    const [members] = await groupRegistryContract.getMembers(1);
+    expect(members).to.deep.eq([signers.alice.address, signers.carol.address, signers.dave.address]);
+    expect((await groupRegistryContract.getGroup(1))[0].epoch).to.eq(2);
+    expect(await groupRegistryContract.getWrappedKey(1, 2, signers.bob.address)).to.eq("0x");
+    expect(await groupRegistryContract.getWrappedKey(1, 1, signers.dave.address)).to.eq("0x");
+    expect(await groupRegistryContract.getWrappedKey(1, 1, signers.bob.address)).to.eq(wrapKey(signers.bob.address, 1));
+    expect(await groupRegistryContract.getGroupsOf(signers.bob.address)).to.deep.eq([]);
+
+    await groupRegistryContract.connect(signers.dave).sendMessage(1, encrypt("Hi"));
+    expect((await groupRegistryContract.getMessagesRange(1, 0, 1))[0].epoch).to.eq(2);
+    await expect(groupRegistryContract.connect(signers.bob).sendMessage(1, encrypt("Still here?"))).to.be.revertedWith(
+      "Groups: Not a member",
+    );
+  });
+
+  it("should need a new key after a member leaves", async function () {
+    await createGroup();
+
+    await expect(groupRegistryContract.connect(signers.carol).leaveGroup(1))
+      .to.emit(groupRegistryContract, "MemberRemoved")
+      .withArgs(1, signers.carol.address);
+    expect((await groupRegistryContract.getGroup(1))[0].rekeyNeeded).to.eq(true);
+    await expect(groupRegistryContract.connect(signers.bob).sendMessage(1, encrypt("Hello"))).to.be.revertedWith(
+      "Groups: Key rotation pending",
+    );
+
+    await groupRegistryContract
+      .connect(signers.alice)
+      .updateMembers(1, [], [], encrypt("Team"), [wrapKey("alice", 2), wrapKey("bob", 2)]);
+    const [group] = await groupRegistryContract.getGroup(1);
+    expect(group.rekeyNeeded).to.eq(false);
+    expect(group.epoch).to.eq(2);
+    await groupRegistryContract.connect(signers.bob).sendMessage(1, encrypt("Hello"));
+  });
+
+  it("should let admins manage admins but keep at least one", async function () {
+    await createGroup();
+
+    await expect(
+      groupRegistryContract.connect(signers.bob).setAdmin(1, signers.carol.address, true),
+    ).to.be.revertedWith("Groups: Not an admin");
+    await expect(groupRegistryContract.connect(signers.alice).leaveGroup(1)).to.be.revertedWith("Groups: Last admin");
+    await expect(
+      groupRegistryContract.connect(signers.alice).setAdmin(1, signers.alice.address, false),
+    ).to.be.revertedWith("Groups: Last admin");
+
+    await expect(groupRegistryContract.connect(signers.alice).setAdmin(1, signers.bob.address, true))
+      .to.emit(groupRegistryContract, "AdminSet")
+      .withArgs(1, signers.bob.address, true);
+    expect(await groupRegistryContract.getRole(1, signers.bob.address)).to.eq(2);
+
+    // Bob can now rename the group, and Alice can leave
+    await groupRegistryContract.connect(signers.bob).renameGroup(1, encrypt("Renamed"));
+    expect((await groupRegistryContract.getGroup(1))[0].name).to.eq(encrypt("Renamed"));
+    await groupRegistryContract.connect(signers.alice).leaveGroup(1);
+    const [members, admins] = await groupRegistryContract.getMembers(1);
+    expect(members).to.deep.eq([signers.bob.address, signers.carol.address]);
+    expect(admins).to.deep.eq([true, false]);
+  });
+
+  it("should revert on invalid member changes", async function () {
+    const keys = (count: number) => Array.from({ length: count }, (_, i) => wrapKey(`member ${i}`, 1));
+
+    await expect(
+      groupRegistryContract.connect(signers.deployer).createGroup(encrypt("Team"), [], keys(1)),
+    ).to.be.revertedWith("Groups: Member has no key");
+    await expect(
+      groupRegistryContract.connect(signers.alice).createGroup(encrypt("Team"), [signers.deployer.address], keys(2)),
+    ).to.be.revertedWith("Groups: Member has no key");
+    await expect(
+      groupRegistryContract.connect(signers.alice).createGroup(encrypt("Team"), [signers.alice.address], keys(2)),
+    ).to.be.revertedWith("Groups: Already a member");
+    await expect(
+      groupRegistryContract.connect(signers.alice).createGroup(encrypt("Team"), [signers.bob.address], keys(1)),
+    ).to.be.revertedWith("Groups: Length mismatch");
+    await expect(
+      groupRegistryContract.connect(signers.alice).createGroup(encrypt("Team"), [], ["0x"]),
+    ).to.be.revertedWith("Groups: Invalid wrapped key");
+    await expect(groupRegistryContract.connect(signers.alice).createGroup("0x", [], keys(1))).to.be.revertedWith(
+      "Groups: Empty name",
+    );
+
+    await createGroup();
+    await expect(
+      groupRegistryContract
+        .connect(signers.bob)
+        .updateMembers(1, [], [signers.carol.address], encrypt("Team"), keys(2)),
+    ).to.be.revertedWith("Groups: Not an admin");
+    await expect(
+      groupRegistryContract
+        .connect(signers.alice)
+        .updateMembers(1, [], [signers.alice.address], encrypt("Team"), keys(2)),
+    ).to.be.revertedWith("Groups: Use leaveGroup");
+    await expect(
+      groupRegistryContract
+        .connect(signers.alice)
+        .updateMembers(1, [], [signers.dave.address], encrypt("Team"), keys(2)),
+    ).to.be.revertedWith("Groups: Not a member");
+    await expect(
+      groupRegistryContract
+        .connect(signers.alice)
+        .updateMembers(1, [signers.dave.address], [], encrypt("Team"), keys(3)),
+    ).to.be.revertedWith("Groups: Length mismatch");
+    await expect(
+      groupRegistryContract.connect(signers.alice).updateMembers(2, [], [], encrypt("Team"), keys(3)),
+    ).to.be.revertedWith("Groups: Unknown group");
+    await expect(groupRegistryContract.connect(signers.dave).leaveGroup(1)).to.be.revertedWith("Groups: Not a member");
+  });
+});
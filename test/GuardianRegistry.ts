@@ -0,0 +1,269 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { ethers } from "hardhat";
+import { GuardianRegistry, GuardianRegistry__factory } from "../types";
+import { expect } from "chai";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+  carol: HardhatEthersSigner;
+  dave: HardhatEthersSigner;
+};
+
+// Helper functions to create keys and sealed shares (simulated for tests)
+function encryptionKey(name: string): string {
+  // In production, this is an X25519 public key derived from a wallet signature
+  return ethers.keccak256(ethers.toUtf8Bytes(`key:${name}`));
+}
+
+function sealShare(share: string): string {
+  // In production, shares are sealed to the guardian's key (see frontend/crypto/guardians.ts)
+  return ethers.hexlify(ethers.toUtf8Bytes(share));
+}
+
+const KEY_COMMITMENT = ethers.keccak256(ethers.toUtf8Bytes("data key"));
+
+async function deployFixture() {
+  const factory = (await ethers.getContractFactory("GuardianRegistry")) as GuardianRegistry__factory;
+  const guardianRegistryContract = (await factory.deploy()) as GuardianRegistry;
+  const guardianRegistryContractAddress = await guardianRegistryContract.getAddress();
+
+  return { guardianRegistryContract, guardianRegistryContractAddress };
+}
+
+describe("GuardianRegistry", function () {
+  let signers: Signers;
+  let guardianRegistryContract: GuardianRegistry;
+  let guardians: string[];
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = {
+      deployer: ethSigners[0],
+      alice: ethSigners[1],
+      bob: ethSigners[2],
+      carol: ethSigners[3],
+      dave: ethSigners[4],
+    };
+    guardians = [signers.bob.address, signers.carol.address, signers.dave.address];
+  });
+
+  beforeEach(async function () {
+    ({ guardianRegistryContract } = await deployFixture());
+
+    for (const [name, signer] of [
+      ["bob", signers.bob],
+      ["carol", signers.carol],
+      ["dave", signers.dave],
+    ] as const) {
+      await guardianRegistryContract.connect(signer).setEncryptionKey(encryptionKey(name));
+    }
+  });
+
+  async function setupGuardians() {
+    await guardianRegistryContract
+      .connect(signers.alice)
+      .setGuardians(guardians, 2, [sealShare("bob"), sealShare("carol"), sealShare("dave")], KEY_COMMITMENT);
+  }
+
+  it("should publish encryption keys", async function () {
+    await expect(guardianRegistryContract.connect(signers.alice).setEncryptionKey(encryptionKey("alice")))
+      .to.emit(guardianRegistryContract, "EncryptionKeySet")
+      .withArgs(signers.alice.address, encryptionKey("alice"));
+
+    expect(await guardianRegistryContract.getEncryptionKey(signers.alice.address)).to.eq(encryptionKey("alice"));
+    expect(await guardianRegistryContract.getEncryptionKey(signers.deployer.address)).to.eq(ethers.ZeroHash);
+    await expect(guardianRegistryContract.connect(signers.alice).setEncryptionKey(ethers.ZeroHash)).to.be.revertedWith(
+      "Registry: Empty key",
+    );
+  });
+
+  it("should store guardians and their shares", async function () {
+    await expect(
+      guardianRegistryContract
+        .connect(signers.alice)
+        .setGuardians(guardians, 2, [sealShare("bob"), sealShare("carol"), sealShare("dave")], KEY_COMMITMENT),
+    )
+      .to.emit(guardianRegistryContract, "GuardiansUpdated")
+      .withArgs(signers.alice.address, 1, 2, 3);
+
+    const [storedGuardians, threshold, keyCommitment, epoch] = await guardianRegistryContract.getGuardians(
+      signers.alice.address,
+    );
+    expect(storedGuardians).to.deep.eq(guardians);
+    expect(threshold).to.eq(2);
+    expect(keyCommitment).to.eq(KEY_COMMITMENT);
+    expect(epoch).to.eq(1);
+
+    expect(await guardianRegistryContract.getShare(signers.alice.address, signers.carol.address)).to.eq(
+      sealShare("carol"),
+    );
+    expect(await guardianRegistryContract.getGuardedOwners(signers.bob.address)).to.deep.eq([signers.alice.address]);
+  });
+
+  it("should replace and clear guardian sets", async function () {
+    await setupGuardians();
+
+    // Bob is replaced by the deployer's account
+    await guardianRegistryContract.connect(signers.deployer).setEncryptionKey(encryptionKey("deployer"));
+    const newGuardians = [signers.deployer.address, signers.carol.address, signers.dave.address];
+    await guardianRegistryContract
+      .connect(signers.alice)
+      .setGuardians(
+        newGuardians,
+        3,
+        [sealShare("deployer"), sealShare("carol 2"), sealShare("dave 2")],
+        KEY_COMMITMENT,
+      );
+
+    expect(await guardianRegistryContract.getShare(signers.alice.address, signers.bob.address)).to.eq("0x");
+    expect(await guardianRegistryContract.getGuardedOwners(signers.bob.address)).to.deep.eq([]);
+    const [, threshold, , epoch] = await guardianRegistryContract.getGuardians(signers.alice.address);
+    expect(threshold).to.eq(3);
+    expect(epoch).to.eq(2);
+
+    await expect(guardianRegistryContract.connect(signers.alice).clearGuardians())
+      .to.emit(guardianRegistryContract, "GuardiansCleared")
+      .withArgs(signers.alice.address);
+    const [cleared] = await guardianRegistryContract.getGuardians(signers.alice.address);
+    expect(cleared.length).to.eq(0);
+    expect(await guardianRegistryContract.getShare(signers.alice.address, signers.carol.address)).to.eq("0x");
+    await expect(guardianRegistryContract.connect(signers.alice).clearGuardians()).to.be.revertedWith(
+      "Registry: No guardians",
+    );
+  });
+
+  it("should revert on invalid guardian sets", async function () {
+    const shares = [sealShare("bob"), sealShare("carol"), sealShare("dave")];
+    const alice = guardianRegistryContract.connect(signers.alice);
+
+    await expect(alice.setGuardians(guardians.slice(0, 2), 2, shares.slice(0, 2), KEY_COMMITMENT)).to.be.revertedWith(
+      "Registry: 3 to 5 guardians",
+    );
+    await expect(alice.setGuardians(guardians, 1, shares, KEY_COMMITMENT)).to.be.revertedWith(
+      "Registry: Invalid threshold",
+    );
+    await expect(alice.setGuardians(guardians, 4, shares, KEY_COMMITMENT)).to.be.revertedWith(
+      "Registry: Invalid threshold",
+    );
+    await expect(alice.setGuardians(guardians, 2, shares.slice(0, 2), KEY_COMMITMENT)).to.be.revertedWith(
+      "Registry: Length mismatch",
+    );
+    await expect(alice.setGuardians(guardians, 2, shares, ethers.ZeroHash)).to.be.revertedWith(
+      "Registry: Empty commitment",
+    );
+    await expect(
+      alice.setGuardians([signers.alice.address, guardians[1], guardians[2]], 2, shares, KEY_COMMITMENT),
+    ).to.be.revertedWith("Registry: Invalid guardian");
+    await expect(
+      alice.setGuardians([signers.deployer.address, guardians[1], guardians[2]], 2, shares, KEY_COMMITMENT),
+    ).to.be.revertedWith("Registry: Guardian has no key");
+    await expect(
+      alice.setGuardians([guardians[0], guardians[1], guardians[0]], 2, shares, KEY_COMMITMENT),
+    ).to.be.revertedWith("Registry: Duplicate guardian");
+    await expect(alice.setGuardians(guardians, 2, [shares[0], "0x", shares[2]], KEY_COMMITMENT)).to.be.revertedWith(
+      "Registry: Invalid share",
+    );
+    await expect(
+      alice.setGuardians(guardians, 2, [shares[0], ethers.hexlify(new Uint8Array(257)), shares[2]], KEY_COMMITMENT),
+    ).to.be.revertedWith("Registry: Invalid share");
+  });
+
+  it("should collect shares handed back for a recovery", async function () {
+    await setupGuardians();
+    const recoveryKey = encryptionKey("alice recovery");
+
+    await expect(guardianRegistryContract.connect(signers.alice).startRecovery(recoveryKey))
+      .to.emit(guardianRegistryContract, "RecoveryStarted")
+      .withArgs(signers.alice.address, 1, recoveryKey);
+    expect(await guardianRegistryContract.getRecoveryCount(signers.alice.address)).to.eq(1);
+
+    await expect(guardianRegistryContract.connect(signers.carol).submitShare(signers.alice.address, sealShare("c")))
+      .to.emit(guardianRegistryContract, "ShareSubmitted")
+      .withArgs(signers.alice.address, 1, signers.carol.address);
+    await guardianRegistryContract.connect(signers.bob).submitShare(signers.alice.address, sealShare("b"));
+
+    const [requestId, storedKey, timestamp, submitted] = await guardianRegistryContract.getRecoveryRequest(
+      signers.alice.address,
+    );
+    expect(requestId).to.eq(1);
+    expect(storedKey).to.eq(recoveryKey);
+    expect(timestamp).to.be.gt(0);
+    expect(submitted).to.eq(2);
+
+    // Returned in guardian order
+    const [returnedBy, shares] = await guardianRegistryContract.getSubmittedShares(signers.alice.address);
+    expect(returnedBy).to.deep.eq([signers.bob.address, signers.carol.address]);
+    expect(shares).to.deep.eq([sealShare("b"), sealShare("c")]);
+
+    await expect(guardianRegistryContract.connect(signers.alice).closeRecovery())
+      .to.emit(guardianRegistryContract, "RecoveryClosed")
+      .withArgs(signers.alice.address, 1);
+    const [closedId] = await guardianRegistryContract.getRecoveryRequest(signers.alice.address);
+    expect(closedId).to.eq(0);
+    const [afterClose] = await guardianRegistryContract.getSubmittedShares(signers.alice.address);
+    expect(afterClose.length).to.eq(0);
+  });
+
+  it("should not carry shares over to a new recovery", async function () {
+    await setupGuardians();
+    await guardianRegistryContract.connect(signers.alice).startRecovery(encryptionKey("first"));
+    await guardianRegistryContract.connect(signers.bob).submitShare(signers.alice.address, sealShare("b"));
+
+    await guardianRegistryContract.connect(signers.alice).startRecovery(encryptionKey("second"));
+    const [requestId, , , submitted] = await guardianRegistryContract.getRecoveryRequest(signers.alice.address);
+    expect(requestId).to.eq(2);
+    expect(submitted).to.eq(0);
+
+    // Bob can hand his share back again for the new request
+    await guardianRegistryContract.connect(signers.bob).submitShare(signers.alice.address, sealShare("b2"));
+    const [, shares] = await guardianRegistryContract.getSubmittedShares(signers.alice.address);
+    expect(shares).to.deep.eq([sealShare("b2")]);
+  });
+
+  it("should close an open recovery when guardians change", async function () {
+    await setupGuardians();
+    await guardianRegistryContract.connect(signers.alice).startRecovery(encryptionKey("recovery"));
+
+    await expect(
+      guardianRegistryContract
+        .connect(signers.alice)
+        .setGuardians(guardians, 3, [sealShare("b"), sealShare("c"), sealShare("d")], KEY_COMMITMENT),
+    )
+      .to.emit(guardianRegistryContract, "RecoveryClosed")
+      .withArgs(signers.alice.address, 1);
+    const [requestId] = await guardianRegistryContract.getRecoveryRequest(signers.alice.address);
+    expect(requestId).to.eq(0);
+  });
+
+  it("should revert on invalid recoveries", async function () {
+    await expect(
+      guardianRegistryContract.connect(signers.alice).startRecovery(encryptionKey("recovery")),
+    ).to.be.revertedWith("Registry: No guardians");
+    await expect(
+      guardianRegistryContract.connect(signers.bob).submitShare(signers.alice.address, sealShare("b")),
+    ).to.be.revertedWith("Registry: No recovery");
+    await expect(guardianRegistryContract.connect(signers.alice).closeRecovery()).to.be.revertedWith(
+      "Registry: No recovery",
+    );
+
+    await setupGuardians();
+    await expect(guardianRegistryContract.connect(signers.alice).startRecovery(ethers.ZeroHash)).to.be.revertedWith(
+      "Registry: Empty key",
+    );
+    await guardianRegistryContract.connect(signers.alice).startRecovery(encryptionKey("recovery"));
+
+    await expect(
+      guardianRegistryContract.connect(signers.deployer).submitShare(signers.alice.address, sealShare("x")),
+    ).to.be.revertedWith("Registry: Not a guardian");
+    await expect(
+      guardianRegistryContract.connect(signers.bob).submitShare(signers.alice.address, "0x"),
+    ).to.be.revertedWith("Registry: Invalid share");
+
+    await guardianRegistryContract.connect(signers.bob).submitShare(signers.alice.address, sealShare("b"));
+    await expect(
+      guardianRegistryContract.connect(signers.bob).submitShare(signers.alice.address, sealShare("b")),
+    ).to.be.revertedWith("Registry: Already submitted");
+  });
+});
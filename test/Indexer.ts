@@ -0,0 +1,210 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+import { createIndexer, createQueries, openIndex } from "../tasks/Indexer";
+import { HttpError } from "../tasks/http";
+import { WhisperVault, WhisperVault__factory } from "../types";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+};
+
+const DAY = 24 * 60 * 60;
+
+// Simulated ciphertext, as in the WhisperVault tests
+function encryptMessage(message: string): string {
+  return ethers.hexlify(ethers.toUtf8Bytes(message));
+}
+
+async function deployFixture() {
+  const factory = (await ethers.getContractFactory("WhisperVault")) as WhisperVault__factory;
+  const whisperVaultContract = (await factory.deploy()) as WhisperVault;
+  const whisperVaultContractAddress = await whisperVaultContract.getAddress();
+  const deployBlock = (await whisperVaultContract.deploymentTransaction()!.wait())!.blockNumber;
+
+  return { whisperVaultContract, whisperVaultContractAddress, deployBlock };
+}
+
+describe("Indexer", function () {
+  let signers: Signers;
+  let whisperVaultContract: WhisperVault;
+  let index: ReturnType<typeof openIndex>;
+  let indexer: ReturnType<typeof createIndexer>;
+  let queries: ReturnType<typeof createQueries>;
+
+  // Query strings are parsed as the HTTP routes do
+  const messages = (user: string, query = "") => queries.messages(user, new URL(`http://localhost/?${query}`));
+  const events = (user: string, query = "") => queries.events(user, new URL(`http://localhost/?${query}`));
+  const dailyStats = (user: string, query = "") => queries.dailyStats(user, new URL(`http://localhost/?${query}`));
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = { deployer: ethSigners[0], alice: ethSigners[1], bob: ethSigners[2] };
+  });
+
+  beforeEach(async function () {
+    const deployment = await deployFixture();
+    whisperVaultContract = deployment.whisperVaultContract;
+    const { chainId } = await ethers.provider.getNetwork();
+    index = openIndex(":memory:", Number(chainId), deployment.whisperVaultContractAddress, deployment.deployBlock);
+    indexer = createIndexer(hre, whisperVaultContract, index, 2000);
+    queries = createQueries(index.db);
+  });
+
+  afterEach(function () {
+    index.db.close();
+  });
+
+  it("should fold message events into the messages the vault holds", async function () {
+    const alice = whisperVaultContract.connect(signers.alice);
+    await (await alice.storeMessage(encryptMessage("First"))).wait();
+    await (await alice.createThread(encryptMessage("Title"))).wait();
+    await (
+      await alice.storeThreadMessages(1, [encryptMessage("Second"), encryptMessage("Reply")], [false, true])
+    ).wait();
+    await (await alice.storeResponse(encryptMessage("Deleted"))).wait();
+    await (await alice.editMessage(0, encryptMessage("First, edited"))).wait();
+    await (await alice.replaceMessages([1], [encryptMessage("Second, rotated")])).wait();
+    await (await alice.setLabels([2], [encryptMessage("Labels")])).wait();
+    await (await alice.deleteMessage(3)).wait();
+    await (await whisperVaultContract.connect(signers.bob).storeMessage(encryptMessage("Bob's"))).wait();
+
+    expect(await indexer.sync()).to.eq(await ethers.provider.getBlockNumber());
+    expect(index.indexedBlock()).to.eq(await ethers.provider.getBlockNumber());
+
+    const page = messages(signers.alice.address, "order=asc");
+    expect(page.total).to.eq(4);
+    expect(page.vaultMessageCount).to.eq(4);
+    expect(page.messages.map((message) => message.thread)).to.deep.eq([0, 1, 1, 0]);
+    for (const message of page.messages) {
+      expect(message.encryptedContent).to.eq(
+        await whisperVaultContract.getEncryptedContent(signers.alice.address, message.index),
+      );
+      expect(message.encryptedLabels).to.eq(await whisperVaultContract.getLabels(signers.alice.address, message.index));
+    }
+    expect(page.messages[0].revisionCount).to.eq(1);
+    expect(page.messages[2].isResponse).to.eq(true);
+    expect(page.messages[2].sender).to.eq(await whisperVaultContract.getAddress());
+    expect(page.messages[3].encryptedContent).to.eq("0x");
+    expect(messages(signers.bob.address).total).to.eq(1);
+
+    // Clearing drops the vault; later messages start again from index 0
+    await (await alice.clearMessages()).wait();
+    await (await alice.storeMessage(encryptMessage("After clear"))).wait();
+    await indexer.sync();
+
+    const cleared = messages(signers.alice.address);
+    expect(cleared.total).to.eq(1);
+    expect(cleared.messages[0].index).to.eq(0);
+    expect(cleared.messages[0].encryptedContent).to.eq(encryptMessage("After clear"));
+    expect(messages(signers.bob.address).total).to.eq(1);
+  });
+
+  it("should roll back blocks that left the chain in a reorg", async function () {
+    const alice = whisperVaultContract.connect(signers.alice);
+    await (await alice.storeMessage(encryptMessage("Kept"))).wait();
+    await indexer.sync();
+
+    const snapshot = await ethers.provider.send("evm_snapshot", []);
+    await (await alice.storeMessage(encryptMessage("Orphaned"))).wait();
+    await (await alice.editMessage(0, encryptMessage("Kept, edited"))).wait();
+    await indexer.sync();
+    expect(messages(signers.alice.address).total).to.eq(2);
+    const orphanedBlock = index.indexedBlock();
+
+    // Replace the two blocks with three others
+    await ethers.provider.send("evm_revert", [snapshot]);
+    await (await alice.storeMessage(encryptMessage("Replacement"))).wait();
+    await ethers.provider.send("evm_mine", []);
+    await ethers.provider.send("evm_mine", []);
+    expect(await ethers.provider.getBlockNumber()).to.eq(orphanedBlock + 1);
+    await indexer.sync();
+
+    const page = messages(signers.alice.address, "order=asc");
+    expect(page.messages.map((message) => message.encryptedContent)).to.deep.eq([
+      encryptMessage("Kept"),
+      encryptMessage("Replacement"),
+    ]);
+    expect(page.messages[0].revisionCount).to.eq(0);
+    expect(events(signers.alice.address).events.map((event) => event.name)).to.deep.eq([
+      "MessageStored",
+      "MessageStored",
+    ]);
+    expect(index.indexedBlock()).to.eq(await ethers.provider.getBlockNumber());
+  });
+
+  it("should page messages and events with cursors", async function () {
+    const alice = whisperVaultContract.connect(signers.alice);
+    const contents = [0, 1, 2, 3, 4].map((i) => encryptMessage(`Message ${i}`));
+    await (await alice.storeMessages(contents, [false, false, false, false, false])).wait();
+    await (await alice.createThread(encryptMessage("Title"))).wait();
+    await (await alice.storeThreadMessages(1, [encryptMessage("In thread")], [false])).wait();
+    await indexer.sync();
+
+    // Newest first by default
+    const first = messages(signers.alice.address, "limit=2");
+    expect(first.messages.map((message) => message.index)).to.deep.eq([5, 4]);
+    expect(first.total).to.eq(6);
+    const second = messages(signers.alice.address, `limit=2&cursor=${first.nextCursor}`);
+    expect(second.messages.map((message) => message.index)).to.deep.eq([3, 2]);
+    const last = messages(signers.alice.address, `limit=4&cursor=${second.nextCursor}`);
+    expect(last.messages.map((message) => message.index)).to.deep.eq([1, 0]);
+    expect(last.nextCursor).to.eq(null);
+
+    const ascending = messages(signers.alice.address, "thread=0&order=asc&limit=3&cursor=1");
+    expect(ascending.messages.map((message) => message.index)).to.deep.eq([2, 3, 4]);
+    expect(ascending.total).to.eq(5);
+    expect(messages(signers.alice.address, "thread=1").messages.map((message) => message.index)).to.deep.eq([5]);
+
+    // The event feed resumes after its last event, also once it is exhausted
+    const feed = events(signers.alice.address, "limit=4");
+    expect(feed.events.map((event) => event.messageIndex)).to.deep.eq([0, 1, 2, 3]);
+    const rest = events(signers.alice.address, `limit=4&cursor=${feed.nextCursor}`);
+    expect(rest.events.map((event) => event.messageIndex)).to.deep.eq([4, 5]);
+    const empty = events(signers.alice.address, `cursor=${rest.nextCursor}`);
+    expect(empty.events).to.deep.eq([]);
+    expect(empty.nextCursor).to.eq(rest.nextCursor);
+
+    expect(() => events(signers.alice.address, "cursor=oops")).to.throw(HttpError, "Invalid cursor");
+    expect(() => messages(signers.alice.address, "limit=201")).to.throw(HttpError, "Invalid limit");
+  });
+
+  it("should count the stored messages of each day for /stats/daily", async function () {
+    const alice = whisperVaultContract.connect(signers.alice);
+    // Midnight UTC of a day after the chain's current time
+    const midnight = (Math.floor((await time.latest()) / DAY) + 2) * DAY;
+    const firstDay = new Date(midnight * 1000).toISOString().slice(0, 10);
+    const secondDay = new Date((midnight + DAY) * 1000).toISOString().slice(0, 10);
+
+    await time.setNextBlockTimestamp(midnight + 10 * 60 * 60);
+    await (await alice.storeMessage(encryptMessage("Morning"))).wait();
+    await time.setNextBlockTimestamp(midnight + 23.5 * 60 * 60);
+    await (await alice.storeResponse(encryptMessage("Late reply"))).wait();
+    await time.setNextBlockTimestamp(midnight + DAY + 60 * 60);
+    await (await alice.storeMessage(encryptMessage("Next day"))).wait();
+    await (await alice.storeMessage(encryptMessage("Deleted"))).wait();
+    await (await alice.deleteMessage(3)).wait();
+    await indexer.sync();
+
+    // Tombstones don't count
+    expect(dailyStats(signers.alice.address).days).to.deep.eq([
+      { day: firstDay, messages: 2, responses: 1 },
+      { day: secondDay, messages: 1, responses: 0 },
+    ]);
+    // An hour east of UTC, the late reply falls on the next day
+    expect(dailyStats(signers.alice.address, "utcOffset=60")).to.deep.eq({
+      utcOffset: 60,
+      days: [
+        { day: firstDay, messages: 1, responses: 0 },
+        { day: secondDay, messages: 2, responses: 1 },
+      ],
+    });
+    expect(dailyStats(signers.alice.address, `from=${midnight + DAY}`).days).to.deep.eq([
+      { day: secondDay, messages: 1, responses: 0 },
+    ]);
+    expect(dailyStats(signers.bob.address).days).to.deep.eq([]);
+  });
+});
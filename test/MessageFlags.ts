@@ -0,0 +1,140 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { ethers, fhevm } from "hardhat";
+import { MessageFlags, MessageFlags__factory, WhisperVault, WhisperVault__factory } from "../types";
+import { expect } from "chai";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+};
+
+async function deployFixture() {
+  const vaultFactory = (await ethers.getContractFactory("WhisperVault")) as WhisperVault__factory;
+  const whisperVaultContract = (await vaultFactory.deploy()) as WhisperVault;
+  const factory = (await ethers.getContractFactory("MessageFlags")) as MessageFlags__factory;
+  const messageFlagsContract = (await factory.deploy(await whisperVaultContract.getAddress())) as MessageFlags;
+  const messageFlagsContractAddress = await messageFlagsContract.getAddress();
+
+  return { whisperVaultContract, messageFlagsContract, messageFlagsContractAddress };
+}
+
+describe("MessageFlags", function () {
+  let signers: Signers;
+  let whisperVaultContract: WhisperVault;
+  let messageFlagsContract: MessageFlags;
+  let messageFlagsContractAddress: string;
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = { deployer: ethSigners[0], alice: ethSigners[1], bob: ethSigners[2] };
+  });
+
+  beforeEach(async function () {
+    // Check whether the tests are running against an FHEVM mock environment
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    ({ whisperVaultContract, messageFlagsContract, messageFlagsContractAddress } = await deployFixture());
+
+    // Alice stores three messages (simulated ciphertexts)
+    for (const text of ["one", "two", "three"]) {
+      await whisperVaultContract.connect(signers.alice).storeMessage(ethers.hexlify(ethers.toUtf8Bytes(text)));
+    }
+  });
+
+  async function encryptBool(value: boolean, signer: HardhatEthersSigner) {
+    return fhevm.createEncryptedInput(messageFlagsContractAddress, signer.address).addBool(value).encrypt();
+  }
+
+  async function decryptBool(handle: string, signer: HardhatEthersSigner) {
+    return fhevm.userDecryptEbool(handle, messageFlagsContractAddress, signer);
+  }
+
+  it("flags should be uninitialized before they are set", async function () {
+    const flags = await messageFlagsContract.getFlags(signers.alice.address, 0);
+    expect(flags.read).to.eq(ethers.ZeroHash);
+    expect(flags.starred).to.eq(ethers.ZeroHash);
+    expect(flags.priority).to.eq(ethers.ZeroHash);
+  });
+
+  it("should mark messages read with one encrypted input", async function () {
+    const encryptedTrue = await encryptBool(true, signers.alice);
+    await expect(
+      messageFlagsContract.connect(signers.alice).setRead([0, 2], encryptedTrue.handles[0], encryptedTrue.inputProof),
+    )
+      .to.emit(messageFlagsContract, "FlagsUpdated")
+      .withArgs(signers.alice.address, 0)
+      .and.to.emit(messageFlagsContract, "FlagsUpdated")
+      .withArgs(signers.alice.address, 2);
+
+    const page = await messageFlagsContract.getFlagsRange(signers.alice.address, 0, 10);
+    expect(page.length).to.eq(3);
+    expect(await decryptBool(page[0].read, signers.alice)).to.eq(true);
+    expect(page[1].read).to.eq(ethers.ZeroHash);
+    expect(await decryptBool(page[2].read, signers.alice)).to.eq(true);
+
+    const encryptedFalse = await encryptBool(false, signers.alice);
+    await messageFlagsContract
+      .connect(signers.alice)
+      .setRead([0], encryptedFalse.handles[0], encryptedFalse.inputProof);
+    expect(
+      await decryptBool((await messageFlagsContract.getFlags(signers.alice.address, 0)).read, signers.alice),
+    ).to.eq(false);
+  });
+
+  it("should star a message and cap its priority", async function () {
+    const encryptedStar = await encryptBool(true, signers.alice);
+    await messageFlagsContract.connect(signers.alice).setStarred(1, encryptedStar.handles[0], encryptedStar.inputProof);
+
+    const encryptedPriority = await fhevm
+      .createEncryptedInput(messageFlagsContractAddress, signers.alice.address)
+      .add8(200)
+      .encrypt();
+    await messageFlagsContract
+      .connect(signers.alice)
+      .setPriority(1, encryptedPriority.handles[0], encryptedPriority.inputProof);
+
+    const flags = await messageFlagsContract.getFlags(signers.alice.address, 1);
+    expect(await decryptBool(flags.starred, signers.alice)).to.eq(true);
+    expect(
+      await fhevm.userDecryptEuint(FhevmType.euint8, flags.priority, messageFlagsContractAddress, signers.alice),
+    ).to.eq(3n);
+  });
+
+  it("should only let the owner decrypt the flags", async function () {
+    const encryptedStar = await encryptBool(true, signers.alice);
+    await messageFlagsContract.connect(signers.alice).setStarred(0, encryptedStar.handles[0], encryptedStar.inputProof);
+
+    const flags = await messageFlagsContract.getFlags(signers.alice.address, 0);
+    await expect(decryptBool(flags.starred, signers.bob)).to.be.rejected;
+  });
+
+  it("should drop flags when messages are cleared", async function () {
+    const encryptedStar = await encryptBool(true, signers.alice);
+    await messageFlagsContract.connect(signers.alice).setStarred(0, encryptedStar.handles[0], encryptedStar.inputProof);
+
+    await whisperVaultContract.connect(signers.alice).clearMessages();
+    await whisperVaultContract.connect(signers.alice).storeMessage(ethers.hexlify(ethers.toUtf8Bytes("new")));
+    expect((await messageFlagsContract.getFlags(signers.alice.address, 0)).starred).to.eq(ethers.ZeroHash);
+  });
+
+  it("should revert on messages the caller doesn't have", async function () {
+    const encryptedStar = await encryptBool(true, signers.alice);
+    await expect(
+      messageFlagsContract.connect(signers.alice).setStarred(3, encryptedStar.handles[0], encryptedStar.inputProof),
+    ).to.be.revertedWith("Flags: Invalid message index");
+
+    // Bob has no messages to flag
+    const encryptedForBob = await encryptBool(true, signers.bob);
+    await expect(
+      messageFlagsContract.connect(signers.bob).setRead([0], encryptedForBob.handles[0], encryptedForBob.inputProof),
+    ).to.be.revertedWith("Flags: Invalid message index");
+    await expect(
+      messageFlagsContract.connect(signers.alice).setRead([], encryptedStar.handles[0], encryptedStar.inputProof),
+    ).to.be.revertedWith("Flags: Invalid batch size");
+  });
+});
@@ -0,0 +1,141 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { ethers } from "hardhat";
+import { MessageGrants, MessageGrants__factory, WhisperVault, WhisperVault__factory } from "../types";
+import { expect } from "chai";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+  carol: HardhatEthersSigner;
+};
+
+const DAY = 24 * 60 * 60;
+
+// Helper functions to create keys and ciphertexts (simulated for tests)
+function messagingKey(name: string): string {
+  // In production, this is an X25519 public key derived from a wallet signature
+  return ethers.keccak256(ethers.toUtf8Bytes(`key:${name}`));
+}
+
+function seal(text: string, grantee: string): string {
+  // In production, the decrypted message is sealed to the grantee's messaging key (see frontend/crypto/grants.ts)
+  return ethers.hexlify(ethers.toUtf8Bytes(`${text} for ${grantee}`));
+}
+
+async function deployFixture() {
+  const vaultFactory = (await ethers.getContractFactory("WhisperVault")) as WhisperVault__factory;
+  const whisperVaultContract = (await vaultFactory.deploy()) as WhisperVault;
+  const factory = (await ethers.getContractFactory("MessageGrants")) as MessageGrants__factory;
+  const messageGrantsContract = (await factory.deploy(await whisperVaultContract.getAddress())) as MessageGrants;
+
+  return { whisperVaultContract, messageGrantsContract };
+}
+
+describe("MessageGrants", function () {
+  let signers: Signers;
+  let whisperVaultContract: WhisperVault;
+  let messageGrantsContract: MessageGrants;
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = { deployer: ethSigners[0], alice: ethSigners[1], bob: ethSigners[2], carol: ethSigners[3] };
+  });
+
+  beforeEach(async function () {
+    ({ whisperVaultContract, messageGrantsContract } = await deployFixture());
+
+    await whisperVaultContract.connect(signers.bob).setMessagingKey(messagingKey("bob"));
+    for (const text of ["first", "second", "third"]) {
+      await whisperVaultContract.connect(signers.alice).storeMessage(ethers.hexlify(ethers.toUtf8Bytes(text)));
+    }
+  });
+
+  // Alice shows Bob her first and third messages for a week
+  async function grantBob() {
+    const expiresAt = (await time.latest()) + 7 * DAY;
+    await messageGrantsContract
+      .connect(signers.alice)
+      .createGrant(signers.bob.address, [0, 2], [seal("first", "bob"), seal("third", "bob")], expiresAt);
+    return expiresAt;
+  }
+
+  it("should record a grant and serve its messages", async function () {
+    const expiresAt = (await time.latest()) + 7 * DAY;
+    await expect(
+      messageGrantsContract
+        .connect(signers.alice)
+        .createGrant(signers.bob.address, [0, 2], [seal("first", "bob"), seal("third", "bob")], expiresAt),
+    )
+      .to.emit(messageGrantsContract, "GrantCreated")
+      .withArgs(1, signers.alice.address, signers.bob.address, expiresAt, 2);
+
+    const [owner, grantee, , storedExpiry, revoked, indexes] = await messageGrantsContract.getGrant(1);
+    expect(owner).to.eq(signers.alice.address);
+    expect(grantee).to.eq(signers.bob.address);
+    expect(storedExpiry).to.eq(expiresAt);
+    expect(revoked).to.eq(false);
+    expect(indexes).to.deep.eq([0n, 2n]);
+    expect(await messageGrantsContract.isActive(1)).to.eq(true);
+    expect(await messageGrantsContract.getGrantContents(1)).to.deep.eq([seal("first", "bob"), seal("third", "bob")]);
+    expect(await messageGrantsContract.getGrantsBy(signers.alice.address)).to.deep.eq([1n]);
+    expect(await messageGrantsContract.getGrantsFor(signers.bob.address)).to.deep.eq([1n]);
+  });
+
+  it("should stop serving a grant once it expires", async function () {
+    const expiresAt = await grantBob();
+
+    await time.increaseTo(expiresAt);
+    expect(await messageGrantsContract.isActive(1)).to.eq(false);
+    await expect(messageGrantsContract.getGrantContents(1)).to.be.revertedWith("Grants: Grant not active");
+    // The grant itself stays listed
+    expect(await messageGrantsContract.getGrantsFor(signers.bob.address)).to.deep.eq([1n]);
+  });
+
+  it("should let the owner revoke a grant", async function () {
+    await grantBob();
+
+    await expect(messageGrantsContract.connect(signers.bob).revokeGrant(1)).to.be.revertedWith("Grants: Not the owner");
+    await expect(messageGrantsContract.connect(signers.alice).revokeGrant(1))
+      .to.emit(messageGrantsContract, "GrantRevoked")
+      .withArgs(1, signers.alice.address, signers.bob.address);
+
+    const [, , , , revoked] = await messageGrantsContract.getGrant(1);
+    expect(revoked).to.eq(true);
+    expect(await messageGrantsContract.isActive(1)).to.eq(false);
+    await expect(messageGrantsContract.getGrantContents(1)).to.be.revertedWith("Grants: Grant not active");
+    await expect(messageGrantsContract.connect(signers.alice).revokeGrant(1)).to.be.revertedWith(
+      "Grants: Already revoked",
+    );
+  });
+
+  it("should revert on invalid grants", async function () {
+    const expiresAt = (await time.latest()) + DAY;
+    const grant = (grantee: string, indexes: number[], contents: string[], expiry = expiresAt) =>
+      messageGrantsContract.connect(signers.alice).createGrant(grantee, indexes, contents, expiry);
+
+    await expect(grant(signers.alice.address, [0], [seal("first", "alice")])).to.be.revertedWith(
+      "Grants: Invalid grantee",
+    );
+    // Carol has no messaging key to seal to
+    await expect(grant(signers.carol.address, [0], [seal("first", "carol")])).to.be.revertedWith(
+      "Grants: Grantee has no key",
+    );
+    await expect(grant(signers.bob.address, [], [])).to.be.revertedWith("Grants: Invalid message count");
+    await expect(grant(signers.bob.address, [0, 1], [seal("first", "bob")])).to.be.revertedWith(
+      "Grants: Length mismatch",
+    );
+    await expect(grant(signers.bob.address, [0], [seal("first", "bob")], await time.latest())).to.be.revertedWith(
+      "Grants: Invalid expiry",
+    );
+    await expect(grant(signers.bob.address, [0], [seal("first", "bob")], expiresAt + 400 * DAY)).to.be.revertedWith(
+      "Grants: Invalid expiry",
+    );
+    await expect(grant(signers.bob.address, [3], [seal("fourth", "bob")])).to.be.revertedWith(
+      "Grants: Invalid message index",
+    );
+    await expect(grant(signers.bob.address, [0], ["0x"])).to.be.revertedWith("Grants: Invalid content");
+    await expect(messageGrantsContract.getGrant(1)).to.be.revertedWith("Grants: Unknown grant");
+  });
+});
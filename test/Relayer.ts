@@ -0,0 +1,119 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { StoreRequest, buildStoreRequestTypedData } from "../frontend/crypto/storeRequest";
+import { createRelayQueue } from "../tasks/Relayer";
+import { HttpError } from "../tasks/http";
+import { WhisperVault, WhisperVault__factory } from "../types";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+};
+
+async function deployFixture() {
+  const factory = (await ethers.getContractFactory("WhisperVault")) as WhisperVault__factory;
+  const whisperVaultContract = (await factory.deploy()) as WhisperVault;
+  const whisperVaultContractAddress = await whisperVaultContract.getAddress();
+
+  return { whisperVaultContract, whisperVaultContractAddress };
+}
+
+describe("Relayer", function () {
+  let signers: Signers;
+  let whisperVaultContract: WhisperVault;
+  let whisperVaultContractAddress: string;
+  let queue: ReturnType<typeof createRelayQueue>;
+
+  // Sign a store request the way useWhisperVault does before handing it to the relayer
+  async function signRequest(signer: HardhatEthersSigner, threadId: number, message: string, nonce: number) {
+    const { chainId } = await ethers.provider.getNetwork();
+    // The relayer checks the deadline against its clock, the vault against the block time
+    const deadline = Math.max(await time.latest(), Math.floor(Date.now() / 1000)) + 3600;
+    const request: StoreRequest = {
+      user: signer.address as `0x${string}`,
+      threadId,
+      encryptedContents: [ethers.hexlify(ethers.toUtf8Bytes(message))] as `0x${string}`[],
+      isResponses: [false],
+      nonce,
+      deadline,
+    };
+    const {
+      domain,
+      types,
+      message: typedMessage,
+    } = buildStoreRequestTypedData(Number(chainId), whisperVaultContractAddress as `0x${string}`, request);
+    const signature = await signer.signTypedData(domain, { StoreRequest: [...types.StoreRequest] }, typedMessage);
+    return { request, signature: signature as `0x${string}` };
+  }
+
+  // Poll a job until the queue is done with it
+  async function settled(id: number) {
+    for (;;) {
+      const job = queue.get(id);
+      if (!job) throw new Error(`Unknown job ${id}`);
+      if (job.status === "mined" || job.status === "failed") return job;
+      await new Promise((resolve) => setTimeout(resolve, 20));
+    }
+  }
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = { deployer: ethSigners[0], alice: ethSigners[1], bob: ethSigners[2] };
+  });
+
+  beforeEach(async function () {
+    ({ whisperVaultContract, whisperVaultContractAddress } = await deployFixture());
+    const { chainId } = await ethers.provider.getNetwork();
+    queue = createRelayQueue(whisperVaultContract, Number(chainId), whisperVaultContractAddress);
+  });
+
+  it("should relay a user's queued requests in nonce order", async function () {
+    const first = await queue.accept(await signRequest(signers.alice, 0, "First", 0));
+    const second = await queue.accept(await signRequest(signers.alice, 0, "Second", 1));
+
+    expect((await settled(first.id)).status).to.eq("mined");
+    expect((await settled(second.id)).status).to.eq("mined");
+    expect(await whisperVaultContract.nonces(signers.alice.address)).to.eq(2);
+    expect(await whisperVaultContract.getMessageCount(signers.alice.address)).to.eq(2);
+  });
+
+  it("should reject a nonce that doesn't follow the queued requests", async function () {
+    const first = await queue.accept(await signRequest(signers.alice, 0, "First", 0));
+    const error = await queue.accept(await signRequest(signers.alice, 0, "Skipped", 2)).catch((err: Error) => err);
+    expect(error).to.be.instanceOf(HttpError);
+    expect((error as HttpError).status).to.eq(409);
+    expect((error as HttpError).message).to.eq("Expected nonce 1, got 2");
+    expect((await settled(first.id)).status).to.eq("mined");
+  });
+
+  it("should fail a user's queued requests once an earlier one fails", async function () {
+    // Signed up front so the three are queued before the first one is submitted
+    const requests = [
+      await signRequest(signers.alice, 5, "Lost", 0),
+      await signRequest(signers.alice, 0, "Stale", 1),
+      await signRequest(signers.bob, 0, "Unaffected", 0),
+    ];
+    // Thread 5 doesn't exist, so the first request reverts and leaves nonce 0 unused
+    const failing = await queue.accept(requests[0]);
+    const stale = await queue.accept(requests[1]);
+    const other = await queue.accept(requests[2]);
+
+    const failed = await settled(failing.id);
+    expect(failed.status).to.eq("failed");
+    expect(failed.error).to.contain("Vault: Unknown thread");
+    const rejected = await settled(stale.id);
+    expect(rejected.status).to.eq("failed");
+    expect(rejected.error).to.contain(`Job ${failing.id} of the same user failed`);
+    expect(rejected.txHash).to.eq(undefined);
+    expect((await settled(other.id)).status).to.eq("mined");
+
+    // The user signs again from the on-chain nonce
+    expect(await whisperVaultContract.nonces(signers.alice.address)).to.eq(0);
+    const retry = await queue.accept(await signRequest(signers.alice, 0, "Stale", 0));
+    expect((await settled(retry.id)).status).to.eq("mined");
+    expect(await whisperVaultContract.getMessageCount(signers.alice.address)).to.eq(1);
+  });
+});
@@ -0,0 +1,152 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { ethers, fhevm } from "hardhat";
+import { VaultKeyEscrow, VaultKeyEscrow__factory } from "../types";
+import { expect } from "chai";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+  carol: HardhatEthersSigner;
+};
+
+// A data key as the app stores it: its 32 byte key and its 16 byte id, one euint256 each (simulated)
+const KEY = [BigInt(ethers.keccak256(ethers.toUtf8Bytes("data key"))), 0x1234n];
+const COMMITMENT = ethers.keccak256(ethers.toUtf8Bytes("commitment"));
+
+async function deployFixture() {
+  const factory = (await ethers.getContractFactory("VaultKeyEscrow")) as VaultKeyEscrow__factory;
+  const vaultKeyEscrowContract = (await factory.deploy()) as VaultKeyEscrow;
+  const vaultKeyEscrowContractAddress = await vaultKeyEscrowContract.getAddress();
+
+  return { vaultKeyEscrowContract, vaultKeyEscrowContractAddress };
+}
+
+describe("VaultKeyEscrow", function () {
+  let signers: Signers;
+  let vaultKeyEscrowContract: VaultKeyEscrow;
+  let vaultKeyEscrowContractAddress: string;
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = { deployer: ethSigners[0], alice: ethSigners[1], bob: ethSigners[2], carol: ethSigners[3] };
+  });
+
+  beforeEach(async function () {
+    // Check whether the tests are running against an FHEVM mock environment
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    ({ vaultKeyEscrowContract, vaultKeyEscrowContractAddress } = await deployFixture());
+  });
+
+  // Alice stores her data key
+  async function storeKey(chunks = KEY, commitment = COMMITMENT) {
+    const input = fhevm.createEncryptedInput(vaultKeyEscrowContractAddress, signers.alice.address);
+    chunks.forEach((chunk) => input.add256(chunk));
+    const encrypted = await input.encrypt();
+    return vaultKeyEscrowContract.connect(signers.alice).storeKey(encrypted.handles, encrypted.inputProof, commitment);
+  }
+
+  async function decryptKey(owner: HardhatEthersSigner, reader: HardhatEthersSigner) {
+    const [chunks] = await vaultKeyEscrowContract.getKey(owner.address);
+    // One at a time, the mock coprocessor doesn't take concurrent decryptions
+    const values: bigint[] = [];
+    for (const chunk of chunks) {
+      values.push(await fhevm.userDecryptEuint(FhevmType.euint256, chunk, vaultKeyEscrowContractAddress, reader));
+    }
+    return values;
+  }
+
+  it("should let the owner decrypt a stored key", async function () {
+    await expect(storeKey())
+      .to.emit(vaultKeyEscrowContract, "KeyStored")
+      .withArgs(signers.alice.address, 1, COMMITMENT);
+
+    const [chunks, commitment, epoch] = await vaultKeyEscrowContract.getKey(signers.alice.address);
+    expect(chunks.length).to.eq(2);
+    expect(commitment).to.eq(COMMITMENT);
+    expect(epoch).to.eq(1);
+    expect(await decryptKey(signers.alice, signers.alice)).to.deep.eq(KEY);
+    expect(await vaultKeyEscrowContract.hasAccess(signers.alice.address, signers.alice.address)).to.eq(true);
+    expect(await vaultKeyEscrowContract.hasAccess(signers.alice.address, signers.bob.address)).to.eq(false);
+    await expect(decryptKey(signers.alice, signers.bob)).to.be.rejected;
+  });
+
+  it("should let a grantee decrypt the key", async function () {
+    await storeKey();
+    await expect(vaultKeyEscrowContract.connect(signers.alice).grantAccess(signers.bob.address))
+      .to.emit(vaultKeyEscrowContract, "AccessGranted")
+      .withArgs(signers.alice.address, signers.bob.address);
+
+    expect(await vaultKeyEscrowContract.getGrantees(signers.alice.address)).to.deep.eq([signers.bob.address]);
+    expect(await vaultKeyEscrowContract.getSharedWith(signers.bob.address)).to.deep.eq([signers.alice.address]);
+    expect(await vaultKeyEscrowContract.hasAccess(signers.alice.address, signers.bob.address)).to.eq(true);
+    expect(await decryptKey(signers.alice, signers.bob)).to.deep.eq(KEY);
+
+    // Grantees keep their access when the key is replaced
+    const newKey = [KEY[0] + 1n, KEY[1]];
+    await storeKey(newKey);
+    expect(await decryptKey(signers.alice, signers.bob)).to.deep.eq(newKey);
+  });
+
+  it("should move the key to new handles on revocation", async function () {
+    await storeKey();
+    await vaultKeyEscrowContract.connect(signers.alice).grantAccess(signers.bob.address);
+    await vaultKeyEscrowContract.connect(signers.alice).grantAccess(signers.carol.address);
+    const [oldChunks] = await vaultKeyEscrowContract.getKey(signers.alice.address);
+
+    await expect(vaultKeyEscrowContract.connect(signers.alice).revokeAccess(signers.bob.address))
+      .to.emit(vaultKeyEscrowContract, "AccessRevoked")
+      .withArgs(signers.alice.address, signers.bob.address, 2);
+
+    const [chunks, , epoch] = await vaultKeyEscrowContract.getKey(signers.alice.address);
+    expect(epoch).to.eq(2);
+    expect(chunks[0]).to.not.eq(oldChunks[0]);
+    expect(await vaultKeyEscrowContract.getGrantees(signers.alice.address)).to.deep.eq([signers.carol.address]);
+    expect(await vaultKeyEscrowContract.getSharedWith(signers.bob.address)).to.deep.eq([]);
+    expect(await vaultKeyEscrowContract.hasAccess(signers.alice.address, signers.bob.address)).to.eq(false);
+    await expect(decryptKey(signers.alice, signers.bob)).to.be.rejected;
+    expect(await decryptKey(signers.alice, signers.carol)).to.deep.eq(KEY);
+    expect(await decryptKey(signers.alice, signers.alice)).to.deep.eq(KEY);
+  });
+
+  it("should clear the key and its grants", async function () {
+    await storeKey();
+    await vaultKeyEscrowContract.connect(signers.alice).grantAccess(signers.bob.address);
+
+    await expect(vaultKeyEscrowContract.connect(signers.alice).clearKey())
+      .to.emit(vaultKeyEscrowContract, "KeyCleared")
+      .withArgs(signers.alice.address);
+
+    const [chunks, commitment] = await vaultKeyEscrowContract.getKey(signers.alice.address);
+    expect(chunks.length).to.eq(0);
+    expect(commitment).to.eq(ethers.ZeroHash);
+    expect(await vaultKeyEscrowContract.getGrantees(signers.alice.address)).to.deep.eq([]);
+    expect(await vaultKeyEscrowContract.getSharedWith(signers.bob.address)).to.deep.eq([]);
+    expect(await vaultKeyEscrowContract.hasAccess(signers.alice.address, signers.alice.address)).to.eq(false);
+  });
+
+  it("should revert on invalid keys and grants", async function () {
+    await expect(storeKey([KEY[0]])).to.be.revertedWith("Escrow: Invalid key");
+    await expect(storeKey(KEY, ethers.ZeroHash)).to.be.revertedWith("Escrow: Empty commitment");
+    await expect(vaultKeyEscrowContract.connect(signers.alice).grantAccess(signers.bob.address)).to.be.revertedWith(
+      "Escrow: No key stored",
+    );
+
+    await storeKey();
+    await expect(vaultKeyEscrowContract.connect(signers.alice).grantAccess(signers.alice.address)).to.be.revertedWith(
+      "Escrow: Invalid grantee",
+    );
+    await vaultKeyEscrowContract.connect(signers.alice).grantAccess(signers.bob.address);
+    await expect(vaultKeyEscrowContract.connect(signers.alice).grantAccess(signers.bob.address)).to.be.revertedWith(
+      "Escrow: Already granted",
+    );
+    await expect(vaultKeyEscrowContract.connect(signers.alice).revokeAccess(signers.carol.address)).to.be.revertedWith(
+      "Escrow: Not a grantee",
+    );
+  });
+});
@@ -1,6 +1,10 @@
 import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
 import { ethers } from "hardhat";
 import { WhisperVault, WhisperVault__factory } from "../types";
+import { StoreRequest, buildStoreRequestTypedData } from "../frontend/crypto/storeRequest";
+import { createVaultKeyParams, encryptWithKey, getRewriteOptions, openEnvelope } from "../frontend/crypto/envelope";
+import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
 import { expect } from "chai";
 
 type Signers = {
@@ -16,6 +20,13 @@ function encryptMessage(message: string): string {
   return ethers.hexlify(ethers.toUtf8Bytes(message));
 }
 
+// Sign a store request the way useWhisperVault does before handing it to the relayer
+async function signStoreRequest(signer: HardhatEthersSigner, vaultAddress: string, request: StoreRequest) {
+  const { chainId } = await ethers.provider.getNetwork();
+  const { domain, types, message } = buildStoreRequestTypedData(Number(chainId), vaultAddress as `0x${string}`, request);
+  return signer.signTypedData(domain, { StoreRequest: [...types.StoreRequest] }, message);
+}
+
 async function deployFixture() {
   const factory = (await ethers.getContractFactory("WhisperVault")) as WhisperVault__factory;
   const whisperVaultContract = (await factory.deploy()) as WhisperVault;
@@ -146,6 +157,48 @@ describe("WhisperVault", function () {
     expect(allMessages.length).to.eq(3);
   });
 
+  it("should page through messages oldest first", async function () {
+    for (const msg of ["First", "Second", "Third", "Fourth", "Fifth"]) {
+      await whisperVaultContract.connect(signers.alice).storeMessage(encryptMessage(msg));
+    }
+
+    const page = await whisperVaultContract.getMessagesRange(signers.alice.address, 1, 2);
+    expect(page.map((msg) => msg.encryptedContent)).to.deep.eq([encryptMessage("Second"), encryptMessage("Third")]);
+
+    // The last page is cut short, and pages past the end are empty
+    const lastPage = await whisperVaultContract.getMessagesRange(signers.alice.address, 3, 10);
+    expect(lastPage.map((msg) => msg.encryptedContent)).to.deep.eq([encryptMessage("Fourth"), encryptMessage("Fifth")]);
+    expect(await whisperVaultContract.getMessagesRange(signers.alice.address, 5, 10)).to.deep.eq([]);
+    expect(await whisperVaultContract.getMessagesRange(signers.alice.address, 0, 0)).to.deep.eq([]);
+    expect(await whisperVaultContract.getMessagesRange(signers.bob.address, 0, 10)).to.deep.eq([]);
+  });
+
+  it("should page through messages newest first", async function () {
+    for (const msg of ["First", "Second", "Third", "Fourth", "Fifth"]) {
+      await whisperVaultContract.connect(signers.alice).storeMessage(encryptMessage(msg));
+    }
+    await whisperVaultContract.connect(signers.alice).storeResponse(encryptMessage("Reply"));
+
+    const [latest, total] = await whisperVaultContract.getLatestMessages(signers.alice.address, 0, 2);
+    expect(total).to.eq(6);
+    expect(latest.map((msg) => msg.encryptedContent)).to.deep.eq([encryptMessage("Reply"), encryptMessage("Fifth")]);
+    expect(latest[0].isResponse).to.eq(true);
+
+    const [older] = await whisperVaultContract.getLatestMessages(signers.alice.address, 2, 3);
+    expect(older.map((msg) => msg.encryptedContent)).to.deep.eq([
+      encryptMessage("Fourth"),
+      encryptMessage("Third"),
+      encryptMessage("Second"),
+    ]);
+
+    const [oldest] = await whisperVaultContract.getLatestMessages(signers.alice.address, 5, 3);
+    expect(oldest.map((msg) => msg.encryptedContent)).to.deep.eq([encryptMessage("First")]);
+
+    const [pastEnd, totalPastEnd] = await whisperVaultContract.getLatestMessages(signers.alice.address, 6, 3);
+    expect(pastEnd).to.deep.eq([]);
+    expect(totalPastEnd).to.eq(6);
+  });
+
   it("should clear all messages for a user", async function () {
     await whisperVaultContract.connect(signers.alice).storeMessage(encryptMessage("Message to clear"));
 
@@ -178,6 +231,638 @@ describe("WhisperVault", function () {
     expect(bobCount).to.eq(1);
   });
 
+  it("should replace message contents in a batch", async function () {
+    await whisperVaultContract.connect(signers.alice).storeMessage(encryptMessage("Old message"));
+    await whisperVaultContract.connect(signers.alice).storeResponse(encryptMessage("Old response"));
+    const [, timestampBefore] = await whisperVaultContract.getMessageMetadata(signers.alice.address, 1);
+
+    const newMessage = encryptMessage("New message");
+    const newResponse = encryptMessage("New response");
+    await expect(whisperVaultContract.connect(signers.alice).replaceMessages([0, 1], [newMessage, newResponse]))
+      .to.emit(whisperVaultContract, "MessageReplaced")
+      .withArgs(signers.alice.address, 1, ethers.dataLength(newResponse));
+
+    expect(await whisperVaultContract.getEncryptedContent(signers.alice.address, 0)).to.eq(newMessage);
+    expect(await whisperVaultContract.getEncryptedContent(signers.alice.address, 1)).to.eq(newResponse);
+
+    // Metadata is untouched
+    const [sender, timestamp, isResponse] = await whisperVaultContract.getMessageMetadata(signers.alice.address, 1);
+    expect(sender).to.eq(whisperVaultContractAddress);
+    expect(timestamp).to.eq(timestampBefore);
+    expect(isResponse).to.eq(true);
+    expect(await whisperVaultContract.getMessageCount(signers.alice.address)).to.eq(2);
+  });
+
+  it("should only replace the caller's messages", async function () {
+    await whisperVaultContract.connect(signers.alice).storeMessage(encryptMessage("Alice's message"));
+
+    await expect(
+      whisperVaultContract.connect(signers.bob).replaceMessages([0], [encryptMessage("Overwrite")])
+    ).to.be.revertedWith("Vault: Index error");
+    expect(await whisperVaultContract.getEncryptedContent(signers.alice.address, 0)).to.eq(
+      encryptMessage("Alice's message")
+    );
+  });
+
+  it("should revert on invalid replace batches", async function () {
+    await whisperVaultContract.connect(signers.alice).storeMessage(encryptMessage("Message"));
+
+    await expect(
+      whisperVaultContract.connect(signers.alice).replaceMessages([0], [])
+    ).to.be.revertedWith("Vault: Length mismatch");
+    await expect(
+      whisperVaultContract.connect(signers.alice).replaceMessages([0], ["0x"])
+    ).to.be.revertedWith("Empty message");
+    await expect(
+      whisperVaultContract.connect(signers.alice).replaceMessages([0], [ethers.hexlify(new Uint8Array(16385))])
+    ).to.be.revertedWith("Message too large");
+  });
+
+  it("should store a message and its response in one transaction", async function () {
+    await whisperVaultContract.connect(signers.alice).storeMessage(encryptMessage("Earlier"));
+
+    const message = encryptMessage("Hello");
+    const response = encryptMessage("Reply");
+    const tx = whisperVaultContract.connect(signers.alice).storeMessages([message, response], [false, true]);
+    await expect(tx)
+      .to.emit(whisperVaultContract, "MessageStored")
+      .withArgs(signers.alice.address, 1, anyValue, false, ethers.dataLength(message));
+    await expect(tx)
+      .to.emit(whisperVaultContract, "MessageStored")
+      .withArgs(signers.alice.address, 2, anyValue, true, ethers.dataLength(response));
+
+    expect(await whisperVaultContract.getMessageCount(signers.alice.address)).to.eq(3);
+    const [sender, content, , isResponse] = await whisperVaultContract.getMessage(signers.alice.address, 1);
+    expect(sender).to.eq(signers.alice.address);
+    expect(content).to.eq(message);
+    expect(isResponse).to.eq(false);
+
+    // The response is stored exactly like storeResponse would store it
+    const [responseSender, responseContent, , responseIsResponse] = await whisperVaultContract.getMessage(
+      signers.alice.address,
+      2
+    );
+    expect(responseSender).to.eq(whisperVaultContractAddress);
+    expect(responseContent).to.eq(response);
+    expect(responseIsResponse).to.eq(true);
+  });
+
+  it("should revert a whole batch on any invalid entry", async function () {
+    const valid = encryptMessage("Valid");
+
+    await expect(
+      whisperVaultContract.connect(signers.alice).storeMessages([valid, "0x"], [false, true])
+    ).to.be.revertedWith("Empty message");
+    await expect(
+      whisperVaultContract
+        .connect(signers.alice)
+        .storeMessages([valid, ethers.hexlify(new Uint8Array(16385))], [false, false])
+    ).to.be.revertedWith("Message too large");
+    expect(await whisperVaultContract.getMessageCount(signers.alice.address)).to.eq(0);
+
+    await expect(
+      whisperVaultContract.connect(signers.alice).storeMessages([valid], [false, true])
+    ).to.be.revertedWith("Vault: Length mismatch");
+    await expect(whisperVaultContract.connect(signers.alice).storeMessages([], [])).to.be.revertedWith(
+      "Vault: Empty batch"
+    );
+
+    const maxBatch = Number(await whisperVaultContract.MAX_BATCH_SIZE());
+    await expect(
+      whisperVaultContract
+        .connect(signers.alice)
+        .storeMessages(Array(maxBatch + 1).fill(valid), Array(maxBatch + 1).fill(false))
+    ).to.be.revertedWith("Vault: Batch too large");
+  });
+
+  it("should store messages from a request signed by the user", async function () {
+    const message = encryptMessage("Hello");
+    const response = encryptMessage("Reply");
+    const request: StoreRequest = {
+      user: signers.alice.address as `0x${string}`,
+      threadId: 0,
+      encryptedContents: [message, response] as `0x${string}`[],
+      isResponses: [false, true],
+      nonce: 0,
+      deadline: (await time.latest()) + 600,
+    };
+    const signature = await signStoreRequest(signers.alice, whisperVaultContractAddress, request);
+    const submit = () =>
+      whisperVaultContract
+        .connect(signers.bob)
+        .storeMessagesWithSignature(
+          request.user,
+          request.threadId,
+          request.encryptedContents,
+          request.isResponses,
+          request.deadline,
+          signature
+        );
+
+    // Bob relays and pays, the messages land in Alice's vault as her own
+    await expect(submit())
+      .to.emit(whisperVaultContract, "StoreRequestRelayed")
+      .withArgs(signers.alice.address, signers.bob.address, 0);
+    expect(await whisperVaultContract.getMessageCount(signers.alice.address)).to.eq(2);
+    expect(await whisperVaultContract.getMessageCount(signers.bob.address)).to.eq(0);
+    const [sender, content] = await whisperVaultContract.getMessage(signers.alice.address, 0);
+    expect(sender).to.eq(signers.alice.address);
+    expect(content).to.eq(message);
+    const [responseSender] = await whisperVaultContract.getMessage(signers.alice.address, 1);
+    expect(responseSender).to.eq(whisperVaultContractAddress);
+    expect(await whisperVaultContract.nonces(signers.alice.address)).to.eq(1);
+
+    // The nonce was used up, so the request can't be replayed
+    await expect(submit()).to.be.revertedWith("Vault: Invalid signature");
+  });
+
+  it("should revert on invalid signed store requests", async function () {
+    const deadline = (await time.latest()) + 600;
+    const request: StoreRequest = {
+      user: signers.alice.address as `0x${string}`,
+      threadId: 0,
+      encryptedContents: [encryptMessage("Hello")] as `0x${string}`[],
+      isResponses: [false],
+      nonce: 0,
+      deadline,
+    };
+    const submit = (signature: string, changes: Partial<StoreRequest> = {}) => {
+      const sent = { ...request, ...changes };
+      return whisperVaultContract
+        .connect(signers.bob)
+        .storeMessagesWithSignature(
+          sent.user,
+          sent.threadId,
+          sent.encryptedContents,
+          sent.isResponses,
+          sent.deadline,
+          signature
+        );
+    };
+
+    const signature = await signStoreRequest(signers.alice, whisperVaultContractAddress, request);
+    // Signed by someone else, or for other contents, thread or deadline
+    await expect(
+      submit(await signStoreRequest(signers.bob, whisperVaultContractAddress, request))
+    ).to.be.revertedWith("Vault: Invalid signature");
+    await expect(
+      submit(signature, { encryptedContents: [encryptMessage("Tampered")] as `0x${string}`[] })
+    ).to.be.revertedWith("Vault: Invalid signature");
+    await expect(submit(signature, { deadline: deadline + 1 })).to.be.revertedWith("Vault: Invalid signature");
+    await expect(submit(signature, { user: signers.bob.address as `0x${string}` })).to.be.revertedWith(
+      "Vault: Invalid signature"
+    );
+    await expect(submit("0x1234")).to.be.revertedWith("Vault: Invalid signature");
+    // Signed with a nonce that isn't the next one
+    await expect(
+      submit(await signStoreRequest(signers.alice, whisperVaultContractAddress, { ...request, nonce: 1 }))
+    ).to.be.revertedWith("Vault: Invalid signature");
+
+    // A valid request still goes through the usual checks
+    const unknownThread = { ...request, threadId: 1 };
+    await expect(
+      submit(await signStoreRequest(signers.alice, whisperVaultContractAddress, unknownThread), unknownThread)
+    ).to.be.revertedWith("Vault: Unknown thread");
+
+    await time.increaseTo(deadline + 1);
+    await expect(submit(signature)).to.be.revertedWith("Vault: Request expired");
+    expect(await whisperVaultContract.getMessageCount(signers.alice.address)).to.eq(0);
+    expect(await whisperVaultContract.nonces(signers.alice.address)).to.eq(0);
+  });
+
+  it("should delete a message and leave a tombstone", async function () {
+    await whisperVaultContract.connect(signers.alice).storeMessage(encryptMessage("Keep"));
+    await whisperVaultContract.connect(signers.alice).storeMessage(encryptMessage("Delete me"));
+    await whisperVaultContract.connect(signers.alice).storeMessage(encryptMessage("Keep too"));
+    const [, timestampBefore] = await whisperVaultContract.getMessageMetadata(signers.alice.address, 1);
+
+    await expect(whisperVaultContract.connect(signers.alice).deleteMessage(1))
+      .to.emit(whisperVaultContract, "MessageDeleted")
+      .withArgs(signers.alice.address, 1);
+
+    // Indexes don't move, and the tombstone keeps its metadata but not its content
+    expect(await whisperVaultContract.getMessageCount(signers.alice.address)).to.eq(3);
+    expect(await whisperVaultContract.getEncryptedContent(signers.alice.address, 1)).to.eq("0x");
+    expect(await whisperVaultContract.getEncryptedContent(signers.alice.address, 2)).to.eq(encryptMessage("Keep too"));
+    const [sender, timestamp, isResponse] = await whisperVaultContract.getMessageMetadata(signers.alice.address, 1);
+    expect(sender).to.eq(signers.alice.address);
+    expect(timestamp).to.eq(timestampBefore);
+    expect(isResponse).to.eq(false);
+
+    await expect(whisperVaultContract.connect(signers.alice).deleteMessage(1)).to.be.revertedWith(
+      "Vault: Message deleted"
+    );
+    await expect(
+      whisperVaultContract.connect(signers.alice).editMessage(1, encryptMessage("Revived"))
+    ).to.be.revertedWith("Vault: Message deleted");
+    await expect(
+      whisperVaultContract.connect(signers.alice).replaceMessages([1], [encryptMessage("Revived")])
+    ).to.be.revertedWith("Vault: Message deleted");
+    await expect(whisperVaultContract.connect(signers.bob).deleteMessage(0)).to.be.revertedWith("Vault: Index error");
+  });
+
+  it("should edit a message and keep its revisions", async function () {
+    await whisperVaultContract.connect(signers.alice).storeMessage(encryptMessage("Other"));
+    await whisperVaultContract.connect(signers.alice).storeMessage(encryptMessage("Draft"));
+
+    await expect(whisperVaultContract.connect(signers.alice).editMessage(1, encryptMessage("Second draft")))
+      .to.emit(whisperVaultContract, "MessageEdited")
+      .withArgs(signers.alice.address, 1, 1, ethers.dataLength(encryptMessage("Second draft")));
+    await expect(whisperVaultContract.connect(signers.alice).editMessage(1, encryptMessage("Final")))
+      .to.emit(whisperVaultContract, "MessageEdited")
+      .withArgs(signers.alice.address, 1, 2, ethers.dataLength(encryptMessage("Final")));
+
+    expect(await whisperVaultContract.getEncryptedContent(signers.alice.address, 1)).to.eq(encryptMessage("Final"));
+    const revisions = await whisperVaultContract.getRevisions(signers.alice.address, 1);
+    expect(revisions.map((revision) => revision.encryptedContent)).to.deep.eq([
+      encryptMessage("Draft"),
+      encryptMessage("Second draft"),
+    ]);
+    expect(revisions[1].replacedAt).to.be.gte(revisions[0].replacedAt);
+    expect(await whisperVaultContract.getRevisionCounts(signers.alice.address, 0, 10)).to.deep.eq([0n, 2n]);
+    expect(await whisperVaultContract.getRevisionCounts(signers.alice.address, 1, 1)).to.deep.eq([2n]);
+    expect(await whisperVaultContract.getRevisionCounts(signers.alice.address, 2, 10)).to.deep.eq([]);
+
+    await expect(whisperVaultContract.connect(signers.alice).editMessage(1, "0x")).to.be.revertedWith("Empty message");
+    await expect(
+      whisperVaultContract.connect(signers.alice).editMessage(2, encryptMessage("Nothing here"))
+    ).to.be.revertedWith("Vault: Index error");
+
+    // Deleting drops the history with the content
+    await whisperVaultContract.connect(signers.alice).deleteMessage(1);
+    expect(await whisperVaultContract.getRevisions(signers.alice.address, 1)).to.deep.eq([]);
+  });
+
+  it("should keep a padded response a response of the same size when edited", async function () {
+    // Privacy mode stores responses as user messages, flagged inside the padded ciphertext
+    const key = await crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, false, ["encrypt", "decrypt"]);
+    const params = createVaultKeyParams();
+    const { chainId } = await ethers.provider.getNetwork();
+    const context = {
+      owner: signers.alice.address,
+      chainId: Number(chainId),
+      vault: whisperVaultContractAddress,
+      sequence: 0
+    };
+    // Random text doesn't compress, so the response is larger than the smallest bucket
+    const text = ethers.hexlify(ethers.randomBytes(300));
+    const response = "0x" + (await encryptWithKey(text, key, params, { context, pad: true, isResponse: true }));
+    expect(ethers.dataLength(response)).to.eq(512);
+    await whisperVaultContract.connect(signers.alice).storeMessage(response);
+
+    // The edit is shorter and made with privacy mode off, as useWhisperVault.editMessage does it
+    const previous = await openEnvelope(response, [key], context);
+    const edited =
+      "0x" + (await encryptWithKey("Short", key, params, getRewriteOptions(previous, response, context, false)));
+    await whisperVaultContract.connect(signers.alice).editMessage(0, edited);
+
+    const stored = await whisperVaultContract.getEncryptedContent(signers.alice.address, 0);
+    expect(ethers.dataLength(stored)).to.eq(ethers.dataLength(response));
+    expect(await openEnvelope(stored, [key], context)).to.deep.eq({ text: "Short", isResponse: true });
+  });
+
+  it("should replace the revisions of a message", async function () {
+    await whisperVaultContract.connect(signers.alice).storeMessage(encryptMessage("Draft"));
+    await whisperVaultContract.connect(signers.alice).editMessage(0, encryptMessage("Second draft"));
+    await whisperVaultContract.connect(signers.alice).editMessage(0, encryptMessage("Final"));
+    const before = await whisperVaultContract.getRevisions(signers.alice.address, 0);
+
+    const rewritten = [encryptMessage("Draft, new key"), encryptMessage("Second draft, new key")];
+    await expect(whisperVaultContract.connect(signers.alice).replaceRevisions(0, rewritten))
+      .to.emit(whisperVaultContract, "RevisionsReplaced")
+      .withArgs(signers.alice.address, 0, 2);
+
+    const revisions = await whisperVaultContract.getRevisions(signers.alice.address, 0);
+    expect(revisions.map((revision) => revision.encryptedContent)).to.deep.eq(rewritten);
+    expect(revisions.map((revision) => revision.replacedAt)).to.deep.eq(before.map((revision) => revision.replacedAt));
+    expect(await whisperVaultContract.getEncryptedContent(signers.alice.address, 0)).to.eq(encryptMessage("Final"));
+
+    await expect(
+      whisperVaultContract.connect(signers.alice).replaceRevisions(0, [encryptMessage("Only one")])
+    ).to.be.revertedWith("Vault: Length mismatch");
+    await expect(
+      whisperVaultContract.connect(signers.alice).replaceRevisions(0, [rewritten[0], "0x"])
+    ).to.be.revertedWith("Empty message");
+    // Only the caller's own revisions
+    await expect(whisperVaultContract.connect(signers.bob).replaceRevisions(0, rewritten)).to.be.revertedWith(
+      "Vault: Index error"
+    );
+  });
+
+  it("should not carry revisions over a clear", async function () {
+    await whisperVaultContract.connect(signers.alice).storeMessage(encryptMessage("Old"));
+    await whisperVaultContract.connect(signers.alice).editMessage(0, encryptMessage("Old, edited"));
+
+    await whisperVaultContract.connect(signers.alice).clearMessages();
+    await whisperVaultContract.connect(signers.alice).storeMessage(encryptMessage("New"));
+
+    expect(await whisperVaultContract.getRevisions(signers.alice.address, 0)).to.deep.eq([]);
+    expect(await whisperVaultContract.getRevisionCounts(signers.alice.address, 0, 10)).to.deep.eq([0n]);
+  });
+
+  it("should store encrypted labels per message", async function () {
+    await whisperVaultContract.connect(signers.alice).storeMessage(encryptMessage("Message"));
+    await whisperVaultContract.connect(signers.alice).storeResponse(encryptMessage("Response"));
+    expect(await whisperVaultContract.getLabels(signers.alice.address, 0)).to.eq("0x");
+
+    const labels = encryptMessage("Encrypted labels");
+    await expect(whisperVaultContract.connect(signers.alice).setLabels([0, 1], [labels, labels]))
+      .to.emit(whisperVaultContract, "LabelsUpdated")
+      .withArgs(signers.alice.address, 1, ethers.dataLength(labels));
+
+    expect(await whisperVaultContract.getLabels(signers.alice.address, 0)).to.eq(labels);
+    // Labels come with paged reads, and edits keep them
+    await whisperVaultContract.connect(signers.alice).editMessage(0, encryptMessage("Edited"));
+    const page = await whisperVaultContract.getMessagesRange(signers.alice.address, 0, 2);
+    expect(page.map((msg) => msg.label)).to.deep.eq([labels, labels]);
+
+    // Empty labels remove them, and deleting a message drops its labels
+    await whisperVaultContract.connect(signers.alice).setLabels([1], ["0x"]);
+    expect(await whisperVaultContract.getLabels(signers.alice.address, 1)).to.eq("0x");
+    await whisperVaultContract.connect(signers.alice).deleteMessage(0);
+    expect(await whisperVaultContract.getLabels(signers.alice.address, 0)).to.eq("0x");
+  });
+
+  it("should revert on invalid labels", async function () {
+    await whisperVaultContract.connect(signers.alice).storeMessage(encryptMessage("Message"));
+    await whisperVaultContract.connect(signers.alice).storeMessage(encryptMessage("Deleted"));
+    await whisperVaultContract.connect(signers.alice).deleteMessage(1);
+    const labels = encryptMessage("Labels");
+
+    await expect(whisperVaultContract.connect(signers.alice).setLabels([0], [])).to.be.revertedWith(
+      "Vault: Length mismatch"
+    );
+    await expect(whisperVaultContract.connect(signers.alice).setLabels([2], [labels])).to.be.revertedWith(
+      "Vault: Index error"
+    );
+    await expect(whisperVaultContract.connect(signers.alice).setLabels([1], [labels])).to.be.revertedWith(
+      "Vault: Message deleted"
+    );
+    await expect(whisperVaultContract.connect(signers.bob).setLabels([0], [labels])).to.be.revertedWith(
+      "Vault: Index error"
+    );
+
+    const maxSize = Number(await whisperVaultContract.MAX_LABEL_SIZE());
+    await expect(
+      whisperVaultContract.connect(signers.alice).setLabels([0], [ethers.hexlify(new Uint8Array(maxSize + 1))])
+    ).to.be.revertedWith("Labels too large");
+  });
+
+  it("should create, rename and archive threads", async function () {
+    const title = encryptMessage("Encrypted title");
+    await expect(whisperVaultContract.connect(signers.alice).createThread(title))
+      .to.emit(whisperVaultContract, "ThreadCreated")
+      .withArgs(signers.alice.address, 1, ethers.dataLength(title));
+    await whisperVaultContract.connect(signers.alice).createThread(encryptMessage("Second"));
+
+    const newTitle = encryptMessage("Renamed");
+    await expect(whisperVaultContract.connect(signers.alice).renameThread(1, newTitle))
+      .to.emit(whisperVaultContract, "ThreadRenamed")
+      .withArgs(signers.alice.address, 1, ethers.dataLength(newTitle));
+    await expect(whisperVaultContract.connect(signers.alice).setThreadArchived(2, true))
+      .to.emit(whisperVaultContract, "ThreadArchived")
+      .withArgs(signers.alice.address, 2, true);
+
+    const [threads, counts] = await whisperVaultContract.getThreads(signers.alice.address);
+    expect(threads.map((thread) => thread.title)).to.deep.eq([newTitle, encryptMessage("Second")]);
+    expect(threads.map((thread) => thread.archived)).to.deep.eq([false, true]);
+    expect(threads[0].createdAt).to.be.gt(0);
+    // One count per thread, plus the default conversation
+    expect(counts).to.deep.eq([0n, 0n, 0n]);
+
+    const [bobThreads, bobCounts] = await whisperVaultContract.getThreads(signers.bob.address);
+    expect(bobThreads.length).to.eq(0);
+    expect(bobCounts).to.deep.eq([0n]);
+  });
+
+  it("should page through the messages of a thread", async function () {
+    await whisperVaultContract.connect(signers.alice).createThread(encryptMessage("Thread"));
+    await whisperVaultContract.connect(signers.alice).storeMessage(encryptMessage("Default 0"));
+    await whisperVaultContract
+      .connect(signers.alice)
+      .storeThreadMessages(1, [encryptMessage("Thread 0"), encryptMessage("Thread 1")], [false, true]);
+    await whisperVaultContract.connect(signers.alice).storeMessages([encryptMessage("Default 1")], [false]);
+    await whisperVaultContract.connect(signers.alice).storeThreadMessages(1, [encryptMessage("Thread 2")], [false]);
+
+    // Messages keep their vault-wide index
+    expect(await whisperVaultContract.getMessageCount(signers.alice.address)).to.eq(5);
+    const [, counts] = await whisperVaultContract.getThreads(signers.alice.address);
+    expect(counts).to.deep.eq([2n, 3n]);
+
+    const [page, indexes] = await whisperVaultContract.getThreadMessagesRange(signers.alice.address, 1, 1, 10);
+    expect(indexes).to.deep.eq([2n, 4n]);
+    expect(page.map((msg) => msg.encryptedContent)).to.deep.eq([encryptMessage("Thread 1"), encryptMessage("Thread 2")]);
+    expect(page[0].isResponse).to.eq(true);
+
+    const [latest, latestIndexes, total] = await whisperVaultContract.getLatestThreadMessages(
+      signers.alice.address,
+      0,
+      0,
+      10
+    );
+    expect(total).to.eq(2);
+    expect(latestIndexes).to.deep.eq([3n, 0n]);
+    expect(latest.map((msg) => msg.encryptedContent)).to.deep.eq([encryptMessage("Default 1"), encryptMessage("Default 0")]);
+
+    const [empty, emptyIndexes, threadTotal] = await whisperVaultContract.getLatestThreadMessages(
+      signers.alice.address,
+      1,
+      3,
+      10
+    );
+    expect(empty.length).to.eq(0);
+    expect(emptyIndexes.length).to.eq(0);
+    expect(threadTotal).to.eq(3);
+
+    // Revision counts follow the indexes of a page
+    await whisperVaultContract.connect(signers.alice).editMessage(4, encryptMessage("Thread 2, edited"));
+    expect(await whisperVaultContract.getRevisionCountsAt(signers.alice.address, [2, 4])).to.deep.eq([0n, 1n]);
+  });
+
+  it("should empty threads when messages are cleared", async function () {
+    await whisperVaultContract.connect(signers.alice).createThread(encryptMessage("Thread"));
+    await whisperVaultContract.connect(signers.alice).storeThreadMessages(1, [encryptMessage("Old")], [false]);
+    await whisperVaultContract.connect(signers.alice).clearMessages();
+    await whisperVaultContract.connect(signers.alice).storeMessage(encryptMessage("New"));
+
+    const [threads, counts] = await whisperVaultContract.getThreads(signers.alice.address);
+    expect(threads.length).to.eq(1);
+    expect(counts).to.deep.eq([1n, 0n]);
+    const [, indexes] = await whisperVaultContract.getThreadMessagesRange(signers.alice.address, 0, 0, 10);
+    expect(indexes).to.deep.eq([0n]);
+  });
+
+  it("should revert on invalid thread operations", async function () {
+    const title = encryptMessage("Title");
+    await whisperVaultContract.connect(signers.alice).createThread(title);
+    await whisperVaultContract.connect(signers.alice).setThreadArchived(1, true);
+
+    await expect(whisperVaultContract.connect(signers.alice).createThread("0x")).to.be.revertedWith(
+      "Vault: Empty title"
+    );
+    const maxSize = Number(await whisperVaultContract.MAX_TITLE_SIZE());
+    await expect(
+      whisperVaultContract.connect(signers.alice).createThread(ethers.hexlify(new Uint8Array(maxSize + 1)))
+    ).to.be.revertedWith("Vault: Title too large");
+
+    // The default conversation has no title, and threads belong to their creator
+    await expect(whisperVaultContract.connect(signers.alice).renameThread(0, title)).to.be.revertedWith(
+      "Vault: Unknown thread"
+    );
+    await expect(whisperVaultContract.connect(signers.alice).setThreadArchived(2, true)).to.be.revertedWith(
+      "Vault: Unknown thread"
+    );
+    await expect(whisperVaultContract.connect(signers.bob).renameThread(1, title)).to.be.revertedWith(
+      "Vault: Unknown thread"
+    );
+
+    await expect(
+      whisperVaultContract.connect(signers.alice).storeThreadMessages(2, [encryptMessage("Message")], [false])
+    ).to.be.revertedWith("Vault: Unknown thread");
+    await expect(
+      whisperVaultContract.connect(signers.alice).storeThreadMessages(1, [encryptMessage("Message")], [false])
+    ).to.be.revertedWith("Vault: Thread archived");
+    await expect(whisperVaultContract.connect(signers.alice).storeThreadMessages(0, [], [])).to.be.revertedWith(
+      "Vault: Empty batch"
+    );
+    await expect(whisperVaultContract.getRevisionCountsAt(signers.alice.address, [0])).to.be.revertedWith(
+      "Vault: Index error"
+    );
+  });
+
+  it("should publish messaging keys", async function () {
+    const key = ethers.id("alice messaging key");
+    expect(await whisperVaultContract.getMessagingKey(signers.alice.address)).to.eq(ethers.ZeroHash);
+
+    await expect(whisperVaultContract.connect(signers.alice).setMessagingKey(key))
+      .to.emit(whisperVaultContract, "MessagingKeySet")
+      .withArgs(signers.alice.address, key);
+    expect(await whisperVaultContract.getMessagingKey(signers.alice.address)).to.eq(key);
+
+    await expect(whisperVaultContract.connect(signers.alice).setMessagingKey(ethers.ZeroHash)).to.be.revertedWith(
+      "Vault: Empty key"
+    );
+  });
+
+  it("should send direct messages between two addresses", async function () {
+    await whisperVaultContract.connect(signers.alice).setMessagingKey(ethers.id("alice"));
+    await whisperVaultContract.connect(signers.bob).setMessagingKey(ethers.id("bob"));
+
+    const hello = encryptMessage("Hello Bob");
+    await expect(whisperVaultContract.connect(signers.alice).sendDirectMessage(signers.bob.address, hello))
+      .to.emit(whisperVaultContract, "DirectMessageSent")
+      .withArgs(signers.alice.address, signers.bob.address, 0, ethers.dataLength(hello));
+    await whisperVaultContract.connect(signers.bob).sendDirectMessage(signers.alice.address, encryptMessage("Hi"));
+    await whisperVaultContract.connect(signers.alice).sendDirectMessage(signers.bob.address, encryptMessage("Bye"));
+
+    // Both parties read the same conversation, in either order
+    const page = await whisperVaultContract.getDirectMessagesRange(signers.bob.address, signers.alice.address, 0, 10);
+    expect(page.map((message) => message.sender)).to.deep.eq([
+      signers.alice.address,
+      signers.bob.address,
+      signers.alice.address,
+    ]);
+    expect(page[0].encryptedContent).to.eq(hello);
+
+    const [latest, total] = await whisperVaultContract.getLatestDirectMessages(
+      signers.alice.address,
+      signers.bob.address,
+      1,
+      1
+    );
+    expect(total).to.eq(3);
+    expect(latest[0].encryptedContent).to.eq(encryptMessage("Hi"));
+
+    const [alicePeers, aliceCounts, aliceTimes] = await whisperVaultContract.getInbox(signers.alice.address);
+    expect(alicePeers).to.deep.eq([signers.bob.address]);
+    expect(aliceCounts).to.deep.eq([3n]);
+    expect(aliceTimes[0]).to.eq(page[2].timestamp);
+    const [bobPeers] = await whisperVaultContract.getInbox(signers.bob.address);
+    expect(bobPeers).to.deep.eq([signers.alice.address]);
+
+    // Direct messages are not part of either vault, and clearing a vault keeps them
+    expect(await whisperVaultContract.getMessageCount(signers.alice.address)).to.eq(0);
+    await whisperVaultContract.connect(signers.alice).clearMessages();
+    const [, totalAfterClear] = await whisperVaultContract.getLatestDirectMessages(
+      signers.alice.address,
+      signers.bob.address,
+      0,
+      10
+    );
+    expect(totalAfterClear).to.eq(3);
+  });
+
+  it("should keep conversations apart", async function () {
+    const carol = signers.deployer;
+    for (const signer of [signers.alice, signers.bob, carol]) {
+      await whisperVaultContract.connect(signer).setMessagingKey(ethers.id(signer.address));
+    }
+    await whisperVaultContract.connect(signers.alice).sendDirectMessage(signers.bob.address, encryptMessage("To Bob"));
+    await whisperVaultContract.connect(carol).sendDirectMessage(signers.alice.address, encryptMessage("To Alice"));
+
+    const [peers, counts] = await whisperVaultContract.getInbox(signers.alice.address);
+    expect(peers).to.deep.eq([signers.bob.address, carol.address]);
+    expect(counts).to.deep.eq([1n, 1n]);
+    const [bobPeers] = await whisperVaultContract.getInbox(signers.bob.address);
+    expect(bobPeers).to.deep.eq([signers.alice.address]);
+    expect(await whisperVaultContract.getDirectMessagesRange(signers.bob.address, carol.address, 0, 10)).to.deep.eq([]);
+  });
+
+  it("should revert on invalid direct messages", async function () {
+    const message = encryptMessage("Hello");
+    await expect(
+      whisperVaultContract.connect(signers.alice).sendDirectMessage(signers.bob.address, message)
+    ).to.be.revertedWith("Vault: No messaging key");
+
+    await whisperVaultContract.connect(signers.alice).setMessagingKey(ethers.id("alice"));
+    await expect(
+      whisperVaultContract.connect(signers.alice).sendDirectMessage(signers.bob.address, message)
+    ).to.be.revertedWith("Vault: Recipient has no key");
+    await expect(
+      whisperVaultContract.connect(signers.alice).sendDirectMessage(signers.alice.address, message)
+    ).to.be.revertedWith("Vault: Invalid recipient");
+    await expect(
+      whisperVaultContract.connect(signers.alice).sendDirectMessage(ethers.ZeroAddress, message)
+    ).to.be.revertedWith("Vault: Invalid recipient");
+
+    await whisperVaultContract.connect(signers.bob).setMessagingKey(ethers.id("bob"));
+    await expect(
+      whisperVaultContract.connect(signers.alice).sendDirectMessage(signers.bob.address, "0x")
+    ).to.be.revertedWith("Empty message");
+    await expect(
+      whisperVaultContract
+        .connect(signers.alice)
+        .sendDirectMessage(signers.bob.address, ethers.hexlify(new Uint8Array(16385)))
+    ).to.be.revertedWith("Message too large");
+  });
+
+  it("should store a key check per user", async function () {
+    expect(await whisperVaultContract.getKeyCheck(signers.alice.address)).to.eq("0x");
+
+    const keyCheck = encryptMessage("Key check");
+    await expect(whisperVaultContract.connect(signers.alice).setKeyCheck(keyCheck))
+      .to.emit(whisperVaultContract, "KeyCheckUpdated")
+      .withArgs(signers.alice.address, ethers.dataLength(keyCheck));
+
+    expect(await whisperVaultContract.getKeyCheck(signers.alice.address)).to.eq(keyCheck);
+    expect(await whisperVaultContract.getKeyCheck(signers.bob.address)).to.eq("0x");
+
+    // Replaced on password change, kept when messages are cleared
+    const newKeyCheck = encryptMessage("New key check");
+    await whisperVaultContract.connect(signers.alice).setKeyCheck(newKeyCheck);
+    await whisperVaultContract.connect(signers.alice).clearMessages();
+    expect(await whisperVaultContract.getKeyCheck(signers.alice.address)).to.eq(newKeyCheck);
+  });
+
+  it("should revert on invalid key checks", async function () {
+    await expect(whisperVaultContract.connect(signers.alice).setKeyCheck("0x")).to.be.revertedWith(
+      "Empty key check"
+    );
+    await expect(
+      whisperVaultContract.connect(signers.alice).setKeyCheck(ethers.hexlify(new Uint8Array(1025)))
+    ).to.be.revertedWith("Key check too large");
+  });
+
   it("should revert on empty message", async function () {
     await expect(
       whisperVaultContract.connect(signers.alice).storeMessage("0x")